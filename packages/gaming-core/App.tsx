@@ -12,6 +12,11 @@ import { store } from './store/store';
 import { GameEmulationEngine } from './core/GameEmulationEngine';
 import { EdgeIOIntegration } from './core/EdgeIOIntegration';
 import { PerformanceEngine } from './core/PerformanceEngine';
+import { PerformanceTelemetry } from './core/PerformanceTelemetry';
+import { QualityGovernor } from './core/QualityGovernor';
+import { CloudSaveSync } from './core/CloudSaveSync';
+import { DownloadManager } from './core/DownloadManager';
+import { SessionTracker } from './core/SessionTracker';
 import { HomeScreen } from './screens/HomeScreen';
 import { GameLibraryScreen } from './screens/GameLibraryScreen';
 import { EmulatorScreen } from './screens/EmulatorScreen';
@@ -47,6 +52,10 @@ export default function App() {
       await performanceEngine.initialize();
       await performanceEngine.optimize();
       await performanceEngine.startMonitoring();
+      // Subscribes to emulator frames so every game session is measured
+      PerformanceTelemetry.getInstance();
+      // Per-game quality overrides load before the first game starts
+      await QualityGovernor.getInstance().initialize();
 
       // Initialize emulation engine
       await emulationEngine.initialize();
@@ -58,6 +67,12 @@ export default function App() {
         streamingQuality: 'ultra'
       });
 
+      // Cloud save sync retries its offline queue once EdgeIO connects
+      await CloudSaveSync.getInstance().initialize();
+      // Downloads interrupted by the last shutdown resume from their last verified chunk
+      await DownloadManager.getInstance().initialize();
+      // Records sessions the last run could not end before it was closed
+      await SessionTracker.getInstance().initialize();
       await edgeIO.connect();
 
       setIsInitialized(true);
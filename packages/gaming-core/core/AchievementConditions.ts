@@ -0,0 +1,374 @@
+// 3kMLV Arcade - Achievement Conditions
+// RetroAchievements-style trigger DSL: parsing, memory references and per-frame evaluation
+//
+// A trigger is a core group optionally followed by alternate groups, separated by "S"; it fires
+// when the core group and at least one alternate (if any) are true on the same frame. Conditions
+// within a group are joined by "_" and all must hold:
+//
+//   [flag:]operand[cmp operand][.hits.]
+//
+//   operand  0x<size><hex address> reads memory (little-endian); prefix "d" for last frame's value
+//            or "p" for the value before it last changed; constants are decimal or "h"-prefixed hex
+//   size     H 8-bit, none 16-bit, W 24-bit, X 32-bit, L/U low/high nibble, M..T bit 0..7, K bit count
+//   cmp      = != < <= > >=
+//   hits     the condition must have been true on this many frames (it stays true afterwards)
+//   flag     R: reset all hit counts while true   P: pause the group while true
+//            A:/B: add/subtract the operand to the next condition's left side
+//            M: measured, reported as progress towards the comparison target or hit count
+//
+// e.g. "0xH0010=3_d0xH0020<0xH0020.5._R:0xH0030=0" - stage 3, value at 0x20 rose on five frames,
+// and the player never hit zero lives along the way.
+
+export type MemorySize =
+  | 'bit0' | 'bit1' | 'bit2' | 'bit3' | 'bit4' | 'bit5' | 'bit6' | 'bit7'
+  | 'lower4' | 'upper4' | '8bit' | '16bit' | '24bit' | '32bit' | 'bitcount';
+
+export type Comparison = '=' | '!=' | '<' | '<=' | '>' | '>=';
+
+export type ConditionFlag = 'reset' | 'pause' | 'addSource' | 'subSource' | 'measured' | null;
+
+export type Operand =
+  | { type: 'value'; value: number }
+  | { type: 'memory' | 'delta' | 'prior'; size: MemorySize; address: number };
+
+export interface Condition {
+  flag: ConditionFlag;
+  left: Operand;
+  comparison: Comparison | null;
+  right: Operand | null;
+  requiredHits: number;
+}
+
+export interface Trigger {
+  core: Condition[];
+  alternates: Condition[][];
+}
+
+export interface MemoryRange {
+  address: number;
+  length: number;
+}
+
+// Little-endian reads over whatever ranges were fetched this frame; unread bytes are 0
+export interface MemoryView {
+  readByte(address: number): number;
+}
+
+export interface TriggerResult {
+  triggered: boolean;
+  // A reset condition fired this frame
+  reset: boolean;
+  // Measured progress, when the trigger has an M: condition
+  progress: number | null;
+  maxProgress: number | null;
+}
+
+export class AchievementSyntaxError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AchievementSyntaxError';
+  }
+}
+
+const SIZE_CODES: Record<string, MemorySize> = {
+  'H': '8bit',
+  '': '16bit',
+  ' ': '16bit',
+  'W': '24bit',
+  'X': '32bit',
+  'L': 'lower4',
+  'U': 'upper4',
+  'M': 'bit0',
+  'N': 'bit1',
+  'O': 'bit2',
+  'P': 'bit3',
+  'Q': 'bit4',
+  'R': 'bit5',
+  'S': 'bit6',
+  'T': 'bit7',
+  'K': 'bitcount'
+};
+
+const SIZE_BYTES: Record<MemorySize, number> = {
+  bit0: 1, bit1: 1, bit2: 1, bit3: 1, bit4: 1, bit5: 1, bit6: 1, bit7: 1,
+  lower4: 1, upper4: 1, '8bit': 1, bitcount: 1, '16bit': 2, '24bit': 3, '32bit': 4
+};
+
+const FLAGS: Record<string, ConditionFlag> = {
+  R: 'reset',
+  P: 'pause',
+  A: 'addSource',
+  B: 'subSource',
+  M: 'measured'
+};
+
+const OPERAND_PATTERN = /^(d|p)?0x([HWXLUMNOPQRSTK ]?)([0-9a-fA-F]+)$/;
+const CONDITION_PATTERN = /^(?:([RPABM]):)?(.+?)(?:(<=|>=|!=|=|<|>)(.+?))?(?:\.(\d+)\.)?$/;
+
+function parseOperand(text: string): Operand {
+  const memory = OPERAND_PATTERN.exec(text);
+  if (memory) {
+    const size = SIZE_CODES[memory[2]!];
+    if (!size) {
+      throw new AchievementSyntaxError(`Unknown memory size in "${text}"`);
+    }
+    const type = memory[1] === 'd' ? 'delta' : memory[1] === 'p' ? 'prior' : 'memory';
+    return { type, size, address: parseInt(memory[3]!, 16) };
+  }
+  if (/^h[0-9a-fA-F]+$/.test(text)) {
+    return { type: 'value', value: parseInt(text.slice(1), 16) };
+  }
+  if (/^\d+$/.test(text)) {
+    return { type: 'value', value: parseInt(text, 10) };
+  }
+  throw new AchievementSyntaxError(`Invalid operand "${text}"`);
+}
+
+function parseCondition(text: string): Condition {
+  const match = CONDITION_PATTERN.exec(text);
+  if (!match) {
+    throw new AchievementSyntaxError(`Invalid condition "${text}"`);
+  }
+
+  const flag = match[1] ? FLAGS[match[1]]! : null;
+  const isSource = flag === 'addSource' || flag === 'subSource';
+  if (isSource === Boolean(match[3])) {
+    throw new AchievementSyntaxError(isSource
+      ? `"${text}" adds a value and cannot compare`
+      : `"${text}" needs a comparison`);
+  }
+
+  return {
+    flag,
+    left: parseOperand(match[2]!),
+    comparison: (match[3] as Comparison | undefined) ?? null,
+    right: match[4] ? parseOperand(match[4]) : null,
+    requiredHits: match[5] ? parseInt(match[5], 10) : 0
+  };
+}
+
+function parseGroup(text: string): Condition[] {
+  const conditions = text.split('_').map(parseCondition);
+  const last = conditions[conditions.length - 1]!;
+  if (last.flag === 'addSource' || last.flag === 'subSource') {
+    throw new AchievementSyntaxError('AddSource/SubSource must be followed by a condition');
+  }
+  return conditions;
+}
+
+export function parseTrigger(text: string): Trigger {
+  const source = text.trim();
+  if (!source) {
+    throw new AchievementSyntaxError('Trigger is empty');
+  }
+
+  // "S" separates groups unless it is a bit-6 size code right after "0x"
+  const [core, ...alternates] = source.split(/(?<!0x)S/);
+  return {
+    core: core ? parseGroup(core) : [],
+    alternates: alternates.map(parseGroup)
+  };
+}
+
+// Byte ranges a trigger reads, merged when they are close enough to fetch together
+export function triggerMemoryRanges(triggers: Trigger[], mergeGap: number = 16): MemoryRange[] {
+  const spans: Array<[number, number]> = [];
+  for (const trigger of triggers) {
+    for (const condition of [trigger.core, ...trigger.alternates].flat()) {
+      for (const operand of [condition.left, condition.right]) {
+        if (operand && operand.type !== 'value') {
+          spans.push([operand.address, operand.address + SIZE_BYTES[operand.size]]);
+        }
+      }
+    }
+  }
+
+  spans.sort((a, b) => a[0] - b[0]);
+  const ranges: MemoryRange[] = [];
+  for (const [start, end] of spans) {
+    const last = ranges[ranges.length - 1];
+    if (last && start <= last.address + last.length + mergeGap) {
+      last.length = Math.max(last.length, end - last.address);
+    } else {
+      ranges.push({ address: start, length: end - start });
+    }
+  }
+  return ranges;
+}
+
+function readSize(memory: MemoryView, size: MemorySize, address: number): number {
+  const byte = memory.readByte(address);
+  switch (size) {
+    case '8bit':
+      return byte;
+    case '16bit':
+      return byte | (memory.readByte(address + 1) << 8);
+    case '24bit':
+      return byte | (memory.readByte(address + 1) << 8) | (memory.readByte(address + 2) << 16);
+    case '32bit':
+      return (byte | (memory.readByte(address + 1) << 8) | (memory.readByte(address + 2) << 16) | (memory.readByte(address + 3) << 24)) >>> 0;
+    case 'lower4':
+      return byte & 0x0f;
+    case 'upper4':
+      return byte >> 4;
+    case 'bitcount': {
+      let count = 0;
+      for (let bits = byte; bits; bits &= bits - 1) {
+        count++;
+      }
+      return count;
+    }
+    default:
+      return (byte >> Number(size.slice(3))) & 1;
+  }
+}
+
+function compare(left: number, comparison: Comparison, right: number): boolean {
+  switch (comparison) {
+    case '=': return left === right;
+    case '!=': return left !== right;
+    case '<': return left < right;
+    case '<=': return left <= right;
+    case '>': return left > right;
+    case '>=': return left >= right;
+  }
+}
+
+// Tracks current, last-frame and prior values for one memory operand
+class OperandState {
+  private current = 0;
+  private previous = 0;
+  private prior = 0;
+
+  constructor(private operand: Operand) {}
+
+  update(memory: MemoryView): void {
+    if (this.operand.type === 'value') {
+      return;
+    }
+    const value = readSize(memory, this.operand.size, this.operand.address);
+    this.previous = this.current;
+    if (value !== this.current) {
+      this.prior = this.current;
+    }
+    this.current = value;
+  }
+
+  value(): number {
+    switch (this.operand.type) {
+      case 'value': return this.operand.value;
+      case 'delta': return this.previous;
+      case 'prior': return this.prior;
+      default: return this.current;
+    }
+  }
+}
+
+interface ConditionState {
+  condition: Condition;
+  left: OperandState;
+  right: OperandState | null;
+  hits: number;
+}
+
+// Runtime for one parsed trigger; call evaluate() once per emulated frame
+export class TriggerState {
+  private groups: ConditionState[][];
+  private measured: { progress: number; maxProgress: number } | null = null;
+
+  constructor(trigger: Trigger) {
+    this.groups = [trigger.core, ...trigger.alternates].map(group => group.map(condition => ({
+      condition,
+      left: new OperandState(condition.left),
+      right: condition.right ? new OperandState(condition.right) : null,
+      hits: 0
+    })));
+  }
+
+  evaluate(memory: MemoryView): TriggerResult {
+    for (const group of this.groups) {
+      for (const state of group) {
+        state.left.update(memory);
+        state.right?.update(memory);
+      }
+    }
+
+    let reset = false;
+    const results = this.groups.map(group => {
+      const outcome = this.evaluateGroup(group);
+      reset = reset || outcome.reset;
+      return outcome.true;
+    });
+    if (reset) {
+      this.resetHits();
+    }
+
+    const [core, ...alternates] = results;
+    const triggered = !reset && core !== false && (alternates.length === 0 || alternates.some(Boolean));
+    return {
+      triggered,
+      reset,
+      progress: this.measured?.progress ?? null,
+      maxProgress: this.measured?.maxProgress ?? null
+    };
+  }
+
+  // Clears hit counts, e.g. after a save state load
+  resetHits(): void {
+    this.groups.flat().forEach(state => {
+      state.hits = 0;
+    });
+  }
+
+  private evaluateGroup(group: ConditionState[]): { true: boolean; reset: boolean } {
+    // A paused group keeps its hit counts but neither counts nor resets
+    if (this.check(group, state => state.condition.flag === 'pause').some(entry => entry.result)) {
+      return { true: false, reset: false };
+    }
+
+    let allTrue = true;
+    let reset = false;
+    for (const { state, result } of this.check(group, state => state.condition.flag !== 'pause')) {
+      if (state.condition.flag === 'reset') {
+        reset = reset || result;
+      } else {
+        allTrue = allTrue && result;
+      }
+    }
+    return { true: allTrue, reset };
+  }
+
+  // Evaluates the matching conditions in order, threading AddSource/SubSource into the next one
+  private check(group: ConditionState[], include: (state: ConditionState) => boolean): Array<{ state: ConditionState; result: boolean }> {
+    const results: Array<{ state: ConditionState; result: boolean }> = [];
+    let accumulator = 0;
+
+    for (const state of group) {
+      const { condition } = state;
+      if (condition.flag === 'addSource' || condition.flag === 'subSource') {
+        accumulator += condition.flag === 'addSource' ? state.left.value() : -state.left.value();
+        continue;
+      }
+      const left = accumulator + state.left.value();
+      accumulator = 0;
+      if (!include(state)) {
+        continue;
+      }
+
+      const right = state.right!.value();
+      const current = compare(left, condition.comparison!, right);
+      if (current && (condition.requiredHits === 0 || state.hits < condition.requiredHits)) {
+        state.hits++;
+      }
+      const result = condition.requiredHits > 0 ? state.hits >= condition.requiredHits : current;
+      results.push({ state, result });
+
+      if (condition.flag === 'measured') {
+        this.measured = condition.requiredHits > 0
+          ? { progress: Math.min(state.hits, condition.requiredHits), maxProgress: condition.requiredHits }
+          : { progress: result ? right : Math.min(Math.max(left, 0), right), maxProgress: right };
+      }
+    }
+    return results;
+  }
+}
@@ -0,0 +1,82 @@
+import { EventEmitter } from 'events';
+import { AchievementEngine, AchievementUnlock } from './AchievementEngine';
+import type { GameEmulationEngine, GameRom } from './GameEmulationEngine';
+import { MemoryStorage } from './Storage';
+
+const ROM = { checksum: 'abc123' } as GameRom;
+
+// Answers reads a few milliseconds late with the memory as it was when the read was requested
+class FakeEngine extends EventEmitter {
+  memory = new Uint8Array(0x100);
+  calls: string[] = [];
+
+  supportsMemoryAccess(): boolean {
+    return true;
+  }
+
+  readMemory(address: number, length: number): Promise<Uint8Array> {
+    const snapshot = this.memory.slice(address, address + length);
+    return new Promise(resolve => setTimeout(() => resolve(snapshot), 5));
+  }
+
+  async takeScreenshot(): Promise<string> {
+    this.calls.push('screenshot');
+    return 'shot.png';
+  }
+
+  runFrame(frame: number, value: number): void {
+    this.memory[0x10] = value;
+    this.emit('frameUpdate', { frame });
+  }
+}
+
+const settle = () => new Promise(resolve => setTimeout(resolve, 50));
+
+describe('AchievementEngine', () => {
+  let engine: FakeEngine;
+  let storage: MemoryStorage;
+  let achievements: AchievementEngine;
+
+  beforeEach(async () => {
+    engine = new FakeEngine();
+    storage = new MemoryStorage();
+    achievements = new AchievementEngine({ engine: engine as unknown as GameEmulationEngine, storage });
+    achievements.registerSet({
+      checksum: ROM.checksum,
+      achievements: [{ id: 'three', name: 'Three in a row', description: '', trigger: '0xH0010=1.3.' }]
+    });
+    await achievements.loadForRom(ROM);
+  });
+
+  afterEach(() => {
+    achievements.destroy();
+  });
+
+  it('counts hits on frames that arrive while earlier reads are in flight', async () => {
+    const unlocked = jest.fn();
+    achievements.on('achievementUnlocked', unlocked);
+
+    engine.runFrame(1, 0);
+    engine.runFrame(2, 1);
+    engine.runFrame(3, 1);
+    engine.runFrame(4, 1);
+    await settle();
+
+    expect(unlocked).toHaveBeenCalledTimes(1);
+    expect((unlocked.mock.calls[0][0] as AchievementUnlock).frame).toBe(4);
+  });
+
+  it('takes the unlock screenshot before saving the unlock', async () => {
+    const setItem = storage.setItem.bind(storage);
+    jest.spyOn(storage, 'setItem').mockImplementation(async (key, value) => {
+      engine.calls.push('save');
+      await setItem(key, value);
+    });
+
+    [0, 1, 1, 1].forEach((value, index) => engine.runFrame(index + 1, value));
+    await settle();
+
+    expect(engine.calls).toEqual(['screenshot', 'save']);
+    expect(achievements.getAchievement('three')!.unlockedAt).not.toBeNull();
+  });
+});
@@ -0,0 +1,330 @@
+// 3kMLV Arcade - Achievement Engine
+// Evaluates achievement conditions against emulated memory every frame and records unlocks
+
+import { EventEmitter } from 'events';
+import type { Achievement } from './EdgeIOIntegration';
+import { GameEmulationEngine, GameEmulationEngineEvents, GameRom } from './GameEmulationEngine';
+import { EventSubscriptions } from './EventSubscriptions';
+import { MemoryRange, MemoryView, Trigger, TriggerState, parseTrigger, triggerMemoryRanges } from './AchievementConditions';
+import { utf8Decode } from './BinaryUtils';
+import { FileSystem, ReactNativeFileSystem, joinPath } from './FileSystem';
+import { KeyValueStorage, getDefaultStorage, readJson, writeJson } from './Storage';
+
+export interface AchievementDefinition {
+  id: string;
+  name: string;
+  description: string;
+  icon?: string;
+  points?: number;
+  // Condition DSL, see AchievementConditions
+  trigger: string;
+}
+
+// Definitions for one ROM, matched by GameRom.checksum
+export interface AchievementSet {
+  checksum: string;
+  title?: string;
+  achievements: AchievementDefinition[];
+}
+
+export interface AchievementUnlock {
+  achievement: Achievement;
+  // Data URL or path from GameEmulationEngine.takeScreenshot; empty when capture failed
+  screenshot: string;
+  frame: number;
+}
+
+export interface AchievementEngineOptions {
+  engine?: GameEmulationEngine;
+  fileSystem?: FileSystem;
+  storage?: KeyValueStorage;
+  // Holds <checksum>.json sets; defaults to <documents>/achievements
+  directory?: string;
+}
+
+interface ActiveAchievement {
+  definition: AchievementDefinition;
+  achievement: Achievement;
+  parsed: Trigger;
+  trigger: TriggerState;
+  // Must be seen false once before it can unlock, so loading into a finished state does not award it
+  primed: boolean;
+}
+
+// Unlock times by achievement id
+type StoredUnlocks = Record<string, number>;
+
+const UNLOCKS_KEY_PREFIX = '@mlvarcade:achievements:';
+
+export class AchievementEngine extends EventEmitter {
+  private static instance: AchievementEngine;
+  private engine: GameEmulationEngine;
+  private fileSystem: FileSystem | null;
+  private storage: KeyValueStorage;
+  private directory: string | null;
+  private sets: Map<string, AchievementSet> = new Map();
+  private checksum: string | null = null;
+  private achievements: ActiveAchievement[] = [];
+  private ranges: MemoryRange[] = [];
+  // Frames waiting on their memory reads, evaluated strictly in frame order
+  private evaluations: Promise<void> = Promise.resolve();
+  // Bumped on every load so reads started for a previous game are discarded
+  private generation = 0;
+  private subscriptions = new EventSubscriptions();
+
+  constructor(options: AchievementEngineOptions = {}) {
+    super();
+    this.engine = options.engine ?? GameEmulationEngine.getInstance();
+    this.fileSystem = options.fileSystem ?? null;
+    this.storage = options.storage ?? getDefaultStorage();
+    this.directory = options.directory ?? null;
+    this.setupEventHandlers();
+  }
+
+  public static getInstance(): AchievementEngine {
+    if (!AchievementEngine.instance) {
+      AchievementEngine.instance = new AchievementEngine();
+    }
+    return AchievementEngine.instance;
+  }
+
+  private setupEventHandlers() {
+    const listen = this.subscriptions.listenTo<GameEmulationEngineEvents>(this.engine);
+
+    listen('gameLoaded', rom => {
+      this.loadForRom(rom).catch(error => {
+        console.error('Failed to load achievements:', error);
+        this.emit('error', error);
+      });
+    });
+    listen('emulationStopped', () => this.unload());
+    listen('frameUpdate', data => this.handleFrame(data.frame));
+    // Restored memory no longer matches the hit counts and deltas gathered so far
+    listen('stateLoaded', () => this.resetRuntime());
+    listen('stateImported', () => this.resetRuntime());
+    listen('rewindStopped', () => this.resetRuntime());
+  }
+
+  // Bundled sets take precedence over <directory>/<checksum>.json
+  public registerSet(set: AchievementSet): void {
+    this.sets.set(set.checksum.toLowerCase(), set);
+  }
+
+  public async loadForRom(rom: GameRom): Promise<Achievement[]> {
+    const generation = ++this.generation;
+    this.checksum = null;
+    this.achievements = [];
+    this.ranges = [];
+
+    const set = await this.findSet(rom.checksum);
+    const unlocks = await readJson<StoredUnlocks>(this.storage, this.getUnlocksKey(rom.checksum), {});
+    if (generation !== this.generation) {
+      return [];
+    }
+
+    const achievements: ActiveAchievement[] = [];
+    for (const definition of set?.achievements ?? []) {
+      try {
+        const parsed = parseTrigger(definition.trigger);
+        const unlockedAt = unlocks[definition.id];
+        achievements.push({
+          definition,
+          achievement: {
+            id: definition.id,
+            name: definition.name,
+            description: definition.description,
+            icon: definition.icon ?? '',
+            unlockedAt: unlockedAt ? new Date(unlockedAt) : null,
+            progress: unlockedAt ? 1 : 0,
+            maxProgress: 1
+          },
+          parsed,
+          trigger: new TriggerState(parsed),
+          primed: false
+        });
+      } catch (error) {
+        console.warn(`Skipping achievement ${definition.id}:`, error);
+      }
+    }
+
+    this.checksum = rom.checksum;
+    this.achievements = achievements;
+    this.updateRanges();
+    if (achievements.length > 0 && !this.engine.supportsMemoryAccess()) {
+      console.warn('Achievements need memory access, which this emulation module does not provide');
+    }
+
+    this.emit('achievementsLoaded', this.getAchievements());
+    return this.getAchievements();
+  }
+
+  public unload(): void {
+    this.generation++;
+    this.checksum = null;
+    this.achievements = [];
+    this.ranges = [];
+  }
+
+  public getAchievements(): Achievement[] {
+    return this.achievements.map(entry => ({ ...entry.achievement }));
+  }
+
+  public getAchievement(id: string): Achievement | null {
+    const entry = this.achievements.find(candidate => candidate.achievement.id === id);
+    return entry ? { ...entry.achievement } : null;
+  }
+
+  // Forgets every unlock for the loaded game, e.g. from a "reset progress" setting
+  public async resetUnlocks(): Promise<void> {
+    if (!this.checksum) {
+      return;
+    }
+    await this.storage.removeItem(this.getUnlocksKey(this.checksum));
+    for (const entry of this.achievements) {
+      entry.achievement.unlockedAt = null;
+      entry.achievement.progress = 0;
+    }
+    this.updateRanges();
+    this.resetRuntime();
+    this.emit('achievementsLoaded', this.getAchievements());
+  }
+
+  public destroy(): void {
+    this.subscriptions.clear();
+    this.unload();
+  }
+
+  private resetRuntime(): void {
+    for (const entry of this.achievements) {
+      entry.trigger = new TriggerState(entry.parsed);
+      entry.primed = false;
+    }
+  }
+
+  // Only locked achievements are evaluated, so only their memory is read
+  private updateRanges(): void {
+    this.ranges = triggerMemoryRanges(this.achievements.filter(entry => !entry.achievement.unlockedAt).map(entry => entry.parsed));
+  }
+
+  // Memory is requested synchronously so every frame is judged on its own snapshot, even while
+  // earlier frames are still waiting on the bridge; hit counts depend on seeing each one
+  private handleFrame(frame: number): void {
+    if (!this.checksum || this.ranges.length === 0 || !this.engine.supportsMemoryAccess()) {
+      return;
+    }
+
+    const generation = this.generation;
+    const memory = this.readRanges();
+    this.evaluations = this.evaluations
+      .then(async () => {
+        const view = await memory;
+        if (view && generation === this.generation) {
+          await this.evaluate(view, frame);
+        }
+      })
+      .catch(error => {
+        console.error('Failed to evaluate achievements:', error);
+        this.emit('error', error);
+      });
+  }
+
+  private async readRanges(): Promise<MemoryView | null> {
+    const ranges = this.ranges;
+    const blocks = await Promise.all(ranges.map(range => this.engine.readMemory(range.address, range.length)));
+    // A failed read comes back empty; judging conditions on zeros would unlock or reset wrongly
+    if (blocks.some((block, index) => block.length < ranges[index]!.length)) {
+      return null;
+    }
+
+    return {
+      readByte: (address: number) => {
+        for (let index = 0; index < ranges.length; index++) {
+          const range = ranges[index]!;
+          if (address >= range.address && address < range.address + range.length) {
+            return blocks[index]![address - range.address]!;
+          }
+        }
+        return 0;
+      }
+    };
+  }
+
+  private async evaluate(memory: MemoryView, frame: number): Promise<void> {
+    for (const entry of this.achievements) {
+      if (entry.achievement.unlockedAt) {
+        continue;
+      }
+
+      const result = entry.trigger.evaluate(memory);
+      if (result.progress !== null && result.maxProgress !== null && result.maxProgress > 0
+        && (result.progress !== entry.achievement.progress || result.maxProgress !== entry.achievement.maxProgress)) {
+        entry.achievement.progress = result.progress;
+        entry.achievement.maxProgress = result.maxProgress;
+        this.emit('progressUpdated', { ...entry.achievement });
+      }
+
+      if (!result.triggered) {
+        entry.primed = true;
+      } else if (entry.primed) {
+        await this.unlock(entry, frame);
+      }
+    }
+  }
+
+  private async unlock(entry: ActiveAchievement, frame: number): Promise<void> {
+    // Requested before the storage round trips so the picture shows the moment it unlocked
+    const screenshot = this.engine.takeScreenshot();
+    const checksum = this.checksum!;
+    entry.achievement.unlockedAt = new Date();
+    entry.achievement.progress = entry.achievement.maxProgress;
+    this.updateRanges();
+
+    const key = this.getUnlocksKey(checksum);
+    const unlocks = await readJson<StoredUnlocks>(this.storage, key, {});
+    unlocks[entry.achievement.id] = entry.achievement.unlockedAt.getTime();
+    await writeJson(this.storage, key, unlocks);
+
+    const unlock: AchievementUnlock = { achievement: { ...entry.achievement }, screenshot: await screenshot, frame };
+    this.emit('achievementUnlocked', unlock);
+  }
+
+  private async findSet(checksum: string): Promise<AchievementSet | null> {
+    const bundled = this.sets.get(checksum.toLowerCase());
+    if (bundled) {
+      return bundled;
+    }
+
+    try {
+      const fileSystem = this.getFileSystem();
+      const path = joinPath(this.getDirectory(), `${checksum.toLowerCase()}.json`);
+      if (!(await fileSystem.exists(path))) {
+        return null;
+      }
+      const set = JSON.parse(utf8Decode(await fileSystem.readFile(path))) as AchievementSet;
+      return Array.isArray(set.achievements) ? set : null;
+    } catch (error) {
+      console.warn(`Skipping unreadable achievement set for ${checksum}:`, error);
+      return null;
+    }
+  }
+
+  private getUnlocksKey(checksum: string): string {
+    return `${UNLOCKS_KEY_PREFIX}${checksum.toLowerCase()}`;
+  }
+
+  private getDirectory(): string {
+    if (!this.directory) {
+      this.directory = joinPath(ReactNativeFileSystem.getDocumentDirectory(), 'achievements');
+    }
+    return this.directory;
+  }
+
+  private getFileSystem(): FileSystem {
+    if (!this.fileSystem) {
+      this.fileSystem = new ReactNativeFileSystem();
+    }
+    return this.fileSystem;
+  }
+}
+
+export default AchievementEngine;
@@ -0,0 +1,246 @@
+// 3kMLV Arcade - Binary Utilities
+// Pure TypeScript helpers shared by the reference emulator, ROM library and save states
+
+const BASE64_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+const BASE64_LOOKUP = new Uint8Array(128);
+
+for (let i = 0; i < BASE64_ALPHABET.length; i++) {
+  BASE64_LOOKUP[BASE64_ALPHABET.charCodeAt(i)] = i;
+}
+
+// The React Native bridge only moves strings, so binary data crosses it as base64
+export function base64Encode(data: Uint8Array): string {
+  let output = '';
+  let i = 0;
+
+  for (; i + 2 < data.length; i += 3) {
+    const chunk = (data[i]! << 16) | (data[i + 1]! << 8) | data[i + 2]!;
+    output += BASE64_ALPHABET[(chunk >> 18) & 63]! +
+      BASE64_ALPHABET[(chunk >> 12) & 63]! +
+      BASE64_ALPHABET[(chunk >> 6) & 63]! +
+      BASE64_ALPHABET[chunk & 63]!;
+  }
+
+  const remaining = data.length - i;
+  if (remaining === 1) {
+    const chunk = data[i]! << 16;
+    output += BASE64_ALPHABET[(chunk >> 18) & 63]! + BASE64_ALPHABET[(chunk >> 12) & 63]! + '==';
+  } else if (remaining === 2) {
+    const chunk = (data[i]! << 16) | (data[i + 1]! << 8);
+    output += BASE64_ALPHABET[(chunk >> 18) & 63]! +
+      BASE64_ALPHABET[(chunk >> 12) & 63]! +
+      BASE64_ALPHABET[(chunk >> 6) & 63]! + '=';
+  }
+
+  return output;
+}
+
+export function base64Decode(input: string): Uint8Array {
+  const clean = input.replace(/[^A-Za-z0-9+/]/g, '');
+  const output = new Uint8Array(Math.floor((clean.length * 3) / 4));
+  let buffer = 0;
+  let bits = 0;
+  let offset = 0;
+
+  for (let i = 0; i < clean.length; i++) {
+    buffer = (buffer << 6) | BASE64_LOOKUP[clean.charCodeAt(i)]!;
+    bits += 6;
+
+    if (bits >= 8) {
+      bits -= 8;
+      output[offset++] = (buffer >> bits) & 0xff;
+    }
+  }
+
+  return output.subarray(0, offset);
+}
+
+const CRC32_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+// Pass the previous result as `crc` to checksum data that arrives in chunks
+export function crc32(data: Uint8Array, crc: number = 0): number {
+  let value = (crc ^ 0xffffffff) >>> 0;
+
+  for (let i = 0; i < data.length; i++) {
+    value = CRC32_TABLE[(value ^ data[i]!) & 0xff]! ^ (value >>> 8);
+  }
+
+  return (value ^ 0xffffffff) >>> 0;
+}
+
+export function toHex(value: number, width: number = 8): string {
+  return value.toString(16).padStart(width, '0');
+}
+
+export function bytesToHex(data: Uint8Array): string {
+  let output = '';
+  for (let i = 0; i < data.length; i++) {
+    output += toHex(data[i]!, 2);
+  }
+  return output;
+}
+
+export function concatBytes(chunks: Uint8Array[]): Uint8Array {
+  const total = chunks.reduce((sum, chunk) => sum + chunk.length, 0);
+  const output = new Uint8Array(total);
+  let offset = 0;
+
+  for (const chunk of chunks) {
+    output.set(chunk, offset);
+    offset += chunk.length;
+  }
+
+  return output;
+}
+
+// Incremental SHA-1 (FIPS 180-4); React Native has no built-in crypto digest
+export class Sha1 {
+  private h = new Uint32Array([0x67452301, 0xefcdab89, 0x98badcfe, 0x10325476, 0xc3d2e1f0]);
+  private block = new Uint8Array(64);
+  private blockLength = 0;
+  private totalLength = 0;
+  private words = new Uint32Array(80);
+
+  public update(data: Uint8Array): this {
+    for (let i = 0; i < data.length; i++) {
+      this.block[this.blockLength++] = data[i]!;
+      if (this.blockLength === 64) {
+        this.processBlock();
+        this.blockLength = 0;
+      }
+    }
+    this.totalLength += data.length;
+    return this;
+  }
+
+  public digest(): Uint8Array {
+    const bitLength = this.totalLength * 8;
+    this.update(new Uint8Array([0x80]));
+    while (this.blockLength !== 56) {
+      this.update(new Uint8Array([0]));
+    }
+
+    const length = new Uint8Array(8);
+    const view = new DataView(length.buffer);
+    view.setUint32(0, Math.floor(bitLength / 0x100000000));
+    view.setUint32(4, bitLength >>> 0);
+    this.update(length);
+
+    const output = new Uint8Array(20);
+    const outputView = new DataView(output.buffer);
+    for (let i = 0; i < 5; i++) {
+      outputView.setUint32(i * 4, this.h[i]!);
+    }
+    return output;
+  }
+
+  public hexDigest(): string {
+    return bytesToHex(this.digest());
+  }
+
+  private processBlock(): void {
+    const w = this.words;
+    for (let i = 0; i < 16; i++) {
+      w[i] = (this.block[i * 4]! << 24) | (this.block[i * 4 + 1]! << 16) | (this.block[i * 4 + 2]! << 8) | this.block[i * 4 + 3]!;
+    }
+    for (let i = 16; i < 80; i++) {
+      const value = w[i - 3]! ^ w[i - 8]! ^ w[i - 14]! ^ w[i - 16]!;
+      w[i] = (value << 1) | (value >>> 31);
+    }
+
+    let a = this.h[0]!;
+    let b = this.h[1]!;
+    let c = this.h[2]!;
+    let d = this.h[3]!;
+    let e = this.h[4]!;
+
+    for (let i = 0; i < 80; i++) {
+      let f: number;
+      let k: number;
+      if (i < 20) {
+        f = (b & c) | (~b & d);
+        k = 0x5a827999;
+      } else if (i < 40) {
+        f = b ^ c ^ d;
+        k = 0x6ed9eba1;
+      } else if (i < 60) {
+        f = (b & c) | (b & d) | (c & d);
+        k = 0x8f1bbcdc;
+      } else {
+        f = b ^ c ^ d;
+        k = 0xca62c1d6;
+      }
+
+      const temp = (((a << 5) | (a >>> 27)) + f + e + k + w[i]!) >>> 0;
+      e = d;
+      d = c;
+      c = ((b << 30) | (b >>> 2)) >>> 0;
+      b = a;
+      a = temp;
+    }
+
+    this.h[0] = this.h[0]! + a;
+    this.h[1] = this.h[1]! + b;
+    this.h[2] = this.h[2]! + c;
+    this.h[3] = this.h[3]! + d;
+    this.h[4] = this.h[4]! + e;
+  }
+}
+
+export function sha1Hex(data: Uint8Array): string {
+  return new Sha1().update(data).hexDigest();
+}
+
+// Hand-rolled because Hermes does not ship TextDecoder
+export function utf8Encode(text: string): Uint8Array {
+  const bytes: number[] = [];
+
+  for (const character of text) {
+    const code = character.codePointAt(0)!;
+    if (code < 0x80) {
+      bytes.push(code);
+    } else if (code < 0x800) {
+      bytes.push(0xc0 | (code >> 6), 0x80 | (code & 0x3f));
+    } else if (code < 0x10000) {
+      bytes.push(0xe0 | (code >> 12), 0x80 | ((code >> 6) & 0x3f), 0x80 | (code & 0x3f));
+    } else {
+      bytes.push(0xf0 | (code >> 18), 0x80 | ((code >> 12) & 0x3f), 0x80 | ((code >> 6) & 0x3f), 0x80 | (code & 0x3f));
+    }
+  }
+
+  return Uint8Array.from(bytes);
+}
+
+export function utf8Decode(data: Uint8Array): string {
+  let output = '';
+  let i = 0;
+
+  while (i < data.length) {
+    const byte = data[i++]!;
+    let code: number;
+
+    if (byte < 0x80) {
+      code = byte;
+    } else if (byte < 0xe0) {
+      code = ((byte & 0x1f) << 6) | (data[i++]! & 0x3f);
+    } else if (byte < 0xf0) {
+      code = ((byte & 0x0f) << 12) | ((data[i++]! & 0x3f) << 6) | (data[i++]! & 0x3f);
+    } else {
+      code = ((byte & 0x07) << 18) | ((data[i++]! & 0x3f) << 12) | ((data[i++]! & 0x3f) << 6) | (data[i++]! & 0x3f);
+    }
+
+    output += String.fromCodePoint(code);
+  }
+
+  return output;
+}
@@ -0,0 +1,80 @@
+import { Chip8Core } from './Chip8Core';
+
+const PROGRAM_START = 0x200;
+const PC_OFFSET = 1 + 4096 + 16 + 2;
+
+const rom = (...opcodes: number[]): Uint8Array =>
+  Uint8Array.from(opcodes.flatMap(opcode => [opcode >> 8, opcode & 0xff]));
+
+const pcOf = (core: Chip8Core): number => {
+  const state = core.serialize();
+  return new DataView(state.buffer).getUint16(PC_OFFSET);
+};
+
+describe('Chip8Core', () => {
+  it('adds with carry into VF', () => {
+    const core = new Chip8Core({ cyclesPerFrame: 5 });
+    // V0 = 0xFF, V1 = 0x02, V0 += V1, store V0..VF at 0x300
+    core.loadRom(rom(0x60ff, 0x6102, 0x8014, 0xa300, 0xff55));
+    core.runFrame();
+
+    const registers = core.readMemory(0x300, 16);
+    expect(registers[0]).toBe(0x01);
+    expect(registers[1]).toBe(0x02);
+    expect(registers[0xf]).toBe(1);
+  });
+
+  it('stores binary-coded decimal with FX33', () => {
+    const core = new Chip8Core({ cyclesPerFrame: 3 });
+    core.loadRom(rom(0x6a7b, 0xa310, 0xfa33));
+    core.runFrame();
+
+    expect(Array.from(core.readMemory(0x310, 3))).toEqual([1, 2, 3]);
+  });
+
+  it('skips the next instruction when VX equals NN', () => {
+    const core = new Chip8Core({ cyclesPerFrame: 1 });
+    core.loadRom(rom(0x3000));
+    core.runFrame();
+
+    expect(pcOf(core)).toBe(PROGRAM_START + 4);
+  });
+
+  it('wraps a skip at the end of memory back to the start', () => {
+    const program = new Uint8Array(0x1000 - PROGRAM_START);
+    program.set(rom(0x1ffe));
+    program.set(rom(0x3000), 0xffe - PROGRAM_START);
+
+    const core = new Chip8Core({ cyclesPerFrame: 2 });
+    core.loadRom(program);
+    core.runFrame();
+
+    expect(pcOf(core)).toBe(0x002);
+  });
+
+  it('continues the beep from the saved audio phase after a restore', () => {
+    // Sound timer = 0x14, then spin
+    const program = rom(0x6014, 0xf018, 0x1204);
+    const original = new Chip8Core();
+    original.loadRom(program);
+    original.runFrame();
+
+    const state = original.serialize();
+    const expected = original.runFrame().audio;
+
+    const restored = new Chip8Core();
+    restored.loadRom(program);
+    restored.deserialize(state);
+
+    expect(Array.from(restored.runFrame().audio)).toEqual(Array.from(expected));
+  });
+
+  it('rejects state from an older version', () => {
+    const core = new Chip8Core();
+    core.loadRom(rom(0x1200));
+    const state = core.serialize();
+    state[0] = 1;
+
+    expect(() => core.deserialize(state)).toThrow('Incompatible CHIP-8 state');
+  });
+});
@@ -0,0 +1,534 @@
+// 3kMLV Arcade - CHIP-8 Reference Core
+// Pure TypeScript interpreter used when the native emulation module is unavailable
+
+import type { GameControls, GamePlatform } from './GameEmulationEngine';
+import type { CoreFrame, CoreInfo, EmulatorCore } from './EmulatorCore';
+import { extensionOf } from './FileSystem';
+
+export const CHIP8_PLATFORM: GamePlatform = {
+  id: 'chip8',
+  name: 'CHIP-8',
+  manufacturer: 'RCA (COSMAC VIP)',
+  year: 1977,
+  cpu: 'Virtual 8-bit interpreter',
+  memory: '4KB',
+  graphics: '64x32 monochrome',
+  sound: 'Single-tone beeper',
+  supportedFormats: ['.ch8', '.c8']
+};
+
+const MEMORY_SIZE = 4096;
+const PROGRAM_START = 0x200;
+const FONT_START = 0x50;
+const SCREEN_WIDTH = 64;
+const SCREEN_HEIGHT = 32;
+const FRAME_RATE = 60;
+const SAMPLE_RATE = 44100;
+const SAMPLES_PER_FRAME = SAMPLE_RATE / FRAME_RATE;
+const BEEP_FREQUENCY = 440;
+const BEEP_AMPLITUDE = 0.25;
+const RNG_SEED = 0x3c4d5e6f;
+const NO_REGISTER = 0xff;
+const STATE_VERSION = 2;
+const STATE_SIZE = 1 + MEMORY_SIZE + 16 + 2 + 2 + 1 + 32 + 1 + 1 + SCREEN_WIDTH * SCREEN_HEIGHT + 4 + 1 + 1 + 8;
+
+const PIXEL_ON = [0x00, 0xff, 0x88, 0xff];
+const PIXEL_OFF = [0x00, 0x00, 0x00, 0xff];
+
+const FONT = [
+  0xf0, 0x90, 0x90, 0x90, 0xf0, // 0
+  0x20, 0x60, 0x20, 0x20, 0x70, // 1
+  0xf0, 0x10, 0xf0, 0x80, 0xf0, // 2
+  0xf0, 0x10, 0xf0, 0x10, 0xf0, // 3
+  0x90, 0x90, 0xf0, 0x10, 0x10, // 4
+  0xf0, 0x80, 0xf0, 0x10, 0xf0, // 5
+  0xf0, 0x80, 0xf0, 0x90, 0xf0, // 6
+  0xf0, 0x10, 0x20, 0x40, 0x40, // 7
+  0xf0, 0x90, 0xf0, 0x90, 0xf0, // 8
+  0xf0, 0x90, 0xf0, 0x10, 0xf0, // 9
+  0xf0, 0x90, 0xf0, 0x90, 0x90, // A
+  0xe0, 0x90, 0xe0, 0x90, 0xe0, // B
+  0xf0, 0x80, 0x80, 0x80, 0xf0, // C
+  0xe0, 0x90, 0x90, 0x90, 0xe0, // D
+  0xf0, 0x80, 0xf0, 0x80, 0xf0, // E
+  0xf0, 0x80, 0xf0, 0x80, 0x80 // F
+];
+
+// DS-style buttons mapped onto the hex keypad. Player two gets the right-hand
+// column so two-player games like Pong work from two controllers.
+// Any port may also press keys directly with key0..keyF.
+const PORT_KEYMAPS: Record<string, number>[] = [
+  { up: 0x2, down: 0x8, left: 0x4, right: 0x6, a: 0x5, b: 0x0, start: 0xf, select: 0xe, l: 0x1, r: 0xc },
+  { up: 0xc, down: 0xd, left: 0xa, right: 0xb, a: 0xe, b: 0xf, start: 0x3, select: 0x9, l: 0x7, r: 0x1 }
+];
+
+export interface Chip8Options {
+  // Instructions executed per 60Hz frame; ~11 matches the commonly used 660Hz clock
+  cyclesPerFrame?: number;
+}
+
+// Implements the CHIP-48/SUPER-CHIP behaviour most modern ROMs expect:
+// 8XY6/8XYE shift VX in place, FX55/FX65 leave I unchanged, BNNN jumps to NNN + V0.
+export class Chip8Core implements EmulatorCore {
+  public readonly info: CoreInfo = {
+    id: 'chip8-reference',
+    name: 'CHIP-8 Reference Core',
+    version: '1.0.0',
+    platform: CHIP8_PLATFORM,
+    screenWidth: SCREEN_WIDTH,
+    screenHeight: SCREEN_HEIGHT,
+    frameRate: FRAME_RATE,
+    audioSampleRate: SAMPLE_RATE,
+    maxPlayers: PORT_KEYMAPS.length
+  };
+
+  private cyclesPerFrame: number;
+  private rom: Uint8Array | null = null;
+  private memory = new Uint8Array(MEMORY_SIZE);
+  private v = new Uint8Array(16);
+  private i = 0;
+  private pc = PROGRAM_START;
+  private sp = 0;
+  private stack = new Uint16Array(16);
+  private delayTimer = 0;
+  private soundTimer = 0;
+  private display = new Uint8Array(SCREEN_WIDTH * SCREEN_HEIGHT);
+  private rng = RNG_SEED;
+  private waitRegister = NO_REGISTER;
+  private waitKey = NO_REGISTER;
+  private portKeys: Uint8Array[] = PORT_KEYMAPS.map(() => new Uint8Array(16));
+  private keys = new Uint8Array(16);
+  private audioPhase = 0;
+
+  constructor(options: Chip8Options = {}) {
+    this.cyclesPerFrame = options.cyclesPerFrame ?? 11;
+  }
+
+  public canLoad(romPath: string, data: Uint8Array): boolean {
+    return CHIP8_PLATFORM.supportedFormats.includes(extensionOf(romPath)) &&
+      data.length > 0 &&
+      data.length <= MEMORY_SIZE - PROGRAM_START;
+  }
+
+  public loadRom(data: Uint8Array): void {
+    if (data.length > MEMORY_SIZE - PROGRAM_START) {
+      throw new Error(`CHIP-8 ROM too large: ${data.length} bytes`);
+    }
+
+    this.rom = data.slice();
+    this.reset();
+  }
+
+  public reset(): void {
+    this.memory.fill(0);
+    this.memory.set(FONT, FONT_START);
+    if (this.rom) {
+      this.memory.set(this.rom, PROGRAM_START);
+    }
+
+    this.v.fill(0);
+    this.i = 0;
+    this.pc = PROGRAM_START;
+    this.sp = 0;
+    this.stack.fill(0);
+    this.delayTimer = 0;
+    this.soundTimer = 0;
+    this.display.fill(0);
+    this.rng = RNG_SEED;
+    this.waitRegister = NO_REGISTER;
+    this.waitKey = NO_REGISTER;
+    this.audioPhase = 0;
+  }
+
+  public unload(): void {
+    this.rom = null;
+    this.reset();
+  }
+
+  public setInput(controls: GameControls, port: number): void {
+    const keymap = PORT_KEYMAPS[port];
+    const portKeys = this.portKeys[port];
+    if (!keymap || !portKeys) {
+      return;
+    }
+
+    portKeys.fill(0);
+    for (const [button, pressed] of Object.entries(controls)) {
+      if (!pressed) {
+        continue;
+      }
+
+      const direct = /^key([0-9a-f])$/i.exec(button);
+      const key = direct ? parseInt(direct[1]!, 16) : keymap[button];
+      if (key !== undefined) {
+        portKeys[key] = 1;
+      }
+    }
+
+    for (let key = 0; key < 16; key++) {
+      this.keys[key] = this.portKeys.some(keys => keys[key] === 1) ? 1 : 0;
+    }
+  }
+
+  public runFrame(): CoreFrame {
+    if (!this.rom) {
+      throw new Error('No CHIP-8 ROM loaded');
+    }
+
+    for (let cycle = 0; cycle < this.cyclesPerFrame; cycle++) {
+      if (!this.step()) {
+        break;
+      }
+    }
+
+    if (this.delayTimer > 0) {
+      this.delayTimer--;
+    }
+
+    const beeping = this.soundTimer > 0;
+    if (this.soundTimer > 0) {
+      this.soundTimer--;
+    }
+
+    return {
+      framebuffer: this.renderFramebuffer(),
+      audio: this.renderAudio(beeping)
+    };
+  }
+
+  public serialize(): Uint8Array {
+    const state = new Uint8Array(STATE_SIZE);
+    const view = new DataView(state.buffer);
+    let offset = 0;
+
+    state[offset++] = STATE_VERSION;
+    state.set(this.memory, offset);
+    offset += MEMORY_SIZE;
+    state.set(this.v, offset);
+    offset += 16;
+    view.setUint16(offset, this.i);
+    offset += 2;
+    view.setUint16(offset, this.pc);
+    offset += 2;
+    state[offset++] = this.sp;
+    for (let index = 0; index < 16; index++) {
+      view.setUint16(offset, this.stack[index]!);
+      offset += 2;
+    }
+    state[offset++] = this.delayTimer;
+    state[offset++] = this.soundTimer;
+    state.set(this.display, offset);
+    offset += this.display.length;
+    view.setUint32(offset, this.rng);
+    offset += 4;
+    state[offset++] = this.waitRegister;
+    state[offset++] = this.waitKey;
+    // Restoring mid-beep continues the square wave instead of clicking
+    view.setFloat64(offset, this.audioPhase);
+
+    return state;
+  }
+
+  public deserialize(state: Uint8Array): void {
+    if (state.length !== STATE_SIZE || state[0] !== STATE_VERSION) {
+      throw new Error('Incompatible CHIP-8 state');
+    }
+
+    const view = new DataView(state.buffer, state.byteOffset, state.byteLength);
+    let offset = 1;
+
+    this.memory.set(state.subarray(offset, offset + MEMORY_SIZE));
+    offset += MEMORY_SIZE;
+    this.v.set(state.subarray(offset, offset + 16));
+    offset += 16;
+    this.i = view.getUint16(offset);
+    offset += 2;
+    this.pc = view.getUint16(offset);
+    offset += 2;
+    this.sp = state[offset++]!;
+    for (let index = 0; index < 16; index++) {
+      this.stack[index] = view.getUint16(offset);
+      offset += 2;
+    }
+    this.delayTimer = state[offset++]!;
+    this.soundTimer = state[offset++]!;
+    this.display.set(state.subarray(offset, offset + this.display.length));
+    offset += this.display.length;
+    this.rng = view.getUint32(offset);
+    offset += 4;
+    this.waitRegister = state[offset++]!;
+    this.waitKey = state[offset++]!;
+    this.audioPhase = view.getFloat64(offset);
+  }
+
+  public readMemory(address: number, length: number): Uint8Array {
+    const start = Math.max(0, Math.min(address, MEMORY_SIZE));
+    return this.memory.slice(start, Math.min(start + length, MEMORY_SIZE));
+  }
+
+  // Returns false when the CPU is blocked on FX0A
+  private step(): boolean {
+    if (this.waitRegister !== NO_REGISTER) {
+      return this.resolveKeyWait();
+    }
+
+    const opcode = (this.memory[this.pc]! << 8) | this.memory[(this.pc + 1) & 0xfff]!;
+    this.pc = (this.pc + 2) & 0xfff;
+    this.execute(opcode);
+    return this.waitRegister === NO_REGISTER;
+  }
+
+  // Skips wrap like every other PC update; 0xFFE + 2 lands on 0x000, not past the end of memory
+  private skipInstruction(): void {
+    this.pc = (this.pc + 2) & 0xfff;
+  }
+
+  // FX0A completes on key release, matching the original COSMAC VIP interpreter
+  private resolveKeyWait(): boolean {
+    if (this.waitKey === NO_REGISTER) {
+      const pressed = this.keys.findIndex(key => key === 1);
+      if (pressed >= 0) {
+        this.waitKey = pressed;
+      }
+      return false;
+    }
+
+    if (this.keys[this.waitKey] === 1) {
+      return false;
+    }
+
+    this.v[this.waitRegister] = this.waitKey;
+    this.waitRegister = NO_REGISTER;
+    this.waitKey = NO_REGISTER;
+    return true;
+  }
+
+  private execute(opcode: number): void {
+    const x = (opcode >> 8) & 0xf;
+    const y = (opcode >> 4) & 0xf;
+    const n = opcode & 0xf;
+    const nn = opcode & 0xff;
+    const nnn = opcode & 0xfff;
+    const vx = this.v[x]!;
+    const vy = this.v[y]!;
+
+    switch (opcode & 0xf000) {
+      case 0x0000:
+        if (opcode === 0x00e0) {
+          this.display.fill(0);
+        } else if (opcode === 0x00ee) {
+          if (this.sp === 0) {
+            throw new Error('CHIP-8 stack underflow');
+          }
+          this.pc = this.stack[--this.sp]!;
+        }
+        // 0NNN (machine code routines) is ignored, as in every modern interpreter
+        break;
+      case 0x1000:
+        this.pc = nnn;
+        break;
+      case 0x2000:
+        if (this.sp >= this.stack.length) {
+          throw new Error('CHIP-8 stack overflow');
+        }
+        this.stack[this.sp++] = this.pc;
+        this.pc = nnn;
+        break;
+      case 0x3000:
+        if (vx === nn) this.skipInstruction();
+        break;
+      case 0x4000:
+        if (vx !== nn) this.skipInstruction();
+        break;
+      case 0x5000:
+        if (vx === vy) this.skipInstruction();
+        break;
+      case 0x6000:
+        this.v[x] = nn;
+        break;
+      case 0x7000:
+        this.v[x] = (vx + nn) & 0xff;
+        break;
+      case 0x8000:
+        this.executeArithmetic(x, n, vx, vy, opcode);
+        break;
+      case 0x9000:
+        if (vx !== vy) this.skipInstruction();
+        break;
+      case 0xa000:
+        this.i = nnn;
+        break;
+      case 0xb000:
+        this.pc = (nnn + this.v[0]!) & 0xfff;
+        break;
+      case 0xc000:
+        this.v[x] = this.nextRandom() & nn;
+        break;
+      case 0xd000:
+        this.draw(vx, vy, n);
+        break;
+      case 0xe000:
+        if (nn === 0x9e) {
+          if (this.keys[vx & 0xf] === 1) this.skipInstruction();
+        } else if (nn === 0xa1) {
+          if (this.keys[vx & 0xf] !== 1) this.skipInstruction();
+        } else {
+          this.unknownOpcode(opcode);
+        }
+        break;
+      case 0xf000:
+        this.executeMisc(x, nn, vx, opcode);
+        break;
+    }
+  }
+
+  private executeArithmetic(x: number, n: number, vx: number, vy: number, opcode: number): void {
+    switch (n) {
+      case 0x0:
+        this.v[x] = vy;
+        break;
+      case 0x1:
+        this.v[x] = vx | vy;
+        break;
+      case 0x2:
+        this.v[x] = vx & vy;
+        break;
+      case 0x3:
+        this.v[x] = vx ^ vy;
+        break;
+      case 0x4: {
+        const sum = vx + vy;
+        this.v[x] = sum & 0xff;
+        this.v[0xf] = sum > 0xff ? 1 : 0;
+        break;
+      }
+      case 0x5:
+        this.v[x] = (vx - vy) & 0xff;
+        this.v[0xf] = vx >= vy ? 1 : 0;
+        break;
+      case 0x6:
+        this.v[x] = vx >> 1;
+        this.v[0xf] = vx & 0x1;
+        break;
+      case 0x7:
+        this.v[x] = (vy - vx) & 0xff;
+        this.v[0xf] = vy >= vx ? 1 : 0;
+        break;
+      case 0xe:
+        this.v[x] = (vx << 1) & 0xff;
+        this.v[0xf] = (vx >> 7) & 0x1;
+        break;
+      default:
+        this.unknownOpcode(opcode);
+    }
+  }
+
+  private executeMisc(x: number, nn: number, vx: number, opcode: number): void {
+    switch (nn) {
+      case 0x07:
+        this.v[x] = this.delayTimer;
+        break;
+      case 0x0a:
+        this.waitRegister = x;
+        this.waitKey = NO_REGISTER;
+        break;
+      case 0x15:
+        this.delayTimer = vx;
+        break;
+      case 0x18:
+        this.soundTimer = vx;
+        break;
+      case 0x1e:
+        this.i = (this.i + vx) & 0xfff;
+        break;
+      case 0x29:
+        this.i = FONT_START + (vx & 0xf) * 5;
+        break;
+      case 0x33:
+        this.memory[this.i & 0xfff] = Math.floor(vx / 100);
+        this.memory[(this.i + 1) & 0xfff] = Math.floor(vx / 10) % 10;
+        this.memory[(this.i + 2) & 0xfff] = vx % 10;
+        break;
+      case 0x55:
+        for (let index = 0; index <= x; index++) {
+          this.memory[(this.i + index) & 0xfff] = this.v[index]!;
+        }
+        break;
+      case 0x65:
+        for (let index = 0; index <= x; index++) {
+          this.v[index] = this.memory[(this.i + index) & 0xfff]!;
+        }
+        break;
+      default:
+        this.unknownOpcode(opcode);
+    }
+  }
+
+  // Sprites wrap their start position and clip at the screen edges
+  private draw(vx: number, vy: number, height: number): void {
+    const startX = vx % SCREEN_WIDTH;
+    const startY = vy % SCREEN_HEIGHT;
+    this.v[0xf] = 0;
+
+    for (let row = 0; row < height; row++) {
+      const py = startY + row;
+      if (py >= SCREEN_HEIGHT) {
+        break;
+      }
+
+      const sprite = this.memory[(this.i + row) & 0xfff]!;
+      for (let bit = 0; bit < 8; bit++) {
+        const px = startX + bit;
+        if (px >= SCREEN_WIDTH) {
+          break;
+        }
+
+        if (sprite & (0x80 >> bit)) {
+          const index = py * SCREEN_WIDTH + px;
+          if (this.display[index] === 1) {
+            this.v[0xf] = 1;
+          }
+          this.display[index] = this.display[index]! ^ 1;
+        }
+      }
+    }
+  }
+
+  // xorshift32; the seed is part of the saved state so replays stay deterministic
+  private nextRandom(): number {
+    let value = this.rng;
+    value ^= value << 13;
+    value ^= value >>> 17;
+    value ^= value << 5;
+    this.rng = value >>> 0;
+    return this.rng & 0xff;
+  }
+
+  public renderFramebuffer(): Uint8Array {
+    const framebuffer = new Uint8Array(SCREEN_WIDTH * SCREEN_HEIGHT * 4);
+    for (let index = 0; index < this.display.length; index++) {
+      framebuffer.set(this.display[index] ? PIXEL_ON : PIXEL_OFF, index * 4);
+    }
+    return framebuffer;
+  }
+
+  private renderAudio(beeping: boolean): Float32Array {
+    const samples = new Float32Array(SAMPLES_PER_FRAME);
+    if (!beeping) {
+      return samples;
+    }
+
+    const step = BEEP_FREQUENCY / SAMPLE_RATE;
+    for (let index = 0; index < samples.length; index++) {
+      samples[index] = this.audioPhase < 0.5 ? BEEP_AMPLITUDE : -BEEP_AMPLITUDE;
+      this.audioPhase = (this.audioPhase + step) % 1;
+    }
+    return samples;
+  }
+
+  private unknownOpcode(opcode: number): never {
+    throw new Error(`Unknown CHIP-8 opcode 0x${opcode.toString(16).padStart(4, '0')}`);
+  }
+}
+
+export default Chip8Core;
@@ -0,0 +1,163 @@
+import { EventEmitter } from 'events';
+import { CloudSaveSync, VectorClock, compareClocks } from './CloudSaveSync';
+import type { CloudSaveFile, EdgeIOIntegration } from './EdgeIOIntegration';
+import type { GameEmulationEngine } from './GameEmulationEngine';
+import { base64Encode, sha1Hex, utf8Encode } from './BinaryUtils';
+import { MemoryFileSystem } from './FileSystem';
+import { SaveStateManager } from './SaveStateManager';
+import { MemoryStorage } from './Storage';
+
+const GAME = 'abc123';
+const SAVE_ID = `${GAME}:battery:0`;
+const BATTERY_PATH = `/battery/${GAME}.sav`;
+
+// The EdgeIO calls CloudSaveSync makes, against an in-memory bucket
+class FakeCloud extends EventEmitter {
+  files: Map<string, { save: CloudSaveFile; data: string }> = new Map();
+
+  getConfig() {
+    return { retryAttempts: 0 };
+  }
+
+  async listCloudSaves(gameId: string): Promise<CloudSaveFile[]> {
+    return Array.from(this.files.values()).filter(file => file.save.gameId === gameId).map(file => ({ ...file.save }));
+  }
+
+  async uploadSaveFile(save: CloudSaveFile, data: string): Promise<CloudSaveFile> {
+    this.files.set(save.id, { save: { ...save }, data });
+    return { ...save };
+  }
+
+  async downloadSaveFile(saveId: string): Promise<string> {
+    return this.files.get(saveId)!.data;
+  }
+
+  // Another device uploading its copy of the battery save
+  putFromDevice(deviceId: string, clock: VectorClock, content: string): void {
+    const data = utf8Encode(content);
+    this.files.set(SAVE_ID, {
+      save: {
+        id: SAVE_ID,
+        name: 'Battery save',
+        timestamp: new Date(),
+        size: data.length,
+        isCloud: true,
+        isLocal: false,
+        syncStatus: 'synced',
+        gameId: GAME,
+        kind: 'battery',
+        slot: 0,
+        sha1: sha1Hex(data),
+        clock,
+        deviceId
+      },
+      data: base64Encode(data)
+    });
+  }
+
+  clockOf(saveId: string): VectorClock {
+    return this.files.get(saveId)!.save.clock;
+  }
+}
+
+describe('compareClocks', () => {
+  it('orders clocks where one side has seen every edit of the other', () => {
+    expect(compareClocks({ a: 2, b: 1 }, { a: 1, b: 1 })).toBe('after');
+    expect(compareClocks({ a: 1 }, { a: 1, b: 1 })).toBe('before');
+    expect(compareClocks({ a: 1, b: 0 }, { a: 1 })).toBe('equal');
+  });
+
+  it('reports edits made without seeing each other as concurrent', () => {
+    expect(compareClocks({ a: 2, b: 1 }, { a: 1, b: 2 })).toBe('concurrent');
+  });
+});
+
+describe('CloudSaveSync', () => {
+  let cloud: FakeCloud;
+  let fileSystem: MemoryFileSystem;
+  let sync: CloudSaveSync;
+  let deviceId: string;
+
+  const writeBattery = (content: string) => fileSystem.writeFile(BATTERY_PATH, utf8Encode(content));
+  const readBattery = async () => new TextDecoder().decode(await fileSystem.readFile(BATTERY_PATH));
+
+  beforeEach(async () => {
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    cloud = new FakeCloud();
+    fileSystem = new MemoryFileSystem();
+    sync = new CloudSaveSync({
+      edgeIO: cloud as unknown as EdgeIOIntegration,
+      engine: new EventEmitter() as unknown as GameEmulationEngine,
+      saveStates: new SaveStateManager({ fileSystem, directory: '/states' }),
+      fileSystem,
+      storage: new MemoryStorage(),
+      batteryDirectory: '/battery'
+    });
+    await sync.initialize();
+    deviceId = sync.getDeviceId();
+
+    await writeBattery('level 1');
+    await sync.syncGame(GAME);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('uploads a local edit made on top of the synced copy', async () => {
+    await writeBattery('level 2');
+
+    const result = await sync.syncGame(GAME);
+
+    expect(result).toMatchObject({ uploaded: 1, downloaded: 0, conflicts: 0 });
+    expect(cloud.clockOf(SAVE_ID)).toEqual({ [deviceId]: 2 });
+  });
+
+  it('downloads a cloud edit made on top of the synced copy', async () => {
+    cloud.putFromDevice('tablet', { [deviceId]: 1, tablet: 1 }, 'level 3');
+
+    const result = await sync.syncGame(GAME);
+
+    expect(result).toMatchObject({ uploaded: 0, downloaded: 1, conflicts: 0 });
+    expect(await readBattery()).toBe('level 3');
+  });
+
+  it('holds concurrent edits as a conflict without overwriting either side', async () => {
+    const conflicts = jest.fn();
+    sync.on('conflictDetected', conflicts);
+    await writeBattery('local edit');
+    cloud.putFromDevice('tablet', { [deviceId]: 1, tablet: 1 }, 'tablet edit');
+
+    const result = await sync.syncGame(GAME);
+
+    expect(result).toMatchObject({ uploaded: 0, downloaded: 0, conflicts: 1 });
+    expect(conflicts).toHaveBeenCalledTimes(1);
+    expect(await readBattery()).toBe('local edit');
+    expect(cloud.clockOf(SAVE_ID)).toEqual({ [deviceId]: 1, tablet: 1 });
+  });
+
+  it('uploads the local copy over the cloud one when a conflict is resolved with keepLocal', async () => {
+    await writeBattery('local edit');
+    cloud.putFromDevice('tablet', { [deviceId]: 1, tablet: 1 }, 'tablet edit');
+    await sync.syncGame(GAME);
+
+    const result = await sync.resolveConflict(SAVE_ID, 'keepLocal');
+
+    expect(result).toMatchObject({ uploaded: 1, conflicts: 0 });
+    expect(compareClocks(cloud.clockOf(SAVE_ID), { [deviceId]: 2, tablet: 1 })).toBe('after');
+    expect(await sync.getConflicts(GAME)).toEqual([]);
+  });
+
+  it('does not restore a save deleted here until another device changes it', async () => {
+    await fileSystem.unlink(BATTERY_PATH);
+
+    await sync.syncGame(GAME);
+    expect(await fileSystem.exists(BATTERY_PATH)).toBe(false);
+
+    cloud.putFromDevice('tablet', { [deviceId]: 1, tablet: 1 }, 'tablet edit');
+    const result = await sync.syncGame(GAME);
+
+    expect(result.downloaded).toBe(1);
+    expect(await readBattery()).toBe('tablet edit');
+  });
+});
@@ -0,0 +1,648 @@
+// 3kMLV Arcade - Cloud Save Sync
+// Keeps local save states and battery saves in step with their EdgeIO cloud copies
+//
+// Every save file carries a vector clock: one edit counter per device. A device bumps its own
+// counter whenever the file's SHA-1 changes locally, and uploads carry the clock. Comparing the
+// local and cloud clocks then tells which side is newer, or that both changed since they last
+// agreed - a conflict, unless the contents happen to be identical. Conflicts wait for
+// resolveConflict(); nothing is overwritten without a clear winner.
+//
+// Games whose sync could not finish (offline, server errors) are queued in storage and retried
+// when EdgeIO connects, when the app starts, or on the next save.
+
+import { EventEmitter } from 'events';
+import { CloudSaveFile, EdgeIOIntegration, SaveData, SaveKind } from './EdgeIOIntegration';
+import { GameEmulationEngine, GameRom } from './GameEmulationEngine';
+import { SaveStateManager, decodeSaveState, encodeSaveState } from './SaveStateManager';
+import { base64Decode, base64Encode, sha1Hex } from './BinaryUtils';
+import { FileSystem, ReactNativeFileSystem, joinPath } from './FileSystem';
+import { KeyValueStorage, getDefaultStorage, getDeviceId, readJson, writeJson } from './Storage';
+
+export type VectorClock = Record<string, number>;
+
+export type ClockOrder = 'equal' | 'before' | 'after' | 'concurrent';
+
+export type ConflictResolution = 'keepLocal' | 'keepCloud' | 'keepBoth';
+
+export interface SaveConflict {
+  saveId: string;
+  gameId: string;
+  kind: SaveKind;
+  slot: number;
+  local: SaveData;
+  cloud: CloudSaveFile;
+  // By modification time, to suggest a default in the UI
+  newer: 'local' | 'cloud';
+}
+
+export interface SyncResult {
+  gameId: string;
+  uploaded: number;
+  downloaded: number;
+  conflicts: number;
+  failed: number;
+  // The cloud was unreachable; the game stays queued
+  offline: boolean;
+}
+
+export type CloudSaveErrorCode = 'OFFLINE' | 'CONFLICT' | 'CORRUPTED' | 'NOT_FOUND';
+
+export class CloudSaveError extends Error {
+  public readonly code: CloudSaveErrorCode;
+
+  constructor(code: CloudSaveErrorCode, message: string) {
+    super(message);
+    this.name = 'CloudSaveError';
+    this.code = code;
+  }
+}
+
+export interface CloudSaveSyncOptions {
+  edgeIO?: EdgeIOIntegration;
+  engine?: GameEmulationEngine;
+  saveStates?: SaveStateManager;
+  fileSystem?: FileSystem;
+  storage?: KeyValueStorage;
+  // Holds <checksum>.sav battery saves; defaults to <documents>/battery
+  batteryDirectory?: string;
+  // First retry delay, doubled on every further attempt
+  retryDelayMs?: number;
+}
+
+interface SyncEntry {
+  saveId: string;
+  gameId: string;
+  kind: SaveKind;
+  slot: number;
+  // Local content as last scanned; null while there is no local file
+  sha1: string | null;
+  size: number;
+  modifiedAt: number;
+  clock: VectorClock;
+  // Content both sides last agreed on
+  syncedSha1: string | null;
+  // Deleted here: the cloud copy is not restored until another device changes it
+  deleted: boolean;
+  status: SaveData['syncStatus'];
+  conflict: CloudSaveFile | null;
+}
+
+interface LocalSave {
+  kind: SaveKind;
+  slot: number;
+  data: Uint8Array;
+  modifiedAt: number;
+}
+
+type StoredEntries = Record<string, SyncEntry>;
+
+const ENTRIES_KEY_PREFIX = '@mlvarcade:cloudSaves:';
+const QUEUE_KEY = '@mlvarcade:cloudSaves:queue';
+const BATTERY_EXTENSION = '.sav';
+const DEFAULT_RETRY_DELAY_MS = 1000;
+const MAX_RETRY_DELAY_MS = 30000;
+
+export function compareClocks(a: VectorClock, b: VectorClock): ClockOrder {
+  let aAhead = false;
+  let bAhead = false;
+  for (const device of new Set([...Object.keys(a), ...Object.keys(b)])) {
+    const left = a[device] ?? 0;
+    const right = b[device] ?? 0;
+    aAhead = aAhead || left > right;
+    bAhead = bAhead || right > left;
+  }
+  if (aAhead && bAhead) {
+    return 'concurrent';
+  }
+  return aAhead ? 'after' : bAhead ? 'before' : 'equal';
+}
+
+export function mergeClocks(a: VectorClock, b: VectorClock): VectorClock {
+  const merged: VectorClock = { ...a };
+  for (const [device, counter] of Object.entries(b)) {
+    merged[device] = Math.max(merged[device] ?? 0, counter);
+  }
+  return merged;
+}
+
+export function incrementClock(clock: VectorClock, deviceId: string): VectorClock {
+  return { ...clock, [deviceId]: (clock[deviceId] ?? 0) + 1 };
+}
+
+export function cloudSaveId(gameId: string, kind: SaveKind, slot: number): string {
+  return `${gameId}:${kind}:${slot}`;
+}
+
+function delay(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+function isConflictError(error: unknown): boolean {
+  return (error as { code?: string } | null)?.code === 'CONFLICT';
+}
+
+export class CloudSaveSync extends EventEmitter {
+  private static instance: CloudSaveSync;
+  private edgeIO: EdgeIOIntegration;
+  private engine: GameEmulationEngine;
+  private saveStates: SaveStateManager;
+  private fileSystem: FileSystem | null;
+  private storage: KeyValueStorage;
+  private batteryDirectory: string | null;
+  private retryDelayMs: number;
+  private deviceId = '';
+  private entries: Map<string, StoredEntries> = new Map();
+  private queue: Set<string> = new Set();
+  // Syncs for the same game run one after another
+  private chains: Map<string, Promise<unknown>> = new Map();
+  private currentGameId: string | null = null;
+  private initializing: Promise<void> | null = null;
+
+  constructor(options: CloudSaveSyncOptions = {}) {
+    super();
+    this.edgeIO = options.edgeIO ?? EdgeIOIntegration.getInstance();
+    this.engine = options.engine ?? GameEmulationEngine.getInstance();
+    this.fileSystem = options.fileSystem ?? null;
+    this.saveStates = options.saveStates ?? new SaveStateManager(options.fileSystem ? { fileSystem: options.fileSystem } : {});
+    this.storage = options.storage ?? getDefaultStorage();
+    this.batteryDirectory = options.batteryDirectory ?? null;
+    this.retryDelayMs = options.retryDelayMs ?? DEFAULT_RETRY_DELAY_MS;
+    this.setupEventHandlers();
+  }
+
+  public static getInstance(): CloudSaveSync {
+    if (!CloudSaveSync.instance) {
+      CloudSaveSync.instance = new CloudSaveSync();
+    }
+    return CloudSaveSync.instance;
+  }
+
+  private setupEventHandlers() {
+    const syncInBackground = (gameId: string | null) => {
+      if (gameId) {
+        this.syncGame(gameId).catch(error => {
+          console.error('Failed to sync saves:', error);
+          this.emit('error', error);
+        });
+      }
+    };
+
+    this.edgeIO.on('connected', () => {
+      this.flushQueue().catch(error => {
+        console.error('Failed to flush cloud save queue:', error);
+        this.emit('error', error);
+      });
+    });
+    this.engine.on('gameLoaded', (rom: GameRom) => {
+      this.currentGameId = rom.checksum;
+    });
+    this.engine.on('stateSaved', () => syncInBackground(this.currentGameId));
+    // Cores flush battery saves when emulation stops
+    this.engine.on('emulationStopped', () => syncInBackground(this.currentGameId));
+  }
+
+  public async initialize(): Promise<void> {
+    if (!this.initializing) {
+      this.initializing = (async () => {
+        this.deviceId = await getDeviceId(this.storage);
+        this.queue = new Set(await readJson<string[]>(this.storage, QUEUE_KEY, []));
+      })();
+    }
+    return this.initializing;
+  }
+
+  public getDeviceId(): string {
+    return this.deviceId;
+  }
+
+  public getQueuedGames(): string[] {
+    return Array.from(this.queue);
+  }
+
+  // Retries every queued game; returns the results of the games attempted
+  public async flushQueue(): Promise<SyncResult[]> {
+    await this.initialize();
+    const results: SyncResult[] = [];
+    for (const gameId of Array.from(this.queue)) {
+      const result = await this.syncGame(gameId);
+      results.push(result);
+      if (result.offline) {
+        break;
+      }
+    }
+    return results;
+  }
+
+  public syncGame(gameId: string): Promise<SyncResult> {
+    return this.serialize(gameId, () => this.runSync(gameId));
+  }
+
+  public async getSaveData(gameId: string): Promise<SaveData[]> {
+    await this.initialize();
+    const entries = await this.loadEntries(gameId);
+    return Object.values(entries)
+      .filter(entry => entry.sha1 || entry.syncedSha1 || entry.conflict)
+      .sort((a, b) => a.kind.localeCompare(b.kind) || a.slot - b.slot)
+      .map(entry => this.toSaveData(entry));
+  }
+
+  public async getConflicts(gameId?: string): Promise<SaveConflict[]> {
+    await this.initialize();
+    const gameIds = gameId ? [gameId] : Array.from(this.entries.keys());
+    const conflicts: SaveConflict[] = [];
+    for (const id of gameIds) {
+      for (const entry of Object.values(await this.loadEntries(id))) {
+        if (entry.conflict) {
+          conflicts.push(this.toConflict(entry, entry.conflict));
+        }
+      }
+    }
+    return conflicts;
+  }
+
+  // keepBoth moves the cloud copy of a save state into a free slot; for a battery save, which
+  // has no slots, the cloud copy is kept next to it as <checksum>.<device>.sav.bak
+  public resolveConflict(saveId: string, resolution: ConflictResolution): Promise<SyncResult> {
+    const gameId = saveId.split(':')[0]!;
+    return this.serialize(gameId, async () => {
+      await this.initialize();
+      const entries = await this.loadEntries(gameId);
+      const entry = entries[saveId];
+      const cloud = entry?.conflict;
+      if (!entry || !cloud) {
+        throw new CloudSaveError('NOT_FOUND', `No conflict for ${saveId}`);
+      }
+
+      if (resolution === 'keepCloud') {
+        // The cloud copy may have moved on since the conflict was found
+        const latest = (await this.withRetry(() => this.edgeIO.listCloudSaves(gameId))).find(save => save.id === saveId);
+        await this.download(entry, latest ?? cloud);
+      } else {
+        if (resolution === 'keepBoth') {
+          await this.keepCloudCopy(entries, entry, cloud);
+        }
+        // Dominates both histories, so the next upload replaces the cloud copy
+        entry.clock = incrementClock(mergeClocks(entry.clock, cloud.clock), this.deviceId);
+      }
+      if (entry.conflict) {
+        entry.conflict = null;
+        entry.status = 'pending';
+      }
+      await this.saveEntries(gameId);
+      this.emit('conflictResolved', { saveId, resolution });
+      return this.runSync(gameId);
+    });
+  }
+
+  private serialize<T>(gameId: string, run: () => Promise<T>): Promise<T> {
+    const previous = this.chains.get(gameId) ?? Promise.resolve();
+    const next = previous.catch(() => undefined).then(run);
+    this.chains.set(gameId, next);
+    next.finally(() => {
+      if (this.chains.get(gameId) === next) {
+        this.chains.delete(gameId);
+      }
+    }).catch(() => undefined);
+    return next;
+  }
+
+  private async runSync(gameId: string): Promise<SyncResult> {
+    await this.initialize();
+    const result: SyncResult = { gameId, uploaded: 0, downloaded: 0, conflicts: 0, failed: 0, offline: false };
+    this.emit('syncStarted', gameId);
+
+    const entries = await this.loadEntries(gameId);
+    await this.scanLocal(gameId, entries);
+
+    let cloudSaves: CloudSaveFile[];
+    try {
+      cloudSaves = await this.withRetry(() => this.edgeIO.listCloudSaves(gameId));
+    } catch (error) {
+      console.warn(`Cloud saves for ${gameId} unavailable, queued for later:`, error);
+      await this.saveEntries(gameId);
+      await this.enqueue(gameId);
+      result.offline = true;
+      this.emit('syncCompleted', result);
+      return result;
+    }
+
+    const cloudById = new Map(cloudSaves.map(save => [save.id, save]));
+    for (const saveId of new Set([...Object.keys(entries), ...cloudById.keys()])) {
+      const cloud = cloudById.get(saveId) ?? null;
+      const entry = entries[saveId] ?? (entries[saveId] = this.createEntry(cloud!));
+      try {
+        await this.syncEntry(entry, cloud, result);
+      } catch (error) {
+        console.error(`Failed to sync ${saveId}:`, error);
+        entry.status = 'error';
+        result.failed++;
+        this.emit('syncFailed', { saveId, error });
+      }
+    }
+
+    await this.saveEntries(gameId);
+    if (result.failed > 0) {
+      await this.enqueue(gameId);
+    } else {
+      await this.dequeue(gameId);
+    }
+    this.emit('syncCompleted', result);
+    return result;
+  }
+
+  private async syncEntry(entry: SyncEntry, cloud: CloudSaveFile | null, result: SyncResult): Promise<void> {
+    if (entry.conflict) {
+      // Still waiting for resolveConflict(), unless the cloud copy moved on to match
+      if (cloud && cloud.sha1 === entry.sha1) {
+        entry.clock = mergeClocks(entry.clock, cloud.clock);
+        this.markSynced(entry, cloud);
+      } else {
+        result.conflicts++;
+      }
+      return;
+    }
+
+    if (!entry.sha1) {
+      if (!cloud) {
+        return;
+      }
+      // A save deleted here stays deleted until another device changes it
+      if (entry.deleted && compareClocks(cloud.clock, entry.clock) !== 'after') {
+        return;
+      }
+      await this.download(entry, cloud);
+      result.downloaded++;
+      return;
+    }
+
+    if (!cloud) {
+      await this.upload(entry, result);
+      return;
+    }
+
+    if (cloud.sha1 === entry.sha1) {
+      entry.clock = mergeClocks(entry.clock, cloud.clock);
+      this.markSynced(entry, cloud);
+      return;
+    }
+
+    switch (compareClocks(entry.clock, cloud.clock)) {
+      case 'after':
+        await this.upload(entry, result);
+        return;
+      case 'before':
+        await this.download(entry, cloud);
+        result.downloaded++;
+        return;
+      default:
+        entry.conflict = cloud;
+        entry.status = 'conflict';
+        result.conflicts++;
+        this.emit('conflictDetected', this.toConflict(entry, cloud));
+    }
+  }
+
+  private async upload(entry: SyncEntry, result: SyncResult): Promise<void> {
+    const data = await this.getFileSystem().readFile(this.getLocalPath(entry));
+    // The file may have changed since the scan; only upload content the clock describes
+    if (sha1Hex(data) !== entry.sha1) {
+      entry.status = 'pending';
+      return;
+    }
+
+    const save: CloudSaveFile = {
+      ...this.toSaveData(entry),
+      isCloud: true,
+      gameId: entry.gameId,
+      kind: entry.kind,
+      slot: entry.slot,
+      sha1: entry.sha1,
+      clock: entry.clock,
+      deviceId: this.deviceId
+    };
+
+    try {
+      const stored = await this.withRetry(() => this.edgeIO.uploadSaveFile(save, base64Encode(data)));
+      this.markSynced(entry, stored);
+      result.uploaded++;
+      this.emit('saveUploaded', this.toSaveData(entry));
+    } catch (error) {
+      if (!isConflictError(error)) {
+        throw error;
+      }
+      // Another device uploaded since the listing; compare again on the next sync
+      entry.status = 'pending';
+      result.failed++;
+    }
+  }
+
+  private async download(entry: SyncEntry, cloud: CloudSaveFile): Promise<void> {
+    const data = base64Decode(await this.withRetry(() => this.edgeIO.downloadSaveFile(cloud.id)));
+    if (sha1Hex(data) !== cloud.sha1) {
+      throw new CloudSaveError('CORRUPTED', `Cloud copy of ${cloud.id} does not match its hash`);
+    }
+    if (entry.kind === 'state') {
+      try {
+        decodeSaveState(data);
+      } catch (error) {
+        throw new CloudSaveError('CORRUPTED', `Cloud copy of ${cloud.id} is not a valid save state`);
+      }
+    }
+
+    await this.writeLocal(this.getLocalPath(entry), data);
+    entry.sha1 = cloud.sha1;
+    entry.size = data.length;
+    entry.modifiedAt = Date.now();
+    entry.clock = { ...cloud.clock };
+    entry.deleted = false;
+    this.markSynced(entry, cloud);
+    this.emit('saveDownloaded', this.toSaveData(entry));
+  }
+
+  private markSynced(entry: SyncEntry, cloud: CloudSaveFile): void {
+    entry.clock = mergeClocks(entry.clock, cloud.clock);
+    entry.syncedSha1 = cloud.sha1;
+    entry.conflict = null;
+    entry.status = 'synced';
+  }
+
+  private async keepCloudCopy(entries: StoredEntries, entry: SyncEntry, cloud: CloudSaveFile): Promise<void> {
+    const data = base64Decode(await this.withRetry(() => this.edgeIO.downloadSaveFile(cloud.id)));
+    if (sha1Hex(data) !== cloud.sha1) {
+      throw new CloudSaveError('CORRUPTED', `Cloud copy of ${cloud.id} does not match its hash`);
+    }
+
+    if (entry.kind === 'battery') {
+      await this.writeLocal(`${this.getLocalPath(entry)}.${cloud.deviceId}.bak`, data);
+      return;
+    }
+
+    // Re-encoded so the header names the slot the copy now lives in
+    const slot = Math.max(...Object.values(entries).filter(other => other.kind === 'state').map(other => other.slot)) + 1;
+    const { header, thumbnail, state } = decodeSaveState(data);
+    const { thumbnail: _thumbnail, payload: _payload, ...rest } = header;
+    const copy = encodeSaveState({ ...rest, slot }, state, thumbnail.length > 0 ? thumbnail : null);
+    await this.writeLocal(this.saveStates.getSlotPath(entry.gameId, slot), copy);
+  }
+
+  // Bumps the local clock of every save whose content changed since the last scan
+  private async scanLocal(gameId: string, entries: StoredEntries): Promise<void> {
+    const found = new Set<string>();
+    for (const local of await this.readLocal(gameId)) {
+      const saveId = cloudSaveId(gameId, local.kind, local.slot);
+      const sha1 = sha1Hex(local.data);
+      found.add(saveId);
+
+      const entry = entries[saveId] ?? (entries[saveId] = this.createEntry({ id: saveId, gameId, kind: local.kind, slot: local.slot }));
+      if (entry.sha1 === sha1) {
+        continue;
+      }
+      entry.sha1 = sha1;
+      entry.size = local.data.length;
+      entry.modifiedAt = local.modifiedAt;
+      entry.deleted = false;
+      if (sha1 !== entry.syncedSha1) {
+        entry.clock = incrementClock(entry.clock, this.deviceId);
+        if (!entry.conflict) {
+          entry.status = 'pending';
+        }
+      }
+    }
+
+    for (const entry of Object.values(entries)) {
+      if (entry.sha1 && !found.has(entry.saveId)) {
+        entry.sha1 = null;
+        entry.deleted = true;
+      }
+    }
+  }
+
+  private async readLocal(gameId: string): Promise<LocalSave[]> {
+    const fileSystem = this.getFileSystem();
+    const saves: LocalSave[] = [];
+
+    for (const summary of await this.saveStates.listSlots(gameId)) {
+      const path = this.saveStates.getSlotPath(gameId, summary.slot);
+      const [data, stat] = await Promise.all([fileSystem.readFile(path), fileSystem.stat(path)]);
+      saves.push({ kind: 'state', slot: summary.slot, data, modifiedAt: stat.modifiedAt });
+    }
+
+    const batteryPath = this.getBatteryPath(gameId);
+    if (await fileSystem.exists(batteryPath)) {
+      const [data, stat] = await Promise.all([fileSystem.readFile(batteryPath), fileSystem.stat(batteryPath)]);
+      saves.push({ kind: 'battery', slot: 0, data, modifiedAt: stat.modifiedAt });
+    }
+    return saves;
+  }
+
+  private async withRetry<T>(run: () => Promise<T>): Promise<T> {
+    const attempts = Math.max(0, this.edgeIO.getConfig().retryAttempts);
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await run();
+      } catch (error) {
+        if (isConflictError(error) || attempt >= attempts) {
+          throw error;
+        }
+        await delay(Math.min(this.retryDelayMs * 2 ** attempt, MAX_RETRY_DELAY_MS));
+      }
+    }
+  }
+
+  private createEntry(save: Pick<CloudSaveFile, 'id' | 'gameId' | 'kind' | 'slot'>): SyncEntry {
+    return {
+      saveId: save.id,
+      gameId: save.gameId,
+      kind: save.kind,
+      slot: save.slot,
+      sha1: null,
+      size: 0,
+      modifiedAt: 0,
+      clock: {},
+      syncedSha1: null,
+      deleted: false,
+      status: 'pending',
+      conflict: null
+    };
+  }
+
+  private toSaveData(entry: SyncEntry): SaveData {
+    return {
+      id: entry.saveId,
+      name: entry.kind === 'state' ? `Slot ${entry.slot}` : 'Battery save',
+      timestamp: new Date(entry.modifiedAt),
+      size: entry.size,
+      isCloud: entry.syncedSha1 !== null || entry.conflict !== null,
+      isLocal: entry.sha1 !== null,
+      syncStatus: entry.status
+    };
+  }
+
+  private toConflict(entry: SyncEntry, cloud: CloudSaveFile): SaveConflict {
+    return {
+      saveId: entry.saveId,
+      gameId: entry.gameId,
+      kind: entry.kind,
+      slot: entry.slot,
+      local: this.toSaveData(entry),
+      cloud,
+      newer: new Date(cloud.timestamp).getTime() > entry.modifiedAt ? 'cloud' : 'local'
+    };
+  }
+
+  private async loadEntries(gameId: string): Promise<StoredEntries> {
+    let entries = this.entries.get(gameId);
+    if (!entries) {
+      entries = await readJson<StoredEntries>(this.storage, `${ENTRIES_KEY_PREFIX}${gameId}`, {});
+      this.entries.set(gameId, entries);
+    }
+    return entries;
+  }
+
+  private async saveEntries(gameId: string): Promise<void> {
+    await writeJson(this.storage, `${ENTRIES_KEY_PREFIX}${gameId}`, this.entries.get(gameId) ?? {});
+  }
+
+  private async enqueue(gameId: string): Promise<void> {
+    if (!this.queue.has(gameId)) {
+      this.queue.add(gameId);
+      await writeJson(this.storage, QUEUE_KEY, Array.from(this.queue));
+      this.emit('syncQueued', gameId);
+    }
+  }
+
+  private async dequeue(gameId: string): Promise<void> {
+    if (this.queue.delete(gameId)) {
+      await writeJson(this.storage, QUEUE_KEY, Array.from(this.queue));
+    }
+  }
+
+  private async writeLocal(path: string, data: Uint8Array): Promise<void> {
+    const fileSystem = this.getFileSystem();
+    const directory = path.slice(0, path.lastIndexOf('/'));
+    if (directory && !(await fileSystem.exists(directory))) {
+      await fileSystem.mkdir(directory);
+    }
+    await fileSystem.writeFile(path, data);
+  }
+
+  private getLocalPath(entry: SyncEntry): string {
+    return entry.kind === 'state' ? this.saveStates.getSlotPath(entry.gameId, entry.slot) : this.getBatteryPath(entry.gameId);
+  }
+
+  private getBatteryPath(gameId: string): string {
+    if (!this.batteryDirectory) {
+      this.batteryDirectory = joinPath(ReactNativeFileSystem.getDocumentDirectory(), 'battery');
+    }
+    return joinPath(this.batteryDirectory, `${gameId}${BATTERY_EXTENSION}`);
+  }
+
+  private getFileSystem(): FileSystem {
+    if (!this.fileSystem) {
+      this.fileSystem = new ReactNativeFileSystem();
+    }
+    return this.fileSystem;
+  }
+}
+
+export default CloudSaveSync;
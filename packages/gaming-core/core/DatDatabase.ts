@@ -0,0 +1,185 @@
+// 3kMLV Arcade - DAT Database
+// Parses No-Intro / Redump (Logiqx XML) DAT files and matches ROM checksums against them
+
+import type { GameMetadata } from './GameEmulationEngine';
+
+export interface DatRomEntry {
+  gameName: string;
+  romName: string;
+  size: number;
+  crc32: string;
+  sha1: string;
+  description: string;
+  year: number;
+  manufacturer: string;
+  publisher: string;
+  category: string;
+  datName: string;
+}
+
+export interface DatFile {
+  name: string;
+  description: string;
+  version: string;
+  entries: DatRomEntry[];
+}
+
+const XML_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'"
+};
+
+function decodeXml(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#[0-9]+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const code = entity[1] === 'x' || entity[1] === 'X'
+        ? parseInt(entity.slice(2), 16)
+        : parseInt(entity.slice(1), 10);
+      return Number.isNaN(code) ? match : String.fromCodePoint(code);
+    }
+    return XML_ENTITIES[entity.toLowerCase()] ?? match;
+  });
+}
+
+function parseAttributes(source: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  const pattern = /([\w:-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(source)) !== null) {
+    attributes[match[1]!] = decodeXml(match[2] ?? match[3] ?? '');
+  }
+
+  return attributes;
+}
+
+function childText(body: string, tag: string): string {
+  const match = new RegExp(`<${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</${tag}>`).exec(body);
+  return match ? decodeXml(match[1]!.trim()) : '';
+}
+
+// Logiqx DATs are flat and well-formed, so a tag scanner is enough; no DOM is available on device
+export function parseDat(xml: string): DatFile {
+  const headerMatch = /<header>([\s\S]*?)<\/header>/.exec(xml);
+  const header = headerMatch ? headerMatch[1]! : '';
+  const datName = childText(header, 'name') || 'Unknown DAT';
+  const entries: DatRomEntry[] = [];
+
+  const gamePattern = /<(game|machine)\b([^>]*)>([\s\S]*?)<\/\1>/g;
+  let game: RegExpExecArray | null;
+
+  while ((game = gamePattern.exec(xml)) !== null) {
+    const gameAttributes = parseAttributes(game[2]!);
+    const body = game[3]!;
+    const gameName = gameAttributes.name ?? '';
+    const description = childText(body, 'description') || gameName;
+    const year = parseInt(childText(body, 'year'), 10);
+    const manufacturer = childText(body, 'manufacturer');
+    const publisher = childText(body, 'publisher') || manufacturer;
+    const category = childText(body, 'category');
+
+    const romPattern = /<rom\b([^>]*?)\/?>/g;
+    let rom: RegExpExecArray | null;
+    while ((rom = romPattern.exec(body)) !== null) {
+      const attributes = parseAttributes(rom[1]!);
+      if (!attributes.crc && !attributes.sha1) {
+        continue;
+      }
+
+      entries.push({
+        gameName,
+        romName: attributes.name ?? gameName,
+        size: parseInt(attributes.size ?? '0', 10) || 0,
+        crc32: (attributes.crc ?? '').toLowerCase(),
+        sha1: (attributes.sha1 ?? '').toLowerCase(),
+        description,
+        year: Number.isNaN(year) ? 0 : year,
+        manufacturer,
+        publisher,
+        category,
+        datName
+      });
+    }
+  }
+
+  return {
+    name: datName,
+    description: childText(header, 'description'),
+    version: childText(header, 'version'),
+    entries
+  };
+}
+
+// "Tetris (World) (Rev 1)" -> "Tetris"
+export function cleanTitle(gameName: string): string {
+  const stripped = gameName.replace(/\s*[([][^)\]]*[)\]]/g, '').trim();
+  return stripped.length > 0 ? stripped : gameName;
+}
+
+export function metadataFromDat(entry: DatRomEntry): GameMetadata {
+  return {
+    title: cleanTitle(entry.gameName),
+    description: entry.description,
+    genre: entry.category && entry.category !== 'Games' ? [entry.category] : [],
+    year: entry.year,
+    developer: entry.manufacturer,
+    publisher: entry.publisher,
+    rating: '',
+    players: 1,
+    screenshot: '',
+    cover: '',
+    video: ''
+  };
+}
+
+export class DatDatabase {
+  private bySha1: Map<string, DatRomEntry> = new Map();
+  private byCrc: Map<string, DatRomEntry[]> = new Map();
+  private datNames: Set<string> = new Set();
+  private entryCount = 0;
+
+  public add(dat: DatFile): number {
+    this.entryCount += dat.entries.length;
+    for (const entry of dat.entries) {
+      if (entry.sha1) {
+        this.bySha1.set(entry.sha1, entry);
+      }
+      if (entry.crc32) {
+        const existing = this.byCrc.get(entry.crc32) ?? [];
+        existing.push(entry);
+        this.byCrc.set(entry.crc32, existing);
+      }
+    }
+    this.datNames.add(dat.name);
+    return dat.entries.length;
+  }
+
+  // SHA-1 is authoritative; CRC32 only counts when the size agrees too
+  public match(sha1: string, crc32: string, size: number): DatRomEntry | null {
+    const exact = this.bySha1.get(sha1.toLowerCase());
+    if (exact) {
+      return exact;
+    }
+
+    const candidates = this.byCrc.get(crc32.toLowerCase()) ?? [];
+    return candidates.find(entry => !entry.sha1 && entry.size === size) ?? null;
+  }
+
+  public getDatNames(): string[] {
+    return Array.from(this.datNames);
+  }
+
+  public getEntryCount(): number {
+    return this.entryCount;
+  }
+
+  public clear(): void {
+    this.bySha1.clear();
+    this.byCrc.clear();
+    this.datNames.clear();
+    this.entryCount = 0;
+  }
+}
@@ -0,0 +1,200 @@
+import { EventEmitter } from 'events';
+import { DownloadManager, DownloadTask } from './DownloadManager';
+import type { EdgeIOIntegration, GameManifest } from './EdgeIOIntegration';
+import type { RomCatalogEntry, RomLibrary } from './RomLibrary';
+import { base64Encode, sha1Hex } from './BinaryUtils';
+import { MemoryFileSystem } from './FileSystem';
+import { MemoryStorage } from './Storage';
+
+const CHUNK_SIZE = 4;
+
+// Serves each game as a single file, answering a tick late like the network would
+class FakeCloud extends EventEmitter {
+  files: Map<string, { fileName: string; data: Uint8Array }> = new Map();
+  manifestRequests: string[] = [];
+  offline = false;
+
+  addGame(gameId: string, fileName: string, size: number): void {
+    this.files.set(gameId, { fileName, data: Uint8Array.from({ length: size }, (_, index) => (index + gameId.length) & 0xff) });
+  }
+
+  getConfig() {
+    return { retryAttempts: 0 };
+  }
+
+  getCachedCloudGames() {
+    return [];
+  }
+
+  updateCloudGame(): void {}
+
+  async getGameManifest(gameId: string): Promise<GameManifest> {
+    this.manifestRequests.push(gameId);
+    await new Promise(resolve => setTimeout(resolve, 5));
+    const { fileName, data } = this.files.get(gameId)!;
+    const chunks: string[] = [];
+    for (let offset = 0; offset < data.length; offset += CHUNK_SIZE) {
+      chunks.push(sha1Hex(data.slice(offset, offset + CHUNK_SIZE)));
+    }
+    return { gameId, fileName, size: data.length, sha1: sha1Hex(data), chunkSize: CHUNK_SIZE, chunks };
+  }
+
+  async downloadGameRange(gameId: string, offset: number, length: number): Promise<string> {
+    await new Promise(resolve => setTimeout(resolve, 0));
+    if (this.offline) {
+      throw new Error('Network request failed');
+    }
+    return base64Encode(this.files.get(gameId)!.data.slice(offset, offset + length));
+  }
+}
+
+// Accepts every file, keyed by where it was installed
+const createLibrary = () => {
+  const roms = new Map<string, { id: string; path: string }>();
+  const library = {
+    initialize: async () => true,
+    getRom: (id: string) => roms.get(id) ?? null,
+    addRom: async (path: string) => {
+      const rom = { id: `rom:${path}`, path };
+      roms.set(rom.id, rom);
+      return { rom } as unknown as RomCatalogEntry;
+    }
+  };
+  return library as unknown as RomLibrary;
+};
+
+describe('DownloadManager', () => {
+  let cloud: FakeCloud;
+  let fileSystem: MemoryFileSystem;
+  let downloads: DownloadManager;
+
+  const createManager = (capacity?: number) => {
+    fileSystem = new MemoryFileSystem(capacity);
+    downloads = new DownloadManager({
+      edgeIO: cloud as unknown as EdgeIOIntegration,
+      library: createLibrary(),
+      fileSystem,
+      storage: new MemoryStorage(),
+      downloadDirectory: '/downloads',
+      romDirectory: '/roms',
+      reserveBytes: 0
+    });
+  };
+
+  // Resolves with the task once the game stops downloading, whichever way it ends
+  const finished = (gameId: string) => new Promise<DownloadTask>(resolve => {
+    const settle = (task: DownloadTask) => {
+      if (task.gameId === gameId) {
+        resolve(task);
+      }
+    };
+    downloads.on('downloadCompleted', ({ task }: { task: DownloadTask }) => settle(task));
+    downloads.on('downloadFailed', settle);
+  });
+
+  beforeEach(() => {
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    cloud = new FakeCloud();
+  });
+
+  afterEach(() => {
+    downloads.destroy();
+    jest.restoreAllMocks();
+  });
+
+  it('queues a game once when it is enqueued twice at the same time', async () => {
+    cloud.addGame('pong', 'pong.ch8', 8);
+    createManager();
+    const queued = jest.fn();
+    downloads.on('downloadQueued', queued);
+
+    const [first, second] = await Promise.all([downloads.enqueue('pong'), downloads.enqueue('pong')]);
+
+    expect(first.addedAt).toBe(second.addedAt);
+    expect(cloud.manifestRequests).toEqual(['pong']);
+    expect(queued).toHaveBeenCalledTimes(1);
+    expect(downloads.getTasks()).toHaveLength(1);
+  });
+
+  it('installs games that ship the same file name side by side', async () => {
+    cloud.addGame('pong-a', 'pong.ch8', 8);
+    cloud.addGame('pong-b', 'pong.ch8', 6);
+    createManager();
+
+    const done = Promise.all([finished('pong-a'), finished('pong-b')]);
+    await Promise.all([downloads.enqueue('pong-a'), downloads.enqueue('pong-b')]);
+    const [first, second] = await done;
+
+    expect(first.path).toBe('/roms/pong-a/pong.ch8');
+    expect(second.path).toBe('/roms/pong-b/pong.ch8');
+    expect((await fileSystem.readFile(first.path!)).length).toBe(8);
+    expect((await fileSystem.readFile(second.path!)).length).toBe(6);
+  });
+
+  it('pauses a download right after it is enqueued and resumes it later', async () => {
+    cloud.addGame('pong', 'pong.ch8', 8);
+    createManager();
+    const paused = new Promise<DownloadTask>(resolve => downloads.on('downloadPaused', resolve));
+
+    const queued = downloads.enqueue('pong');
+    expect(await downloads.pause('pong')).toBe(true);
+    await queued;
+
+    expect((await paused).bytesDownloaded).toBe(0);
+    expect(downloads.getTask('pong')?.status).toBe('paused');
+
+    const done = finished('pong');
+    expect(await downloads.resume('pong')).toBe(true);
+    expect((await done).status).toBe('completed');
+  });
+
+  it('cancels a download right after it is enqueued', async () => {
+    cloud.addGame('pong', 'pong.ch8', 8);
+    createManager();
+    const completed = jest.fn();
+    downloads.on('downloadCompleted', completed);
+
+    const queued = downloads.enqueue('pong');
+    expect(await downloads.cancel('pong')).toBe(true);
+    await queued;
+    await new Promise(resolve => setTimeout(resolve, 50));
+
+    expect(downloads.getTask('pong')).toBeNull();
+    expect(completed).not.toHaveBeenCalled();
+    expect(await fileSystem.exists('/roms/pong/pong.ch8')).toBe(false);
+  });
+
+  it('pauses a download waiting in the queue for EdgeIO to come back', async () => {
+    cloud.addGame('pong', 'pong.ch8', 8);
+    cloud.offline = true;
+    createManager();
+    const pauses: Array<Promise<boolean>> = [];
+    downloads.on('downloadQueued', (task: DownloadTask) => {
+      if (task.error?.code === 'OFFLINE') {
+        pauses.push(downloads.pause('pong'));
+      }
+    });
+    const paused = new Promise<DownloadTask>(resolve => downloads.on('downloadPaused', resolve));
+
+    await downloads.enqueue('pong');
+
+    expect((await paused).status).toBe('paused');
+    expect(await Promise.all(pauses)).toEqual([true]);
+  });
+
+  it('counts the bytes a running download still has to write against free space', async () => {
+    cloud.addGame('big', 'big.ch8', 12);
+    cloud.addGame('small', 'small.ch8', 8);
+    // Room for either game, not both
+    createManager(16);
+
+    const done = Promise.all([finished('big'), finished('small')]);
+    await Promise.all([downloads.enqueue('big'), downloads.enqueue('small')]);
+    const [big, small] = await done;
+
+    expect(big.status).toBe('completed');
+    expect(small.status).toBe('failed');
+    expect(small.error?.code).toBe('NO_SPACE');
+  });
+});
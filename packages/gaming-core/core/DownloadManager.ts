@@ -0,0 +1,711 @@
+// 3kMLV Arcade - Download Manager
+// Queues cloud game downloads, transfers them in verified chunks and installs them into the ROM library
+//
+// Each game's manifest lists a SHA-1 per chunk. Chunks are fetched with range requests and only
+// appended to <downloads>/<gameId>.part once their hash matches, so a paused, interrupted or
+// restarted download resumes after the last good chunk. The finished file must also match the
+// whole-file hash from the catalog before it moves to <documents>/roms/<gameId> and into RomLibrary.
+// The queue lives in storage and picks up where it left off when the app starts again.
+
+import { EventEmitter } from 'events';
+import { EdgeIOIntegration, EdgeIOIntegrationEvents, GameManifest } from './EdgeIOIntegration';
+import { RomCatalogEntry, RomLibrary } from './RomLibrary';
+import { Sha1, base64Decode, sha1Hex } from './BinaryUtils';
+import { FileSystem, ReactNativeFileSystem, baseName, joinPath } from './FileSystem';
+import { KeyValueStorage, getDefaultStorage, readJson, writeJson } from './Storage';
+import { EventSubscriptions } from './EventSubscriptions';
+
+export type DownloadStatus = 'queued' | 'downloading' | 'paused' | 'verifying' | 'installing' | 'completed' | 'failed';
+
+export type DownloadErrorCode =
+  | 'OFFLINE'
+  | 'NOT_FOUND'
+  // EdgeIO turned the request down, e.g. an invalid API key
+  | 'REJECTED'
+  | 'NO_SPACE'
+  // A chunk kept arriving with the wrong hash
+  | 'CORRUPTED'
+  | 'CHECKSUM_MISMATCH'
+  | 'NOT_RECOGNIZED';
+
+export class DownloadError extends Error {
+  public readonly code: DownloadErrorCode;
+
+  constructor(code: DownloadErrorCode, message: string) {
+    super(message);
+    this.name = 'DownloadError';
+    this.code = code;
+  }
+}
+
+export interface DownloadTask {
+  gameId: string;
+  name: string;
+  manifest: GameManifest;
+  status: DownloadStatus;
+  // Verified bytes in the .part file, always whole chunks
+  bytesDownloaded: number;
+  addedAt: number;
+  updatedAt: number;
+  // Set once installed
+  path: string | null;
+  romId: string | null;
+  // Why the task failed, or why a queued task is waiting
+  error: { code: DownloadErrorCode; message: string } | null;
+}
+
+export interface DownloadProgress {
+  gameId: string;
+  progress: number;
+  bytes: number;
+  totalBytes: number;
+}
+
+export interface DownloadManagerOptions {
+  edgeIO?: EdgeIOIntegration;
+  library?: RomLibrary;
+  fileSystem?: FileSystem;
+  storage?: KeyValueStorage;
+  // Partial files; defaults to <documents>/downloads
+  downloadDirectory?: string;
+  // Installed ROMs, one folder per game; defaults to <documents>/roms, the folder GameLibraryScreen scans
+  romDirectory?: string;
+  maxConcurrent?: number;
+  // Free space that must remain once a download completes
+  reserveBytes?: number;
+  retryDelayMs?: number;
+}
+
+interface StoredQueue {
+  version: number;
+  tasks: DownloadTask[];
+}
+
+type StopRequest = 'pause' | 'cancel';
+
+const QUEUE_KEY = '@mlvarcade:downloads';
+const QUEUE_VERSION = 1;
+const DEFAULT_MAX_CONCURRENT = 2;
+const DEFAULT_RESERVE_BYTES = 50 * 1024 * 1024;
+const DEFAULT_RETRY_DELAY_MS = 1000;
+const MAX_RETRY_DELAY_MS = 30000;
+// Fetches of one chunk whose hash keeps failing before the download gives up
+const MAX_CHUNK_ATTEMPTS = 3;
+// Statuses that only exist while a task runs; a restart puts them back in the queue
+const RUNNING_STATUSES: DownloadStatus[] = ['downloading', 'verifying', 'installing'];
+
+function delay(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+function errorCode(error: unknown): string | undefined {
+  return (error as { code?: string } | null)?.code;
+}
+
+// EdgeIO could not be reached; anything else the server says is final
+function isNetworkError(error: unknown): boolean {
+  const code = errorCode(error);
+  return !(error instanceof DownloadError) && code !== 'NOT_FOUND' && code !== 'BAD_REQUEST' && code !== 'UNAUTHORIZED';
+}
+
+export class DownloadManager extends EventEmitter {
+  private static instance: DownloadManager;
+  private edgeIO: EdgeIOIntegration;
+  private library: RomLibrary;
+  private fileSystem: FileSystem | null;
+  private storage: KeyValueStorage;
+  private downloadDirectory: string | null;
+  private romDirectory: string | null;
+  private maxConcurrent: number;
+  private reserveBytes: number;
+  private retryDelayMs: number;
+  // Insertion order is queue order
+  private tasks: Map<string, DownloadTask> = new Map();
+  private active: Set<string> = new Set();
+  // Running tasks whose remaining bytes checkSpace() already set aside
+  private claimedSpace: Set<string> = new Set();
+  // Checked by running tasks between chunks
+  private stopRequests: Map<string, StopRequest> = new Map();
+  // Enqueues still fetching their manifest, so a second tap joins the first
+  private enqueuing: Map<string, Promise<DownloadTask>> = new Map();
+  private initializing: Promise<boolean> | null = null;
+  private isInitialized = false;
+  // Set when EdgeIO stopped answering; the queue waits for the next connect
+  private isOffline = false;
+  private subscriptions = new EventSubscriptions();
+
+  constructor(options: DownloadManagerOptions = {}) {
+    super();
+    this.edgeIO = options.edgeIO ?? EdgeIOIntegration.getInstance();
+    this.library = options.library ?? RomLibrary.getInstance();
+    this.fileSystem = options.fileSystem ?? null;
+    this.storage = options.storage ?? getDefaultStorage();
+    this.downloadDirectory = options.downloadDirectory ?? null;
+    this.romDirectory = options.romDirectory ?? null;
+    this.maxConcurrent = Math.max(1, options.maxConcurrent ?? DEFAULT_MAX_CONCURRENT);
+    this.reserveBytes = options.reserveBytes ?? DEFAULT_RESERVE_BYTES;
+    this.retryDelayMs = options.retryDelayMs ?? DEFAULT_RETRY_DELAY_MS;
+    this.setupEventHandlers();
+  }
+
+  public static getInstance(): DownloadManager {
+    if (!DownloadManager.instance) {
+      DownloadManager.instance = new DownloadManager();
+    }
+    return DownloadManager.instance;
+  }
+
+  private setupEventHandlers() {
+    const listen = this.subscriptions.listenTo<EdgeIOIntegrationEvents>(this.edgeIO);
+
+    listen('connected', () => {
+      this.isOffline = false;
+      this.pump();
+    });
+    // Fresh catalogs come without local install state
+    listen('gamesUpdated', () => {
+      for (const task of this.tasks.values()) {
+        this.updateCloudGame(task);
+      }
+    });
+  }
+
+  public initialize(): Promise<boolean> {
+    if (!this.initializing) {
+      this.initializing = this.load();
+    }
+    return this.initializing;
+  }
+
+  // Resolves once the game is queued; progress and completion follow as events
+  public enqueue(gameId: string): Promise<DownloadTask> {
+    let pending = this.enqueuing.get(gameId);
+    if (!pending) {
+      pending = this.addTask(gameId).finally(() => this.enqueuing.delete(gameId));
+      this.enqueuing.set(gameId, pending);
+    }
+    return pending;
+  }
+
+  // A running download stops after its current chunk
+  public async pause(gameId: string): Promise<boolean> {
+    await this.settleEnqueue(gameId);
+    const task = this.tasks.get(gameId);
+    if (!task) {
+      return false;
+    }
+    if (this.isRunning(task)) {
+      // Verifying and installing are short and cannot stop half-way
+      if (task.status !== 'downloading') {
+        return false;
+      }
+      this.stopRequests.set(gameId, 'pause');
+      return true;
+    }
+    if (task.status !== 'queued') {
+      return false;
+    }
+
+    await this.setStatus(task, 'paused');
+    this.emit('downloadPaused', { ...task });
+    return true;
+  }
+
+  // Also retries failed downloads, from the last verified chunk
+  public async resume(gameId: string): Promise<boolean> {
+    const task = this.tasks.get(gameId);
+    if (!task || (task.status !== 'paused' && task.status !== 'failed' && task.status !== 'queued')) {
+      return false;
+    }
+    if (this.stopRequests.get(gameId) === 'pause') {
+      this.stopRequests.delete(gameId);
+      return true;
+    }
+
+    task.error = null;
+    await this.setStatus(task, 'queued');
+    this.isOffline = false;
+    this.emit('downloadResumed', { ...task });
+    this.pump();
+    return true;
+  }
+
+  public async cancel(gameId: string): Promise<boolean> {
+    await this.settleEnqueue(gameId);
+    const task = this.tasks.get(gameId);
+    if (!task || task.status === 'completed') {
+      return false;
+    }
+    if (this.isRunning(task)) {
+      if (task.status !== 'downloading') {
+        return false;
+      }
+      this.stopRequests.set(gameId, 'cancel');
+      return true;
+    }
+
+    await this.removeTask(task);
+    return true;
+  }
+
+  // Drops finished and failed tasks from the list; installed ROMs stay in the library
+  public async clearFinished(): Promise<number> {
+    let removed = 0;
+    for (const task of Array.from(this.tasks.values())) {
+      if (task.status === 'completed' || task.status === 'failed') {
+        if (task.status === 'failed') {
+          await this.removePart(task.gameId);
+        }
+        this.tasks.delete(task.gameId);
+        removed++;
+      }
+    }
+    if (removed > 0) {
+      await this.persist();
+    }
+    return removed;
+  }
+
+  // Getters
+  public getTasks(): DownloadTask[] {
+    return Array.from(this.tasks.values(), task => ({ ...task }));
+  }
+
+  public getTask(gameId: string): DownloadTask | null {
+    const task = this.tasks.get(gameId);
+    return task ? { ...task } : null;
+  }
+
+  public getProgress(gameId: string): DownloadProgress | null {
+    const task = this.tasks.get(gameId);
+    return task ? this.toProgress(task) : null;
+  }
+
+  public destroy(): void {
+    this.subscriptions.clear();
+    for (const gameId of this.active) {
+      this.stopRequests.set(gameId, 'pause');
+    }
+  }
+
+  private async load(): Promise<boolean> {
+    try {
+      const stored = await readJson<StoredQueue>(this.storage, QUEUE_KEY, { version: QUEUE_VERSION, tasks: [] });
+      if (stored.version === QUEUE_VERSION) {
+        for (const task of stored.tasks) {
+          if (RUNNING_STATUSES.includes(task.status)) {
+            task.status = 'queued';
+          }
+          if (task.status !== 'completed') {
+            await this.reconcilePart(task);
+          }
+          this.tasks.set(task.gameId, task);
+        }
+      }
+
+      this.isInitialized = true;
+      await this.persist();
+      this.emit('initialized', this.getTasks());
+      this.pump();
+      return true;
+    } catch (error) {
+      console.error('Failed to initialize download manager:', error);
+      this.emit('error', error);
+      this.initializing = null;
+      return false;
+    }
+  }
+
+  private async addTask(gameId: string): Promise<DownloadTask> {
+    await this.initialize();
+
+    const existing = this.tasks.get(gameId);
+    if (existing && existing.status !== 'failed' && (existing.status !== 'completed' || this.library.getRom(existing.romId ?? ''))) {
+      return { ...existing };
+    }
+
+    let manifest: GameManifest;
+    try {
+      manifest = await this.withRetry(() => this.edgeIO.getGameManifest(gameId));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      if (isNetworkError(error)) {
+        throw new DownloadError('OFFLINE', `Manifest for ${gameId} unavailable: ${message}`);
+      }
+      throw new DownloadError(errorCode(error) === 'NOT_FOUND' ? 'NOT_FOUND' : 'REJECTED', message);
+    }
+    this.checkManifest(manifest);
+
+    if (existing) {
+      await this.removePart(gameId);
+      this.tasks.delete(gameId);
+    }
+
+    const now = Date.now();
+    const game = this.edgeIO.getCachedCloudGames().find(candidate => candidate.id === gameId);
+    const task: DownloadTask = {
+      gameId,
+      name: game?.name ?? manifest.fileName,
+      manifest,
+      status: 'queued',
+      bytesDownloaded: 0,
+      addedAt: now,
+      updatedAt: now,
+      path: null,
+      romId: null,
+      error: null
+    };
+    this.tasks.set(gameId, task);
+    await this.persist();
+
+    this.updateCloudGame(task);
+    this.emit('downloadQueued', { ...task });
+    this.pump();
+    return { ...task };
+  }
+
+  // A game still fetching its manifest has no task to pause or cancel yet
+  private async settleEnqueue(gameId: string): Promise<void> {
+    await this.enqueuing.get(gameId)?.catch(() => undefined);
+  }
+
+  // Starts queued tasks in order until maxConcurrent are running
+  private pump(): void {
+    if (!this.isInitialized || this.isOffline) {
+      return;
+    }
+
+    for (const task of this.tasks.values()) {
+      if (this.active.size >= this.maxConcurrent) {
+        break;
+      }
+      if (task.status !== 'queued' || this.active.has(task.gameId)) {
+        continue;
+      }
+
+      this.active.add(task.gameId);
+      this.run(task)
+        .catch(error => {
+          console.error(`Download of ${task.gameId} failed:`, error);
+          this.emit('error', error);
+        })
+        .finally(() => {
+          this.active.delete(task.gameId);
+          this.claimedSpace.delete(task.gameId);
+          this.stopRequests.delete(task.gameId);
+          this.pump();
+        });
+    }
+  }
+
+  private async run(task: DownloadTask): Promise<void> {
+    try {
+      task.error = null;
+      await this.setStatus(task, 'downloading');
+      this.emit('downloadStarted', { ...task });
+      await this.checkSpace(task);
+
+      if (!(await this.transfer(task))) {
+        return;
+      }
+
+      await this.setStatus(task, 'verifying');
+      await this.verify(task);
+      await this.setStatus(task, 'installing');
+      const entry = await this.install(task);
+
+      task.error = null;
+      await this.setStatus(task, 'completed');
+      this.updateCloudGame(task);
+      this.emit('downloadCompleted', { task: { ...task }, entry });
+    } catch (error) {
+      await this.handleFailure(task, error);
+    }
+
+    // A stop accepted just before a chunk failed still has to happen
+    const stop = this.stopRequests.get(task.gameId);
+    if (stop && (stop === 'cancel' ? task.status !== 'completed' : task.status === 'queued')) {
+      await this.handleStop(task, stop);
+    }
+  }
+
+  // A task back in the queue to wait for EdgeIO is only finishing its run, so pause and cancel
+  // treat it as queued rather than waiting for a chunk that will not come
+  private isRunning(task: DownloadTask): boolean {
+    return this.active.has(task.gameId) && task.status !== 'queued';
+  }
+
+  // Returns false when paused or cancelled part-way
+  private async transfer(task: DownloadTask): Promise<boolean> {
+    const { manifest } = task;
+    const fileSystem = this.getFileSystem();
+    const partPath = this.getPartPath(task.gameId);
+    await fileSystem.mkdir(this.getDownloadDirectory());
+
+    while (task.bytesDownloaded < manifest.size) {
+      if (await this.stopIfRequested(task)) {
+        return false;
+      }
+
+      const index = Math.floor(task.bytesDownloaded / manifest.chunkSize);
+      const length = Math.min(manifest.chunkSize, manifest.size - task.bytesDownloaded);
+      const chunk = await this.fetchChunk(task, index, length);
+      await fileSystem.appendFile(partPath, chunk);
+
+      task.bytesDownloaded += length;
+      task.updatedAt = Date.now();
+      await this.persist();
+      this.updateCloudGame(task);
+      this.emit('downloadProgress', this.toProgress(task));
+    }
+    // A pause or cancel accepted while the last chunk was in flight
+    return !(await this.stopIfRequested(task));
+  }
+
+  private async fetchChunk(task: DownloadTask, index: number, length: number): Promise<Uint8Array> {
+    const offset = index * task.manifest.chunkSize;
+    for (let attempt = 1; attempt <= MAX_CHUNK_ATTEMPTS; attempt++) {
+      const data = base64Decode(await this.withRetry(() => this.edgeIO.downloadGameRange(task.gameId, offset, length)));
+      if (data.length === length && sha1Hex(data) === task.manifest.chunks[index]) {
+        return data;
+      }
+      console.warn(`Chunk ${index} of ${task.gameId} failed verification (attempt ${attempt})`);
+      this.emit('chunkRejected', { gameId: task.gameId, index, attempt });
+    }
+    throw new DownloadError('CORRUPTED', `Chunk ${index} of ${task.gameId} kept failing verification`);
+  }
+
+  // Downloads that passed this check earlier have yet to write the rest of their files, so
+  // their remaining bytes are not free; counted after reading free space so both agree
+  private async checkSpace(task: DownloadTask): Promise<void> {
+    const free = await this.getFileSystem().getFreeSpace();
+    let needed = this.remainingBytes(task) + this.reserveBytes;
+    for (const gameId of this.claimedSpace) {
+      const other = this.tasks.get(gameId);
+      if (other) {
+        needed += this.remainingBytes(other);
+      }
+    }
+    if (free < needed) {
+      throw new DownloadError('NO_SPACE', `${task.name} needs ${needed} bytes free, ${free} available`);
+    }
+    this.claimedSpace.add(task.gameId);
+  }
+
+  // Chunks already passed, but the whole file must match the catalog before it is installed
+  private async verify(task: DownloadTask): Promise<void> {
+    const { manifest } = task;
+    const fileSystem = this.getFileSystem();
+    const partPath = this.getPartPath(task.gameId);
+    const sha1 = new Sha1();
+    for (let offset = 0; offset < manifest.size; offset += manifest.chunkSize) {
+      sha1.update(await fileSystem.readRange(partPath, offset, Math.min(manifest.chunkSize, manifest.size - offset)));
+    }
+
+    const expected = this.edgeIO.getCachedCloudGames().find(game => game.id === task.gameId)?.sha1 ?? manifest.sha1;
+    if (sha1.hexDigest() !== expected.toLowerCase()) {
+      // Nothing on disk can be trusted any more; a retry starts over
+      await this.removePart(task.gameId);
+      task.bytesDownloaded = 0;
+      throw new DownloadError('CHECKSUM_MISMATCH', `${task.name} does not match its catalog checksum`);
+    }
+  }
+
+  private async install(task: DownloadTask): Promise<RomCatalogEntry> {
+    const fileSystem = this.getFileSystem();
+    const directory = this.getRomDirectory();
+    // The manifest names the file; never let it point outside the game's own folder, where
+    // another game shipping the same file name cannot overwrite it
+    const gameDirectory = joinPath(directory, encodeURIComponent(task.gameId));
+    const path = joinPath(gameDirectory, baseName(task.manifest.fileName));
+    await fileSystem.mkdir(gameDirectory);
+    await fileSystem.moveFile(this.getPartPath(task.gameId), path);
+
+    // addRom persists the catalog, which must be loaded first or the rest of it is lost
+    await this.library.initialize();
+    const entry = await this.library.addRom(path);
+    if (!entry) {
+      await fileSystem.unlink(path);
+      task.bytesDownloaded = 0;
+      throw new DownloadError('NOT_RECOGNIZED', `${task.manifest.fileName} is not a ROM the library recognizes`);
+    }
+
+    task.path = path;
+    task.romId = entry.rom.id;
+    return entry;
+  }
+
+  private async stopIfRequested(task: DownloadTask): Promise<boolean> {
+    const stop = this.stopRequests.get(task.gameId);
+    if (!stop) {
+      return false;
+    }
+    await this.handleStop(task, stop);
+    return true;
+  }
+
+  private async handleStop(task: DownloadTask, stop: StopRequest): Promise<void> {
+    this.stopRequests.delete(task.gameId);
+    if (stop === 'cancel') {
+      await this.removeTask(task);
+      return;
+    }
+    await this.setStatus(task, 'paused');
+    this.emit('downloadPaused', { ...task });
+  }
+
+  private async handleFailure(task: DownloadTask, error: unknown): Promise<void> {
+    const message = error instanceof Error ? error.message : String(error);
+    if (isNetworkError(error)) {
+      // Not the download's fault: wait in the queue for EdgeIO to come back
+      console.warn(`Download of ${task.gameId} waiting for EdgeIO:`, error);
+      this.isOffline = true;
+      task.error = { code: 'OFFLINE', message };
+      await this.setStatus(task, 'queued');
+      this.emit('downloadQueued', { ...task });
+      return;
+    }
+
+    console.error(`Download of ${task.gameId} failed:`, error);
+    const code = error instanceof DownloadError ? error.code : errorCode(error) === 'NOT_FOUND' ? 'NOT_FOUND' : 'REJECTED';
+    task.error = { code, message };
+    await this.setStatus(task, 'failed');
+    this.updateCloudGame(task);
+    this.emit('downloadFailed', { ...task });
+  }
+
+  private checkManifest(manifest: GameManifest): void {
+    const game = this.edgeIO.getCachedCloudGames().find(candidate => candidate.id === manifest.gameId);
+    if (game?.sha1 && game.sha1.toLowerCase() !== manifest.sha1.toLowerCase()) {
+      throw new DownloadError('CHECKSUM_MISMATCH', `Manifest for ${manifest.gameId} does not match the catalog`);
+    }
+    if (manifest.chunkSize <= 0 || manifest.chunks.length !== Math.ceil(manifest.size / manifest.chunkSize)) {
+      throw new DownloadError('CORRUPTED', `Manifest for ${manifest.gameId} does not cover the file`);
+    }
+  }
+
+  // Progress saved before an app restart can trail the .part file by the chunks appended since;
+  // those are kept when they still verify, anything past the last good chunk is cut off
+  private async reconcilePart(task: DownloadTask): Promise<void> {
+    const fileSystem = this.getFileSystem();
+    const partPath = this.getPartPath(task.gameId);
+    if (!(await fileSystem.exists(partPath))) {
+      task.bytesDownloaded = 0;
+      return;
+    }
+
+    const { manifest } = task;
+    const size = (await fileSystem.stat(partPath)).size;
+    if (size === task.bytesDownloaded) {
+      return;
+    }
+
+    let verified = Math.min(task.bytesDownloaded, size - (size % manifest.chunkSize));
+    while (verified < manifest.size) {
+      const length = Math.min(manifest.chunkSize, manifest.size - verified);
+      if (verified + length > size) {
+        break;
+      }
+      const chunk = await fileSystem.readRange(partPath, verified, length);
+      if (sha1Hex(chunk) !== manifest.chunks[Math.floor(verified / manifest.chunkSize)]) {
+        break;
+      }
+      verified += length;
+    }
+
+    if (verified !== size) {
+      await fileSystem.writeFile(partPath, verified > 0 ? await fileSystem.readRange(partPath, 0, verified) : new Uint8Array(0));
+    }
+    task.bytesDownloaded = verified;
+  }
+
+  private async removeTask(task: DownloadTask): Promise<void> {
+    await this.removePart(task.gameId);
+    this.tasks.delete(task.gameId);
+    await this.persist();
+    this.edgeIO.updateCloudGame(task.gameId, { downloadProgress: 0 });
+    this.emit('downloadCancelled', { ...task });
+  }
+
+  private async removePart(gameId: string): Promise<void> {
+    const fileSystem = this.getFileSystem();
+    const partPath = this.getPartPath(gameId);
+    if (await fileSystem.exists(partPath)) {
+      await fileSystem.unlink(partPath);
+    }
+  }
+
+  private async setStatus(task: DownloadTask, status: DownloadStatus): Promise<void> {
+    task.status = status;
+    task.updatedAt = Date.now();
+    await this.persist();
+  }
+
+  private updateCloudGame(task: DownloadTask): void {
+    const { progress } = this.toProgress(task);
+    this.edgeIO.updateCloudGame(task.gameId, {
+      isInstalled: task.status === 'completed',
+      downloadProgress: task.status === 'completed' ? 1 : progress
+    });
+  }
+
+  private remainingBytes(task: DownloadTask): number {
+    return Math.max(0, task.manifest.size - task.bytesDownloaded);
+  }
+
+  private toProgress(task: DownloadTask): DownloadProgress {
+    const totalBytes = task.manifest.size;
+    return {
+      gameId: task.gameId,
+      progress: totalBytes > 0 ? task.bytesDownloaded / totalBytes : 1,
+      bytes: task.bytesDownloaded,
+      totalBytes
+    };
+  }
+
+  private async withRetry<T>(run: () => Promise<T>): Promise<T> {
+    const attempts = Math.max(0, this.edgeIO.getConfig().retryAttempts);
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await run();
+      } catch (error) {
+        if (!isNetworkError(error) || attempt >= attempts) {
+          throw error;
+        }
+        await delay(Math.min(this.retryDelayMs * 2 ** attempt, MAX_RETRY_DELAY_MS));
+      }
+    }
+  }
+
+  private async persist(): Promise<void> {
+    const queue: StoredQueue = { version: QUEUE_VERSION, tasks: Array.from(this.tasks.values()) };
+    await writeJson(this.storage, QUEUE_KEY, queue);
+  }
+
+  private getPartPath(gameId: string): string {
+    return joinPath(this.getDownloadDirectory(), `${encodeURIComponent(gameId)}.part`);
+  }
+
+  private getDownloadDirectory(): string {
+    if (!this.downloadDirectory) {
+      this.downloadDirectory = joinPath(ReactNativeFileSystem.getDocumentDirectory(), 'downloads');
+    }
+    return this.downloadDirectory;
+  }
+
+  private getRomDirectory(): string {
+    if (!this.romDirectory) {
+      this.romDirectory = joinPath(ReactNativeFileSystem.getDocumentDirectory(), 'roms');
+    }
+    return this.romDirectory;
+  }
+
+  private getFileSystem(): FileSystem {
+    if (!this.fileSystem) {
+      this.fileSystem = new ReactNativeFileSystem();
+    }
+    return this.fileSystem;
+  }
+}
+
+export default DownloadManager;
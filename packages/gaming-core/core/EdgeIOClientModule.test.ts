@@ -0,0 +1,72 @@
+import { EdgeIOClientModule, EdgeIOError } from './EdgeIOClientModule';
+import type { EdgeIOConfig } from './EdgeIOIntegration';
+import { EdgeIOMockServer } from './EdgeIOMockServer';
+
+const CONFIG: Omit<EdgeIOConfig, 'apiKey' | 'endpoint'> = {
+  region: 'us-east-1',
+  timeout: 5000,
+  retryAttempts: 0,
+  compressionLevel: 6,
+  encryptionEnabled: true,
+  streamingQuality: 'high',
+  latencyOptimization: true,
+  adaptiveBitrate: true
+};
+
+const connectError = async (client: EdgeIOClientModule): Promise<EdgeIOError> => {
+  try {
+    await client.connect();
+  } catch (error) {
+    return error as EdgeIOError;
+  }
+  throw new Error('Expected connect to reject');
+};
+
+describe('EdgeIOClientModule', () => {
+  let server: EdgeIOMockServer;
+  let endpoint: string;
+  let client: EdgeIOClientModule;
+
+  beforeEach(async () => {
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    server = new EdgeIOMockServer({ port: 0, apiKey: 'dev' });
+    endpoint = `http://127.0.0.1:${await server.start()}`;
+    client = new EdgeIOClientModule();
+  });
+
+  afterEach(async () => {
+    await client.disconnect();
+    await server.stop();
+    jest.restoreAllMocks();
+  });
+
+  it('connects with the right API key', async () => {
+    await client.initialize({ ...CONFIG, endpoint, apiKey: 'dev' });
+
+    expect(await client.connect()).toBe(true);
+  });
+
+  it('rejects with an auth error when the API key is refused', async () => {
+    await client.initialize({ ...CONFIG, endpoint, apiKey: 'wrong' });
+
+    const error = await connectError(client);
+
+    expect(error).toBeInstanceOf(EdgeIOError);
+    expect(error.code).toBe('UNAUTHORIZED');
+    expect(error.status).toBe(401);
+  });
+
+  it('treats a 403 without an error body as an auth error', async () => {
+    client = new EdgeIOClientModule({ fetch: async () => new Response('Forbidden', { status: 403 }) });
+    await client.initialize({ ...CONFIG, endpoint, apiKey: 'dev' });
+
+    expect((await connectError(client)).code).toBe('UNAUTHORIZED');
+  });
+
+  it('resolves false when the endpoint is unreachable', async () => {
+    await server.stop();
+    await client.initialize({ ...CONFIG, endpoint, apiKey: 'dev' });
+
+    expect(await client.connect()).toBe(false);
+  });
+});
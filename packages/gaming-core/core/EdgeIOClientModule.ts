@@ -0,0 +1,374 @@
+// 3kMLV Arcade - EdgeIO Client Module
+// Drop-in replacement for the native EdgeIOIntegration module that speaks the HTTP/WebSocket
+// contract in EdgeIOProtocol, e.g. against EdgeIOMockServer during development
+
+import { EventEmitter } from 'events';
+import type { CloudGame, CloudSaveFile, EdgeIOConfig, EdgeIONode, GameManifest, SaveData, StreamingSession } from './EdgeIOIntegration';
+import { base64Encode } from './BinaryUtils';
+import {
+  DownloadResponse,
+  EDGEIO_API_VERSION,
+  EdgeIOErrorCode,
+  EdgeIOEvent,
+  EdgeIOPerformanceMetrics,
+  ErrorResponse,
+  GamesResponse,
+  HealthResponse,
+  ManifestResponse,
+  MetricsResponse,
+  MigrateSessionRequest,
+  NodesResponse,
+  SaveDataResponse,
+  SaveResponse,
+  SavesResponse,
+  SelectNodeResponse,
+  SessionResponse,
+  SettingsRequest,
+  SettingsResponse,
+  StreamingQuality,
+  UploadSaveRequest
+} from './EdgeIOProtocol';
+
+export interface EdgeIOClientOptions {
+  fetch?: typeof fetch;
+  WebSocket?: typeof WebSocket;
+  reconnectDelayMs?: number;
+}
+
+export class EdgeIOError extends Error {
+  public readonly code: EdgeIOErrorCode;
+  // HTTP status, 0 when the request never got an answer
+  public readonly status: number;
+
+  constructor(code: EdgeIOErrorCode, message: string, status: number = 0) {
+    super(message);
+    this.name = 'EdgeIOError';
+    this.code = code;
+    this.status = status;
+  }
+}
+
+// JSON turns these into ISO strings; the rest of the app expects Date objects
+const DATE_FIELDS = new Set(['timestamp', 'lastPlayed', 'startTime', 'endTime', 'lastPing', 'unlockedAt']);
+
+const NATIVE_EVENTS: Record<EdgeIOEvent['type'], string> = {
+  connectionStatus: 'onConnectionStatus',
+  streamingStatus: 'onStreamingStatus',
+  downloadProgress: 'onDownloadProgress',
+  uploadProgress: 'onUploadProgress',
+  performanceUpdate: 'onPerformanceUpdate',
+  error: 'onError'
+};
+
+const DEFAULT_RECONNECT_DELAY_MS = 5000;
+
+// For failures that came without an ErrorResponse, e.g. from a proxy in front of EdgeIO
+function codeForStatus(status: number): EdgeIOErrorCode {
+  if (status === 401 || status === 403) {
+    return 'UNAUTHORIZED';
+  }
+  return status === 404 ? 'NOT_FOUND' : 'UNAVAILABLE';
+}
+
+function reviveDates(key: string, value: unknown): unknown {
+  return DATE_FIELDS.has(key) && typeof value === 'string' ? new Date(value) : value;
+}
+
+export class EdgeIOClientModule extends EventEmitter {
+  private fetchImpl: typeof fetch;
+  private WebSocketImpl: typeof WebSocket | null;
+  private reconnectDelayMs: number;
+  private config: EdgeIOConfig | null = null;
+  private socket: WebSocket | null = null;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private isConnected = false;
+  // Set by connect(), cleared by disconnect(): a dropped event socket is reopened meanwhile
+  private keepConnected = false;
+  private selectedNodeId: string | null = null;
+  private sessionId: string | null = null;
+
+  constructor(options: EdgeIOClientOptions = {}) {
+    super();
+    this.fetchImpl = options.fetch ?? ((input, init) => fetch(input, init));
+    this.WebSocketImpl = options.WebSocket ?? (typeof WebSocket !== 'undefined' ? WebSocket : null);
+    this.reconnectDelayMs = options.reconnectDelayMs ?? DEFAULT_RECONNECT_DELAY_MS;
+  }
+
+  public initialize(config: EdgeIOConfig): Promise<boolean> {
+    this.config = { ...config };
+    return Promise.resolve(true);
+  }
+
+  // Resolves false rather than rejecting when the endpoint is unreachable, like the native module.
+  // A rejected API key still rejects: retrying will not help, and the user has to fix the config
+  public async connect(): Promise<boolean> {
+    try {
+      const health = await this.request<HealthResponse>('GET', '/health');
+      this.isConnected = true;
+      this.keepConnected = true;
+      this.openEvents();
+      this.emit('onConnectionStatus', { connected: true, region: health.region });
+      return true;
+    } catch (error) {
+      if (error instanceof EdgeIOError && error.code === 'UNAUTHORIZED') {
+        throw error;
+      }
+      console.warn('EdgeIO endpoint unreachable:', error);
+      return false;
+    }
+  }
+
+  public async disconnect(): Promise<boolean> {
+    const wasConnected = this.isConnected;
+    this.isConnected = false;
+    this.keepConnected = false;
+    this.closeEvents();
+    if (wasConnected) {
+      this.emit('onConnectionStatus', { connected: false, region: this.requireConfig().region });
+    }
+    return true;
+  }
+
+  // Nodes
+  public async getAvailableNodes(): Promise<EdgeIONode[]> {
+    return (await this.request<NodesResponse>('GET', '/nodes')).nodes;
+  }
+
+  public async selectOptimalNode(): Promise<EdgeIONode | null> {
+    const { node } = await this.request<SelectNodeResponse>('POST', '/nodes/select', { region: this.requireConfig().region });
+    this.selectedNodeId = node?.id ?? null;
+    return node;
+  }
+
+  // Streaming
+  // nodeId overrides the node picked by selectOptimalNode()
+  public async startStreaming(gameId: string, nodeId?: string): Promise<boolean> {
+    const node = nodeId ?? this.selectedNodeId;
+    const { session } = await this.request<SessionResponse>('POST', '/sessions', {
+      gameId,
+      quality: this.requireConfig().streamingQuality,
+      ...(node ? { nodeId: node } : {})
+    });
+    this.sessionId = session?.id ?? null;
+    return session !== null;
+  }
+
+  public async migrateStreaming(nodeId: string): Promise<boolean> {
+    const sessionId = this.sessionId ?? (await this.getStreamingSession())?.id;
+    if (!sessionId) {
+      return false;
+    }
+    const body: MigrateSessionRequest = { nodeId };
+    await this.request<SessionResponse>('POST', `/sessions/${encodeURIComponent(sessionId)}/migrate`, body);
+    this.selectedNodeId = nodeId;
+    return true;
+  }
+
+  public async stopStreaming(): Promise<boolean> {
+    const sessionId = this.sessionId ?? (await this.getStreamingSession())?.id;
+    if (!sessionId) {
+      return false;
+    }
+    await this.request<SessionResponse>('DELETE', `/sessions/${encodeURIComponent(sessionId)}`);
+    this.sessionId = null;
+    return true;
+  }
+
+  public async getStreamingSession(): Promise<StreamingSession | null> {
+    return (await this.request<SessionResponse>('GET', '/sessions/current')).session;
+  }
+
+  // Games
+  public async getCloudGames(): Promise<CloudGame[]> {
+    return (await this.request<GamesResponse>('GET', '/games')).games;
+  }
+
+  public async downloadGame(gameId: string): Promise<boolean> {
+    await this.request<DownloadResponse>('POST', `/games/${encodeURIComponent(gameId)}/download`);
+    return true;
+  }
+
+  public async getGameManifest(gameId: string): Promise<GameManifest> {
+    return (await this.request<ManifestResponse>('GET', `/games/${encodeURIComponent(gameId)}/manifest`)).manifest;
+  }
+
+  // Base64 like every binary payload crossing the native bridge
+  public async downloadGameRange(gameId: string, offset: number, length: number): Promise<string> {
+    const path = `/games/${encodeURIComponent(gameId)}/file`;
+    const response = await this.send('GET', path, undefined, { Range: `bytes=${offset}-${offset + length - 1}` });
+    let data = new Uint8Array(await response.arrayBuffer());
+    // A server that ignores Range answers 200 with the whole file
+    if (response.status === 200) {
+      data = data.subarray(offset, offset + length);
+    }
+    if (data.length !== length) {
+      throw new EdgeIOError('UNAVAILABLE', `GET ${path} returned ${data.length} of ${length} bytes`, response.status);
+    }
+    return base64Encode(data);
+  }
+
+  // Saves
+  public async uploadSaveData(saveData: SaveData): Promise<boolean> {
+    const body: UploadSaveRequest = { save: saveData };
+    await this.request<SaveResponse>('PUT', `/saves/${encodeURIComponent(saveData.id)}`, body);
+    return true;
+  }
+
+  public async downloadSaveData(gameId: string): Promise<SaveData[]> {
+    return this.listCloudSaves(gameId);
+  }
+
+  public async listCloudSaves(gameId: string): Promise<CloudSaveFile[]> {
+    return (await this.request<SavesResponse>('GET', `/saves?gameId=${encodeURIComponent(gameId)}`)).saves;
+  }
+
+  public async uploadSaveFile(save: CloudSaveFile, data: string): Promise<CloudSaveFile> {
+    const body: UploadSaveRequest = { save, data };
+    return (await this.request<SaveResponse>('PUT', `/saves/${encodeURIComponent(save.id)}`, body)).save;
+  }
+
+  public async downloadSaveFile(saveId: string): Promise<string> {
+    return (await this.request<SaveDataResponse>('GET', `/saves/${encodeURIComponent(saveId)}/data`)).data;
+  }
+
+  // Quality and performance
+  public async getPerformanceMetrics(): Promise<EdgeIOPerformanceMetrics> {
+    return (await this.request<MetricsResponse>('GET', '/metrics')).metrics;
+  }
+
+  public async setStreamingQuality(quality: string): Promise<boolean> {
+    await this.updateSettings({ streamingQuality: quality as StreamingQuality });
+    return true;
+  }
+
+  public async enableLatencyOptimization(): Promise<boolean> {
+    await this.updateSettings({ latencyOptimization: true });
+    return true;
+  }
+
+  public async enableAdaptiveBitrate(): Promise<boolean> {
+    await this.updateSettings({ adaptiveBitrate: true });
+    return true;
+  }
+
+  private async updateSettings(settings: SettingsRequest): Promise<void> {
+    await this.request<SettingsResponse>('PATCH', '/settings', settings);
+  }
+
+  private async request<T>(method: string, path: string, body?: unknown): Promise<T> {
+    const response = await this.send(method, path, body);
+    const text = await response.text();
+    try {
+      return (text ? JSON.parse(text, reviveDates) : null) as T;
+    } catch (error) {
+      throw new EdgeIOError('UNAVAILABLE', `${method} ${path} returned invalid JSON`, response.status);
+    }
+  }
+
+  // Resolves with any 2xx response; failures reject with the server's ErrorResponse when it sent one
+  private async send(method: string, path: string, body?: unknown, headers: Record<string, string> = {}): Promise<Response> {
+    const config = this.requireConfig();
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), config.timeout);
+
+    let response: Response;
+    try {
+      response = await this.fetchImpl(`${config.endpoint.replace(/\/+$/, '')}/${EDGEIO_API_VERSION}${path}`, {
+        method,
+        headers: {
+          Authorization: `Bearer ${config.apiKey}`,
+          ...headers,
+          ...(body !== undefined ? { 'Content-Type': 'application/json' } : {})
+        },
+        ...(body !== undefined ? { body: JSON.stringify(body) } : {}),
+        signal: controller.signal
+      });
+    } catch (error) {
+      throw controller.signal.aborted
+        ? new EdgeIOError('TIMEOUT', `${method} ${path} timed out after ${config.timeout}ms`)
+        : new EdgeIOError('UNAVAILABLE', `${method} ${path} failed: ${error instanceof Error ? error.message : String(error)}`);
+    } finally {
+      clearTimeout(timer);
+    }
+
+    if (!response.ok) {
+      let failure: ErrorResponse['error'] | undefined;
+      try {
+        failure = (JSON.parse(await response.text()) as ErrorResponse | null)?.error;
+      } catch (error) {
+        // Not an ErrorResponse; the status alone describes the failure
+      }
+      throw new EdgeIOError(failure?.code ?? codeForStatus(response.status), failure?.message ?? `${method} ${path} failed with ${response.status}`, response.status);
+    }
+    return response;
+  }
+
+  private openEvents(): void {
+    const config = this.requireConfig();
+    if (this.socket || !this.WebSocketImpl) {
+      return;
+    }
+
+    const url = `${config.endpoint.replace(/^http/, 'ws').replace(/\/+$/, '')}/${EDGEIO_API_VERSION}/events?token=${encodeURIComponent(config.apiKey)}`;
+    const socket = new this.WebSocketImpl(url);
+    this.socket = socket;
+
+    socket.onmessage = message => {
+      try {
+        const event = JSON.parse(String(message.data), reviveDates) as EdgeIOEvent;
+        const { type, ...payload } = event;
+        const name = NATIVE_EVENTS[type];
+        if (name) {
+          this.emit(name, Object.values(payload)[0]);
+        }
+      } catch (error) {
+        console.warn('Ignoring malformed EdgeIO event:', error);
+      }
+    };
+    socket.onclose = () => {
+      if (this.socket !== socket) {
+        return;
+      }
+      this.socket = null;
+      if (this.isConnected) {
+        this.isConnected = false;
+        this.emit('onConnectionStatus', { connected: false, region: config.region });
+      }
+      this.scheduleReconnect();
+    };
+    socket.onerror = () => {
+      // onclose follows and handles reconnecting
+    };
+  }
+
+  private scheduleReconnect(): void {
+    if (!this.keepConnected || this.reconnectTimer) {
+      return;
+    }
+    this.reconnectTimer = setTimeout(async () => {
+      this.reconnectTimer = null;
+      if (this.keepConnected && !(await this.connect())) {
+        this.scheduleReconnect();
+      }
+    }, this.reconnectDelayMs);
+  }
+
+  private closeEvents(): void {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    const socket = this.socket;
+    this.socket = null;
+    socket?.close();
+  }
+
+  private requireConfig(): EdgeIOConfig {
+    if (!this.config) {
+      throw new EdgeIOError('BAD_REQUEST', 'EdgeIO client used before initialize()');
+    }
+    return this.config;
+  }
+}
+
+export default EdgeIOClientModule;
@@ -3,6 +3,8 @@
 
 import { NativeModules } from 'react-native';
 import { EventEmitter } from 'events';
+import { EdgeIOClientModule } from './EdgeIOClientModule';
+import type { EdgeIOPerformanceMetrics } from './EdgeIOProtocol';
 
 export interface EdgeIOConfig {
   apiKey: string;
@@ -30,6 +32,19 @@ export interface CloudGame {
   playTime: number;
   achievements: Achievement[];
   saveData: SaveData[];
+  // ROM file hash, checked once a download completes
+  sha1?: string;
+}
+
+// How a cloud game's ROM file is split for ranged, verified downloads
+export interface GameManifest {
+  gameId: string;
+  fileName: string;
+  size: number;
+  sha1: string;
+  chunkSize: number;
+  // SHA-1 of each chunkSize slice of the file, in order
+  chunks: string[];
 }
 
 export interface Achievement {
@@ -37,7 +52,7 @@ export interface Achievement {
   name: string;
   description: string;
   icon: string;
-  unlockedAt: Date;
+  unlockedAt: Date | null;
   progress: number;
   maxProgress: number;
 }
@@ -49,7 +64,21 @@ export interface SaveData {
   size: number;
   isCloud: boolean;
   isLocal: boolean;
-  syncStatus: 'synced' | 'pending' | 'error';
+  syncStatus: 'synced' | 'pending' | 'conflict' | 'error';
+}
+
+export type SaveKind = 'state' | 'battery';
+
+// Cloud copy of one save file; id is "<gameId>:<kind>:<slot>"
+export interface CloudSaveFile extends SaveData {
+  // ROM checksum
+  gameId: string;
+  kind: SaveKind;
+  slot: number;
+  sha1: string;
+  // Edit counter per device, see CloudSaveSync
+  clock: Record<string, number>;
+  deviceId: string;
 }
 
 export interface StreamingSession {
@@ -63,6 +92,8 @@ export interface StreamingSession {
   frameRate: number;
   resolution: string;
   isActive: boolean;
+  // Known when the caller picked the node, see StreamingController
+  nodeId?: string;
 }
 
 export interface EdgeIONode {
@@ -76,17 +107,50 @@ export interface EdgeIONode {
   lastPing: Date;
 }
 
+// Listener arguments per event, for EventSubscriptions. Status and progress payloads are whatever
+// the native module reports
+export interface EdgeIOIntegrationEvents {
+  initialized: [config: EdgeIOConfig];
+  connected: [];
+  disconnected: [];
+  connectionStatus: [status: unknown];
+  nodesUpdated: [nodes: EdgeIONode[]];
+  nodeSelected: [node: EdgeIONode | null];
+  streamingStarted: [session: StreamingSession];
+  streamingStatus: [session: StreamingSession];
+  streamingMigrated: [migration: { session: StreamingSession; from: string | null; to: string }];
+  streamingStopped: [session: StreamingSession];
+  qualityChanged: [quality: string];
+  latencyOptimizationEnabled: [];
+  adaptiveBitrateEnabled: [];
+  gameDownloadStarted: [gameId: string];
+  downloadProgress: [progress: unknown];
+  uploadProgress: [progress: unknown];
+  gameUpdated: [game: CloudGame];
+  gamesUpdated: [games: CloudGame[]];
+  saveDataUploaded: [saveData: SaveData];
+  saveDataDownloaded: [saveData: SaveData[]];
+  performanceUpdate: [metrics: EdgeIOPerformanceMetrics];
+  performanceUpdated: [metrics: EdgeIOPerformanceMetrics];
+  error: [error: unknown];
+}
+
+export interface EdgeIOIntegrationOptions {
+  // Bypasses NativeModules, e.g. an EdgeIOClientModule with its own fetch/WebSocket
+  nativeModule?: any;
+}
+
 export class EdgeIOIntegration extends EventEmitter {
   private static instance: EdgeIOIntegration;
   private nativeModule: any;
-  private config: EdgeIOConfig;
+  private config!: EdgeIOConfig;
   private currentSession: StreamingSession | null = null;
   private availableNodes: EdgeIONode[] = [];
   private cloudGames: CloudGame[] = [];
 
-  constructor() {
+  constructor(options: EdgeIOIntegrationOptions = {}) {
     super();
-    this.initializeNativeModule();
+    this.initializeNativeModule(options.nativeModule);
     this.initializeConfig();
     this.setupEventHandlers();
   }
@@ -98,7 +162,12 @@ export class EdgeIOIntegration extends EventEmitter {
     return EdgeIOIntegration.instance;
   }
 
-  private initializeNativeModule() {
+  private initializeNativeModule(nativeModule?: any) {
+    if (nativeModule) {
+      this.nativeModule = nativeModule;
+      return;
+    }
+
     try {
       this.nativeModule = NativeModules.EdgeIOIntegration;
       if (!this.nativeModule) {
@@ -112,24 +181,8 @@ export class EdgeIOIntegration extends EventEmitter {
   }
 
   private createFallbackModule() {
-    return {
-      initialize: (config: any) => Promise.resolve(true),
-      connect: () => Promise.resolve(true),
-      disconnect: () => Promise.resolve(true),
-      getAvailableNodes: () => Promise.resolve([]),
-      selectOptimalNode: () => Promise.resolve(null),
-      startStreaming: (gameId: string) => Promise.resolve(true),
-      stopStreaming: () => Promise.resolve(true),
-      downloadGame: (gameId: string) => Promise.resolve(true),
-      uploadSaveData: (saveData: any) => Promise.resolve(true),
-      downloadSaveData: (gameId: string) => Promise.resolve([]),
-      getCloudGames: () => Promise.resolve([]),
-      getStreamingSession: () => Promise.resolve(null),
-      getPerformanceMetrics: () => Promise.resolve({}),
-      setStreamingQuality: (quality: string) => Promise.resolve(true),
-      enableLatencyOptimization: () => Promise.resolve(true),
-      enableAdaptiveBitrate: () => Promise.resolve(true)
-    };
+    // Talks to config.endpoint over HTTP/WebSocket, e.g. an EdgeIOMockServer during development
+    return new EdgeIOClientModule();
   }
 
   private initializeConfig() {
@@ -240,9 +293,10 @@ export class EdgeIOIntegration extends EventEmitter {
   }
 
   // Game Streaming
-  public async startStreaming(gameId: string): Promise<boolean> {
+  // Without nodeId the native module streams from the node picked by selectOptimalNode()
+  public async startStreaming(gameId: string, nodeId?: string): Promise<boolean> {
     try {
-      const result = await this.nativeModule.startStreaming(gameId);
+      const result = await (nodeId ? this.nativeModule.startStreaming(gameId, nodeId) : this.nativeModule.startStreaming(gameId));
       
       if (result) {
         this.currentSession = {
@@ -254,7 +308,8 @@ export class EdgeIOIntegration extends EventEmitter {
           bandwidth: 0,
           frameRate: 0,
           resolution: '1920x1080',
-          isActive: true
+          isActive: true,
+          ...(nodeId ? { nodeId } : {})
         };
         
         this.emit('streamingStarted', this.currentSession);
@@ -268,6 +323,28 @@ export class EdgeIOIntegration extends EventEmitter {
     }
   }
 
+  // Moves the running session to another node without ending it
+  public async migrateStreaming(nodeId: string): Promise<boolean> {
+    try {
+      if (!this.currentSession) {
+        return false;
+      }
+      const from = this.currentSession.nodeId ?? null;
+      const result = await this.nativeModule.migrateStreaming(nodeId);
+
+      if (result && this.currentSession) {
+        this.currentSession = { ...this.currentSession, nodeId };
+        this.emit('streamingMigrated', { session: this.currentSession, from, to: nodeId });
+      }
+
+      return result;
+    } catch (error) {
+      console.error('Failed to migrate streaming session:', error);
+      this.emit('error', error);
+      return false;
+    }
+  }
+
   public async stopStreaming(): Promise<boolean> {
     try {
       const result = await this.nativeModule.stopStreaming();
@@ -304,6 +381,28 @@ export class EdgeIOIntegration extends EventEmitter {
     }
   }
 
+  // Rejects instead of emitting 'error', see DownloadManager
+  public async getGameManifest(gameId: string): Promise<GameManifest> {
+    return this.nativeModule.getGameManifest(gameId);
+  }
+
+  // Base64 bytes [offset, offset + length) of the game's ROM file
+  public async downloadGameRange(gameId: string, offset: number, length: number): Promise<string> {
+    return this.nativeModule.downloadGameRange(gameId, offset, length);
+  }
+
+  // Keeps local state such as install progress on the cached catalog entry
+  public updateCloudGame(gameId: string, changes: Partial<CloudGame>): CloudGame | null {
+    const index = this.cloudGames.findIndex(game => game.id === gameId);
+    if (index < 0) {
+      return null;
+    }
+    const game = { ...this.cloudGames[index]!, ...changes };
+    this.cloudGames[index] = game;
+    this.emit('gameUpdated', game);
+    return game;
+  }
+
   public async getCloudGames(): Promise<CloudGame[]> {
     try {
       const games = await this.nativeModule.getCloudGames();
@@ -346,6 +445,23 @@ export class EdgeIOIntegration extends EventEmitter {
     }
   }
 
+  // Cloud save files. Unlike the methods above these reject on failure, so sync can tell
+  // "offline" apart from "nothing saved".
+  public async listCloudSaves(gameId: string): Promise<CloudSaveFile[]> {
+    return this.nativeModule.listCloudSaves(gameId);
+  }
+
+  // data is base64. Rejects with code 'CONFLICT' when the stored clock is not older than save.clock.
+  public async uploadSaveFile(save: CloudSaveFile, data: string): Promise<CloudSaveFile> {
+    const stored: CloudSaveFile = await this.nativeModule.uploadSaveFile(save, data);
+    this.emit('saveDataUploaded', stored);
+    return stored;
+  }
+
+  public async downloadSaveFile(saveId: string): Promise<string> {
+    return this.nativeModule.downloadSaveFile(saveId);
+  }
+
   // Performance and Quality Management
   public async setStreamingQuality(quality: string): Promise<boolean> {
     try {
@@ -448,7 +564,8 @@ export class EdgeIOIntegration extends EventEmitter {
     return [...this.availableNodes];
   }
 
-  public getCloudGames(): CloudGame[] {
+  // What the last getCloudGames() fetched, without asking EdgeIO again
+  public getCachedCloudGames(): CloudGame[] {
     return [...this.cloudGames];
   }
 
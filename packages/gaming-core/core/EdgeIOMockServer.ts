@@ -0,0 +1,723 @@
+// 3kMLV Arcade - EdgeIO Mock Server
+// Local Node implementation of the EdgeIOProtocol contract for development and cloud-flow tests.
+// Node only: the app never imports it, it talks to it through EdgeIOClientModule.
+//
+// Nodes drift in latency and load every tick, active streaming sessions report stats derived from
+// their node and quality, and downloads advance a fixed number of bytes per tick. Tests can pin a
+// node's conditions with setNodeConditions() to script degradations, and corruptNextRanges() to
+// exercise chunk verification. Each game is served from generated ROM bytes unless gameFiles has them.
+
+import { createHash } from 'crypto';
+import { IncomingMessage, Server, ServerResponse, createServer } from 'http';
+import { WebSocket, WebSocketServer } from 'ws';
+import type { CloudGame, CloudSaveFile, EdgeIONode, GameManifest, SaveData, StreamingSession } from './EdgeIOIntegration';
+import {
+  EDGEIO_API_VERSION,
+  EDGEIO_MOCK_PORT,
+  EdgeIOErrorCode,
+  EdgeIOEvent,
+  EdgeIOPerformanceMetrics,
+  EdgeIOSettings,
+  MigrateSessionRequest,
+  STREAMING_TIERS,
+  StartSessionRequest,
+  UploadSaveRequest
+} from './EdgeIOProtocol';
+
+export interface MockNodeConditions {
+  latency: number;
+  load: number;
+  isAvailable: boolean;
+  // Milliseconds of random variation added to latency on every tick
+  jitter: number;
+}
+
+export interface EdgeIOMockServerOptions {
+  port?: number;
+  bindAddress?: string;
+  // When set, requests must carry it as their bearer token
+  apiKey?: string;
+  nodes?: EdgeIONode[];
+  games?: CloudGame[];
+  tickMs?: number;
+  // Delays every HTTP response, e.g. to exercise client timeouts
+  responseDelayMs?: number;
+  downloadBytesPerTick?: number;
+  // ROM bytes by game id
+  gameFiles?: Record<string, Uint8Array>;
+  // Slice size of the per-chunk hashes in game manifests
+  chunkSize?: number;
+}
+
+interface MockNode {
+  node: EdgeIONode;
+  conditions: MockNodeConditions;
+  // Pinned nodes keep their conditions instead of drifting
+  pinned: boolean;
+}
+
+interface MockSession {
+  session: StreamingSession;
+  nodeId: string;
+  token: string;
+  droppedFrames: number;
+}
+
+interface MockDownload {
+  gameId: string;
+  token: string;
+  bytes: number;
+  totalBytes: number;
+}
+
+class MockError extends Error {
+  constructor(public readonly status: number, public readonly code: EdgeIOErrorCode, message: string) {
+    super(message);
+  }
+}
+
+const DEFAULT_NODES: EdgeIONode[] = [
+  { id: 'us-east-1', name: 'Virginia', region: 'us-east', latency: 24, capacity: 500, load: 0.35, isAvailable: true, lastPing: new Date() },
+  { id: 'us-west-1', name: 'Oregon', region: 'us-west', latency: 58, capacity: 400, load: 0.5, isAvailable: true, lastPing: new Date() },
+  { id: 'eu-west-1', name: 'Dublin', region: 'eu-west', latency: 96, capacity: 300, load: 0.2, isAvailable: true, lastPing: new Date() },
+  { id: 'ap-northeast-1', name: 'Tokyo', region: 'ap-northeast', latency: 162, capacity: 350, load: 0.6, isAvailable: true, lastPing: new Date() }
+];
+
+const DEFAULT_GAMES: CloudGame[] = [
+  {
+    id: 'cloud-chip8-pong', name: 'Pong', platform: 'chip8', size: 246, isInstalled: false, isStreaming: false,
+    downloadProgress: 0, streamingQuality: 'high', lastPlayed: new Date(0), playTime: 0, achievements: [], saveData: []
+  },
+  {
+    id: 'cloud-nes-demo', name: 'NES Homebrew Demo', platform: 'nes', size: 40976, isInstalled: false, isStreaming: false,
+    downloadProgress: 0, streamingQuality: 'high', lastPlayed: new Date(0), playTime: 0, achievements: [], saveData: []
+  }
+];
+
+const MAX_BODY_BYTES = 16 * 1024 * 1024;
+const DEFAULT_TICK_MS = 1000;
+const DEFAULT_DOWNLOAD_BYTES_PER_TICK = 64 * 1024;
+const DEFAULT_CHUNK_SIZE = 16 * 1024;
+// Raw bytes, so served outside the JSON router
+const GAME_FILE_ROUTE = new RegExp(`^/${EDGEIO_API_VERSION}/games/([^/]+)/file$`);
+const ROM_EXTENSIONS: Record<string, string> = { chip8: '.ch8', nes: '.nes', snes: '.sfc', gb: '.gb', gbc: '.gbc', gba: '.gba' };
+const TARGET_FRAME_RATE = 60;
+// Throughput of an idle node's link, in Mbps
+const LINK_BANDWIDTH = 50;
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
+
+function sha1(data: Uint8Array): string {
+  return createHash('sha1').update(data).digest('hex');
+}
+
+// Deterministic filler bytes, with an iNES header for NES games so the ROM library recognizes them
+function generateRom(game: CloudGame): Buffer {
+  const data = Buffer.alloc(game.size);
+  let block = createHash('sha256').update(game.id).digest();
+  for (let offset = 0; offset < data.length; offset += block.length) {
+    block.copy(data, offset);
+    block = createHash('sha256').update(block).digest();
+  }
+  if (game.platform === 'nes' && data.length > 16) {
+    data.fill(0, 0, 16);
+    data.set([0x4e, 0x45, 0x53, 0x1a, Math.max(1, Math.floor((data.length - 16) / 16384)), 0]);
+  }
+  return data;
+}
+
+// True when every counter in a is at least b's and one is higher
+function clockIsNewer(a: Record<string, number>, b: Record<string, number>): boolean {
+  let ahead = false;
+  for (const device of new Set([...Object.keys(a), ...Object.keys(b)])) {
+    const left = a[device] ?? 0;
+    const right = b[device] ?? 0;
+    if (left < right) {
+      return false;
+    }
+    ahead = ahead || left > right;
+  }
+  return ahead;
+}
+
+export class EdgeIOMockServer {
+  private port: number;
+  private bindAddress: string;
+  private apiKey: string | null;
+  private tickMs: number;
+  private responseDelayMs: number;
+  private downloadBytesPerTick: number;
+  private nodes: Map<string, MockNode> = new Map();
+  private games: CloudGame[];
+  private gameFiles: Map<string, { data: Buffer; manifest: GameManifest }> = new Map();
+  // Range responses still to corrupt, by game id
+  private corruptRanges: Map<string, number> = new Map();
+  private saves: Map<string, { save: CloudSaveFile; data: string | null }> = new Map();
+  // Keyed by client token, one of each per client
+  private sessions: Map<string, MockSession> = new Map();
+  private selectedNodes: Map<string, string> = new Map();
+  private settings: Map<string, EdgeIOSettings> = new Map();
+  private downloads: Map<string, MockDownload> = new Map();
+  private sockets: Map<string, Set<WebSocket>> = new Map();
+  private server: Server | null = null;
+  private wss: WebSocketServer | null = null;
+  private timer: ReturnType<typeof setInterval> | null = null;
+
+  constructor(options: EdgeIOMockServerOptions = {}) {
+    this.port = options.port ?? EDGEIO_MOCK_PORT;
+    this.bindAddress = options.bindAddress ?? '127.0.0.1';
+    this.apiKey = options.apiKey ?? null;
+    this.tickMs = options.tickMs ?? DEFAULT_TICK_MS;
+    this.responseDelayMs = options.responseDelayMs ?? 0;
+    this.downloadBytesPerTick = options.downloadBytesPerTick ?? DEFAULT_DOWNLOAD_BYTES_PER_TICK;
+    this.games = (options.games ?? DEFAULT_GAMES).map(game => ({ ...game }));
+    const chunkSize = options.chunkSize ?? DEFAULT_CHUNK_SIZE;
+    for (const game of this.games) {
+      const provided = options.gameFiles?.[game.id];
+      const data = provided ? Buffer.from(provided) : generateRom(game);
+      const chunks: string[] = [];
+      for (let offset = 0; offset < data.length; offset += chunkSize) {
+        chunks.push(sha1(data.subarray(offset, offset + chunkSize)));
+      }
+      game.size = data.length;
+      game.sha1 = sha1(data);
+      this.gameFiles.set(game.id, {
+        data,
+        manifest: { gameId: game.id, fileName: `${game.id}${ROM_EXTENSIONS[game.platform] ?? '.bin'}`, size: data.length, sha1: game.sha1, chunkSize, chunks }
+      });
+    }
+    for (const node of options.nodes ?? DEFAULT_NODES) {
+      this.nodes.set(node.id, {
+        node: { ...node },
+        conditions: { latency: node.latency, load: node.load, isAvailable: node.isAvailable, jitter: Math.max(2, node.latency * 0.1) },
+        pinned: false
+      });
+    }
+  }
+
+  // Resolves with the port the server listens on, which differs from the option when it was 0
+  public start(): Promise<number> {
+    if (this.server) {
+      return Promise.resolve(this.port);
+    }
+
+    return new Promise((resolve, reject) => {
+      const server = createServer((request, response) => this.handleRequest(request, response));
+      const wss = new WebSocketServer({ noServer: true });
+      server.on('upgrade', (request, socket, head) => {
+        const url = new URL(request.url ?? '/', 'http://localhost');
+        const token = url.searchParams.get('token') ?? '';
+        if (url.pathname !== `/${EDGEIO_API_VERSION}/events` || !this.isAuthorized(token)) {
+          socket.destroy();
+          return;
+        }
+        wss.handleUpgrade(request, socket, head, ws => this.acceptSocket(token, ws));
+      });
+
+      server.once('error', reject);
+      server.listen(this.port, this.bindAddress, () => {
+        server.off('error', reject);
+        const address = server.address();
+        this.port = typeof address === 'object' && address ? address.port : this.port;
+        this.server = server;
+        this.wss = wss;
+        this.timer = setInterval(() => this.tick(), this.tickMs);
+        resolve(this.port);
+      });
+    });
+  }
+
+  public async stop(): Promise<void> {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    this.wss?.clients.forEach(ws => ws.terminate());
+    this.wss?.close();
+    this.wss = null;
+
+    const server = this.server;
+    this.server = null;
+    if (server) {
+      await new Promise<void>(resolve => server.close(() => resolve()));
+    }
+  }
+
+  public getEndpoint(): string {
+    return `http://${this.bindAddress}:${this.port}`;
+  }
+
+  // Pins a node's conditions until released with pinned: false
+  public setNodeConditions(nodeId: string, conditions: Partial<MockNodeConditions>, pinned: boolean = true): void {
+    const entry = this.nodes.get(nodeId);
+    if (!entry) {
+      throw new Error(`Unknown node ${nodeId}`);
+    }
+    entry.conditions = { ...entry.conditions, ...conditions };
+    entry.pinned = pinned;
+    this.applyConditions(entry, 0);
+  }
+
+  // Flips a byte in the next count range responses for the game, as a flaky link would
+  public corruptNextRanges(gameId: string, count: number = 1): void {
+    this.corruptRanges.set(gameId, count);
+  }
+
+  // Advances the simulation by one step; runs on its own every tickMs
+  public tick(): void {
+    for (const entry of this.nodes.values()) {
+      if (!entry.pinned) {
+        entry.conditions.load = clamp(entry.conditions.load + (Math.random() - 0.5) * 0.1, 0, 1);
+      }
+      this.applyConditions(entry, (Math.random() - 0.5) * 2 * entry.conditions.jitter);
+    }
+
+    for (const [token, mock] of this.sessions) {
+      if (!mock.session.isActive) {
+        continue;
+      }
+      const metrics = this.sessionMetrics(mock, this.getSettings(token));
+      mock.droppedFrames = metrics.droppedFrames;
+      Object.assign(mock.session, {
+        latency: metrics.latency,
+        bandwidth: metrics.bandwidth,
+        frameRate: metrics.frameRate
+      });
+      this.broadcast(token, { type: 'streamingStatus', status: { ...mock.session } });
+      this.broadcast(token, { type: 'performanceUpdate', metrics });
+    }
+
+    for (const [key, download] of this.downloads) {
+      download.bytes = Math.min(download.totalBytes, download.bytes + this.downloadBytesPerTick);
+      const progress = download.totalBytes > 0 ? download.bytes / download.totalBytes : 1;
+      this.broadcast(download.token, {
+        type: 'downloadProgress',
+        progress: { gameId: download.gameId, progress, bytes: download.bytes, totalBytes: download.totalBytes }
+      });
+      if (download.bytes >= download.totalBytes) {
+        this.downloads.delete(key);
+      }
+    }
+  }
+
+  private applyConditions(entry: MockNode, jitter: number): void {
+    const { conditions, node } = entry;
+    node.latency = Math.max(1, Math.round(conditions.latency + jitter));
+    node.load = Number(conditions.load.toFixed(3));
+    node.isAvailable = conditions.isAvailable;
+    node.lastPing = new Date();
+  }
+
+  private sessionMetrics(mock: MockSession, settings: EdgeIOSettings): EdgeIOPerformanceMetrics {
+    const entry = this.nodes.get(mock.nodeId);
+    if (!entry || !entry.node.isAvailable) {
+      return { nodeId: mock.nodeId, latency: 0, jitter: 0, bandwidth: 0, packetLoss: 1, frameRate: 0, droppedFrames: mock.droppedFrames + this.framesPerTick(TARGET_FRAME_RATE) };
+    }
+
+    // A busy node has less bandwidth to go around; tiers that need more than it offers drop frames
+    const { load, jitter } = entry.conditions;
+    const available = LINK_BANDWIDTH * (1 - load * 0.8);
+    const needed = STREAMING_TIERS[settings.streamingQuality].bitrate;
+    const deliveredRatio = clamp(available / needed, 0, 1);
+    const packetLoss = Number(clamp((load - 0.7) * 0.2, 0, 0.1).toFixed(3));
+    const frameRate = Math.round(TARGET_FRAME_RATE * deliveredRatio * (1 - packetLoss));
+    return {
+      nodeId: mock.nodeId,
+      latency: entry.node.latency,
+      jitter: Number(jitter.toFixed(1)),
+      bandwidth: Number(available.toFixed(2)),
+      packetLoss,
+      frameRate,
+      droppedFrames: mock.droppedFrames + this.framesPerTick(TARGET_FRAME_RATE - frameRate)
+    };
+  }
+
+  private framesPerTick(framesPerSecond: number): number {
+    return Math.round(framesPerSecond * this.tickMs / 1000);
+  }
+
+  private async handleRequest(request: IncomingMessage, response: ServerResponse): Promise<void> {
+    try {
+      const token = (request.headers.authorization ?? '').replace(/^Bearer\s+/i, '');
+      if (!this.isAuthorized(token)) {
+        throw new MockError(401, 'UNAUTHORIZED', 'Invalid API key');
+      }
+
+      const url = new URL(request.url ?? '/', 'http://localhost');
+      const file = request.method === 'GET' ? url.pathname.match(GAME_FILE_ROUTE) : null;
+      if (file) {
+        await this.serveGameFile(response, decodeURIComponent(file[1]!), request.headers.range);
+        return;
+      }
+
+      const body = await this.readBody(request);
+      const result = this.route(request.method ?? 'GET', url, token, body);
+      await this.respond(response, 200, result);
+    } catch (error) {
+      if (error instanceof MockError) {
+        await this.respond(response, error.status, { error: { code: error.code, message: error.message } });
+        return;
+      }
+      console.error('EdgeIO mock request failed:', error);
+      await this.respond(response, 500, { error: { code: 'UNAVAILABLE', message: 'Internal error' } });
+    }
+  }
+
+  private route(method: string, url: URL, token: string, body: any): unknown {
+    const prefix = `/${EDGEIO_API_VERSION}`;
+    if (!url.pathname.startsWith(`${prefix}/`)) {
+      throw new MockError(404, 'NOT_FOUND', `No route for ${url.pathname}`);
+    }
+    const path = url.pathname.slice(prefix.length).split('/').filter(Boolean).map(decodeURIComponent);
+    const route = `${method} /${path.map((part, index) => (index > 0 && !['select', 'download', 'manifest', 'data', 'current', 'migrate'].includes(part) ? ':id' : part)).join('/')}`;
+
+    switch (route) {
+      case 'GET /health':
+        return { status: 'ok', version: 'mock', region: this.nodes.values().next().value?.node.region ?? 'local' };
+      case 'GET /nodes':
+        return { nodes: this.getNodes() };
+      case 'POST /nodes/select':
+        return { node: this.selectNode(token, typeof body?.region === 'string' ? body.region : 'auto') };
+      case 'GET /games':
+        return { games: this.games };
+      case 'POST /games/:id/download':
+        return this.startDownload(token, path[1]!);
+      case 'GET /games/:id/manifest': {
+        const file = this.gameFiles.get(path[1]!);
+        if (!file) {
+          throw new MockError(404, 'NOT_FOUND', `Unknown game ${path[1]}`);
+        }
+        return { manifest: file.manifest };
+      }
+      case 'GET /saves':
+        return { saves: this.listSaves(url.searchParams.get('gameId') ?? '') };
+      case 'PUT /saves/:id':
+        return { save: this.storeSave(path[1]!, body) };
+      case 'GET /saves/:id/data': {
+        const stored = this.saves.get(path[1]!);
+        if (!stored?.data) {
+          throw new MockError(404, 'NOT_FOUND', `No data for save ${path[1]}`);
+        }
+        return { data: stored.data };
+      }
+      case 'POST /sessions':
+        return this.startSession(token, body);
+      case 'GET /sessions/current': {
+        const mock = this.sessions.get(token);
+        return mock?.session.isActive ? { session: mock.session, nodeId: mock.nodeId } : { session: null };
+      }
+      case 'POST /sessions/:id/migrate':
+        return this.migrateSession(token, path[1]!, body);
+      case 'DELETE /sessions/:id':
+        return this.stopSession(token, path[1]!);
+      case 'PATCH /settings':
+        return { settings: this.updateSettings(token, body ?? {}) };
+      case 'GET /metrics': {
+        const mock = this.sessions.get(token);
+        return {
+          metrics: mock?.session.isActive
+            ? this.sessionMetrics(mock, this.getSettings(token))
+            : { nodeId: null, latency: 0, jitter: 0, bandwidth: 0, packetLoss: 0, frameRate: 0, droppedFrames: 0 }
+        };
+      }
+      default:
+        throw new MockError(404, 'NOT_FOUND', `No route for ${method} ${url.pathname}`);
+    }
+  }
+
+  private getNodes(): EdgeIONode[] {
+    return Array.from(this.nodes.values(), entry => ({ ...entry.node }));
+  }
+
+  // Lowest latency among available nodes with headroom, preferring the requested region
+  private selectNode(token: string, region: string): EdgeIONode | null {
+    const candidates = this.getNodes().filter(node => node.isAvailable && node.load < 0.95);
+    const inRegion = candidates.filter(node => node.region === region);
+    const pool = region !== 'auto' && inRegion.length > 0 ? inRegion : candidates;
+    const node = pool.sort((a, b) => a.latency - b.latency)[0] ?? null;
+    if (node) {
+      this.selectedNodes.set(token, node.id);
+    }
+    return node;
+  }
+
+  private startDownload(token: string, gameId: string): unknown {
+    const game = this.games.find(candidate => candidate.id === gameId);
+    if (!game) {
+      throw new MockError(404, 'NOT_FOUND', `Unknown game ${gameId}`);
+    }
+    this.downloads.set(`${token}:${gameId}`, { gameId, token, bytes: 0, totalBytes: game.size });
+    return { gameId, size: game.size };
+  }
+
+  // Serves one "bytes=first-last" range, or the whole file without a Range header
+  private async serveGameFile(response: ServerResponse, gameId: string, range: string | undefined): Promise<void> {
+    const file = this.gameFiles.get(gameId);
+    if (!file) {
+      throw new MockError(404, 'NOT_FOUND', `Unknown game ${gameId}`);
+    }
+
+    const size = file.data.length;
+    let first = 0;
+    let last = size - 1;
+    if (range) {
+      const match = range.match(/^bytes=(\d+)-(\d*)$/);
+      first = match ? Number(match[1]) : NaN;
+      last = match && match[2] ? Math.min(Number(match[2]), size - 1) : size - 1;
+      if (!match || first > last || first >= size) {
+        response.writeHead(416, { 'Content-Type': 'application/json', 'Content-Range': `bytes */${size}` });
+        response.end(JSON.stringify({ error: { code: 'BAD_REQUEST', message: `Unsatisfiable range ${range}` } }));
+        return;
+      }
+    }
+
+    const data = Buffer.from(file.data.subarray(first, last + 1));
+    const corrupt = this.corruptRanges.get(gameId) ?? 0;
+    if (corrupt > 0 && data.length > 0) {
+      this.corruptRanges.set(gameId, corrupt - 1);
+      data[0] = data[0]! ^ 0xff;
+    }
+
+    if (this.responseDelayMs > 0) {
+      await new Promise(resolve => setTimeout(resolve, this.responseDelayMs));
+    }
+    response.writeHead(range ? 206 : 200, {
+      'Content-Type': 'application/octet-stream',
+      'Content-Length': data.length,
+      'Accept-Ranges': 'bytes',
+      ...(range ? { 'Content-Range': `bytes ${first}-${last}/${size}` } : {})
+    });
+    response.end(data);
+  }
+
+  private listSaves(gameId: string): CloudSaveFile[] {
+    return Array.from(this.saves.values(), stored => stored.save).filter(save => save.gameId === gameId);
+  }
+
+  private storeSave(saveId: string, body: UploadSaveRequest | null): CloudSaveFile {
+    const save = body?.save as (SaveData & Partial<CloudSaveFile>) | undefined;
+    if (!save || save.id !== saveId) {
+      throw new MockError(400, 'BAD_REQUEST', 'Body must carry the save it stores');
+    }
+
+    const existing = this.saves.get(saveId);
+    if (typeof body?.data !== 'string') {
+      // Metadata only
+      if (!existing) {
+        throw new MockError(404, 'NOT_FOUND', `No save ${saveId}`);
+      }
+      existing.save = { ...existing.save, name: save.name, syncStatus: save.syncStatus };
+      return existing.save;
+    }
+
+    if (!save.gameId || !save.kind || typeof save.slot !== 'number' || !save.sha1 || !save.clock) {
+      throw new MockError(400, 'BAD_REQUEST', 'Uploads need gameId, kind, slot, sha1 and clock');
+    }
+    const data = Buffer.from(body.data, 'base64');
+    if (sha1(data) !== save.sha1) {
+      throw new MockError(400, 'BAD_REQUEST', 'Data does not match sha1');
+    }
+    if (existing && existing.save.sha1 !== save.sha1 && !clockIsNewer(save.clock, existing.save.clock)) {
+      throw new MockError(409, 'CONFLICT', `Save ${saveId} changed since your copy`);
+    }
+
+    const stored: CloudSaveFile = {
+      id: saveId,
+      name: save.name,
+      timestamp: new Date(),
+      size: data.length,
+      isCloud: true,
+      isLocal: false,
+      syncStatus: 'synced',
+      gameId: save.gameId,
+      kind: save.kind,
+      slot: save.slot,
+      sha1: save.sha1,
+      clock: { ...save.clock },
+      deviceId: save.deviceId ?? ''
+    };
+    this.saves.set(saveId, { save: stored, data: body.data });
+    this.broadcastAll({ type: 'uploadProgress', progress: { saveId, progress: 1 } });
+    return stored;
+  }
+
+  private startSession(token: string, body: StartSessionRequest | null): unknown {
+    const game = this.games.find(candidate => candidate.id === body?.gameId);
+    if (!body || !game) {
+      throw new MockError(404, 'NOT_FOUND', `Unknown game ${body?.gameId}`);
+    }
+    const nodeId = body.nodeId ?? this.selectedNodes.get(token) ?? this.selectNode(token, 'auto')?.id;
+    const entry = nodeId ? this.nodes.get(nodeId) : undefined;
+    if (!entry || !entry.node.isAvailable || entry.node.load >= 0.95) {
+      throw new MockError(503, 'NO_CAPACITY', 'No edge node can host this session');
+    }
+
+    const quality = STREAMING_TIERS[body.quality] ? body.quality : this.getSettings(token).streamingQuality;
+    this.updateSettings(token, { streamingQuality: quality });
+    const previous = this.sessions.get(token);
+    if (previous?.session.isActive) {
+      this.endSession(previous);
+    }
+
+    const session: StreamingSession = {
+      id: `session_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 8)}`,
+      gameId: game.id,
+      startTime: new Date(),
+      quality,
+      latency: entry.node.latency,
+      bandwidth: 0,
+      frameRate: 0,
+      resolution: STREAMING_TIERS[quality].resolution,
+      isActive: true
+    };
+    this.sessions.set(token, { session, nodeId: entry.node.id, token, droppedFrames: 0 });
+    this.broadcast(token, { type: 'streamingStatus', status: { ...session } });
+    return { session, nodeId: entry.node.id };
+  }
+
+  private migrateSession(token: string, sessionId: string, body: MigrateSessionRequest | null): unknown {
+    const mock = this.sessions.get(token);
+    if (!mock || !mock.session.isActive || mock.session.id !== sessionId) {
+      throw new MockError(404, 'NOT_FOUND', `No session ${sessionId}`);
+    }
+    const entry = this.nodes.get(body?.nodeId ?? '');
+    if (!entry || !entry.node.isAvailable || entry.node.load >= 0.95) {
+      throw new MockError(503, 'NO_CAPACITY', `Node ${body?.nodeId} cannot take this session`);
+    }
+
+    mock.nodeId = entry.node.id;
+    mock.session.latency = entry.node.latency;
+    this.selectedNodes.set(token, entry.node.id);
+    this.broadcast(token, { type: 'streamingStatus', status: { ...mock.session } });
+    return { session: mock.session, nodeId: mock.nodeId };
+  }
+
+  private stopSession(token: string, sessionId: string): unknown {
+    const mock = this.sessions.get(token);
+    if (!mock || mock.session.id !== sessionId) {
+      throw new MockError(404, 'NOT_FOUND', `No session ${sessionId}`);
+    }
+    this.endSession(mock);
+    return { session: mock.session, nodeId: mock.nodeId };
+  }
+
+  private endSession(mock: MockSession): void {
+    mock.session.isActive = false;
+    mock.session.endTime = new Date();
+    this.broadcast(mock.token, { type: 'streamingStatus', status: { ...mock.session } });
+  }
+
+  private updateSettings(token: string, changes: Partial<EdgeIOSettings>): EdgeIOSettings {
+    const settings = { ...this.getSettings(token) };
+    if (changes.streamingQuality !== undefined) {
+      if (!STREAMING_TIERS[changes.streamingQuality]) {
+        throw new MockError(400, 'BAD_REQUEST', `Unknown quality ${changes.streamingQuality}`);
+      }
+      settings.streamingQuality = changes.streamingQuality;
+    }
+    if (typeof changes.latencyOptimization === 'boolean') {
+      settings.latencyOptimization = changes.latencyOptimization;
+    }
+    if (typeof changes.adaptiveBitrate === 'boolean') {
+      settings.adaptiveBitrate = changes.adaptiveBitrate;
+    }
+    this.settings.set(token, settings);
+
+    // A live session follows quality changes
+    const mock = this.sessions.get(token);
+    if (mock?.session.isActive && mock.session.quality !== settings.streamingQuality) {
+      mock.session.quality = settings.streamingQuality;
+      mock.session.resolution = STREAMING_TIERS[settings.streamingQuality].resolution;
+      this.broadcast(token, { type: 'streamingStatus', status: { ...mock.session } });
+    }
+    return settings;
+  }
+
+  private getSettings(token: string): EdgeIOSettings {
+    return this.settings.get(token) ?? { streamingQuality: 'high', latencyOptimization: false, adaptiveBitrate: false };
+  }
+
+  private acceptSocket(token: string, ws: WebSocket): void {
+    const sockets = this.sockets.get(token) ?? new Set();
+    sockets.add(ws);
+    this.sockets.set(token, sockets);
+    ws.on('close', () => sockets.delete(ws));
+  }
+
+  private broadcast(token: string, event: EdgeIOEvent): void {
+    this.sockets.get(token)?.forEach(ws => this.send(ws, event));
+  }
+
+  private broadcastAll(event: EdgeIOEvent): void {
+    this.sockets.forEach(sockets => sockets.forEach(ws => this.send(ws, event)));
+  }
+
+  private send(ws: WebSocket, event: EdgeIOEvent): void {
+    if (ws.readyState === WebSocket.OPEN) {
+      ws.send(JSON.stringify(event));
+    }
+  }
+
+  private isAuthorized(token: string): boolean {
+    return this.apiKey === null || token === this.apiKey;
+  }
+
+  private readBody(request: IncomingMessage): Promise<any> {
+    return new Promise((resolve, reject) => {
+      const chunks: Buffer[] = [];
+      let size = 0;
+      request.on('data', (chunk: Buffer) => {
+        size += chunk.length;
+        if (size > MAX_BODY_BYTES) {
+          reject(new MockError(413, 'BAD_REQUEST', 'Body too large'));
+          request.destroy();
+          return;
+        }
+        chunks.push(chunk);
+      });
+      request.on('end', () => {
+        if (chunks.length === 0) {
+          resolve(null);
+          return;
+        }
+        try {
+          resolve(JSON.parse(Buffer.concat(chunks).toString('utf8')));
+        } catch (error) {
+          reject(new MockError(400, 'BAD_REQUEST', 'Invalid JSON'));
+        }
+      });
+      request.on('error', reject);
+    });
+  }
+
+  private async respond(response: ServerResponse, status: number, body: unknown): Promise<void> {
+    if (this.responseDelayMs > 0) {
+      await new Promise(resolve => setTimeout(resolve, this.responseDelayMs));
+    }
+    response.writeHead(status, { 'Content-Type': 'application/json' });
+    response.end(JSON.stringify(body));
+  }
+}
+
+// `npm run mock-server` serves the default catalog until interrupted; EDGEIO_PORT and
+// EDGEIO_API_KEY override the port and require a bearer token
+if (require.main === module) {
+  const server = new EdgeIOMockServer({
+    port: Number(process.env.EDGEIO_PORT) || EDGEIO_MOCK_PORT,
+    bindAddress: process.env.EDGEIO_BIND_ADDRESS ?? '127.0.0.1',
+    ...(process.env.EDGEIO_API_KEY ? { apiKey: process.env.EDGEIO_API_KEY } : {})
+  });
+  server.start().then(port => {
+    console.info(`EdgeIO mock server listening on http://localhost:${port}/${EDGEIO_API_VERSION}`);
+  }).catch(error => {
+    console.error('Failed to start EdgeIO mock server:', error);
+    process.exitCode = 1;
+  });
+  process.once('SIGINT', () => {
+    server.stop().catch(error => console.error('Failed to stop EdgeIO mock server:', error));
+  });
+}
+
+export default EdgeIOMockServer;
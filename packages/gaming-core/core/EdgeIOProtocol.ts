@@ -0,0 +1,163 @@
+// 3kMLV Arcade - EdgeIO Protocol
+// HTTP and WebSocket contract between EdgeIOClientModule and an EdgeIO endpoint
+//
+// REST, JSON bodies, every request carries "Authorization: Bearer <apiKey>":
+//
+//   GET    /v1/health                      -> HealthResponse
+//   GET    /v1/nodes                       -> NodesResponse
+//   POST   /v1/nodes/select                SelectNodeRequest -> SelectNodeResponse
+//   GET    /v1/games                       -> GamesResponse
+//   POST   /v1/games/:gameId/download      -> DownloadResponse, progress follows as downloadProgress events
+//   GET    /v1/games/:gameId/manifest      -> ManifestResponse
+//   GET    /v1/games/:gameId/file          Range: bytes=<first>-<last> -> 206 with the raw bytes
+//   GET    /v1/saves?gameId=:gameId        -> SavesResponse
+//   PUT    /v1/saves/:saveId               UploadSaveRequest -> SaveResponse
+//   GET    /v1/saves/:saveId/data          -> SaveDataResponse
+//   POST   /v1/sessions                    StartSessionRequest -> SessionResponse
+//   GET    /v1/sessions/current            -> SessionResponse
+//   POST   /v1/sessions/:sessionId/migrate MigrateSessionRequest -> SessionResponse
+//   DELETE /v1/sessions/:sessionId         -> SessionResponse
+//   PATCH  /v1/settings                    SettingsRequest -> SettingsResponse
+//   GET    /v1/metrics                     -> MetricsResponse
+//
+// Failures answer with a non-2xx status and ErrorResponse. Server events arrive over a WebSocket
+// at /v1/events?token=<apiKey> as EdgeIOEvent JSON messages.
+
+import type { CloudGame, CloudSaveFile, EdgeIONode, GameManifest, SaveData, StreamingSession } from './EdgeIOIntegration';
+
+export const EDGEIO_API_VERSION = 'v1';
+export const EDGEIO_MOCK_PORT = 8092;
+
+export type EdgeIOErrorCode =
+  | 'UNAUTHORIZED'
+  | 'NOT_FOUND'
+  | 'BAD_REQUEST'
+  // PUT /v1/saves/:saveId with a clock that is not newer than the stored one
+  | 'CONFLICT'
+  | 'NO_CAPACITY'
+  | 'UNAVAILABLE'
+  | 'TIMEOUT';
+
+export type StreamingQuality = 'low' | 'medium' | 'high' | 'ultra';
+
+// Lowest to highest
+export const STREAMING_QUALITIES: StreamingQuality[] = ['low', 'medium', 'high', 'ultra'];
+
+// Megabits per second each tier needs, and the resolution it streams at
+export const STREAMING_TIERS: Record<StreamingQuality, { bitrate: number; resolution: string }> = {
+  low: { bitrate: 3, resolution: '1280x720' },
+  medium: { bitrate: 8, resolution: '1920x1080' },
+  high: { bitrate: 15, resolution: '1920x1080' },
+  ultra: { bitrate: 35, resolution: '3840x2160' }
+};
+
+export interface ErrorResponse {
+  error: {
+    code: EdgeIOErrorCode;
+    message: string;
+  };
+}
+
+export interface HealthResponse {
+  status: 'ok';
+  version: string;
+  region: string;
+}
+
+export interface NodesResponse {
+  nodes: EdgeIONode[];
+}
+
+export interface SelectNodeRequest {
+  // 'auto' picks the best node in any region
+  region: string;
+}
+
+export interface SelectNodeResponse {
+  node: EdgeIONode | null;
+}
+
+export interface GamesResponse {
+  games: CloudGame[];
+}
+
+export interface DownloadResponse {
+  gameId: string;
+  size: number;
+}
+
+export interface ManifestResponse {
+  manifest: GameManifest;
+}
+
+export interface SavesResponse {
+  saves: CloudSaveFile[];
+}
+
+// Plain SaveData updates metadata only; a CloudSaveFile with base64 data replaces the file
+export interface UploadSaveRequest {
+  save: SaveData | CloudSaveFile;
+  data?: string;
+}
+
+export interface SaveResponse {
+  save: CloudSaveFile;
+}
+
+export interface SaveDataResponse {
+  // Base64
+  data: string;
+}
+
+export interface StartSessionRequest {
+  gameId: string;
+  quality: StreamingQuality;
+  // Defaults to the node picked by the last /v1/nodes/select
+  nodeId?: string;
+}
+
+// Moves a live session to another node without ending it
+export interface MigrateSessionRequest {
+  nodeId: string;
+}
+
+export interface SessionResponse {
+  session: StreamingSession | null;
+  nodeId?: string;
+}
+
+export interface EdgeIOSettings {
+  streamingQuality: StreamingQuality;
+  latencyOptimization: boolean;
+  adaptiveBitrate: boolean;
+}
+
+export type SettingsRequest = Partial<EdgeIOSettings>;
+
+export interface SettingsResponse {
+  settings: EdgeIOSettings;
+}
+
+export interface EdgeIOPerformanceMetrics {
+  nodeId: string | null;
+  latency: number;
+  jitter: number;
+  // Throughput the link could carry, in Mbps, whether or not the current tier uses it all
+  bandwidth: number;
+  packetLoss: number;
+  frameRate: number;
+  droppedFrames: number;
+}
+
+export interface MetricsResponse {
+  metrics: EdgeIOPerformanceMetrics;
+}
+
+// Server -> client over /v1/events; names match the native module's on<Type> events
+export type EdgeIOEvent =
+  | { type: 'connectionStatus'; status: { connected: boolean; region: string } }
+  | { type: 'streamingStatus'; status: Partial<StreamingSession> }
+  | { type: 'downloadProgress'; progress: { gameId: string; progress: number; bytes: number; totalBytes: number } }
+  | { type: 'uploadProgress'; progress: { saveId: string; progress: number } }
+  | { type: 'performanceUpdate'; metrics: EdgeIOPerformanceMetrics }
+  | { type: 'error'; error: ErrorResponse['error'] };
@@ -0,0 +1,44 @@
+// 3kMLV Arcade - Emulator Core Interface
+// Contract for pluggable TypeScript cores driven by ReferenceEmulatorModule
+
+import type { GameControls, GamePlatform } from './GameEmulationEngine';
+
+export interface CoreInfo {
+  id: string;
+  name: string;
+  version: string;
+  platform: GamePlatform;
+  screenWidth: number;
+  screenHeight: number;
+  frameRate: number;
+  audioSampleRate: number;
+  maxPlayers: number;
+}
+
+export interface CoreFrame {
+  // RGBA, 4 bytes per pixel, row-major, screenWidth x screenHeight
+  framebuffer: Uint8Array;
+  // Mono samples in [-1, 1] at audioSampleRate covering exactly one frame
+  audio: Float32Array;
+}
+
+export interface EmulatorCore {
+  readonly info: CoreInfo;
+
+  canLoad(romPath: string, data: Uint8Array): boolean;
+  loadRom(data: Uint8Array): void;
+  reset(): void;
+  unload(): void;
+
+  // Inputs latch until the next call; port 0 is player one
+  setInput(controls: GameControls, port: number): void;
+  runFrame(): CoreFrame;
+  // Current display without advancing emulation, used to redraw after a state restore
+  renderFramebuffer(): Uint8Array;
+
+  // Must capture everything needed to make runFrame deterministic, including RNG state
+  serialize(): Uint8Array;
+  deserialize(state: Uint8Array): void;
+
+  readMemory(address: number, length: number): Uint8Array;
+}
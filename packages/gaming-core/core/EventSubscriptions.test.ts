@@ -0,0 +1,53 @@
+import { EventEmitter } from 'events';
+import { EventSubscriptions } from './EventSubscriptions';
+
+interface EngineEvents {
+  frameUpdate: [update: { frame: number }];
+  emulationStopped: [];
+}
+
+interface CloudEvents {
+  qualityChanged: [quality: string];
+}
+
+describe('EventSubscriptions', () => {
+  it('detaches every listener from every source on clear', () => {
+    const engine = new EventEmitter();
+    const cloud = new EventEmitter();
+    const subscriptions = new EventSubscriptions();
+    const frames: number[] = [];
+    const qualities: string[] = [];
+    const stopped = jest.fn();
+
+    const listenEngine = subscriptions.listenTo<EngineEvents>(engine);
+    const listenCloud = subscriptions.listenTo<CloudEvents>(cloud);
+    listenEngine('frameUpdate', update => frames.push(update.frame));
+    listenEngine('emulationStopped', stopped);
+    listenCloud('qualityChanged', quality => qualities.push(quality));
+    engine.emit('frameUpdate', { frame: 1 });
+    cloud.emit('qualityChanged', '720p');
+
+    subscriptions.clear();
+    engine.emit('frameUpdate', { frame: 2 });
+    engine.emit('emulationStopped');
+    cloud.emit('qualityChanged', '1080p');
+
+    expect(frames).toEqual([1]);
+    expect(qualities).toEqual(['720p']);
+    expect(stopped).not.toHaveBeenCalled();
+    expect(engine.listenerCount('frameUpdate') + cloud.listenerCount('qualityChanged')).toBe(0);
+  });
+
+  it('leaves listeners added by others in place', () => {
+    const engine = new EventEmitter();
+    const subscriptions = new EventSubscriptions();
+    const other = jest.fn();
+    engine.on('emulationStopped', other);
+
+    subscriptions.listenTo<EngineEvents>(engine)('emulationStopped', () => undefined);
+    subscriptions.clear();
+    engine.emit('emulationStopped');
+
+    expect(other).toHaveBeenCalledTimes(1);
+  });
+});
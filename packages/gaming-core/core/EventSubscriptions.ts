@@ -0,0 +1,29 @@
+// 3kMLV Arcade - Event Subscriptions
+// Listeners a service attaches to the engines it observes, all detached again by clear()
+
+import { EventEmitter } from 'events';
+
+// Event name -> listener arguments, e.g. GameEmulationEngineEvents
+export type EventArgs<Events> = { [Event in keyof Events]: unknown[] };
+
+export class EventSubscriptions {
+  private subscriptions: Array<[EventEmitter, string, (...args: unknown[]) => void]> = [];
+
+  // Returns a listen(event, handler) bound to source, typed by the source's event map
+  public listenTo<Events extends EventArgs<Events>>(source: EventEmitter) {
+    return <Event extends keyof Events & string>(event: Event, handler: (...args: Events[Event]) => void): void => {
+      const listener = handler as (...args: unknown[]) => void;
+      source.on(event, listener);
+      this.subscriptions.push([source, event, listener]);
+    };
+  }
+
+  public clear(): void {
+    for (const [source, event, handler] of this.subscriptions) {
+      source.off(event, handler);
+    }
+    this.subscriptions = [];
+  }
+}
+
+export default EventSubscriptions;
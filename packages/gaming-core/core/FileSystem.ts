@@ -0,0 +1,261 @@
+// 3kMLV Arcade - File System Abstraction
+// react-native-fs on device, in-memory storage for development and off-device runs
+
+import { base64Decode, base64Encode } from './BinaryUtils';
+
+export interface FileEntry {
+  name: string;
+  path: string;
+  size: number;
+  isDirectory: boolean;
+  modifiedAt: number;
+}
+
+export interface FileSystem {
+  readFile(path: string): Promise<Uint8Array>;
+  readRange(path: string, position: number, length: number): Promise<Uint8Array>;
+  writeFile(path: string, data: Uint8Array): Promise<void>;
+  appendFile(path: string, data: Uint8Array): Promise<void>;
+  exists(path: string): Promise<boolean>;
+  stat(path: string): Promise<FileEntry>;
+  readDir(path: string): Promise<FileEntry[]>;
+  mkdir(path: string): Promise<void>;
+  unlink(path: string): Promise<void>;
+  // Replaces the destination when it exists
+  moveFile(from: string, to: string): Promise<void>;
+  // Bytes still free on the volume holding the app's documents
+  getFreeSpace(): Promise<number>;
+}
+
+export function joinPath(...parts: string[]): string {
+  return parts
+    .filter(part => part.length > 0)
+    .join('/')
+    .replace(/\/{2,}/g, '/');
+}
+
+export function baseName(path: string): string {
+  const index = path.lastIndexOf('/');
+  return index >= 0 ? path.slice(index + 1) : path;
+}
+
+export function extensionOf(path: string): string {
+  const name = baseName(path);
+  const index = name.lastIndexOf('.');
+  return index > 0 ? name.slice(index).toLowerCase() : '';
+}
+
+export class ReactNativeFileSystem implements FileSystem {
+  private rnfs: any;
+
+  constructor() {
+    // Required lazily so the module can be imported where react-native-fs is unavailable
+    // eslint-disable-next-line @typescript-eslint/no-var-requires
+    const module = require('react-native-fs');
+    this.rnfs = module.default || module;
+  }
+
+  public static getDocumentDirectory(): string {
+    // eslint-disable-next-line @typescript-eslint/no-var-requires
+    const module = require('react-native-fs');
+    return (module.default || module).DocumentDirectoryPath;
+  }
+
+  public async readFile(path: string): Promise<Uint8Array> {
+    return base64Decode(await this.rnfs.readFile(path, 'base64'));
+  }
+
+  public async readRange(path: string, position: number, length: number): Promise<Uint8Array> {
+    return base64Decode(await this.rnfs.read(path, length, position, 'base64'));
+  }
+
+  public async writeFile(path: string, data: Uint8Array): Promise<void> {
+    await this.rnfs.writeFile(path, base64Encode(data), 'base64');
+  }
+
+  public async appendFile(path: string, data: Uint8Array): Promise<void> {
+    await this.rnfs.appendFile(path, base64Encode(data), 'base64');
+  }
+
+  public exists(path: string): Promise<boolean> {
+    return this.rnfs.exists(path);
+  }
+
+  public async stat(path: string): Promise<FileEntry> {
+    const result = await this.rnfs.stat(path);
+    return {
+      name: baseName(path),
+      path,
+      size: Number(result.size),
+      isDirectory: result.isDirectory(),
+      modifiedAt: new Date(result.mtime).getTime()
+    };
+  }
+
+  public async readDir(path: string): Promise<FileEntry[]> {
+    const items = await this.rnfs.readDir(path);
+    return items.map((item: any) => ({
+      name: item.name,
+      path: item.path,
+      size: Number(item.size),
+      isDirectory: item.isDirectory(),
+      modifiedAt: item.mtime ? new Date(item.mtime).getTime() : 0
+    }));
+  }
+
+  public async mkdir(path: string): Promise<void> {
+    await this.rnfs.mkdir(path);
+  }
+
+  public async unlink(path: string): Promise<void> {
+    await this.rnfs.unlink(path);
+  }
+
+  public async moveFile(from: string, to: string): Promise<void> {
+    if (await this.rnfs.exists(to)) {
+      await this.rnfs.unlink(to);
+    }
+    await this.rnfs.moveFile(from, to);
+  }
+
+  public async getFreeSpace(): Promise<number> {
+    return Number((await this.rnfs.getFSInfo()).freeSpace);
+  }
+}
+
+// Flat path -> bytes map; directories are implied by file paths
+export class MemoryFileSystem implements FileSystem {
+  private files: Map<string, { data: Uint8Array; modifiedAt: number }> = new Map();
+  private directories: Set<string> = new Set(['/']);
+  private capacity: number;
+
+  // capacity limits the simulated volume, e.g. to exercise disk-space checks
+  constructor(capacity: number = Number.POSITIVE_INFINITY) {
+    this.capacity = capacity;
+  }
+
+  public async readFile(path: string): Promise<Uint8Array> {
+    return this.getFile(path).data.slice();
+  }
+
+  public async readRange(path: string, position: number, length: number): Promise<Uint8Array> {
+    return this.getFile(path).data.slice(position, position + length);
+  }
+
+  public async writeFile(path: string, data: Uint8Array): Promise<void> {
+    this.files.set(path, { data: data.slice(), modifiedAt: Date.now() });
+    this.registerParents(path);
+  }
+
+  public async appendFile(path: string, data: Uint8Array): Promise<void> {
+    const existing = this.files.get(path)?.data ?? new Uint8Array(0);
+    const combined = new Uint8Array(existing.length + data.length);
+    combined.set(existing);
+    combined.set(data, existing.length);
+    await this.writeFile(path, combined);
+  }
+
+  public async exists(path: string): Promise<boolean> {
+    return this.files.has(path) || this.directories.has(this.normalizeDirectory(path));
+  }
+
+  public async stat(path: string): Promise<FileEntry> {
+    const file = this.files.get(path);
+    if (file) {
+      return { name: baseName(path), path, size: file.data.length, isDirectory: false, modifiedAt: file.modifiedAt };
+    }
+
+    if (this.directories.has(this.normalizeDirectory(path))) {
+      return { name: baseName(path), path, size: 0, isDirectory: true, modifiedAt: 0 };
+    }
+
+    throw new Error(`File not found: ${path}`);
+  }
+
+  public async readDir(path: string): Promise<FileEntry[]> {
+    const directory = this.normalizeDirectory(path);
+    const prefix = directory === '/' ? '/' : `${directory}/`;
+    const entries: FileEntry[] = [];
+
+    for (const child of this.directories) {
+      if (child !== directory && child.startsWith(prefix) && !child.slice(prefix.length).includes('/')) {
+        entries.push({ name: baseName(child), path: child, size: 0, isDirectory: true, modifiedAt: 0 });
+      }
+    }
+
+    for (const [filePath, file] of this.files) {
+      if (filePath.startsWith(prefix) && !filePath.slice(prefix.length).includes('/')) {
+        entries.push({
+          name: baseName(filePath),
+          path: filePath,
+          size: file.data.length,
+          isDirectory: false,
+          modifiedAt: file.modifiedAt
+        });
+      }
+    }
+
+    return entries;
+  }
+
+  public async mkdir(path: string): Promise<void> {
+    this.directories.add(this.normalizeDirectory(path));
+    this.registerParents(path);
+  }
+
+  public async unlink(path: string): Promise<void> {
+    if (this.files.delete(path)) {
+      return;
+    }
+
+    const directory = this.normalizeDirectory(path);
+    for (const filePath of Array.from(this.files.keys())) {
+      if (filePath.startsWith(`${directory}/`)) {
+        this.files.delete(filePath);
+      }
+    }
+    for (const child of Array.from(this.directories)) {
+      if (child === directory || child.startsWith(`${directory}/`)) {
+        this.directories.delete(child);
+      }
+    }
+  }
+
+  public async moveFile(from: string, to: string): Promise<void> {
+    const file = this.getFile(from);
+    this.files.delete(from);
+    this.files.set(to, file);
+    this.registerParents(to);
+  }
+
+  public async getFreeSpace(): Promise<number> {
+    let used = 0;
+    for (const file of this.files.values()) {
+      used += file.data.length;
+    }
+    return Math.max(0, this.capacity - used);
+  }
+
+  private getFile(path: string): { data: Uint8Array; modifiedAt: number } {
+    const file = this.files.get(path);
+    if (!file) {
+      throw new Error(`File not found: ${path}`);
+    }
+    return file;
+  }
+
+  private normalizeDirectory(path: string): string {
+    const normalized = path.replace(/\/+$/, '');
+    return normalized.length > 0 ? normalized : '/';
+  }
+
+  private registerParents(path: string): void {
+    const parts = path.split('/');
+    for (let i = 1; i < parts.length; i++) {
+      const parent = parts.slice(0, i).join('/');
+      if (parent.length > 0) {
+        this.directories.add(parent);
+      }
+    }
+  }
+}
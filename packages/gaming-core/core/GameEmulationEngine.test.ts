@@ -0,0 +1,281 @@
+import { EmulationPerformanceMetrics, GameEmulationEngine, GameRom, MovieDesync, RewindPosition } from './GameEmulationEngine';
+import { FrameUpdate, ReferenceEmulatorModule } from './ReferenceEmulatorModule';
+import { CHIP8_PLATFORM } from './Chip8Core';
+import { getPlatformById } from './GamePlatforms';
+import { InputMapper } from './InputMapper';
+import { decodeMovie, encodeMovie } from './InputMovie';
+import { MemoryFileSystem } from './FileSystem';
+import { SaveStateManager } from './SaveStateManager';
+import { MemoryStorage } from './Storage';
+
+const ROM_PATH = '/roms/counter.ch8';
+const COUNTER_ADDRESS = 0x301;
+
+// V5 = 5; loop: unless key 5 is up, V1 += 1; store V0..V1 at 0x300
+const COUNTER_PROGRAM = Uint8Array.from(
+  [0x6505, 0xe5a1, 0x7101, 0xa300, 0xf155, 0x1202].flatMap(opcode => [opcode >> 8, opcode & 0xff])
+);
+
+const romFor = (platform = CHIP8_PLATFORM): GameRom => ({
+  id: 'counter',
+  name: 'Counter',
+  platform,
+  filePath: ROM_PATH,
+  size: COUNTER_PROGRAM.length,
+  checksum: 'counter-sha1',
+  metadata: {
+    title: 'Counter',
+    description: '',
+    genre: [],
+    year: 2024,
+    developer: '',
+    publisher: '',
+    rating: '',
+    players: 1,
+    screenshot: '',
+    cover: '',
+    video: ''
+  }
+});
+
+describe('GameEmulationEngine', () => {
+  let fileSystem: MemoryFileSystem;
+  let nativeModule: ReferenceEmulatorModule;
+  let inputMapper: InputMapper;
+  let engine: GameEmulationEngine;
+
+  const counter = async () => (await engine.readMemory(COUNTER_ADDRESS, 1))[0];
+
+  beforeEach(async () => {
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    fileSystem = new MemoryFileSystem();
+    await fileSystem.writeFile(ROM_PATH, COUNTER_PROGRAM);
+    nativeModule = new ReferenceEmulatorModule({ fileSystem });
+    inputMapper = new InputMapper({ storage: new MemoryStorage() });
+    const saveStates = new SaveStateManager({ fileSystem, directory: '/states' });
+    engine = new GameEmulationEngine({ nativeModule, fileSystem, inputMapper, saveStates });
+  });
+
+  afterEach(async () => {
+    await engine.stopEmulation();
+    engine.destroy();
+    jest.restoreAllMocks();
+  });
+
+  describe('reference module', () => {
+    it('runs the CHIP-8 core and reports frames, audio and performance', async () => {
+      const frames: FrameUpdate[] = [];
+      const audio = jest.fn();
+      const performance: EmulationPerformanceMetrics[] = [];
+      engine.on('frameUpdate', frame => frames.push(frame));
+      engine.on('audioUpdate', audio);
+      engine.on('performanceUpdate', metrics => performance.push(metrics));
+      expect(await engine.loadGame(romFor())).toBe(true);
+
+      expect(await engine.stepFrames(60)).toBe(60);
+
+      expect(frames).toHaveLength(60);
+      expect(frames[59]).toEqual(expect.objectContaining({ frame: 60, width: 64, height: 32, skipped: false }));
+      expect(audio).toHaveBeenCalledTimes(60);
+      expect(performance).toEqual([{ fps: expect.any(Number), frameTime: expect.any(Number), memory: expect.any(Number) }]);
+      expect(engine.getEmulationState().currentFrame).toBe(60);
+
+      const metrics = await engine.getPerformanceMetrics();
+      expect(metrics?.memory).toBeGreaterThan(4096);
+      expect(engine.getLastPerformanceMetrics()).toEqual(metrics);
+    });
+
+    it('feeds pressed keys to the core and restores saved states', async () => {
+      await engine.loadGame(romFor());
+      engine.setControl('key5', true);
+      await engine.stepFrames(2);
+      const saved = await counter();
+      expect(saved).toBeGreaterThan(0);
+
+      expect(await engine.saveState(1)).toBe(true);
+      await engine.stepFrames(2);
+      expect(await counter()).toBeGreaterThan(saved!);
+
+      expect(await engine.loadState(1)).toBe(true);
+      expect(await counter()).toBe(saved);
+      expect(engine.getEmulationState().currentFrame).toBe(2);
+      expect((await engine.listSaveStates()).map(summary => summary.slot)).toEqual([1]);
+    });
+
+    it('falls back to the reference module when there is no native module', async () => {
+      const fallback = new GameEmulationEngine({ fileSystem, inputMapper: new InputMapper({ storage: new MemoryStorage() }) });
+
+      expect(await fallback.loadGame(romFor())).toBe(true);
+      expect(await fallback.stepFrames(3)).toBe(3);
+      expect(await fallback.getCoreInfo()).toEqual(expect.objectContaining({ id: expect.any(String) }));
+      fallback.destroy();
+    });
+  });
+
+  describe('input movies', () => {
+    // Holds key 5 over frames 3-5 and again from frame 12 to the end
+    const recordCounterMovie = async (): Promise<Uint8Array> => {
+      expect(await engine.loadGame(romFor())).toBe(true);
+      expect(await engine.startMovieRecording({ checkpointInterval: 5 })).toBe(true);
+      await engine.stepFrames(3);
+      engine.setControl('key5', true);
+      await engine.stepFrames(3);
+      engine.setControl('key5', false);
+      await engine.stepFrames(6);
+      engine.setControl('key5', true);
+      await engine.stepFrames(8);
+      return (await engine.stopMovieRecording())!;
+    };
+
+    it('replays a recording through an encode and decode round trip onto the same state', async () => {
+      const recorded = await recordCounterMovie();
+      const finalState = await engine.getStateSnapshot();
+      expect(await counter()).toBeGreaterThan(0);
+
+      const movie = decodeMovie(recorded);
+      expect(movie.header.frameCount).toBe(20);
+      expect(movie.checkpoints.map(checkpoint => checkpoint.frame)).toEqual([5, 10, 15, 20]);
+
+      const result = await engine.playMovie(encodeMovie(movie), { speed: 0 });
+
+      expect(result).toEqual({ frames: 20, completed: true, desyncs: [] });
+      expect(await engine.getStateSnapshot()).toEqual(finalState);
+    });
+
+    it('reports a desync at the first checkpoint after the inputs diverge', async () => {
+      const movie = decodeMovie(await recordCounterMovie());
+      const desyncs: MovieDesync[] = [];
+      engine.on('movieDesync', desync => desyncs.push(desync));
+
+      // Without the second press the counter stops at what frames 3-5 added
+      const edited = { ...movie, events: movie.events.filter(event => event.frame < 12) };
+      const result = await engine.playMovie(edited, { speed: 0 });
+
+      expect(result?.completed).toBe(true);
+      expect(result?.desyncs.map(desync => desync.frame)).toEqual([15, 20]);
+      expect(desyncs).toEqual(result?.desyncs);
+    });
+
+    it('recenters the stick on playback when an event leaves the axes out', async () => {
+      const setAxes = jest.fn((_axes: unknown, _port: number) => Promise.resolve(true));
+      Object.assign(nativeModule, { setAxes });
+      expect(await engine.loadGame(romFor(getPlatformById('n64')!))).toBe(true);
+      expect(await engine.startMovieRecording()).toBe(true);
+      inputMapper.handleTouchAxis('joystick', 1, 0);
+      await engine.stepFrames(2);
+      inputMapper.handleTouchAxis('joystick', 0, 0);
+      await engine.stepFrames(2);
+      const recorded = (await engine.stopMovieRecording())!;
+      expect(decodeMovie(recorded).events.map(event => event.axes)).toEqual([{ stick: { x: 1, y: 0 } }, undefined]);
+
+      setAxes.mockClear();
+      await engine.playMovie(recorded, { speed: 0 });
+
+      const portZero = setAxes.mock.calls.filter(([, port]) => port === 0).map(([axes]) => axes);
+      expect(portZero).toEqual([
+        // The reload keeps the live input, then playback starts from a centered stick
+        { stick: { x: 0, y: 0 } },
+        { stick: { x: 0, y: 0 } },
+        { stick: { x: 1, y: 0 } },
+        { stick: { x: 0, y: 0 } },
+        // The live input is handed back once the movie ends
+        { stick: { x: 0, y: 0 } }
+      ]);
+    });
+  });
+
+  describe('rewind', () => {
+    // Counter value after each frame, indexed by frame; key 5 is held throughout
+    const playCounter = async (frames: number): Promise<number[]> => {
+      await engine.loadGame(romFor());
+      await engine.updateConfig({ rewindEnabled: true, rewindInterval: 1 });
+      engine.setControl('key5', true);
+      const values = [0];
+      // One frame at a time, so each snapshot is taken before the next frame runs
+      for (let frame = 1; frame <= frames; frame++) {
+        await engine.stepFrames(1);
+        values.push((await counter())!);
+      }
+      return values;
+    };
+
+    it('steps back and forward through snapshots and continues from the chosen one', async () => {
+      const values = await playCounter(10);
+
+      expect(await engine.stepRewind(5)).toEqual({ frame: 5, index: 4, available: 10, secondsBack: 5 / 60 });
+      expect(await counter()).toBe(values[5]);
+      expect((await engine.stepRewind(-2))?.frame).toBe(7);
+      expect(await counter()).toBe(values[7]);
+      expect(engine.getEmulationState()).toEqual(expect.objectContaining({ isRewinding: true, currentFrame: 7 }));
+
+      expect(await engine.stopRewind()).toBe(true);
+      expect(engine.getRewindPosition()).toEqual(expect.objectContaining({ frame: 7, available: 7 }));
+
+      await engine.stepFrames(1);
+      expect(await counter()).toBe(values[8]);
+      expect(engine.getRewindPosition()).toEqual(expect.objectContaining({ frame: 8, available: 8 }));
+    });
+
+    it('keeps stepping back while rewind is held', async () => {
+      const values = await playCounter(6);
+      const positions: RewindPosition[] = [];
+      const reachedStart = new Promise<void>(resolve => {
+        engine.on('rewindPosition', position => {
+          positions.push(position);
+          if (position.index === 0) {
+            resolve();
+          }
+        });
+      });
+
+      expect(await engine.startRewind()).toBe(true);
+      await reachedStart;
+      const stopped = jest.fn();
+      engine.on('rewindStopped', stopped);
+      expect(await engine.stopRewind()).toBe(true);
+
+      expect(positions.map(position => position.frame)).toEqual([5, 4, 3, 2, 1]);
+      expect(await counter()).toBe(values[1]);
+      // Everything newer than the shown snapshot is gone by the time rewind stops
+      expect(stopped).toHaveBeenCalledWith(expect.objectContaining({ frame: 1, available: 1 }));
+      expect(engine.getEmulationState().isRewinding).toBe(false);
+    });
+
+    it('drops the history when rewind is turned off', async () => {
+      await playCounter(3);
+
+      await engine.updateConfig({ rewindEnabled: false });
+
+      expect(engine.getRewindPosition()).toBeNull();
+      expect(engine.getRewindMemoryUsage()).toBe(0);
+    });
+  });
+
+  it('keeps turbo at its rate when frames are skipped', async () => {
+    await engine.loadGame(romFor());
+    await engine.updateConfig({ turboMode: true, frameSkip: 2 });
+    await inputMapper.bindButton({ source: 'keyboard', code: 'KeyW', button: 'key5', turbo: true });
+    const skipped: boolean[] = [];
+    engine.on('frameUpdate', frame => skipped.push(frame.skipped));
+    inputMapper.handleKey('KeyW', true);
+
+    const held: boolean[] = [];
+    for (let frame = 1; frame <= 8; frame++) {
+      await engine.stepFrames(1);
+      held.push(inputMapper.getPortInput(0).controls.key5 === true);
+    }
+
+    expect(skipped).toEqual([true, true, false, true, true, false, true, true]);
+    expect(held).toEqual([true, false, false, true, true, false, false, true]);
+  });
+
+  it('keeps a running game running when a recording reloads the ROM', async () => {
+    await engine.loadGame(romFor());
+    await engine.startEmulation();
+
+    await engine.startMovieRecording();
+
+    expect(engine.getEmulationState()).toEqual(expect.objectContaining({ isRunning: true, isPaused: false, currentFrame: 0 }));
+    await engine.stopMovieRecording();
+  });
+});
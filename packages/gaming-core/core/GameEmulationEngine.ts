@@ -1,8 +1,26 @@
 // 3kMLV Arcade - Ultra-High Performance Game Emulation Engine
 // C++/Rust backend integration for maximum performance
 
-import { NativeModules, Platform } from 'react-native';
+import { NativeModules } from 'react-native';
 import { EventEmitter } from 'events';
+import { AudioUpdate, FrameUpdate, ReferenceEmulatorModule } from './ReferenceEmulatorModule';
+import { SaveStateHeader, SaveStateManager, SaveStateSummary } from './SaveStateManager';
+import { base64Decode, base64Encode, sha1Hex } from './BinaryUtils';
+import { FileSystem, ReactNativeFileSystem } from './FileSystem';
+import { RewindBuffer } from './RewindBuffer';
+import { PerformanceEngine } from './PerformanceEngine';
+import { InputMapper, PortInput } from './InputMapper';
+import {
+  InputMovie,
+  MovieAnchor,
+  MovieCheckpoint,
+  MovieHeader,
+  MovieRecorder,
+  assertMovieCompatible,
+  controlsFromButtons,
+  decodeMovie,
+  encodeMovie
+} from './InputMovie';
 
 export interface GameRom {
   id: string;
@@ -49,6 +67,15 @@ export interface EmulationState {
   videoEnabled: boolean;
   saveStateAvailable: boolean;
   loadStateAvailable: boolean;
+  isRewinding: boolean;
+}
+
+// What the native module reports through getPerformanceMetrics and onPerformanceUpdate
+export interface EmulationPerformanceMetrics {
+  fps: number;
+  frameTime: number;
+  // Bytes of emulator state
+  memory: number;
 }
 
 export interface GameControls {
@@ -76,26 +103,132 @@ export interface EmulationConfig {
   autoSave: boolean;
   turboMode: boolean;
   rewindEnabled: boolean;
+  // Seconds of history kept, frames between snapshots and a byte cap (also bounded by PerformanceConfig.memoryLimit)
+  rewindDuration: number;
+  rewindInterval: number;
+  rewindMemoryLimit: number;
   screenshotFormat: 'png' | 'jpg' | 'webp';
   videoRecording: boolean;
   streamingEnabled: boolean;
 }
 
+export interface GameEmulationEngineOptions {
+  // Bypasses NativeModules, e.g. a ReferenceEmulatorModule with its own cores
+  nativeModule?: any;
+  saveStates?: SaveStateManager;
+  fileSystem?: FileSystem;
+  inputMapper?: InputMapper;
+}
+
+export interface RewindPosition {
+  frame: number;
+  index: number;
+  available: number;
+  secondsBack: number;
+}
+
+export interface MovieDesync {
+  frame: number;
+  expected: string;
+  actual: string;
+}
+
+export interface MoviePlaybackResult {
+  frames: number;
+  completed: boolean;
+  desyncs: MovieDesync[];
+}
+
+export interface MovieStatus {
+  mode: 'idle' | 'recording' | 'playing';
+  frame: number;
+  frameCount: number;
+}
+
+// Listener arguments per event, for EventSubscriptions
+export interface GameEmulationEngineEvents {
+  initialized: [result: boolean];
+  gameLoaded: [rom: GameRom];
+  emulationStarted: [];
+  emulationPaused: [];
+  emulationResumed: [];
+  emulationStopped: [];
+  framesStepped: [frame: number];
+  frameUpdate: [update: FrameUpdate];
+  audioUpdate: [update: AudioUpdate];
+  stateChange: [state: EmulationState];
+  // Headers come with .mlvs containers; modules keeping their own slots report the slot alone
+  stateSaved: [slot: number, header?: SaveStateHeader];
+  stateLoaded: [slot: number, header?: SaveStateHeader];
+  stateDeleted: [slot: number];
+  stateImported: [slot: number, header: SaveStateHeader];
+  rewindStarted: [position: RewindPosition | null];
+  rewindPosition: [position: RewindPosition];
+  rewindStopped: [position: RewindPosition | null];
+  movieRecordingStarted: [info: { anchor: MovieAnchor }];
+  movieRecordingStopped: [header: MovieHeader];
+  movieRecordingAborted: [reason: string];
+  moviePlaybackStarted: [header: MovieHeader];
+  movieDesync: [desync: MovieDesync];
+  moviePlaybackFinished: [result: MoviePlaybackResult];
+  controlChanged: [change: { button: string; pressed: boolean; port: number }];
+  controlsUpdated: [controls: GameControls];
+  configUpdated: [config: EmulationConfig];
+  screenshotTaken: [path: string];
+  videoRecordingStarted: [];
+  videoRecordingStopped: [path: string];
+  performanceUpdate: [metrics: EmulationPerformanceMetrics];
+  performanceUpdated: [metrics: EmulationPerformanceMetrics];
+  error: [error: unknown];
+}
+
+interface MoviePlayback {
+  movie: InputMovie;
+  frame: number;
+  stopRequested: boolean;
+}
+
+const DEFAULT_FRAME_RATE = 60;
+// Unthrottled playback yields to the event loop this often
+const MOVIE_YIELD_INTERVAL = 60;
+// Snapshot requests allowed in flight over the bridge before frames are skipped
+const MAX_PENDING_REWIND_CAPTURES = 4;
+
 export class GameEmulationEngine extends EventEmitter {
   private static instance: GameEmulationEngine;
   private nativeModule: any;
   private currentGame: GameRom | null = null;
-  private emulationState: EmulationState;
-  private controls: GameControls;
-  private config: EmulationConfig;
-  private performanceMetrics: any;
+  private emulationState!: EmulationState;
+  private controls!: GameControls;
+  private config!: EmulationConfig;
+  private performanceMetrics: EmulationPerformanceMetrics | null = null;
+  private saveStates: SaveStateManager;
+  private fileSystem: FileSystem | null;
+  private rewindBuffer: RewindBuffer;
+  private rewindCursor: number | null = null;
+  private rewindTimer: ReturnType<typeof setInterval> | null = null;
+  private rewindStepping = false;
+  private resumeAfterRewind = false;
+  private pendingRewindCaptures = 0;
+  private frameRate = DEFAULT_FRAME_RATE;
+  private inputMapper: InputMapper;
+  private portInputs: Map<number, PortInput> = new Map();
+  private movieRecorder: MovieRecorder | null = null;
+  private movieStartFrame = 0;
+  private movieCheckpoints: Promise<void> = Promise.resolve();
+  private moviePlayback: MoviePlayback | null = null;
+  private inputOverride = false;
 
-  constructor() {
+  constructor(options: GameEmulationEngineOptions = {}) {
     super();
-    this.initializeNativeModule();
+    this.fileSystem = options.fileSystem ?? null;
+    this.saveStates = options.saveStates ?? new SaveStateManager(options.fileSystem ? { fileSystem: options.fileSystem } : {});
+    this.inputMapper = options.inputMapper ?? new InputMapper();
+    this.initializeNativeModule(options.nativeModule);
     this.initializeEmulationState();
     this.initializeControls();
     this.initializeConfig();
+    this.rewindBuffer = new RewindBuffer(this.getRewindLimits());
     this.setupEventHandlers();
   }
 
@@ -106,7 +239,12 @@ export class GameEmulationEngine extends EventEmitter {
     return GameEmulationEngine.instance;
   }
 
-  private initializeNativeModule() {
+  private initializeNativeModule(nativeModule?: any) {
+    if (nativeModule) {
+      this.nativeModule = nativeModule;
+      return;
+    }
+
     try {
       this.nativeModule = NativeModules.GameEmulationEngine;
       if (!this.nativeModule) {
@@ -120,22 +258,8 @@ export class GameEmulationEngine extends EventEmitter {
   }
 
   private createFallbackModule() {
-    // Fallback implementation for development
-    return {
-      initialize: () => Promise.resolve(true),
-      loadRom: (romPath: string) => Promise.resolve(true),
-      startEmulation: () => Promise.resolve(true),
-      pauseEmulation: () => Promise.resolve(true),
-      stopEmulation: () => Promise.resolve(true),
-      saveState: (slot: number) => Promise.resolve(true),
-      loadState: (slot: number) => Promise.resolve(true),
-      setControls: (controls: any) => Promise.resolve(true),
-      getPerformanceMetrics: () => Promise.resolve({ fps: 60, memory: 0 }),
-      takeScreenshot: () => Promise.resolve(''),
-      startVideoRecording: () => Promise.resolve(true),
-      stopVideoRecording: () => Promise.resolve(''),
-      setConfig: (config: any) => Promise.resolve(true)
-    };
+    // TypeScript reference cores (CHIP-8) so the engine runs without native code
+    return new ReferenceEmulatorModule(this.fileSystem ? { fileSystem: this.fileSystem } : {});
   }
 
   private initializeEmulationState() {
@@ -147,7 +271,8 @@ export class GameEmulationEngine extends EventEmitter {
       audioEnabled: true,
       videoEnabled: true,
       saveStateAvailable: false,
-      loadStateAvailable: false
+      loadStateAvailable: false,
+      isRewinding: false
     };
   }
 
@@ -178,12 +303,20 @@ export class GameEmulationEngine extends EventEmitter {
       autoSave: true,
       turboMode: false,
       rewindEnabled: false,
+      rewindDuration: 30,
+      rewindInterval: 1,
+      rewindMemoryLimit: 64 * 1024 * 1024, // 64MB
       screenshotFormat: 'png',
       videoRecording: false,
       streamingEnabled: false
     };
   }
 
+  // Kept as a field so destroy() can detach it from the PerformanceEngine singleton
+  private handlePerformanceConfig = () => {
+    this.configureRewind();
+  };
+
   private setupEventHandlers() {
     // Setup native event handlers
     if (this.nativeModule && this.nativeModule.addListener) {
@@ -193,6 +326,10 @@ export class GameEmulationEngine extends EventEmitter {
       this.nativeModule.addListener('onError', this.handleError.bind(this));
       this.nativeModule.addListener('onPerformanceUpdate', this.handlePerformanceUpdate.bind(this));
     }
+
+    PerformanceEngine.getInstance().on('configUpdated', this.handlePerformanceConfig);
+    this.inputMapper.on('portChanged', this.handlePortInput.bind(this));
+    this.inputMapper.on('error', this.handleError.bind(this));
   }
 
   // Core Emulation Methods
@@ -211,11 +348,17 @@ export class GameEmulationEngine extends EventEmitter {
   public async loadGame(rom: GameRom): Promise<boolean> {
     try {
       this.currentGame = rom;
+      this.interruptMovie('gameLoaded');
+      await this.cancelRewind();
       const result = await this.nativeModule.loadRom(rom.filePath);
       
       if (result) {
+        const coreInfo = this.nativeModule.getCoreInfo ? await this.nativeModule.getCoreInfo() : null;
+        this.frameRate = coreInfo?.frameRate ?? DEFAULT_FRAME_RATE;
+        this.configureRewind();
+        await this.inputMapper.loadProfile(rom.platform, rom.checksum);
         this.emulationState.saveStateAvailable = true;
-        this.emulationState.loadStateAvailable = true;
+        this.emulationState.loadStateAvailable = await this.hasSaveStates();
         this.emit('gameLoaded', rom);
       }
       
@@ -281,11 +424,15 @@ export class GameEmulationEngine extends EventEmitter {
 
   public async stopEmulation(): Promise<boolean> {
     try {
+      this.interruptMovie('emulationStopped');
+      await this.cancelRewind();
       const result = await this.nativeModule.stopEmulation();
       
       if (result) {
         this.emulationState.isRunning = false;
         this.emulationState.isPaused = false;
+        this.emulationState.saveStateAvailable = false;
+        this.emulationState.loadStateAvailable = false;
         this.currentGame = null;
         this.emit('emulationStopped');
       }
@@ -298,16 +445,74 @@ export class GameEmulationEngine extends EventEmitter {
     }
   }
 
+  // Advances a paused game frame by frame; only modules with frame stepping support it
+  public async stepFrames(count: number = 1): Promise<number> {
+    try {
+      if (!this.nativeModule.stepFrames) {
+        throw new Error('Frame stepping is not supported by the emulation module');
+      }
+
+      const frame = await this.nativeModule.stepFrames(count);
+      this.emulationState.currentFrame = frame;
+      this.emit('framesStepped', frame);
+      return frame;
+    } catch (error) {
+      console.error('Failed to step frames:', error);
+      this.emit('error', error);
+      return this.emulationState.currentFrame;
+    }
+  }
+
+  // Reads emulated memory, e.g. for achievements; only modules with memory access support it
+  public async readMemory(address: number, length: number): Promise<Uint8Array> {
+    try {
+      if (!this.supportsMemoryAccess()) {
+        throw new Error('Memory access is not supported by the emulation module');
+      }
+      return base64Decode(await this.nativeModule.readMemory(address, length));
+    } catch (error) {
+      console.error('Failed to read memory:', error);
+      this.emit('error', error);
+      return new Uint8Array(0);
+    }
+  }
+
+  public supportsMemoryAccess(): boolean {
+    return typeof this.nativeModule.readMemory === 'function';
+  }
+
   // Save State Management
+  // Modules that expose raw state (getStateData/setStateData) get versioned .mlvs containers
+  // via SaveStateManager; other native modules keep their own slot storage.
   public async saveState(slot: number = 0): Promise<boolean> {
     try {
-      const result = await this.nativeModule.saveState(slot);
-      
-      if (result) {
-        this.emit('stateSaved', slot);
+      if (!this.supportsStateContainers()) {
+        const result = await this.nativeModule.saveState(slot);
+        if (result) {
+          this.emit('stateSaved', slot);
+        }
+        return result;
       }
-      
-      return result;
+
+      const rom = this.requireCurrentGame();
+      const [stateData, coreInfo, screenshot] = await Promise.all([
+        this.nativeModule.getStateData(),
+        this.nativeModule.getCoreInfo(),
+        this.nativeModule.takeScreenshot()
+      ]);
+
+      const header = await this.saveStates.save({
+        rom,
+        core: coreInfo,
+        slot,
+        frame: this.emulationState.currentFrame,
+        state: base64Decode(stateData),
+        thumbnail: await this.readScreenshot(screenshot)
+      });
+
+      this.emulationState.loadStateAvailable = true;
+      this.emit('stateSaved', slot, header);
+      return true;
     } catch (error) {
       console.error('Failed to save state:', error);
       this.emit('error', error);
@@ -317,12 +522,28 @@ export class GameEmulationEngine extends EventEmitter {
 
   public async loadState(slot: number = 0): Promise<boolean> {
     try {
-      const result = await this.nativeModule.loadState(slot);
-      
+      if (!this.supportsStateContainers()) {
+        this.interruptMovie('stateLoaded');
+        await this.cancelRewind();
+        const result = await this.nativeModule.loadState(slot);
+        if (result) {
+          this.emit('stateLoaded', slot);
+        }
+        return result;
+      }
+
+      const rom = this.requireCurrentGame();
+      const coreInfo = await this.nativeModule.getCoreInfo();
+      const { header, state } = await this.saveStates.load(rom, coreInfo, slot);
+      this.interruptMovie('stateLoaded');
+      await this.cancelRewind();
+      const result = await this.nativeModule.setStateData(base64Encode(state));
+
       if (result) {
-        this.emit('stateLoaded', slot);
+        this.emulationState.currentFrame = header.frame;
+        this.emit('stateLoaded', slot, header);
       }
-      
+
       return result;
     } catch (error) {
       console.error('Failed to load state:', error);
@@ -331,24 +552,338 @@ export class GameEmulationEngine extends EventEmitter {
     }
   }
 
+  public async listSaveStates(): Promise<SaveStateSummary[]> {
+    if (!this.currentGame || !this.supportsStateContainers()) {
+      return [];
+    }
+    return this.saveStates.listSlots(this.currentGame.checksum);
+  }
+
+  public async deleteSaveState(slot: number): Promise<boolean> {
+    try {
+      const rom = this.requireCurrentGame();
+      const deleted = await this.saveStates.deleteSlot(rom.checksum, slot);
+      if (deleted) {
+        this.emulationState.loadStateAvailable = await this.hasSaveStates();
+        this.emit('stateDeleted', slot);
+      }
+      return deleted;
+    } catch (error) {
+      console.error('Failed to delete state:', error);
+      this.emit('error', error);
+      return false;
+    }
+  }
+
+  public async exportSaveState(slot: number): Promise<string> {
+    try {
+      return await this.saveStates.exportSlot(this.requireCurrentGame().checksum, slot);
+    } catch (error) {
+      console.error('Failed to export state:', error);
+      this.emit('error', error);
+      return '';
+    }
+  }
+
+  // Rejects states made for another ROM or an incompatible core version
+  public async importSaveState(data: string, slot?: number): Promise<SaveStateHeader | null> {
+    try {
+      const coreInfo = await this.nativeModule.getCoreInfo();
+      const header = await this.saveStates.importState(data, this.requireCurrentGame(), coreInfo, slot);
+      this.emulationState.loadStateAvailable = true;
+      this.emit('stateImported', header.slot, header);
+      return header;
+    } catch (error) {
+      console.error('Failed to import state:', error);
+      this.emit('error', error);
+      return null;
+    }
+  }
+
+  // Rewind
+  // Holding rewind steps back one snapshot per frame interval until stopRewind(); emulation
+  // then continues from the shown snapshot and everything newer is discarded.
+  public async startRewind(): Promise<boolean> {
+    try {
+      if (this.rewindTimer) {
+        return true;
+      }
+      if (!(await this.beginRewind())) {
+        return false;
+      }
+
+      const interval = (1000 / this.frameRate) * Math.max(1, this.config.rewindInterval);
+      this.rewindTimer = setInterval(() => {
+        if (!this.rewindStepping && this.rewindCursor !== null && this.rewindCursor > 0) {
+          this.stepRewind(1);
+        }
+      }, interval);
+      return true;
+    } catch (error) {
+      console.error('Failed to start rewind:', error);
+      this.emit('error', error);
+      return false;
+    }
+  }
+
+  public async stopRewind(): Promise<boolean> {
+    try {
+      this.stopRewindTimer();
+      if (this.rewindCursor === null) {
+        return false;
+      }
+
+      this.rewindBuffer.truncate(this.rewindCursor);
+      await this.endRewind();
+      return true;
+    } catch (error) {
+      console.error('Failed to stop rewind:', error);
+      this.emit('error', error);
+      return false;
+    }
+  }
+
+  // Negative steps move forward again, up to the newest snapshot
+  public async stepRewind(steps: number = 1): Promise<RewindPosition | null> {
+    try {
+      this.rewindStepping = true;
+      if (!(await this.beginRewind())) {
+        return null;
+      }
+
+      const newest = this.rewindBuffer.getLength() - 1;
+      const index = Math.min(newest, Math.max(0, this.rewindCursor! - steps));
+      await this.nativeModule.setStateData(base64Encode(this.rewindBuffer.seek(index)));
+      this.rewindCursor = index;
+
+      const position = this.getRewindPosition()!;
+      this.emulationState.currentFrame = position.frame;
+      this.emit('rewindPosition', position);
+      return position;
+    } catch (error) {
+      console.error('Failed to step rewind:', error);
+      this.emit('error', error);
+      return null;
+    } finally {
+      this.rewindStepping = false;
+    }
+  }
+
+  public getRewindPosition(): RewindPosition | null {
+    const available = this.rewindBuffer.getLength();
+    const index = this.rewindCursor ?? available - 1;
+    const frame = this.rewindBuffer.getFrameAt(index);
+    if (frame === null) {
+      return null;
+    }
+
+    const newestFrame = this.rewindBuffer.getFrameAt(available - 1) ?? frame;
+    return { frame, index, available, secondsBack: (newestFrame - frame) / this.frameRate };
+  }
+
+  public getRewindMemoryUsage(): number {
+    return this.rewindBuffer.getByteSize();
+  }
+
+  // Input Movies
+  // Recording from power-on reloads the ROM; a 'saveState' anchor starts from the current state
+  public async startMovieRecording(options: { anchor?: 'powerOn' | 'saveState'; checkpointInterval?: number } = {}): Promise<boolean> {
+    try {
+      if (this.movieRecorder || this.moviePlayback) {
+        throw new Error('A movie is already being recorded or played');
+      }
+      if (!this.supportsStateContainers()) {
+        throw new Error('Movie recording is not supported by the emulation module');
+      }
+
+      const rom = this.requireCurrentGame();
+      const coreInfo = await this.nativeModule.getCoreInfo();
+      await this.cancelRewind();
+
+      let anchorState: Uint8Array | null = null;
+      if (options.anchor === 'saveState') {
+        this.movieStartFrame = this.emulationState.currentFrame;
+        anchorState = base64Decode(await this.nativeModule.getStateData());
+      } else {
+        await this.restartRom(rom);
+        this.movieStartFrame = 0;
+      }
+
+      this.movieRecorder = new MovieRecorder(rom, coreInfo, anchorState, options.checkpointInterval);
+      this.movieCheckpoints = Promise.resolve();
+      for (const input of this.portInputs.values()) {
+        this.movieRecorder.recordInput(0, input.port, input.controls, input.axes);
+      }
+
+      this.emit('movieRecordingStarted', { anchor: anchorState ? 'saveState' : 'powerOn' });
+      return true;
+    } catch (error) {
+      console.error('Failed to start movie recording:', error);
+      this.emit('error', error);
+      return false;
+    }
+  }
+
+  // Returns the encoded .mlvm file
+  public async stopMovieRecording(): Promise<Uint8Array | null> {
+    try {
+      const recorder = this.movieRecorder;
+      if (!recorder) {
+        return null;
+      }
+
+      this.movieRecorder = null;
+      await this.movieCheckpoints;
+      const movie = recorder.finish();
+      this.emit('movieRecordingStopped', movie.header);
+      return encodeMovie(movie);
+    } catch (error) {
+      console.error('Failed to stop movie recording:', error);
+      this.emit('error', error);
+      return null;
+    }
+  }
+
+  // speed 1 plays in real time, 0 as fast as possible (regression runs); emulation is left
+  // paused on the movie's last frame
+  public async playMovie(data: Uint8Array | InputMovie, options: { speed?: number } = {}): Promise<MoviePlaybackResult | null> {
+    try {
+      if (this.movieRecorder || this.moviePlayback) {
+        throw new Error('A movie is already being recorded or played');
+      }
+      if (!this.supportsStateContainers() || !this.nativeModule.stepFrames) {
+        throw new Error('Movie playback is not supported by the emulation module');
+      }
+
+      const movie = data instanceof Uint8Array ? decodeMovie(data) : data;
+      const rom = this.requireCurrentGame();
+      const coreInfo = await this.nativeModule.getCoreInfo();
+      assertMovieCompatible(movie.header, rom, coreInfo);
+
+      if (this.emulationState.isRunning && !this.emulationState.isPaused) {
+        await this.pauseEmulation();
+      }
+      await this.cancelRewind();
+
+      if (movie.anchorState) {
+        await this.nativeModule.setStateData(base64Encode(movie.anchorState));
+      } else {
+        await this.restartRom(rom);
+      }
+
+      const playback: MoviePlayback = { movie, frame: 0, stopRequested: false };
+      this.moviePlayback = playback;
+      for (let port = 0; port < Math.max(1, coreInfo.maxPlayers); port++) {
+        this.applyPortInput(port, controlsFromButtons([]), this.movieAxes());
+      }
+      this.emit('moviePlaybackStarted', movie.header);
+
+      let result: MoviePlaybackResult;
+      try {
+        result = await this.runMoviePlayback(playback, options.speed ?? 1);
+      } finally {
+        this.moviePlayback = null;
+        for (const input of this.portInputs.values()) {
+          this.applyPortInput(input.port, input.controls, input.axes);
+        }
+      }
+
+      this.emit('moviePlaybackFinished', result);
+      return result;
+    } catch (error) {
+      console.error('Failed to play movie:', error);
+      this.emit('error', error);
+      return null;
+    }
+  }
+
+  public stopMoviePlayback(): void {
+    if (this.moviePlayback) {
+      this.moviePlayback.stopRequested = true;
+    }
+  }
+
+  public getMovieStatus(): MovieStatus {
+    if (this.moviePlayback) {
+      return {
+        mode: 'playing',
+        frame: this.moviePlayback.frame,
+        frameCount: this.moviePlayback.movie.header.frameCount
+      };
+    }
+    if (this.movieRecorder) {
+      const frameCount = this.movieRecorder.getFrameCount();
+      return { mode: 'recording', frame: frameCount, frameCount };
+    }
+    return { mode: 'idle', frame: 0, frameCount: 0 };
+  }
+
+  // Netplay
+  // NetplaySession steps frames itself and decides what every port sees on each of them
+  public setInputOverride(enabled: boolean): void {
+    this.inputOverride = enabled;
+    if (!enabled) {
+      for (const input of this.portInputs.values()) {
+        this.applyPortInput(input.port, input.controls, input.axes);
+      }
+    }
+  }
+
+  public setPortControls(port: number, controls: GameControls): void {
+    this.applyPortInput(port, controls, {});
+  }
+
+  public async getStateSnapshot(): Promise<Uint8Array> {
+    if (!this.supportsStateContainers()) {
+      throw new Error('Emulation module does not expose raw state');
+    }
+    return base64Decode(await this.nativeModule.getStateData());
+  }
+
+  public async restoreStateSnapshot(state: Uint8Array): Promise<boolean> {
+    if (!this.supportsStateContainers()) {
+      throw new Error('Emulation module does not expose raw state');
+    }
+    return await this.nativeModule.setStateData(base64Encode(state));
+  }
+
+  public async getCoreInfo(): Promise<{ id: string; version: string } | null> {
+    return this.nativeModule.getCoreInfo ? await this.nativeModule.getCoreInfo() : null;
+  }
+
+  public getFrameRate(): number {
+    return this.frameRate;
+  }
+
   // Control Management
-  public updateControls(controls: Partial<GameControls>): void {
-    this.controls = { ...this.controls, ...controls };
-    this.nativeModule.setControls(this.controls);
-    this.emit('controlsUpdated', this.controls);
+  // Physical input goes through the InputMapper; these press buttons on a port directly
+  public updateControls(controls: Partial<GameControls>, port: number = 0): void {
+    for (const [button, pressed] of Object.entries(controls)) {
+      this.setControl(button, !!pressed, port);
+    }
   }
 
-  public setControl(button: string, pressed: boolean): void {
-    if (this.controls.hasOwnProperty(button)) {
-      this.controls[button] = pressed;
-      this.nativeModule.setControls(this.controls);
-      this.emit('controlChanged', { button, pressed });
+  public setControl(button: string, pressed: boolean, port: number = 0): boolean {
+    if (!this.inputMapper.pressButton(port, button, pressed)) {
+      console.warn(`Unknown button "${button}" for the current platform`);
+      return false;
     }
+    this.emit('controlChanged', { button, pressed, port });
+    return true;
+  }
+
+  public getInputMapper(): InputMapper {
+    return this.inputMapper;
   }
 
   // Configuration Management
-  public updateConfig(config: Partial<EmulationConfig>): void {
+  public async updateConfig(config: Partial<EmulationConfig>): Promise<void> {
     this.config = { ...this.config, ...config };
+    this.inputMapper.setTurboEnabled(this.config.turboMode);
+    if (!this.config.rewindEnabled) {
+      await this.cancelRewind();
+    }
+    this.configureRewind();
     this.nativeModule.setConfig(this.config);
     this.emit('configUpdated', this.config);
   }
@@ -401,9 +936,9 @@ export class GameEmulationEngine extends EventEmitter {
   }
 
   // Performance Monitoring
-  public async getPerformanceMetrics(): Promise<any> {
+  public async getPerformanceMetrics(): Promise<EmulationPerformanceMetrics | null> {
     try {
-      const metrics = await this.nativeModule.getPerformanceMetrics();
+      const metrics: EmulationPerformanceMetrics = await this.nativeModule.getPerformanceMetrics();
       this.performanceMetrics = metrics;
       this.emit('performanceUpdated', metrics);
       return metrics;
@@ -418,6 +953,12 @@ export class GameEmulationEngine extends EventEmitter {
   private handleFrameUpdate(data: any) {
     this.emulationState.currentFrame = data.frame;
     this.emulationState.fps = data.fps;
+    if (!this.inputOverride) {
+      this.captureRewindSnapshot(data.frame);
+    }
+    this.captureMovieCheckpoint(data.frame);
+    // Skipped frames are still emulated, so turbo keeps its rate under frame skip
+    this.inputMapper.tick(data.frame);
     this.emit('frameUpdate', data);
   }
 
@@ -435,11 +976,264 @@ export class GameEmulationEngine extends EventEmitter {
     this.emit('error', error);
   }
 
-  private handlePerformanceUpdate(data: any) {
+  private handlePerformanceUpdate(data: EmulationPerformanceMetrics) {
     this.performanceMetrics = data;
     this.emit('performanceUpdate', data);
   }
 
+  private handlePortInput(input: PortInput) {
+    this.portInputs.set(input.port, input);
+    if (input.port === 0) {
+      this.controls = input.controls;
+      this.emit('controlsUpdated', this.controls);
+    }
+
+    // Live input stays latched but does not reach the core while a movie or netplay drives it
+    if (this.moviePlayback || this.inputOverride) {
+      return;
+    }
+
+    this.movieRecorder?.recordInput(
+      this.emulationState.currentFrame - this.movieStartFrame,
+      input.port,
+      input.controls,
+      input.axes
+    );
+    this.applyPortInput(input.port, input.controls, input.axes);
+  }
+
+  private applyPortInput(port: number, controls: GameControls, axes: PortInput['axes']) {
+    this.nativeModule.setControls(controls, port);
+    if (this.nativeModule.setAxes && Object.keys(axes).length > 0) {
+      this.nativeModule.setAxes(axes, port);
+    }
+  }
+
+  // Movies leave centered axes out, so playback sends every axis of the platform, centering the rest
+  private movieAxes(axes: PortInput['axes'] = {}): PortInput['axes'] {
+    const centered: PortInput['axes'] = {};
+    for (const axis of this.inputMapper.getLayout().axes) {
+      centered[axis.id] = { x: 0, y: 0 };
+    }
+    return { ...centered, ...axes };
+  }
+
+  private captureMovieCheckpoint(frame: number): void {
+    const recorder = this.movieRecorder;
+    if (!recorder) {
+      return;
+    }
+
+    const relativeFrame = frame - this.movieStartFrame;
+    recorder.advanceTo(relativeFrame);
+    if (!recorder.isCheckpointFrame(relativeFrame)) {
+      return;
+    }
+
+    // Requested synchronously so the state matches the frame even if the bridge answers late
+    const state: Promise<string> = this.nativeModule.getStateData();
+    this.movieCheckpoints = this.movieCheckpoints
+      .then(async () => recorder.recordCheckpoint(relativeFrame, base64Decode(await state)))
+      .catch(error => console.warn('Movie checkpoint failed:', error));
+  }
+
+  private async runMoviePlayback(playback: MoviePlayback, speed: number): Promise<MoviePlaybackResult> {
+    const { movie } = playback;
+    const eventsByFrame = new Map<number, InputMovie['events']>();
+    for (const event of movie.events) {
+      eventsByFrame.set(event.frame, [...(eventsByFrame.get(event.frame) ?? []), event]);
+    }
+    const checkpoints = new Map<number, MovieCheckpoint>(movie.checkpoints.map(checkpoint => [checkpoint.frame, checkpoint]));
+    const desyncs: MovieDesync[] = [];
+    const frameDuration = speed > 0 ? 1000 / (this.frameRate * speed) : 0;
+    const started = Date.now();
+
+    while (playback.frame < movie.header.frameCount && !playback.stopRequested) {
+      for (const event of eventsByFrame.get(playback.frame) ?? []) {
+        this.applyPortInput(event.port, controlsFromButtons(event.buttons), this.movieAxes(event.axes));
+      }
+
+      await this.nativeModule.stepFrames(1);
+      playback.frame++;
+
+      const checkpoint = checkpoints.get(playback.frame);
+      if (checkpoint) {
+        const actual = sha1Hex(base64Decode(await this.nativeModule.getStateData()));
+        if (actual !== checkpoint.sha1) {
+          const desync: MovieDesync = { frame: playback.frame, expected: checkpoint.sha1, actual };
+          desyncs.push(desync);
+          this.emit('movieDesync', desync);
+        }
+      }
+
+      if (frameDuration > 0) {
+        const wait = started + playback.frame * frameDuration - Date.now();
+        await new Promise(resolve => setTimeout(resolve, Math.max(0, wait)));
+      } else if (playback.frame % MOVIE_YIELD_INTERVAL === 0) {
+        await new Promise(resolve => setTimeout(resolve, 0));
+      }
+    }
+
+    return {
+      frames: playback.frame,
+      completed: playback.frame >= movie.header.frameCount,
+      desyncs
+    };
+  }
+
+  // Anything that replaces the emulator state invalidates a recording in progress
+  private interruptMovie(reason: string): void {
+    if (this.movieRecorder) {
+      this.movieRecorder = null;
+      this.emit('movieRecordingAborted', reason);
+    }
+    if (this.moviePlayback) {
+      this.moviePlayback.stopRequested = true;
+    }
+  }
+
+  private getRewindLimits(): { maxSnapshots: number; maxBytes: number } {
+    const interval = Math.max(1, this.config.rewindInterval);
+    return {
+      maxSnapshots: Math.ceil((this.config.rewindDuration * this.frameRate) / interval),
+      maxBytes: Math.min(this.config.rewindMemoryLimit, PerformanceEngine.getInstance().getConfig().memoryLimit)
+    };
+  }
+
+  private configureRewind(): void {
+    this.rewindBuffer.configure(this.getRewindLimits());
+  }
+
+  // getStateData is requested synchronously so snapshots keep frame order even when the bridge is slow
+  private captureRewindSnapshot(frame: number): void {
+    if (
+      !this.config.rewindEnabled ||
+      this.rewindCursor !== null ||
+      !this.supportsStateContainers() ||
+      frame % Math.max(1, this.config.rewindInterval) !== 0 ||
+      this.pendingRewindCaptures >= MAX_PENDING_REWIND_CAPTURES
+    ) {
+      return;
+    }
+
+    this.pendingRewindCaptures++;
+    this.nativeModule.getStateData()
+      .then((state: string) => {
+        if (this.config.rewindEnabled && this.rewindCursor === null) {
+          this.rewindBuffer.push(frame, base64Decode(state));
+        }
+      })
+      .catch((error: any) => console.warn('Rewind snapshot failed:', error))
+      .finally(() => {
+        this.pendingRewindCaptures--;
+      });
+  }
+
+  private async beginRewind(): Promise<boolean> {
+    if (this.rewindCursor !== null) {
+      return true;
+    }
+    if (!this.config.rewindEnabled || !this.supportsStateContainers()) {
+      throw new Error('Rewind is not enabled or not supported by the emulation module');
+    }
+    if (this.rewindBuffer.getLength() === 0) {
+      return false;
+    }
+    this.interruptMovie('rewind');
+
+    this.resumeAfterRewind = this.emulationState.isRunning && !this.emulationState.isPaused;
+    if (this.resumeAfterRewind) {
+      await this.nativeModule.pauseEmulation();
+    }
+
+    this.rewindCursor = this.rewindBuffer.getLength() - 1;
+    this.emulationState.isRewinding = true;
+    this.emit('rewindStarted', this.getRewindPosition());
+    return true;
+  }
+
+  private async endRewind(): Promise<void> {
+    const position = this.getRewindPosition();
+    this.rewindCursor = null;
+    this.emulationState.isRewinding = false;
+    this.emit('rewindStopped', position);
+
+    if (this.resumeAfterRewind) {
+      this.resumeAfterRewind = false;
+      await this.nativeModule.startEmulation();
+    }
+  }
+
+  // Loading a game or state invalidates the history
+  private async cancelRewind(): Promise<void> {
+    this.stopRewindTimer();
+    if (this.rewindCursor !== null) {
+      this.resumeAfterRewind = false;
+      await this.endRewind();
+    }
+    this.rewindBuffer.clear();
+  }
+
+  private stopRewindTimer(): void {
+    if (this.rewindTimer) {
+      clearInterval(this.rewindTimer);
+      this.rewindTimer = null;
+    }
+  }
+
+  // Power-on state for movies: reloading resets the core and the frame counter. The module reports
+  // the reload as stopped, but to the player the game keeps running or stays paused as it was
+  private async restartRom(rom: GameRom): Promise<void> {
+    const { isRunning, isPaused } = this.emulationState;
+    await this.nativeModule.loadRom(rom.filePath);
+    this.emulationState = { ...this.emulationState, isRunning, isPaused, currentFrame: 0 };
+    for (const input of this.portInputs.values()) {
+      this.applyPortInput(input.port, input.controls, input.axes);
+    }
+    if (isRunning && !isPaused) {
+      await this.nativeModule.startEmulation();
+    }
+  }
+
+  private supportsStateContainers(): boolean {
+    return !!(this.nativeModule.getStateData && this.nativeModule.setStateData && this.nativeModule.getCoreInfo);
+  }
+
+  private requireCurrentGame(): GameRom {
+    if (!this.currentGame) {
+      throw new Error('No game loaded');
+    }
+    return this.currentGame;
+  }
+
+  private async hasSaveStates(): Promise<boolean> {
+    try {
+      return (await this.listSaveStates()).length > 0;
+    } catch (error) {
+      return false;
+    }
+  }
+
+  // Screenshots arrive as data: URLs from the reference module and file paths from native code
+  private async readScreenshot(screenshot: string): Promise<Uint8Array | null> {
+    if (!screenshot) {
+      return null;
+    }
+
+    try {
+      if (screenshot.startsWith('data:')) {
+        return base64Decode(screenshot.slice(screenshot.indexOf(',') + 1));
+      }
+      if (!this.fileSystem) {
+        this.fileSystem = new ReactNativeFileSystem();
+      }
+      return await this.fileSystem.readFile(screenshot);
+    } catch (error) {
+      console.warn('Save state thumbnail unavailable:', error);
+      return null;
+    }
+  }
+
   // Getters
   public getCurrentGame(): GameRom | null {
     return this.currentGame;
@@ -457,12 +1251,16 @@ export class GameEmulationEngine extends EventEmitter {
     return { ...this.config };
   }
 
-  public getPerformanceMetrics(): any {
+  // Last metrics reported, without asking the native module. The original API declared this under
+  // the getPerformanceMetrics name too, where the async fetch above shadowed it
+  public getLastPerformanceMetrics(): EmulationPerformanceMetrics | null {
     return this.performanceMetrics;
   }
 
   // Cleanup
   public destroy(): void {
+    this.stopRewindTimer();
+    PerformanceEngine.getInstance().off('configUpdated', this.handlePerformanceConfig);
     this.removeAllListeners();
     if (this.nativeModule && this.nativeModule.removeAllListeners) {
       this.nativeModule.removeAllListeners();
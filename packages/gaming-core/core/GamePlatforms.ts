@@ -0,0 +1,198 @@
+// 3kMLV Arcade - Platform Definitions
+// Known systems with the file extensions and header magic used to recognize their ROMs
+
+import type { GamePlatform } from './GameEmulationEngine';
+import { CHIP8_PLATFORM } from './Chip8Core';
+
+export interface PlatformDefinition {
+  platform: GamePlatform;
+  // Returns true when the first HEADER_PROBE_SIZE bytes carry this platform's magic
+  matchesHeader?: (header: Uint8Array) => boolean;
+  // Bytes to skip before hashing, so checksums match headerless No-Intro DAT entries
+  headerLength?: (header: Uint8Array, fileSize: number) => number;
+}
+
+export const HEADER_PROBE_SIZE = 0x200;
+
+function bytesAt(header: Uint8Array, offset: number, expected: number[]): boolean {
+  return expected.every((value, index) => header[offset + index] === value);
+}
+
+function asciiAt(header: Uint8Array, offset: number, expected: string): boolean {
+  return bytesAt(header, offset, Array.from(expected, character => character.charCodeAt(0)));
+}
+
+// First bytes of the Nintendo logo; the GBA and DS copies share a different bitmap
+const GB_LOGO = [0xce, 0xed, 0x66, 0x66, 0xcc, 0x0d, 0x00, 0x0b];
+const GBA_LOGO = [0x24, 0xff, 0xae, 0x51, 0x69, 0x9a, 0xa2, 0x21];
+
+const isNesHeader = (header: Uint8Array) => bytesAt(header, 0, [0x4e, 0x45, 0x53, 0x1a]);
+const isGameBoyHeader = (header: Uint8Array) => bytesAt(header, 0x104, GB_LOGO);
+const isColorFlag = (header: Uint8Array) => header[0x143] === 0x80 || header[0x143] === 0xc0;
+
+export const PLATFORM_DEFINITIONS: PlatformDefinition[] = [
+  {
+    platform: CHIP8_PLATFORM
+  },
+  {
+    platform: {
+      id: 'nes',
+      name: 'Nintendo Entertainment System',
+      manufacturer: 'Nintendo',
+      year: 1983,
+      cpu: 'Ricoh 2A03 (6502) @ 1.79MHz',
+      memory: '2KB RAM',
+      graphics: 'Ricoh 2C02 PPU',
+      sound: '5-channel APU',
+      supportedFormats: ['.nes', '.unf', '.unif']
+    },
+    matchesHeader: isNesHeader,
+    headerLength: header => (isNesHeader(header) ? 16 : 0)
+  },
+  {
+    platform: {
+      id: 'snes',
+      name: 'Super Nintendo Entertainment System',
+      manufacturer: 'Nintendo',
+      year: 1990,
+      cpu: 'Ricoh 5A22 (65C816) @ 3.58MHz',
+      memory: '128KB RAM',
+      graphics: 'S-PPU1/S-PPU2',
+      sound: 'Sony SPC700 + S-DSP',
+      supportedFormats: ['.sfc', '.smc', '.swc', '.fig']
+    },
+    // Copier dumps carry a 512-byte header that makes the size odd by 512
+    headerLength: (_header, fileSize) => (fileSize % 1024 === 512 ? 512 : 0)
+  },
+  {
+    platform: {
+      id: 'gb',
+      name: 'Game Boy',
+      manufacturer: 'Nintendo',
+      year: 1989,
+      cpu: 'Sharp LR35902 @ 4.19MHz',
+      memory: '8KB RAM',
+      graphics: '160x144, 4 shades',
+      sound: '4-channel APU',
+      supportedFormats: ['.gb']
+    },
+    matchesHeader: header => isGameBoyHeader(header) && !isColorFlag(header)
+  },
+  {
+    platform: {
+      id: 'gbc',
+      name: 'Game Boy Color',
+      manufacturer: 'Nintendo',
+      year: 1998,
+      cpu: 'Sharp LR35902 @ 8.39MHz',
+      memory: '32KB RAM',
+      graphics: '160x144, 32768 colors',
+      sound: '4-channel APU',
+      supportedFormats: ['.gbc', '.cgb']
+    },
+    matchesHeader: header => isGameBoyHeader(header) && isColorFlag(header)
+  },
+  {
+    platform: {
+      id: 'gba',
+      name: 'Game Boy Advance',
+      manufacturer: 'Nintendo',
+      year: 2001,
+      cpu: 'ARM7TDMI @ 16.78MHz',
+      memory: '288KB RAM',
+      graphics: '240x160, 32768 colors',
+      sound: '4-channel APU + 2 DMA channels',
+      supportedFormats: ['.gba', '.agb']
+    },
+    matchesHeader: header => bytesAt(header, 0x04, GBA_LOGO) && header[0xb2] === 0x96
+  },
+  {
+    platform: {
+      id: 'nds',
+      name: 'Nintendo DS',
+      manufacturer: 'Nintendo',
+      year: 2004,
+      cpu: 'ARM946E-S @ 67MHz + ARM7TDMI @ 33MHz',
+      memory: '4MB RAM',
+      graphics: 'Dual 256x192 screens, 3D engine',
+      sound: '16-channel ADPCM/PCM',
+      supportedFormats: ['.nds', '.dsi']
+    },
+    matchesHeader: header => bytesAt(header, 0xc0, GBA_LOGO)
+  },
+  {
+    platform: {
+      id: 'genesis',
+      name: 'Sega Genesis / Mega Drive',
+      manufacturer: 'Sega',
+      year: 1988,
+      cpu: 'Motorola 68000 @ 7.67MHz + Z80',
+      memory: '64KB RAM',
+      graphics: 'Yamaha YM7101 VDP',
+      sound: 'Yamaha YM2612 + SN76489',
+      supportedFormats: ['.md', '.gen', '.smd', '.bin']
+    },
+    matchesHeader: header => asciiAt(header, 0x100, 'SEGA') || asciiAt(header, 0x101, 'SEGA')
+  },
+  {
+    platform: {
+      id: 'n64',
+      name: 'Nintendo 64',
+      manufacturer: 'Nintendo',
+      year: 1996,
+      cpu: 'NEC VR4300 @ 93.75MHz',
+      memory: '4MB RDRAM',
+      graphics: 'SGI Reality Coprocessor',
+      sound: 'RCP audio',
+      supportedFormats: ['.z64', '.n64', '.v64']
+    },
+    // Big-endian, byte-swapped and little-endian dumps respectively
+    matchesHeader: header =>
+      bytesAt(header, 0, [0x80, 0x37, 0x12, 0x40]) ||
+      bytesAt(header, 0, [0x37, 0x80, 0x40, 0x12]) ||
+      bytesAt(header, 0, [0x40, 0x12, 0x37, 0x80])
+  },
+  {
+    platform: {
+      id: 'psx',
+      name: 'PlayStation',
+      manufacturer: 'Sony',
+      year: 1994,
+      cpu: 'MIPS R3000A @ 33.87MHz',
+      memory: '2MB RAM',
+      graphics: 'Sony GPU',
+      sound: 'Sony SPU, 24 channels',
+      supportedFormats: ['.cue', '.bin', '.iso', '.chd', '.pbp']
+    }
+  }
+];
+
+export function getPlatformById(id: string): GamePlatform | null {
+  return PLATFORM_DEFINITIONS.find(definition => definition.platform.id === id)?.platform ?? null;
+}
+
+export interface PlatformMatch {
+  definition: PlatformDefinition;
+  detectedBy: 'header' | 'extension';
+}
+
+// Header magic wins over extension, so renamed or mislabeled dumps still land on the right system
+export function detectPlatform(extension: string, header: Uint8Array): PlatformMatch | null {
+  const headerMatches = PLATFORM_DEFINITIONS.filter(definition => definition.matchesHeader?.(header));
+  const byHeaderAndExtension = headerMatches.find(definition =>
+    definition.platform.supportedFormats.includes(extension)
+  );
+  const byHeader = byHeaderAndExtension ?? headerMatches[0];
+  if (byHeader) {
+    return { definition: byHeader, detectedBy: 'header' };
+  }
+
+  const byExtension = PLATFORM_DEFINITIONS.filter(definition =>
+    definition.platform.supportedFormats.includes(extension)
+  );
+  // Shared extensions like .bin are only trusted for systems without header magic
+  const best = byExtension.length > 1
+    ? byExtension.find(definition => !definition.matchesHeader)
+    : byExtension[0];
+  return best ? { definition: best, detectedBy: 'extension' } : null;
+}
@@ -0,0 +1,85 @@
+// 3kMLV Arcade - Image Utilities
+// PNG encoding for framebuffers produced by TypeScript emulator cores
+
+import { deflate } from 'pako';
+import { base64Encode, concatBytes, crc32 } from './BinaryUtils';
+
+const PNG_SIGNATURE = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+function writeUint32(target: Uint8Array, offset: number, value: number): void {
+  target[offset] = (value >>> 24) & 0xff;
+  target[offset + 1] = (value >>> 16) & 0xff;
+  target[offset + 2] = (value >>> 8) & 0xff;
+  target[offset + 3] = value & 0xff;
+}
+
+function createChunk(type: string, data: Uint8Array): Uint8Array {
+  const chunk = new Uint8Array(12 + data.length);
+  writeUint32(chunk, 0, data.length);
+
+  for (let i = 0; i < 4; i++) {
+    chunk[4 + i] = type.charCodeAt(i);
+  }
+
+  chunk.set(data, 8);
+  writeUint32(chunk, 8 + data.length, crc32(chunk.subarray(4, 8 + data.length)));
+  return chunk;
+}
+
+// Encodes an RGBA framebuffer (4 bytes per pixel, row-major) as a PNG file
+export function encodePng(width: number, height: number, rgba: Uint8Array): Uint8Array {
+  if (rgba.length !== width * height * 4) {
+    throw new Error(`Framebuffer size ${rgba.length} does not match ${width}x${height} RGBA`);
+  }
+
+  const header = new Uint8Array(13);
+  writeUint32(header, 0, width);
+  writeUint32(header, 4, height);
+  header[8] = 8; // bit depth
+  header[9] = 6; // color type: RGBA
+  header[10] = 0; // compression
+  header[11] = 0; // filter
+  header[12] = 0; // interlace
+
+  // Every scanline is prefixed with filter type 0 (none)
+  const stride = width * 4;
+  const raw = new Uint8Array((stride + 1) * height);
+  for (let y = 0; y < height; y++) {
+    raw.set(rgba.subarray(y * stride, (y + 1) * stride), y * (stride + 1) + 1);
+  }
+
+  return concatBytes([
+    PNG_SIGNATURE,
+    createChunk('IHDR', header),
+    createChunk('IDAT', deflate(raw)),
+    createChunk('IEND', new Uint8Array(0))
+  ]);
+}
+
+// Nearest-neighbour upscale so tiny framebuffers (e.g. 64x32) are viewable
+export function scaleFramebuffer(width: number, height: number, rgba: Uint8Array, scale: number): Uint8Array {
+  if (scale <= 1) {
+    return rgba;
+  }
+
+  const scaledWidth = width * scale;
+  const output = new Uint8Array(scaledWidth * height * scale * 4);
+
+  for (let y = 0; y < height * scale; y++) {
+    const sourceRow = Math.floor(y / scale) * width;
+    for (let x = 0; x < scaledWidth; x++) {
+      const source = (sourceRow + Math.floor(x / scale)) * 4;
+      const target = (y * scaledWidth + x) * 4;
+      output[target] = rgba[source]!;
+      output[target + 1] = rgba[source + 1]!;
+      output[target + 2] = rgba[source + 2]!;
+      output[target + 3] = rgba[source + 3]!;
+    }
+  }
+
+  return output;
+}
+
+export function pngDataUrl(png: Uint8Array): string {
+  return `data:image/png;base64,${base64Encode(png)}`;
+}
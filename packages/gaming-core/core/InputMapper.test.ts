@@ -0,0 +1,262 @@
+import { GamepadSnapshot, InputMapper, PortInput, getInputLayout } from './InputMapper';
+import type { GamePlatform } from './GameEmulationEngine';
+import { CHIP8_PLATFORM } from './Chip8Core';
+import { getPlatformById } from './GamePlatforms';
+import { MemoryStorage } from './Storage';
+
+const platform = (id: string): GamePlatform => getPlatformById(id) ?? CHIP8_PLATFORM;
+
+// A standard-mapping pad with the given buttons held and stick positions
+const gamepad = (index: number, pressed: number[] = [], axes: number[] = [0, 0, 0, 0]): GamepadSnapshot => ({
+  index,
+  id: 'Test Pad',
+  buttons: Array.from({ length: 16 }, (_, button) => ({ pressed: pressed.includes(button), value: pressed.includes(button) ? 1 : 0 })),
+  axes
+});
+
+const pressedButtons = (input: PortInput) =>
+  Object.entries(input.controls).filter(([, pressed]) => pressed).map(([button]) => button);
+
+describe('InputMapper', () => {
+  let storage: MemoryStorage;
+  let mapper: InputMapper;
+
+  beforeEach(() => {
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    storage = new MemoryStorage();
+    mapper = new InputMapper({ storage });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('layouts', () => {
+    it('gives each platform its own buttons and sticks', () => {
+      const ids = (id: string) => getInputLayout(platform(id)).buttons.map(button => button.id);
+
+      expect(ids('nes')).toEqual(['up', 'down', 'left', 'right', 'a', 'b', 'start', 'select']);
+      expect(ids('genesis')).toEqual(expect.arrayContaining(['c', 'z', 'mode']));
+      expect(ids('psx')).toEqual(expect.arrayContaining(['cross', 'circle', 'l3', 'r3']));
+      expect(ids('chip8')).toEqual(expect.arrayContaining(['key0', 'key9', 'keyF']));
+      expect(getInputLayout(platform('n64')).axes.map(axis => axis.id)).toEqual(['stick']);
+      expect(getInputLayout(platform('psx')).axes.map(axis => axis.id)).toEqual(['leftStick', 'rightStick']);
+      // Unknown platforms fall back to the DS-style button set
+      expect(getInputLayout({ ...platform('nes'), id: 'vectrex' }).buttons.map(button => button.id))
+        .toEqual(expect.arrayContaining(['x', 'y', 'l', 'r']));
+    });
+
+    it('maps the default keyboard and gamepad bindings', async () => {
+      await mapper.loadProfile(platform('snes'));
+
+      mapper.handleKey('KeyX', true);
+      mapper.pollGamepads([gamepad(0, [0, 9])]);
+
+      // Nintendo layout by position: south is B
+      expect(pressedButtons(mapper.getPortInput(0))).toEqual(['a', 'b', 'start']);
+    });
+
+    it('lays the CHIP-8 keypad over the left of the keyboard', async () => {
+      await mapper.loadProfile(CHIP8_PLATFORM);
+
+      mapper.handleKey('KeyW', true);
+      mapper.handleKey('KeyV', true);
+
+      expect(pressedButtons(mapper.getPortInput(0))).toEqual(['key5', 'keyF']);
+    });
+
+    it('drives a digital d-pad from the left stick and the on-screen joystick', async () => {
+      await mapper.loadProfile(platform('nes'));
+
+      mapper.pollGamepads([gamepad(0, [], [0.9, -0.8])]);
+      mapper.handleTouch('joystick:down', true);
+
+      expect(pressedButtons(mapper.getPortInput(0))).toEqual(['up', 'down', 'right']);
+    });
+
+    it('scales analog sticks outside the deadzone', async () => {
+      await mapper.loadProfile(platform('n64'));
+
+      mapper.pollGamepads([gamepad(0, [], [0.1, 0, 0, -1])]);
+      expect(mapper.getPortInput(0).axes.stick).toEqual({ x: 0, y: 0 });
+      // The right stick is bound to the C buttons
+      expect(pressedButtons(mapper.getPortInput(0))).toEqual(['cUp']);
+
+      mapper.pollGamepads([gamepad(0, [], [1, 0])]);
+      expect(mapper.getPortInput(0).axes.stick).toEqual({ x: 1, y: 0 });
+    });
+  });
+
+  describe('ports', () => {
+    it('routes gamepads to their own port unless assigned elsewhere', async () => {
+      await mapper.loadProfile(platform('nes'));
+
+      mapper.pollGamepads([gamepad(0, [9]), gamepad(1, [1])]);
+      expect(pressedButtons(mapper.getPortInput(0))).toEqual(['start']);
+      expect(pressedButtons(mapper.getPortInput(1))).toEqual(['a']);
+
+      mapper.assignDevice('gamepad:1', 0);
+      expect(pressedButtons(mapper.getPortInput(0))).toEqual(['a', 'start']);
+      expect(pressedButtons(mapper.getPortInput(1))).toEqual([]);
+    });
+
+    it('emits portChanged only when the resolved input changes', async () => {
+      await mapper.loadProfile(platform('nes'));
+      const changes: PortInput[] = [];
+      mapper.on('portChanged', input => changes.push(input));
+
+      mapper.handleKey('KeyX', true);
+      mapper.handleKey('KeyX', true);
+      mapper.handleKey('F12', true);
+      mapper.handleKey('KeyX', false);
+
+      expect(changes.map(pressedButtons)).toEqual([['a'], []]);
+    });
+
+    it('reports gamepads connecting and disconnecting', async () => {
+      const connected = jest.fn();
+      const disconnected = jest.fn();
+      mapper.on('deviceConnected', connected);
+      mapper.on('deviceDisconnected', disconnected);
+
+      mapper.pollGamepads([null, gamepad(1)]);
+      mapper.pollGamepads([gamepad(1)]);
+      mapper.pollGamepads([]);
+
+      expect(connected).toHaveBeenCalledTimes(1);
+      expect(connected).toHaveBeenCalledWith({ deviceId: 'gamepad:1', name: 'Test Pad', port: 1 });
+      expect(disconnected).toHaveBeenCalledWith({ deviceId: 'gamepad:1' });
+      expect(mapper.getConnectedDevices()).toEqual([]);
+    });
+  });
+
+  describe('remapping', () => {
+    it('moves a key to a new button, replacing its old binding', async () => {
+      await mapper.loadProfile(platform('nes'), 'rom-a');
+
+      expect(await mapper.bindButton({ source: 'keyboard', code: 'KeyZ', button: 'a' })).toBe(true);
+      mapper.handleKey('KeyZ', true);
+
+      expect(pressedButtons(mapper.getPortInput(0))).toEqual(['a']);
+    });
+
+    it('rejects buttons and axes the platform does not have', async () => {
+      await mapper.loadProfile(platform('nes'), 'rom-a');
+      const errors = jest.fn();
+      mapper.on('error', errors);
+
+      expect(await mapper.bindButton({ source: 'keyboard', code: 'KeyC', button: 'c' })).toBe(false);
+      expect(await mapper.bindAxis({ source: 'gamepad', code: 'stick:1', axis: 'stick' })).toBe(false);
+      expect(errors).toHaveBeenCalledTimes(2);
+    });
+
+    it('unbinds an input from buttons and axes', async () => {
+      await mapper.loadProfile(platform('n64'), 'rom-a');
+
+      await mapper.unbindInput({ source: 'gamepad', code: 'stick:0' });
+      mapper.pollGamepads([gamepad(0, [], [1, 0])]);
+
+      expect(mapper.getPortInput(0).axes.stick).toEqual({ x: 0, y: 0 });
+      expect(mapper.getProfile().axes).toEqual([{ source: 'touch', code: 'joystick', axis: 'stick' }]);
+    });
+
+    it('resolves waitForInput with the next press, including stick directions', async () => {
+      await mapper.loadProfile(platform('nes'));
+
+      const key = mapper.waitForInput();
+      mapper.handleKey('KeyP', true);
+      expect(await key).toEqual({ source: 'keyboard', code: 'KeyP' });
+
+      const stick = mapper.waitForInput();
+      mapper.pollGamepads([gamepad(0, [], [-1, 0])]);
+      expect(await stick).toEqual({ source: 'gamepad', code: 'stick:0:left' });
+
+      expect(await mapper.waitForInput(1)).toBeNull();
+    });
+  });
+
+  describe('profiles', () => {
+    it('prefers the game profile over the platform profile', async () => {
+      await mapper.loadProfile(platform('nes'), 'rom-a');
+      await mapper.bindButton({ source: 'keyboard', code: 'KeyS', button: 'b' }, 'game');
+      await mapper.bindButton({ source: 'keyboard', code: 'KeyA', button: 'b' }, 'platform');
+
+      // Platform edits wait behind the game's own profile
+      mapper.handleKey('KeyA', true);
+      mapper.handleKey('KeyS', true);
+      expect(pressedButtons(mapper.getPortInput(0))).toEqual(['b']);
+      mapper.handleKey('KeyS', false);
+      expect(pressedButtons(mapper.getPortInput(0))).toEqual([]);
+
+      // Another game of the same platform picks up the platform profile
+      await mapper.loadProfile(platform('nes'), 'rom-b');
+      expect(pressedButtons(mapper.getPortInput(0))).toEqual(['b']);
+    });
+
+    it('keeps profiles across restarts', async () => {
+      await mapper.loadProfile(platform('nes'), 'rom-a');
+      await mapper.bindButton({ source: 'keyboard', code: 'KeyQ', button: 'select', turbo: true });
+      await mapper.setProfileOptions({ deadzone: 2, turboRate: 3.4 });
+
+      const restarted = new InputMapper({ storage });
+      const profile = await restarted.loadProfile(platform('nes'), 'rom-a');
+
+      expect(profile.buttons).toContainEqual({ source: 'keyboard', code: 'KeyQ', button: 'select', turbo: true });
+      expect([profile.deadzone, profile.turboRate]).toEqual([0.95, 3]);
+    });
+
+    it('falls back to the platform profile and then the defaults on reset', async () => {
+      await mapper.loadProfile(platform('nes'), 'rom-a');
+      const defaults = mapper.getProfile();
+      await mapper.bindButton({ source: 'keyboard', code: 'KeyA', button: 'b' }, 'platform');
+      await mapper.bindButton({ source: 'keyboard', code: 'KeyS', button: 'b' }, 'game');
+
+      await mapper.resetProfile('game');
+      expect(mapper.getProfile().buttons).toContainEqual({ source: 'keyboard', code: 'KeyA', button: 'b' });
+      expect(mapper.getProfile().buttons).not.toContainEqual(expect.objectContaining({ code: 'KeyS' }));
+
+      await mapper.resetProfile('platform');
+      expect(mapper.getProfile()).toEqual(defaults);
+    });
+
+    it('drops stored bindings to buttons the layout no longer has', async () => {
+      await storage.setItem('@mlvarcade:inputProfiles:platform:nes', JSON.stringify({
+        platformId: 'nes',
+        buttons: [{ source: 'keyboard', code: 'KeyC', button: 'c' }, { source: 'keyboard', code: 'KeyX', button: 'a' }],
+        axes: [{ source: 'gamepad', code: 'stick:0', axis: 'stick' }]
+      }));
+
+      const profile = await mapper.loadProfile(platform('nes'));
+
+      expect(profile).toEqual({
+        platformId: 'nes',
+        buttons: [{ source: 'keyboard', code: 'KeyX', button: 'a' }],
+        axes: [],
+        deadzone: 0.15,
+        turboRate: 2
+      });
+    });
+  });
+
+  describe('turbo', () => {
+    it('pulses turbo bindings every turboRate frames while held', async () => {
+      await mapper.loadProfile(platform('nes'), 'rom-a');
+      await mapper.bindButton({ source: 'keyboard', code: 'KeyX', button: 'a', turbo: true });
+      mapper.setTurboEnabled(true);
+      mapper.handleKey('KeyX', true);
+      mapper.handleKey('KeyZ', true);
+
+      const held = [];
+      for (let frame = 1; frame <= 8; frame++) {
+        mapper.tick(frame);
+        held.push(pressedButtons(mapper.getPortInput(0)).join('+'));
+      }
+
+      // Plain bindings stay held
+      expect(held).toEqual(['a+b', 'b', 'b', 'a+b', 'a+b', 'b', 'b', 'a+b']);
+
+      mapper.setTurboEnabled(false);
+      expect(pressedButtons(mapper.getPortInput(0))).toEqual(['a', 'b']);
+    });
+  });
+});
@@ -0,0 +1,753 @@
+// 3kMLV Arcade - Input Mapper
+// Remappable keyboard, gamepad and touch bindings resolved into per-port GameControls
+
+import { EventEmitter } from 'events';
+import type { GameControls, GamePlatform } from './GameEmulationEngine';
+import { KeyValueStorage, getDefaultStorage, readJson, writeJson } from './Storage';
+
+export type InputSource = 'keyboard' | 'gamepad' | 'touch';
+export type ProfileScope = 'game' | 'platform';
+
+export interface ButtonDefinition {
+  id: string;
+  label: string;
+  // Default codes, see ButtonBinding.code
+  keyboard?: string;
+  gamepad?: string;
+}
+
+export interface AxisDefinition {
+  id: string;
+  label: string;
+  gamepad?: string;
+}
+
+export interface PlatformInputLayout {
+  platformId: string;
+  buttons: ButtonDefinition[];
+  axes: AxisDefinition[];
+}
+
+export interface ButtonBinding {
+  source: InputSource;
+  // KeyboardEvent.code; 'button:N' or 'stick:N:up' on gamepads; the on-screen control id for touch
+  code: string;
+  button: string;
+  // Pulses while held when EmulationConfig.turboMode is on
+  turbo?: boolean;
+}
+
+export interface AxisBinding {
+  source: InputSource;
+  // 'stick:N' on gamepads, the on-screen joystick id for touch
+  code: string;
+  axis: string;
+}
+
+export interface InputProfile {
+  platformId: string;
+  buttons: ButtonBinding[];
+  axes: AxisBinding[];
+  deadzone: number;
+  // Frames per turbo half-cycle; 2 gives 15 presses per second at 60fps
+  turboRate: number;
+}
+
+export interface AxisValue {
+  x: number;
+  y: number;
+}
+
+export interface PortInput {
+  port: number;
+  controls: GameControls;
+  axes: Record<string, AxisValue>;
+}
+
+export interface RawInput {
+  source: InputSource;
+  code: string;
+}
+
+// The subset of the W3C Gamepad object the mapper reads
+export interface GamepadSnapshot {
+  index: number;
+  id: string;
+  connected?: boolean;
+  buttons: ReadonlyArray<{ pressed: boolean; value: number }>;
+  axes: ReadonlyArray<number>;
+}
+
+export interface InputMapperOptions {
+  storage?: KeyValueStorage;
+}
+
+const STORAGE_PREFIX = '@mlvarcade:inputProfiles';
+const DEFAULT_DEADZONE = 0.15;
+const DEFAULT_TURBO_RATE = 2;
+// Stick deflection at which stick:N:up/down/left/right count as pressed
+const AXIS_BUTTON_THRESHOLD = 0.5;
+const DEFAULT_INPUT_TIMEOUT = 10000;
+
+// W3C "standard" gamepad mapping
+const PAD = {
+  SOUTH: 0,
+  EAST: 1,
+  WEST: 2,
+  NORTH: 3,
+  L1: 4,
+  R1: 5,
+  L2: 6,
+  R2: 7,
+  SELECT: 8,
+  START: 9,
+  L3: 10,
+  R3: 11,
+  UP: 12,
+  DOWN: 13,
+  LEFT: 14,
+  RIGHT: 15
+};
+
+const pad = (index: number) => `button:${index}`;
+
+const DPAD: ButtonDefinition[] = [
+  { id: 'up', label: 'Up', keyboard: 'ArrowUp', gamepad: pad(PAD.UP) },
+  { id: 'down', label: 'Down', keyboard: 'ArrowDown', gamepad: pad(PAD.DOWN) },
+  { id: 'left', label: 'Left', keyboard: 'ArrowLeft', gamepad: pad(PAD.LEFT) },
+  { id: 'right', label: 'Right', keyboard: 'ArrowRight', gamepad: pad(PAD.RIGHT) }
+];
+
+const START_SELECT: ButtonDefinition[] = [
+  { id: 'start', label: 'Start', keyboard: 'Enter', gamepad: pad(PAD.START) },
+  { id: 'select', label: 'Select', keyboard: 'ShiftRight', gamepad: pad(PAD.SELECT) }
+];
+
+// Nintendo face buttons by position: A is east, B is south
+const NINTENDO_AB: ButtonDefinition[] = [
+  { id: 'a', label: 'A', keyboard: 'KeyX', gamepad: pad(PAD.EAST) },
+  { id: 'b', label: 'B', keyboard: 'KeyZ', gamepad: pad(PAD.SOUTH) }
+];
+
+const NINTENDO_XY: ButtonDefinition[] = [
+  { id: 'x', label: 'X', keyboard: 'KeyS', gamepad: pad(PAD.NORTH) },
+  { id: 'y', label: 'Y', keyboard: 'KeyA', gamepad: pad(PAD.WEST) }
+];
+
+const SHOULDERS: ButtonDefinition[] = [
+  { id: 'l', label: 'L', keyboard: 'KeyQ', gamepad: pad(PAD.L1) },
+  { id: 'r', label: 'R', keyboard: 'KeyW', gamepad: pad(PAD.R1) }
+];
+
+// COSMAC VIP hex keypad laid over the 1234/QWER/ASDF/ZXCV block
+const CHIP8_KEYPAD: ButtonDefinition[] = [
+  ['1', 'Digit1'], ['2', 'Digit2'], ['3', 'Digit3'], ['C', 'Digit4'],
+  ['4', 'KeyQ'], ['5', 'KeyW'], ['6', 'KeyE'], ['D', 'KeyR'],
+  ['7', 'KeyA'], ['8', 'KeyS'], ['9', 'KeyD'], ['E', 'KeyF'],
+  ['A', 'KeyZ'], ['0', 'KeyX'], ['B', 'KeyC'], ['F', 'KeyV']
+].map(([key, code]) => ({ id: `key${key}`, label: key!, keyboard: code! }));
+
+const withoutKeyboard = (buttons: ButtonDefinition[]) => buttons.map(({ keyboard, ...button }) => button);
+
+const INPUT_LAYOUTS: Record<string, Omit<PlatformInputLayout, 'platformId'>> = {
+  chip8: {
+    buttons: [...DPAD, ...withoutKeyboard([...NINTENDO_AB, ...START_SELECT, ...SHOULDERS]), ...CHIP8_KEYPAD],
+    axes: []
+  },
+  nes: { buttons: [...DPAD, ...NINTENDO_AB, ...START_SELECT], axes: [] },
+  gb: { buttons: [...DPAD, ...NINTENDO_AB, ...START_SELECT], axes: [] },
+  gbc: { buttons: [...DPAD, ...NINTENDO_AB, ...START_SELECT], axes: [] },
+  gba: { buttons: [...DPAD, ...NINTENDO_AB, ...SHOULDERS, ...START_SELECT], axes: [] },
+  snes: { buttons: [...DPAD, ...NINTENDO_AB, ...NINTENDO_XY, ...SHOULDERS, ...START_SELECT], axes: [] },
+  nds: { buttons: [...DPAD, ...NINTENDO_AB, ...NINTENDO_XY, ...SHOULDERS, ...START_SELECT], axes: [] },
+  genesis: {
+    buttons: [
+      ...DPAD,
+      { id: 'a', label: 'A', keyboard: 'KeyZ', gamepad: pad(PAD.WEST) },
+      { id: 'b', label: 'B', keyboard: 'KeyX', gamepad: pad(PAD.SOUTH) },
+      { id: 'c', label: 'C', keyboard: 'KeyC', gamepad: pad(PAD.EAST) },
+      { id: 'x', label: 'X', keyboard: 'KeyA', gamepad: pad(PAD.L1) },
+      { id: 'y', label: 'Y', keyboard: 'KeyS', gamepad: pad(PAD.NORTH) },
+      { id: 'z', label: 'Z', keyboard: 'KeyD', gamepad: pad(PAD.R1) },
+      { id: 'start', label: 'Start', keyboard: 'Enter', gamepad: pad(PAD.START) },
+      { id: 'mode', label: 'Mode', keyboard: 'ShiftRight', gamepad: pad(PAD.SELECT) }
+    ],
+    axes: []
+  },
+  n64: {
+    buttons: [
+      ...DPAD,
+      { id: 'a', label: 'A', keyboard: 'KeyX', gamepad: pad(PAD.SOUTH) },
+      { id: 'b', label: 'B', keyboard: 'KeyZ', gamepad: pad(PAD.WEST) },
+      { id: 'z', label: 'Z', keyboard: 'KeyA', gamepad: pad(PAD.L2) },
+      ...SHOULDERS,
+      { id: 'start', label: 'Start', keyboard: 'Enter', gamepad: pad(PAD.START) },
+      { id: 'cUp', label: 'C-Up', keyboard: 'KeyI', gamepad: 'stick:1:up' },
+      { id: 'cDown', label: 'C-Down', keyboard: 'KeyK', gamepad: 'stick:1:down' },
+      { id: 'cLeft', label: 'C-Left', keyboard: 'KeyJ', gamepad: 'stick:1:left' },
+      { id: 'cRight', label: 'C-Right', keyboard: 'KeyL', gamepad: 'stick:1:right' }
+    ],
+    axes: [{ id: 'stick', label: 'Control Stick', gamepad: 'stick:0' }]
+  },
+  psx: {
+    buttons: [
+      ...DPAD,
+      { id: 'cross', label: 'Cross', keyboard: 'KeyX', gamepad: pad(PAD.SOUTH) },
+      { id: 'circle', label: 'Circle', keyboard: 'KeyC', gamepad: pad(PAD.EAST) },
+      { id: 'square', label: 'Square', keyboard: 'KeyZ', gamepad: pad(PAD.WEST) },
+      { id: 'triangle', label: 'Triangle', keyboard: 'KeyS', gamepad: pad(PAD.NORTH) },
+      { id: 'l1', label: 'L1', keyboard: 'KeyQ', gamepad: pad(PAD.L1) },
+      { id: 'r1', label: 'R1', keyboard: 'KeyW', gamepad: pad(PAD.R1) },
+      { id: 'l2', label: 'L2', keyboard: 'Digit1', gamepad: pad(PAD.L2) },
+      { id: 'r2', label: 'R2', keyboard: 'Digit3', gamepad: pad(PAD.R2) },
+      { id: 'l3', label: 'L3', gamepad: pad(PAD.L3) },
+      { id: 'r3', label: 'R3', gamepad: pad(PAD.R3) },
+      ...START_SELECT
+    ],
+    axes: [
+      { id: 'leftStick', label: 'Left Stick', gamepad: 'stick:0' },
+      { id: 'rightStick', label: 'Right Stick', gamepad: 'stick:1' }
+    ]
+  }
+};
+
+// Matches the fixed DS-style GameControls for platforms without a dedicated layout
+const DEFAULT_LAYOUT = { buttons: [...DPAD, ...NINTENDO_AB, ...NINTENDO_XY, ...SHOULDERS, ...START_SELECT], axes: [] };
+
+const BASE_CONTROLS: GameControls = {
+  up: false,
+  down: false,
+  left: false,
+  right: false,
+  a: false,
+  b: false,
+  start: false,
+  select: false,
+  l: false,
+  r: false
+};
+
+const DIRECTIONS = ['up', 'down', 'left', 'right'] as const;
+
+export function getInputLayout(platform: GamePlatform): PlatformInputLayout {
+  const layout = INPUT_LAYOUTS[platform.id] ?? DEFAULT_LAYOUT;
+  return { platformId: platform.id, buttons: layout.buttons, axes: layout.axes };
+}
+
+export function createDefaultProfile(layout: PlatformInputLayout): InputProfile {
+  const buttons: ButtonBinding[] = [];
+  for (const definition of layout.buttons) {
+    if (definition.keyboard) {
+      buttons.push({ source: 'keyboard', code: definition.keyboard, button: definition.id });
+    }
+    if (definition.gamepad) {
+      buttons.push({ source: 'gamepad', code: definition.gamepad, button: definition.id });
+    }
+    buttons.push({ source: 'touch', code: definition.id, button: definition.id });
+  }
+
+  const axes: AxisBinding[] = [];
+  for (const definition of layout.axes) {
+    if (definition.gamepad) {
+      axes.push({ source: 'gamepad', code: definition.gamepad, axis: definition.id });
+    }
+  }
+
+  // Digital systems still get the left stick and on-screen joystick as a d-pad
+  const firstAxis = layout.axes[0];
+  if (firstAxis) {
+    axes.push({ source: 'touch', code: 'joystick', axis: firstAxis.id });
+  } else if (layout.buttons.some(definition => definition.id === 'up')) {
+    for (const direction of DIRECTIONS) {
+      buttons.push({ source: 'gamepad', code: `stick:0:${direction}`, button: direction });
+      buttons.push({ source: 'touch', code: `joystick:${direction}`, button: direction });
+    }
+  }
+
+  return {
+    platformId: layout.platformId,
+    buttons,
+    axes,
+    deadzone: DEFAULT_DEADZONE,
+    turboRate: DEFAULT_TURBO_RATE
+  };
+}
+
+function applyDeadzone(value: AxisValue, deadzone: number): AxisValue {
+  const magnitude = Math.hypot(value.x, value.y);
+  if (magnitude <= deadzone) {
+    return { x: 0, y: 0 };
+  }
+  const scale = Math.min(1, (magnitude - deadzone) / (1 - deadzone)) / magnitude;
+  return { x: value.x * scale, y: value.y * scale };
+}
+
+function sourceOf(deviceId: string): InputSource {
+  return deviceId.split(':')[0] as InputSource;
+}
+
+export class InputMapper extends EventEmitter {
+  private storage: KeyValueStorage;
+  private layout: PlatformInputLayout;
+  private profile: InputProfile;
+  private romChecksum: string | null = null;
+  private hasGameProfile = false;
+  private devicePorts: Map<string, number> = new Map();
+  private pressedInputs: Map<string, Set<string>> = new Map();
+  private axisInputs: Map<string, Map<string, AxisValue>> = new Map();
+  private directButtons: Map<number, Set<string>> = new Map();
+  private lastOutputs: Map<number, string> = new Map();
+  private inputWaiters: Array<(input: RawInput) => void> = [];
+  private turboEnabled = false;
+  private turboPhase = true;
+
+  constructor(options: InputMapperOptions = {}) {
+    super();
+    this.storage = options.storage ?? getDefaultStorage();
+    this.layout = { platformId: '', ...DEFAULT_LAYOUT };
+    this.profile = createDefaultProfile(this.layout);
+  }
+
+  // Game profiles override platform profiles, which override the built-in defaults
+  public async loadProfile(platform: GamePlatform, romChecksum: string | null = null): Promise<InputProfile> {
+    this.layout = getInputLayout(platform);
+    this.romChecksum = romChecksum;
+
+    const gameProfile = romChecksum
+      ? await readJson<InputProfile | null>(this.storage, this.getGameKey(romChecksum), null)
+      : null;
+    this.hasGameProfile = gameProfile !== null;
+    this.profile = this.sanitize(gameProfile ?? (await this.readPlatformProfile()));
+
+    this.directButtons.clear();
+    this.lastOutputs.clear();
+    this.publish();
+    this.emit('profileLoaded', this.getProfile());
+    return this.getProfile();
+  }
+
+  // One physical input drives one button, so rebinding a key replaces its previous binding
+  public async bindButton(binding: ButtonBinding, scope: ProfileScope = 'game'): Promise<boolean> {
+    try {
+      if (!this.hasButton(binding.button)) {
+        throw new Error(`Unknown button "${binding.button}" for platform ${this.layout.platformId}`);
+      }
+
+      await this.editProfile(scope, profile => {
+        profile.buttons = profile.buttons.filter(existing =>
+          existing.source !== binding.source || existing.code !== binding.code
+        );
+        profile.buttons.push({ ...binding });
+      });
+      return true;
+    } catch (error) {
+      console.error('Failed to bind button:', error);
+      this.emit('error', error);
+      return false;
+    }
+  }
+
+  public async bindAxis(binding: AxisBinding, scope: ProfileScope = 'game'): Promise<boolean> {
+    try {
+      if (!this.layout.axes.some(axis => axis.id === binding.axis)) {
+        throw new Error(`Unknown axis "${binding.axis}" for platform ${this.layout.platformId}`);
+      }
+
+      await this.editProfile(scope, profile => {
+        profile.axes = profile.axes.filter(existing =>
+          existing.source !== binding.source || existing.code !== binding.code
+        );
+        profile.axes.push({ ...binding });
+      });
+      return true;
+    } catch (error) {
+      console.error('Failed to bind axis:', error);
+      this.emit('error', error);
+      return false;
+    }
+  }
+
+  public async unbindInput(input: RawInput, scope: ProfileScope = 'game'): Promise<boolean> {
+    try {
+      const matches = (binding: ButtonBinding | AxisBinding) =>
+        binding.source === input.source && binding.code === input.code;
+
+      await this.editProfile(scope, profile => {
+        profile.buttons = profile.buttons.filter(binding => !matches(binding));
+        profile.axes = profile.axes.filter(binding => !matches(binding));
+      });
+      return true;
+    } catch (error) {
+      console.error('Failed to unbind input:', error);
+      this.emit('error', error);
+      return false;
+    }
+  }
+
+  public async setProfileOptions(
+    options: Partial<Pick<InputProfile, 'deadzone' | 'turboRate'>>,
+    scope: ProfileScope = 'game'
+  ): Promise<boolean> {
+    try {
+      await this.editProfile(scope, profile => {
+        if (options.deadzone !== undefined) {
+          profile.deadzone = Math.min(0.95, Math.max(0, options.deadzone));
+        }
+        if (options.turboRate !== undefined) {
+          profile.turboRate = Math.max(1, Math.round(options.turboRate));
+        }
+      });
+      return true;
+    } catch (error) {
+      console.error('Failed to update input profile:', error);
+      this.emit('error', error);
+      return false;
+    }
+  }
+
+  public async resetProfile(scope: ProfileScope = 'game'): Promise<boolean> {
+    try {
+      if (scope === 'game' && this.romChecksum) {
+        await this.storage.removeItem(this.getGameKey(this.romChecksum));
+        this.hasGameProfile = false;
+        this.profile = this.sanitize(await this.readPlatformProfile());
+      } else {
+        await this.storage.removeItem(this.getPlatformKey());
+        if (!this.hasGameProfile) {
+          this.profile = createDefaultProfile(this.layout);
+        }
+      }
+
+      this.publish();
+      this.emit('profileUpdated', this.getProfile());
+      return true;
+    } catch (error) {
+      console.error('Failed to reset input profile:', error);
+      this.emit('error', error);
+      return false;
+    }
+  }
+
+  // Input sources
+  public handleKey(code: string, pressed: boolean): void {
+    this.setPressed('keyboard', code, pressed);
+    this.publish();
+  }
+
+  public handleTouch(control: string, pressed: boolean): void {
+    this.setPressed('touch', control, pressed);
+    this.publish();
+  }
+
+  public handleTouchAxis(control: string, x: number, y: number): void {
+    this.setAxis('touch', control, { x, y });
+    this.publish();
+  }
+
+  // Presses a button on a port directly, bypassing bindings (engine setControl, scripted input)
+  public pressButton(port: number, button: string, pressed: boolean): boolean {
+    if (!this.hasButton(button)) {
+      return false;
+    }
+
+    const buttons = this.directButtons.get(port) ?? new Set<string>();
+    if (pressed) {
+      buttons.add(button);
+    } else {
+      buttons.delete(button);
+    }
+    this.directButtons.set(port, buttons);
+    this.publish();
+    return true;
+  }
+
+  // Call once per frame; without an argument it reads navigator.getGamepads() where available
+  public pollGamepads(gamepads?: ReadonlyArray<GamepadSnapshot | null>): void {
+    const snapshots = gamepads ?? this.readNavigatorGamepads();
+    if (!snapshots) {
+      return;
+    }
+
+    const connected = new Set<string>();
+    for (const gamepad of snapshots) {
+      if (!gamepad || gamepad.connected === false) {
+        continue;
+      }
+
+      const deviceId = `gamepad:${gamepad.index}`;
+      connected.add(deviceId);
+      if (!this.pressedInputs.has(deviceId) && !this.axisInputs.has(deviceId)) {
+        this.emit('deviceConnected', { deviceId, name: gamepad.id, port: this.getDevicePort(deviceId) });
+      }
+
+      gamepad.buttons.forEach((button, index) => this.setPressed(deviceId, `button:${index}`, button.pressed));
+      for (let stick = 0; stick * 2 + 1 < gamepad.axes.length; stick++) {
+        this.setAxis(deviceId, `stick:${stick}`, {
+          x: gamepad.axes[stick * 2] ?? 0,
+          y: gamepad.axes[stick * 2 + 1] ?? 0
+        });
+      }
+    }
+
+    for (const deviceId of new Set([...this.pressedInputs.keys(), ...this.axisInputs.keys()])) {
+      if (sourceOf(deviceId) === 'gamepad' && !connected.has(deviceId)) {
+        this.pressedInputs.delete(deviceId);
+        this.axisInputs.delete(deviceId);
+        this.emit('deviceDisconnected', { deviceId });
+      }
+    }
+
+    this.publish();
+  }
+
+  public assignDevice(deviceId: string, port: number): void {
+    this.devicePorts.set(deviceId, port);
+    this.publish();
+  }
+
+  // Keyboard and touch default to player one, gamepad N to port N
+  public getDevicePort(deviceId: string): number {
+    const assigned = this.devicePorts.get(deviceId);
+    if (assigned !== undefined) {
+      return assigned;
+    }
+    const [source, index] = deviceId.split(':');
+    return source === 'gamepad' ? parseInt(index ?? '0', 10) || 0 : 0;
+  }
+
+  public setTurboEnabled(enabled: boolean): void {
+    if (this.turboEnabled === enabled) {
+      return;
+    }
+    this.turboEnabled = enabled;
+    this.turboPhase = true;
+    this.publish();
+  }
+
+  // Advances turbo pulses and polls gamepads; driven by the engine's frame updates
+  public tick(frame: number): void {
+    this.pollGamepads();
+    if (!this.turboEnabled) {
+      return;
+    }
+
+    const phase = Math.floor(frame / this.profile.turboRate) % 2 === 0;
+    if (phase !== this.turboPhase) {
+      this.turboPhase = phase;
+      this.publish();
+    }
+  }
+
+  // Resolves with the next input pressed, for "press a button to bind" prompts
+  public waitForInput(timeout: number = DEFAULT_INPUT_TIMEOUT): Promise<RawInput | null> {
+    return new Promise(resolve => {
+      const waiter = (input: RawInput) => {
+        clearTimeout(timer);
+        resolve(input);
+      };
+      const timer = setTimeout(() => {
+        this.inputWaiters = this.inputWaiters.filter(existing => existing !== waiter);
+        resolve(null);
+      }, timeout);
+      this.inputWaiters.push(waiter);
+    });
+  }
+
+  public hasButton(button: string): boolean {
+    return this.layout.buttons.some(definition => definition.id === button);
+  }
+
+  public getPortInput(port: number): PortInput {
+    const controls: GameControls = { ...BASE_CONTROLS };
+    for (const definition of this.layout.buttons) {
+      controls[definition.id] = false;
+    }
+    const axes: Record<string, AxisValue> = {};
+    for (const definition of this.layout.axes) {
+      axes[definition.id] = { x: 0, y: 0 };
+    }
+
+    for (const deviceId of this.getDevices()) {
+      if (this.getDevicePort(deviceId) !== port) {
+        continue;
+      }
+
+      const source = sourceOf(deviceId);
+      const active = this.getActiveCodes(deviceId);
+      for (const binding of this.profile.buttons) {
+        if (binding.source !== source || !active.has(binding.code)) {
+          continue;
+        }
+        if (binding.turbo && this.turboEnabled && !this.turboPhase) {
+          continue;
+        }
+        controls[binding.button] = true;
+      }
+
+      const deviceAxes = this.axisInputs.get(deviceId);
+      for (const binding of this.profile.axes) {
+        const raw = binding.source === source ? deviceAxes?.get(binding.code) : undefined;
+        const current = axes[binding.axis];
+        if (!raw || !current) {
+          continue;
+        }
+        // Several devices on one port: the larger deflection wins
+        const value = applyDeadzone(raw, this.profile.deadzone);
+        if (Math.hypot(value.x, value.y) > Math.hypot(current.x, current.y)) {
+          axes[binding.axis] = value;
+        }
+      }
+    }
+
+    for (const button of this.directButtons.get(port) ?? []) {
+      controls[button] = true;
+    }
+
+    return { port, controls, axes };
+  }
+
+  public getLayout(): PlatformInputLayout {
+    return this.layout;
+  }
+
+  public getProfile(): InputProfile {
+    return JSON.parse(JSON.stringify(this.profile));
+  }
+
+  public getConnectedDevices(): string[] {
+    return this.getDevices().filter(deviceId => sourceOf(deviceId) === 'gamepad');
+  }
+
+  private setPressed(deviceId: string, code: string, pressed: boolean): void {
+    const codes = this.pressedInputs.get(deviceId) ?? new Set<string>();
+    if (pressed && !codes.has(code)) {
+      this.notifyInput({ source: sourceOf(deviceId), code });
+    }
+    if (pressed) {
+      codes.add(code);
+    } else {
+      codes.delete(code);
+    }
+    this.pressedInputs.set(deviceId, codes);
+  }
+
+  private setAxis(deviceId: string, code: string, value: AxisValue): void {
+    const axes = this.axisInputs.get(deviceId) ?? new Map<string, AxisValue>();
+    const before = this.getAxisDirections(code, axes.get(code));
+    axes.set(code, value);
+    this.axisInputs.set(deviceId, axes);
+
+    for (const direction of this.getAxisDirections(code, value)) {
+      if (!before.includes(direction)) {
+        this.notifyInput({ source: sourceOf(deviceId), code: direction });
+      }
+    }
+  }
+
+  private getAxisDirections(code: string, value: AxisValue | undefined): string[] {
+    if (!value) {
+      return [];
+    }
+    const directions: string[] = [];
+    if (value.y <= -AXIS_BUTTON_THRESHOLD) directions.push(`${code}:up`);
+    if (value.y >= AXIS_BUTTON_THRESHOLD) directions.push(`${code}:down`);
+    if (value.x <= -AXIS_BUTTON_THRESHOLD) directions.push(`${code}:left`);
+    if (value.x >= AXIS_BUTTON_THRESHOLD) directions.push(`${code}:right`);
+    return directions;
+  }
+
+  private getActiveCodes(deviceId: string): Set<string> {
+    const active = new Set(this.pressedInputs.get(deviceId) ?? []);
+    for (const [code, value] of this.axisInputs.get(deviceId) ?? []) {
+      for (const direction of this.getAxisDirections(code, value)) {
+        active.add(direction);
+      }
+    }
+    return active;
+  }
+
+  private getDevices(): string[] {
+    return Array.from(new Set([...this.pressedInputs.keys(), ...this.axisInputs.keys()]));
+  }
+
+  private notifyInput(input: RawInput): void {
+    const waiters = this.inputWaiters;
+    this.inputWaiters = [];
+    waiters.forEach(waiter => waiter(input));
+  }
+
+  // Emits portChanged only for ports whose resolved input actually changed
+  private publish(): void {
+    const ports = new Set<number>([0, ...this.lastOutputs.keys(), ...this.directButtons.keys()]);
+    for (const deviceId of this.getDevices()) {
+      ports.add(this.getDevicePort(deviceId));
+    }
+
+    for (const port of ports) {
+      const input = this.getPortInput(port);
+      const serialized = JSON.stringify(input);
+      if (this.lastOutputs.get(port) !== serialized) {
+        this.lastOutputs.set(port, serialized);
+        this.emit('portChanged', input);
+      }
+    }
+  }
+
+  // Game scope edits the active profile and stores it for this ROM; platform scope edits the
+  // platform profile, which is only live when the game has no override of its own
+  private async editProfile(scope: ProfileScope, edit: (profile: InputProfile) => void): Promise<void> {
+    const gameScope = scope === 'game' && this.romChecksum !== null;
+    const profile = gameScope || !this.hasGameProfile
+      ? this.getProfile()
+      : this.sanitize(await this.readPlatformProfile());
+
+    edit(profile);
+
+    if (gameScope) {
+      await writeJson(this.storage, this.getGameKey(this.romChecksum!), profile);
+      this.hasGameProfile = true;
+    } else {
+      await writeJson(this.storage, this.getPlatformKey(), profile);
+    }
+
+    if (gameScope || !this.hasGameProfile) {
+      this.profile = profile;
+      this.publish();
+      this.emit('profileUpdated', this.getProfile());
+    }
+  }
+
+  private async readPlatformProfile(): Promise<InputProfile> {
+    const stored = await readJson<InputProfile | null>(this.storage, this.getPlatformKey(), null);
+    return stored ?? createDefaultProfile(this.layout);
+  }
+
+  // Drops bindings to buttons the layout no longer has, e.g. after a layout change
+  private sanitize(profile: InputProfile): InputProfile {
+    return {
+      platformId: this.layout.platformId,
+      buttons: (profile.buttons ?? []).filter(binding => this.hasButton(binding.button)),
+      axes: (profile.axes ?? []).filter(binding => this.layout.axes.some(axis => axis.id === binding.axis)),
+      deadzone: profile.deadzone ?? DEFAULT_DEADZONE,
+      turboRate: Math.max(1, profile.turboRate ?? DEFAULT_TURBO_RATE)
+    };
+  }
+
+  private readNavigatorGamepads(): ReadonlyArray<GamepadSnapshot | null> | null {
+    const navigator = (globalThis as any).navigator;
+    if (!navigator || typeof navigator.getGamepads !== 'function') {
+      return null;
+    }
+    return Array.from(navigator.getGamepads() as ArrayLike<GamepadSnapshot | null>);
+  }
+
+  private getPlatformKey(): string {
+    return `${STORAGE_PREFIX}:platform:${this.layout.platformId}`;
+  }
+
+  private getGameKey(romChecksum: string): string {
+    return `${STORAGE_PREFIX}:game:${romChecksum}`;
+  }
+}
+
+export default InputMapper;
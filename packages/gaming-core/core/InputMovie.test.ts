@@ -0,0 +1,73 @@
+import { deflate } from 'pako';
+import { decodeMovie, encodeMovie, InputMovie, MovieError, MovieHeader } from './InputMovie';
+import { utf8Encode } from './BinaryUtils';
+import { containerPreamble, rawContainer, thrownBy } from './__fixtures__/containers';
+
+const HEADER: MovieHeader = {
+  romChecksum: 'abc123',
+  romName: 'Pong',
+  coreId: 'chip8-reference',
+  coreVersion: '1.0.0',
+  anchor: 'powerOn',
+  frameCount: 120,
+  checkpointInterval: 60,
+  createdAt: 1700000000000,
+  anchorState: null,
+  log: { length: 0, originalLength: 0 }
+};
+
+const MOVIE: InputMovie = {
+  header: HEADER,
+  anchorState: null,
+  events: [{ frame: 10, port: 0, buttons: ['a', 'up'] }],
+  checkpoints: [{ frame: 60, sha1: 'deadbeef' }]
+};
+
+const withRawSections = (header: object, log: unknown): Uint8Array => {
+  const logBytes = deflate(utf8Encode(JSON.stringify(log)));
+  return rawContainer('MLVM', JSON.stringify({ ...header, log: { length: logBytes.length, originalLength: 0 } }), logBytes);
+};
+
+const decodeError = (data: Uint8Array): MovieError => thrownBy(() => decodeMovie(data));
+
+describe('input movie container', () => {
+  it('round-trips events and checkpoints', () => {
+    const decoded = decodeMovie(encodeMovie(MOVIE));
+
+    expect(decoded.header).toMatchObject({ romChecksum: 'abc123', anchor: 'powerOn', frameCount: 120 });
+    expect(decoded.anchorState).toBeNull();
+    expect(decoded.events).toEqual(MOVIE.events);
+    expect(decoded.checkpoints).toEqual(MOVIE.checkpoints);
+  });
+
+  it('reports a header without a log section as corrupted', () => {
+    const header: Partial<MovieHeader> = { ...HEADER };
+    delete header.log;
+
+    const error = decodeError(rawContainer('MLVM', JSON.stringify(header)));
+
+    expect(error).toBeInstanceOf(MovieError);
+    expect(error.code).toBe('CORRUPTED');
+  });
+
+  it('reports an unknown anchor as corrupted', () => {
+    expect(decodeError(withRawSections({ ...HEADER, anchor: 'midGame' }, MOVIE)).code).toBe('CORRUPTED');
+  });
+
+  it('reports a log without events as corrupted', () => {
+    const error = decodeError(withRawSections(HEADER, { checkpoints: [] }));
+
+    expect(error.code).toBe('CORRUPTED');
+    expect(error.message).toContain('input log');
+  });
+
+  it('reports events with malformed buttons as corrupted', () => {
+    const log = { events: [{ frame: 1, port: 0, buttons: 'a' }], checkpoints: [] };
+
+    expect(decodeError(withRawSections(HEADER, log)).code).toBe('CORRUPTED');
+  });
+
+  it('reports a header length past the end of the file as corrupted', () => {
+    expect(decodeError(containerPreamble('MLVM', 500)).code).toBe('CORRUPTED');
+  });
+});
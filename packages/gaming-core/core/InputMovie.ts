@@ -0,0 +1,334 @@
+// 3kMLV Arcade - Input Movies
+// Deterministic input recordings anchored to power-on or a save state
+//
+// File layout (.mlvm, all integers big-endian), sharing the .mlvs preamble:
+//
+//   offset   size  field
+//   0        4     magic "MLVM"
+//   4        2     movie format version (currently 1)
+//   6        4     header length N
+//   10       N     header, UTF-8 JSON (see MovieHeader)
+//   10+N     A     anchor state, A = header.anchorState.length (0 for power-on), zlib-deflated
+//   10+N+A   L     input log, L = header.log.length, zlib-deflated JSON (see MovieLog)
+//
+// Frames are relative to the anchor. An input event at frame F is applied before frame F+1
+// runs; a checkpoint at frame F is the SHA-1 of the emulator state after F frames.
+
+import { deflate, inflate } from 'pako';
+import type { GameControls, GameRom } from './GameEmulationEngine';
+import type { AxisValue } from './InputMapper';
+import { concatBytes, sha1Hex, utf8Decode, utf8Encode } from './BinaryUtils';
+
+export const MOVIE_MAGIC = 'MLVM';
+export const MOVIE_FORMAT_VERSION = 1;
+export const MOVIE_EXTENSION = '.mlvm';
+export const DEFAULT_CHECKPOINT_INTERVAL = 60;
+
+const PREAMBLE_SIZE = 10;
+
+export type MovieAnchor = 'powerOn' | 'saveState';
+
+export interface MovieHeader {
+  romChecksum: string;
+  romName: string;
+  coreId: string;
+  coreVersion: string;
+  anchor: MovieAnchor;
+  frameCount: number;
+  checkpointInterval: number;
+  createdAt: number;
+  anchorState: {
+    length: number;
+    originalLength: number;
+    sha1: string;
+  } | null;
+  log: {
+    length: number;
+    originalLength: number;
+  };
+}
+
+export interface MovieInputEvent {
+  frame: number;
+  port: number;
+  // Every button held on the port from this frame on
+  buttons: string[];
+  axes?: Record<string, AxisValue>;
+}
+
+export interface MovieCheckpoint {
+  frame: number;
+  sha1: string;
+}
+
+export interface MovieLog {
+  events: MovieInputEvent[];
+  checkpoints: MovieCheckpoint[];
+}
+
+export interface InputMovie {
+  header: MovieHeader;
+  anchorState: Uint8Array | null;
+  events: MovieInputEvent[];
+  checkpoints: MovieCheckpoint[];
+}
+
+export interface MovieCore {
+  id: string;
+  version: string;
+}
+
+export type MovieErrorCode =
+  | 'INVALID_FORMAT'
+  | 'UNSUPPORTED_VERSION'
+  | 'CORRUPTED'
+  | 'ROM_MISMATCH'
+  | 'CORE_MISMATCH';
+
+export class MovieError extends Error {
+  public readonly code: MovieErrorCode;
+
+  constructor(code: MovieErrorCode, message: string) {
+    super(message);
+    this.name = 'MovieError';
+    this.code = code;
+  }
+}
+
+function isByteLength(value: unknown): value is number {
+  return Number.isInteger(value) && (value as number) >= 0;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null;
+}
+
+// Movies get shared between players, so the header is checked before any length in it is used
+function isMovieHeader(value: unknown): value is MovieHeader {
+  if (!isObject(value)) {
+    return false;
+  }
+
+  const { anchorState, log } = value;
+  return typeof value.romChecksum === 'string' &&
+    typeof value.romName === 'string' &&
+    typeof value.coreId === 'string' &&
+    typeof value.coreVersion === 'string' &&
+    (value.anchor === 'powerOn' || value.anchor === 'saveState') &&
+    isByteLength(value.frameCount) &&
+    isByteLength(value.checkpointInterval) &&
+    typeof value.createdAt === 'number' &&
+    (anchorState === null || (
+      isObject(anchorState) &&
+      isByteLength(anchorState.length) &&
+      isByteLength(anchorState.originalLength) &&
+      typeof anchorState.sha1 === 'string'
+    )) &&
+    isObject(log) &&
+    isByteLength(log.length) &&
+    isByteLength(log.originalLength);
+}
+
+function isMovieInputEvent(value: unknown): value is MovieInputEvent {
+  return isObject(value) &&
+    isByteLength(value.frame) &&
+    isByteLength(value.port) &&
+    Array.isArray(value.buttons) &&
+    value.buttons.every(button => typeof button === 'string') &&
+    (value.axes === undefined || isObject(value.axes));
+}
+
+function isMovieLog(value: unknown): value is MovieLog {
+  return isObject(value) &&
+    Array.isArray(value.events) &&
+    value.events.every(isMovieInputEvent) &&
+    Array.isArray(value.checkpoints) &&
+    value.checkpoints.every(checkpoint =>
+      isObject(checkpoint) && isByteLength(checkpoint.frame) && typeof checkpoint.sha1 === 'string'
+    );
+}
+
+export function encodeMovie(movie: InputMovie): Uint8Array {
+  const anchor = movie.anchorState ? deflate(movie.anchorState) : new Uint8Array(0);
+  const logJson = utf8Encode(JSON.stringify({ events: movie.events, checkpoints: movie.checkpoints }));
+  const log = deflate(logJson);
+
+  const header: MovieHeader = {
+    ...movie.header,
+    anchorState: movie.anchorState
+      ? { length: anchor.length, originalLength: movie.anchorState.length, sha1: sha1Hex(movie.anchorState) }
+      : null,
+    log: { length: log.length, originalLength: logJson.length }
+  };
+
+  const headerBytes = utf8Encode(JSON.stringify(header));
+  const preamble = new Uint8Array(PREAMBLE_SIZE);
+  const view = new DataView(preamble.buffer);
+  preamble.set(utf8Encode(MOVIE_MAGIC), 0);
+  view.setUint16(4, MOVIE_FORMAT_VERSION);
+  view.setUint32(6, headerBytes.length);
+
+  return concatBytes([preamble, headerBytes, anchor, log]);
+}
+
+export function decodeMovie(data: Uint8Array): InputMovie {
+  if (data.length < PREAMBLE_SIZE || utf8Decode(data.subarray(0, 4)) !== MOVIE_MAGIC) {
+    throw new MovieError('INVALID_FORMAT', 'Not a 3kMLV input movie');
+  }
+
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const version = view.getUint16(4);
+  if (version > MOVIE_FORMAT_VERSION) {
+    throw new MovieError('UNSUPPORTED_VERSION', `Movie format v${version} is newer than supported v${MOVIE_FORMAT_VERSION}`);
+  }
+
+  const headerEnd = PREAMBLE_SIZE + view.getUint32(6);
+  if (headerEnd > data.length) {
+    throw new MovieError('CORRUPTED', 'Movie header is truncated');
+  }
+
+  let header: unknown;
+  try {
+    header = JSON.parse(utf8Decode(data.subarray(PREAMBLE_SIZE, headerEnd)));
+  } catch (error) {
+    throw new MovieError('CORRUPTED', 'Movie header is not valid JSON');
+  }
+  if (!isMovieHeader(header)) {
+    throw new MovieError('CORRUPTED', 'Movie header is missing required fields');
+  }
+
+  const anchorEnd = headerEnd + (header.anchorState?.length ?? 0);
+  const logEnd = anchorEnd + header.log.length;
+  if (logEnd > data.length) {
+    throw new MovieError('CORRUPTED', 'Movie is truncated');
+  }
+
+  try {
+    const anchorState = header.anchorState ? inflate(data.subarray(headerEnd, anchorEnd)) : null;
+    if (anchorState && sha1Hex(anchorState) !== header.anchorState!.sha1) {
+      throw new Error('anchor hash mismatch');
+    }
+    const log: unknown = JSON.parse(utf8Decode(inflate(data.subarray(anchorEnd, logEnd))));
+    if (!isMovieLog(log)) {
+      throw new Error('input log is missing events or checkpoints');
+    }
+    return { header, anchorState, events: log.events, checkpoints: log.checkpoints };
+  } catch (error) {
+    throw new MovieError('CORRUPTED', `Movie data is corrupted: ${error instanceof Error ? error.message : error}`);
+  }
+}
+
+export function assertMovieCompatible(header: MovieHeader, rom: GameRom, core: MovieCore): void {
+  if (header.romChecksum !== rom.checksum) {
+    throw new MovieError('ROM_MISMATCH', `Movie was recorded on "${header.romName}", not "${rom.name}"`);
+  }
+
+  // Unlike save states, any core version change can shift timing, so the version must match exactly
+  if (header.coreId !== core.id || header.coreVersion !== core.version) {
+    throw new MovieError(
+      'CORE_MISMATCH',
+      `Movie was recorded with ${header.coreId} ${header.coreVersion}, running ${core.id} ${core.version}`
+    );
+  }
+}
+
+export function controlsFromButtons(buttons: string[]): GameControls {
+  const controls: GameControls = {
+    up: false,
+    down: false,
+    left: false,
+    right: false,
+    a: false,
+    b: false,
+    start: false,
+    select: false,
+    l: false,
+    r: false
+  };
+  for (const button of buttons) {
+    controls[button] = true;
+  }
+  return controls;
+}
+
+export class MovieRecorder {
+  private rom: GameRom;
+  private core: MovieCore;
+  private anchorState: Uint8Array | null;
+  private checkpointInterval: number;
+  private events: MovieInputEvent[] = [];
+  private checkpoints: MovieCheckpoint[] = [];
+  private lastInputs: Map<number, string> = new Map();
+  private frameCount = 0;
+
+  constructor(rom: GameRom, core: MovieCore, anchorState: Uint8Array | null, checkpointInterval: number = DEFAULT_CHECKPOINT_INTERVAL) {
+    this.rom = rom;
+    this.core = core;
+    this.anchorState = anchorState;
+    this.checkpointInterval = Math.max(1, checkpointInterval);
+  }
+
+  // Only changes are stored; repeated identical port states are dropped
+  public recordInput(frame: number, port: number, controls: GameControls, axes: Record<string, AxisValue> = {}): void {
+    const buttons = Object.keys(controls).filter(button => controls[button]).sort();
+    const activeAxes = Object.entries(axes).filter(([, value]) => value.x !== 0 || value.y !== 0);
+    const event: MovieInputEvent = { frame, port, buttons };
+    if (activeAxes.length > 0) {
+      event.axes = Object.fromEntries(activeAxes);
+    }
+
+    const key = JSON.stringify([event.buttons, event.axes ?? null]);
+    if (this.lastInputs.get(port) === key) {
+      return;
+    }
+    this.lastInputs.set(port, key);
+
+    // Several changes within one frame collapse into the last one
+    const previous = this.events[this.events.length - 1];
+    if (previous && previous.frame === frame && previous.port === port) {
+      this.events[this.events.length - 1] = event;
+    } else {
+      this.events.push(event);
+    }
+    this.advanceTo(frame);
+  }
+
+  public recordCheckpoint(frame: number, state: Uint8Array): void {
+    this.checkpoints.push({ frame, sha1: sha1Hex(state) });
+    this.advanceTo(frame);
+  }
+
+  public advanceTo(frame: number): void {
+    this.frameCount = Math.max(this.frameCount, frame);
+  }
+
+  public getFrameCount(): number {
+    return this.frameCount;
+  }
+
+  public isCheckpointFrame(frame: number): boolean {
+    return frame > 0 && frame % this.checkpointInterval === 0;
+  }
+
+  public finish(): InputMovie {
+    return {
+      header: {
+        romChecksum: this.rom.checksum,
+        romName: this.rom.name,
+        coreId: this.core.id,
+        coreVersion: this.core.version,
+        anchor: this.anchorState ? 'saveState' : 'powerOn',
+        frameCount: this.frameCount,
+        checkpointInterval: this.checkpointInterval,
+        createdAt: Date.now(),
+        anchorState: null,
+        log: { length: 0, originalLength: 0 }
+      },
+      anchorState: this.anchorState,
+      events: this.events.slice(),
+      checkpoints: this.checkpoints.slice().sort((a, b) => a.frame - b.frame)
+    };
+  }
+}
+
+export default MovieRecorder;
@@ -0,0 +1,273 @@
+import { EventEmitter } from 'events';
+import { NetplayDesync, NetplaySession } from './NetplaySession';
+import { LoopbackNetwork } from './NetplayTransport';
+import { controlsFromButtons } from './InputMovie';
+import type { GameControls, GameEmulationEngine } from './GameEmulationEngine';
+
+// A core whose whole state is a frame counter and a running hash of every input it was fed
+class FakeEngine extends EventEmitter {
+  frame = 0;
+  value = 0;
+  controls: GameControls = controlsFromButtons([]);
+  ports: string[][] = [];
+  // Inputs each frame was last simulated with, per port
+  history: Map<number, string[][]> = new Map();
+  // Makes this core drift from its peers, like a nondeterministic one would
+  drift = false;
+
+  getCurrentGame() {
+    return { checksum: 'rom-sha1' };
+  }
+
+  async getCoreInfo() {
+    return null;
+  }
+
+  getFrameRate(): number {
+    return 200;
+  }
+
+  getEmulationState() {
+    return { isRunning: false, isPaused: false, currentFrame: this.frame };
+  }
+
+  async pauseEmulation(): Promise<void> {}
+
+  setInputOverride(): void {}
+
+  getControls(): GameControls {
+    return { ...this.controls };
+  }
+
+  press(buttons: string[]): void {
+    this.controls = controlsFromButtons(buttons);
+    this.emit('controlsUpdated', this.getControls());
+  }
+
+  setPortControls(port: number, controls: GameControls): void {
+    this.ports[port] = Object.keys(controls).filter(button => controls[button]);
+  }
+
+  async getStateSnapshot(): Promise<Uint8Array> {
+    return new TextEncoder().encode(JSON.stringify({ frame: this.frame, value: this.value }));
+  }
+
+  async restoreStateSnapshot(state: Uint8Array): Promise<boolean> {
+    ({ frame: this.frame, value: this.value } = JSON.parse(new TextDecoder().decode(state)));
+    return true;
+  }
+
+  async stepFrames(count: number): Promise<number> {
+    for (let step = 0; step < count; step++) {
+      this.history.set(this.frame, this.ports.map(buttons => buttons.slice()));
+      for (const char of JSON.stringify(this.ports)) {
+        this.value = (this.value * 33 + char.charCodeAt(0)) >>> 0;
+      }
+      if (this.drift) {
+        this.value ^= 1;
+      }
+      this.frame++;
+    }
+    return this.frame;
+  }
+}
+
+const settle = (ms = 20) => new Promise(resolve => setTimeout(resolve, ms));
+
+const until = async (condition: () => boolean, timeout = 3000) => {
+  const deadline = Date.now() + timeout;
+  while (!condition()) {
+    if (Date.now() > deadline) {
+      throw new Error('Timed out waiting for the session');
+    }
+    await settle(5);
+  }
+};
+
+describe('NetplaySession', () => {
+  let network: LoopbackNetwork;
+  let hostEngine: FakeEngine;
+  let guestEngine: FakeEngine;
+  let host: NetplaySession;
+  let guest: NetplaySession;
+  let errors: Error[];
+
+  const createSessions = (latency: number, options: { inputDelay?: number; checksumInterval?: number } = {}) => {
+    network = new LoopbackNetwork({ latency });
+    host = new NetplaySession(hostEngine as unknown as GameEmulationEngine, network.createTransport('host'), {
+      maxPrediction: 16,
+      ...options
+    });
+    guest = new NetplaySession(guestEngine as unknown as GameEmulationEngine, network.createTransport('guest'), {
+      maxPrediction: 16
+    });
+    guest.on('error', error => errors.push(error));
+  };
+
+  const startSession = async () => {
+    host.host();
+    const joined = guest.join('host');
+    await until(() => host.getPlayers().length === 2);
+    await host.start();
+    expect(await joined).toBe(true);
+  };
+
+  beforeEach(() => {
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    hostEngine = new FakeEngine();
+    guestEngine = new FakeEngine();
+    errors = [];
+  });
+
+  afterEach(async () => {
+    host.stop();
+    guest.stop();
+    await settle(50);
+    jest.restoreAllMocks();
+  });
+
+  it('delays every player\'s input by inputDelay frames on both peers', async () => {
+    createSessions(5, { inputDelay: 3 });
+    hostEngine.press(['a']);
+    await startSession();
+
+    await until(() => host.getStats().confirmedFrame >= 10 && guest.getStats().confirmedFrame >= 10);
+    await settle(50);
+
+    for (const engine of [hostEngine, guestEngine]) {
+      expect([0, 1, 2].map(frame => engine.history.get(frame)![0])).toEqual([[], [], []]);
+      expect(engine.history.get(3)![0]).toEqual(['a']);
+    }
+  });
+
+  it('rolls back and resimulates when a remote input arrives late', async () => {
+    createSessions(30, { inputDelay: 0, checksumInterval: 10 });
+    const rollbacks: Array<{ from: number; frames: number }> = [];
+    const desyncs: NetplayDesync[] = [];
+    host.on('rollback', rollback => rollbacks.push(rollback));
+    host.on('desync', desync => desyncs.push(desync));
+    await startSession();
+
+    await until(() => guest.getStats().frame >= 10);
+    guestEngine.press(['b']);
+    await until(() => host.getStats().rollbacks > 0);
+    await until(() => host.getStats().confirmedFrame >= 40 && guest.getStats().confirmedFrame >= 40);
+
+    expect(rollbacks[0]!.frames).toBeGreaterThan(0);
+    expect(host.getStats().resimulatedFrames).toBeGreaterThanOrEqual(rollbacks[0]!.frames);
+    // Once resimulated, the host played the guest's press on the very frames the guest did
+    for (let frame = 0; frame <= 30; frame++) {
+      expect(hostEngine.history.get(frame)?.[1]).toEqual(guestEngine.history.get(frame)?.[1]);
+    }
+    expect(desyncs).toEqual([]);
+  });
+
+  it('reports a desync when a peer\'s state checksum differs', async () => {
+    createSessions(5, { checksumInterval: 5 });
+    const desyncs: NetplayDesync[] = [];
+    host.on('desync', desync => desyncs.push(desync));
+    guestEngine.drift = true;
+    await startSession();
+
+    await until(() => desyncs.length > 0);
+
+    expect(desyncs[0]).toEqual(expect.objectContaining({ frame: 5, peerId: 'guest' }));
+    expect(desyncs[0]!.local).not.toBe(desyncs[0]!.remote);
+    expect(host.getStats().desyncs).toBeGreaterThan(0);
+  });
+
+  it('keeps the host playing when a player leaves', async () => {
+    createSessions(5);
+    const left = jest.fn();
+    host.on('playerLeft', left);
+    await startSession();
+    await until(() => host.getStats().frame >= 5);
+
+    guest.stop();
+    await until(() => left.mock.calls.length > 0);
+    const frame = host.getStats().frame;
+    await settle(50);
+
+    expect(left).toHaveBeenCalledWith(expect.objectContaining({ peerId: 'guest', port: 1 }));
+    expect(host.isRunning()).toBe(true);
+    expect(host.getStats().frame).toBeGreaterThan(frame);
+  });
+
+  it('ends a player\'s session with an error when the host leaves', async () => {
+    createSessions(5);
+    const hostLeft = jest.fn();
+    guest.on('hostLeft', hostLeft);
+    await startSession();
+    await until(() => guest.getStats().frame >= 5);
+
+    host.stop();
+    await until(() => !guest.isRunning());
+
+    expect(hostLeft).toHaveBeenCalled();
+    expect(errors.map(error => error.message)).toEqual(['Host left the netplay session']);
+  });
+
+  it('fails a pending join when the host leaves the lobby', async () => {
+    createSessions(5);
+    host.host();
+    const joined = guest.join('host');
+    await until(() => host.getPlayers().length === 2);
+
+    host.stop();
+
+    await expect(joined).rejects.toThrow('Host left the netplay session');
+  });
+
+  it('ends a kicked player\'s session while the others play on', async () => {
+    createSessions(5);
+    const left = jest.fn();
+    host.on('playerLeft', left);
+    await startSession();
+    await until(() => guest.getStats().frame >= 5);
+
+    expect(host.kick('guest')).toBe(true);
+    await until(() => !guest.isRunning());
+
+    expect(left).toHaveBeenCalledWith(expect.objectContaining({ peerId: 'guest' }));
+    expect(errors.map(error => error.message)).toEqual(['Removed from the netplay session by the host']);
+    expect(host.isRunning()).toBe(true);
+    expect(host.kick('guest')).toBe(false);
+  });
+
+  it('turns a kicked player away from the lobby', async () => {
+    createSessions(5);
+    host.host();
+    const joined = guest.join('host');
+    await until(() => host.getPlayers().length === 2);
+
+    expect(host.kick('guest')).toBe(true);
+
+    expect(await joined).toBe(false);
+    expect(host.getPlayers().map(player => player.peerId)).toEqual(['host']);
+  });
+
+  it('starts again from fresh state after stopping', async () => {
+    createSessions(30, { inputDelay: 0, checksumInterval: 10 });
+    await startSession();
+    await until(() => guest.getStats().frame >= 10);
+    guestEngine.press(['b']);
+    await until(() => host.getStats().rollbacks > 0);
+
+    guest.stop();
+    host.stop();
+    expect(host.getStats()).toEqual({ frame: 0, confirmedFrame: 0, rollbacks: 0, resimulatedFrames: 0, stalls: 0, desyncs: 0 });
+    expect(host.getPlayers()).toEqual([]);
+    expect(host.getLocalPort()).toBeNull();
+
+    await settle(50);
+    const desyncs: NetplayDesync[] = [];
+    host.on('desync', desync => desyncs.push(desync));
+    const restartFrame = hostEngine.frame;
+    await startSession();
+    await until(() => host.getStats().confirmedFrame >= restartFrame + 25 && guest.getStats().confirmedFrame >= restartFrame + 25);
+
+    expect(host.getStats().frame).toBeGreaterThan(restartFrame);
+    expect(desyncs).toEqual([]);
+    expect(errors).toEqual([]);
+  });
+});
@@ -0,0 +1,940 @@
+// 3kMLV Arcade - Rollback Netplay
+// GGPO-style sessions for two to four players plus spectators on top of GameEmulationEngine
+
+import { EventEmitter } from 'events';
+import type { GameControls, GameEmulationEngine } from './GameEmulationEngine';
+import { NetplayMessage, NetplayPlayer, NetplayRole, NetplayTransport } from './NetplayTransport';
+import { MovieRecorder, controlsFromButtons, encodeMovie } from './InputMovie';
+import { base64Decode, base64Encode, sha1Hex } from './BinaryUtils';
+
+export interface NetplayOptions {
+  name?: string;
+  // Frames between pressing a button and it taking effect; hides that much latency without rollback
+  inputDelay?: number;
+  // Frames the local simulation may run ahead of the slowest confirmed input before stalling
+  maxPrediction?: number;
+  checksumInterval?: number;
+  maxPlayers?: number;
+}
+
+export interface NetplayStats {
+  frame: number;
+  confirmedFrame: number;
+  rollbacks: number;
+  resimulatedFrames: number;
+  stalls: number;
+  desyncs: number;
+}
+
+export interface NetplayDesync {
+  frame: number;
+  peerId: string;
+  local: string;
+  remote: string;
+}
+
+type SessionRole = 'host' | NetplayRole;
+
+const DEFAULT_INPUT_DELAY = 2;
+const DEFAULT_MAX_PREDICTION = 8;
+const DEFAULT_CHECKSUM_INTERVAL = 60;
+const DEFAULT_MAX_PLAYERS = 4;
+const MAX_INPUT_BATCH = 64;
+// Spectators that fall behind replay this many confirmed frames per tick to catch up
+const SPECTATOR_CATCH_UP = 4;
+
+export class NetplaySession extends EventEmitter {
+  private engine: GameEmulationEngine;
+  private transport: NetplayTransport;
+  private name: string;
+  private inputDelay: number;
+  private maxPrediction: number;
+  private checksumInterval: number;
+  private maxPlayers: number;
+  // Joining a session takes the host's settings; these come back when it ends
+  private configured: { inputDelay: number; checksumInterval: number };
+
+  private role: SessionRole | null = null;
+  private hostPeerId: string | null = null;
+  private lobby: NetplayPlayer[] = [];
+  private players: NetplayPlayer[] = [];
+  private spectators: Set<string> = new Set();
+  private localPort: number | null = null;
+  private running = false;
+
+  private startFrame = 0;
+  private frame = 0;
+  private inputs: Map<number, Map<number, string[]>> = new Map();
+  private confirmedThrough: Map<number, number> = new Map();
+  private disconnectedPorts: Set<number> = new Set();
+  private usedInputs: Map<number, string[][]> = new Map();
+  private states: Map<number, Uint8Array> = new Map();
+  private rollbackFrame: number | null = null;
+  private localButtons: string[] = [];
+  private ackedByPeer: Map<string, number> = new Map();
+  private remoteFrames: Map<number, number> = new Map();
+  private remoteAdvantages: Map<number, number> = new Map();
+  private relayedThrough = 0;
+  private nextChecksumFrame = 0;
+  private localChecksums: Map<number, string> = new Map();
+  private remoteChecksums: Map<number, Map<string, string>> = new Map();
+  private recorder: MovieRecorder | null = null;
+  private recordedThrough = 0;
+  private stats: NetplayStats = { frame: 0, confirmedFrame: 0, rollbacks: 0, resimulatedFrames: 0, stalls: 0, desyncs: 0 };
+
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private ticking = false;
+  // Bumped on every reset so a tick still awaiting the engine cannot touch the next session
+  private session = 0;
+  private unsubscribe: (() => void) | null = null;
+  private pendingJoin: { resolve: (joined: boolean) => void; reject: (error: Error) => void } | null = null;
+  private handleControls = (controls: GameControls) => {
+    this.localButtons = Object.keys(controls).filter(button => controls[button]);
+  };
+
+  constructor(engine: GameEmulationEngine, transport: NetplayTransport, options: NetplayOptions = {}) {
+    super();
+    this.engine = engine;
+    this.transport = transport;
+    this.name = options.name ?? transport.localPeerId;
+    this.inputDelay = Math.max(0, options.inputDelay ?? DEFAULT_INPUT_DELAY);
+    this.maxPrediction = Math.max(0, options.maxPrediction ?? DEFAULT_MAX_PREDICTION);
+    this.checksumInterval = Math.max(1, options.checksumInterval ?? DEFAULT_CHECKSUM_INTERVAL);
+    this.maxPlayers = Math.min(DEFAULT_MAX_PLAYERS, options.maxPlayers ?? DEFAULT_MAX_PLAYERS);
+    this.configured = { inputDelay: this.inputDelay, checksumInterval: this.checksumInterval };
+  }
+
+  // Host: collects players until start()
+  public host(): void {
+    this.requireIdle();
+    this.role = 'host';
+    this.hostPeerId = this.transport.localPeerId;
+    this.lobby = [{ peerId: this.transport.localPeerId, port: 0, name: this.name }];
+    this.listen();
+  }
+
+  public async start(): Promise<boolean> {
+    try {
+      if (this.role !== 'host' || this.running) {
+        throw new Error('Only a host that has not started can start the session');
+      }
+
+      const rom = this.requireRom();
+      await this.pauseEngine();
+      const state = await this.engine.getStateSnapshot();
+      const frame = this.engine.getEmulationState().currentFrame;
+
+      this.players = this.lobby.map((player, port) => ({ ...player, port }));
+      for (const player of this.players) {
+        if (player.peerId !== this.transport.localPeerId) {
+          this.transport.send(player.peerId, {
+            type: 'start',
+            players: this.players,
+            frame,
+            state: base64Encode(state),
+            inputDelay: this.inputDelay,
+            checksumInterval: this.checksumInterval,
+            romChecksum: rom.checksum
+          });
+        }
+      }
+
+      this.begin(frame, state, 0);
+      this.run();
+      for (const spectator of this.spectators) {
+        this.sendSpectatorStart(spectator);
+      }
+      return true;
+    } catch (error) {
+      console.error('Failed to start netplay session:', error);
+      this.emit('error', error);
+      return false;
+    }
+  }
+
+  // Resolves once the host starts the session, false if it rejects us
+  public join(hostPeerId: string): Promise<boolean> {
+    return this.connect(hostPeerId, 'player');
+  }
+
+  public spectate(hostPeerId: string): Promise<boolean> {
+    return this.connect(hostPeerId, 'spectator');
+  }
+
+  public stop(): void {
+    if (this.role === null) {
+      return;
+    }
+
+    this.transport.broadcast({ type: 'leave' });
+    this.stopTimer();
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+    this.engine.off('controlsUpdated', this.handleControls);
+    if (this.running) {
+      this.engine.setInputOverride(false);
+    }
+
+    const wasRunning = this.running;
+    const stats = this.getStats();
+    this.running = false;
+    this.role = null;
+    this.resetSession();
+    this.pendingJoin?.resolve(false);
+    this.pendingJoin = null;
+    if (wasRunning) {
+      this.emit('stopped', stats);
+    }
+  }
+
+  // Host: removes a player from the lobby, or cuts them from a running session as if they had left
+  public kick(peerId: string): boolean {
+    if (this.role !== 'host' || peerId === this.transport.localPeerId) {
+      return false;
+    }
+
+    if (!this.running) {
+      const player = this.lobby.find(candidate => candidate.peerId === peerId);
+      if (!player) {
+        return false;
+      }
+      this.lobby = this.lobby.filter(candidate => candidate !== player);
+      this.transport.send(peerId, { type: 'reject', reason: 'Removed by the host' });
+      this.emit('playerLeft', player);
+      return true;
+    }
+
+    const player = this.players.find(candidate => candidate.peerId === peerId);
+    if (!player || this.disconnectedPorts.has(player.port)) {
+      return false;
+    }
+    this.cutPlayer(player);
+    return true;
+  }
+
+  // Confirmed inputs so far as an .mlvm movie anchored to the session's start state
+  public exportReplay(): Uint8Array | null {
+    return this.recorder ? encodeMovie(this.recorder.finish()) : null;
+  }
+
+  public getPlayers(): NetplayPlayer[] {
+    return this.running ? this.players.slice() : this.lobby.slice();
+  }
+
+  public getLocalPort(): number | null {
+    return this.localPort;
+  }
+
+  public getStats(): NetplayStats {
+    return { ...this.stats, frame: this.frame, confirmedFrame: this.getConfirmedFrame() };
+  }
+
+  public isRunning(): boolean {
+    return this.running;
+  }
+
+  private connect(hostPeerId: string, role: NetplayRole): Promise<boolean> {
+    this.requireIdle();
+    const rom = this.requireRom();
+    this.role = role;
+    this.hostPeerId = hostPeerId;
+    this.listen();
+
+    return new Promise((resolve, reject) => {
+      this.pendingJoin = { resolve, reject };
+      this.transport.send(hostPeerId, { type: 'hello', role, name: this.name, romChecksum: rom.checksum });
+    });
+  }
+
+  private listen(): void {
+    this.unsubscribe = this.transport.onMessage((peerId, message) => {
+      try {
+        this.handleMessage(peerId, message);
+      } catch (error) {
+        console.error('Netplay message failed:', error);
+        this.emit('error', error);
+      }
+    });
+  }
+
+  private handleMessage(peerId: string, message: NetplayMessage): void {
+    switch (message.type) {
+      case 'hello':
+        this.handleHello(peerId, message);
+        break;
+      case 'start':
+        this.handleStart(peerId, message);
+        break;
+      case 'reject':
+        if (peerId === this.hostPeerId && this.pendingJoin) {
+          this.pendingJoin.resolve(false);
+          this.pendingJoin = null;
+          this.emit('rejected', message.reason);
+          this.stop();
+        }
+        break;
+      case 'input':
+        this.handleInput(peerId, message);
+        break;
+      case 'ack':
+        if (message.port === this.localPort) {
+          this.ackedByPeer.set(peerId, Math.max(this.ackedByPeer.get(peerId) ?? -1, message.frame));
+        }
+        break;
+      case 'confirmed':
+        if (peerId === this.hostPeerId) {
+          message.inputs.forEach((ports, offset) => {
+            ports.forEach((buttons, port) => this.storeConfirmed(port, message.frame + offset, buttons));
+          });
+        }
+        break;
+      case 'checksum':
+        this.handleChecksum(peerId, message.frame, message.sha1);
+        break;
+      case 'leave':
+        this.handleLeave(peerId);
+        break;
+      case 'disconnect':
+        this.handleDisconnect(peerId, message);
+        break;
+    }
+  }
+
+  private handleHello(peerId: string, message: Extract<NetplayMessage, { type: 'hello' }>): void {
+    if (this.role !== 'host') {
+      return;
+    }
+
+    const romChecksum = this.requireRom().checksum;
+    if (message.romChecksum !== romChecksum) {
+      this.transport.send(peerId, { type: 'reject', reason: 'ROM mismatch' });
+      return;
+    }
+
+    if (message.role === 'spectator') {
+      this.spectators.add(peerId);
+      if (this.running) {
+        this.sendSpectatorStart(peerId);
+      }
+      this.emit('spectatorJoined', { peerId, name: message.name });
+      return;
+    }
+
+    if (this.running) {
+      this.transport.send(peerId, { type: 'reject', reason: 'Session already in progress' });
+      return;
+    }
+    if (this.lobby.length >= this.maxPlayers) {
+      this.transport.send(peerId, { type: 'reject', reason: 'Session is full' });
+      return;
+    }
+    if (!this.lobby.some(player => player.peerId === peerId)) {
+      const player: NetplayPlayer = { peerId, port: this.lobby.length, name: message.name };
+      this.lobby.push(player);
+      this.emit('playerJoined', player);
+    }
+  }
+
+  private handleStart(peerId: string, message: Extract<NetplayMessage, { type: 'start' }>): void {
+    if (peerId !== this.hostPeerId || this.running || !this.pendingJoin) {
+      return;
+    }
+
+    if (message.romChecksum !== this.requireRom().checksum) {
+      this.pendingJoin.reject(new Error('Host is running a different ROM'));
+      this.pendingJoin = null;
+      this.stop();
+      return;
+    }
+
+    const pendingJoin = this.pendingJoin;
+    this.pendingJoin = null;
+    this.players = message.players;
+    this.inputDelay = message.inputDelay;
+    this.checksumInterval = message.checksumInterval;
+    const localPort = this.role === 'player'
+      ? this.players.find(player => player.peerId === this.transport.localPeerId)?.port ?? null
+      : null;
+
+    // Tables are set up right away so relayed inputs arriving during the restore are kept
+    const state = base64Decode(message.state);
+    this.begin(message.frame, state, localPort);
+    this.pauseEngine()
+      .then(() => this.engine.restoreStateSnapshot(state))
+      .then(() => {
+        this.run();
+        pendingJoin.resolve(true);
+      })
+      .catch(error => pendingJoin.reject(error));
+  }
+
+  private begin(frame: number, state: Uint8Array, localPort: number | null): void {
+    this.recorder = null;
+    this.startFrame = frame;
+    this.frame = frame;
+    this.localPort = localPort;
+    // Checksum frames are absolute so spectators joining mid-game line up with the players
+    this.nextChecksumFrame = (Math.floor(frame / this.checksumInterval) + 1) * this.checksumInterval;
+    this.relayedThrough = frame - 1;
+    this.recordedThrough = frame - 1;
+    this.states.set(frame, state);
+
+    // Nobody can have pressed anything inside the initial input delay window; spectators
+    // joining mid-game get those frames relayed like any other
+    const prefilled = this.role === 'spectator' ? 0 : this.inputDelay;
+    for (const player of this.players) {
+      const inputs = new Map<number, string[]>();
+      for (let pending = frame; pending < frame + prefilled; pending++) {
+        inputs.set(pending, []);
+      }
+      this.inputs.set(player.port, inputs);
+      this.confirmedThrough.set(player.port, frame + prefilled - 1);
+    }
+
+    const rom = this.requireRom();
+    const session = this.session;
+    this.engine.getCoreInfo()
+      .then(coreInfo => {
+        if (coreInfo && session === this.session) {
+          this.recorder = new MovieRecorder(rom, coreInfo, state, this.checksumInterval);
+        }
+      })
+      .catch(error => {
+        console.error('Netplay replay recording unavailable:', error);
+        this.emit('error', error);
+      });
+
+  }
+
+  private run(): void {
+    this.engine.setInputOverride(true);
+    this.engine.on('controlsUpdated', this.handleControls);
+    this.handleControls(this.engine.getControls());
+    this.running = true;
+    this.timer = setInterval(() => this.tick(), 1000 / this.engine.getFrameRate());
+    this.emit('started', { players: this.players, localPort: this.localPort, role: this.role });
+  }
+
+  private async tick(): Promise<void> {
+    if (this.ticking || !this.running) {
+      return;
+    }
+    this.ticking = true;
+    const session = this.session;
+
+    try {
+      if (this.role === 'spectator') {
+        await this.tickSpectator(session);
+        return;
+      }
+
+      await this.applyRollback();
+      if (session !== this.session) {
+        return;
+      }
+      this.queueLocalInput();
+      this.sendInputs();
+
+      if (this.frame > this.getConfirmedFrame() + this.maxPrediction || this.shouldWaitForPeers()) {
+        this.stats.stalls++;
+        this.emit('stalled', this.frame);
+      } else {
+        await this.simulate(this.frame);
+        if (session !== this.session) {
+          return;
+        }
+        this.frame++;
+      }
+
+      this.sendChecksums();
+      this.relayConfirmed();
+      this.recordConfirmed();
+      this.prune();
+    } catch (error) {
+      console.error('Netplay tick failed:', error);
+      this.emit('error', error);
+    } finally {
+      this.ticking = false;
+    }
+  }
+
+  private async tickSpectator(session: number): Promise<void> {
+    const behind = this.getConfirmedFrame() - this.frame;
+    const frames = behind > this.maxPrediction ? SPECTATOR_CATCH_UP : 1;
+    for (let step = 0; step < frames && this.frame <= this.getConfirmedFrame(); step++) {
+      if (this.frame === this.nextChecksumFrame) {
+        const state = await this.engine.getStateSnapshot();
+        if (session !== this.session) {
+          return;
+        }
+        this.checkState(this.frame, state);
+        this.nextChecksumFrame += this.checksumInterval;
+      }
+      await this.simulate(this.frame, false);
+      if (session !== this.session) {
+        return;
+      }
+      this.frame++;
+    }
+    this.prune();
+  }
+
+  private async applyRollback(): Promise<void> {
+    const from = this.rollbackFrame;
+    if (from === null || from >= this.frame) {
+      this.rollbackFrame = null;
+      return;
+    }
+
+    const state = this.states.get(from);
+    if (!state) {
+      throw new Error(`Cannot roll back to frame ${from}: state no longer held`);
+    }
+
+    this.rollbackFrame = null;
+    await this.engine.restoreStateSnapshot(state);
+    for (let frame = from; frame < this.frame; frame++) {
+      await this.simulate(frame);
+    }
+
+    this.stats.rollbacks++;
+    this.stats.resimulatedFrames += this.frame - from;
+    this.emit('rollback', { from, to: this.frame, frames: this.frame - from });
+  }
+
+  private async simulate(frame: number, saveState: boolean = true): Promise<void> {
+    if (saveState) {
+      this.states.set(frame, await this.engine.getStateSnapshot());
+    }
+
+    const used = this.players.map(player => this.getInput(player.port, frame));
+    this.usedInputs.set(frame, used);
+    used.forEach((buttons, port) => this.engine.setPortControls(port, controlsFromButtons(buttons)));
+    await this.engine.stepFrames(1);
+  }
+
+  private queueLocalInput(): void {
+    if (this.localPort === null) {
+      return;
+    }
+    const target = this.frame + this.inputDelay;
+    const through = this.confirmedThrough.get(this.localPort) ?? this.frame - 1;
+    for (let frame = through + 1; frame <= target; frame++) {
+      this.storeConfirmed(this.localPort, frame, this.localButtons.slice());
+    }
+  }
+
+  // Everything the peer has not acknowledged is resent, so lost packets heal on the next tick
+  private sendInputs(): void {
+    if (this.localPort === null) {
+      return;
+    }
+
+    const through = this.confirmedThrough.get(this.localPort) ?? -1;
+    const localInputs = this.inputs.get(this.localPort)!;
+    for (const player of this.players) {
+      if (player.peerId === this.transport.localPeerId || this.disconnectedPorts.has(player.port)) {
+        continue;
+      }
+
+      const from = Math.max(this.startFrame, (this.ackedByPeer.get(player.peerId) ?? this.startFrame - 1) + 1);
+      const to = Math.min(through, from + MAX_INPUT_BATCH - 1);
+      if (from > to) {
+        continue;
+      }
+
+      const inputs: string[][] = [];
+      for (let frame = from; frame <= to; frame++) {
+        inputs.push(localInputs.get(frame) ?? []);
+      }
+      const remoteFrame = this.remoteFrames.get(player.port);
+      this.transport.send(player.peerId, {
+        type: 'input',
+        port: this.localPort,
+        frame: from,
+        inputs,
+        currentFrame: this.frame,
+        advantage: remoteFrame === undefined ? 0 : this.frame - remoteFrame
+      });
+    }
+  }
+
+  private handleInput(peerId: string, message: Extract<NetplayMessage, { type: 'input' }>): void {
+    const { port, frame, inputs } = message;
+    const player = this.players.find(candidate => candidate.port === port);
+    if (!this.running || !player || player.peerId !== peerId || port === this.localPort) {
+      return;
+    }
+
+    inputs.forEach((buttons, offset) => this.storeConfirmed(port, frame + offset, buttons));
+    this.remoteFrames.set(port, message.currentFrame);
+    this.remoteAdvantages.set(port, message.advantage);
+    this.transport.send(peerId, { type: 'ack', port, frame: this.confirmedThrough.get(port) ?? -1 });
+  }
+
+  private storeConfirmed(port: number, frame: number, buttons: string[]): void {
+    const through = this.confirmedThrough.get(port) ?? this.startFrame - 1;
+    if (frame !== through + 1) {
+      return;
+    }
+
+    const inputs = this.inputs.get(port) ?? new Map<number, string[]>();
+    inputs.set(frame, buttons);
+    this.inputs.set(port, inputs);
+    this.confirmedThrough.set(port, frame);
+
+    // A frame already simulated on a different prediction has to be replayed
+    const used = this.usedInputs.get(frame)?.[port];
+    if (used && frame < this.frame && !sameButtons(used, buttons)) {
+      this.rollbackFrame = Math.min(this.rollbackFrame ?? frame, frame);
+    }
+  }
+
+  // Confirmed input when known, otherwise the port's last confirmed input repeated
+  private getInput(port: number, frame: number): string[] {
+    const inputs = this.inputs.get(port);
+    const confirmed = inputs?.get(frame);
+    if (confirmed) {
+      return confirmed;
+    }
+    if (this.disconnectedPorts.has(port)) {
+      return [];
+    }
+    return inputs?.get(this.confirmedThrough.get(port) ?? -1) ?? [];
+  }
+
+  private getConfirmedFrame(): number {
+    let confirmed = Infinity;
+    for (const player of this.players) {
+      if (!this.disconnectedPorts.has(player.port)) {
+        confirmed = Math.min(confirmed, this.confirmedThrough.get(player.port) ?? this.startFrame - 1);
+      }
+    }
+    return confirmed === Infinity ? this.frame : confirmed;
+  }
+
+  // Time sync: with symmetric latency both sides see the same advantage; whoever sees more
+  // is genuinely ahead and gives up a frame now and then
+  private shouldWaitForPeers(): boolean {
+    for (const [port, remoteFrame] of this.remoteFrames) {
+      if (this.disconnectedPorts.has(port)) {
+        continue;
+      }
+      const localAdvantage = this.frame - remoteFrame;
+      const remoteAdvantage = this.remoteAdvantages.get(port) ?? 0;
+      if ((localAdvantage - remoteAdvantage) / 2 >= 1 && this.frame % 2 === 0) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  // The state before frame N is final once every input for frames < N is confirmed, and saved
+  // once frame N has been simulated
+  private sendChecksums(): void {
+    const finalThrough = Math.min(this.getConfirmedFrame() + 1, this.frame - 1, this.rollbackFrame ?? Infinity);
+    while (this.nextChecksumFrame <= finalThrough) {
+      const frame = this.nextChecksumFrame;
+      const state = this.states.get(frame);
+      this.nextChecksumFrame += this.checksumInterval;
+      if (!state) {
+        continue;
+      }
+
+      this.recorder?.recordCheckpoint(frame - this.startFrame, state);
+      const sha1 = this.checkState(frame, state);
+      for (const player of this.players) {
+        if (player.peerId !== this.transport.localPeerId && !this.disconnectedPorts.has(player.port)) {
+          this.transport.send(player.peerId, { type: 'checksum', frame, sha1 });
+        }
+      }
+      if (this.role === 'host') {
+        this.spectators.forEach(spectator => this.transport.send(spectator, { type: 'checksum', frame, sha1 }));
+      }
+    }
+  }
+
+  private checkState(frame: number, state: Uint8Array): string {
+    const sha1 = sha1Hex(state);
+    this.localChecksums.set(frame, sha1);
+    for (const [peerId, remote] of this.remoteChecksums.get(frame) ?? []) {
+      this.compareChecksum(frame, peerId, sha1, remote);
+    }
+    return sha1;
+  }
+
+  private handleChecksum(peerId: string, frame: number, sha1: string): void {
+    const local = this.localChecksums.get(frame);
+    if (local) {
+      this.compareChecksum(frame, peerId, local, sha1);
+      return;
+    }
+    const remote = this.remoteChecksums.get(frame) ?? new Map<string, string>();
+    remote.set(peerId, sha1);
+    this.remoteChecksums.set(frame, remote);
+  }
+
+  private compareChecksum(frame: number, peerId: string, local: string, remote: string): void {
+    if (local !== remote) {
+      const desync: NetplayDesync = { frame, peerId, local, remote };
+      this.stats.desyncs++;
+      this.emit('desync', desync);
+    }
+  }
+
+  private relayConfirmed(): void {
+    const through = this.getConfirmedFrame();
+    if (this.role === 'host' && through > this.relayedThrough) {
+      for (const spectator of this.spectators) {
+        this.sendConfirmed(spectator, this.relayedThrough + 1, through);
+      }
+    }
+    this.relayedThrough = Math.max(this.relayedThrough, through);
+  }
+
+  private sendConfirmed(peerId: string, from: number, through: number): void {
+    const inputs: string[][][] = [];
+    for (let frame = from; frame <= through; frame++) {
+      inputs.push(this.players.map(player => this.getInput(player.port, frame)));
+    }
+    if (inputs.length > 0) {
+      this.transport.send(peerId, { type: 'confirmed', frame: from, inputs });
+    }
+  }
+
+  private sendSpectatorStart(peerId: string): void {
+    // Start the spectator at the newest state that is both final and already saved
+    const frame = Math.max(
+      this.startFrame,
+      Math.min(this.getConfirmedFrame() + 1, this.frame - 1, this.rollbackFrame ?? Infinity)
+    );
+    const state = this.states.get(frame);
+    if (!state) {
+      this.transport.send(peerId, { type: 'reject', reason: 'No confirmed state available yet' });
+      return;
+    }
+
+    this.transport.send(peerId, {
+      type: 'start',
+      players: this.players,
+      frame,
+      state: base64Encode(state),
+      inputDelay: this.inputDelay,
+      checksumInterval: this.checksumInterval,
+      romChecksum: this.requireRom().checksum
+    });
+    this.sendConfirmed(peerId, frame, this.relayedThrough);
+  }
+
+  private recordConfirmed(): void {
+    const recorder = this.recorder;
+    if (!recorder) {
+      return;
+    }
+    const through = this.getConfirmedFrame();
+    for (let frame = this.recordedThrough + 1; frame <= through; frame++) {
+      for (const player of this.players) {
+        recorder.recordInput(frame - this.startFrame, player.port, controlsFromButtons(this.getInput(player.port, frame)));
+      }
+      recorder.advanceTo(frame + 1 - this.startFrame);
+    }
+    this.recordedThrough = Math.max(this.recordedThrough, through);
+  }
+
+  // Only the first unconfirmed frame onward can be rolled back to; older history is dropped
+  private prune(): void {
+    const keepFrom = Math.min(
+      this.getConfirmedFrame() + 1,
+      this.frame - 1,
+      this.nextChecksumFrame,
+      this.rollbackFrame ?? Infinity
+    );
+    for (const frame of this.states.keys()) {
+      if (frame < keepFrom) {
+        this.states.delete(frame);
+      }
+    }
+    for (const frame of this.usedInputs.keys()) {
+      if (frame < keepFrom) {
+        this.usedInputs.delete(frame);
+      }
+    }
+
+    const inputsFrom = Math.min(keepFrom, this.relayedThrough + 1, this.recordedThrough + 1) - 1;
+    for (const inputs of this.inputs.values()) {
+      for (const frame of inputs.keys()) {
+        if (frame < inputsFrom) {
+          inputs.delete(frame);
+        }
+      }
+    }
+    for (const checksums of [this.localChecksums, this.remoteChecksums]) {
+      for (const frame of checksums.keys()) {
+        if (frame < keepFrom - this.checksumInterval * 4) {
+          checksums.delete(frame);
+        }
+      }
+    }
+  }
+
+  private handleLeave(peerId: string): void {
+    if (this.spectators.delete(peerId)) {
+      this.emit('spectatorLeft', { peerId });
+      return;
+    }
+
+    // Only the host confirms who plays and cuts departed players, so nobody can carry on without it
+    if (peerId === this.hostPeerId && this.role !== 'host') {
+      this.emit('hostLeft');
+      this.fail(new Error('Host left the netplay session'));
+      return;
+    }
+
+    const player = this.players.find(candidate => candidate.peerId === peerId);
+    if (!player || this.disconnectedPorts.has(player.port)) {
+      this.lobby = this.lobby.filter(candidate => candidate.peerId !== peerId);
+      return;
+    }
+
+    // Peers can hold different amounts of the departed player's input, so only the host picks the
+    // last frame it played; everyone else keeps predicting until that cut arrives
+    if (this.role === 'host') {
+      this.cutPlayer(player);
+    }
+  }
+
+  // Host: picks the last frame of the player's input everyone plays and tells the other peers,
+  // the player included so a kicked one knows it is out
+  private cutPlayer(player: NetplayPlayer): void {
+    const through = this.confirmedThrough.get(player.port) ?? this.startFrame - 1;
+    const held = this.inputs.get(player.port) ?? new Map<number, string[]>();
+    let from = through + 1;
+    while (from > through - MAX_INPUT_BATCH + 1 && held.has(from - 1)) {
+      from--;
+    }
+    const inputs: string[][] = [];
+    for (let frame = from; frame <= through; frame++) {
+      inputs.push(held.get(frame)!);
+    }
+
+    for (const other of this.players) {
+      if (other.peerId !== this.transport.localPeerId && !this.disconnectedPorts.has(other.port)) {
+        this.transport.send(other.peerId, { type: 'disconnect', port: player.port, frame: from, inputs });
+      }
+    }
+    this.disconnect(player, through);
+  }
+
+  private handleDisconnect(peerId: string, message: Extract<NetplayMessage, { type: 'disconnect' }>): void {
+    const player = this.players.find(candidate => candidate.port === message.port);
+    if (peerId !== this.hostPeerId || !this.running || !player || this.disconnectedPorts.has(player.port)) {
+      return;
+    }
+    if (player.port === this.localPort) {
+      this.fail(new Error('Removed from the netplay session by the host'));
+      return;
+    }
+
+    message.inputs.forEach((buttons, offset) => this.storeConfirmed(player.port, message.frame + offset, buttons));
+
+    // Input that reached us but not the host was never played by anyone else
+    const cut = message.frame + message.inputs.length - 1;
+    const through = this.confirmedThrough.get(player.port) ?? this.startFrame - 1;
+    const inputs = this.inputs.get(player.port);
+    for (let frame = cut + 1; frame <= through; frame++) {
+      inputs?.delete(frame);
+    }
+    this.confirmedThrough.set(player.port, Math.min(through, cut));
+    this.disconnect(player, Math.min(through, cut));
+  }
+
+  // The departed player's frames after `through` become "no input"; replay any we predicted otherwise
+  private disconnect(player: NetplayPlayer, through: number): void {
+    this.disconnectedPorts.add(player.port);
+    for (let frame = through + 1; frame < this.frame; frame++) {
+      const used = this.usedInputs.get(frame)?.[player.port];
+      if (used && used.length > 0) {
+        this.rollbackFrame = Math.min(this.rollbackFrame ?? frame, frame);
+        break;
+      }
+    }
+    this.emit('playerLeft', player);
+  }
+
+  // Ends the session for a reason outside our control; a join still waiting on the host fails with it
+  private fail(error: Error): void {
+    const pendingJoin = this.pendingJoin;
+    this.pendingJoin = null;
+    this.stop();
+    if (pendingJoin) {
+      pendingJoin.reject(error);
+      return;
+    }
+    console.error('Netplay session ended:', error);
+    this.emit('error', error);
+  }
+
+  // Everything but the replay of the last session, which stays exportable until the next one begins
+  private resetSession(): void {
+    this.session++;
+    this.inputDelay = this.configured.inputDelay;
+    this.checksumInterval = this.configured.checksumInterval;
+    this.hostPeerId = null;
+    this.lobby = [];
+    this.players = [];
+    this.spectators = new Set();
+    this.localPort = null;
+    this.startFrame = 0;
+    this.frame = 0;
+    this.inputs = new Map();
+    this.confirmedThrough = new Map();
+    this.disconnectedPorts = new Set();
+    this.usedInputs = new Map();
+    this.states = new Map();
+    this.rollbackFrame = null;
+    this.localButtons = [];
+    this.ackedByPeer = new Map();
+    this.remoteFrames = new Map();
+    this.remoteAdvantages = new Map();
+    this.relayedThrough = 0;
+    this.nextChecksumFrame = 0;
+    this.localChecksums = new Map();
+    this.remoteChecksums = new Map();
+    this.recordedThrough = 0;
+    this.stats = { frame: 0, confirmedFrame: 0, rollbacks: 0, resimulatedFrames: 0, stalls: 0, desyncs: 0 };
+  }
+
+  private async pauseEngine(): Promise<void> {
+    const state = this.engine.getEmulationState();
+    if (state.isRunning && !state.isPaused) {
+      await this.engine.pauseEmulation();
+    }
+  }
+
+  private requireRom() {
+    const rom = this.engine.getCurrentGame();
+    if (!rom) {
+      throw new Error('Load the game before starting netplay');
+    }
+    return rom;
+  }
+
+  private requireIdle(): void {
+    if (this.role !== null) {
+      throw new Error('Netplay session is already active');
+    }
+  }
+
+  private stopTimer(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+}
+
+function sameButtons(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every(button => b.includes(button));
+}
+
+export default NetplaySession;
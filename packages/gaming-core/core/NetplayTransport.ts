@@ -0,0 +1,144 @@
+// 3kMLV Arcade - Netplay Transport
+// Message contract for rollback netplay and an in-process loopback network
+
+export type NetplayRole = 'player' | 'spectator';
+
+export interface NetplayPlayer {
+  peerId: string;
+  port: number;
+  name: string;
+}
+
+export type NetplayMessage =
+  | { type: 'hello'; role: NetplayRole; name: string; romChecksum: string }
+  | {
+      type: 'start';
+      players: NetplayPlayer[];
+      frame: number;
+      // Base64 emulator state at `frame`
+      state: string;
+      inputDelay: number;
+      checksumInterval: number;
+      romChecksum: string;
+    }
+  // Button lists for consecutive frames starting at `frame`; resent until acknowledged.
+  // `advantage` is how many frames the sender believes it runs ahead of the recipient.
+  | { type: 'input'; port: number; frame: number; inputs: string[][]; currentFrame: number; advantage: number }
+  | { type: 'ack'; port: number; frame: number }
+  // Confirmed inputs for every port, relayed by the host to spectators
+  | { type: 'confirmed'; frame: number; inputs: string[][][] }
+  | { type: 'checksum'; frame: number; sha1: string }
+  // The host's cut for a player who left: `inputs` are the port's last confirmed frames starting at
+  // `frame`, and every frame after them is no input on every peer
+  | { type: 'disconnect'; port: number; frame: number; inputs: string[][] }
+  | { type: 'reject'; reason: string }
+  | { type: 'leave' };
+
+export interface NetplayTransport {
+  readonly localPeerId: string;
+  send(peerId: string, message: NetplayMessage): void;
+  broadcast(message: NetplayMessage): void;
+  // Returns an unsubscribe function
+  onMessage(handler: (peerId: string, message: NetplayMessage) => void): () => void;
+  close(): void;
+}
+
+export interface LoopbackOptions {
+  // One-way delay in milliseconds, plus up to `jitter` extra
+  latency?: number;
+  jitter?: number;
+}
+
+// Delivers messages between transports in the same process, optionally with simulated latency.
+// Messages go through JSON so nothing that would not survive a real wire slips through.
+export class LoopbackNetwork {
+  private transports: Map<string, LoopbackTransport> = new Map();
+  private latency: number;
+  private jitter: number;
+  // Per-link queues keep each link in order, like a TCP or reliable BLE channel
+  private lastDelivery: Map<string, number> = new Map();
+  private queues: Map<string, string[]> = new Map();
+
+  constructor(options: LoopbackOptions = {}) {
+    this.latency = options.latency ?? 0;
+    this.jitter = options.jitter ?? 0;
+  }
+
+  public createTransport(peerId: string): LoopbackTransport {
+    if (this.transports.has(peerId)) {
+      throw new Error(`Peer ${peerId} is already on this network`);
+    }
+    const transport = new LoopbackTransport(this, peerId);
+    this.transports.set(peerId, transport);
+    return transport;
+  }
+
+  public getPeerIds(): string[] {
+    return Array.from(this.transports.keys());
+  }
+
+  public deliver(from: string, to: string, message: NetplayMessage): void {
+    const target = this.transports.get(to);
+    if (!target || from === to) {
+      return;
+    }
+
+    const payload = JSON.stringify(message);
+    const link = `${from}>${to}`;
+    const now = Date.now();
+    const due = Math.max(now + this.latency + Math.random() * this.jitter, this.lastDelivery.get(link) ?? 0);
+    this.lastDelivery.set(link, due);
+    const queue = this.queues.get(link) ?? [];
+    queue.push(payload);
+    this.queues.set(link, queue);
+
+    // Timers due in the same millisecond may fire in any order, so each one takes the oldest message
+    setTimeout(() => {
+      const next = queue.shift();
+      if (next !== undefined && this.transports.get(to) === target) {
+        target.receive(from, JSON.parse(next));
+      }
+    }, due - now);
+  }
+
+  public remove(peerId: string): void {
+    this.transports.delete(peerId);
+  }
+}
+
+export class LoopbackTransport implements NetplayTransport {
+  public readonly localPeerId: string;
+  private network: LoopbackNetwork;
+  private handlers: Array<(peerId: string, message: NetplayMessage) => void> = [];
+
+  constructor(network: LoopbackNetwork, peerId: string) {
+    this.network = network;
+    this.localPeerId = peerId;
+  }
+
+  public send(peerId: string, message: NetplayMessage): void {
+    this.network.deliver(this.localPeerId, peerId, message);
+  }
+
+  public broadcast(message: NetplayMessage): void {
+    for (const peerId of this.network.getPeerIds()) {
+      this.network.deliver(this.localPeerId, peerId, message);
+    }
+  }
+
+  public onMessage(handler: (peerId: string, message: NetplayMessage) => void): () => void {
+    this.handlers.push(handler);
+    return () => {
+      this.handlers = this.handlers.filter(existing => existing !== handler);
+    };
+  }
+
+  public receive(peerId: string, message: NetplayMessage): void {
+    this.handlers.forEach(handler => handler(peerId, message));
+  }
+
+  public close(): void {
+    this.handlers = [];
+    this.network.remove(this.localPeerId);
+  }
+}
@@ -26,13 +26,30 @@ export interface PerformanceMetrics {
   throughput: number;
   cacheHitRate: number;
   compressionRatio: number;
+  // Frame pacing from PerformanceTelemetry's latest window
+  frameTimeP95?: number;
+  stutters?: number;
+}
+
+// Listener arguments per event, for EventSubscriptions
+export interface PerformanceEngineEvents {
+  initialized: [result: boolean];
+  optimized: [result: boolean];
+  metricsUpdated: [metrics: PerformanceMetrics];
+  configUpdated: [config: PerformanceConfig];
+  gpuAccelerationEnabled: [];
+  multithreadingEnabled: [];
+  optimizationLevelChanged: [level: string];
+  monitoringStarted: [];
+  monitoringStopped: [];
+  error: [error: unknown];
 }
 
 export class PerformanceEngine extends EventEmitter {
   private static instance: PerformanceEngine;
   private nativeModule: any;
-  private config: PerformanceConfig;
-  private metrics: PerformanceMetrics;
+  private config!: PerformanceConfig;
+  private metrics!: PerformanceMetrics;
   private isOptimized: boolean = false;
 
   constructor() {
@@ -64,13 +81,13 @@ export class PerformanceEngine extends EventEmitter {
 
   private createFallbackModule() {
     return {
-      initialize: (config: any) => Promise.resolve(true),
+      initialize: (_config: any) => Promise.resolve(true),
       optimize: () => Promise.resolve(true),
       getMetrics: () => Promise.resolve({}),
-      setConfig: (config: any) => Promise.resolve(true),
+      setConfig: (_config: any) => Promise.resolve(true),
       enableGPUAcceleration: () => Promise.resolve(true),
       enableMultithreading: () => Promise.resolve(true),
-      setOptimizationLevel: (level: string) => Promise.resolve(true),
+      setOptimizationLevel: (_level: string) => Promise.resolve(true),
       startMonitoring: () => Promise.resolve(true),
       stopMonitoring: () => Promise.resolve(true)
     };
@@ -142,6 +159,12 @@ export class PerformanceEngine extends EventEmitter {
     }
   }
 
+  // Frame pacing measured on the JS side; the native module has no view of emulator frames
+  public recordFrameMetrics(metrics: Pick<PerformanceMetrics, 'fps' | 'frameTime' | 'frameTimeP95' | 'stutters'>): void {
+    this.metrics = { ...this.metrics, ...metrics };
+    this.emit('metricsUpdated', this.metrics);
+  }
+
   public async setConfig(config: Partial<PerformanceConfig>): Promise<boolean> {
     try {
       this.config = { ...this.config, ...config };
@@ -222,7 +245,9 @@ export class PerformanceEngine extends EventEmitter {
     return { ...this.config };
   }
 
-  public getMetrics(): PerformanceMetrics {
+  // Last metrics seen, without asking the native module. The original API declared this under the
+  // getMetrics name too, where the async fetch above shadowed it
+  public getLastMetrics(): PerformanceMetrics {
     return { ...this.metrics };
   }
 
@@ -0,0 +1,218 @@
+import { EventEmitter } from 'events';
+import { ChromeTrace, FrameTimeHistogram, PerformanceTelemetry, PerformanceTelemetryOptions, StutterEvent, summarizeFrameTimes } from './PerformanceTelemetry';
+import type { GameEmulationEngine } from './GameEmulationEngine';
+import type { PerformanceEngine } from './PerformanceEngine';
+import { MemoryFileSystem } from './FileSystem';
+
+class FakeEngine extends EventEmitter {
+  getCurrentGame() {
+    return { checksum: 'pong/v1', name: 'Pong', platform: { id: 'chip8' } };
+  }
+
+  getFrameRate(): number {
+    return 60;
+  }
+}
+
+const repeat = (interval: number, count: number): number[] => Array(count).fill(interval);
+
+describe('frame time statistics', () => {
+  it('takes nearest-rank percentiles of raw frame times', () => {
+    const intervals = Array.from({ length: 100 }, (_, index) => 100 - index);
+
+    expect(summarizeFrameTimes(intervals)).toEqual({ frames: 100, mean: 50.5, min: 1, max: 100, p50: 50, p95: 95, p99: 99 });
+    expect(summarizeFrameTimes([])).toEqual({ frames: 0, mean: 0, min: 0, max: 0, p50: 0, p95: 0, p99: 0 });
+  });
+
+  it('interpolates histogram percentiles within their bucket', () => {
+    const histogram = new FrameTimeHistogram();
+    repeat(16.7, 95).forEach(interval => histogram.record(interval));
+    repeat(50, 5).forEach(interval => histogram.record(interval));
+
+    expect(histogram.getBuckets()).toEqual([{ upperBound: 17, count: 95 }, { upperBound: 50, count: 5 }]);
+    // The 50th of 95 frames in (16.5, 17], clamped to the fastest frame seen
+    expect(histogram.summarize()).toEqual({ frames: 100, mean: 18.37, min: 16.7, max: 50, p50: 16.76, p95: 17, p99: 49.9 });
+  });
+
+  it('puts hitches past the last bound in the overflow bucket', () => {
+    const histogram = new FrameTimeHistogram();
+    histogram.record(16);
+    histogram.record(2500);
+
+    expect(histogram.getBuckets()).toEqual([{ upperBound: 16, count: 1 }, { upperBound: Infinity, count: 1 }]);
+    expect(histogram.percentile(100)).toBe(2500);
+  });
+});
+
+describe('PerformanceTelemetry', () => {
+  let clock: number;
+  let frame: number;
+  let engine: FakeEngine;
+  let recordFrameMetrics: jest.Mock;
+  let telemetry: PerformanceTelemetry;
+  let stutters: StutterEvent[];
+
+  const createTelemetry = (options: Partial<PerformanceTelemetryOptions> = {}) => {
+    telemetry?.destroy();
+    telemetry = new PerformanceTelemetry({
+      engine: engine as unknown as GameEmulationEngine,
+      performanceEngine: { recordFrameMetrics } as unknown as PerformanceEngine,
+      now: () => clock,
+      ...options
+    });
+    telemetry.on('stutter', stutter => stutters.push(stutter));
+  };
+
+  // Starts a session and delivers its first frame at the same instant
+  const start = () => {
+    engine.emit('emulationStarted');
+    engine.emit('frameUpdate', { frame: ++frame, skipped: false, frameTime: 4 });
+  };
+
+  // Delivers one frame after each interval, each taking 4 ms of emulation work
+  const feed = (intervals: number[]) => {
+    for (const interval of intervals) {
+      clock += interval;
+      engine.emit('frameUpdate', { frame: ++frame, skipped: false, frameTime: 4 });
+    }
+  };
+
+  beforeEach(() => {
+    clock = 0;
+    frame = 0;
+    engine = new FakeEngine();
+    recordFrameMetrics = jest.fn();
+    stutters = [];
+    createTelemetry();
+  });
+
+  afterEach(() => {
+    telemetry.destroy();
+    jest.restoreAllMocks();
+  });
+
+  it('reports each one-second window to PerformanceEngine', () => {
+    start();
+    // A steady 50 fps second, then one with a 100 ms hitch that is ended by stopping
+    feed(repeat(20, 50));
+    feed([...repeat(20, 9), 100, ...repeat(20, 40)]);
+    engine.emit('emulationStopped');
+
+    expect(recordFrameMetrics.mock.calls.map(([metrics]) => metrics)).toEqual([
+      { fps: 50, frameTime: 20, frameTimeP95: 20, stutters: 0 },
+      { fps: 46, frameTime: 21.74, frameTimeP95: 20, stutters: 1 },
+      { fps: 50, frameTime: 20, frameTimeP95: 20, stutters: 0 }
+    ]);
+    const [session] = telemetry.getSessions();
+    expect(session).toEqual(expect.objectContaining({ gameId: 'pong/v1', platform: 'chip8', targetFps: 60, stutterCount: 1 }));
+    expect(session!.summary).toEqual(expect.objectContaining({ frames: 100, max: 100, p50: 20, p99: 20 }));
+    expect(session!.windows.map(window => [window.start, window.end, window.p99])).toEqual([[0, 1000, 20], [1000, 2000, 100], [2000, 2080, 20]]);
+  });
+
+  it('flags hitches with the frames they cost', () => {
+    start();
+    feed([...repeat(16, 30), 33, 50, 16, 100]);
+
+    // 33 ms is just under twice the 60 fps frame time
+    expect(stutters).toEqual([
+      { frame: 33, at: 30 * 16 + 33 + 50, interval: 50, droppedFrames: 2 },
+      { frame: 35, at: 30 * 16 + 33 + 50 + 16 + 100, interval: 100, droppedFrames: 5 }
+    ]);
+  });
+
+  it('treats a steadily slow device as low fps rather than constant stutter', () => {
+    start();
+    // Slowing to 30 ms frames never doubles the running median, then 70 ms does
+    feed([...repeat(16, 20), ...repeat(30, 40), 50, 70]);
+
+    expect(stutters.map(stutter => stutter.interval)).toEqual([70]);
+  });
+
+  it('leaves paused time, rewinds and loaded states out of the pacing', () => {
+    start();
+    feed(repeat(16, 10));
+    engine.emit('emulationPaused');
+    feed(repeat(500, 4));
+    engine.emit('emulationResumed');
+    clock += 5000;
+    feed(repeat(16, 10));
+    engine.emit('rewindStarted');
+    feed(repeat(200, 3));
+    engine.emit('rewindStopped');
+    feed(repeat(16, 3));
+    engine.emit('stateLoaded');
+    clock += 3000;
+    feed(repeat(16, 3));
+
+    expect(stutters).toEqual([]);
+    // The first frame after each resume only restarts the clock
+    expect(telemetry.getCurrentSession()!.summary).toEqual(expect.objectContaining({ frames: 10 + 9 + 2 + 2, max: 16 }));
+  });
+
+  describe('Chrome trace export', () => {
+    it('lays out frames, emulation work, stutters and window counters in microseconds', () => {
+      start();
+      feed([...repeat(20, 49), 100]);
+
+      const trace = JSON.parse(JSON.stringify(telemetry.exportChromeTrace())) as ChromeTrace;
+
+      expect(trace.displayTimeUnit).toBe('ms');
+      expect(trace.otherData).toEqual(expect.objectContaining({ gameId: 'pong/v1', name: 'Pong', stutterCount: 1 }));
+      expect(trace.traceEvents.slice(0, 3).map(event => [event.ph, event.name, event.args?.name])).toEqual([
+        ['M', 'process_name', '3kMLV Arcade - Pong'],
+        ['M', 'thread_name', 'Emulation'],
+        ['M', 'thread_name', 'Frame pacing']
+      ]);
+      const byName = (name: string) => trace.traceEvents.filter(event => event.name === name);
+      expect(byName('frame')).toHaveLength(50);
+      expect(byName('frame')[0]).toEqual({
+        name: 'frame', cat: 'pacing', ph: 'X', ts: 0, dur: 20000, pid: 1, tid: 2, args: { frame: 2, skipped: false }
+      });
+      expect(byName('runFrame')[0]).toEqual(expect.objectContaining({ ts: 16000, dur: 4000, tid: 1 }));
+      expect(byName('stutter')).toEqual([expect.objectContaining({
+        ph: 'i', s: 't', ts: 1080000, args: { frame: 51, interval: 100, droppedFrames: 5 }
+      })]);
+      expect(byName('fps')).toEqual([expect.objectContaining({ ph: 'C', ts: 1080000, args: { fps: 46.3 } })]);
+      expect(byName('frameTime')[0]!.args).toEqual({ p50: 20, p95: 20, p99: 100 });
+      const timestamps = trace.traceEvents.map(event => event.ts);
+      expect(timestamps).toEqual([...timestamps].sort((a, b) => a - b));
+    });
+
+    it('keeps only the most recent frames and the stutters among them', () => {
+      createTelemetry({ traceFrames: 10 });
+      start();
+      feed([...repeat(16, 40), 100, ...repeat(16, 20)]);
+
+      const trace = telemetry.exportChromeTrace()!;
+
+      expect(trace.traceEvents.filter(event => event.name === 'frame').map(event => event.args!.frame)).toEqual(
+        Array.from({ length: 10 }, (_, index) => 53 + index)
+      );
+      expect(trace.traceEvents.some(event => event.name === 'stutter')).toBe(false);
+      expect(telemetry.getCurrentSession()!.stutterCount).toBe(1);
+    });
+
+    it('saves a finished session as a JSON file', async () => {
+      const fileSystem = new MemoryFileSystem();
+      createTelemetry({ fileSystem, traceDirectory: '/traces' });
+      const saved = jest.fn();
+      telemetry.on('traceSaved', saved);
+      start();
+      feed(repeat(16, 5));
+      engine.emit('emulationStopped');
+
+      const path = await telemetry.saveChromeTrace();
+
+      const { startedAt } = telemetry.getSessions()[0]!;
+      expect(path).toBe(`/traces/pong_v1-${startedAt}.json`);
+      expect(saved).toHaveBeenCalledWith(path);
+      const trace = JSON.parse(new TextDecoder().decode(await fileSystem.readFile(path!))) as ChromeTrace;
+      expect(trace.traceEvents.filter(event => event.name === 'frame')).toHaveLength(5);
+    });
+
+    it('has nothing to export before the first session', () => {
+      expect(telemetry.exportChromeTrace()).toBeNull();
+      expect(telemetry.exportChromeTrace('perf_missing')).toBeNull();
+    });
+  });
+});
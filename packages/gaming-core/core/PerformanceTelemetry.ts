@@ -0,0 +1,617 @@
+// 3kMLV Arcade - Performance Telemetry
+// Frame pacing statistics per game session, fed into PerformanceEngine and exportable as Chrome traces
+//
+// Every frame update from GameEmulationEngine contributes its interval since the previous frame.
+// Intervals go into a session-wide histogram and into rolling windows (one second by default)
+// whose fps, mean and p95 become PerformanceEngine's frame metrics. A stutter is a frame that took
+// stutterFactor times longer than both the core's nominal frame time and the recent median, so a
+// device that is steadily slow shows up as low fps rather than as constant stutter. The last
+// traceFrames frames of each session are kept for export in the trace-event format understood by
+// chrome://tracing and Perfetto.
+
+import { EventEmitter } from 'events';
+import { GameEmulationEngine, GameEmulationEngineEvents, GameRom } from './GameEmulationEngine';
+import { PerformanceEngine } from './PerformanceEngine';
+import { FileSystem, ReactNativeFileSystem, joinPath } from './FileSystem';
+import { utf8Encode } from './BinaryUtils';
+import { EventSubscriptions } from './EventSubscriptions';
+
+export interface FrameSample {
+  frame: number;
+  // Clock time the frame arrived, in milliseconds
+  at: number;
+  // Milliseconds since the previous frame
+  interval: number;
+  // Milliseconds the core spent emulating the frame, when the module reports it
+  work?: number;
+  skipped: boolean;
+}
+
+export interface HistogramBucket {
+  // Inclusive upper bound in milliseconds; the last bucket is Infinity
+  upperBound: number;
+  count: number;
+}
+
+export interface FrameTimeSummary {
+  frames: number;
+  mean: number;
+  min: number;
+  max: number;
+  p50: number;
+  p95: number;
+  p99: number;
+}
+
+export interface StutterEvent {
+  frame: number;
+  at: number;
+  interval: number;
+  // Nominal frames that fit in the interval beyond the one delivered
+  droppedFrames: number;
+}
+
+export interface TelemetryWindow extends FrameTimeSummary {
+  start: number;
+  end: number;
+  fps: number;
+  stutters: number;
+}
+
+export interface TelemetrySession {
+  id: string;
+  gameId: string;
+  name: string;
+  platform: string;
+  targetFps: number;
+  // Wall-clock times, for display
+  startedAt: number;
+  endedAt: number | null;
+  summary: FrameTimeSummary;
+  histogram: HistogramBucket[];
+  stutterCount: number;
+  // Most recent MAX_STUTTER_EVENTS
+  stutters: StutterEvent[];
+  // Most recent maxWindows
+  windows: TelemetryWindow[];
+}
+
+export interface ChromeTraceEvent {
+  name: string;
+  cat?: string;
+  ph: 'X' | 'i' | 'C' | 'M';
+  // Microseconds from the start of the session
+  ts: number;
+  dur?: number;
+  pid: number;
+  tid: number;
+  s?: 't' | 'p' | 'g';
+  args?: Record<string, unknown>;
+}
+
+export interface ChromeTrace {
+  traceEvents: ChromeTraceEvent[];
+  displayTimeUnit: 'ms';
+  otherData: Record<string, unknown>;
+}
+
+export interface PerformanceTelemetryOptions {
+  engine?: GameEmulationEngine;
+  performanceEngine?: PerformanceEngine;
+  fileSystem?: FileSystem;
+  // Where saveChromeTrace writes; defaults to <documents>/traces
+  traceDirectory?: string;
+  windowMs?: number;
+  maxWindows?: number;
+  traceFrames?: number;
+  stutterFactor?: number;
+  maxSessions?: number;
+  // Millisecond clock; performance.now() where available
+  now?: () => number;
+}
+
+interface SessionState {
+  session: TelemetrySession;
+  // Clock time the session started, the zero point of its trace
+  origin: number;
+  histogram: FrameTimeHistogram;
+  frames: FrameSample[];
+}
+
+const DEFAULT_WINDOW_MS = 1000;
+const DEFAULT_MAX_WINDOWS = 300;
+const DEFAULT_TRACE_FRAMES = 3600;
+const DEFAULT_STUTTER_FACTOR = 2;
+const DEFAULT_MAX_SESSIONS = 10;
+const DEFAULT_TARGET_FPS = 60;
+const MEDIAN_FRAMES = 31;
+const MAX_STUTTER_EVENTS = 200;
+const TRACE_PID = 1;
+const TRACE_TID_EMULATION = 1;
+const TRACE_TID_PACING = 2;
+
+// 0.5 ms steps up to 50 ms cover 20-120 fps finely; coarser buckets catch hitches
+const BUCKET_BOUNDS: number[] = [
+  ...Array.from({ length: 100 }, (_, index) => (index + 1) * 0.5),
+  60, 70, 80, 90, 100, 125, 150, 200, 250, 500, 1000,
+  Infinity
+];
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function defaultClock(): () => number {
+  const performance = (globalThis as { performance?: { now(): number } }).performance;
+  return performance ? () => performance.now() : () => Date.now();
+}
+
+// Nearest-rank percentile of sorted values
+function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) {
+    return 0;
+  }
+  const rank = Math.ceil((p / 100) * sorted.length);
+  return sorted[Math.min(sorted.length - 1, Math.max(0, rank - 1))]!;
+}
+
+export function summarizeFrameTimes(intervals: number[]): FrameTimeSummary {
+  if (intervals.length === 0) {
+    return { frames: 0, mean: 0, min: 0, max: 0, p50: 0, p95: 0, p99: 0 };
+  }
+  const sorted = [...intervals].sort((a, b) => a - b);
+  const total = sorted.reduce((sum, value) => sum + value, 0);
+  return {
+    frames: sorted.length,
+    mean: round(total / sorted.length),
+    min: round(sorted[0]!),
+    max: round(sorted[sorted.length - 1]!),
+    p50: round(percentile(sorted, 50)),
+    p95: round(percentile(sorted, 95)),
+    p99: round(percentile(sorted, 99))
+  };
+}
+
+// Fixed-bucket frame time histogram; percentiles interpolate within a bucket
+export class FrameTimeHistogram {
+  private counts: number[] = new Array(BUCKET_BOUNDS.length).fill(0);
+  private total = 0;
+  private sum = 0;
+  private min = Infinity;
+  private max = 0;
+
+  public record(frameTime: number): void {
+    let index = BUCKET_BOUNDS.findIndex(bound => frameTime <= bound);
+    if (index < 0) {
+      index = BUCKET_BOUNDS.length - 1;
+    }
+    this.counts[index]!++;
+    this.total++;
+    this.sum += frameTime;
+    this.min = Math.min(this.min, frameTime);
+    this.max = Math.max(this.max, frameTime);
+  }
+
+  public percentile(p: number): number {
+    if (this.total === 0) {
+      return 0;
+    }
+    const target = Math.max(1, Math.ceil((p / 100) * this.total));
+    let seen = 0;
+    for (let index = 0; index < this.counts.length; index++) {
+      const count = this.counts[index]!;
+      if (seen + count >= target) {
+        const lower = index === 0 ? 0 : BUCKET_BOUNDS[index - 1]!;
+        const upper = Math.min(BUCKET_BOUNDS[index]!, this.max);
+        const value = lower + ((target - seen) / count) * (upper - lower);
+        return Math.min(this.max, Math.max(this.min, value));
+      }
+      seen += count;
+    }
+    return this.max;
+  }
+
+  public summarize(): FrameTimeSummary {
+    if (this.total === 0) {
+      return summarizeFrameTimes([]);
+    }
+    return {
+      frames: this.total,
+      mean: round(this.sum / this.total),
+      min: round(this.min),
+      max: round(this.max),
+      p50: round(this.percentile(50)),
+      p95: round(this.percentile(95)),
+      p99: round(this.percentile(99))
+    };
+  }
+
+  // Non-empty buckets only
+  public getBuckets(): HistogramBucket[] {
+    return BUCKET_BOUNDS.map((upperBound, index) => ({ upperBound, count: this.counts[index]! }))
+      .filter(bucket => bucket.count > 0);
+  }
+}
+
+export class PerformanceTelemetry extends EventEmitter {
+  private static instance: PerformanceTelemetry;
+  private engine: GameEmulationEngine;
+  private performanceEngine: PerformanceEngine;
+  private fileSystem: FileSystem | null;
+  private traceDirectory: string | null;
+  private windowMs: number;
+  private maxWindows: number;
+  private traceFrames: number;
+  private stutterFactor: number;
+  private maxSessions: number;
+  private now: () => number;
+  private current: SessionState | null = null;
+  private sessions: SessionState[] = [];
+  private lastFrameAt: number | null = null;
+  private isSuspended = false;
+  private recentIntervals: number[] = [];
+  private windowIntervals: number[] = [];
+  private windowStart = 0;
+  private windowStutters = 0;
+  private subscriptions = new EventSubscriptions();
+
+  constructor(options: PerformanceTelemetryOptions = {}) {
+    super();
+    this.engine = options.engine ?? GameEmulationEngine.getInstance();
+    this.performanceEngine = options.performanceEngine ?? PerformanceEngine.getInstance();
+    this.fileSystem = options.fileSystem ?? null;
+    this.traceDirectory = options.traceDirectory ?? null;
+    this.windowMs = options.windowMs ?? DEFAULT_WINDOW_MS;
+    this.maxWindows = options.maxWindows ?? DEFAULT_MAX_WINDOWS;
+    this.traceFrames = options.traceFrames ?? DEFAULT_TRACE_FRAMES;
+    this.stutterFactor = options.stutterFactor ?? DEFAULT_STUTTER_FACTOR;
+    this.maxSessions = options.maxSessions ?? DEFAULT_MAX_SESSIONS;
+    this.now = options.now ?? defaultClock();
+    this.setupEventHandlers();
+  }
+
+  public static getInstance(): PerformanceTelemetry {
+    if (!PerformanceTelemetry.instance) {
+      PerformanceTelemetry.instance = new PerformanceTelemetry();
+    }
+    return PerformanceTelemetry.instance;
+  }
+
+  private setupEventHandlers() {
+    const listen = this.subscriptions.listenTo<GameEmulationEngineEvents>(this.engine);
+
+    listen('emulationStarted', () => {
+      const rom = this.engine.getCurrentGame();
+      if (rom && this.current?.session.gameId !== rom.checksum) {
+        this.startSession(rom);
+      }
+      this.resume();
+    });
+    listen('emulationStopped', () => this.endSession());
+    listen('emulationPaused', () => this.suspend());
+    listen('emulationResumed', () => this.resume());
+    // Rewinding and restored states produce frames that say nothing about pacing
+    listen('rewindStarted', () => this.suspend());
+    listen('rewindStopped', () => this.resume());
+    listen('stateLoaded', () => this.restartPacing());
+    listen('frameUpdate', data => this.handleFrame(data));
+  }
+
+  public getCurrentSession(): TelemetrySession | null {
+    return this.current ? this.snapshot(this.current) : null;
+  }
+
+  // Newest first, including the running session
+  public getSessions(): TelemetrySession[] {
+    const states = this.current ? [this.current, ...this.sessions] : this.sessions;
+    return states.map(state => this.snapshot(state));
+  }
+
+  public getWindows(sessionId?: string): TelemetryWindow[] {
+    const state = this.findState(sessionId);
+    return state ? state.session.windows.map(window => ({ ...window })) : [];
+  }
+
+  // Recent frames of a session, oldest first, e.g. for a frame time chart
+  public getFrames(sessionId?: string, limit?: number): FrameSample[] {
+    const state = this.findState(sessionId);
+    if (!state) {
+      return [];
+    }
+    const frames = limit !== undefined ? state.frames.slice(-limit) : state.frames;
+    return frames.map(frame => ({ ...frame }));
+  }
+
+  public exportChromeTrace(sessionId?: string): ChromeTrace | null {
+    const state = this.findState(sessionId);
+    if (!state) {
+      return null;
+    }
+
+    const { session, origin } = state;
+    const micros = (time: number) => Math.max(0, Math.round((time - origin) * 1000));
+    const traceEvents: ChromeTraceEvent[] = [
+      { name: 'process_name', ph: 'M', ts: 0, pid: TRACE_PID, tid: 0, args: { name: `3kMLV Arcade - ${session.name}` } },
+      { name: 'thread_name', ph: 'M', ts: 0, pid: TRACE_PID, tid: TRACE_TID_EMULATION, args: { name: 'Emulation' } },
+      { name: 'thread_name', ph: 'M', ts: 0, pid: TRACE_PID, tid: TRACE_TID_PACING, args: { name: 'Frame pacing' } }
+    ];
+
+    for (const sample of state.frames) {
+      traceEvents.push({
+        name: 'frame',
+        cat: 'pacing',
+        ph: 'X',
+        ts: micros(sample.at - sample.interval),
+        dur: Math.round(sample.interval * 1000),
+        pid: TRACE_PID,
+        tid: TRACE_TID_PACING,
+        args: { frame: sample.frame, skipped: sample.skipped }
+      });
+      if (sample.work !== undefined) {
+        traceEvents.push({
+          name: 'runFrame',
+          cat: 'emulation',
+          ph: 'X',
+          ts: micros(sample.at - sample.work),
+          dur: Math.round(sample.work * 1000),
+          pid: TRACE_PID,
+          tid: TRACE_TID_EMULATION,
+          args: { frame: sample.frame }
+        });
+      }
+    }
+
+    const firstFrameAt = state.frames.length > 0 ? state.frames[0]!.at : Infinity;
+    for (const stutter of session.stutters) {
+      if (stutter.at >= firstFrameAt) {
+        traceEvents.push({
+          name: 'stutter',
+          cat: 'pacing',
+          ph: 'i',
+          s: 't',
+          ts: micros(stutter.at),
+          pid: TRACE_PID,
+          tid: TRACE_TID_PACING,
+          args: { frame: stutter.frame, interval: stutter.interval, droppedFrames: stutter.droppedFrames }
+        });
+      }
+    }
+
+    for (const window of session.windows) {
+      if (window.end < firstFrameAt) {
+        continue;
+      }
+      traceEvents.push({ name: 'fps', ph: 'C', ts: micros(window.end), pid: TRACE_PID, tid: 0, args: { fps: window.fps } });
+      traceEvents.push({
+        name: 'frameTime',
+        ph: 'C',
+        ts: micros(window.end),
+        pid: TRACE_PID,
+        tid: 0,
+        args: { p50: window.p50, p95: window.p95, p99: window.p99 }
+      });
+    }
+
+    traceEvents.sort((a, b) => a.ts - b.ts);
+    const { windows, stutters, ...details } = this.snapshot(state);
+    return { traceEvents, displayTimeUnit: 'ms', otherData: details as unknown as Record<string, unknown> };
+  }
+
+  // Writes <traceDirectory>/<game>-<startedAt>.json and returns its path
+  public async saveChromeTrace(sessionId?: string): Promise<string | null> {
+    try {
+      const trace = this.exportChromeTrace(sessionId);
+      if (!trace) {
+        return null;
+      }
+      const fileSystem = this.getFileSystem();
+      const directory = this.getTraceDirectory();
+      if (!(await fileSystem.exists(directory))) {
+        await fileSystem.mkdir(directory);
+      }
+      const details = trace.otherData as { gameId: string; startedAt: number };
+      const path = joinPath(directory, `${details.gameId.replace(/[^\w.-]/g, '_')}-${details.startedAt}.json`);
+      await fileSystem.writeFile(path, utf8Encode(JSON.stringify(trace)));
+      this.emit('traceSaved', path);
+      return path;
+    } catch (error) {
+      console.error('Failed to save performance trace:', error);
+      this.emit('error', error);
+      return null;
+    }
+  }
+
+  public destroy(): void {
+    this.subscriptions.clear();
+  }
+
+  private startSession(rom: GameRom): void {
+    this.endSession();
+    const frameRate = this.engine.getFrameRate();
+    const histogram = new FrameTimeHistogram();
+    this.current = {
+      session: {
+        id: `perf_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 8)}`,
+        gameId: rom.checksum,
+        name: rom.name,
+        platform: rom.platform.id,
+        targetFps: frameRate > 0 ? frameRate : DEFAULT_TARGET_FPS,
+        startedAt: Date.now(),
+        endedAt: null,
+        summary: histogram.summarize(),
+        histogram: [],
+        stutterCount: 0,
+        stutters: [],
+        windows: []
+      },
+      origin: this.now(),
+      histogram,
+      frames: []
+    };
+    this.recentIntervals = [];
+    this.resetWindow(this.now());
+    this.emit('sessionStarted', this.snapshot(this.current));
+  }
+
+  private endSession(): void {
+    const state = this.current;
+    if (!state) {
+      return;
+    }
+    this.closeWindow(this.now());
+    this.current = null;
+    this.lastFrameAt = null;
+    state.session.endedAt = Date.now();
+    this.sessions.unshift(state);
+    this.sessions.splice(this.maxSessions);
+    this.emit('sessionEnded', this.snapshot(state));
+  }
+
+  private suspend(): void {
+    this.isSuspended = true;
+    this.lastFrameAt = null;
+  }
+
+  private resume(): void {
+    this.isSuspended = false;
+    this.restartPacing();
+  }
+
+  private restartPacing(): void {
+    this.lastFrameAt = null;
+    this.resetWindow(this.now());
+  }
+
+  private handleFrame(data: { frame: number; skipped?: boolean; frameTime?: number }): void {
+    const state = this.current;
+    if (!state || this.isSuspended) {
+      return;
+    }
+
+    const now = this.now();
+    const previous = this.lastFrameAt;
+    this.lastFrameAt = now;
+    if (previous === null) {
+      return;
+    }
+
+    const interval = now - previous;
+    const sample: FrameSample = { frame: data.frame, at: now, interval, skipped: !!data.skipped };
+    if (typeof data.frameTime === 'number') {
+      sample.work = data.frameTime;
+    }
+
+    state.histogram.record(interval);
+    state.frames.push(sample);
+    if (state.frames.length > this.traceFrames) {
+      state.frames.splice(0, state.frames.length - this.traceFrames);
+    }
+    this.detectStutter(state, sample);
+    this.windowIntervals.push(interval);
+
+    if (now - this.windowStart >= this.windowMs) {
+      this.closeWindow(now);
+    }
+  }
+
+  private detectStutter(state: SessionState, sample: FrameSample): void {
+    const expected = 1000 / state.session.targetFps;
+    const sorted = [...this.recentIntervals].sort((a, b) => a - b);
+    const median = sorted.length > 0 ? sorted[Math.floor(sorted.length / 2)]! : expected;
+
+    this.recentIntervals.push(sample.interval);
+    if (this.recentIntervals.length > MEDIAN_FRAMES) {
+      this.recentIntervals.shift();
+    }
+
+    if (sample.interval < this.stutterFactor * Math.max(expected, median)) {
+      return;
+    }
+    const stutter: StutterEvent = {
+      frame: sample.frame,
+      at: sample.at,
+      interval: round(sample.interval),
+      droppedFrames: Math.max(1, Math.round(sample.interval / expected) - 1)
+    };
+    state.session.stutterCount++;
+    state.session.stutters.push(stutter);
+    if (state.session.stutters.length > MAX_STUTTER_EVENTS) {
+      state.session.stutters.shift();
+    }
+    this.windowStutters++;
+    this.emit('stutter', stutter);
+  }
+
+  private closeWindow(now: number): void {
+    const state = this.current;
+    if (!state || this.windowIntervals.length === 0) {
+      this.resetWindow(now);
+      return;
+    }
+
+    const summary = summarizeFrameTimes(this.windowIntervals);
+    const elapsed = this.windowIntervals.reduce((sum, value) => sum + value, 0);
+    const window: TelemetryWindow = {
+      ...summary,
+      start: this.windowStart,
+      end: now,
+      fps: elapsed > 0 ? round((summary.frames * 1000) / elapsed) : 0,
+      stutters: this.windowStutters
+    };
+    state.session.windows.push(window);
+    if (state.session.windows.length > this.maxWindows) {
+      state.session.windows.shift();
+    }
+    this.resetWindow(now);
+
+    this.performanceEngine.recordFrameMetrics({
+      fps: window.fps,
+      frameTime: window.mean,
+      frameTimeP95: window.p95,
+      stutters: window.stutters
+    });
+    this.emit('windowCompleted', { ...window });
+  }
+
+  private resetWindow(now: number): void {
+    this.windowIntervals = [];
+    this.windowStutters = 0;
+    this.windowStart = now;
+  }
+
+  private snapshot(state: SessionState): TelemetrySession {
+    return {
+      ...state.session,
+      summary: state.histogram.summarize(),
+      histogram: state.histogram.getBuckets(),
+      stutters: state.session.stutters.map(stutter => ({ ...stutter })),
+      windows: state.session.windows.map(window => ({ ...window }))
+    };
+  }
+
+  private findState(sessionId?: string): SessionState | null {
+    if (!sessionId) {
+      return this.current ?? this.sessions[0] ?? null;
+    }
+    if (this.current?.session.id === sessionId) {
+      return this.current;
+    }
+    return this.sessions.find(state => state.session.id === sessionId) ?? null;
+  }
+
+  private getTraceDirectory(): string {
+    if (!this.traceDirectory) {
+      this.traceDirectory = joinPath(ReactNativeFileSystem.getDocumentDirectory(), 'traces');
+    }
+    return this.traceDirectory;
+  }
+
+  private getFileSystem(): FileSystem {
+    if (!this.fileSystem) {
+      this.fileSystem = new ReactNativeFileSystem();
+    }
+    return this.fileSystem;
+  }
+}
+
+export default PerformanceTelemetry;
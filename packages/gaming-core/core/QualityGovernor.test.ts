@@ -0,0 +1,109 @@
+import { EventEmitter } from 'events';
+import { GovernedSettings, QualityChange, QualityGovernor } from './QualityGovernor';
+import type { GameEmulationEngine } from './GameEmulationEngine';
+import type { PerformanceEngine, PerformanceMetrics } from './PerformanceEngine';
+import { MemoryStorage } from './Storage';
+
+const PLAYER_SETTINGS: GovernedSettings = { frameSkip: 0, shaderEffects: true, antiAliasing: true, videoScale: 3 };
+
+class FakeEngine extends EventEmitter {
+  config: GovernedSettings = { ...PLAYER_SETTINGS };
+
+  getCurrentGame() {
+    return { checksum: 'abc123' };
+  }
+
+  getConfig() {
+    return { ...this.config };
+  }
+
+  getFrameRate(): number {
+    return 60;
+  }
+
+  async updateConfig(config: Partial<GovernedSettings>): Promise<void> {
+    this.config = { ...this.config, ...config };
+    this.emit('configUpdated', this.getConfig());
+  }
+}
+
+// The native module takes a while to switch levels and only then reports the change
+class FakePerformanceEngine extends EventEmitter {
+  optimizationLevel = 'ultra';
+
+  getConfig() {
+    return { maxFPS: 60, targetLatency: 16, cpuLimit: 80, memoryLimit: 1024, optimizationLevel: this.optimizationLevel };
+  }
+
+  async setOptimizationLevel(level: string): Promise<boolean> {
+    await new Promise(resolve => setTimeout(resolve, 10));
+    this.optimizationLevel = level;
+    this.emit('optimizationLevelChanged', level);
+    return true;
+  }
+
+  report(fps: number): void {
+    const metrics: PerformanceMetrics = {
+      fps,
+      frameTime: 1000 / fps,
+      memoryUsage: 0,
+      cpuUsage: 20,
+      gpuUsage: 0,
+      latency: 0,
+      throughput: 0,
+      cacheHitRate: 0,
+      compressionRatio: 0
+    };
+    this.emit('metricsUpdated', metrics);
+  }
+}
+
+const settle = (ms = 100) => new Promise(resolve => setTimeout(resolve, ms));
+
+describe('QualityGovernor', () => {
+  let engine: FakeEngine;
+  let performanceEngine: FakePerformanceEngine;
+  let governor: QualityGovernor;
+
+  beforeEach(async () => {
+    engine = new FakeEngine();
+    performanceEngine = new FakePerformanceEngine();
+    governor = new QualityGovernor({
+      engine: engine as unknown as GameEmulationEngine,
+      performanceEngine: performanceEngine as unknown as PerformanceEngine,
+      storage: new MemoryStorage(),
+      downgradeSamples: 1
+    });
+    engine.emit('emulationStarted');
+    await settle(20);
+  });
+
+  afterEach(() => {
+    governor.destroy();
+  });
+
+  it('does not take its own late level change for one picked in settings', async () => {
+    const changes: QualityChange[] = [];
+    governor.on('qualityChanged', change => changes.push(change));
+
+    performanceEngine.report(30);
+    performanceEngine.report(30);
+    await settle();
+
+    expect(changes.map(change => `${change.from}->${change.to}`)).toEqual(['ultra->high', 'high->medium']);
+    expect(governor.getLevel()).toBe('medium');
+    expect(performanceEngine.optimizationLevel).toBe('medium');
+    expect(engine.config).toEqual({ ...PLAYER_SETTINGS, shaderEffects: false, antiAliasing: false, videoScale: 2 });
+  });
+
+  it('restores the player level after a level change still in flight when emulation stops', async () => {
+    performanceEngine.report(30);
+    await settle(5);
+
+    engine.emit('emulationStopped');
+    await settle();
+
+    expect(performanceEngine.optimizationLevel).toBe('ultra');
+    expect(engine.config).toEqual(PLAYER_SETTINGS);
+  });
+});
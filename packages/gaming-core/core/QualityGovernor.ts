@@ -0,0 +1,606 @@
+// 3kMLV Arcade - Quality Governor
+// Steps EmulationConfig and PerformanceConfig.optimizationLevel down under load and back up once
+// the device keeps up again
+//
+// Each quality level is a preset over frameSkip, shaderEffects, antiAliasing and videoScale that
+// only ever lowers the player's own settings, which stay the baseline restored when emulation
+// stops. QualityPolicy sees nothing but the metrics and targets it is given, which lets
+// runMetricsTrace() check it against recorded sessions. QualityGovernor wires it to
+// PerformanceEngine and writes the levels it picks into the engine config, one write at a time.
+
+import { EventEmitter } from 'events';
+import { EmulationConfig, GameEmulationEngine, GameEmulationEngineEvents } from './GameEmulationEngine';
+import { PerformanceConfig, PerformanceEngine, PerformanceEngineEvents, PerformanceMetrics } from './PerformanceEngine';
+import { KeyValueStorage, getDefaultStorage, readJson, writeJson } from './Storage';
+import { replayTrace } from './TraceReplay';
+import { EventSubscriptions } from './EventSubscriptions';
+
+export type QualityLevel = PerformanceConfig['optimizationLevel'];
+
+export type GovernedSettings = Pick<EmulationConfig, 'frameSkip' | 'shaderEffects' | 'antiAliasing' | 'videoScale'>;
+
+// Lowest first
+export const QUALITY_LEVELS: QualityLevel[] = ['low', 'medium', 'high', 'ultra'];
+
+// Caps applied to the player's settings; a level never turns on what they turned off
+export const QUALITY_PRESETS: Record<QualityLevel, Partial<GovernedSettings>> = {
+  ultra: {},
+  high: { shaderEffects: false },
+  medium: { shaderEffects: false, antiAliasing: false, videoScale: 2 },
+  low: { shaderEffects: false, antiAliasing: false, videoScale: 1, frameSkip: 1 }
+};
+
+// What the governor holds the game to, from PerformanceConfig and the core's frame rate
+export interface QualityTargets {
+  fps: number;
+  // Frame time budget in ms
+  frameTime: number;
+  latency: number;
+  cpuLimit: number;
+  memoryLimit: number;
+}
+
+// A PerformanceMetrics update and when it arrived, which the cooldowns are measured against
+export interface QualitySample extends PerformanceMetrics {
+  timestamp: number;
+}
+
+export interface QualityDecision {
+  at: number;
+  from: QualityLevel;
+  to: QualityLevel;
+  reason: string;
+}
+
+export interface QualityChange extends QualityDecision {
+  gameId: string;
+  settings: GovernedSettings;
+}
+
+export interface QualityOverride {
+  // Pins the game to a level and leaves it there
+  level?: QualityLevel;
+  minLevel?: QualityLevel;
+  maxLevel?: QualityLevel;
+  // Applied on top of every level, e.g. { frameSkip: 0 } for a rhythm game
+  settings?: Partial<GovernedSettings>;
+}
+
+export interface QualityPolicyOptions {
+  // Samples in a row that must show pressure, or headroom, before the level moves
+  downgradeSamples?: number;
+  upgradeSamples?: number;
+  // How long any level must hold before the next step up
+  upgradeCooldownMs?: number;
+  // An upgrade undone within this long doubles the samples the next one needs, up to 8x
+  revertWindowMs?: number;
+  // Share of the target fps below which the game counts as struggling
+  fpsTolerance?: number;
+  // Multiples of the frame time budget and targetLatency that count as over
+  frameTimeTolerance?: number;
+  latencyTolerance?: number;
+  // Share of memoryLimit that counts as pressure
+  memoryHeadroom?: number;
+  // CPU must fall below this share of cpuLimit before stepping up
+  cpuRecovery?: number;
+}
+
+export interface QualityTrace {
+  level: QualityLevel;
+  targets: QualityTargets;
+  samples: QualitySample[];
+}
+
+export interface QualityGovernorOptions extends QualityPolicyOptions {
+  engine?: GameEmulationEngine;
+  performanceEngine?: PerformanceEngine;
+  storage?: KeyValueStorage;
+}
+
+type StoredOverrides = Record<string, QualityOverride>;
+
+const DEFAULT_POLICY: Required<QualityPolicyOptions> = {
+  downgradeSamples: 3,
+  upgradeSamples: 10,
+  upgradeCooldownMs: 30000,
+  revertWindowMs: 60000,
+  fpsTolerance: 0.9,
+  frameTimeTolerance: 1.5,
+  latencyTolerance: 1.5,
+  memoryHeadroom: 0.9,
+  cpuRecovery: 0.75
+};
+
+const OVERRIDES_KEY = '@mlvarcade:qualityOverrides';
+const GOVERNED_FIELDS: Array<keyof GovernedSettings> = ['frameSkip', 'shaderEffects', 'antiAliasing', 'videoScale'];
+const MAX_BACKOFF = 3;
+const MAX_CHANGE_HISTORY = 100;
+// Fps must come this close to the target before a step up
+const RECOVERED_FPS = 0.98;
+
+function levelIndex(level: string): number {
+  const index = QUALITY_LEVELS.indexOf(level as QualityLevel);
+  return index >= 0 ? index : QUALITY_LEVELS.length - 1;
+}
+
+function copySetting<K extends keyof GovernedSettings>(target: GovernedSettings, source: GovernedSettings, field: K): void {
+  target[field] = source[field];
+}
+
+function pickSettings(config: GovernedSettings): GovernedSettings {
+  return {
+    frameSkip: config.frameSkip,
+    shaderEffects: config.shaderEffects,
+    antiAliasing: config.antiAliasing,
+    videoScale: config.videoScale
+  };
+}
+
+// The player's settings capped by the level's preset, then the game's override
+export function resolveQualitySettings(
+  level: QualityLevel,
+  baseline: GovernedSettings,
+  override: Partial<GovernedSettings> = {}
+): GovernedSettings {
+  const preset = QUALITY_PRESETS[level];
+  return {
+    frameSkip: override.frameSkip ?? Math.max(baseline.frameSkip, preset.frameSkip ?? 0),
+    shaderEffects: override.shaderEffects ?? (baseline.shaderEffects && preset.shaderEffects !== false),
+    antiAliasing: override.antiAliasing ?? (baseline.antiAliasing && preset.antiAliasing !== false),
+    videoScale: override.videoScale ?? Math.min(baseline.videoScale, preset.videoScale ?? baseline.videoScale)
+  };
+}
+
+export class QualityPolicy {
+  private options: Required<QualityPolicyOptions>;
+  private targets: QualityTargets | null = null;
+  private level: QualityLevel = 'ultra';
+  private minIndex = 0;
+  private maxIndex = QUALITY_LEVELS.length - 1;
+  private downgradeStreak = 0;
+  private upgradeStreak = 0;
+  private backoff = 0;
+  private lastChangeAt: number | null = null;
+  private lastUpgradeAt: number | null = null;
+
+  constructor(options: QualityPolicyOptions = {}) {
+    this.options = { ...DEFAULT_POLICY, ...options };
+  }
+
+  public begin(level: QualityLevel, targets: QualityTargets, bounds: { min?: QualityLevel | undefined; max?: QualityLevel | undefined } = {}): void {
+    this.targets = targets;
+    this.minIndex = levelIndex(bounds.min ?? QUALITY_LEVELS[0]!);
+    this.maxIndex = Math.max(this.minIndex, levelIndex(bounds.max ?? QUALITY_LEVELS[QUALITY_LEVELS.length - 1]!));
+    this.level = QUALITY_LEVELS[Math.min(this.maxIndex, Math.max(this.minIndex, levelIndex(level)))]!;
+    this.backoff = 0;
+    this.lastChangeAt = null;
+    this.lastUpgradeAt = null;
+    this.resetStreaks();
+  }
+
+  public end(): void {
+    this.targets = null;
+    this.resetStreaks();
+  }
+
+  public getLevel(): QualityLevel {
+    return this.level;
+  }
+
+  public setTargets(targets: QualityTargets): void {
+    this.targets = targets;
+  }
+
+  // QualityGovernor puts the level back with this when the engine refused its settings
+  public setLevel(level: string): void {
+    const next = QUALITY_LEVELS[levelIndex(level)]!;
+    if (next !== this.level) {
+      this.level = next;
+      this.resetStreaks();
+    }
+  }
+
+  // Moves at most one level per sample, and counts the new level as in use straight away
+  public observe(sample: QualitySample): QualityDecision | null {
+    const targets = this.targets;
+    // No frames measured yet, e.g. native metrics arriving before the first telemetry window
+    if (!targets || !(sample.fps > 0)) {
+      return null;
+    }
+    if (this.lastChangeAt === null) {
+      this.lastChangeAt = sample.timestamp;
+    }
+
+    const options = this.options;
+    const index = levelIndex(this.level);
+    const reason = this.findPressure(sample, targets);
+
+    if (reason) {
+      this.downgradeStreak++;
+      this.upgradeStreak = 0;
+      if (index > this.minIndex && this.downgradeStreak >= options.downgradeSamples) {
+        if (this.lastUpgradeAt !== null && sample.timestamp - this.lastUpgradeAt < options.revertWindowMs) {
+          this.backoff = Math.min(MAX_BACKOFF, this.backoff + 1);
+        }
+        this.lastUpgradeAt = null;
+        return this.change(QUALITY_LEVELS[index - 1]!, sample.timestamp, reason);
+      }
+      return null;
+    }
+
+    this.downgradeStreak = 0;
+    this.upgradeStreak = this.hasHeadroom(sample, targets) ? this.upgradeStreak + 1 : 0;
+    const needed = options.upgradeSamples * 2 ** this.backoff;
+    if (index < this.maxIndex
+      && this.upgradeStreak >= needed
+      && sample.timestamp - this.lastChangeAt >= options.upgradeCooldownMs) {
+      this.lastUpgradeAt = sample.timestamp;
+      return this.change(QUALITY_LEVELS[index + 1]!, sample.timestamp,
+        `${Math.round(sample.fps)} fps held for ${this.upgradeStreak} samples`);
+    }
+    return null;
+  }
+
+  // The first target the sample misses, as the reason for stepping down
+  private findPressure(sample: QualitySample, targets: QualityTargets): string | null {
+    const options = this.options;
+    const frameTime = sample.frameTimeP95 ?? sample.frameTime;
+
+    if (sample.fps < targets.fps * options.fpsTolerance) {
+      return `${Math.round(sample.fps)} fps is below the ${targets.fps} fps target`;
+    }
+    if (frameTime > targets.frameTime * options.frameTimeTolerance) {
+      return `frame time ${frameTime.toFixed(1)} ms is over the ${targets.frameTime.toFixed(1)} ms budget`;
+    }
+    if (sample.latency > targets.latency * options.latencyTolerance) {
+      return `latency ${Math.round(sample.latency)} ms is over the ${targets.latency} ms target`;
+    }
+    if (sample.cpuUsage > targets.cpuLimit) {
+      return `CPU at ${Math.round(sample.cpuUsage)}%, limit ${targets.cpuLimit}%`;
+    }
+    if (sample.memoryUsage > targets.memoryLimit * options.memoryHeadroom) {
+      return `memory at ${Math.round((sample.memoryUsage / targets.memoryLimit) * 100)}% of the limit`;
+    }
+    return null;
+  }
+
+  // Stricter than findPressure: a game just inside its tolerances has no room for the next level's
+  // shaders or resolution, so it must run at nearly full speed, stutter-free, with CPU to spare
+  private hasHeadroom(sample: QualitySample, targets: QualityTargets): boolean {
+    const frameTime = sample.frameTimeP95 ?? sample.frameTime;
+    return sample.fps >= targets.fps * RECOVERED_FPS
+      && frameTime <= targets.frameTime * 1.1
+      && sample.cpuUsage <= targets.cpuLimit * this.options.cpuRecovery
+      && (sample.stutters ?? 0) === 0;
+  }
+
+  private change(to: QualityLevel, at: number, reason: string): QualityDecision {
+    const from = this.level;
+    this.level = to;
+    this.lastChangeAt = at;
+    this.resetStreaks();
+    return { at, from, to, reason };
+  }
+
+  private resetStreaks(): void {
+    this.downgradeStreak = 0;
+    this.upgradeStreak = 0;
+  }
+}
+
+// The level changes a fresh policy makes over a recorded session, starting from trace.level
+export function runMetricsTrace(trace: QualityTrace, options: QualityPolicyOptions = {}): QualityDecision[] {
+  const policy = new QualityPolicy(options);
+  policy.begin(trace.level, trace.targets);
+
+  return replayTrace(trace.samples, sample => sample.timestamp, sample => {
+    const decision = policy.observe(sample);
+    return decision ? [decision] : [];
+  });
+}
+
+export class QualityGovernor extends EventEmitter {
+  private static instance: QualityGovernor;
+  private engine: GameEmulationEngine;
+  private performanceEngine: PerformanceEngine;
+  private storage: KeyValueStorage;
+  private policy: QualityPolicy;
+  private overrides: StoredOverrides = {};
+  private enabled = true;
+  private gameId: string | null = null;
+  private isPaused = false;
+  // The player's own settings and level, restored when emulation stops
+  private baseline: GovernedSettings | null = null;
+  private baselineLevel: QualityLevel = 'ultra';
+  private applied: GovernedSettings | null = null;
+  private appliedLevel: QualityLevel | null = null;
+  private changes: QualityChange[] = [];
+  // Tail of the queued config writes, see queueUpdate()
+  private updates: Promise<void> = Promise.resolve();
+  // The level setEngineLevel() is waiting on
+  private requestedLevel: QualityLevel | null = null;
+  private initializing: Promise<void> | null = null;
+  private subscriptions = new EventSubscriptions();
+
+  constructor(options: QualityGovernorOptions = {}) {
+    super();
+    const { engine, performanceEngine, storage, ...policyOptions } = options;
+    this.engine = engine ?? GameEmulationEngine.getInstance();
+    this.performanceEngine = performanceEngine ?? PerformanceEngine.getInstance();
+    this.storage = storage ?? getDefaultStorage();
+    this.policy = new QualityPolicy(policyOptions);
+    this.setupEventHandlers();
+  }
+
+  public static getInstance(): QualityGovernor {
+    if (!QualityGovernor.instance) {
+      QualityGovernor.instance = new QualityGovernor();
+    }
+    return QualityGovernor.instance;
+  }
+
+  private setupEventHandlers() {
+    const listenEngine = this.subscriptions.listenTo<GameEmulationEngineEvents>(this.engine);
+    const listenPerformance = this.subscriptions.listenTo<PerformanceEngineEvents>(this.performanceEngine);
+
+    listenEngine('emulationStarted', () => this.begin());
+    listenEngine('emulationStopped', () => this.end());
+    listenEngine('emulationPaused', () => {
+      this.isPaused = true;
+    });
+    listenEngine('emulationResumed', () => {
+      this.isPaused = false;
+    });
+    listenEngine('configUpdated', config => this.handleConfigUpdated(config));
+
+    listenPerformance('metricsUpdated', metrics => this.handleMetrics(metrics));
+    listenPerformance('configUpdated', () => {
+      if (this.gameId) {
+        this.policy.setTargets(this.getTargets());
+      }
+    });
+    listenPerformance('optimizationLevelChanged', level => this.handleLevelChanged(level));
+  }
+
+  public initialize(): Promise<void> {
+    if (!this.initializing) {
+      this.initializing = readJson<StoredOverrides>(this.storage, OVERRIDES_KEY, {})
+        .then(overrides => {
+          this.overrides = overrides;
+          this.emit('initialized');
+        })
+        .catch(error => {
+          this.initializing = null;
+          throw error;
+        });
+    }
+    return this.initializing;
+  }
+
+  // Off leaves the current settings as they are until emulation stops
+  public setEnabled(enabled: boolean): void {
+    this.enabled = enabled;
+    this.emit('enabledChanged', enabled);
+  }
+
+  public isEnabled(): boolean {
+    return this.enabled;
+  }
+
+  public getLevel(): QualityLevel | null {
+    return this.gameId ? this.policy.getLevel() : null;
+  }
+
+  public getGameOverride(gameId: string): QualityOverride | null {
+    const override = this.overrides[gameId];
+    if (!override) {
+      return null;
+    }
+    const copy: QualityOverride = { ...override };
+    if (override.settings) {
+      copy.settings = { ...override.settings };
+    }
+    return copy;
+  }
+
+  // Takes effect from the next start of the game, or right away when it is running
+  public async setGameOverride(gameId: string, override: QualityOverride | null): Promise<void> {
+    try {
+      await this.initialize();
+      if (override) {
+        this.overrides[gameId] = override;
+      } else {
+        delete this.overrides[gameId];
+      }
+      await writeJson(this.storage, OVERRIDES_KEY, this.overrides);
+      this.emit('overrideUpdated', { gameId, override });
+
+      if (this.gameId === gameId) {
+        this.restart();
+      }
+    } catch (error) {
+      console.error('Failed to save quality override:', error);
+      this.emit('error', error);
+      throw error;
+    }
+  }
+
+  // Most recent last
+  public getChanges(gameId?: string): QualityChange[] {
+    return this.changes
+      .filter(change => !gameId || change.gameId === gameId)
+      .map(change => ({ ...change, settings: { ...change.settings } }));
+  }
+
+  public destroy(): void {
+    this.end();
+    this.subscriptions.clear();
+  }
+
+  private begin(): void {
+    const rom = this.engine.getCurrentGame();
+    if (!rom) {
+      return;
+    }
+    if (this.gameId === rom.checksum) {
+      // Started again without a stop, e.g. after loading a state
+      this.isPaused = false;
+      return;
+    }
+    this.end();
+
+    const gameId = rom.checksum;
+    this.gameId = gameId;
+    this.isPaused = false;
+    // Read once the previous game's settings are back, or they would pass for the player's own
+    this.queueUpdate(async () => {
+      if (this.gameId !== gameId) {
+        return;
+      }
+      this.baseline = pickSettings(this.engine.getConfig());
+      this.baselineLevel = QUALITY_LEVELS[levelIndex(this.performanceEngine.getConfig().optimizationLevel)]!;
+      this.restart();
+    });
+  }
+
+  // Starts the policy over for the running game, from its override or the player's level
+  private restart(): void {
+    if (!this.baseline) {
+      // begin() has yet to read the player's settings and restarts once it has
+      return;
+    }
+    const override = this.overrides[this.gameId!] ?? {};
+    const max = override.level ?? this.lowerOf(override.maxLevel, this.baselineLevel);
+    const min = override.level ?? override.minLevel;
+    this.policy.begin(max, this.getTargets(), { min, max });
+    const from = this.appliedLevel ?? this.policy.getLevel();
+    this.apply({ at: Date.now(), from, to: this.policy.getLevel(), reason: override.level ? 'pinned for this game' : 'game started' });
+  }
+
+  private end(): void {
+    const baseline = this.baseline;
+    const baselineLevel = this.baselineLevel;
+    const gameId = this.gameId;
+    this.policy.end();
+    this.gameId = null;
+    this.baseline = null;
+    this.applied = null;
+    this.appliedLevel = null;
+    if (!baseline || !gameId) {
+      return;
+    }
+
+    // Settings screens show the player's choices, not what the governor last picked
+    this.queueUpdate(async () => {
+      try {
+        await this.engine.updateConfig(baseline);
+      } catch (error) {
+        console.error('Failed to restore quality settings:', error);
+        this.emit('error', error);
+      }
+      await this.setEngineLevel(baselineLevel);
+    });
+  }
+
+  private handleMetrics(metrics: PerformanceMetrics): void {
+    if (!this.gameId || !this.enabled || this.isPaused || this.overrides[this.gameId]?.level) {
+      return;
+    }
+    const decision = this.policy.observe({ ...metrics, timestamp: Date.now() });
+    if (decision) {
+      this.apply(decision);
+    }
+  }
+
+  private apply(decision: QualityDecision): void {
+    const gameId = this.gameId!;
+    this.queueUpdate(async () => {
+      // Emulation stopped, or the next game is still being set up, while earlier writes ran
+      if (this.gameId !== gameId || !this.baseline) {
+        return;
+      }
+      const settings = resolveQualitySettings(decision.to, this.baseline, this.overrides[gameId]?.settings);
+      try {
+        this.applied = settings;
+        await this.engine.updateConfig(settings);
+      } catch (error) {
+        // Keep judging the level actually in use
+        this.policy.setLevel(decision.from);
+        console.error('Failed to apply quality settings:', error);
+        this.emit('error', error);
+        return;
+      }
+
+      this.appliedLevel = decision.to;
+      await this.setEngineLevel(decision.to);
+
+      const change: QualityChange = { ...decision, gameId, settings: { ...settings } };
+      this.changes.push(change);
+      if (this.changes.length > MAX_CHANGE_HISTORY) {
+        this.changes.shift();
+      }
+      this.emit('qualityChanged', change);
+    });
+  }
+
+  // Config writes run one after another, so a slow one never lands on top of a later one
+  private queueUpdate(run: () => Promise<void>): void {
+    this.updates = this.updates.then(run).catch(error => {
+      console.error('Quality update failed:', error);
+    });
+  }
+
+  // Marked while in flight so handleLevelChanged can tell the event it raises from the player's
+  private async setEngineLevel(level: QualityLevel): Promise<void> {
+    if (this.performanceEngine.getConfig().optimizationLevel === level) {
+      return;
+    }
+    this.requestedLevel = level;
+    try {
+      await this.performanceEngine.setOptimizationLevel(level);
+    } finally {
+      this.requestedLevel = null;
+    }
+  }
+
+  // The player changing a governed setting mid-game moves the baseline the levels cap
+  private handleConfigUpdated(config: EmulationConfig): void {
+    if (!this.baseline || !this.applied) {
+      return;
+    }
+    for (const field of GOVERNED_FIELDS) {
+      if (config[field] !== this.applied[field]) {
+        copySetting(this.baseline, config, field);
+        copySetting(this.applied, config, field);
+      }
+    }
+  }
+
+  // A level picked elsewhere, e.g. in settings, becomes the player's ceiling
+  private handleLevelChanged(level: string): void {
+    if (!this.gameId || level === this.requestedLevel) {
+      return;
+    }
+    this.baselineLevel = QUALITY_LEVELS[levelIndex(level)]!;
+    this.restart();
+  }
+
+  private getTargets(): QualityTargets {
+    const config = this.performanceEngine.getConfig();
+    const frameRate = this.engine.getFrameRate();
+    const fps = Math.min(config.maxFPS, frameRate > 0 ? frameRate : config.maxFPS);
+    return {
+      fps,
+      frameTime: 1000 / fps,
+      latency: config.targetLatency,
+      cpuLimit: config.cpuLimit,
+      memoryLimit: config.memoryLimit
+    };
+  }
+
+  private lowerOf(level: QualityLevel | undefined, other: QualityLevel): QualityLevel {
+    return level !== undefined && levelIndex(level) < levelIndex(other) ? level : other;
+  }
+}
+
+export default QualityGovernor;
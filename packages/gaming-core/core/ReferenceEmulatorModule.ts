@@ -0,0 +1,311 @@
+// 3kMLV Arcade - Reference Emulation Module
+// Drop-in replacement for the native GameEmulationEngine module, backed by TypeScript cores
+
+import { EventEmitter } from 'events';
+import type { EmulationConfig, EmulationPerformanceMetrics, GameControls } from './GameEmulationEngine';
+import type { CoreFrame, CoreInfo, EmulatorCore } from './EmulatorCore';
+import { Chip8Core } from './Chip8Core';
+import { base64Decode, base64Encode } from './BinaryUtils';
+import { FileSystem, ReactNativeFileSystem } from './FileSystem';
+import { encodePng, pngDataUrl, scaleFramebuffer } from './ImageUtils';
+
+export interface ReferenceModuleOptions {
+  cores?: EmulatorCore[];
+  fileSystem?: FileSystem;
+}
+
+export interface FrameUpdate {
+  frame: number;
+  fps: number;
+  width: number;
+  height: number;
+  // Omitted on frames dropped by EmulationConfig.frameSkip
+  framebuffer?: Uint8Array;
+  skipped: boolean;
+  // Milliseconds the core spent emulating the frame; absent on redraws
+  frameTime?: number;
+}
+
+export interface AudioUpdate {
+  frame: number;
+  sampleRate: number;
+  samples: Float32Array;
+}
+
+const FPS_WINDOW = 60;
+const PERFORMANCE_INTERVAL = 60;
+
+// Module state = 4-byte big-endian frame counter followed by the core's own state
+function packState(frame: number, coreState: Uint8Array): Uint8Array {
+  const state = new Uint8Array(4 + coreState.length);
+  new DataView(state.buffer).setUint32(0, frame);
+  state.set(coreState, 4);
+  return state;
+}
+
+function unpackState(state: Uint8Array): { frame: number; coreState: Uint8Array } {
+  if (state.length < 4) {
+    throw new Error('Invalid emulator state');
+  }
+  const view = new DataView(state.buffer, state.byteOffset, state.byteLength);
+  return { frame: view.getUint32(0), coreState: state.subarray(4) };
+}
+
+export class ReferenceEmulatorModule extends EventEmitter {
+  private cores: EmulatorCore[];
+  private fileSystem: FileSystem | null;
+  private activeCore: EmulatorCore | null = null;
+  private frame = 0;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private config: Partial<EmulationConfig> = {};
+  private saveSlots: Map<number, Uint8Array> = new Map();
+  private frameTimestamps: number[] = [];
+  private frameTime = 0;
+  private lastFrame: CoreFrame | null = null;
+
+  constructor(options: ReferenceModuleOptions = {}) {
+    super();
+    this.cores = options.cores ?? [new Chip8Core()];
+    this.fileSystem = options.fileSystem ?? null;
+  }
+
+  public registerCore(core: EmulatorCore): void {
+    this.cores = [...this.cores.filter(existing => existing.info.id !== core.info.id), core];
+  }
+
+  public getCores(): CoreInfo[] {
+    return this.cores.map(core => core.info);
+  }
+
+  public initialize(): Promise<boolean> {
+    return Promise.resolve(true);
+  }
+
+  public async loadRom(romPath: string): Promise<boolean> {
+    const data = await this.getFileSystem().readFile(romPath);
+    const core = this.cores.find(candidate => candidate.canLoad(romPath, data));
+
+    if (!core) {
+      throw new Error(`No reference core can load ${romPath}`);
+    }
+
+    this.stopTimer();
+    this.activeCore?.unload();
+    core.loadRom(data);
+    this.activeCore = core;
+    this.frame = 0;
+    this.lastFrame = null;
+    this.saveSlots.clear();
+    this.emit('onStateChange', { isRunning: false, isPaused: false, currentFrame: 0 });
+    return true;
+  }
+
+  public startEmulation(): Promise<boolean> {
+    const core = this.requireCore();
+
+    if (!this.timer) {
+      this.timer = setInterval(() => this.tick(), 1000 / core.info.frameRate);
+    }
+
+    return Promise.resolve(true);
+  }
+
+  public pauseEmulation(): Promise<boolean> {
+    this.stopTimer();
+    return Promise.resolve(true);
+  }
+
+  public stopEmulation(): Promise<boolean> {
+    this.stopTimer();
+    this.activeCore?.unload();
+    this.activeCore = null;
+    this.frame = 0;
+    this.lastFrame = null;
+    this.saveSlots.clear();
+    return Promise.resolve(true);
+  }
+
+  // Runs frames synchronously regardless of the timer; used for paused stepping and tests
+  public stepFrames(count: number = 1): Promise<number> {
+    this.requireCore();
+    for (let i = 0; i < count; i++) {
+      this.runFrame();
+    }
+    return Promise.resolve(this.frame);
+  }
+
+  public saveState(slot: number): Promise<boolean> {
+    this.saveSlots.set(slot, packState(this.frame, this.requireCore().serialize()));
+    return Promise.resolve(true);
+  }
+
+  public loadState(slot: number): Promise<boolean> {
+    const state = this.saveSlots.get(slot);
+    if (!state) {
+      return Promise.resolve(false);
+    }
+    this.restoreState(state);
+    return Promise.resolve(true);
+  }
+
+  public getStateData(): Promise<string> {
+    return Promise.resolve(base64Encode(packState(this.frame, this.requireCore().serialize())));
+  }
+
+  public setStateData(data: string): Promise<boolean> {
+    this.restoreState(base64Decode(data));
+    return Promise.resolve(true);
+  }
+
+  // Base64 so the result crosses the same bridge as getStateData
+  public readMemory(address: number, length: number): Promise<string> {
+    return Promise.resolve(base64Encode(this.requireCore().readMemory(address, length)));
+  }
+
+  public getCoreInfo(): Promise<CoreInfo | null> {
+    return Promise.resolve(this.activeCore ? this.activeCore.info : null);
+  }
+
+  public setControls(controls: GameControls, port: number = 0): Promise<boolean> {
+    this.activeCore?.setInput(controls, port);
+    return Promise.resolve(true);
+  }
+
+  public getPerformanceMetrics(): Promise<EmulationPerformanceMetrics> {
+    return Promise.resolve({
+      fps: this.measureFps(),
+      frameTime: this.frameTime,
+      memory: this.activeCore ? this.activeCore.serialize().length : 0
+    });
+  }
+
+  public takeScreenshot(): Promise<string> {
+    const core = this.activeCore;
+    if (!core || !this.lastFrame) {
+      return Promise.resolve('');
+    }
+
+    const { screenWidth, screenHeight } = core.info;
+    const scale = Math.max(1, Math.round(this.config.videoScale ?? 1));
+    const pixels = scaleFramebuffer(screenWidth, screenHeight, this.lastFrame.framebuffer, scale);
+    return Promise.resolve(pngDataUrl(encodePng(screenWidth * scale, screenHeight * scale, pixels)));
+  }
+
+  // Video capture needs a platform encoder; the reference module reports it as unsupported
+  public startVideoRecording(): Promise<boolean> {
+    return Promise.resolve(false);
+  }
+
+  public stopVideoRecording(): Promise<string> {
+    return Promise.resolve('');
+  }
+
+  public setConfig(config: Partial<EmulationConfig>): Promise<boolean> {
+    this.config = { ...this.config, ...config };
+    return Promise.resolve(true);
+  }
+
+  private tick(): void {
+    try {
+      this.runFrame();
+    } catch (error) {
+      this.stopTimer();
+      this.emit('onStateChange', { isPaused: true });
+      this.emit('onError', { message: error instanceof Error ? error.message : String(error), frame: this.frame });
+    }
+  }
+
+  private runFrame(): void {
+    const core = this.requireCore();
+    const started = Date.now();
+    const output = core.runFrame();
+    this.frameTime = Date.now() - started;
+    this.frame++;
+    this.lastFrame = output;
+    this.frameTimestamps.push(started);
+    if (this.frameTimestamps.length > FPS_WINDOW) {
+      this.frameTimestamps.shift();
+    }
+
+    const frameSkip = Math.max(0, this.config.frameSkip ?? 0);
+    const skipped = frameSkip > 0 && this.frame % (frameSkip + 1) !== 0;
+    const update: FrameUpdate = {
+      frame: this.frame,
+      fps: this.measureFps(),
+      width: core.info.screenWidth,
+      height: core.info.screenHeight,
+      skipped,
+      frameTime: this.frameTime
+    };
+    if (!skipped) {
+      update.framebuffer = output.framebuffer;
+    }
+    this.emit('onFrameUpdate', update);
+
+    const volume = this.config.audioVolume ?? 1;
+    const samples = volume === 1 ? output.audio : output.audio.map(sample => sample * volume);
+    const audio: AudioUpdate = { frame: this.frame, sampleRate: core.info.audioSampleRate, samples };
+    this.emit('onAudioUpdate', audio);
+
+    if (this.frame % PERFORMANCE_INTERVAL === 0) {
+      const metrics: EmulationPerformanceMetrics = {
+        fps: update.fps,
+        frameTime: this.frameTime,
+        memory: core.serialize().length
+      };
+      this.emit('onPerformanceUpdate', metrics);
+    }
+  }
+
+  private restoreState(state: Uint8Array): void {
+    const core = this.requireCore();
+    const { frame, coreState } = unpackState(state);
+    core.deserialize(coreState);
+    this.frame = frame;
+    this.emit('onStateChange', { currentFrame: frame });
+
+    // Redraw immediately so paused restores (save states, rewind) are visible
+    const framebuffer = core.renderFramebuffer();
+    this.lastFrame = { framebuffer, audio: new Float32Array(0) };
+    const update: FrameUpdate = {
+      frame,
+      fps: this.measureFps(),
+      width: core.info.screenWidth,
+      height: core.info.screenHeight,
+      framebuffer,
+      skipped: false
+    };
+    this.emit('onFrameUpdate', update);
+  }
+
+  private measureFps(): number {
+    if (this.frameTimestamps.length < 2) {
+      return 0;
+    }
+    const elapsed = this.frameTimestamps[this.frameTimestamps.length - 1]! - this.frameTimestamps[0]!;
+    return elapsed > 0 ? Math.round(((this.frameTimestamps.length - 1) * 1000) / elapsed) : 0;
+  }
+
+  private requireCore(): EmulatorCore {
+    if (!this.activeCore) {
+      throw new Error('No ROM loaded');
+    }
+    return this.activeCore;
+  }
+
+  private getFileSystem(): FileSystem {
+    if (!this.fileSystem) {
+      this.fileSystem = new ReactNativeFileSystem();
+    }
+    return this.fileSystem;
+  }
+
+  private stopTimer(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+}
+
+export default ReferenceEmulatorModule;
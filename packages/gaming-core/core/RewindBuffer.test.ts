@@ -0,0 +1,113 @@
+import { RewindBuffer, applyDelta, encodeDelta } from './RewindBuffer';
+
+// A 256-byte state where each frame moves a counter and touches one byte
+const stateAt = (frame: number): Uint8Array => {
+  const state = Uint8Array.from({ length: 256 }, (_, index) => (index * 7) & 0xff);
+  state[0] = frame & 0xff;
+  state[1] = frame >> 8;
+  state[16 + (frame % 200)] = 0xff;
+  return state;
+};
+
+const fill = (buffer: RewindBuffer, from: number, to: number) => {
+  for (let frame = from; frame <= to; frame++) {
+    buffer.push(frame, stateAt(frame));
+  }
+};
+
+describe('rewind deltas', () => {
+  it('round-trips states through XOR/RLE deltas', () => {
+    const base = stateAt(10);
+    const state = stateAt(11);
+
+    const delta = encodeDelta(state, base);
+
+    expect(delta.length).toBeLessThan(16);
+    expect(applyDelta(delta, base, state.length)).toEqual(state);
+  });
+
+  it('handles states that grow, shrink or have no base', () => {
+    const long = Uint8Array.from({ length: 40 }, (_, index) => 255 - index);
+    const short = long.slice(0, 10);
+
+    expect(applyDelta(encodeDelta(long, short), short, long.length)).toEqual(long);
+    expect(applyDelta(encodeDelta(short, long), long, short.length)).toEqual(short);
+    expect(applyDelta(encodeDelta(long, new Uint8Array(0)), new Uint8Array(0), long.length)).toEqual(long);
+  });
+
+  it('encodes long unchanged runs in a few bytes', () => {
+    const base = new Uint8Array(100000);
+    const state = base.slice();
+    state[99999] = 1;
+
+    const delta = encodeDelta(state, base);
+
+    expect(delta.length).toBeLessThanOrEqual(6);
+    expect(applyDelta(delta, base, state.length)).toEqual(state);
+  });
+});
+
+describe('RewindBuffer', () => {
+  it('seeks any snapshot back to its exact state', () => {
+    const buffer = new RewindBuffer({ maxSnapshots: 100, maxBytes: Infinity, keyframeInterval: 8 });
+    fill(buffer, 1, 30);
+
+    for (const index of [0, 7, 8, 13, 29]) {
+      expect(buffer.getFrameAt(index)).toBe(index + 1);
+      expect(buffer.seek(index)).toEqual(stateAt(index + 1));
+    }
+    expect(() => buffer.seek(30)).toThrow(RangeError);
+  });
+
+  it('drops the oldest snapshots once full and keeps the rest seekable', () => {
+    const buffer = new RewindBuffer({ maxSnapshots: 10, maxBytes: Infinity, keyframeInterval: 4 });
+
+    fill(buffer, 1, 25);
+
+    expect(buffer.getLength()).toBe(10);
+    expect([buffer.getFrameAt(0), buffer.getFrameAt(9)]).toEqual([16, 25]);
+    // Frame 16 was a delta until its base was evicted
+    for (let index = 0; index < 10; index++) {
+      expect(buffer.seek(index)).toEqual(stateAt(index + 16));
+    }
+  });
+
+  it('evicts by memory as well as by count', () => {
+    const unbounded = new RewindBuffer({ maxSnapshots: 100, maxBytes: Infinity, keyframeInterval: 5 });
+    fill(unbounded, 1, 40);
+    const bounded = new RewindBuffer({ maxSnapshots: 100, maxBytes: unbounded.getByteSize() / 2, keyframeInterval: 5 });
+
+    fill(bounded, 1, 40);
+
+    expect(bounded.getByteSize()).toBeLessThanOrEqual(unbounded.getByteSize() / 2);
+    expect(bounded.getLength()).toBeLessThan(40);
+    expect(bounded.getFrameAt(bounded.getLength() - 1)).toBe(40);
+    expect(bounded.seek(0)).toEqual(stateAt(bounded.getFrameAt(0)!));
+  });
+
+  it('shrinks to new limits', () => {
+    const buffer = new RewindBuffer({ maxSnapshots: 50, maxBytes: Infinity });
+    fill(buffer, 1, 50);
+
+    buffer.configure({ maxSnapshots: 5 });
+
+    expect(buffer.getLength()).toBe(5);
+    expect(buffer.seek(0)).toEqual(stateAt(46));
+  });
+
+  it('continues from a truncated snapshot', () => {
+    const buffer = new RewindBuffer({ maxSnapshots: 100, maxBytes: Infinity, keyframeInterval: 4 });
+    fill(buffer, 1, 20);
+
+    buffer.truncate(9);
+    buffer.push(11, stateAt(111));
+
+    expect(buffer.getLength()).toBe(11);
+    expect(buffer.seek(9)).toEqual(stateAt(10));
+    expect(buffer.seek(10)).toEqual(stateAt(111));
+
+    buffer.truncate(-1);
+    expect(buffer.getLength()).toBe(0);
+    expect(buffer.getByteSize()).toBe(0);
+  });
+});
@@ -0,0 +1,204 @@
+// 3kMLV Arcade - Rewind Buffer
+// Ring buffer of delta-compressed emulator snapshots bounded by count and memory
+
+export interface RewindBufferOptions {
+  maxSnapshots: number;
+  maxBytes: number;
+  // Every Nth snapshot is stored whole so seeking never replays more than N deltas
+  keyframeInterval?: number;
+}
+
+interface Snapshot {
+  frame: number;
+  keyframe: boolean;
+  length: number;
+  data: Uint8Array;
+}
+
+const DEFAULT_KEYFRAME_INTERVAL = 60;
+const EMPTY = new Uint8Array(0);
+
+function writeVarint(output: number[], value: number): void {
+  while (value >= 0x80) {
+    output.push((value & 0x7f) | 0x80);
+    value >>>= 7;
+  }
+  output.push(value);
+}
+
+function readVarint(data: Uint8Array, cursor: { offset: number }): number {
+  let value = 0;
+  let shift = 0;
+  let byte: number;
+  do {
+    byte = data[cursor.offset++] ?? 0;
+    value |= (byte & 0x7f) << shift;
+    shift += 7;
+  } while (byte & 0x80);
+  return value >>> 0;
+}
+
+// XOR against the previous state, then run-length encode as (zero run, literal run, literals)*.
+// Consecutive frames differ in a handful of bytes, so deltas are usually tiny.
+export function encodeDelta(state: Uint8Array, base: Uint8Array): Uint8Array {
+  const output: number[] = [];
+  let index = 0;
+
+  while (index < state.length) {
+    const zeroStart = index;
+    while (index < state.length && state[index] === (base[index] ?? 0)) {
+      index++;
+    }
+    const literalStart = index;
+    while (index < state.length && state[index] !== (base[index] ?? 0)) {
+      index++;
+    }
+
+    writeVarint(output, literalStart - zeroStart);
+    writeVarint(output, index - literalStart);
+    for (let i = literalStart; i < index; i++) {
+      output.push(state[i]! ^ (base[i] ?? 0));
+    }
+  }
+
+  return Uint8Array.from(output);
+}
+
+export function applyDelta(delta: Uint8Array, base: Uint8Array, length: number): Uint8Array {
+  const state = new Uint8Array(length);
+  state.set(base.length > length ? base.subarray(0, length) : base);
+
+  const cursor = { offset: 0 };
+  let index = 0;
+  while (cursor.offset < delta.length && index < length) {
+    index += readVarint(delta, cursor);
+    const literals = readVarint(delta, cursor);
+    for (let i = 0; i < literals && index < length; i++, index++) {
+      state[index] = (base[index] ?? 0) ^ delta[cursor.offset++]!;
+    }
+  }
+
+  return state;
+}
+
+export class RewindBuffer {
+  private snapshots: Snapshot[] = [];
+  private maxSnapshots: number;
+  private maxBytes: number;
+  private keyframeInterval: number;
+  private sinceKeyframe = 0;
+  private byteSize = 0;
+  // Uncompressed copy of the newest snapshot, the base for the next delta
+  private head: Uint8Array = EMPTY;
+
+  constructor(options: RewindBufferOptions) {
+    this.maxSnapshots = options.maxSnapshots;
+    this.maxBytes = options.maxBytes;
+    this.keyframeInterval = Math.max(1, options.keyframeInterval ?? DEFAULT_KEYFRAME_INTERVAL);
+  }
+
+  public configure(options: Partial<RewindBufferOptions>): void {
+    this.maxSnapshots = options.maxSnapshots ?? this.maxSnapshots;
+    this.maxBytes = options.maxBytes ?? this.maxBytes;
+    this.keyframeInterval = Math.max(1, options.keyframeInterval ?? this.keyframeInterval);
+    this.evict();
+  }
+
+  public push(frame: number, state: Uint8Array): void {
+    const keyframe = this.snapshots.length === 0 || this.sinceKeyframe >= this.keyframeInterval - 1;
+    const data = encodeDelta(state, keyframe ? EMPTY : this.head);
+
+    this.snapshots.push({ frame, keyframe, length: state.length, data });
+    this.byteSize += data.length;
+    this.sinceKeyframe = keyframe ? 0 : this.sinceKeyframe + 1;
+    this.head = state.slice();
+    this.evict();
+  }
+
+  public seek(index: number): Uint8Array {
+    const target = this.snapshots[index];
+    if (!target) {
+      throw new RangeError(`Rewind snapshot ${index} is out of range`);
+    }
+    if (index === this.snapshots.length - 1) {
+      return this.head.slice();
+    }
+
+    let start = index;
+    while (!this.snapshots[start]!.keyframe) {
+      start--;
+    }
+
+    let state: Uint8Array = EMPTY;
+    for (let i = start; i <= index; i++) {
+      const snapshot = this.snapshots[i]!;
+      state = applyDelta(snapshot.data, snapshot.keyframe ? EMPTY : state, snapshot.length);
+    }
+    return state;
+  }
+
+  // Drops everything newer than index, so emulation continues from that snapshot
+  public truncate(index: number): void {
+    if (index >= this.snapshots.length - 1) {
+      return;
+    }
+    if (index < 0) {
+      this.clear();
+      return;
+    }
+
+    const head = this.seek(index);
+    for (const removed of this.snapshots.splice(index + 1)) {
+      this.byteSize -= removed.data.length;
+    }
+
+    const lastKeyframe = this.snapshots.map(snapshot => snapshot.keyframe).lastIndexOf(true);
+    this.sinceKeyframe = this.snapshots.length - 1 - lastKeyframe;
+    this.head = head;
+  }
+
+  public clear(): void {
+    this.snapshots = [];
+    this.byteSize = 0;
+    this.sinceKeyframe = 0;
+    this.head = EMPTY;
+  }
+
+  public getLength(): number {
+    return this.snapshots.length;
+  }
+
+  public getFrameAt(index: number): number | null {
+    return this.snapshots[index]?.frame ?? null;
+  }
+
+  // Encoded snapshots plus the uncompressed head copy
+  public getByteSize(): number {
+    return this.byteSize + this.head.length;
+  }
+
+  private evict(): void {
+    while (
+      this.snapshots.length > 0 &&
+      (this.snapshots.length > this.maxSnapshots || this.getByteSize() > this.maxBytes)
+    ) {
+      if (this.snapshots.length === 1) {
+        this.clear();
+        return;
+      }
+
+      // The next snapshot becomes the oldest, so it has to stand on its own
+      const next = this.snapshots[1]!;
+      if (!next.keyframe) {
+        const state = this.seek(1);
+        const data = encodeDelta(state, EMPTY);
+        this.byteSize += data.length - next.data.length;
+        this.snapshots[1] = { frame: next.frame, keyframe: true, length: state.length, data };
+      }
+
+      this.byteSize -= this.snapshots.shift()!.data.length;
+    }
+  }
+}
+
+export default RewindBuffer;
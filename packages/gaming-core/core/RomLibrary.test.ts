@@ -0,0 +1,127 @@
+import { RomCatalogEntry, RomLibrary } from './RomLibrary';
+import { concatBytes, crc32, sha1Hex, toHex, utf8Encode } from './BinaryUtils';
+import { MemoryFileSystem } from './FileSystem';
+import { MemoryStorage } from './Storage';
+
+const PONG = Uint8Array.from([0x60, 0x05, 0x61, 0x0a, 0x12, 0x00, 0x00, 0xe0]);
+const NES_PAYLOAD = Uint8Array.from({ length: 32 }, (_, index) => index);
+// iNES header: magic, 1 PRG bank, no CHR
+const NES_ROM = concatBytes([Uint8Array.from([0x4e, 0x45, 0x53, 0x1a, 1, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0]), NES_PAYLOAD]);
+
+const datFor = (data: Uint8Array, gameName: string) => utf8Encode(`<?xml version="1.0"?>
+<datafile>
+  <header><name>Test Set</name><version>2024-01-01</version></header>
+  <game name="${gameName}">
+    <description>${gameName}</description>
+    <year>1990</year>
+    <manufacturer>Atari</manufacturer>
+    <rom name="pong.ch8" size="${data.length}" crc="${toHex(crc32(data)).toUpperCase()}" sha1="${sha1Hex(data)}"/>
+  </game>
+</datafile>`);
+
+describe('RomLibrary', () => {
+  let fileSystem: MemoryFileSystem;
+  let library: RomLibrary;
+
+  const byPath = () => Object.fromEntries(library.getEntries().map(entry => [entry.rom.filePath, entry]));
+
+  beforeEach(async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    fileSystem = new MemoryFileSystem();
+    library = new RomLibrary({ fileSystem, storage: new MemoryStorage() });
+    await library.initialize();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('catalogs recognized files with their platform and checksums', async () => {
+    await fileSystem.writeFile('/roms/Pong (World).ch8', PONG);
+    await fileSystem.writeFile('/roms/nes/Demo.nes', NES_ROM);
+    await fileSystem.writeFile('/roms/readme.txt', utf8Encode('not a game'));
+
+    const result = await library.scanDirectory('/roms');
+
+    expect(result).toEqual(expect.objectContaining({ scanned: 3, added: 2, updated: 0, removed: 0, unrecognized: ['/roms/readme.txt'] }));
+    const pong = byPath()['/roms/Pong (World).ch8']!;
+    expect(pong.rom).toEqual(expect.objectContaining({ id: sha1Hex(PONG), name: 'Pong', checksum: sha1Hex(PONG) }));
+    expect(pong.rom.platform.id).toBe('chip8');
+    expect([pong.crc32, pong.sha1, pong.verified]).toEqual([toHex(crc32(PONG)), sha1Hex(PONG), false]);
+
+    // The iNES header is left out, so the checksum matches headerless DAT entries
+    const demo = byPath()['/roms/nes/Demo.nes']!;
+    expect(demo.rom.platform.id).toBe('nes');
+    expect([demo.detectedBy, demo.headerLength, demo.sha1]).toEqual(['header', 16, sha1Hex(NES_PAYLOAD)]);
+  });
+
+  it('leaves unchanged files alone on a rescan', async () => {
+    await fileSystem.writeFile('/roms/pong.ch8', PONG);
+    await library.scanDirectory('/roms');
+
+    const result = await library.scanDirectory('/roms');
+
+    expect(result).toEqual(expect.objectContaining({ scanned: 1, added: 0, updated: 0, removed: 0 }));
+    expect(library.getEntries()).toHaveLength(1);
+  });
+
+  it('names and verifies ROMs from an imported DAT', async () => {
+    await fileSystem.writeFile('/dats/test.dat', datFor(PONG, 'Pong (World) (Rev 1)'));
+    await library.importDat('/dats/test.dat');
+    await fileSystem.writeFile('/roms/pong.ch8', PONG);
+
+    await library.scanDirectory('/roms');
+
+    const [entry] = library.getEntries();
+    expect(entry).toEqual(expect.objectContaining({ verified: true, datName: 'Test Set' }));
+    expect(entry!.rom.name).toBe('Pong');
+    expect(entry!.rom.metadata).toEqual(expect.objectContaining({ title: 'Pong', year: 1990, developer: 'Atari' }));
+    expect(library.findByChecksum(toHex(crc32(PONG)).toUpperCase())).toBe(entry);
+  });
+
+  it('verifies ROMs scanned before their DAT was imported', async () => {
+    await fileSystem.writeFile('/roms/pong.ch8', PONG);
+    await fileSystem.writeFile('/roms/other.ch8', Uint8Array.from([0x12, 0x00]));
+    await library.scanDirectory('/roms');
+    await fileSystem.writeFile('/dats/test.dat', datFor(PONG, 'Pong (World)'));
+    const imported = jest.fn();
+    library.on('datImported', imported);
+
+    expect(await library.importDat('/dats/test.dat')).toBe(1);
+
+    expect(imported).toHaveBeenCalledWith({ path: '/dats/test.dat', entries: 1, matched: 1 });
+    expect(byPath()['/roms/pong.ch8']?.verified).toBe(true);
+    expect(byPath()['/roms/other.ch8']?.verified).toBe(false);
+    expect(library.getDatNames()).toEqual(['Test Set']);
+  });
+
+  it('prunes missing files only under the scanned directory, not ones sharing its prefix', async () => {
+    await fileSystem.writeFile('/roms/pong.ch8', PONG);
+    await fileSystem.writeFile('/roms2/other.ch8', Uint8Array.from([0x12, 0x00]));
+    await library.scanDirectory('/roms');
+    await library.scanDirectory('/roms2');
+    await fileSystem.unlink('/roms/pong.ch8');
+    await fileSystem.unlink('/roms2/other.ch8');
+    const removed: RomCatalogEntry[] = [];
+    library.on('romRemoved', entry => removed.push(entry));
+
+    const result = await library.scanDirectory('/roms');
+
+    expect(result.removed).toBe(1);
+    expect(removed.map(entry => entry.rom.filePath)).toEqual(['/roms/pong.ch8']);
+    expect(Object.keys(byPath())).toEqual(['/roms2/other.ch8']);
+  });
+
+  it('keeps the catalog across restarts', async () => {
+    const storage = new MemoryStorage();
+    const first = new RomLibrary({ fileSystem, storage });
+    await first.initialize();
+    await fileSystem.writeFile('/roms/pong.ch8', PONG);
+    await first.scanDirectory('/roms');
+
+    const second = new RomLibrary({ fileSystem, storage });
+    await second.initialize();
+
+    expect(second.getRom(sha1Hex(PONG))?.filePath).toBe('/roms/pong.ch8');
+  });
+});
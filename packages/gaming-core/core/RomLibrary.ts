@@ -0,0 +1,423 @@
+// 3kMLV Arcade - ROM Library
+// Scans ROM directories, verifies checksums against DAT databases and persists the catalog
+
+import { EventEmitter } from 'events';
+import type { GameMetadata, GameRom } from './GameEmulationEngine';
+import { crc32, Sha1, toHex, utf8Decode } from './BinaryUtils';
+import { DatDatabase, cleanTitle, metadataFromDat, parseDat } from './DatDatabase';
+import { FileEntry, FileSystem, ReactNativeFileSystem, baseName, extensionOf } from './FileSystem';
+import { HEADER_PROBE_SIZE, detectPlatform } from './GamePlatforms';
+import { KeyValueStorage, getDefaultStorage, readJson, writeJson } from './Storage';
+
+export interface RomCatalogEntry {
+  rom: GameRom;
+  crc32: string;
+  sha1: string;
+  // True when the checksum matched an entry in an imported DAT
+  verified: boolean;
+  datName?: string;
+  detectedBy: 'header' | 'extension';
+  headerLength: number;
+  modifiedAt: number;
+  addedAt: number;
+}
+
+export interface ScanOptions {
+  recursive?: boolean;
+  // Re-hash files even when size and modification time are unchanged
+  rehash?: boolean;
+}
+
+export interface ScanResult {
+  directory: string;
+  scanned: number;
+  added: number;
+  updated: number;
+  removed: number;
+  unrecognized: string[];
+}
+
+export interface RomLibraryOptions {
+  fileSystem?: FileSystem;
+  storage?: KeyValueStorage;
+}
+
+const CATALOG_KEY = '@mlvarcade:romLibrary:catalog';
+const DAT_PATHS_KEY = '@mlvarcade:romLibrary:dats';
+const CATALOG_VERSION = 1;
+const HASH_CHUNK_SIZE = 1024 * 1024;
+
+interface StoredCatalog {
+  version: number;
+  entries: RomCatalogEntry[];
+}
+
+export class RomLibrary extends EventEmitter {
+  private static instance: RomLibrary;
+  private fileSystem: FileSystem | null;
+  private storage: KeyValueStorage;
+  private entries: Map<string, RomCatalogEntry> = new Map();
+  private datDatabase = new DatDatabase();
+  private datPaths: string[] = [];
+  private isInitialized = false;
+  private isScanning = false;
+
+  constructor(options: RomLibraryOptions = {}) {
+    super();
+    this.fileSystem = options.fileSystem ?? null;
+    this.storage = options.storage ?? getDefaultStorage();
+  }
+
+  public static getInstance(): RomLibrary {
+    if (!RomLibrary.instance) {
+      RomLibrary.instance = new RomLibrary();
+    }
+    return RomLibrary.instance;
+  }
+
+  public async initialize(): Promise<boolean> {
+    if (this.isInitialized) {
+      return true;
+    }
+
+    try {
+      const catalog = await readJson<StoredCatalog>(this.storage, CATALOG_KEY, { version: CATALOG_VERSION, entries: [] });
+      if (catalog.version === CATALOG_VERSION) {
+        for (const entry of catalog.entries) {
+          this.entries.set(entry.rom.id, entry);
+        }
+      }
+
+      const datPaths = await readJson<string[]>(this.storage, DAT_PATHS_KEY, []);
+      for (const path of datPaths) {
+        try {
+          await this.loadDat(path);
+        } catch (error) {
+          console.warn(`Skipping unreadable DAT ${path}:`, error);
+        }
+      }
+
+      this.isInitialized = true;
+      this.emit('initialized', this.getEntries());
+      return true;
+    } catch (error) {
+      console.error('Failed to initialize ROM library:', error);
+      this.emit('error', error);
+      return false;
+    }
+  }
+
+  // DAT Management
+  public async importDat(path: string): Promise<number> {
+    const count = await this.loadDat(path);
+    if (!this.datPaths.includes(path)) {
+      this.datPaths.push(path);
+      await writeJson(this.storage, DAT_PATHS_KEY, this.datPaths);
+    }
+
+    // Entries scanned before this DAT was available may now verify
+    let matched = 0;
+    for (const entry of this.entries.values()) {
+      if (!entry.verified && this.applyDatMatch(entry)) {
+        matched++;
+      }
+    }
+    if (matched > 0) {
+      await this.persist();
+    }
+
+    this.emit('datImported', { path, entries: count, matched });
+    return count;
+  }
+
+  public getDatNames(): string[] {
+    return this.datDatabase.getDatNames();
+  }
+
+  // Scanning
+  public async scanDirectory(directory: string, options: ScanOptions = {}): Promise<ScanResult> {
+    if (this.isScanning) {
+      throw new Error('A library scan is already in progress');
+    }
+
+    this.isScanning = true;
+    this.emit('scanStarted', directory);
+
+    const result: ScanResult = { directory, scanned: 0, added: 0, updated: 0, removed: 0, unrecognized: [] };
+
+    try {
+      const files = await this.walk(directory, options.recursive ?? true);
+      const seenPaths = new Set<string>();
+
+      for (const file of files) {
+        result.scanned++;
+        seenPaths.add(file.path);
+        this.emit('scanProgress', { path: file.path, scanned: result.scanned, total: files.length });
+
+        const existing = this.findByPath(file.path);
+        if (existing && !options.rehash && existing.rom.size === file.size && existing.modifiedAt === file.modifiedAt) {
+          continue;
+        }
+
+        const entry = await this.identifyFile(file);
+        if (!entry) {
+          result.unrecognized.push(file.path);
+          continue;
+        }
+
+        if (existing && existing.rom.id !== entry.rom.id) {
+          this.entries.delete(existing.rom.id);
+        }
+
+        const duplicate = this.entries.get(entry.rom.id);
+        if (duplicate && duplicate.rom.filePath !== entry.rom.filePath && seenPaths.has(duplicate.rom.filePath)) {
+          this.emit('duplicateFound', { kept: duplicate, skipped: entry.rom.filePath });
+          continue;
+        }
+
+        if (duplicate || existing) {
+          entry.addedAt = (duplicate ?? existing)!.addedAt;
+          result.updated++;
+          this.emit('romUpdated', entry);
+        } else {
+          result.added++;
+          this.emit('romAdded', entry);
+        }
+        this.entries.set(entry.rom.id, entry);
+      }
+
+      // Match on the separator so scanning /roms/nes leaves /roms/nes-hacks alone
+      const prefix = directory.endsWith('/') ? directory : `${directory}/`;
+      for (const entry of Array.from(this.entries.values())) {
+        const path = entry.rom.filePath;
+        if (path.startsWith(prefix) && !seenPaths.has(path) && !(await this.getFileSystem().exists(path))) {
+          this.entries.delete(entry.rom.id);
+          result.removed++;
+          this.emit('romRemoved', entry);
+        }
+      }
+
+      await this.persist();
+      this.emit('scanCompleted', result);
+      return result;
+    } catch (error) {
+      console.error('ROM library scan failed:', error);
+      this.emit('error', error);
+      throw error;
+    } finally {
+      this.isScanning = false;
+    }
+  }
+
+  // Adds a single file, e.g. one that finished downloading
+  public async addRom(path: string): Promise<RomCatalogEntry | null> {
+    const file = await this.getFileSystem().stat(path);
+    const entry = await this.identifyFile(file);
+    if (!entry) {
+      return null;
+    }
+
+    const existing = this.entries.get(entry.rom.id);
+    if (existing) {
+      entry.addedAt = existing.addedAt;
+    }
+    this.entries.set(entry.rom.id, entry);
+    await this.persist();
+    this.emit(existing ? 'romUpdated' : 'romAdded', entry);
+    return entry;
+  }
+
+  public async removeRom(id: string): Promise<boolean> {
+    const entry = this.entries.get(id);
+    if (!entry) {
+      return false;
+    }
+
+    this.entries.delete(id);
+    await this.persist();
+    this.emit('romRemoved', entry);
+    return true;
+  }
+
+  // Re-hashes the file on disk and compares it with the catalogued checksum
+  public async verifyRom(id: string): Promise<boolean> {
+    const entry = this.entries.get(id);
+    if (!entry) {
+      throw new Error(`ROM not in library: ${id}`);
+    }
+
+    try {
+      const file = await this.getFileSystem().stat(entry.rom.filePath);
+      const { sha1 } = await this.hashFile(file.path, entry.headerLength, file.size);
+      const intact = sha1 === entry.sha1;
+      this.emit('romVerified', { entry, intact });
+      return intact;
+    } catch (error) {
+      console.error('Failed to verify ROM:', error);
+      this.emit('romVerified', { entry, intact: false });
+      return false;
+    }
+  }
+
+  public async identifyFile(file: FileEntry): Promise<RomCatalogEntry | null> {
+    if (file.isDirectory || file.size === 0) {
+      return null;
+    }
+
+    const fileSystem = this.getFileSystem();
+    const header = await fileSystem.readRange(file.path, 0, Math.min(HEADER_PROBE_SIZE, file.size));
+    const match = detectPlatform(extensionOf(file.path), header);
+    if (!match) {
+      return null;
+    }
+
+    const headerLength = match.definition.headerLength?.(header, file.size) ?? 0;
+    const checksums = await this.hashFile(file.path, headerLength, file.size);
+    const now = Date.now();
+
+    const entry: RomCatalogEntry = {
+      rom: {
+        id: checksums.sha1,
+        name: cleanTitle(baseName(file.path).replace(/\.[^.]+$/, '')),
+        platform: match.definition.platform,
+        filePath: file.path,
+        size: file.size,
+        checksum: checksums.sha1,
+        metadata: this.defaultMetadata(file.path)
+      },
+      crc32: checksums.crc32,
+      sha1: checksums.sha1,
+      verified: false,
+      detectedBy: match.detectedBy,
+      headerLength,
+      modifiedAt: file.modifiedAt,
+      addedAt: now
+    };
+
+    this.applyDatMatch(entry);
+    return entry;
+  }
+
+  // Getters
+  public getEntries(): RomCatalogEntry[] {
+    return Array.from(this.entries.values()).sort((a, b) => a.rom.name.localeCompare(b.rom.name));
+  }
+
+  public getRoms(): GameRom[] {
+    return this.getEntries().map(entry => entry.rom);
+  }
+
+  public getRom(id: string): GameRom | null {
+    return this.entries.get(id)?.rom ?? null;
+  }
+
+  public findByChecksum(checksum: string): RomCatalogEntry | null {
+    const normalized = checksum.toLowerCase();
+    for (const entry of this.entries.values()) {
+      if (entry.sha1 === normalized || entry.crc32 === normalized) {
+        return entry;
+      }
+    }
+    return null;
+  }
+
+  public isCurrentlyScanning(): boolean {
+    return this.isScanning;
+  }
+
+  private async loadDat(path: string): Promise<number> {
+    const xml = utf8Decode(await this.getFileSystem().readFile(path));
+    const dat = parseDat(xml);
+    if (dat.entries.length === 0) {
+      throw new Error(`No ROM entries found in DAT ${path}`);
+    }
+    return this.datDatabase.add(dat);
+  }
+
+  private applyDatMatch(entry: RomCatalogEntry): boolean {
+    const match = this.datDatabase.match(entry.sha1, entry.crc32, entry.rom.size - entry.headerLength);
+    if (!match) {
+      return false;
+    }
+
+    entry.verified = true;
+    entry.datName = match.datName;
+    entry.rom.name = cleanTitle(match.gameName);
+    entry.rom.metadata = metadataFromDat(match);
+    return true;
+  }
+
+  private async hashFile(path: string, offset: number, size: number): Promise<{ crc32: string; sha1: string }> {
+    const fileSystem = this.getFileSystem();
+    const sha1 = new Sha1();
+    let crc = 0;
+
+    for (let position = offset; position < size; position += HASH_CHUNK_SIZE) {
+      const chunk = await fileSystem.readRange(path, position, Math.min(HASH_CHUNK_SIZE, size - position));
+      crc = crc32(chunk, crc);
+      sha1.update(chunk);
+    }
+
+    return { crc32: toHex(crc), sha1: sha1.hexDigest() };
+  }
+
+  private async walk(directory: string, recursive: boolean): Promise<FileEntry[]> {
+    const files: FileEntry[] = [];
+    const pending = [directory];
+
+    while (pending.length > 0) {
+      const current = pending.pop()!;
+      for (const entry of await this.getFileSystem().readDir(current)) {
+        if (entry.isDirectory) {
+          if (recursive) {
+            pending.push(entry.path);
+          }
+        } else {
+          files.push(entry);
+        }
+      }
+    }
+
+    return files;
+  }
+
+  private findByPath(path: string): RomCatalogEntry | null {
+    for (const entry of this.entries.values()) {
+      if (entry.rom.filePath === path) {
+        return entry;
+      }
+    }
+    return null;
+  }
+
+  private defaultMetadata(path: string): GameMetadata {
+    return {
+      title: cleanTitle(baseName(path).replace(/\.[^.]+$/, '')),
+      description: '',
+      genre: [],
+      year: 0,
+      developer: '',
+      publisher: '',
+      rating: '',
+      players: 1,
+      screenshot: '',
+      cover: '',
+      video: ''
+    };
+  }
+
+  private async persist(): Promise<void> {
+    const catalog: StoredCatalog = { version: CATALOG_VERSION, entries: Array.from(this.entries.values()) };
+    await writeJson(this.storage, CATALOG_KEY, catalog);
+    this.emit('catalogUpdated', this.getEntries());
+  }
+
+  private getFileSystem(): FileSystem {
+    if (!this.fileSystem) {
+      this.fileSystem = new ReactNativeFileSystem();
+    }
+    return this.fileSystem;
+  }
+}
+
+export default RomLibrary;
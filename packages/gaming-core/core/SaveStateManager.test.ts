@@ -0,0 +1,153 @@
+import { decodeSaveState, encodeSaveState, SaveStateError, SaveStateManager } from './SaveStateManager';
+import type { GameRom } from './GameEmulationEngine';
+import { CHIP8_PLATFORM } from './Chip8Core';
+import { base64Decode } from './BinaryUtils';
+import { MemoryFileSystem } from './FileSystem';
+import { pngDataUrl } from './ImageUtils';
+import { rawContainer, thrownBy } from './__fixtures__/containers';
+
+const HEADER = {
+  coreId: 'chip8-reference',
+  coreVersion: '1.0.0',
+  romChecksum: 'abc123',
+  romName: 'Pong',
+  slot: 1,
+  frame: 600,
+  createdAt: 1700000000000
+};
+
+const withRawHeader = (header: string): Uint8Array => rawContainer('MLVS', header);
+
+const decodeError = (data: Uint8Array): SaveStateError => thrownBy(() => decodeSaveState(data));
+
+describe('save state container', () => {
+  it('round-trips state and thumbnail', () => {
+    const state = Uint8Array.from({ length: 256 }, (_, index) => index);
+    const thumbnail = Uint8Array.from([0x89, 0x50, 0x4e, 0x47]);
+
+    const decoded = decodeSaveState(encodeSaveState(HEADER, state, thumbnail));
+
+    expect(decoded.header).toMatchObject(HEADER);
+    expect(Array.from(decoded.state)).toEqual(Array.from(state));
+    expect(Array.from(decoded.thumbnail)).toEqual(Array.from(thumbnail));
+  });
+
+  it('reports a header without payload details as corrupted', () => {
+    const error = decodeError(withRawHeader(JSON.stringify({ ...HEADER, thumbnail: { format: 'png', length: 0 } })));
+
+    expect(error).toBeInstanceOf(SaveStateError);
+    expect(error.code).toBe('CORRUPTED');
+  });
+
+  it('reports a JSON header that is not an object as corrupted', () => {
+    expect(decodeError(withRawHeader('null')).code).toBe('CORRUPTED');
+  });
+
+  it('reports negative section lengths as corrupted', () => {
+    const header = {
+      ...HEADER,
+      thumbnail: { format: 'png', length: -4 },
+      payload: { compression: 'deflate', length: 0, originalLength: 0, sha1: '' }
+    };
+
+    expect(decodeError(withRawHeader(JSON.stringify(header))).code).toBe('CORRUPTED');
+  });
+});
+
+const romFor = (checksum: string, name: string): GameRom => ({
+  id: checksum,
+  name,
+  platform: CHIP8_PLATFORM,
+  filePath: `/roms/${name}.ch8`,
+  size: 0,
+  checksum,
+  metadata: {
+    title: name,
+    description: '',
+    genre: [],
+    year: 1978,
+    developer: '',
+    publisher: '',
+    rating: '',
+    players: 1,
+    screenshot: '',
+    cover: '',
+    video: ''
+  }
+});
+
+describe('SaveStateManager', () => {
+  const PONG = romFor('abc123', 'Pong');
+  const CORE = { id: 'chip8-reference', version: '1.2.0' };
+  const STATE = Uint8Array.from({ length: 64 }, (_, index) => index * 3);
+  const THUMBNAIL = Uint8Array.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+  let fileSystem: MemoryFileSystem;
+  let saveStates: SaveStateManager;
+
+  const rejection = async (promise: Promise<unknown>): Promise<SaveStateError> => {
+    try {
+      await promise;
+    } catch (error) {
+      return error as SaveStateError;
+    }
+    throw new Error('Expected the save state to be rejected');
+  };
+
+  beforeEach(async () => {
+    fileSystem = new MemoryFileSystem();
+    saveStates = new SaveStateManager({ fileSystem, directory: '/states' });
+    await saveStates.save({ rom: PONG, core: CORE, slot: 1, frame: 600, state: STATE, thumbnail: THUMBNAIL });
+  });
+
+  it('refuses a state saved for another ROM', async () => {
+    const tetris = romFor('def456', 'Tetris');
+    const exported = await saveStates.exportSlot(PONG.checksum, 1);
+
+    const error = await rejection(saveStates.importState(exported, tetris, CORE));
+
+    expect(error).toBeInstanceOf(SaveStateError);
+    expect(error.code).toBe('ROM_MISMATCH');
+    expect(error.message).toBe('Save state belongs to "Pong", not "Tetris"');
+    expect(await saveStates.listSlots(tetris.checksum)).toEqual([]);
+  });
+
+  it('refuses a state from another core or core major version', async () => {
+    expect((await rejection(saveStates.load(PONG, { id: 'chip8-native', version: '1.2.0' }, 1))).code).toBe('CORE_MISMATCH');
+    expect((await rejection(saveStates.load(PONG, { ...CORE, version: '2.0.0' }, 1))).code).toBe('CORE_MISMATCH');
+
+    const { header, state } = await saveStates.load(PONG, { ...CORE, version: '1.9.1' }, 1);
+    expect(header.frame).toBe(600);
+    expect(Array.from(state)).toEqual(Array.from(STATE));
+  });
+
+  it('reports an empty slot as not found', async () => {
+    expect((await rejection(saveStates.load(PONG, CORE, 2))).code).toBe('NOT_FOUND');
+  });
+
+  it('keeps the thumbnail through listing, export and import into another slot', async () => {
+    const [summary] = await saveStates.listSlots(PONG.checksum);
+    expect(summary?.thumbnail).toBe(pngDataUrl(THUMBNAIL));
+
+    const header = await saveStates.importState(await saveStates.exportSlot(PONG.checksum, 1), PONG, CORE, 3);
+    expect(header.slot).toBe(3);
+    expect(header.thumbnail.length).toBe(THUMBNAIL.length);
+
+    const moved = decodeSaveState(await fileSystem.readFile(saveStates.getSlotPath(PONG.checksum, 3)));
+    expect(Array.from(moved.thumbnail)).toEqual(Array.from(THUMBNAIL));
+    expect(Array.from(moved.state)).toEqual(Array.from(STATE));
+    expect((await saveStates.listSlots(PONG.checksum)).map(slot => [slot.slot, slot.thumbnail])).toEqual([
+      [1, pngDataUrl(THUMBNAIL)],
+      [3, pngDataUrl(THUMBNAIL)]
+    ]);
+  });
+
+  it('lists states saved without a screenshot with an empty thumbnail', async () => {
+    await saveStates.save({ rom: PONG, core: CORE, slot: 2, frame: 10, state: STATE, thumbnail: null });
+
+    const slots = await saveStates.listSlots(PONG.checksum);
+
+    expect(slots.map(slot => [slot.slot, slot.thumbnail])).toEqual([[1, pngDataUrl(THUMBNAIL)], [2, '']]);
+    expect(decodeSaveState(base64Decode(await saveStates.exportSlot(PONG.checksum, 2))).thumbnail).toHaveLength(0);
+  });
+});
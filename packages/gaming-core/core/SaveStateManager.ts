@@ -0,0 +1,353 @@
+// 3kMLV Arcade - Save State Container
+// Versioned on-disk save states with thumbnails and integrity checks
+//
+// File layout (.mlvs, all integers big-endian):
+//
+//   offset   size  field
+//   0        4     magic "MLVS"
+//   4        2     container format version (currently 1)
+//   6        4     header length N
+//   10       N     header, UTF-8 JSON (see SaveStateHeader)
+//   10+N     T     thumbnail PNG, T = header.thumbnail.length (0 when no screenshot was available)
+//   10+N+T   P     payload, P = header.payload.length, zlib-deflated emulator state
+//
+// The payload SHA-1 is taken over the uncompressed state. A state only loads when the
+// ROM checksum matches and the core id and major version match the running core.
+
+import { deflate, inflate } from 'pako';
+import type { GameRom } from './GameEmulationEngine';
+import { base64Decode, base64Encode, concatBytes, sha1Hex, utf8Decode, utf8Encode } from './BinaryUtils';
+import { FileSystem, ReactNativeFileSystem, joinPath } from './FileSystem';
+import { pngDataUrl } from './ImageUtils';
+
+export const SAVE_STATE_MAGIC = 'MLVS';
+export const SAVE_STATE_FORMAT_VERSION = 1;
+export const SAVE_STATE_EXTENSION = '.mlvs';
+
+const PREAMBLE_SIZE = 10;
+
+export interface SaveStateHeader {
+  coreId: string;
+  coreVersion: string;
+  romChecksum: string;
+  romName: string;
+  slot: number;
+  frame: number;
+  createdAt: number;
+  thumbnail: {
+    format: 'png';
+    length: number;
+  };
+  payload: {
+    compression: 'deflate';
+    length: number;
+    originalLength: number;
+    sha1: string;
+  };
+}
+
+export interface SaveStateSummary {
+  slot: number;
+  header: SaveStateHeader;
+  // data: URL, empty when the state has no thumbnail
+  thumbnail: string;
+  fileSize: number;
+}
+
+export interface SaveStateCore {
+  id: string;
+  version: string;
+}
+
+export type SaveStateErrorCode =
+  | 'INVALID_FORMAT'
+  | 'UNSUPPORTED_VERSION'
+  | 'CORRUPTED'
+  | 'ROM_MISMATCH'
+  | 'CORE_MISMATCH'
+  | 'NOT_FOUND';
+
+export class SaveStateError extends Error {
+  public readonly code: SaveStateErrorCode;
+
+  constructor(code: SaveStateErrorCode, message: string) {
+    super(message);
+    this.name = 'SaveStateError';
+    this.code = code;
+  }
+}
+
+export interface SaveStateManagerOptions {
+  fileSystem?: FileSystem;
+  directory?: string;
+}
+
+function majorVersion(version: string): string {
+  return version.split('.')[0] ?? version;
+}
+
+function isByteLength(value: unknown): value is number {
+  return Number.isInteger(value) && (value as number) >= 0;
+}
+
+// Headers come from disk, so every field the decoder indexes by is checked before it is trusted
+function isSaveStateHeader(value: unknown): value is SaveStateHeader {
+  if (typeof value !== 'object' || value === null) {
+    return false;
+  }
+
+  const header = value as Partial<SaveStateHeader>;
+  return typeof header.coreId === 'string' &&
+    typeof header.coreVersion === 'string' &&
+    typeof header.romChecksum === 'string' &&
+    typeof header.romName === 'string' &&
+    typeof header.slot === 'number' &&
+    typeof header.frame === 'number' &&
+    typeof header.createdAt === 'number' &&
+    typeof header.thumbnail === 'object' && header.thumbnail !== null &&
+    isByteLength(header.thumbnail.length) &&
+    typeof header.payload === 'object' && header.payload !== null &&
+    isByteLength(header.payload.length) &&
+    isByteLength(header.payload.originalLength) &&
+    typeof header.payload.sha1 === 'string';
+}
+
+export function encodeSaveState(
+  header: Omit<SaveStateHeader, 'thumbnail' | 'payload'>,
+  state: Uint8Array,
+  thumbnail: Uint8Array | null
+): Uint8Array {
+  const payload = deflate(state);
+  const fullHeader: SaveStateHeader = {
+    ...header,
+    thumbnail: { format: 'png', length: thumbnail ? thumbnail.length : 0 },
+    payload: {
+      compression: 'deflate',
+      length: payload.length,
+      originalLength: state.length,
+      sha1: sha1Hex(state)
+    }
+  };
+
+  const headerBytes = utf8Encode(JSON.stringify(fullHeader));
+  const preamble = new Uint8Array(PREAMBLE_SIZE);
+  const view = new DataView(preamble.buffer);
+  preamble.set(utf8Encode(SAVE_STATE_MAGIC), 0);
+  view.setUint16(4, SAVE_STATE_FORMAT_VERSION);
+  view.setUint32(6, headerBytes.length);
+
+  return concatBytes([preamble, headerBytes, thumbnail ?? new Uint8Array(0), payload]);
+}
+
+export function decodeSaveStateHeader(data: Uint8Array): { header: SaveStateHeader; headerEnd: number } {
+  if (data.length < PREAMBLE_SIZE || utf8Decode(data.subarray(0, 4)) !== SAVE_STATE_MAGIC) {
+    throw new SaveStateError('INVALID_FORMAT', 'Not a 3kMLV save state');
+  }
+
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const version = view.getUint16(4);
+  if (version > SAVE_STATE_FORMAT_VERSION) {
+    throw new SaveStateError('UNSUPPORTED_VERSION', `Save state format v${version} is newer than supported v${SAVE_STATE_FORMAT_VERSION}`);
+  }
+
+  const headerLength = view.getUint32(6);
+  const headerEnd = PREAMBLE_SIZE + headerLength;
+  if (headerEnd > data.length) {
+    throw new SaveStateError('CORRUPTED', 'Save state header is truncated');
+  }
+
+  let header: unknown;
+  try {
+    header = JSON.parse(utf8Decode(data.subarray(PREAMBLE_SIZE, headerEnd)));
+  } catch (error) {
+    throw new SaveStateError('CORRUPTED', 'Save state header is not valid JSON');
+  }
+
+  if (!isSaveStateHeader(header)) {
+    throw new SaveStateError('CORRUPTED', 'Save state header is missing required fields');
+  }
+
+  return { header, headerEnd };
+}
+
+export function decodeSaveState(data: Uint8Array): { header: SaveStateHeader; thumbnail: Uint8Array; state: Uint8Array } {
+  const { header, headerEnd } = decodeSaveStateHeader(data);
+  const thumbnailEnd = headerEnd + header.thumbnail.length;
+  const payloadEnd = thumbnailEnd + header.payload.length;
+  if (payloadEnd > data.length) {
+    throw new SaveStateError('CORRUPTED', 'Save state payload is truncated');
+  }
+
+  let state: Uint8Array;
+  try {
+    state = inflate(data.subarray(thumbnailEnd, payloadEnd));
+  } catch (error) {
+    throw new SaveStateError('CORRUPTED', 'Save state payload failed to decompress');
+  }
+
+  if (state.length !== header.payload.originalLength || sha1Hex(state) !== header.payload.sha1) {
+    throw new SaveStateError('CORRUPTED', 'Save state payload hash mismatch');
+  }
+
+  return { header, thumbnail: data.slice(headerEnd, thumbnailEnd), state };
+}
+
+export function assertCompatible(header: SaveStateHeader, rom: GameRom, core: SaveStateCore): void {
+  if (header.romChecksum !== rom.checksum) {
+    throw new SaveStateError('ROM_MISMATCH', `Save state belongs to "${header.romName}", not "${rom.name}"`);
+  }
+
+  if (header.coreId !== core.id || majorVersion(header.coreVersion) !== majorVersion(core.version)) {
+    throw new SaveStateError(
+      'CORE_MISMATCH',
+      `Save state was made with ${header.coreId} ${header.coreVersion}, running ${core.id} ${core.version}`
+    );
+  }
+}
+
+export class SaveStateManager {
+  private fileSystem: FileSystem | null;
+  private directory: string | null;
+
+  constructor(options: SaveStateManagerOptions = {}) {
+    this.fileSystem = options.fileSystem ?? null;
+    this.directory = options.directory ?? null;
+  }
+
+  public async save(params: {
+    rom: GameRom;
+    core: SaveStateCore;
+    slot: number;
+    frame: number;
+    state: Uint8Array;
+    thumbnail: Uint8Array | null;
+  }): Promise<SaveStateHeader> {
+    const container = encodeSaveState(
+      {
+        coreId: params.core.id,
+        coreVersion: params.core.version,
+        romChecksum: params.rom.checksum,
+        romName: params.rom.name,
+        slot: params.slot,
+        frame: params.frame,
+        createdAt: Date.now()
+      },
+      params.state,
+      params.thumbnail
+    );
+
+    await this.writeSlot(params.rom.checksum, params.slot, container);
+    return decodeSaveStateHeader(container).header;
+  }
+
+  public async load(rom: GameRom, core: SaveStateCore, slot: number): Promise<{ header: SaveStateHeader; state: Uint8Array }> {
+    const { header, state } = decodeSaveState(await this.readSlot(rom.checksum, slot));
+    assertCompatible(header, rom, core);
+    return { header, state };
+  }
+
+  public async listSlots(romChecksum: string): Promise<SaveStateSummary[]> {
+    const fileSystem = this.getFileSystem();
+    const directory = this.getRomDirectory(romChecksum);
+    if (!(await fileSystem.exists(directory))) {
+      return [];
+    }
+
+    const summaries: SaveStateSummary[] = [];
+    for (const file of await fileSystem.readDir(directory)) {
+      if (file.isDirectory || !file.name.endsWith(SAVE_STATE_EXTENSION)) {
+        continue;
+      }
+
+      try {
+        const data = await fileSystem.readFile(file.path);
+        const { header, headerEnd } = decodeSaveStateHeader(data);
+        const thumbnail = data.subarray(headerEnd, headerEnd + header.thumbnail.length);
+        summaries.push({
+          slot: header.slot,
+          header,
+          thumbnail: thumbnail.length > 0 ? pngDataUrl(thumbnail) : '',
+          fileSize: file.size
+        });
+      } catch (error) {
+        console.warn(`Skipping unreadable save state ${file.path}:`, error);
+      }
+    }
+
+    return summaries.sort((a, b) => a.slot - b.slot);
+  }
+
+  public async deleteSlot(romChecksum: string, slot: number): Promise<boolean> {
+    const path = this.getSlotPath(romChecksum, slot);
+    if (!(await this.getFileSystem().exists(path))) {
+      return false;
+    }
+    await this.getFileSystem().unlink(path);
+    return true;
+  }
+
+  // Base64 so exports can travel through share sheets and clipboards
+  public async exportSlot(romChecksum: string, slot: number): Promise<string> {
+    const data = await this.readSlot(romChecksum, slot);
+    decodeSaveState(data);
+    return base64Encode(data);
+  }
+
+  public async importState(data: string | Uint8Array, rom: GameRom, core: SaveStateCore, slot?: number): Promise<SaveStateHeader> {
+    const bytes = typeof data === 'string' ? base64Decode(data) : data;
+    const { header, thumbnail, state } = decodeSaveState(bytes);
+    assertCompatible(header, rom, core);
+
+    if (slot === undefined || slot === header.slot) {
+      await this.writeSlot(rom.checksum, header.slot, bytes);
+      return header;
+    }
+
+    // Re-encode so the stored header reflects the slot it now lives in
+    return this.save({
+      rom,
+      core,
+      slot,
+      frame: header.frame,
+      state,
+      thumbnail: thumbnail.length > 0 ? thumbnail : null
+    });
+  }
+
+  public getSlotPath(romChecksum: string, slot: number): string {
+    return joinPath(this.getRomDirectory(romChecksum), `slot-${slot}${SAVE_STATE_EXTENSION}`);
+  }
+
+  private async readSlot(romChecksum: string, slot: number): Promise<Uint8Array> {
+    const path = this.getSlotPath(romChecksum, slot);
+    if (!(await this.getFileSystem().exists(path))) {
+      throw new SaveStateError('NOT_FOUND', `No save state in slot ${slot}`);
+    }
+    return this.getFileSystem().readFile(path);
+  }
+
+  private async writeSlot(romChecksum: string, slot: number, data: Uint8Array): Promise<void> {
+    const fileSystem = this.getFileSystem();
+    const directory = this.getRomDirectory(romChecksum);
+    if (!(await fileSystem.exists(directory))) {
+      await fileSystem.mkdir(directory);
+    }
+    await fileSystem.writeFile(this.getSlotPath(romChecksum, slot), data);
+  }
+
+  private getRomDirectory(romChecksum: string): string {
+    if (!this.directory) {
+      this.directory = joinPath(ReactNativeFileSystem.getDocumentDirectory(), 'savestates');
+    }
+    return joinPath(this.directory, romChecksum);
+  }
+
+  private getFileSystem(): FileSystem {
+    if (!this.fileSystem) {
+      this.fileSystem = new ReactNativeFileSystem();
+    }
+    return this.fileSystem;
+  }
+}
+
+export default SaveStateManager;
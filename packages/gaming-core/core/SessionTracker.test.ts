@@ -0,0 +1,234 @@
+import { EventEmitter } from 'events';
+import { AppStateSource, PlaySession, SessionTracker, SessionTrackerOptions } from './SessionTracker';
+import type { EdgeIOIntegration } from './EdgeIOIntegration';
+import type { GameEmulationEngine, GameRom } from './GameEmulationEngine';
+import { MemoryStorage } from './Storage';
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+
+// Local time, so day and week boundaries hold in any time zone; 4 March 2024 is a Monday
+const at = (day: number, hours: number, minutes = 0) => new Date(2024, 2, day, hours, minutes).getTime();
+
+const rom = (checksum: string, name: string) =>
+  ({ checksum, name, platform: { id: 'nes' }, metadata: { cover: `${checksum}.png` } }) as unknown as GameRom;
+
+class FakeEngine extends EventEmitter {
+  currentGame: GameRom | null = null;
+
+  getCurrentGame(): GameRom | null {
+    return this.currentGame;
+  }
+}
+
+class FakeCloud extends EventEmitter {
+  games = [{ id: 'halo', name: 'Halo', platform: 'xbox', playTime: 0, lastPlayed: new Date(0) }];
+  updateCloudGame = jest.fn();
+
+  getCachedCloudGames() {
+    return this.games;
+  }
+}
+
+class FakeAppState implements AppStateSource {
+  currentState = 'active';
+  private listener: ((state: string) => void) | null = null;
+
+  addEventListener(_type: 'change', listener: (state: string) => void) {
+    this.listener = listener;
+    return { remove: () => (this.listener = null) };
+  }
+
+  change(state: string): void {
+    this.currentState = state;
+    this.listener?.(state);
+  }
+}
+
+describe('SessionTracker', () => {
+  let storage: MemoryStorage;
+  let engine: FakeEngine;
+  let cloud: FakeCloud;
+  let appState: FakeAppState;
+  let tracker: SessionTracker;
+
+  const createTracker = (options: Partial<SessionTrackerOptions> = {}) =>
+    new SessionTracker({
+      engine: engine as unknown as GameEmulationEngine,
+      edgeIO: cloud as unknown as EdgeIOIntegration,
+      storage,
+      appState,
+      idleTimeoutMs: 2 * HOUR,
+      sessionEndMs: 4 * HOUR,
+      ...options
+    });
+
+  // Moves the fixed clock and runs whatever timers and handlers come due
+  const advance = (ms: number) => jest.advanceTimersByTimeAsync(ms);
+
+  const play = async (game: GameRom, start: number, minutes: number) => {
+    jest.setSystemTime(start);
+    engine.currentGame = game;
+    engine.emit('emulationStarted');
+    await advance(minutes * MINUTE);
+    engine.emit('emulationStopped');
+    await advance(0);
+  };
+
+  beforeEach(async () => {
+    jest.useFakeTimers({ now: at(4, 9) });
+    storage = new MemoryStorage();
+    await storage.setItem('@mlvarcade:device', 'device_shared');
+    engine = new FakeEngine();
+    cloud = new FakeCloud();
+    appState = new FakeAppState();
+    tracker = createTracker();
+    await tracker.initialize();
+  });
+
+  afterEach(() => {
+    tracker.destroy();
+    jest.useRealTimers();
+  });
+
+  it('records local play without the time spent paused or in the background', async () => {
+    const ended: PlaySession[] = [];
+    tracker.on('sessionEnded', session => ended.push(session));
+    jest.setSystemTime(at(4, 10));
+    engine.currentGame = rom('zelda', 'Zelda');
+
+    engine.emit('emulationStarted');
+    await advance(10 * MINUTE);
+    engine.emit('emulationPaused');
+    await advance(5 * MINUTE);
+    engine.emit('emulationResumed');
+    await advance(5 * MINUTE);
+    appState.change('background');
+    await advance(20 * MINUTE);
+    appState.change('active');
+    await advance(5 * MINUTE);
+    engine.emit('emulationStopped');
+    await advance(0);
+
+    expect(ended).toEqual([expect.objectContaining({
+      gameId: 'zelda',
+      platform: 'nes',
+      source: 'local',
+      deviceId: 'device_shared',
+      startedAt: at(4, 10),
+      endedAt: at(4, 10, 45),
+      duration: 20 * MINUTE,
+      endReason: 'stopped'
+    })]);
+    expect(tracker.getGameStats('zelda')).toEqual(expect.objectContaining({ playTime: 20 * MINUTE, sessions: 1, cover: 'zelda.png' }));
+  });
+
+  it('counts a streak of consecutive days until a day is missed', async () => {
+    const game = rom('zelda', 'Zelda');
+    // Three days in a row, a day off, then two more
+    for (const day of [4, 5, 6, 8, 9]) {
+      await play(game, at(day, 20), 30);
+    }
+
+    expect(tracker.getStreak(at(9, 23))).toEqual({ current: 2, longest: 3 });
+    // Still alive the next day until it ends without play
+    expect(tracker.getStreak(at(10, 12))).toEqual({ current: 2, longest: 3 });
+    expect(tracker.getStreak(at(11, 0, 1))).toEqual({ current: 0, longest: 3 });
+  });
+
+  it('ignores sessions too short to count toward a streak', async () => {
+    const discarded = jest.fn();
+    tracker.on('sessionDiscarded', discarded);
+
+    await play(rom('zelda', 'Zelda'), at(4, 20), 0.1);
+
+    expect(discarded).toHaveBeenCalledTimes(1);
+    expect(tracker.getStreak(at(4, 21))).toEqual({ current: 0, longest: 0 });
+  });
+
+  it('totals play per Monday-to-Sunday week, splitting sessions across midnight', async () => {
+    const game = rom('zelda', 'Zelda');
+    await play(game, at(4, 18), 60);
+    // Sunday 23:30 to Monday 00:30
+    await play(game, at(10, 23, 30), 60);
+    await play(game, at(12, 8), 15);
+
+    const weeks = tracker.getWeeklyTotals(3, at(13, 12));
+
+    expect(weeks.map(week => week.weekStart)).toEqual([new Date(2024, 1, 26).getTime(), at(4, 0), at(11, 0)]);
+    expect(weeks.map(week => [week.playTime, week.sessions])).toEqual([
+      [0, 0],
+      [90 * MINUTE, 2],
+      [45 * MINUTE, 1]
+    ]);
+  });
+
+  it('ends an idle session where input stopped', async () => {
+    tracker.destroy();
+    tracker = createTracker({ idleTimeoutMs: 5 * MINUTE, sessionEndMs: 30 * MINUTE });
+    await tracker.initialize();
+    const ended: PlaySession[] = [];
+    tracker.on('sessionEnded', session => ended.push(session));
+    jest.setSystemTime(at(4, 10));
+    engine.currentGame = rom('zelda', 'Zelda');
+
+    engine.emit('emulationStarted');
+    await advance(3 * MINUTE);
+    engine.emit('controlChanged');
+    await advance(HOUR);
+
+    expect(ended).toEqual([expect.objectContaining({ duration: 3 * MINUTE, endedAt: at(4, 10, 3), endReason: 'idle' })]);
+  });
+
+  it('records a session cut short by the app being killed, up to its last checkpoint', async () => {
+    jest.setSystemTime(at(4, 10));
+    engine.currentGame = rom('zelda', 'Zelda');
+    engine.emit('emulationStarted');
+    await advance(10 * MINUTE);
+    // Killed without emulationStopped
+    tracker.destroy();
+
+    tracker = createTracker();
+    await tracker.initialize();
+
+    expect(tracker.getSessions()).toEqual([expect.objectContaining({ gameId: 'zelda', endReason: 'interrupted' })]);
+    // Checkpoints come every idle check, so at most one interval is lost
+    expect(tracker.getSessions()[0]!.duration).toBeGreaterThanOrEqual(10 * MINUTE - 15 * 1000);
+    expect(tracker.getActiveSessions()).toEqual([]);
+  });
+
+  it('writes streamed playtime back to the cloud catalog', async () => {
+    jest.setSystemTime(at(4, 10));
+
+    cloud.emit('streamingStarted', { gameId: 'halo' });
+    await advance(25 * MINUTE);
+    cloud.emit('streamingStopped');
+    await advance(0);
+
+    expect(tracker.getGameStats('halo', 'cloud')).toEqual(expect.objectContaining({ name: 'Halo', platform: 'xbox', playTime: 25 * MINUTE }));
+    expect(cloud.updateCloudGame).toHaveBeenCalledWith('halo', { playTime: 25 * MINUTE, lastPlayed: new Date(at(4, 10, 25)) });
+  });
+
+  describe('device id', () => {
+    it('tags sessions with the id shared with CloudSaveSync', async () => {
+      await play(rom('zelda', 'Zelda'), at(4, 10), 5);
+
+      expect(tracker.getSessions()[0]!.deviceId).toBe('device_shared');
+    });
+
+    it('does not adopt the old cloud-save device key, which may hold a game\'s save entries', async () => {
+      storage = new MemoryStorage();
+      await storage.setItem('@mlvarcade:cloudSaves:device', '[]');
+      tracker.destroy();
+      tracker = createTracker();
+      await tracker.initialize();
+
+      await play(rom('zelda', 'Zelda'), at(4, 10), 5);
+
+      const deviceId = tracker.getSessions()[0]!.deviceId;
+      expect(deviceId).toMatch(/^device_/);
+      expect(await storage.getItem('@mlvarcade:device')).toBe(deviceId);
+      expect(await storage.getItem('@mlvarcade:cloudSaves:device')).toBe('[]');
+    });
+  });
+});
@@ -0,0 +1,643 @@
+// 3kMLV Arcade - Session Tracker
+// Records play sessions from the local emulator and EdgeIO streaming, with playtime statistics
+//
+// Only active play counts: time paused, idle (no input for idleTimeoutMs) or with the app in the
+// background is left out, and a session halted that way for sessionEndMs ends where it halted.
+// Running sessions are checkpointed to storage, so a session cut short by the app being killed is
+// still recorded, up to its last checkpoint, on the next start.
+
+import { EventEmitter } from 'events';
+import { EdgeIOIntegration, EdgeIOIntegrationEvents } from './EdgeIOIntegration';
+import { GameEmulationEngine, GameEmulationEngineEvents, GameRom } from './GameEmulationEngine';
+import { KeyValueStorage, getDefaultStorage, getDeviceId, readJson, writeJson } from './Storage';
+import { EventSubscriptions } from './EventSubscriptions';
+
+export type PlaySource = 'local' | 'cloud';
+
+export type SessionEndReason = 'stopped' | 'switched' | 'idle' | 'background' | 'interrupted';
+
+export interface PlaySession {
+  id: string;
+  // ROM checksum for local play, EdgeIO game id for streaming
+  gameId: string;
+  name: string;
+  platform: string;
+  source: PlaySource;
+  deviceId: string;
+  startedAt: number;
+  endedAt: number;
+  // Milliseconds of active play
+  duration: number;
+  endReason: SessionEndReason;
+}
+
+export interface GamePlayStats {
+  gameId: string;
+  name: string;
+  platform: string;
+  source: PlaySource;
+  cover: string;
+  playTime: number;
+  sessions: number;
+  firstPlayed: number;
+  lastPlayed: number;
+}
+
+// Consecutive local calendar days with any play
+export interface PlayStreak {
+  current: number;
+  longest: number;
+}
+
+export interface WeeklyPlayTotal {
+  // Local midnight on the Monday that starts the week
+  weekStart: number;
+  playTime: number;
+  sessions: number;
+}
+
+// The subset of React Native's AppState the tracker listens to
+export interface AppStateSource {
+  currentState?: string;
+  addEventListener(type: 'change', listener: (state: string) => void): { remove(): void } | undefined;
+}
+
+export interface SessionTrackerOptions {
+  engine?: GameEmulationEngine;
+  edgeIO?: EdgeIOIntegration;
+  storage?: KeyValueStorage;
+  appState?: AppStateSource;
+  idleTimeoutMs?: number;
+  // How long a session may sit idle, paused or in the background before it ends
+  sessionEndMs?: number;
+  // Shorter sessions, e.g. a game launched by mistake, are not recorded
+  minSessionMs?: number;
+}
+
+interface GameInfo {
+  gameId: string;
+  name: string;
+  platform: string;
+  cover: string;
+}
+
+interface ActiveSession {
+  session: PlaySession;
+  cover: string;
+  // Closed stretches of active play, [start, end)
+  segments: Array<[number, number]>;
+  segmentStart: number | null;
+  lastActivity: number;
+  paused: boolean;
+  idle: boolean;
+  // When the session last stopped counting
+  haltedAt: number | null;
+}
+
+interface DailyTotal {
+  playTime: number;
+  sessions: number;
+}
+
+interface StoredHistory {
+  version: number;
+  // Oldest first, capped at MAX_HISTORY
+  sessions: PlaySession[];
+  // By statsKey(), never capped
+  totals: Record<string, GamePlayStats>;
+  // By local YYYY-MM-DD
+  days: Record<string, DailyTotal>;
+  // Running sessions as of the last checkpoint
+  active: PlaySession[];
+}
+
+const HISTORY_KEY = '@mlvarcade:sessions';
+const HISTORY_VERSION = 1;
+const MAX_HISTORY = 500;
+const DEFAULT_IDLE_TIMEOUT_MS = 5 * 60 * 1000;
+const DEFAULT_SESSION_END_MS = 30 * 60 * 1000;
+const DEFAULT_MIN_SESSION_MS = 10 * 1000;
+const IDLE_CHECK_MS = 15 * 1000;
+
+function statsKey(source: PlaySource, gameId: string): string {
+  return `${source}:${gameId}`;
+}
+
+function pad(value: number): string {
+  return String(value).padStart(2, '0');
+}
+
+function dayKey(time: number): string {
+  const date = new Date(time);
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+function parseDayKey(key: string): number {
+  const [year, month, day] = key.split('-').map(Number);
+  return new Date(year!, month! - 1, day!).getTime();
+}
+
+// Calendar arithmetic through Date keeps days right across daylight saving changes
+function addDays(time: number, days: number): number {
+  const date = new Date(time);
+  date.setDate(date.getDate() + days);
+  return date.getTime();
+}
+
+function startOfDay(time: number): number {
+  const date = new Date(time);
+  date.setHours(0, 0, 0, 0);
+  return date.getTime();
+}
+
+function startOfWeek(time: number): number {
+  const day = startOfDay(time);
+  return addDays(day, -((new Date(day).getDay() + 6) % 7));
+}
+
+export class SessionTracker extends EventEmitter {
+  private static instance: SessionTracker;
+  private engine: GameEmulationEngine;
+  private edgeIO: EdgeIOIntegration;
+  private storage: KeyValueStorage;
+  private appState: AppStateSource | null;
+  private idleTimeoutMs: number;
+  private sessionEndMs: number;
+  private minSessionMs: number;
+  private deviceId = '';
+  private history: StoredHistory = { version: HISTORY_VERSION, sessions: [], totals: {}, days: {}, active: [] };
+  private active: Map<PlaySource, ActiveSession> = new Map();
+  private isForeground = true;
+  private initializing: Promise<void> | null = null;
+  private idleTimer: ReturnType<typeof setInterval> | null = null;
+  private appStateSubscription: { remove(): void } | null = null;
+  private subscriptions = new EventSubscriptions();
+
+  constructor(options: SessionTrackerOptions = {}) {
+    super();
+    this.engine = options.engine ?? GameEmulationEngine.getInstance();
+    this.edgeIO = options.edgeIO ?? EdgeIOIntegration.getInstance();
+    this.storage = options.storage ?? getDefaultStorage();
+    this.appState = options.appState ?? null;
+    this.idleTimeoutMs = options.idleTimeoutMs ?? DEFAULT_IDLE_TIMEOUT_MS;
+    this.sessionEndMs = options.sessionEndMs ?? DEFAULT_SESSION_END_MS;
+    this.minSessionMs = options.minSessionMs ?? DEFAULT_MIN_SESSION_MS;
+    this.setupEventHandlers();
+  }
+
+  public static getInstance(): SessionTracker {
+    if (!SessionTracker.instance) {
+      SessionTracker.instance = new SessionTracker();
+    }
+    return SessionTracker.instance;
+  }
+
+  private setupEventHandlers() {
+    const listenEngine = this.subscriptions.listenTo<GameEmulationEngineEvents>(this.engine);
+    const listenEdgeIO = this.subscriptions.listenTo<EdgeIOIntegrationEvents>(this.edgeIO);
+    const guard = (run: () => Promise<void>) => {
+      run().catch(error => {
+        console.error('Failed to track play session:', error);
+        this.emit('error', error);
+      });
+    };
+
+    listenEngine('emulationStarted', () => {
+      const rom = this.engine.getCurrentGame();
+      if (rom) {
+        guard(() => this.startSession('local', this.describeRom(rom)));
+      }
+    });
+    listenEngine('emulationPaused', () => guard(() => this.setPaused('local', true)));
+    listenEngine('emulationResumed', () => guard(() => this.setPaused('local', false)));
+    listenEngine('emulationStopped', () => guard(() => this.endSession('local', 'stopped')));
+    listenEngine('controlChanged', () => this.recordActivity());
+
+    listenEdgeIO('streamingStarted', session => {
+      guard(() => this.startSession('cloud', this.describeCloudGame(session.gameId)));
+    });
+    listenEdgeIO('streamingStopped', () => guard(() => this.endSession('cloud', 'stopped')));
+    // Fresh catalogs come without the playtime recorded here
+    listenEdgeIO('gamesUpdated', games => {
+      for (const game of games) {
+        this.updateCloudGame(game.id);
+      }
+    });
+  }
+
+  public initialize(): Promise<void> {
+    if (!this.initializing) {
+      this.initializing = this.load().catch(error => {
+        this.initializing = null;
+        throw error;
+      });
+    }
+    return this.initializing;
+  }
+
+  // Input the emulator does not see, e.g. touches on a streamed game, keeps sessions from going idle
+  public recordActivity(): void {
+    const now = Date.now();
+    for (const active of this.active.values()) {
+      active.lastActivity = now;
+      if (active.idle) {
+        active.idle = false;
+        this.updateCounting(active, now);
+      }
+    }
+  }
+
+  // Ends running sessions, e.g. before the app shuts down
+  public async endAllSessions(reason: SessionEndReason = 'stopped'): Promise<void> {
+    for (const source of Array.from(this.active.keys())) {
+      await this.endSession(source, reason);
+    }
+  }
+
+  // Stats
+  // Newest first
+  public getSessions(filter: { gameId?: string; source?: PlaySource; limit?: number } = {}): PlaySession[] {
+    const sessions = this.history.sessions
+      .filter(session => (!filter.gameId || session.gameId === filter.gameId) && (!filter.source || session.source === filter.source))
+      .reverse();
+    return (filter.limit !== undefined ? sessions.slice(0, filter.limit) : sessions).map(session => ({ ...session }));
+  }
+
+  // Running sessions with the play counted so far
+  public getActiveSessions(): PlaySession[] {
+    const now = Date.now();
+    return Array.from(this.active.values(), active => ({ ...active.session, endedAt: now, duration: this.liveDuration(active, now) }));
+  }
+
+  public getGameStats(gameId: string, source: PlaySource = 'local'): GamePlayStats | null {
+    const stats = this.history.totals[statsKey(source, gameId)];
+    return stats ? { ...stats } : null;
+  }
+
+  public getMostPlayed(limit: number = 5, source?: PlaySource): GamePlayStats[] {
+    return this.getAllStats(source).sort((a, b) => b.playTime - a.playTime).slice(0, limit);
+  }
+
+  public getRecentGames(limit: number = 10, source?: PlaySource): GamePlayStats[] {
+    return this.getAllStats(source).sort((a, b) => b.lastPlayed - a.lastPlayed).slice(0, limit);
+  }
+
+  public getTotalPlayTime(): number {
+    return Object.values(this.history.totals).reduce((total, stats) => total + stats.playTime, 0);
+  }
+
+  // A streak survives until the end of the day after the last day played
+  public getStreak(now: number = Date.now()): PlayStreak {
+    const played = (time: number) => (this.history.days[dayKey(time)]?.playTime ?? 0) > 0;
+
+    let current = 0;
+    let day = played(now) ? startOfDay(now) : addDays(startOfDay(now), -1);
+    while (played(day)) {
+      current++;
+      day = addDays(day, -1);
+    }
+
+    let longest = 0;
+    let run = 0;
+    let previous: number | null = null;
+    for (const key of Object.keys(this.history.days).sort()) {
+      if (!played(parseDayKey(key))) {
+        continue;
+      }
+      const time = parseDayKey(key);
+      run = previous !== null && dayKey(addDays(previous, 1)) === key ? run + 1 : 1;
+      longest = Math.max(longest, run);
+      previous = time;
+    }
+
+    return { current, longest: Math.max(longest, current) };
+  }
+
+  // Oldest first, ending with the current week
+  public getWeeklyTotals(weeks: number = 4, now: number = Date.now()): WeeklyPlayTotal[] {
+    const totals: WeeklyPlayTotal[] = [];
+    const thisWeek = startOfWeek(now);
+    for (let index = weeks - 1; index >= 0; index--) {
+      const weekStart = addDays(thisWeek, -7 * index);
+      const total: WeeklyPlayTotal = { weekStart, playTime: 0, sessions: 0 };
+      for (let day = 0; day < 7; day++) {
+        const daily = this.history.days[dayKey(addDays(weekStart, day))];
+        total.playTime += daily?.playTime ?? 0;
+        total.sessions += daily?.sessions ?? 0;
+      }
+      totals.push(total);
+    }
+    return totals;
+  }
+
+  public destroy(): void {
+    this.subscriptions.clear();
+    this.appStateSubscription?.remove();
+    this.appStateSubscription = null;
+    this.stopIdleTimer();
+  }
+
+  private async load(): Promise<void> {
+    this.deviceId = await getDeviceId(this.storage);
+    const stored = await readJson<StoredHistory>(this.storage, HISTORY_KEY, this.history);
+    if (stored.version === HISTORY_VERSION) {
+      this.history = stored;
+    }
+
+    // The app went away without ending these; keep what the last checkpoint counted
+    const interrupted = this.history.active;
+    this.history.active = [];
+    for (const session of interrupted) {
+      if (session.duration >= this.minSessionMs) {
+        this.record({ ...session, endReason: 'interrupted' }, []);
+        this.addDuration(session.startedAt, session.duration);
+      }
+    }
+    await this.persist();
+
+    this.watchAppState();
+    this.emit('initialized');
+  }
+
+  private watchAppState(): void {
+    try {
+      if (!this.appState) {
+        // Required lazily so the tracker can run where react-native is unavailable
+        // eslint-disable-next-line @typescript-eslint/no-var-requires
+        this.appState = require('react-native').AppState as AppStateSource;
+      }
+      this.isForeground = !this.appState.currentState || this.appState.currentState === 'active';
+      this.appStateSubscription = this.appState.addEventListener('change', state => {
+        this.handleAppState(state).catch(error => {
+          console.error('Failed to track app state:', error);
+          this.emit('error', error);
+        });
+      }) ?? null;
+    } catch (error) {
+      console.warn('AppState not available, background time will count as play:', error);
+    }
+  }
+
+  private async handleAppState(state: string): Promise<void> {
+    const foreground = state === 'active';
+    if (foreground === this.isForeground) {
+      return;
+    }
+    this.isForeground = foreground;
+
+    const now = Date.now();
+    for (const active of Array.from(this.active.values())) {
+      if (foreground && active.haltedAt !== null && now - active.haltedAt >= this.sessionEndMs) {
+        await this.endSession(active.session.source, 'background', active.haltedAt);
+        continue;
+      }
+      if (foreground) {
+        // Coming back is activity; idle time is measured from here
+        active.lastActivity = now;
+        active.idle = false;
+      }
+      this.updateCounting(active, now);
+    }
+    // The app may be killed while in the background
+    await this.persist();
+  }
+
+  private async startSession(source: PlaySource, info: GameInfo): Promise<void> {
+    await this.initialize();
+    const existing = this.active.get(source);
+    if (existing?.session.gameId === info.gameId) {
+      return;
+    }
+    if (existing) {
+      await this.endSession(source, 'switched');
+    }
+
+    const now = Date.now();
+    const active: ActiveSession = {
+      session: {
+        id: `session_${now.toString(36)}_${Math.random().toString(36).slice(2, 8)}`,
+        gameId: info.gameId,
+        name: info.name,
+        platform: info.platform,
+        source,
+        deviceId: this.deviceId,
+        startedAt: now,
+        endedAt: now,
+        duration: 0,
+        endReason: 'stopped'
+      },
+      cover: info.cover,
+      segments: [],
+      segmentStart: null,
+      lastActivity: now,
+      paused: false,
+      idle: false,
+      haltedAt: now
+    };
+    this.active.set(source, active);
+    this.updateCounting(active, now);
+    this.startIdleTimer();
+
+    await this.persist();
+    this.emit('sessionStarted', { ...active.session });
+  }
+
+  private async setPaused(source: PlaySource, paused: boolean): Promise<void> {
+    const active = this.active.get(source);
+    if (!active || active.paused === paused) {
+      return;
+    }
+    const now = Date.now();
+    active.paused = paused;
+    if (!paused) {
+      active.lastActivity = now;
+      active.idle = false;
+    }
+    this.updateCounting(active, now);
+    await this.persist();
+  }
+
+  private async endSession(source: PlaySource, reason: SessionEndReason, at: number = Date.now()): Promise<void> {
+    const active = this.active.get(source);
+    if (!active) {
+      return;
+    }
+    this.active.delete(source);
+    if (this.active.size === 0) {
+      this.stopIdleTimer();
+    }
+
+    this.closeSegment(active, at);
+    const session: PlaySession = { ...active.session, endedAt: at, duration: this.liveDuration(active, at), endReason: reason };
+    if (session.duration < this.minSessionMs) {
+      await this.persist();
+      this.emit('sessionDiscarded', session);
+      return;
+    }
+
+    this.record(session, active.segments, active.cover);
+    await this.persist();
+    if (source === 'cloud') {
+      this.updateCloudGame(session.gameId);
+    }
+    this.emit('sessionEnded', { ...session });
+    this.emit('statsUpdated');
+  }
+
+  private record(session: PlaySession, segments: Array<[number, number]>, cover: string = ''): void {
+    this.history.sessions.push(session);
+    if (this.history.sessions.length > MAX_HISTORY) {
+      this.history.sessions.splice(0, this.history.sessions.length - MAX_HISTORY);
+    }
+
+    const key = statsKey(session.source, session.gameId);
+    const stats = this.history.totals[key] ?? {
+      gameId: session.gameId,
+      name: session.name,
+      platform: session.platform,
+      source: session.source,
+      cover,
+      playTime: 0,
+      sessions: 0,
+      firstPlayed: session.startedAt,
+      lastPlayed: session.endedAt
+    };
+    stats.name = session.name;
+    stats.cover = cover || stats.cover;
+    stats.playTime += session.duration;
+    stats.sessions++;
+    stats.lastPlayed = Math.max(stats.lastPlayed, session.endedAt);
+    this.history.totals[key] = stats;
+
+    const day = this.history.days[dayKey(session.startedAt)] ?? { playTime: 0, sessions: 0 };
+    day.sessions++;
+    this.history.days[dayKey(session.startedAt)] = day;
+    for (const [start, end] of segments) {
+      this.addPlayTime(start, end);
+    }
+  }
+
+  // Splits play across the local days it happened on
+  private addPlayTime(start: number, end: number): void {
+    while (start < end) {
+      const dayEnd = Math.min(end, addDays(startOfDay(start), 1));
+      const key = dayKey(start);
+      const day = this.history.days[key] ?? { playTime: 0, sessions: 0 };
+      day.playTime += dayEnd - start;
+      this.history.days[key] = day;
+      start = dayEnd;
+    }
+  }
+
+  // Recovered sessions only know their total, so it is placed from their start
+  private addDuration(startedAt: number, duration: number): void {
+    this.addPlayTime(startedAt, startedAt + duration);
+  }
+
+  // Opens or closes the current stretch of play to match the session's state
+  private updateCounting(active: ActiveSession, now: number): void {
+    const counting = !active.paused && !active.idle && this.isForeground;
+    if (counting && active.segmentStart === null) {
+      active.segmentStart = now;
+      active.haltedAt = null;
+    } else if (!counting && active.segmentStart !== null) {
+      this.closeSegment(active, now);
+      active.haltedAt = now;
+    }
+  }
+
+  private closeSegment(active: ActiveSession, at: number): void {
+    if (active.segmentStart === null) {
+      return;
+    }
+    if (at > active.segmentStart) {
+      active.segments.push([active.segmentStart, at]);
+    }
+    active.segmentStart = null;
+  }
+
+  private liveDuration(active: ActiveSession, now: number): number {
+    const closed = active.segments.reduce((total, [start, end]) => total + (end - start), 0);
+    return closed + (active.segmentStart !== null ? Math.max(0, now - active.segmentStart) : 0);
+  }
+
+  private checkIdle(): void {
+    const now = Date.now();
+    for (const active of Array.from(this.active.values())) {
+      if (active.haltedAt !== null && now - active.haltedAt >= this.sessionEndMs) {
+        const reason: SessionEndReason = !this.isForeground ? 'background' : 'idle';
+        this.endSession(active.session.source, reason, active.haltedAt).catch(error => {
+          console.error('Failed to end idle session:', error);
+          this.emit('error', error);
+        });
+        continue;
+      }
+
+      if (active.segmentStart !== null && now - active.lastActivity >= this.idleTimeoutMs) {
+        // Play stopped when input did, not when the timeout noticed
+        const idleFrom = Math.max(active.segmentStart, active.lastActivity);
+        this.closeSegment(active, idleFrom);
+        active.idle = true;
+        active.haltedAt = idleFrom;
+        this.emit('sessionIdle', { ...active.session });
+      }
+    }
+
+    this.persist().catch(error => {
+      console.error('Failed to checkpoint play sessions:', error);
+    });
+  }
+
+  private startIdleTimer(): void {
+    if (!this.idleTimer) {
+      this.idleTimer = setInterval(() => this.checkIdle(), Math.min(IDLE_CHECK_MS, this.idleTimeoutMs / 2));
+    }
+  }
+
+  private stopIdleTimer(): void {
+    if (this.idleTimer) {
+      clearInterval(this.idleTimer);
+      this.idleTimer = null;
+    }
+  }
+
+  private updateCloudGame(gameId: string): void {
+    const stats = this.history.totals[statsKey('cloud', gameId)];
+    const game = this.edgeIO.getCachedCloudGames().find(candidate => candidate.id === gameId);
+    if (!stats || !game) {
+      return;
+    }
+    // The catalog may know about play on other devices; never move it backwards
+    this.edgeIO.updateCloudGame(gameId, {
+      playTime: Math.max(game.playTime, stats.playTime),
+      lastPlayed: new Date(Math.max(new Date(game.lastPlayed).getTime() || 0, stats.lastPlayed))
+    });
+  }
+
+  private describeRom(rom: GameRom): GameInfo {
+    return { gameId: rom.checksum, name: rom.name, platform: rom.platform.id, cover: rom.metadata?.cover ?? '' };
+  }
+
+  private describeCloudGame(gameId: string): GameInfo {
+    const game = this.edgeIO.getCachedCloudGames().find(candidate => candidate.id === gameId);
+    return { gameId, name: game?.name ?? gameId, platform: game?.platform ?? 'cloud', cover: '' };
+  }
+
+  private getAllStats(source?: PlaySource): GamePlayStats[] {
+    return Object.values(this.history.totals)
+      .filter(stats => !source || stats.source === source)
+      .map(stats => ({ ...stats }));
+  }
+
+  private async persist(): Promise<void> {
+    const now = Date.now();
+    this.history.active = Array.from(this.active.values(), active => ({
+      ...active.session,
+      endedAt: now,
+      duration: this.liveDuration(active, now)
+    }));
+    await writeJson(this.storage, HISTORY_KEY, this.history);
+  }
+}
+
+export default SessionTracker;
@@ -0,0 +1,67 @@
+// 3kMLV Arcade - Key/Value Persistence
+// AsyncStorage on device, in-memory map for development and off-device runs
+
+export interface KeyValueStorage {
+  getItem(key: string): Promise<string | null>;
+  setItem(key: string, value: string): Promise<void>;
+  removeItem(key: string): Promise<void>;
+}
+
+export class MemoryStorage implements KeyValueStorage {
+  private items: Map<string, string> = new Map();
+
+  public async getItem(key: string): Promise<string | null> {
+    return this.items.get(key) ?? null;
+  }
+
+  public async setItem(key: string, value: string): Promise<void> {
+    this.items.set(key, value);
+  }
+
+  public async removeItem(key: string): Promise<void> {
+    this.items.delete(key);
+  }
+}
+
+const DEVICE_KEY = '@mlvarcade:device';
+
+let defaultStorage: KeyValueStorage | null = null;
+
+export function getDefaultStorage(): KeyValueStorage {
+  if (!defaultStorage) {
+    try {
+      // eslint-disable-next-line @typescript-eslint/no-var-requires
+      const module = require('@react-native-async-storage/async-storage');
+      defaultStorage = (module.default || module) as KeyValueStorage;
+    } catch (error) {
+      console.warn('AsyncStorage not available, using in-memory storage');
+      defaultStorage = new MemoryStorage();
+    }
+  }
+  return defaultStorage;
+}
+
+// Stable id for this install, recorded by features that track which device did something
+export async function getDeviceId(storage: KeyValueStorage): Promise<string> {
+  const stored = await storage.getItem(DEVICE_KEY);
+  if (stored) {
+    return stored;
+  }
+  const deviceId = `device_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 10)}`;
+  await storage.setItem(DEVICE_KEY, deviceId);
+  return deviceId;
+}
+
+export async function readJson<T>(storage: KeyValueStorage, key: string, fallback: T): Promise<T> {
+  try {
+    const value = await storage.getItem(key);
+    return value ? (JSON.parse(value) as T) : fallback;
+  } catch (error) {
+    console.error(`Failed to read ${key}:`, error);
+    return fallback;
+  }
+}
+
+export async function writeJson(storage: KeyValueStorage, key: string, value: unknown): Promise<void> {
+  await storage.setItem(key, JSON.stringify(value));
+}
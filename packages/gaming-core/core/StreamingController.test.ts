@@ -0,0 +1,124 @@
+import type { EdgeIONode } from './EdgeIOIntegration';
+import type { EdgeIOPerformanceMetrics } from './EdgeIOProtocol';
+import { NetworkTraceEntry, runTrace } from './StreamingController';
+
+const node = (id: string, overrides: Partial<EdgeIONode> = {}): EdgeIONode => ({
+  id,
+  name: id,
+  region: 'us-east-1',
+  latency: 20,
+  capacity: 100,
+  load: 0.3,
+  isAvailable: true,
+  lastPing: new Date(0),
+  ...overrides
+});
+
+// A clean 60 fps report on a 20 Mbps link unless overridden
+const sample = (at: number, overrides: Partial<EdgeIOPerformanceMetrics> = {}): NetworkTraceEntry => ({
+  at,
+  sample: {
+    nodeId: null,
+    latency: 20,
+    jitter: 0,
+    bandwidth: 20,
+    packetLoss: 0,
+    frameRate: 60,
+    droppedFrames: 0,
+    ...overrides
+  }
+});
+
+const every = (stepMs: number, count: number, overrides: Partial<EdgeIOPerformanceMetrics> = {}) =>
+  Array.from({ length: count }, (_, index) => sample(index * stepMs, overrides));
+
+describe('runTrace', () => {
+  describe('stepping down', () => {
+    it('jumps straight to the tier a starved link can carry', () => {
+      const decisions = runTrace({ nodeId: null, quality: 'high', entries: every(1000, 3, { bandwidth: 4 }) });
+
+      expect(decisions).toEqual([
+        expect.objectContaining({ type: 'quality', at: 1000, from: 'high', to: 'low' })
+      ]);
+      expect(decisions[0]!.reason).toContain('throughput 4.0 Mbps');
+    });
+
+    it('steps down a single tier when frames drop on a link with room', () => {
+      const decisions = runTrace({ nodeId: null, quality: 'high', entries: every(1000, 2, { frameRate: 50 }) });
+
+      expect(decisions).toEqual([
+        expect.objectContaining({ type: 'quality', at: 1000, from: 'high', to: 'medium', reason: '17% of frames dropped' })
+      ]);
+    });
+  });
+
+  describe('stepping up', () => {
+    it('waits out the cooldown even after enough roomy samples', () => {
+      const decisions = runTrace({ nodeId: null, quality: 'medium', entries: every(1000, 13) });
+
+      expect(decisions).toEqual([
+        expect.objectContaining({ type: 'quality', at: 10000, from: 'medium', to: 'high' })
+      ]);
+    });
+
+    it('restarts the count after a sample without headroom', () => {
+      const entries = every(5000, 10);
+      // Enough for medium but short of the 1.25x headroom high needs
+      entries[3] = sample(15000, { bandwidth: 16 });
+
+      const decisions = runTrace({ nodeId: null, quality: 'medium', entries });
+
+      expect(decisions).toEqual([
+        expect.objectContaining({ type: 'quality', at: 45000, from: 'medium', to: 'high' })
+      ]);
+    });
+  });
+
+  describe('migration', () => {
+    it('leaves an overloaded node on the first sample', () => {
+      const decisions = runTrace({
+        nodeId: 'a',
+        quality: 'high',
+        entries: [
+          { at: 0, nodes: [node('a'), node('b', { latency: 25 })] },
+          sample(0),
+          { at: 1000, nodes: [node('a', { load: 0.97 }), node('b', { latency: 25 })] },
+          sample(1000)
+        ]
+      });
+
+      expect(decisions).toEqual([
+        { type: 'migrate', at: 1000, from: 'a', to: 'b', reason: 'node load at 97%' }
+      ]);
+    });
+
+    it('moves off a slow node only once the round trip stays high', () => {
+      const decisions = runTrace({
+        nodeId: 'a',
+        quality: 'high',
+        entries: [
+          { at: 0, nodes: [node('a'), node('b', { latency: 25 })] },
+          ...every(1000, 4, { latency: 300 })
+        ]
+      });
+
+      expect(decisions).toEqual([
+        expect.objectContaining({ type: 'migrate', at: 2000, from: 'a', to: 'b' })
+      ]);
+      expect(decisions[0]!.reason).toMatch(/^round trip \d+ ms$/);
+    });
+
+    it('stays on a slow node when the alternative is not clearly better', () => {
+      const decisions = runTrace({
+        nodeId: 'a',
+        quality: 'high',
+        entries: [
+          { at: 0, nodes: [node('a'), node('b', { latency: 130, load: 0.8 })] },
+          ...every(1000, 6, { latency: 300 })
+        ]
+      });
+
+      expect(decisions).toEqual([]);
+    });
+  });
+});
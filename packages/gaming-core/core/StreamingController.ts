@@ -0,0 +1,511 @@
+// 3kMLV Arcade - Streaming Controller
+// Picks the EdgeIO node for a session, adapts the streaming tier to the measured link and moves
+// the session when its node degrades
+//
+// StreamingPolicy holds the decisions and never touches the network, so recorded or synthetic
+// network traces replay through runTrace() exactly as they would live. StreamingController feeds it
+// from EdgeIOIntegration events and carries out what it decides.
+
+import { EventEmitter } from 'events';
+import { EdgeIOIntegration, EdgeIOIntegrationEvents, EdgeIONode } from './EdgeIOIntegration';
+import { EdgeIOPerformanceMetrics, STREAMING_QUALITIES, STREAMING_TIERS, StreamingQuality } from './EdgeIOProtocol';
+import { replayTrace } from './TraceReplay';
+import { EventSubscriptions } from './EventSubscriptions';
+
+export interface NodeScore {
+  node: EdgeIONode;
+  // 0 (worst) to 1
+  score: number;
+  // Mean and mean deviation of the recent round trips, in ms
+  rtt: number;
+  jitter: number;
+}
+
+export type StreamingDecision =
+  | { type: 'quality'; at: number; from: StreamingQuality; to: StreamingQuality; reason: string }
+  | { type: 'migrate'; at: number; from: string | null; to: string; reason: string };
+
+// One metrics report; the caller stamps it so traces replay deterministically
+export interface StreamSample extends EdgeIOPerformanceMetrics {
+  timestamp: number;
+}
+
+export interface StreamingPolicyOptions {
+  targetFrameRate?: number;
+  // Round trips kept per node
+  probeWindow?: number;
+  // Round trip and jitter at which a node scores 0 on that measure; above maxRtt the session node counts as degraded
+  maxRtt?: number;
+  maxJitter?: number;
+  // Share of frames that may drop before the tier counts as too high
+  maxDropRate?: number;
+  maxPacketLoss?: number;
+  // Consecutive samples that must agree before acting
+  downgradeSamples?: number;
+  upgradeSamples?: number;
+  degradeSamples?: number;
+  // Throughput needed above the next tier's bitrate before stepping up
+  upgradeHeadroom?: number;
+  // Minimum time after any tier change before stepping up again
+  upgradeCooldownMs?: number;
+  // How much better another node must score to be worth the hand-over
+  migrationMargin?: number;
+  migrationCooldownMs?: number;
+}
+
+// Which decisions observe() may take, e.g. following EdgeIOConfig.adaptiveBitrate
+export interface StreamingPermissions {
+  quality: boolean;
+  migration: boolean;
+}
+
+export type NetworkTraceEntry =
+  | { at: number; nodes: EdgeIONode[] }
+  | { at: number; probe: { nodeId: string; rtt: number } }
+  | { at: number; sample: EdgeIOPerformanceMetrics };
+
+export interface NetworkTrace {
+  nodeId: string | null;
+  quality: StreamingQuality;
+  entries: NetworkTraceEntry[];
+}
+
+export interface StreamingControllerOptions extends StreamingPolicyOptions {
+  edgeIO?: EdgeIOIntegration;
+}
+
+interface NodeStats {
+  node: EdgeIONode;
+  rtts: number[];
+}
+
+const DEFAULT_POLICY: Required<StreamingPolicyOptions> = {
+  targetFrameRate: 60,
+  probeWindow: 10,
+  maxRtt: 150,
+  maxJitter: 30,
+  maxDropRate: 0.05,
+  maxPacketLoss: 0.05,
+  downgradeSamples: 2,
+  upgradeSamples: 6,
+  degradeSamples: 3,
+  upgradeHeadroom: 1.25,
+  upgradeCooldownMs: 10000,
+  migrationMargin: 0.15,
+  migrationCooldownMs: 30000
+};
+
+// A node this busy turns new sessions away, see EdgeIOMockServer
+const MAX_USABLE_LOAD = 0.95;
+// A tier starves once throughput falls below this share of its bitrate
+const STARVED_RATIO = 0.9;
+const SCORE_WEIGHTS = { rtt: 0.45, jitter: 0.2, load: 0.25, capacity: 0.1 };
+const MAX_DECISION_HISTORY = 50;
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+function isUsable(node: EdgeIONode): boolean {
+  return node.isAvailable && node.load < MAX_USABLE_LOAD;
+}
+
+function qualityIndex(quality: string): number {
+  const index = STREAMING_QUALITIES.indexOf(quality as StreamingQuality);
+  return index >= 0 ? index : STREAMING_QUALITIES.indexOf('high');
+}
+
+export class StreamingPolicy {
+  private options: Required<StreamingPolicyOptions>;
+  private nodes: Map<string, NodeStats> = new Map();
+  private nodeId: string | null = null;
+  private quality: StreamingQuality = 'high';
+  private lastSample: StreamSample | null = null;
+  private downgradeStreak = 0;
+  private upgradeStreak = 0;
+  private degradeStreak = 0;
+  private lastQualityChangeAt: number | null = null;
+  private lastMigrationAt: number | null = null;
+
+  constructor(options: StreamingPolicyOptions = {}) {
+    this.options = { ...DEFAULT_POLICY, ...options };
+  }
+
+  // Starts a session; nodeId may be null when the native module picked the node itself
+  public begin(nodeId: string | null, quality: string): void {
+    this.nodeId = nodeId;
+    this.quality = STREAMING_QUALITIES[qualityIndex(quality)]!;
+    this.lastQualityChangeAt = null;
+    this.lastMigrationAt = null;
+    this.resetSession();
+  }
+
+  public end(): void {
+    this.nodeId = null;
+    this.resetSession();
+  }
+
+  // Keeps the round trips gathered so far; each listed latency counts as one more probe
+  public updateNodes(nodes: EdgeIONode[]): void {
+    const next: Map<string, NodeStats> = new Map();
+    for (const node of nodes) {
+      const stats = this.nodes.get(node.id) ?? { node, rtts: [] };
+      stats.node = node;
+      next.set(node.id, stats);
+      this.pushRtt(stats, node.latency);
+    }
+    this.nodes = next;
+  }
+
+  public recordProbe(nodeId: string, rtt: number): void {
+    const stats = this.nodes.get(nodeId);
+    if (stats) {
+      this.pushRtt(stats, rtt);
+    }
+  }
+
+  // Usable nodes, best first
+  public scoreNodes(): NodeScore[] {
+    const candidates = [...this.nodes.values()].filter(stats => isUsable(stats.node));
+    const maxHeadroom = Math.max(0, ...candidates.map(stats => stats.node.capacity * (1 - stats.node.load)));
+    return candidates
+      .map(stats => this.scoreStats(stats, maxHeadroom))
+      .sort((a, b) => b.score - a.score);
+  }
+
+  // Prefers the region when it has a usable node; 'auto' considers every region
+  public selectNode(region: string = 'auto'): NodeScore | null {
+    const scores = this.scoreNodes();
+    const local = region === 'auto' ? [] : scores.filter(entry => entry.node.region === region);
+    return (local.length > 0 ? local : scores)[0] ?? null;
+  }
+
+  public getQuality(): StreamingQuality {
+    return this.quality;
+  }
+
+  public getNodeId(): string | null {
+    return this.nodeId;
+  }
+
+  // For changes made elsewhere, and to roll back a decision that could not be carried out
+  public setQuality(quality: string): void {
+    const next = STREAMING_QUALITIES[qualityIndex(quality)]!;
+    if (next !== this.quality) {
+      this.quality = next;
+      this.downgradeStreak = 0;
+      this.upgradeStreak = 0;
+    }
+  }
+
+  public setNodeId(nodeId: string | null): void {
+    if (nodeId !== this.nodeId) {
+      this.nodeId = nodeId;
+      this.resetSession();
+    }
+  }
+
+  // Decisions are assumed carried out; undo them with setQuality/setNodeId when they fail
+  public observe(sample: StreamSample, permissions: StreamingPermissions = { quality: true, migration: true }): StreamingDecision[] {
+    if (this.nodeId === null && sample.nodeId) {
+      this.nodeId = sample.nodeId;
+    }
+    if (this.nodeId) {
+      this.recordProbe(this.nodeId, sample.latency);
+    }
+    if (this.lastQualityChangeAt === null) {
+      this.lastQualityChangeAt = sample.timestamp;
+    }
+
+    const dropRate = this.getDropRate(sample);
+    this.lastSample = sample;
+
+    const migration = this.checkNode(sample, permissions.migration);
+    if (migration) {
+      return [migration];
+    }
+    const quality = permissions.quality ? this.checkQuality(sample, dropRate) : null;
+    return quality ? [quality] : [];
+  }
+
+  private checkQuality(sample: StreamSample, dropRate: number): StreamingDecision | null {
+    const options = this.options;
+    const index = qualityIndex(this.quality);
+    const bitrate = STREAMING_TIERS[this.quality].bitrate;
+    const starved = sample.bandwidth < bitrate * STARVED_RATIO;
+    const dropping = dropRate > options.maxDropRate;
+
+    if (starved || dropping) {
+      this.downgradeStreak++;
+      this.upgradeStreak = 0;
+    } else {
+      this.downgradeStreak = 0;
+      const next = STREAMING_QUALITIES[index + 1];
+      const roomy = next !== undefined && sample.bandwidth >= STREAMING_TIERS[next].bitrate * options.upgradeHeadroom;
+      // Stepping up on a link that already drops a little would only bounce straight back
+      this.upgradeStreak = roomy && dropRate <= options.maxDropRate / 5 ? this.upgradeStreak + 1 : 0;
+    }
+
+    if (this.downgradeStreak >= options.downgradeSamples && index > 0) {
+      // Starved links jump straight to the tier that fits; drops alone step down once
+      let target = index - 1;
+      while (starved && target > 0 && STREAMING_TIERS[STREAMING_QUALITIES[target]!].bitrate > sample.bandwidth * STARVED_RATIO) {
+        target--;
+      }
+      const reason = starved
+        ? `throughput ${sample.bandwidth.toFixed(1)} Mbps is below the ${bitrate} Mbps ${this.quality} needs`
+        : `${Math.round(dropRate * 100)}% of frames dropped`;
+      return this.changeQuality(STREAMING_QUALITIES[target]!, sample.timestamp, reason);
+    }
+
+    if (this.upgradeStreak >= options.upgradeSamples
+      && sample.timestamp - this.lastQualityChangeAt! >= options.upgradeCooldownMs) {
+      const next = STREAMING_QUALITIES[index + 1]!;
+      return this.changeQuality(next, sample.timestamp,
+        `throughput ${sample.bandwidth.toFixed(1)} Mbps has room for ${next} (${STREAMING_TIERS[next].bitrate} Mbps)`);
+    }
+    return null;
+  }
+
+  private changeQuality(to: StreamingQuality, at: number, reason: string): StreamingDecision {
+    const from = this.quality;
+    this.quality = to;
+    this.lastQualityChangeAt = at;
+    this.downgradeStreak = 0;
+    this.upgradeStreak = 0;
+    return { type: 'quality', at, from, to, reason };
+  }
+
+  private checkNode(sample: StreamSample, allowed: boolean): StreamingDecision | null {
+    const options = this.options;
+    const nodeId = this.nodeId;
+    if (!nodeId || this.nodes.size === 0) {
+      return null;
+    }
+
+    const current = this.nodes.get(nodeId);
+    const rtt = current ? this.meanRtt(current.rtts) : 0;
+    let reason: string | null = null;
+    // A node that stopped taking sessions is left at once; the rest must stay bad for a while
+    let urgent = false;
+    if (!current) {
+      reason = 'node no longer listed';
+      urgent = true;
+    } else if (!current.node.isAvailable) {
+      reason = 'node went offline';
+      urgent = true;
+    } else if (current.node.load >= MAX_USABLE_LOAD) {
+      reason = `node load at ${Math.round(current.node.load * 100)}%`;
+      urgent = true;
+    } else if (sample.packetLoss > options.maxPacketLoss) {
+      reason = `${(sample.packetLoss * 100).toFixed(1)}% packet loss`;
+    } else if (rtt > options.maxRtt) {
+      reason = `round trip ${Math.round(rtt)} ms`;
+    }
+
+    this.degradeStreak = reason ? this.degradeStreak + 1 : 0;
+    if (!reason || !allowed || (!urgent && this.degradeStreak < options.degradeSamples)) {
+      return null;
+    }
+    if (!urgent && this.lastMigrationAt !== null && sample.timestamp - this.lastMigrationAt < options.migrationCooldownMs) {
+      return null;
+    }
+
+    const scores = this.scoreNodes();
+    const currentScore = scores.find(entry => entry.node.id === nodeId)?.score ?? 0;
+    const best = scores.find(entry => entry.node.id !== nodeId);
+    if (!best || best.score < currentScore + options.migrationMargin) {
+      return null;
+    }
+
+    const from = nodeId;
+    this.nodeId = best.node.id;
+    this.lastMigrationAt = sample.timestamp;
+    this.resetSession();
+    return { type: 'migrate', at: sample.timestamp, from, to: best.node.id, reason };
+  }
+
+  // Frames reported dropped since the last sample, or the shortfall against the target rate, whichever is worse
+  private getDropRate(sample: StreamSample): number {
+    const target = this.options.targetFrameRate;
+    const shortfall = 1 - sample.frameRate / target;
+    const previous = this.lastSample;
+    const elapsed = previous ? (sample.timestamp - previous.timestamp) / 1000 : 0;
+    const dropped = previous && elapsed > 0
+      ? Math.max(0, sample.droppedFrames - previous.droppedFrames) / (target * elapsed)
+      : 0;
+    return clamp(Math.max(shortfall, dropped), 0, 1);
+  }
+
+  private scoreStats(stats: NodeStats, maxHeadroom: number): NodeScore {
+    const { node } = stats;
+    const rtt = stats.rtts.length > 0 ? this.meanRtt(stats.rtts) : node.latency;
+    const jitter = this.jitter(stats.rtts);
+    const headroom = node.capacity * (1 - node.load);
+    const score =
+      SCORE_WEIGHTS.rtt * (1 - clamp(rtt / this.options.maxRtt, 0, 1))
+      + SCORE_WEIGHTS.jitter * (1 - clamp(jitter / this.options.maxJitter, 0, 1))
+      + SCORE_WEIGHTS.load * (1 - clamp(node.load, 0, 1))
+      + SCORE_WEIGHTS.capacity * (maxHeadroom > 0 ? headroom / maxHeadroom : 0);
+    return { node, score, rtt, jitter };
+  }
+
+  private meanRtt(rtts: number[]): number {
+    return rtts.length > 0 ? rtts.reduce((sum, value) => sum + value, 0) / rtts.length : 0;
+  }
+
+  // Mean difference between consecutive round trips, as RTP measures interarrival jitter
+  private jitter(rtts: number[]): number {
+    if (rtts.length < 2) {
+      return 0;
+    }
+    let total = 0;
+    for (let index = 1; index < rtts.length; index++) {
+      total += Math.abs(rtts[index]! - rtts[index - 1]!);
+    }
+    return total / (rtts.length - 1);
+  }
+
+  private pushRtt(stats: NodeStats, rtt: number): void {
+    if (!Number.isFinite(rtt) || rtt < 0) {
+      return;
+    }
+    stats.rtts.push(rtt);
+    if (stats.rtts.length > this.options.probeWindow) {
+      stats.rtts.shift();
+    }
+  }
+
+  private resetSession(): void {
+    this.lastSample = null;
+    this.downgradeStreak = 0;
+    this.upgradeStreak = 0;
+    this.degradeStreak = 0;
+  }
+}
+
+// Replays a trace through a fresh policy and returns every decision it would have taken
+export function runTrace(trace: NetworkTrace, options: StreamingPolicyOptions = {}): StreamingDecision[] {
+  const policy = new StreamingPolicy(options);
+  policy.begin(trace.nodeId, trace.quality);
+
+  return replayTrace(trace.entries, entry => entry.at, entry => {
+    if ('nodes' in entry) {
+      policy.updateNodes(entry.nodes);
+      return [];
+    }
+    if ('probe' in entry) {
+      policy.recordProbe(entry.probe.nodeId, entry.probe.rtt);
+      return [];
+    }
+    return policy.observe({ ...entry.sample, timestamp: entry.at });
+  });
+}
+
+export class StreamingController extends EventEmitter {
+  private static instance: StreamingController;
+  private edgeIO: EdgeIOIntegration;
+  private policy: StreamingPolicy;
+  private decisions: StreamingDecision[] = [];
+  private subscriptions = new EventSubscriptions();
+
+  constructor(options: StreamingControllerOptions = {}) {
+    super();
+    const { edgeIO, ...policyOptions } = options;
+    this.edgeIO = edgeIO ?? EdgeIOIntegration.getInstance();
+    this.policy = new StreamingPolicy(policyOptions);
+    this.policy.updateNodes(this.edgeIO.getAvailableNodes());
+    this.setupEventHandlers();
+  }
+
+  public static getInstance(): StreamingController {
+    if (!StreamingController.instance) {
+      StreamingController.instance = new StreamingController();
+    }
+    return StreamingController.instance;
+  }
+
+  private setupEventHandlers() {
+    const listen = this.subscriptions.listenTo<EdgeIOIntegrationEvents>(this.edgeIO);
+
+    listen('nodesUpdated', nodes => this.policy.updateNodes(nodes));
+    listen('streamingStarted', session => this.policy.begin(session.nodeId ?? null, session.quality));
+    listen('streamingStopped', () => this.policy.end());
+    listen('qualityChanged', quality => this.policy.setQuality(quality));
+    listen('streamingMigrated', event => this.policy.setNodeId(event.to));
+    listen('performanceUpdate', metrics => this.handleMetrics(metrics));
+  }
+
+  // Streams from the best scoring node instead of leaving the choice to the native module
+  public async startSession(gameId: string): Promise<boolean> {
+    await this.edgeIO.refreshAvailableNodes();
+    const best = this.policy.selectNode(this.edgeIO.getConfig().region);
+    if (!best) {
+      console.warn('No usable EdgeIO node scored, letting the native module choose');
+    }
+    return this.edgeIO.startStreaming(gameId, best?.node.id);
+  }
+
+  public scoreNodes(): NodeScore[] {
+    return this.policy.scoreNodes();
+  }
+
+  public getQuality(): StreamingQuality {
+    return this.policy.getQuality();
+  }
+
+  public getCurrentNodeId(): string | null {
+    return this.policy.getNodeId();
+  }
+
+  // Most recent last
+  public getDecisions(): StreamingDecision[] {
+    return [...this.decisions];
+  }
+
+  public destroy(): void {
+    this.subscriptions.clear();
+    this.policy.end();
+  }
+
+  private handleMetrics(metrics: EdgeIOPerformanceMetrics): void {
+    if (!this.edgeIO.getCurrentSession()) {
+      return;
+    }
+
+    const config = this.edgeIO.getConfig();
+    const decisions = this.policy.observe(
+      { ...metrics, timestamp: Date.now() },
+      { quality: config.adaptiveBitrate, migration: config.latencyOptimization }
+    );
+    for (const decision of decisions) {
+      this.apply(decision).catch(error => {
+        console.error('Failed to apply streaming decision:', error);
+        this.emit('error', error);
+      });
+    }
+  }
+
+  private async apply(decision: StreamingDecision): Promise<void> {
+    const applied = decision.type === 'quality'
+      ? await this.edgeIO.setStreamingQuality(decision.to)
+      : await this.edgeIO.migrateStreaming(decision.to);
+
+    if (!applied) {
+      // Put the policy back so it keeps judging the tier and node actually in use
+      if (decision.type === 'quality') {
+        this.policy.setQuality(decision.from);
+      } else {
+        this.policy.setNodeId(decision.from);
+      }
+      console.warn(`Streaming ${decision.type} change to ${decision.to} was not applied`);
+      return;
+    }
+
+    this.decisions.push(decision);
+    if (this.decisions.length > MAX_DECISION_HISTORY) {
+      this.decisions.shift();
+    }
+    this.emit('decision', decision);
+  }
+}
+
+export default StreamingController;
@@ -0,0 +1,16 @@
+// 3kMLV Arcade - Trace Replay
+// Feeds recorded entries through a decision policy in time order, as runTrace() and runMetricsTrace() do
+
+// Entries are copied and sorted by timeOf first, so traces may be recorded out of order
+export function replayTrace<Entry, Decision>(
+  entries: Entry[],
+  timeOf: (entry: Entry) => number,
+  step: (entry: Entry) => Decision[]
+): Decision[] {
+  const decisions: Decision[] = [];
+  const ordered = [...entries].sort((a, b) => timeOf(a) - timeOf(b));
+  for (const entry of ordered) {
+    decisions.push(...step(entry));
+  }
+  return decisions;
+}
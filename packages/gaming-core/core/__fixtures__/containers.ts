@@ -0,0 +1,28 @@
+// 3kMLV Arcade - Container Test Fixtures
+// Hand-built .mlvs and .mlvm files for the decoder tests, which need bytes the encoders never write
+
+import { concatBytes, utf8Encode } from '../BinaryUtils';
+
+// Magic, format version 1 and the length of the header that follows
+export function containerPreamble(magic: string, headerLength: number): Uint8Array {
+  const preamble = new Uint8Array(10);
+  const view = new DataView(preamble.buffer);
+  preamble.set(utf8Encode(magic), 0);
+  view.setUint16(4, 1);
+  view.setUint32(6, headerLength);
+  return preamble;
+}
+
+export function rawContainer(magic: string, header: string, ...sections: Uint8Array[]): Uint8Array {
+  const headerBytes = utf8Encode(header);
+  return concatBytes([containerPreamble(magic, headerBytes.length), headerBytes, ...sections]);
+}
+
+export function thrownBy<E extends Error>(decode: () => unknown): E {
+  try {
+    decode();
+  } catch (error) {
+    return error as E;
+  }
+  throw new Error('Expected decoding to throw');
+}
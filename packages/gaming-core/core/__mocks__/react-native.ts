@@ -0,0 +1,22 @@
+// 3kMLV Arcade - React Native test double
+// Core modules only touch NativeModules, Platform and AppState; an empty NativeModules sends every
+// engine to its fallback module, as on a device without the native side
+
+import { EventEmitter } from 'events';
+
+export const NativeModules: Record<string, unknown> = {};
+
+export const Platform = {
+  OS: 'ios',
+  select: <T>(options: { ios?: T; android?: T; default?: T }): T | undefined => options.ios ?? options.default
+};
+
+const appStateEvents = new EventEmitter();
+
+export const AppState = {
+  currentState: 'active',
+  addEventListener: (type: string, listener: (state: string) => void) => {
+    appStateEvents.on(type, listener);
+    return { remove: () => appStateEvents.off(type, listener) };
+  }
+};
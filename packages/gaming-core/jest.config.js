@@ -0,0 +1,12 @@
+// Core modules run under Node; screens and App.tsx need a device or simulator
+module.exports = {
+  testEnvironment: 'node',
+  roots: ['<rootDir>/core'],
+  testMatch: ['**/*.test.ts'],
+  transform: {
+    '^.+\\.ts$': ['ts-jest', { tsconfig: '<rootDir>/tsconfig.test.json' }]
+  },
+  moduleNameMapper: {
+    '^react-native$': '<rootDir>/core/__mocks__/react-native.ts'
+  }
+};
@@ -0,0 +1,241 @@
+// 3kMLV Arcade - Game Library Screen
+// Browse scanned ROMs, rescan the library folder and launch games
+
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  FlatList,
+  TouchableOpacity,
+  ActivityIndicator
+} from 'react-native';
+import { GameEmulationEngine } from '../core/GameEmulationEngine';
+import { RomLibrary, RomCatalogEntry, ScanResult } from '../core/RomLibrary';
+import { ReactNativeFileSystem, joinPath } from '../core/FileSystem';
+
+const ROMS_DIRECTORY = 'roms';
+
+export const GameLibraryScreen: React.FC = () => {
+  const [entries, setEntries] = useState<RomCatalogEntry[]>([]);
+  const [isScanning, setIsScanning] = useState(false);
+  const [scanProgress, setScanProgress] = useState({ scanned: 0, total: 0 });
+  const [lastScan, setLastScan] = useState<ScanResult | null>(null);
+  const [platformFilter, setPlatformFilter] = useState<string | null>(null);
+
+  useEffect(() => {
+    const library = RomLibrary.getInstance();
+
+    const handleCatalogUpdated = (updated: RomCatalogEntry[]) => setEntries(updated);
+    const handleScanProgress = (progress: { scanned: number; total: number }) => setScanProgress(progress);
+
+    library.on('catalogUpdated', handleCatalogUpdated);
+    library.on('scanProgress', handleScanProgress);
+
+    library.initialize().then(() => setEntries(library.getEntries()));
+
+    return () => {
+      library.off('catalogUpdated', handleCatalogUpdated);
+      library.off('scanProgress', handleScanProgress);
+    };
+  }, []);
+
+  const scanLibrary = async () => {
+    const library = RomLibrary.getInstance();
+    const directory = joinPath(ReactNativeFileSystem.getDocumentDirectory(), ROMS_DIRECTORY);
+
+    try {
+      setIsScanning(true);
+      setScanProgress({ scanned: 0, total: 0 });
+      const result = await library.scanDirectory(directory);
+      setLastScan(result);
+    } catch (error) {
+      console.error('Failed to scan library:', error);
+    } finally {
+      setIsScanning(false);
+    }
+  };
+
+  const launchGame = async (entry: RomCatalogEntry) => {
+    const emulationEngine = GameEmulationEngine.getInstance();
+    const loaded = await emulationEngine.loadGame(entry.rom);
+    if (loaded) {
+      await emulationEngine.startEmulation();
+    }
+  };
+
+  const platforms = Array.from(new Set(entries.map(entry => entry.rom.platform.id)));
+  const visibleEntries = platformFilter
+    ? entries.filter(entry => entry.rom.platform.id === platformFilter)
+    : entries;
+
+  const renderEntry = ({ item }: { item: RomCatalogEntry }) => (
+    <TouchableOpacity style={styles.gameRow} onPress={() => launchGame(item)}>
+      <View style={styles.gameInfo}>
+        <Text style={styles.gameTitle}>{item.rom.metadata.title || item.rom.name}</Text>
+        <Text style={styles.gameDetails}>
+          {item.rom.platform.name}
+          {item.rom.metadata.year ? ` · ${item.rom.metadata.year}` : ''}
+          {item.rom.metadata.publisher ? ` · ${item.rom.metadata.publisher}` : ''}
+        </Text>
+        <Text style={styles.gameChecksum}>CRC32 {item.crc32}</Text>
+      </View>
+      <Text style={[styles.badge, item.verified ? styles.badgeVerified : styles.badgeUnknown]}>
+        {item.verified ? 'Verified' : 'Unverified'}
+      </Text>
+    </TouchableOpacity>
+  );
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <Text style={styles.title}>Game Library</Text>
+        <Text style={styles.subtitle}>
+          {entries.length} games
+          {lastScan ? ` · last scan added ${lastScan.added}, removed ${lastScan.removed}` : ''}
+        </Text>
+        <TouchableOpacity style={styles.scanButton} onPress={scanLibrary} disabled={isScanning}>
+          {isScanning ? (
+            <View style={styles.scanningRow}>
+              <ActivityIndicator color="#000" />
+              <Text style={styles.scanButtonText}>
+                {' '}Scanning {scanProgress.scanned}/{scanProgress.total}
+              </Text>
+            </View>
+          ) : (
+            <Text style={styles.scanButtonText}>Scan Library</Text>
+          )}
+        </TouchableOpacity>
+      </View>
+
+      {platforms.length > 1 && (
+        <View style={styles.filterRow}>
+          <TouchableOpacity onPress={() => setPlatformFilter(null)}>
+            <Text style={[styles.filter, !platformFilter && styles.filterActive]}>All</Text>
+          </TouchableOpacity>
+          {platforms.map(platform => (
+            <TouchableOpacity key={platform} onPress={() => setPlatformFilter(platform)}>
+              <Text style={[styles.filter, platformFilter === platform && styles.filterActive]}>
+                {platform.toUpperCase()}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      )}
+
+      <FlatList
+        data={visibleEntries}
+        keyExtractor={(item: RomCatalogEntry) => item.rom.id}
+        renderItem={renderEntry}
+        ListEmptyComponent={
+          <Text style={styles.emptyText}>
+            No games yet. Copy ROMs into the "{ROMS_DIRECTORY}" folder and scan.
+          </Text>
+        }
+      />
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#000'
+  },
+  header: {
+    padding: 20,
+    paddingTop: 40,
+    alignItems: 'center'
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: 'bold',
+    color: '#00ff88'
+  },
+  subtitle: {
+    fontSize: 14,
+    color: '#888',
+    marginTop: 5
+  },
+  scanButton: {
+    marginTop: 15,
+    backgroundColor: '#00ff88',
+    borderRadius: 10,
+    paddingVertical: 10,
+    paddingHorizontal: 20
+  },
+  scanningRow: {
+    flexDirection: 'row',
+    alignItems: 'center'
+  },
+  scanButtonText: {
+    fontSize: 14,
+    fontWeight: 'bold',
+    color: '#000'
+  },
+  filterRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    paddingHorizontal: 20,
+    marginBottom: 10
+  },
+  filter: {
+    color: '#888',
+    fontSize: 12,
+    fontWeight: '600',
+    marginRight: 15,
+    marginBottom: 5
+  },
+  filterActive: {
+    color: '#00ff88'
+  },
+  gameRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#1a1a1a',
+    borderRadius: 10,
+    padding: 15,
+    marginHorizontal: 20,
+    marginBottom: 10
+  },
+  gameInfo: {
+    flex: 1
+  },
+  gameTitle: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#fff'
+  },
+  gameDetails: {
+    fontSize: 12,
+    color: '#888',
+    marginTop: 2
+  },
+  gameChecksum: {
+    fontSize: 10,
+    color: '#555',
+    marginTop: 2
+  },
+  badge: {
+    fontSize: 10,
+    fontWeight: 'bold',
+    paddingVertical: 3,
+    paddingHorizontal: 8,
+    borderRadius: 5,
+    overflow: 'hidden'
+  },
+  badgeVerified: {
+    color: '#000',
+    backgroundColor: '#00ff88'
+  },
+  badgeUnknown: {
+    color: '#fff',
+    backgroundColor: '#333'
+  },
+  emptyText: {
+    color: '#888',
+    textAlign: 'center',
+    marginTop: 40,
+    paddingHorizontal: 20
+  }
+});
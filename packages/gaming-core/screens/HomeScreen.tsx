@@ -14,7 +14,9 @@ import {
 import { LinearGradient } from 'expo-linear-gradient';
 import { GameEmulationEngine } from '../core/GameEmulationEngine';
 import { EdgeIOIntegration } from '../core/EdgeIOIntegration';
+import { DownloadManager } from '../core/DownloadManager';
 import { PerformanceEngine } from '../core/PerformanceEngine';
+import { SessionTracker } from '../core/SessionTracker';
 
 const { width, height } = Dimensions.get('window');
 
@@ -36,6 +38,8 @@ export const HomeScreen: React.FC = () => {
       const edgeIO = EdgeIOIntegration.getInstance();
       const performanceEngine = PerformanceEngine.getInstance();
 
+      setRecentGames(SessionTracker.getInstance().getRecentGames(10));
+
       // Get cloud games
       const games = await edgeIO.getCloudGames();
       setCloudGames(games);
@@ -55,14 +59,67 @@ export const HomeScreen: React.FC = () => {
   const setupEventListeners = () => {
     const edgeIO = EdgeIOIntegration.getInstance();
     const performanceEngine = PerformanceEngine.getInstance();
+    const sessionTracker = SessionTracker.getInstance();
 
     edgeIO.on('connectionStatus', (status) => {
       setIsConnected(status.connected);
     });
 
+    // Download progress and installs land on the cached catalog entry
+    edgeIO.on('gameUpdated', (game) => {
+      setCloudGames(games => games.map(existing => (existing.id === game.id ? game : existing)));
+    });
+
     performanceEngine.on('metricsUpdated', (metrics) => {
       setPerformanceMetrics(metrics);
     });
+
+    sessionTracker.on('statsUpdated', () => {
+      setRecentGames(sessionTracker.getRecentGames(10));
+    });
+  };
+
+  const formatPlayTime = (ms: number) => {
+    const minutes = Math.floor(ms / 60000);
+    return minutes < 60 ? `${minutes}m played` : `${Math.floor(minutes / 60)}h ${minutes % 60}m played`;
+  };
+
+  const handleCloudGamePress = async (game: any) => {
+    if (game.isInstalled) {
+      return;
+    }
+
+    const downloads = DownloadManager.getInstance();
+    const task = downloads.getTask(game.id);
+    try {
+      if (task?.status === 'downloading' || task?.status === 'queued') {
+        await downloads.pause(game.id);
+      } else if (task?.status === 'paused' || task?.status === 'failed') {
+        await downloads.resume(game.id);
+      } else {
+        await downloads.enqueue(game.id);
+      }
+    } catch (error) {
+      console.error('Failed to download game:', error);
+    }
+  };
+
+  const getCloudGameStatus = (game: any) => {
+    if (game.isStreaming) {
+      return 'Streaming';
+    }
+    if (game.isInstalled) {
+      return 'Installed';
+    }
+
+    const task = DownloadManager.getInstance().getTask(game.id);
+    if (task?.status === 'paused') {
+      return `Paused ${Math.round(game.downloadProgress * 100)}%`;
+    }
+    if (task?.status === 'failed') {
+      return 'Download failed';
+    }
+    return task ? `${Math.round(game.downloadProgress * 100)}%` : 'Available';
   };
 
   const quickActions = [
@@ -148,6 +205,9 @@ export const HomeScreen: React.FC = () => {
             <TouchableOpacity key={index} style={styles.gameCard}>
               <Image source={{ uri: game.cover }} style={styles.gameCover} />
               <Text style={styles.gameTitle}>{game.name}</Text>
+              <Text style={styles.gameStatus}>
+                {formatPlayTime(game.playTime)}
+              </Text>
             </TouchableOpacity>
           ))}
         </ScrollView>
@@ -155,11 +215,15 @@ export const HomeScreen: React.FC = () => {
         <Text style={styles.sectionTitle}>Cloud Games</Text>
         <ScrollView horizontal showsHorizontalScrollIndicator={false}>
           {cloudGames.map((game, index) => (
-            <TouchableOpacity key={index} style={styles.gameCard}>
+            <TouchableOpacity
+              key={index}
+              style={styles.gameCard}
+              onPress={() => handleCloudGamePress(game)}
+            >
               <Image source={{ uri: game.cover }} style={styles.gameCover} />
               <Text style={styles.gameTitle}>{game.name}</Text>
               <Text style={styles.gameStatus}>
-                {game.isStreaming ? 'Streaming' : 'Available'}
+                {getCloudGameStatus(game)}
               </Text>
             </TouchableOpacity>
           ))}
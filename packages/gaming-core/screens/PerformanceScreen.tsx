@@ -0,0 +1,291 @@
+// 3kMLV Arcade - Performance Screen
+// Frame time charts, percentiles and stutters for the running game, with Chrome trace export
+
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  Dimensions
+} from 'react-native';
+import Svg, { Line, Polyline, Rect } from 'react-native-svg';
+import {
+  PerformanceTelemetry,
+  FrameSample,
+  TelemetrySession
+} from '../core/PerformanceTelemetry';
+
+const { width } = Dimensions.get('window');
+const CHART_WIDTH = width - 40;
+const CHART_HEIGHT = 120;
+const CHART_FRAMES = 240;
+const CHART_WINDOWS = 60;
+
+export const PerformanceScreen: React.FC = () => {
+  const [session, setSession] = useState<TelemetrySession | null>(null);
+  const [frames, setFrames] = useState<FrameSample[]>([]);
+  const [pastSessions, setPastSessions] = useState<TelemetrySession[]>([]);
+  const [tracePath, setTracePath] = useState<string | null>(null);
+
+  useEffect(() => {
+    const telemetry = PerformanceTelemetry.getInstance();
+
+    const refresh = () => {
+      const sessions = telemetry.getSessions();
+      const latest = sessions[0] ?? null;
+      setSession(latest);
+      setFrames(latest ? telemetry.getFrames(latest.id, CHART_FRAMES) : []);
+      setPastSessions(sessions.slice(1));
+    };
+
+    telemetry.on('windowCompleted', refresh);
+    telemetry.on('sessionStarted', refresh);
+    telemetry.on('sessionEnded', refresh);
+    refresh();
+
+    return () => {
+      telemetry.off('windowCompleted', refresh);
+      telemetry.off('sessionStarted', refresh);
+      telemetry.off('sessionEnded', refresh);
+    };
+  }, []);
+
+  const exportTrace = async () => {
+    if (!session) {
+      return;
+    }
+    const path = await PerformanceTelemetry.getInstance().saveChromeTrace(session.id);
+    setTracePath(path);
+  };
+
+  const renderFrameChart = () => {
+    const target = 1000 / session!.targetFps;
+    const ceiling = Math.max(target * 3, ...frames.map(frame => frame.interval));
+    const toY = (ms: number) => CHART_HEIGHT - (Math.min(ms, ceiling) / ceiling) * CHART_HEIGHT;
+    const step = CHART_WIDTH / Math.max(1, CHART_FRAMES - 1);
+    const points = frames.map((frame, index) => `${index * step},${toY(frame.interval)}`).join(' ');
+
+    return (
+      <Svg width={CHART_WIDTH} height={CHART_HEIGHT}>
+        <Rect x={0} y={0} width={CHART_WIDTH} height={CHART_HEIGHT} fill="#1a1a1a" />
+        <Line
+          x1={0}
+          y1={toY(target)}
+          x2={CHART_WIDTH}
+          y2={toY(target)}
+          stroke="#555"
+          strokeDasharray="4,4"
+        />
+        <Polyline points={points} fill="none" stroke="#00ff88" strokeWidth={1.5} />
+      </Svg>
+    );
+  };
+
+  const renderFpsChart = () => {
+    const windows = session!.windows.slice(-CHART_WINDOWS);
+    const barWidth = CHART_WIDTH / CHART_WINDOWS;
+    const ceiling = Math.max(session!.targetFps, ...windows.map(window => window.fps));
+
+    return (
+      <Svg width={CHART_WIDTH} height={CHART_HEIGHT}>
+        <Rect x={0} y={0} width={CHART_WIDTH} height={CHART_HEIGHT} fill="#1a1a1a" />
+        {windows.map((window, index) => {
+          const height = (window.fps / ceiling) * CHART_HEIGHT;
+          return (
+            <Rect
+              key={index}
+              x={index * barWidth}
+              y={CHART_HEIGHT - height}
+              width={Math.max(1, barWidth - 1)}
+              height={height}
+              fill={window.stutters > 0 ? '#ff4444' : '#0088ff'}
+            />
+          );
+        })}
+      </Svg>
+    );
+  };
+
+  const renderHistogram = () => {
+    const buckets = session!.histogram.filter(bucket => Number.isFinite(bucket.upperBound));
+    const tallest = Math.max(1, ...buckets.map(bucket => bucket.count));
+    const barWidth = CHART_WIDTH / Math.max(1, buckets.length);
+
+    return (
+      <Svg width={CHART_WIDTH} height={CHART_HEIGHT}>
+        <Rect x={0} y={0} width={CHART_WIDTH} height={CHART_HEIGHT} fill="#1a1a1a" />
+        {buckets.map((bucket, index) => {
+          const height = (bucket.count / tallest) * CHART_HEIGHT;
+          return (
+            <Rect
+              key={bucket.upperBound}
+              x={index * barWidth}
+              y={CHART_HEIGHT - height}
+              width={Math.max(1, barWidth - 1)}
+              height={height}
+              fill="#ffaa00"
+            />
+          );
+        })}
+      </Svg>
+    );
+  };
+
+  if (!session) {
+    return (
+      <View style={styles.container}>
+        <View style={styles.header}>
+          <Text style={styles.title}>Performance</Text>
+          <Text style={styles.subtitle}>Start a game to collect frame timings</Text>
+        </View>
+      </View>
+    );
+  }
+
+  const latestWindow = session.windows[session.windows.length - 1];
+  const stats = [
+    { label: 'FPS', value: latestWindow ? latestWindow.fps.toFixed(0) : '-' },
+    { label: 'p50', value: `${session.summary.p50.toFixed(1)}ms` },
+    { label: 'p95', value: `${session.summary.p95.toFixed(1)}ms` },
+    { label: 'p99', value: `${session.summary.p99.toFixed(1)}ms` },
+    { label: 'Stutters', value: String(session.stutterCount) }
+  ];
+
+  return (
+    <ScrollView style={styles.container}>
+      <View style={styles.header}>
+        <Text style={styles.title}>Performance</Text>
+        <Text style={styles.subtitle}>
+          {session.name} · {session.platform.toUpperCase()} · target {session.targetFps} fps
+          {session.endedAt ? ' · ended' : ''}
+        </Text>
+      </View>
+
+      <View style={styles.content}>
+        <View style={styles.statsRow}>
+          {stats.map(stat => (
+            <View key={stat.label} style={styles.statCard}>
+              <Text style={styles.statValue}>{stat.value}</Text>
+              <Text style={styles.statLabel}>{stat.label}</Text>
+            </View>
+          ))}
+        </View>
+
+        <Text style={styles.sectionTitle}>Frame Time</Text>
+        {renderFrameChart()}
+
+        <Text style={styles.sectionTitle}>FPS per Second</Text>
+        {renderFpsChart()}
+
+        <Text style={styles.sectionTitle}>Frame Time Distribution</Text>
+        {renderHistogram()}
+
+        <TouchableOpacity style={styles.exportButton} onPress={exportTrace}>
+          <Text style={styles.exportButtonText}>Export Chrome Trace</Text>
+        </TouchableOpacity>
+        {tracePath && <Text style={styles.tracePath}>Saved to {tracePath}</Text>}
+
+        {pastSessions.length > 0 && <Text style={styles.sectionTitle}>Earlier Sessions</Text>}
+        {pastSessions.map(past => (
+          <View key={past.id} style={styles.sessionRow}>
+            <Text style={styles.sessionTitle}>{past.name}</Text>
+            <Text style={styles.sessionDetails}>
+              p50 {past.summary.p50.toFixed(1)}ms · p99 {past.summary.p99.toFixed(1)}ms · {past.stutterCount} stutters
+            </Text>
+          </View>
+        ))}
+      </View>
+    </ScrollView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#000'
+  },
+  header: {
+    padding: 20,
+    paddingTop: 40,
+    alignItems: 'center'
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: 'bold',
+    color: '#00ff88'
+  },
+  subtitle: {
+    fontSize: 14,
+    color: '#888',
+    marginTop: 5
+  },
+  content: {
+    paddingHorizontal: 20,
+    paddingBottom: 20
+  },
+  statsRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: 10
+  },
+  statCard: {
+    flex: 1,
+    backgroundColor: '#1a1a1a',
+    borderRadius: 10,
+    paddingVertical: 10,
+    marginHorizontal: 2,
+    alignItems: 'center'
+  },
+  statValue: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#fff'
+  },
+  statLabel: {
+    fontSize: 10,
+    color: '#888',
+    marginTop: 2
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#fff',
+    marginTop: 20,
+    marginBottom: 10
+  },
+  exportButton: {
+    marginTop: 20,
+    backgroundColor: '#00ff88',
+    borderRadius: 10,
+    paddingVertical: 10,
+    alignItems: 'center'
+  },
+  exportButtonText: {
+    fontSize: 14,
+    fontWeight: 'bold',
+    color: '#000'
+  },
+  tracePath: {
+    fontSize: 12,
+    color: '#888',
+    marginTop: 5
+  },
+  sessionRow: {
+    backgroundColor: '#1a1a1a',
+    borderRadius: 10,
+    padding: 15,
+    marginBottom: 10
+  },
+  sessionTitle: {
+    fontSize: 14,
+    fontWeight: 'bold',
+    color: '#fff'
+  },
+  sessionDetails: {
+    fontSize: 12,
+    color: '#888',
+    marginTop: 4
+  }
+});
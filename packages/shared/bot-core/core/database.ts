@@ -30,6 +30,27 @@ export interface ProgressUpdate {
   timestamp: Date;
 }
 
+export type FriendStatus = 'pending' | 'accepted' | 'blocked';
+
+// One direction of a friendship: playerId's view of friendId
+export interface FriendLink {
+  playerId: string;
+  friendId: string;
+  status: FriendStatus;
+  via: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface PlayerPresence {
+  playerId: string;
+  playerName: string;
+  avatar: string;
+  games: string[];
+  online: boolean;
+  lastSeen: Date;
+}
+
 export interface Metrics {
   tasksCompleted: number;
   successRate: number;
@@ -113,6 +134,27 @@ export class DatabaseManager {
         metric TEXT NOT NULL,
         value REAL NOT NULL,
         timestamp DATETIME NOT NULL
+      )`,
+      
+      `CREATE TABLE IF NOT EXISTS friend_links (
+        playerId TEXT NOT NULL,
+        friendId TEXT NOT NULL,
+        status TEXT NOT NULL,
+        via TEXT NOT NULL,
+        createdAt DATETIME NOT NULL,
+        updatedAt DATETIME NOT NULL,
+        PRIMARY KEY (playerId, friendId)
+      )`,
+      
+      `CREATE INDEX IF NOT EXISTS idx_friend_links_friend ON friend_links (friendId, status)`,
+      
+      `CREATE TABLE IF NOT EXISTS player_presence (
+        playerId TEXT PRIMARY KEY,
+        playerName TEXT NOT NULL,
+        avatar TEXT,
+        games TEXT,
+        online BOOLEAN DEFAULT FALSE,
+        lastSeen DATETIME NOT NULL
       )`
     ];
 
@@ -321,6 +363,94 @@ export class DatabaseManager {
     };
   }
 
+  async saveFriendLink(link: FriendLink) {
+    const sql = `INSERT OR REPLACE INTO friend_links (playerId, friendId, status, via, createdAt, updatedAt) 
+                 VALUES (?, ?, ?, ?, ?, ?)`;
+    await this.runQuery(sql, [
+      link.playerId,
+      link.friendId,
+      link.status,
+      link.via,
+      link.createdAt.toISOString(),
+      link.updatedAt.toISOString()
+    ]);
+  }
+
+  async getFriendLink(playerId: string, friendId: string): Promise<FriendLink | null> {
+    const rows = await this.getQuery('SELECT * FROM friend_links WHERE playerId = ? AND friendId = ?', [playerId, friendId]);
+    return rows.length > 0 ? this.toFriendLink(rows[0]) : null;
+  }
+
+  // Links owned by playerId, or with incoming set, the links other players hold towards playerId
+  async getFriendLinks(playerId: string, status?: FriendStatus, incoming: boolean = false): Promise<FriendLink[]> {
+    let sql = `SELECT * FROM friend_links WHERE ${incoming ? 'friendId' : 'playerId'} = ?`;
+    const params: any[] = [playerId];
+    
+    if (status) {
+      sql += ' AND status = ?';
+      params.push(status);
+    }
+    
+    sql += ' ORDER BY updatedAt DESC';
+    
+    const rows = await this.getQuery(sql, params);
+    return rows.map(row => this.toFriendLink(row));
+  }
+
+  async deleteFriendLink(playerId: string, friendId: string) {
+    await this.runQuery('DELETE FROM friend_links WHERE playerId = ? AND friendId = ?', [playerId, friendId]);
+  }
+
+  private toFriendLink(row: any): FriendLink {
+    return {
+      playerId: row.playerId,
+      friendId: row.friendId,
+      status: row.status,
+      via: row.via,
+      createdAt: new Date(row.createdAt),
+      updatedAt: new Date(row.updatedAt)
+    };
+  }
+
+  async savePresence(presence: PlayerPresence) {
+    const sql = `INSERT OR REPLACE INTO player_presence (playerId, playerName, avatar, games, online, lastSeen) 
+                 VALUES (?, ?, ?, ?, ?, ?)`;
+    await this.runQuery(sql, [
+      presence.playerId,
+      presence.playerName,
+      presence.avatar,
+      JSON.stringify(presence.games),
+      presence.online ? 1 : 0,
+      presence.lastSeen.toISOString()
+    ]);
+  }
+
+  // All known players when playerIds is omitted
+  async getPresence(playerIds?: string[]): Promise<PlayerPresence[]> {
+    let sql = 'SELECT * FROM player_presence';
+    const params: any[] = [];
+    
+    if (playerIds) {
+      if (playerIds.length === 0) {
+        return [];
+      }
+      sql += ` WHERE playerId IN (${playerIds.map(() => '?').join(', ')})`;
+      params.push(...playerIds);
+    }
+    
+    sql += ' ORDER BY lastSeen DESC';
+    
+    const rows = await this.getQuery(sql, params);
+    return rows.map(row => ({
+      playerId: row.playerId,
+      playerName: row.playerName,
+      avatar: row.avatar || '',
+      games: JSON.parse(row.games || '[]'),
+      online: row.online === 1,
+      lastSeen: new Date(row.lastSeen)
+    }));
+  }
+
   private generateId(): string {
     return Math.random().toString(36).substr(2, 9);
   }
@@ -13,6 +13,9 @@ import { AuditManager } from './security/audit';
 import { EncryptionManager } from './security/encryption';
 import { AuthorizationManager, User, UserRole } from './security/authorization';
 import { ComplianceManager } from './security/compliance';
+import { ReportOutcome, createAuditReportSink, listPictoChatReports, resolvePictoChatReport } from './multiplayer/pictochat-moderation';
+import { PictoChatServer } from './multiplayer/pictochat-server';
+import { FriendService } from './multiplayer/friends';
 
 config();
 
@@ -26,6 +29,8 @@ class GunnchAI3k {
   private cursorIntegration: CursorIntegration;
   private notificationManager: NotificationManager;
   private databaseManager: DatabaseManager;
+  private friendService: FriendService;
+  private pictoChatHub: PictoChatServer;
   private logger: Logger;
   
   // Security Components
@@ -62,6 +67,11 @@ class GunnchAI3k {
     this.githubIntegration = new GitHubIntegration();
     this.cursorIntegration = new CursorIntegration();
     this.notificationManager = new NotificationManager(this.client);
+    this.friendService = new FriendService(this.databaseManager);
+    // Player reports land in the audit log, where /reports and /resolve_report pick them up
+    this.pictoChatHub = new PictoChatServer({
+      moderation: { reportSink: createAuditReportSink(this.auditManager) }
+    });
   }
 
   async initialize() {
@@ -106,11 +116,30 @@ class GunnchAI3k {
 
   async start() {
     await this.initialize();
+    await this.startPictoChatHub();
     await this.registerCommands();
     await this.setupEventHandlers();
     await this.client.login(process.env.DISCORD_BOT_TOKEN);
   }
 
+  private async startPictoChatHub() {
+    try {
+      await this.pictoChatHub.start();
+      // Hub presence feeds /playing and /friends; friend requests sent in PictoChat become pending links
+      this.friendService.watchHub(this.pictoChatHub);
+
+      // Hub bans live in memory; reapply the ones moderators upheld before a restart
+      const reports = await listPictoChatReports(this.auditManager, true);
+      for (const record of reports) {
+        if (record.resolution?.outcome === 'banned') {
+          this.pictoChatHub.banPlayer(record.report.reportedUserId, record.report.reportedIdentity);
+        }
+      }
+    } catch (error) {
+      this.logger.error('Failed to start PictoChat hub:', error);
+    }
+  }
+
   private async registerCommands() {
     const commands = [
       // Learning Commands
@@ -330,6 +359,52 @@ class GunnchAI3k {
               { name: 'AI Actions', value: 'ai' },
               { name: 'User Actions', value: 'user' }
             )
+        ),
+      
+      new SlashCommandBuilder()
+        .setName('playing')
+        .setDescription('See who is playing what right now')
+        .addStringOption(option =>
+          option.setName('game')
+            .setDescription('Only show players in this game')
+            .setRequired(false)
+        ),
+      
+      new SlashCommandBuilder()
+        .setName('reports')
+        .setDescription('Review reported PictoChat messages (Moderators only)')
+        .addStringOption(option =>
+          option.setName('status')
+            .setDescription('Which reports to show')
+            .setRequired(false)
+            .addChoices(
+              { name: 'Open Reports', value: 'open' },
+              { name: 'All Reports', value: 'all' }
+            )
+        ),
+      
+      new SlashCommandBuilder()
+        .setName('resolve-report')
+        .setDescription('Close a PictoChat report (Moderators only)')
+        .addStringOption(option =>
+          option.setName('report_id')
+            .setDescription('ID of the report to resolve')
+            .setRequired(true)
+        )
+        .addStringOption(option =>
+          option.setName('outcome')
+            .setDescription('What was done about it')
+            .setRequired(true)
+            .addChoices(
+              { name: 'Dismissed', value: 'dismissed' },
+              { name: 'Player Warned', value: 'warned' },
+              { name: 'Player Banned', value: 'banned' }
+            )
+        )
+        .addStringOption(option =>
+          option.setName('note')
+            .setDescription('Note for the audit trail')
+            .setRequired(false)
         )
     ];
 
@@ -427,6 +502,15 @@ class GunnchAI3k {
       case 'audit':
         await this.handleAuditCommand(interaction, options);
         break;
+      case 'playing':
+        await this.handlePlayingCommand(interaction, options);
+        break;
+      case 'reports':
+        await this.handleReportsCommand(interaction, options);
+        break;
+      case 'resolve-report':
+        await this.handleResolveReportCommand(interaction, options);
+        break;
     }
   }
 
@@ -949,6 +1033,147 @@ class GunnchAI3k {
     }
   }
 
+  private async handlePlayingCommand(interaction: any, options: any) {
+    const game = options.getString('game') || undefined;
+    
+    await interaction.deferReply();
+    
+    try {
+      const players = await this.friendService.getPlayingNow(game);
+      
+      const embed = new EmbedBuilder()
+        .setTitle(game ? `🎮 Playing ${game}` : '🎮 Playing Now')
+        .setColor(0x9b59b6)
+        .setTimestamp();
+      
+      if (players.length > 0) {
+        // Group by game so busy servers stay readable
+        const byGame = new Map<string, string[]>();
+        for (const player of players) {
+          for (const playerGame of game ? [game] : player.games) {
+            byGame.set(playerGame, [...(byGame.get(playerGame) || []), player.playerName]);
+          }
+        }
+        
+        const gameFields = Array.from(byGame.entries())
+          .sort((a, b) => b[1].length - a[1].length)
+          .slice(0, 25)
+          .map(([gameName, names]) => ({
+            name: `${gameName} (${names.length})`,
+            value: names.slice(0, 20).join(', ') + (names.length > 20 ? ` and ${names.length - 20} more` : ''),
+            inline: false
+          }));
+        
+        embed.setDescription(`${players.length} players online`);
+        embed.addFields(gameFields);
+      } else {
+        embed.setDescription(game ? `Nobody is playing ${game} right now.` : 'Nobody is playing right now.');
+      }
+      
+      await interaction.editReply({ embeds: [embed] });
+    } catch (error) {
+      this.logger.error('Playing command failed:', error);
+      await interaction.editReply({ content: '❌ Failed to retrieve who is playing.' });
+    }
+  }
+
+  private async handleReportsCommand(interaction: any, options: any) {
+    const status = options.getString('status') || 'open';
+    
+    // Check if user can moderate
+    const user = await this.getUser(interaction.user.id);
+    if (user.role !== UserRole.EXECUTIVE && user.role !== UserRole.ADMIN) {
+      await interaction.reply({ 
+        content: '❌ Only moderators can review PictoChat reports.', 
+        ephemeral: true 
+      });
+      return;
+    }
+    
+    await interaction.deferReply({ ephemeral: true });
+    
+    try {
+      const reports = await listPictoChatReports(this.auditManager, status === 'all');
+      
+      const embed = new EmbedBuilder()
+        .setTitle(status === 'all' ? '🚩 PictoChat Reports' : '🚩 Open PictoChat Reports')
+        .setDescription(`Found ${reports.length} reports`)
+        .setColor(0xff9900)
+        .setTimestamp();
+      
+      if (reports.length > 0) {
+        const reportFields = reports.slice(0, 10).map(record => {
+          const { report } = record;
+          const content = report.message.drawing ? `[drawing] ${report.message.message}` : report.message.message;
+          const state = record.resolution
+            ? `Resolved: ${record.resolution.outcome} by ${record.resolution.moderatorId}`
+            : 'Open';
+          return {
+            name: `${record.id} · ${report.category} (${record.severity})`,
+            value: `Player: ${report.reportedUserName} (${report.reportedUserId})\nRoom: ${report.roomName}\nMessage: ${content.slice(0, 200) || '(empty)'}\nReason: ${report.reason || 'N/A'}\nReported by: ${report.reporterName} · ${new Date(record.timestamp).toLocaleString()}\n${state}`,
+            inline: false
+          };
+        });
+        
+        embed.addFields(reportFields);
+      } else {
+        embed.setDescription('No reports to review.');
+      }
+      
+      await interaction.editReply({ embeds: [embed] });
+    } catch (error) {
+      this.logger.error('Reports command failed:', error);
+      await interaction.editReply({ content: '❌ Failed to retrieve PictoChat reports.' });
+    }
+  }
+
+  private async handleResolveReportCommand(interaction: any, options: any) {
+    const reportId = options.getString('report_id', true);
+    const outcome = options.getString('outcome', true) as ReportOutcome;
+    const note = options.getString('note') || '';
+    
+    // Check if user can moderate
+    const user = await this.getUser(interaction.user.id);
+    if (user.role !== UserRole.EXECUTIVE && user.role !== UserRole.ADMIN) {
+      await interaction.reply({ 
+        content: '❌ Only moderators can resolve PictoChat reports.', 
+        ephemeral: true 
+      });
+      return;
+    }
+    
+    try {
+      const record = await resolvePictoChatReport(this.auditManager, reportId, user.id, outcome, note);
+      
+      if (record) {
+        if (outcome === 'banned') {
+          this.pictoChatHub.banPlayer(record.report.reportedUserId, record.report.reportedIdentity);
+        }
+        
+        const embed = new EmbedBuilder()
+          .setTitle('✅ Report Resolved')
+          .setDescription(outcome === 'banned'
+            ? `Report ${reportId} closed; ${record.report.reportedUserName} is banned from PictoChat.`
+            : `Report ${reportId} closed as ${outcome}.`)
+          .setColor(0x00ff00)
+          .setTimestamp();
+        
+        await interaction.reply({ embeds: [embed], ephemeral: true });
+      } else {
+        await interaction.reply({ 
+          content: '❌ Report not found or already resolved.', 
+          ephemeral: true 
+        });
+      }
+    } catch (error) {
+      this.logger.error('Resolve report command failed:', error);
+      await interaction.reply({ 
+        content: '❌ Failed to resolve report.', 
+        ephemeral: true 
+      });
+    }
+  }
+
   private async getUser(userId: string): Promise<User> {
     // This would typically fetch from database
     // For now, return a mock executive user
@@ -0,0 +1,36 @@
+// Base64url
+// Unpadded RFC 4648 base64url without Buffer, so it runs in browsers and React Native too
+
+const ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789-_';
+
+export function encodeBase64Url(data: Uint8Array): string {
+  let output = '';
+  for (let i = 0; i < data.length; i += 3) {
+    const chunk = (data[i]! << 16) | ((data[i + 1] ?? 0) << 8) | (data[i + 2] ?? 0);
+    const chars = i + 2 < data.length ? 4 : i + 1 < data.length ? 3 : 2;
+    for (let c = 0; c < chars; c++) {
+      output += ALPHABET[(chunk >> (18 - c * 6)) & 0x3f];
+    }
+  }
+  return output;
+}
+
+// Return type left inferred so newer lib typings keep it ArrayBuffer-backed for WebCrypto
+export function decodeBase64Url(text: string) {
+  if (!/^[A-Za-z0-9_-]*$/.test(text) || text.length % 4 === 1) {
+    throw new Error('Invalid base64url data');
+  }
+  const output = new Uint8Array(Math.floor((text.length * 3) / 4));
+  let buffer = 0;
+  let bits = 0;
+  let offset = 0;
+  for (const char of text) {
+    buffer = (buffer << 6) | ALPHABET.indexOf(char);
+    bits += 6;
+    if (bits >= 8) {
+      bits -= 8;
+      output[offset++] = (buffer >> bits) & 0xff;
+    }
+  }
+  return output;
+}
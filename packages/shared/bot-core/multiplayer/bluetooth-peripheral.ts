@@ -0,0 +1,335 @@
+// Simulated Bluetooth Game Peripheral
+// Hosts a BLE game in memory so BleGameSession can run without a radio
+
+import { EventEmitter } from 'events';
+import {
+  BLE_DATA_IN_CHARACTERISTIC_UUID,
+  BLE_DATA_OUT_CHARACTERISTIC_UUID,
+  BLE_DEFAULT_ATT_MTU,
+  BLE_JOIN_CHARACTERISTIC_UUID,
+  BLE_LOBBY_CHARACTERISTIC_UUID,
+  BLE_MAX_ATT_MTU,
+  BLE_PROTOCOL_VERSION,
+  BleCharacteristic,
+  BleFramer,
+  BleGattLink,
+  BleLobbyInfo,
+  BleMessage,
+  BlePlayer,
+  BleProtocolError,
+  BleReassembler,
+  encodeLobbyInfo,
+  fragmentPayloadSize
+} from './bluetooth-protocol';
+
+export interface SimulatedBlePeripheralOptions {
+  hostName?: string;
+  gameId: string;
+  gameName: string;
+  maxPlayers?: number;
+  // JoinTokenIssuer.getHostKey() of the host, advertised in the lobby info
+  hostKey?: string;
+  // ATT MTU this peripheral can negotiate; each link settles on the lower of this and the central's
+  mtu?: number;
+}
+
+export interface SimulatedLinkOptions {
+  // ATT MTU offered by the simulated central
+  mtu?: number;
+}
+
+type Subscriber = (data: Uint8Array) => void;
+
+interface PeripheralConnection {
+  link: SimulatedGattLink;
+  mtu: number;
+  framer: BleFramer;
+  joinReassembler: BleReassembler;
+  dataReassembler: BleReassembler;
+  player: BlePlayer | null;
+}
+
+export class SimulatedBlePeripheral extends EventEmitter {
+  private lobby: BleLobbyInfo;
+  private mtu: number;
+  private connections: Set<PeripheralConnection> = new Set();
+  private lobbyVersion: number = 0;
+
+  constructor(options: SimulatedBlePeripheralOptions) {
+    super();
+    this.lobby = {
+      protocolVersion: BLE_PROTOCOL_VERSION,
+      hostName: options.hostName ?? 'Host',
+      gameId: options.gameId,
+      gameName: options.gameName,
+      playerCount: 1,
+      maxPlayers: options.maxPlayers ?? 4,
+      ...(options.hostKey ? { hostKey: options.hostKey } : {})
+    };
+    this.mtu = options.mtu ?? 185;
+  }
+
+  // Opens a new central connection to this peripheral
+  connect(options: SimulatedLinkOptions = {}): BleGattLink {
+    const link = new SimulatedGattLink(this);
+    const connection: PeripheralConnection = {
+      link,
+      mtu: Math.min(this.mtu, options.mtu ?? BLE_MAX_ATT_MTU),
+      framer: new BleFramer(),
+      joinReassembler: new BleReassembler(),
+      dataReassembler: new BleReassembler(),
+      player: null
+    };
+    link.connection = connection;
+    this.connections.add(connection);
+    return link;
+  }
+
+  // Sends a game message from the host to every joined player
+  async broadcast(payload: unknown): Promise<void> {
+    for (const connection of this.joined()) {
+      this.notify(connection, BLE_DATA_OUT_CHARACTERISTIC_UUID, { type: 'game', from: 'host', payload });
+    }
+  }
+
+  async kick(playerId: string): Promise<boolean> {
+    const connection = this.joined().find(candidate => candidate.player!.playerId === playerId);
+    if (!connection) {
+      return false;
+    }
+    this.notify(connection, BLE_DATA_OUT_CHARACTERISTIC_UUID, { type: 'leave' });
+    this.removePlayer(connection);
+    return true;
+  }
+
+  // Drops every link, as if the host walked out of range
+  shutdown(): void {
+    for (const connection of Array.from(this.connections)) {
+      connection.link.disconnect();
+    }
+  }
+
+  getPlayers(): BlePlayer[] {
+    return this.joined().map(connection => connection.player!);
+  }
+
+  getLobby(): BleLobbyInfo {
+    return { ...this.lobby };
+  }
+
+  // Characteristic values as a GATT server would serve them
+  read(uuid: string): Uint8Array {
+    if (uuid !== BLE_LOBBY_CHARACTERISTIC_UUID) {
+      throw new BleProtocolError('Characteristic is not readable');
+    }
+    return encodeLobbyInfo(this.lobby);
+  }
+
+  write(connection: PeripheralConnection, uuid: string, data: Uint8Array): void {
+    // Real links cannot carry more than MTU - 3 bytes per write; the joining side must fragment
+    const limit = fragmentPayloadSize(connection.player ? connection.mtu : BLE_DEFAULT_ATT_MTU);
+    if (data.length > limit) {
+      throw new BleProtocolError(`Write of ${data.length} bytes exceeds ${limit}`);
+    }
+
+    const reassembler = uuid === BLE_JOIN_CHARACTERISTIC_UUID
+      ? connection.joinReassembler
+      : uuid === BLE_DATA_IN_CHARACTERISTIC_UUID ? connection.dataReassembler : null;
+    if (!reassembler) {
+      throw new BleProtocolError('Characteristic is not writable');
+    }
+
+    let message: BleMessage | null;
+    try {
+      message = reassembler.push(data);
+    } catch (error) {
+      console.error('❌ BLE host dropped a message:', error);
+      return;
+    }
+    if (message) {
+      this.handleMessage(connection, message);
+    }
+  }
+
+  disconnected(connection: PeripheralConnection): void {
+    if (this.connections.delete(connection) && connection.player) {
+      this.removePlayer(connection);
+    }
+  }
+
+  private handleMessage(connection: PeripheralConnection, message: BleMessage): void {
+    switch (message.type) {
+      case 'join':
+        this.handleJoin(connection, message);
+        break;
+      case 'leave':
+        if (connection.player) {
+          this.removePlayer(connection);
+        }
+        break;
+      case 'game':
+        if (!connection.player) {
+          return;
+        }
+        this.emit('message', connection.player.playerId, message.payload);
+        // Relay to the other players so the host is the hub of a star
+        for (const other of this.joined()) {
+          if (other !== connection) {
+            this.notify(other, BLE_DATA_OUT_CHARACTERISTIC_UUID, { type: 'game', from: connection.player.playerId, payload: message.payload });
+          }
+        }
+        break;
+      case 'pong':
+        this.emit('pong', connection.player?.playerId, Date.now() - message.at);
+        break;
+    }
+  }
+
+  private handleJoin(connection: PeripheralConnection, message: Extract<BleMessage, { type: 'join' }>): void {
+    const reject = (reason: string) => this.notify(connection, BLE_JOIN_CHARACTERISTIC_UUID, { type: 'joinRejected', reason });
+
+    if (message.protocolVersion !== BLE_PROTOCOL_VERSION) {
+      reject(`Host speaks protocol version ${BLE_PROTOCOL_VERSION}`);
+      return;
+    }
+    if (typeof message.playerId !== 'string' || !message.playerId || typeof message.playerName !== 'string') {
+      reject('Invalid join request');
+      return;
+    }
+    if (!connection.player && this.lobby.playerCount >= this.lobby.maxPlayers) {
+      reject('Game is full');
+      return;
+    }
+
+    if (!connection.player) {
+      const taken = new Set(this.joined().map(other => other.player!.slot));
+      let slot = 1;
+      while (taken.has(slot)) {
+        slot++;
+      }
+      connection.player = { playerId: message.playerId, playerName: message.playerName.slice(0, 32), slot };
+    }
+    connection.mtu = Math.min(connection.mtu, typeof message.mtu === 'number' ? message.mtu : BLE_DEFAULT_ATT_MTU);
+
+    this.notify(connection, BLE_JOIN_CHARACTERISTIC_UUID, {
+      type: 'joinAccepted',
+      slot: connection.player.slot,
+      mtu: connection.mtu,
+      players: this.getPlayers()
+    });
+    // Everything after the handshake goes out at the negotiated MTU
+    connection.framer.setMtu(connection.mtu);
+
+    console.log('📡 BLE player joined:', connection.player.playerName);
+    this.emit('playerJoined', connection.player);
+    this.playersChanged();
+  }
+
+  private removePlayer(connection: PeripheralConnection): void {
+    const player = connection.player!;
+    connection.player = null;
+    connection.framer.setMtu(BLE_DEFAULT_ATT_MTU);
+    console.log('📡 BLE player left:', player.playerName);
+    this.emit('playerLeft', player);
+    this.playersChanged();
+  }
+
+  private playersChanged(): void {
+    this.lobby.playerCount = 1 + this.joined().length;
+    this.lobbyVersion = (this.lobbyVersion + 1) & 0xff;
+    const players = this.getPlayers();
+    for (const connection of this.connections) {
+      connection.link.deliver(BLE_LOBBY_CHARACTERISTIC_UUID, Uint8Array.of(this.lobbyVersion));
+      if (connection.player) {
+        this.notify(connection, BLE_DATA_OUT_CHARACTERISTIC_UUID, { type: 'players', players });
+      }
+    }
+  }
+
+  private notify(connection: PeripheralConnection, uuid: string, message: BleMessage): void {
+    for (const fragment of connection.framer.frame(message)) {
+      connection.link.deliver(uuid, fragment);
+    }
+  }
+
+  private joined(): PeripheralConnection[] {
+    return Array.from(this.connections).filter(connection => connection.player !== null);
+  }
+}
+
+// Central-side view of a SimulatedBlePeripheral; delivery is asynchronous and in order like a real link
+class SimulatedGattLink implements BleGattLink {
+  connection: PeripheralConnection | null = null;
+  private peripheral: SimulatedBlePeripheral;
+  private subscribers: Map<string, Set<Subscriber>> = new Map();
+  private disconnectHandlers: Set<() => void> = new Set();
+  private connected: boolean = true;
+
+  constructor(peripheral: SimulatedBlePeripheral) {
+    this.peripheral = peripheral;
+  }
+
+  async getCharacteristic(uuid: string): Promise<BleCharacteristic> {
+    this.ensureConnected();
+    return {
+      read: async () => {
+        this.ensureConnected();
+        return this.peripheral.read(uuid);
+      },
+      write: async data => {
+        this.ensureConnected();
+        this.peripheral.write(this.connection!, uuid, new Uint8Array(data));
+      },
+      subscribe: async handler => {
+        this.ensureConnected();
+        const handlers = this.subscribers.get(uuid) ?? new Set<Subscriber>();
+        handlers.add(handler);
+        this.subscribers.set(uuid, handlers);
+        return () => {
+          handlers.delete(handler);
+        };
+      }
+    };
+  }
+
+  onDisconnect(handler: () => void): () => void {
+    this.disconnectHandlers.add(handler);
+    return () => {
+      this.disconnectHandlers.delete(handler);
+    };
+  }
+
+  disconnect(): void {
+    if (!this.connected) {
+      return;
+    }
+    this.connected = false;
+    this.peripheral.disconnected(this.connection!);
+    setTimeout(() => {
+      this.disconnectHandlers.forEach(handler => handler());
+      this.disconnectHandlers.clear();
+      this.subscribers.clear();
+    }, 0);
+  }
+
+  deliver(uuid: string, data: Uint8Array): void {
+    if (!this.connected) {
+      return;
+    }
+    const limit = fragmentPayloadSize(this.connection!.mtu);
+    if (data.length > limit) {
+      throw new BleProtocolError(`Notification of ${data.length} bytes exceeds ${limit}`);
+    }
+    setTimeout(() => {
+      if (this.connected) {
+        this.subscribers.get(uuid)?.forEach(handler => handler(data));
+      }
+    }, 0);
+  }
+
+  private ensureConnected(): void {
+    if (!this.connected) {
+      throw new BleProtocolError('GATT server is disconnected');
+    }
+  }
+}
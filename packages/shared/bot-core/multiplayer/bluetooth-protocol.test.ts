@@ -0,0 +1,201 @@
+import { once } from 'events';
+import {
+  BLE_DATA_IN_CHARACTERISTIC_UUID,
+  BLE_DATA_OUT_CHARACTERISTIC_UUID,
+  BLE_DEFAULT_ATT_MTU,
+  BLE_LOBBY_CHARACTERISTIC_UUID,
+  BleGameSession,
+  BleGattLink,
+  BleMessage,
+  BleProtocolError,
+  BleReassembler,
+  decodeLobbyInfo,
+  encodeBleMessage,
+  fragmentMessage,
+  fragmentPayloadSize
+} from './bluetooth-protocol';
+import { SimulatedBlePeripheral } from './bluetooth-peripheral';
+
+const MTUS = [BLE_DEFAULT_ATT_MTU, 64, 185, 517];
+
+// A game payload of roughly the given JSON size
+const payloadOf = (length: number) => ({ frame: 42, state: 'x'.repeat(length) });
+
+const gameMessage = (length: number): BleMessage => ({ type: 'game', payload: payloadOf(length) });
+
+// Lets the simulated link deliver queued notifications
+const settle = () => new Promise(resolve => setTimeout(resolve, 5));
+
+// Pushes fragments in order and returns every completed message
+const reassemble = (reassembler: BleReassembler, fragments: Uint8Array[]) =>
+  fragments.map(fragment => reassembler.push(fragment)).filter(message => message !== null);
+
+describe('BLE framing', () => {
+  it('clamps the fragment size to the ATT MTU range', () => {
+    expect([10, 23, 185.9, 517, 4096].map(fragmentPayloadSize)).toEqual([20, 20, 182, 514, 514]);
+  });
+
+  it.each(MTUS)('splits and reassembles a message at MTU %i', mtu => {
+    const message = gameMessage(3000);
+    const data = encodeBleMessage(message);
+
+    const fragments = fragmentMessage(data, 5, mtu);
+
+    expect(fragments.every(fragment => fragment.length <= fragmentPayloadSize(mtu))).toBe(true);
+    expect(fragments.reduce((sum, fragment) => sum + fragment.length, 0)).toBe(data.length + 2 * fragments.length + 2);
+    expect(fragments.map(fragment => fragment[0]! & 0xc0)).toEqual([
+      0x80,
+      ...Array(fragments.length - 2).fill(0),
+      0x40
+    ]);
+    expect(reassemble(new BleReassembler(), fragments)).toEqual([message]);
+  });
+
+  it('sends a short message as one fragment marked first and last', () => {
+    const fragments = fragmentMessage(encodeBleMessage({ type: 'leave' }), 63, BLE_DEFAULT_ATT_MTU);
+
+    expect(fragments).toHaveLength(1);
+    expect(fragments[0]![0]).toBe(0xc0 | 63);
+    expect(new BleReassembler().push(fragments[0]!)).toEqual({ type: 'leave' });
+  });
+
+  it('wraps the fragment index for messages longer than 256 fragments', () => {
+    const message = gameMessage(6000);
+
+    const fragments = fragmentMessage(encodeBleMessage(message), 0, BLE_DEFAULT_ATT_MTU);
+
+    expect(fragments.length).toBeGreaterThan(256);
+    expect(fragments[256]![1]).toBe(0);
+    expect(reassemble(new BleReassembler(), fragments)).toEqual([message]);
+  });
+
+  it('rejects messages over the length field', () => {
+    expect(() => fragmentMessage(new Uint8Array(65536), 0, 185)).toThrow(BleProtocolError);
+    expect(() => encodeBleMessage(gameMessage(65536))).toThrow(/limit is 65535/);
+  });
+
+  it('drops a truncated message and recovers on the next one', () => {
+    const reassembler = new BleReassembler();
+    const first = fragmentMessage(encodeBleMessage(gameMessage(100)), 1, BLE_DEFAULT_ATT_MTU);
+    const second = fragmentMessage(encodeBleMessage({ type: 'ping', at: 7 }), 2, BLE_DEFAULT_ATT_MTU);
+
+    // The tail of the first message never arrives
+    expect(reassemble(reassembler, first.slice(0, 3))).toEqual([]);
+    expect(reassemble(reassembler, second)).toEqual([{ type: 'ping', at: 7 }]);
+    expect(reassembler.getDroppedCount()).toBe(1);
+  });
+
+  it('throws on fragments that skip, overrun or end early', () => {
+    const fragments = fragmentMessage(encodeBleMessage(gameMessage(100)), 1, BLE_DEFAULT_ATT_MTU);
+    const reassembler = new BleReassembler();
+
+    reassembler.push(fragments[0]!);
+    expect(() => reassembler.push(fragments[2]!)).toThrow('Fragment out of sequence');
+    expect(() => reassembler.push(fragments[1]!)).toThrow('Fragment out of sequence');
+    expect(() => reassembler.push(Uint8Array.of(0x80))).toThrow('Fragment too short');
+    expect(() => reassembler.push(Uint8Array.of(0x80, 1, 0, 4))).toThrow('Malformed first fragment');
+    // Length fields that disagree with the bytes that follow
+    expect(() => reassembler.push(Uint8Array.of(0xc0, 0, 0, 1, 0x7b, 0x7d))).toThrow('overruns');
+    expect(() => reassembler.push(Uint8Array.of(0xc0, 0, 0, 9, 0x7b, 0x7d))).toThrow('ended early');
+    // The skipped message and both bad length fields
+    expect(reassembler.getDroppedCount()).toBe(3);
+  });
+});
+
+describe('BLE game session', () => {
+  let peripheral: SimulatedBlePeripheral;
+  let sessions: BleGameSession[];
+
+  const joinAt = async (mtu: number, playerId = `player-${mtu}`, maxMtu?: number) => {
+    const link = peripheral.connect({ mtu });
+    const session = new BleGameSession(link, { playerId, playerName: playerId }, maxMtu ? { maxMtu } : {});
+    sessions.push(session);
+    await session.join();
+    return { link, session };
+  };
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    peripheral = new SimulatedBlePeripheral({ gameId: 'tetris', gameName: 'Tetris', mtu: 185, maxPlayers: 4 });
+    sessions = [];
+  });
+
+  afterEach(async () => {
+    sessions.forEach(session => session.close());
+    await settle();
+    jest.restoreAllMocks();
+  });
+
+  it.each(MTUS)('negotiates the lower MTU and carries large messages both ways at MTU %i', async mtu => {
+    const { session } = await joinAt(mtu);
+    const payload = payloadOf(2000);
+
+    expect(session.getMtu()).toBe(Math.min(mtu, 185));
+
+    const received = once(peripheral, 'message');
+    await session.send(payload);
+    expect(await received).toEqual([`player-${mtu}`, payload]);
+
+    const broadcast = once(session, 'message');
+    await peripheral.broadcast(payload);
+    expect(await broadcast).toEqual([payload, 'host']);
+  });
+
+  it('caps the MTU at what the joining side accepts', async () => {
+    const { session } = await joinAt(517, 'small', 50);
+
+    expect(session.getMtu()).toBe(50);
+    const received = once(peripheral, 'message');
+    await session.send(payloadOf(500));
+    expect((await received)[1]).toEqual(payloadOf(500));
+  });
+
+  it('relays between players joined at different MTUs', async () => {
+    const slow = await joinAt(BLE_DEFAULT_ATT_MTU, 'slow');
+    const fast = await joinAt(517, 'fast');
+    await settle();
+    expect(slow.session.getPlayers().map(player => player.slot)).toEqual([1, 2]);
+    expect(decodeLobbyInfo(peripheral.read(BLE_LOBBY_CHARACTERISTIC_UUID)).playerCount).toBe(3);
+
+    const relayed = once(slow.session, 'message');
+    await fast.session.send(payloadOf(1000));
+
+    expect(await relayed).toEqual([payloadOf(1000), 'fast']);
+  });
+
+  it('drops a truncated notification and keeps the session running', async () => {
+    const { link, session } = await joinAt(64);
+    const errors: unknown[] = [];
+    session.on('protocolError', error => errors.push(error));
+    const deliver = (fragment: Uint8Array) =>
+      (link as BleGattLink & { deliver(uuid: string, data: Uint8Array): void }).deliver(BLE_DATA_OUT_CHARACTERISTIC_UUID, fragment);
+
+    // Half of a message from a host that then skips ahead to the next message's tail
+    const cut = fragmentMessage(encodeBleMessage(gameMessage(300)), 30, 64);
+    cut.slice(0, 2).forEach(deliver);
+    deliver(cut[cut.length - 1]!);
+    await settle();
+    const next = once(session, 'message');
+    await peripheral.broadcast('still here');
+
+    expect(await next).toEqual(['still here', 'host']);
+    expect(errors).toEqual([expect.objectContaining({ message: 'Fragment out of sequence' })]);
+  });
+
+  it('has the host drop a truncated write and accept the next message', async () => {
+    const { link, session } = await joinAt(185, 'sender');
+    const dataIn = await link.getCharacteristic(BLE_DATA_IN_CHARACTERISTIC_UUID);
+    const received: unknown[] = [];
+    peripheral.on('message', (_playerId, payload) => received.push(payload));
+
+    const cut = fragmentMessage(encodeBleMessage(gameMessage(500)), 60, 185);
+    await dataIn.write(cut[0]!);
+    await session.send('complete');
+
+    expect(received).toEqual(['complete']);
+    expect(console.error).toHaveBeenCalledTimes(0);
+    // Writes larger than the negotiated MTU allows are refused outright
+    await expect(dataIn.write(new Uint8Array(183))).rejects.toThrow('exceeds 182');
+  });
+});
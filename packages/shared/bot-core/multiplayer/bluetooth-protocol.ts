@@ -0,0 +1,512 @@
+// Bluetooth Game Protocol
+// GATT layout, MTU-aware framing and the joining side of a BLE game session
+
+import { EventEmitter } from 'events';
+
+export const BLE_PROTOCOL_VERSION = 1;
+
+export const BLE_GAME_SERVICE_UUID = '6d6c7600-8a2e-4c8b-9e2f-3a1d5c7b9e01';
+// Read: the host's BleLobbyInfo as JSON. Notify: a one-byte change counter, since the JSON outgrows a notification
+export const BLE_LOBBY_CHARACTERISTIC_UUID = '6d6c7601-8a2e-4c8b-9e2f-3a1d5c7b9e01';
+// Write + notify: join handshake, framed
+export const BLE_JOIN_CHARACTERISTIC_UUID = '6d6c7602-8a2e-4c8b-9e2f-3a1d5c7b9e01';
+// Write without response: framed messages from the joined player to the host
+export const BLE_DATA_IN_CHARACTERISTIC_UUID = '6d6c7603-8a2e-4c8b-9e2f-3a1d5c7b9e01';
+// Notify: framed messages from the host to the joined player
+export const BLE_DATA_OUT_CHARACTERISTIC_UUID = '6d6c7604-8a2e-4c8b-9e2f-3a1d5c7b9e01';
+
+// Every link starts at the spec minimum until the host reports what it negotiated
+export const BLE_DEFAULT_ATT_MTU = 23;
+export const BLE_MAX_ATT_MTU = 517;
+export const BLE_MAX_MESSAGE_LENGTH = 65535;
+// Longest value a single GATT read may return
+export const BLE_MAX_LOBBY_LENGTH = 512;
+
+const ATT_HEADER_LENGTH = 3;
+const FRAGMENT_HEADER_LENGTH = 2;
+const LENGTH_FIELD_LENGTH = 2;
+const FLAG_FIRST = 0x80;
+const FLAG_LAST = 0x40;
+const MESSAGE_ID_MASK = 0x3f;
+
+export class BleProtocolError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BleProtocolError';
+  }
+}
+
+export interface BleLobbyInfo {
+  protocolVersion: number;
+  hostName: string;
+  gameId: string;
+  gameName: string;
+  playerCount: number;
+  maxPlayers: number;
+  // Base64url Ed25519 key the host signs join tokens with, so a token's holder can find this host
+  hostKey?: string;
+}
+
+export interface BlePlayer {
+  playerId: string;
+  playerName: string;
+  slot: number;
+}
+
+export type BleMessage =
+  // mtu is the largest ATT MTU the joining side can take
+  | { type: 'join'; protocolVersion: number; playerId: string; playerName: string; mtu: number }
+  // mtu is what the host negotiated for this link; both sides fragment to it from here on
+  | { type: 'joinAccepted'; slot: number; mtu: number; players: BlePlayer[] }
+  | { type: 'joinRejected'; reason: string }
+  | { type: 'leave' }
+  | { type: 'players'; players: BlePlayer[] }
+  // from is filled in by the host when it relays one player's message to the others
+  | { type: 'game'; from?: string; payload: unknown }
+  | { type: 'ping'; at: number }
+  | { type: 'pong'; at: number };
+
+// One characteristic on a connected peripheral
+export interface BleCharacteristic {
+  read(): Promise<Uint8Array>;
+  write(data: Uint8Array): Promise<void>;
+  // Resolves once notifications are on; the returned function turns them off
+  subscribe(handler: (data: Uint8Array) => void): Promise<() => void>;
+}
+
+// A connected GATT server exposing the game service, from Web Bluetooth or a simulation
+export interface BleGattLink {
+  getCharacteristic(uuid: string): Promise<BleCharacteristic>;
+  // Returns an unsubscribe function
+  onDisconnect(handler: () => void): () => void;
+  disconnect(): void;
+}
+
+const textEncoder = new TextEncoder();
+const textDecoder = new TextDecoder();
+
+export function encodeLobbyInfo(info: BleLobbyInfo) {
+  const data = textEncoder.encode(JSON.stringify(info));
+  if (data.length > BLE_MAX_LOBBY_LENGTH) {
+    throw new BleProtocolError(`Lobby info is ${data.length} bytes; the limit is ${BLE_MAX_LOBBY_LENGTH}`);
+  }
+  return data;
+}
+
+export function decodeLobbyInfo(data: Uint8Array): BleLobbyInfo {
+  const info = parseJson(data);
+  if (
+    typeof info?.protocolVersion !== 'number' ||
+    typeof info.hostName !== 'string' ||
+    typeof info.gameId !== 'string' ||
+    typeof info.gameName !== 'string' ||
+    typeof info.playerCount !== 'number' ||
+    typeof info.maxPlayers !== 'number' ||
+    (info.hostKey !== undefined && typeof info.hostKey !== 'string')
+  ) {
+    throw new BleProtocolError('Invalid lobby info');
+  }
+  return {
+    protocolVersion: info.protocolVersion,
+    hostName: info.hostName,
+    gameId: info.gameId,
+    gameName: info.gameName,
+    playerCount: info.playerCount,
+    maxPlayers: info.maxPlayers,
+    ...(info.hostKey !== undefined ? { hostKey: info.hostKey } : {})
+  };
+}
+
+export function encodeBleMessage(message: BleMessage) {
+  const data = textEncoder.encode(JSON.stringify(message));
+  if (data.length > BLE_MAX_MESSAGE_LENGTH) {
+    throw new BleProtocolError(`Message is ${data.length} bytes; the limit is ${BLE_MAX_MESSAGE_LENGTH}`);
+  }
+  return data;
+}
+
+export function decodeBleMessage(data: Uint8Array): BleMessage {
+  const message = parseJson(data);
+  if (typeof message?.type !== 'string') {
+    throw new BleProtocolError('Invalid message');
+  }
+  return message as BleMessage;
+}
+
+// Bytes of message data that fit in one write or notification at this ATT MTU
+export function fragmentPayloadSize(mtu: number): number {
+  const clamped = Math.min(BLE_MAX_ATT_MTU, Math.max(BLE_DEFAULT_ATT_MTU, Math.floor(mtu)));
+  return clamped - ATT_HEADER_LENGTH;
+}
+
+/*
+ * Fragment layout:
+ *   u8  flags (bit 7 first, bit 6 last) | message id (bits 0-5)
+ *   u8  fragment index, wrapping at 256
+ *   u16 total message length, big-endian (first fragment only)
+ *   ... message bytes
+ */
+export function fragmentMessage(data: Uint8Array, messageId: number, mtu: number): Uint8Array[] {
+  if (data.length > BLE_MAX_MESSAGE_LENGTH) {
+    throw new BleProtocolError(`Message is ${data.length} bytes; the limit is ${BLE_MAX_MESSAGE_LENGTH}`);
+  }
+
+  const size = fragmentPayloadSize(mtu);
+  const fragments: Uint8Array[] = [];
+  let offset = 0;
+  let index = 0;
+  do {
+    const first = index === 0;
+    const header = FRAGMENT_HEADER_LENGTH + (first ? LENGTH_FIELD_LENGTH : 0);
+    const chunk = data.subarray(offset, offset + size - header);
+    offset += chunk.length;
+    const last = offset >= data.length;
+
+    const fragment = new Uint8Array(header + chunk.length);
+    fragment[0] = (first ? FLAG_FIRST : 0) | (last ? FLAG_LAST : 0) | (messageId & MESSAGE_ID_MASK);
+    fragment[1] = index & 0xff;
+    if (first) {
+      fragment[2] = data.length >> 8;
+      fragment[3] = data.length & 0xff;
+    }
+    fragment.set(chunk, header);
+    fragments.push(fragment);
+    index++;
+  } while (offset < data.length);
+
+  return fragments;
+}
+
+// Splits outgoing messages into fragments, numbering each message
+export class BleFramer {
+  private nextMessageId: number = 0;
+  private mtu: number = BLE_DEFAULT_ATT_MTU;
+
+  setMtu(mtu: number): void {
+    this.mtu = mtu;
+  }
+
+  getMtu(): number {
+    return this.mtu;
+  }
+
+  frame(message: BleMessage): Uint8Array[] {
+    const messageId = this.nextMessageId;
+    this.nextMessageId = (this.nextMessageId + 1) & MESSAGE_ID_MASK;
+    return fragmentMessage(encodeBleMessage(message), messageId, this.mtu);
+  }
+}
+
+// Rebuilds messages from fragments arriving in order on one characteristic
+export class BleReassembler {
+  private buffer: Uint8Array | null = null;
+  private received: number = 0;
+  private messageId: number = 0;
+  private nextIndex: number = 0;
+  private dropped: number = 0;
+
+  // Returns the message once its last fragment arrives; a fragment out of sequence throws and drops the partial message
+  push(fragment: Uint8Array): BleMessage | null {
+    if (fragment.length < FRAGMENT_HEADER_LENGTH) {
+      this.drop();
+      throw new BleProtocolError('Fragment too short');
+    }
+
+    const flags = fragment[0]!;
+    const messageId = flags & MESSAGE_ID_MASK;
+    const index = fragment[1]!;
+    let body: Uint8Array;
+
+    if (flags & FLAG_FIRST) {
+      if (fragment.length < FRAGMENT_HEADER_LENGTH + LENGTH_FIELD_LENGTH || index !== 0) {
+        this.drop();
+        throw new BleProtocolError('Malformed first fragment');
+      }
+      // A new message while another is unfinished means the rest of that one was lost
+      this.drop();
+      this.buffer = new Uint8Array((fragment[2]! << 8) | fragment[3]!);
+      this.messageId = messageId;
+      body = fragment.subarray(FRAGMENT_HEADER_LENGTH + LENGTH_FIELD_LENGTH);
+    } else {
+      if (!this.buffer || messageId !== this.messageId || index !== this.nextIndex) {
+        this.drop();
+        throw new BleProtocolError('Fragment out of sequence');
+      }
+      body = fragment.subarray(FRAGMENT_HEADER_LENGTH);
+    }
+
+    const buffer = this.buffer;
+    if (this.received + body.length > buffer.length) {
+      this.drop();
+      throw new BleProtocolError('Fragment overruns message length');
+    }
+    buffer.set(body, this.received);
+    this.received += body.length;
+    this.nextIndex = (index + 1) & 0xff;
+
+    if (!(flags & FLAG_LAST)) {
+      return null;
+    }
+    const complete = this.received === buffer.length;
+    this.reset();
+    if (!complete) {
+      this.dropped++;
+      throw new BleProtocolError('Message ended early');
+    }
+    return decodeBleMessage(buffer);
+  }
+
+  // Messages abandoned part way through since this reassembler was created
+  getDroppedCount(): number {
+    return this.dropped;
+  }
+
+  private drop(): void {
+    if (this.buffer) {
+      this.dropped++;
+    }
+    this.reset();
+  }
+
+  private reset(): void {
+    this.buffer = null;
+    this.received = 0;
+    this.nextIndex = 0;
+  }
+}
+
+export interface BleSessionProfile {
+  playerId: string;
+  playerName: string;
+}
+
+export interface BleGameSessionOptions {
+  requestTimeoutMs?: number;
+  // Largest ATT MTU this side accepts; Web Bluetooth negotiates up to 517 on its own
+  maxMtu?: number;
+}
+
+export interface BleJoinResult {
+  slot: number;
+  players: BlePlayer[];
+}
+
+// The joining side of a BLE game: reads the lobby, performs the handshake, then exchanges game messages
+export class BleGameSession extends EventEmitter {
+  private link: BleGattLink;
+  private profile: BleSessionProfile;
+  private requestTimeoutMs: number;
+  private maxMtu: number;
+  private characteristics: Map<string, BleCharacteristic> = new Map();
+  private framer: BleFramer = new BleFramer();
+  private unsubscribe: Array<() => void> = [];
+  // GATT allows one operation at a time per connection
+  private operations: Promise<void> = Promise.resolve();
+  private joinReply: ((message: BleMessage) => void) | null = null;
+  private players: BlePlayer[] = [];
+  private slot: number | null = null;
+  private opened: boolean = false;
+  private closed: boolean = false;
+
+  constructor(link: BleGattLink, profile: BleSessionProfile, options: BleGameSessionOptions = {}) {
+    super();
+    this.link = link;
+    this.profile = profile;
+    this.requestTimeoutMs = options.requestTimeoutMs ?? 5000;
+    this.maxMtu = options.maxMtu ?? BLE_MAX_ATT_MTU;
+  }
+
+  // Looks up the game characteristics and turns on notifications
+  async open(): Promise<void> {
+    if (this.opened) {
+      return;
+    }
+    for (const uuid of [
+      BLE_LOBBY_CHARACTERISTIC_UUID,
+      BLE_JOIN_CHARACTERISTIC_UUID,
+      BLE_DATA_IN_CHARACTERISTIC_UUID,
+      BLE_DATA_OUT_CHARACTERISTIC_UUID
+    ]) {
+      this.characteristics.set(uuid, await this.link.getCharacteristic(uuid));
+    }
+
+    const joinReassembler = new BleReassembler();
+    const dataReassembler = new BleReassembler();
+    this.unsubscribe.push(
+      await this.characteristic(BLE_LOBBY_CHARACTERISTIC_UUID).subscribe(() => this.handleLobbyChanged()),
+      await this.characteristic(BLE_JOIN_CHARACTERISTIC_UUID).subscribe(data => this.receive(joinReassembler, data)),
+      await this.characteristic(BLE_DATA_OUT_CHARACTERISTIC_UUID).subscribe(data => this.receive(dataReassembler, data)),
+      this.link.onDisconnect(() => this.handleDisconnect())
+    );
+    this.opened = true;
+  }
+
+  async readLobby(): Promise<BleLobbyInfo> {
+    await this.open();
+    const characteristic = this.characteristic(BLE_LOBBY_CHARACTERISTIC_UUID);
+    const data = await this.enqueue(() => characteristic.read());
+    return decodeLobbyInfo(data);
+  }
+
+  async join(): Promise<BleJoinResult> {
+    await this.open();
+    if (this.slot !== null) {
+      return { slot: this.slot, players: this.players };
+    }
+
+    const reply = new Promise<BleMessage>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.joinReply = null;
+        reject(new BleProtocolError('Host did not answer the join request'));
+      }, this.requestTimeoutMs);
+      this.joinReply = message => {
+        clearTimeout(timer);
+        this.joinReply = null;
+        resolve(message);
+      };
+    });
+    await this.write(BLE_JOIN_CHARACTERISTIC_UUID, {
+      type: 'join',
+      protocolVersion: BLE_PROTOCOL_VERSION,
+      playerId: this.profile.playerId,
+      playerName: this.profile.playerName,
+      mtu: this.maxMtu
+    });
+
+    const message = await reply;
+    if (message.type === 'joinRejected') {
+      throw new BleProtocolError(message.reason);
+    }
+    if (message.type !== 'joinAccepted') {
+      throw new BleProtocolError(`Unexpected join reply: ${message.type}`);
+    }
+    this.framer.setMtu(Math.min(message.mtu, this.maxMtu));
+    this.slot = message.slot;
+    this.players = message.players;
+    return { slot: message.slot, players: message.players };
+  }
+
+  async send(payload: unknown): Promise<void> {
+    if (this.slot === null) {
+      throw new BleProtocolError('Join the game before sending');
+    }
+    await this.write(BLE_DATA_IN_CHARACTERISTIC_UUID, { type: 'game', payload });
+  }
+
+  async leave(): Promise<void> {
+    if (this.slot !== null && !this.closed) {
+      this.slot = null;
+      await this.write(BLE_JOIN_CHARACTERISTIC_UUID, { type: 'leave' }).catch(() => undefined);
+    }
+  }
+
+  close(): void {
+    if (this.closed) {
+      return;
+    }
+    this.unsubscribe.forEach(unsubscribe => unsubscribe());
+    this.unsubscribe = [];
+    this.link.disconnect();
+    this.handleDisconnect();
+  }
+
+  getPlayers(): BlePlayer[] {
+    return this.players;
+  }
+
+  getSlot(): number | null {
+    return this.slot;
+  }
+
+  getMtu(): number {
+    return this.framer.getMtu();
+  }
+
+  isJoined(): boolean {
+    return this.slot !== null && !this.closed;
+  }
+
+  private write(uuid: string, message: BleMessage): Promise<void> {
+    const fragments = this.framer.frame(message);
+    const characteristic = this.characteristic(uuid);
+    return this.enqueue(async () => {
+      for (const fragment of fragments) {
+        await characteristic.write(fragment);
+      }
+    });
+  }
+
+  private enqueue<T>(operation: () => Promise<T>): Promise<T> {
+    const result = this.operations.then(operation);
+    this.operations = result.then(() => undefined, () => undefined);
+    return result;
+  }
+
+  private receive(reassembler: BleReassembler, data: Uint8Array): void {
+    let message: BleMessage | null;
+    try {
+      message = reassembler.push(data);
+    } catch (error) {
+      console.error('❌ BLE message dropped:', error);
+      this.emit('protocolError', error);
+      return;
+    }
+    if (!message) {
+      return;
+    }
+
+    switch (message.type) {
+      case 'joinAccepted':
+      case 'joinRejected':
+        this.joinReply?.(message);
+        break;
+      case 'players':
+        this.players = message.players;
+        this.emit('players', message.players);
+        break;
+      case 'game':
+        this.emit('message', message.payload, message.from);
+        break;
+      case 'ping':
+        this.write(BLE_DATA_IN_CHARACTERISTIC_UUID, { type: 'pong', at: message.at }).catch(() => undefined);
+        break;
+      case 'leave':
+        // The host closed the game or removed us
+        this.slot = null;
+        this.emit('left');
+        break;
+    }
+  }
+
+  private handleLobbyChanged(): void {
+    this.readLobby()
+      .then(lobby => this.emit('lobby', lobby))
+      .catch(error => console.error('❌ Failed to refresh BLE lobby:', error));
+  }
+
+  private handleDisconnect(): void {
+    if (this.closed) {
+      return;
+    }
+    this.closed = true;
+    this.slot = null;
+    this.joinReply?.({ type: 'joinRejected', reason: 'Disconnected' });
+    this.emit('disconnected');
+  }
+
+  private characteristic(uuid: string): BleCharacteristic {
+    const characteristic = this.characteristics.get(uuid);
+    if (!characteristic) {
+      throw new BleProtocolError('Session is not open');
+    }
+    return characteristic;
+  }
+}
+
+function parseJson(data: Uint8Array): any {
+  try {
+    return JSON.parse(textDecoder.decode(data));
+  } catch (error) {
+    throw new BleProtocolError('Invalid JSON');
+  }
+}
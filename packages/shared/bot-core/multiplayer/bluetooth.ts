@@ -1,13 +1,24 @@
 // Bluetooth Phone-to-Phone Discovery
 // Nintendo DS local wireless simplicity
 
+import {
+  BLE_GAME_SERVICE_UUID,
+  BleCharacteristic,
+  BleGameSession,
+  BleGattLink,
+  BleSessionProfile
+} from './bluetooth-protocol';
+
 export interface BluetoothGameDevice {
   deviceId: string;
   deviceName: string;
   gameId: string;
   gameName: string;
+  hostName: string;
   playerCount: number;
   maxPlayers: number;
+  // Join token key the host advertises; null when it advertises none
+  hostKey: string | null;
   signalStrength: number;
   distance: number;
   lastSeen: number;
@@ -22,12 +33,62 @@ export interface BluetoothGameData {
   timestamp: number;
 }
 
+// Binds a Web Bluetooth device to the transport-independent BleGattLink
+export async function connectWebBluetooth(device: BluetoothDevice): Promise<BleGattLink> {
+  if (!device.gatt) {
+    throw new Error('Device has no GATT server');
+  }
+  const server = await device.gatt.connect();
+  const service = await server.getPrimaryService(BLE_GAME_SERVICE_UUID);
+
+  return {
+    getCharacteristic: async (uuid: string): Promise<BleCharacteristic> => {
+      const characteristic = await service.getCharacteristic(uuid);
+      return {
+        read: async () => {
+          const value = await characteristic.readValue();
+          return new Uint8Array(value.buffer.slice(value.byteOffset, value.byteOffset + value.byteLength));
+        },
+        write: async data => {
+          if (characteristic.properties.writeWithoutResponse) {
+            await characteristic.writeValueWithoutResponse(data);
+          } else {
+            await characteristic.writeValueWithResponse(data);
+          }
+        },
+        subscribe: async handler => {
+          const listener = (event: Event) => {
+            const value = (event.target as BluetoothRemoteGATTCharacteristic).value;
+            if (value) {
+              handler(new Uint8Array(value.buffer.slice(value.byteOffset, value.byteOffset + value.byteLength)));
+            }
+          };
+          characteristic.addEventListener('characteristicvaluechanged', listener);
+          await characteristic.startNotifications();
+          return () => {
+            characteristic.removeEventListener('characteristicvaluechanged', listener);
+            characteristic.stopNotifications().catch(() => undefined);
+          };
+        }
+      };
+    },
+    onDisconnect: handler => {
+      device.addEventListener('gattserverdisconnected', handler);
+      return () => device.removeEventListener('gattserverdisconnected', handler);
+    },
+    disconnect: () => device.gatt?.disconnect()
+  };
+}
+
 export class BluetoothGameDiscovery {
   private devices: Map<string, BluetoothGameDevice> = new Map();
+  private sessions: Map<string, BleGameSession> = new Map();
+  private profile: BleSessionProfile;
   private isDiscovering: boolean = false;
   private discoveryInterval: number | null = null;
 
-  constructor() {
+  constructor(profile: BleSessionProfile = { playerId: Math.random().toString(36).substr(2, 9), playerName: 'Player' }) {
+    this.profile = profile;
     this.checkBluetoothSupport();
   }
 
@@ -47,11 +108,12 @@ export class BluetoothGameDiscovery {
       // Start Bluetooth discovery
       const device = await navigator.bluetooth.requestDevice({
         filters: [
+          { services: [BLE_GAME_SERVICE_UUID] },
           { name: 'gunnchAI3k Hub' },
-          { namePrefix: 'gunnchAI3k' },
-          { namePrefix: 'gunnchAI3k-' }
+          { namePrefix: 'gunnchAI3k' }
         ],
         optionalServices: [
+          BLE_GAME_SERVICE_UUID,
           '0000180f-0000-1000-8000-00805f9b34fb', // Battery service
           '0000180a-0000-1000-8000-00805f9b34fb'  // Device info service
         ]
@@ -92,74 +154,88 @@ export class BluetoothGameDiscovery {
     }
   }
 
+  // Web Bluetooth cannot scan passively, so refresh the lobbies of hosts we are connected to
   private async updateDeviceList(): Promise<void> {
-    // Update device list with current scan results
-    // This would typically involve scanning for specific service UUIDs
-    // and updating the devices map with new discoveries
+    for (const [deviceId, session] of this.sessions) {
+      const device = this.devices.get(deviceId);
+      try {
+        const lobby = await session.readLobby();
+        if (device) {
+          device.playerCount = lobby.playerCount;
+          device.maxPlayers = lobby.maxPlayers;
+          device.lastSeen = Date.now();
+        }
+      } catch (error) {
+        console.error('❌ Bluetooth lobby refresh failed:', error);
+      }
+    }
   }
 
   async connectToDevice(device: BluetoothDevice): Promise<boolean> {
     try {
-      const server = await device.gatt?.connect();
-      
-      if (server) {
-        const service = await server.getPrimaryService('0000180f-0000-1000-8000-00805f9b34fb');
-        
-        // Start game connection
-        await this.startGameConnection(device);
-        return true;
-      }
-      
-      return false;
+      await this.startGameConnection(device.id, device.name || 'Unknown Device', await connectWebBluetooth(device));
+      return true;
     } catch (error) {
       console.error('❌ Bluetooth connection failed:', error);
       return false;
     }
   }
 
-  private async startGameConnection(device: BluetoothDevice): Promise<void> {
-    const gameData: BluetoothGameData = {
-      connectionType: 'bluetooth',
-      deviceId: device.id,
-      deviceName: device.name || 'Unknown Device',
-      gameId: 'anime-aggressors', // Default game
-      gameName: 'Anime Aggressors',
-      timestamp: Date.now()
-    };
+  // Reads the host's lobby over any BleGattLink; tests pass one from SimulatedBlePeripheral
+  async startGameConnection(deviceId: string, deviceName: string, link: BleGattLink): Promise<BluetoothGameDevice> {
+    this.sessions.get(deviceId)?.close();
+    const session = new BleGameSession(link, this.profile);
+    this.sessions.set(deviceId, session);
+    session.on('disconnected', () => {
+      if (this.sessions.get(deviceId) === session) {
+        this.sessions.delete(deviceId);
+        this.devices.delete(deviceId);
+      }
+    });
 
-    // Store device info
+    let lobby;
+    try {
+      lobby = await session.readLobby();
+    } catch (error) {
+      session.close();
+      throw error;
+    }
     const deviceInfo: BluetoothGameDevice = {
-      deviceId: device.id,
-      deviceName: device.name || 'Unknown Device',
-      gameId: gameData.gameId,
-      gameName: gameData.gameName,
-      playerCount: 1,
-      maxPlayers: 4,
-      signalStrength: 100, // Assume strong signal
+      deviceId,
+      deviceName,
+      gameId: lobby.gameId,
+      gameName: lobby.gameName,
+      hostName: lobby.hostName,
+      playerCount: lobby.playerCount,
+      maxPlayers: lobby.maxPlayers,
+      hostKey: lobby.hostKey ?? null,
+      signalStrength: 100, // Web Bluetooth does not report RSSI for connected devices
       distance: 0, // Unknown distance
       lastSeen: Date.now()
     };
+    this.devices.set(deviceId, deviceInfo);
+    session.on('lobby', update => {
+      deviceInfo.playerCount = update.playerCount;
+      deviceInfo.maxPlayers = update.maxPlayers;
+      deviceInfo.lastSeen = Date.now();
+    });
 
-    this.devices.set(device.id, deviceInfo);
-    
-    console.log('📡 Bluetooth game connection started:', gameData.gameName);
+    console.log('📡 Bluetooth game connection started:', lobby.gameName);
+    return deviceInfo;
   }
 
   async joinGame(deviceId: string): Promise<boolean> {
     const device = this.devices.get(deviceId);
+    const session = this.sessions.get(deviceId);
     
-    if (!device) {
+    if (!device || !session) {
       throw new Error('Device not found');
     }
 
     try {
-      // Start game connection
-      await this.startGameConnection({
-        id: deviceId,
-        name: device.deviceName
-      } as BluetoothDevice);
+      const result = await session.join();
 
-      console.log('🎮 Joined game via Bluetooth:', device.gameName);
+      console.log('🎮 Joined game via Bluetooth:', device.gameName, `(slot ${result.slot})`);
       return true;
     } catch (error) {
       console.error('❌ Bluetooth game join failed:', error);
@@ -167,6 +243,26 @@ export class BluetoothGameDiscovery {
     }
   }
 
+  // The joined session, for exchanging game messages with the host
+  getSession(deviceId: string): BleGameSession | null {
+    return this.sessions.get(deviceId) ?? null;
+  }
+
+  getGameData(deviceId: string): BluetoothGameData | null {
+    const device = this.devices.get(deviceId);
+    if (!device) {
+      return null;
+    }
+    return {
+      connectionType: 'bluetooth',
+      deviceId,
+      deviceName: device.deviceName,
+      gameId: device.gameId,
+      gameName: device.gameName,
+      timestamp: device.lastSeen
+    };
+  }
+
   async stopDiscovery(): Promise<void> {
     this.isDiscovering = false;
     
@@ -195,6 +291,8 @@ export class BluetoothGameDiscovery {
   }
 
   clearDevices(): void {
+    this.sessions.forEach(session => session.close());
+    this.sessions.clear();
     this.devices.clear();
   }
 }
@@ -0,0 +1,334 @@
+// DNS Packet Codec
+// Just enough of RFC 1035 / 6762 to speak mDNS service discovery (PTR, SRV, TXT, A)
+
+export const DNS_TYPE_A = 1;
+export const DNS_TYPE_PTR = 12;
+export const DNS_TYPE_TXT = 16;
+export const DNS_TYPE_SRV = 33;
+export const DNS_TYPE_ANY = 255;
+
+const DNS_CLASS_IN = 1;
+// Top bit of the class: "unicast response wanted" on questions, "cache flush" on records
+const CLASS_FLAG = 0x8000;
+const FLAG_RESPONSE = 0x8000;
+const FLAG_AUTHORITATIVE = 0x0400;
+const HEADER_SIZE = 12;
+
+export interface DnsQuestion {
+  name: string;
+  type: number;
+}
+
+export interface SrvData {
+  priority: number;
+  weight: number;
+  port: number;
+  target: string;
+}
+
+export type DnsRecord =
+  | { name: string; type: typeof DNS_TYPE_A; ttl: number; flush?: boolean; data: string }
+  | { name: string; type: typeof DNS_TYPE_PTR; ttl: number; flush?: boolean; data: string }
+  | { name: string; type: typeof DNS_TYPE_TXT; ttl: number; flush?: boolean; data: Record<string, string> }
+  | { name: string; type: typeof DNS_TYPE_SRV; ttl: number; flush?: boolean; data: SrvData };
+
+export interface DnsPacket {
+  id: number;
+  response: boolean;
+  questions: DnsQuestion[];
+  answers: DnsRecord[];
+  additionals: DnsRecord[];
+}
+
+class PacketWriter {
+  private bytes: number[] = [];
+
+  u8(value: number): void {
+    this.bytes.push(value & 0xff);
+  }
+
+  u16(value: number): void {
+    this.bytes.push((value >> 8) & 0xff, value & 0xff);
+  }
+
+  u32(value: number): void {
+    this.u16(Math.floor(value / 0x10000) & 0xffff);
+    this.u16(value & 0xffff);
+  }
+
+  raw(data: Uint8Array | number[]): void {
+    for (const byte of data) {
+      this.bytes.push(byte);
+    }
+  }
+
+  // Names are written uncompressed; mDNS packets for a handful of records stay far below the MTU
+  name(name: string): void {
+    for (const label of name.split('.').filter(part => part.length > 0)) {
+      const encoded = new TextEncoder().encode(label);
+      if (encoded.length > 63) {
+        throw new Error(`DNS label too long: ${label}`);
+      }
+      this.u8(encoded.length);
+      this.raw(encoded);
+    }
+    this.u8(0);
+  }
+
+  get length(): number {
+    return this.bytes.length;
+  }
+
+  patchU16(offset: number, value: number): void {
+    this.bytes[offset] = (value >> 8) & 0xff;
+    this.bytes[offset + 1] = value & 0xff;
+  }
+
+  toBytes(): Uint8Array {
+    return Uint8Array.from(this.bytes);
+  }
+}
+
+class PacketReader {
+  private data: Uint8Array;
+  private view: DataView;
+  offset = 0;
+
+  constructor(data: Uint8Array) {
+    this.data = data;
+    this.view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  }
+
+  u8(): number {
+    this.ensure(1);
+    return this.view.getUint8(this.offset++);
+  }
+
+  u16(): number {
+    this.ensure(2);
+    const value = this.view.getUint16(this.offset);
+    this.offset += 2;
+    return value;
+  }
+
+  u32(): number {
+    this.ensure(4);
+    const value = this.view.getUint32(this.offset);
+    this.offset += 4;
+    return value;
+  }
+
+  bytes(length: number): Uint8Array {
+    this.ensure(length);
+    const value = this.data.subarray(this.offset, this.offset + length);
+    this.offset += length;
+    return value;
+  }
+
+  // Follows compression pointers; the hop limit stops pointer loops in hostile packets
+  name(): string {
+    const labels: string[] = [];
+    let cursor = this.offset;
+    let jumped = false;
+
+    for (let hops = 0; hops < 128; hops++) {
+      if (cursor >= this.data.length) {
+        throw new Error('DNS name runs past the end of the packet');
+      }
+      const length = this.data[cursor]!;
+      if (length === 0) {
+        if (!jumped) {
+          this.offset = cursor + 1;
+        }
+        return labels.join('.');
+      }
+      if ((length & 0xc0) === 0xc0) {
+        if (cursor + 1 >= this.data.length) {
+          throw new Error('Truncated DNS name pointer');
+        }
+        if (!jumped) {
+          this.offset = cursor + 2;
+        }
+        cursor = ((length & 0x3f) << 8) | this.data[cursor + 1]!;
+        jumped = true;
+        continue;
+      }
+      if (cursor + 1 + length > this.data.length) {
+        throw new Error('DNS label runs past the end of the packet');
+      }
+      labels.push(new TextDecoder().decode(this.data.subarray(cursor + 1, cursor + 1 + length)));
+      cursor += 1 + length;
+    }
+
+    throw new Error('Too many DNS name compression hops');
+  }
+
+  private ensure(length: number): void {
+    if (this.offset + length > this.data.length) {
+      throw new Error('DNS packet is truncated');
+    }
+  }
+}
+
+export function encodeTxt(entries: Record<string, string>): Uint8Array {
+  const writer = new PacketWriter();
+  for (const [key, value] of Object.entries(entries)) {
+    const entry = new TextEncoder().encode(`${key}=${value}`);
+    if (entry.length > 255) {
+      throw new Error(`TXT entry "${key}" is longer than 255 bytes`);
+    }
+    writer.u8(entry.length);
+    writer.raw(entry);
+  }
+  // An empty TXT record still carries one zero-length string
+  if (writer.length === 0) {
+    writer.u8(0);
+  }
+  return writer.toBytes();
+}
+
+export function decodeTxt(data: Uint8Array): Record<string, string> {
+  const entries: Record<string, string> = {};
+  let offset = 0;
+  while (offset < data.length) {
+    const length = data[offset]!;
+    const entry = new TextDecoder().decode(data.subarray(offset + 1, offset + 1 + length));
+    offset += 1 + length;
+    if (!entry) {
+      continue;
+    }
+    const separator = entry.indexOf('=');
+    const key = (separator === -1 ? entry : entry.slice(0, separator)).toLowerCase();
+    // The first occurrence of a key wins (RFC 6763 section 6.4)
+    if (!(key in entries)) {
+      entries[key] = separator === -1 ? '' : entry.slice(separator + 1);
+    }
+  }
+  return entries;
+}
+
+function writeRecord(writer: PacketWriter, record: DnsRecord): void {
+  writer.name(record.name);
+  writer.u16(record.type);
+  writer.u16(DNS_CLASS_IN | (record.flush ? CLASS_FLAG : 0));
+  writer.u32(record.ttl);
+
+  const lengthOffset = writer.length;
+  writer.u16(0);
+  const start = writer.length;
+  switch (record.type) {
+    case DNS_TYPE_A:
+      writer.raw(record.data.split('.').map(part => parseInt(part, 10)));
+      break;
+    case DNS_TYPE_PTR:
+      writer.name(record.data);
+      break;
+    case DNS_TYPE_TXT:
+      writer.raw(encodeTxt(record.data));
+      break;
+    case DNS_TYPE_SRV:
+      writer.u16(record.data.priority);
+      writer.u16(record.data.weight);
+      writer.u16(record.data.port);
+      writer.name(record.data.target);
+      break;
+  }
+  writer.patchU16(lengthOffset, writer.length - start);
+}
+
+// Unknown record types come back as null and are skipped by the caller
+function readRecord(reader: PacketReader): DnsRecord | null {
+  const name = reader.name();
+  const type = reader.u16();
+  const recordClass = reader.u16();
+  const ttl = reader.u32();
+  const length = reader.u16();
+  const end = reader.offset + length;
+  const flush = (recordClass & CLASS_FLAG) !== 0;
+
+  let record: DnsRecord | null = null;
+  switch (type) {
+    case DNS_TYPE_A:
+      record = { name, type, ttl, flush, data: Array.from(reader.bytes(4)).join('.') };
+      break;
+    case DNS_TYPE_PTR:
+      record = { name, type, ttl, flush, data: reader.name() };
+      break;
+    case DNS_TYPE_TXT:
+      record = { name, type, ttl, flush, data: decodeTxt(reader.bytes(length)) };
+      break;
+    case DNS_TYPE_SRV:
+      record = {
+        name,
+        type,
+        ttl,
+        flush,
+        data: { priority: reader.u16(), weight: reader.u16(), port: reader.u16(), target: reader.name() }
+      };
+      break;
+  }
+
+  reader.offset = end;
+  return record;
+}
+
+export function encodeDnsPacket(packet: DnsPacket): Uint8Array {
+  const writer = new PacketWriter();
+  writer.u16(packet.id);
+  writer.u16(packet.response ? FLAG_RESPONSE | FLAG_AUTHORITATIVE : 0);
+  writer.u16(packet.questions.length);
+  writer.u16(packet.answers.length);
+  writer.u16(0);
+  writer.u16(packet.additionals.length);
+
+  for (const question of packet.questions) {
+    writer.name(question.name);
+    writer.u16(question.type);
+    writer.u16(DNS_CLASS_IN);
+  }
+  packet.answers.forEach(record => writeRecord(writer, record));
+  packet.additionals.forEach(record => writeRecord(writer, record));
+  return writer.toBytes();
+}
+
+export function decodeDnsPacket(data: Uint8Array): DnsPacket {
+  if (data.length < HEADER_SIZE) {
+    throw new Error('DNS packet is shorter than its header');
+  }
+
+  const reader = new PacketReader(data);
+  const id = reader.u16();
+  const flags = reader.u16();
+  const counts = [reader.u16(), reader.u16(), reader.u16(), reader.u16()];
+
+  const questions: DnsQuestion[] = [];
+  for (let i = 0; i < counts[0]!; i++) {
+    const name = reader.name();
+    const type = reader.u16();
+    reader.u16();
+    questions.push({ name, type });
+  }
+
+  const sections: DnsRecord[][] = [[], [], []];
+  for (let section = 0; section < 3; section++) {
+    for (let i = 0; i < counts[section + 1]!; i++) {
+      const record = readRecord(reader);
+      if (record) {
+        sections[section]!.push(record);
+      }
+    }
+  }
+
+  return {
+    id,
+    response: (flags & FLAG_RESPONSE) !== 0,
+    questions,
+    answers: sections[0]!,
+    // Authority records only matter for probing, which we do not do; fold them in with additionals
+    additionals: [...sections[1]!, ...sections[2]!]
+  };
+}
+
+export function sameDnsName(a: string, b: string): boolean {
+  return a.toLowerCase() === b.toLowerCase();
+}
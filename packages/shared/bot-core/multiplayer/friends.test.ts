@@ -0,0 +1,69 @@
+import { DatabaseManager, FriendLink } from '../core/database';
+import { FriendService } from './friends';
+
+// Just the friend_links calls, with a hop per query like the sqlite driver
+const createLinkStore = () => {
+  const links = new Map<string, FriendLink>();
+  const key = (playerId: string, friendId: string) => `${playerId}->${friendId}`;
+  const hop = () => new Promise(resolve => setTimeout(resolve, 0));
+
+  const db = {
+    getFriendLink: async (playerId: string, friendId: string) => {
+      await hop();
+      return links.get(key(playerId, friendId)) ?? null;
+    },
+    saveFriendLink: async (link: FriendLink) => {
+      await hop();
+      links.set(key(link.playerId, link.friendId), link);
+    },
+    deleteFriendLink: async (playerId: string, friendId: string) => {
+      await hop();
+      links.delete(key(playerId, friendId));
+    },
+    getPresence: async () => []
+  };
+  return { db: db as unknown as DatabaseManager, links };
+};
+
+describe('FriendService', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('makes friends when both players send a request at the same time', async () => {
+    const { db, links } = createLinkStore();
+    const friends = new FriendService(db);
+    const added = jest.fn();
+    friends.on('friendAdded', added);
+
+    const results = await Promise.all([
+      friends.sendRequest('ann', 'ben', 'nfc'),
+      friends.sendRequest('ben', 'ann', 'nfc')
+    ]);
+
+    expect(results).toEqual(['pending', 'accepted']);
+    expect(links.get('ann->ben')?.status).toBe('accepted');
+    expect(links.get('ben->ann')?.status).toBe('accepted');
+    expect(added).toHaveBeenCalledTimes(1);
+  });
+
+  it('accepts a request only once when it is confirmed twice at the same time', async () => {
+    const { db } = createLinkStore();
+    const friends = new FriendService(db);
+    const added = jest.fn();
+    friends.on('friendAdded', added);
+    await friends.sendRequest('ann', 'ben');
+
+    const results = await Promise.all([
+      friends.acceptRequest('ben', 'ann'),
+      friends.sendRequest('ben', 'ann')
+    ]);
+
+    expect(results).toEqual([true, 'accepted']);
+    expect(added).toHaveBeenCalledTimes(1);
+  });
+});
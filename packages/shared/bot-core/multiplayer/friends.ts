@@ -0,0 +1,317 @@
+// Friend Graph & Presence
+// Friendships made over PictoChat or NFC taps, stored in the bot database
+
+import { EventEmitter } from 'events';
+import { DatabaseManager, FriendLink, FriendStatus, PlayerPresence } from '../core/database';
+import { NFCFriendProfile } from './nfc';
+import { NearbyPlayer } from './pictochat-protocol';
+import type { PictoChatServer } from './pictochat-server';
+
+export type FriendSource = 'pictochat' | 'nfc';
+
+export interface Friend extends NFCFriendProfile {
+  via: string;
+  friendsSince: number;
+}
+
+export interface FriendRequest {
+  playerId: string;
+  playerName: string;
+  via: string;
+  requestedAt: number;
+}
+
+export interface PlayingNow {
+  playerId: string;
+  playerName: string;
+  avatar: string;
+  games: string[];
+  lastSeen: number;
+}
+
+export interface FriendServiceOptions {
+  // Online players not heard from for this long are treated as offline
+  presenceTtlMs?: number;
+  // How often watchHub refreshes the players it can see
+  heartbeatMs?: number;
+}
+
+export class FriendService extends EventEmitter {
+  private db: DatabaseManager;
+  private presenceTtlMs: number;
+  private heartbeatMs: number;
+  // Tail of the request queue for each pair of players, keyed by both ids in sorted order
+  private pairQueues: Map<string, Promise<unknown>> = new Map();
+
+  constructor(db: DatabaseManager, options: FriendServiceOptions = {}) {
+    super();
+    this.db = db;
+    this.presenceTtlMs = options.presenceTtlMs ?? 3 * 60000;
+    this.heartbeatMs = options.heartbeatMs ?? 60000;
+  }
+
+  // A request towards someone who already asked us is the confirmation, so two NFC taps make friends
+  async sendRequest(fromId: string, toId: string, via: FriendSource = 'pictochat'): Promise<FriendStatus | null> {
+    if (!fromId || !toId || fromId === toId) {
+      return null;
+    }
+    // Both sides of a tap report at once; queued per pair, the second request sees the first and confirms it
+    return this.queueForPair(fromId, toId, () => this.applyRequest(fromId, toId, via));
+  }
+
+  async acceptRequest(playerId: string, requesterId: string): Promise<boolean> {
+    return this.queueForPair(playerId, requesterId, async () => {
+      const request = await this.db.getFriendLink(requesterId, playerId);
+      if (request?.status !== 'pending') {
+        return false;
+      }
+      await this.link(requesterId, playerId, request.via, new Date());
+      return true;
+    });
+  }
+
+  async declineRequest(playerId: string, requesterId: string): Promise<boolean> {
+    const request = await this.db.getFriendLink(requesterId, playerId);
+    if (request?.status !== 'pending') {
+      return false;
+    }
+    await this.db.deleteFriendLink(requesterId, playerId);
+    return true;
+  }
+
+  async removeFriend(playerId: string, friendId: string): Promise<boolean> {
+    const link = await this.db.getFriendLink(playerId, friendId);
+    if (link?.status !== 'accepted') {
+      return false;
+    }
+    await Promise.all([
+      this.db.deleteFriendLink(playerId, friendId),
+      this.db.deleteFriendLink(friendId, playerId)
+    ]);
+    this.emit('friendRemoved', playerId, friendId);
+    return true;
+  }
+
+  // Ends any friendship and drops requests both ways; only the blocker's side remembers it
+  async block(playerId: string, targetId: string): Promise<void> {
+    const existing = await this.db.getFriendLink(playerId, targetId);
+    const now = new Date();
+    await this.db.deleteFriendLink(targetId, playerId);
+    await this.db.saveFriendLink({
+      playerId,
+      friendId: targetId,
+      status: 'blocked',
+      via: existing?.via ?? 'pictochat',
+      createdAt: existing?.createdAt ?? now,
+      updatedAt: now
+    });
+    if (existing?.status === 'accepted') {
+      this.emit('friendRemoved', playerId, targetId);
+    }
+  }
+
+  async unblock(playerId: string, targetId: string): Promise<boolean> {
+    const link = await this.db.getFriendLink(playerId, targetId);
+    if (link?.status !== 'blocked') {
+      return false;
+    }
+    await this.db.deleteFriendLink(playerId, targetId);
+    return true;
+  }
+
+  async getBlocked(playerId: string): Promise<string[]> {
+    return (await this.db.getFriendLinks(playerId, 'blocked')).map(link => link.friendId);
+  }
+
+  async getFriends(playerId: string): Promise<Friend[]> {
+    const links = await this.db.getFriendLinks(playerId, 'accepted');
+    const presence = await this.presenceById(links.map(link => link.friendId));
+
+    return links.map(link => ({
+      ...this.toProfile(link.friendId, presence.get(link.friendId)),
+      via: link.via,
+      friendsSince: link.createdAt.getTime()
+    }));
+  }
+
+  async getIncomingRequests(playerId: string): Promise<FriendRequest[]> {
+    return this.toRequests(await this.db.getFriendLinks(playerId, 'pending', true), link => link.playerId);
+  }
+
+  async getOutgoingRequests(playerId: string): Promise<FriendRequest[]> {
+    return this.toRequests(await this.db.getFriendLinks(playerId, 'pending'), link => link.friendId);
+  }
+
+  // Friends who are online with a game running, optionally only those in gameId
+  async getFriendsPlayingNow(playerId: string, gameId?: string): Promise<PlayingNow[]> {
+    const friendIds = (await this.db.getFriendLinks(playerId, 'accepted')).map(link => link.friendId);
+    return this.playing(await this.db.getPresence(friendIds), gameId);
+  }
+
+  async getPlayingNow(gameId?: string): Promise<PlayingNow[]> {
+    return this.playing(await this.db.getPresence(), gameId);
+  }
+
+  // What we would hand to NFCGameSharing.shareFriendProfile for this player
+  async getProfile(playerId: string): Promise<NFCFriendProfile | null> {
+    const presence = (await this.presenceById([playerId])).get(playerId);
+    return presence ? this.toProfile(playerId, presence) : null;
+  }
+
+  // Called with the profile readFriendProfile() returned on readerId's device
+  async recordNfcExchange(readerId: string, profile: NFCFriendProfile): Promise<FriendStatus | null> {
+    const known = (await this.presenceById([profile.userId])).get(profile.userId);
+    await this.db.savePresence({
+      playerId: profile.userId,
+      playerName: profile.username,
+      avatar: profile.avatar,
+      games: profile.games,
+      // A tag we just read proves the player is here, whatever the tag says
+      online: true,
+      lastSeen: new Date(Math.max(Date.now(), known?.lastSeen.getTime() ?? 0))
+    });
+    return this.sendRequest(readerId, profile.userId, 'nfc');
+  }
+
+  async updatePresence(player: NearbyPlayer): Promise<void> {
+    await this.db.savePresence({
+      playerId: player.playerId,
+      playerName: player.playerName,
+      avatar: player.avatar,
+      games: player.games,
+      online: player.online,
+      lastSeen: new Date(player.online ? Date.now() : player.lastSeen)
+    });
+    this.emit('presence', player);
+  }
+
+  // Mirrors hub presence into the database and turns PictoChat friend requests into pending links
+  watchHub(hub: PictoChatServer): () => void {
+    const handlePresence = (player: NearbyPlayer) => {
+      this.updatePresence(player).catch(error => {
+        console.error('❌ Failed to save presence:', error);
+        this.emit('error', error);
+      });
+    };
+    const handleDirect = (fromId: string, toId: string, message: { messageType: string }) => {
+      if (message.messageType !== 'friend_request') {
+        return;
+      }
+      this.sendRequest(fromId, toId, 'pictochat').catch(error => {
+        console.error('❌ Failed to save friend request:', error);
+        this.emit('error', error);
+      });
+    };
+
+    hub.on('playerOnline', handlePresence);
+    hub.on('playerOffline', handlePresence);
+    hub.on('playerUpdated', handlePresence);
+    hub.on('direct', handleDirect);
+    const heartbeat = setInterval(() => {
+      hub.getPlayers().filter(player => player.online).forEach(handlePresence);
+    }, this.heartbeatMs);
+
+    return () => {
+      clearInterval(heartbeat);
+      hub.off('playerOnline', handlePresence);
+      hub.off('playerOffline', handlePresence);
+      hub.off('playerUpdated', handlePresence);
+      hub.off('direct', handleDirect);
+    };
+  }
+
+  private async applyRequest(fromId: string, toId: string, via: FriendSource): Promise<FriendStatus | null> {
+    const [forward, reverse] = await Promise.all([
+      this.db.getFriendLink(fromId, toId),
+      this.db.getFriendLink(toId, fromId)
+    ]);
+    if (forward?.status === 'blocked') {
+      return null;
+    }
+    if (forward?.status === 'accepted') {
+      return 'accepted';
+    }
+    // Blocked players are not told; their request just never arrives
+    if (reverse?.status === 'blocked') {
+      return 'pending';
+    }
+
+    const now = new Date();
+    if (reverse?.status === 'pending') {
+      await this.link(fromId, toId, via, now);
+      return 'accepted';
+    }
+
+    if (!forward) {
+      await this.db.saveFriendLink({ playerId: fromId, friendId: toId, status: 'pending', via, createdAt: now, updatedAt: now });
+      console.log('👤 Friend request:', fromId, '->', toId, `(${via})`);
+      this.emit('friendRequest', fromId, toId, via);
+    }
+    return 'pending';
+  }
+
+  private queueForPair<T>(playerId: string, otherId: string, task: () => Promise<T>): Promise<T> {
+    const key = [playerId, otherId].sort().join(':');
+    const result = (this.pairQueues.get(key) ?? Promise.resolve()).then(task, task);
+    const tail = result.catch(() => undefined);
+    this.pairQueues.set(key, tail);
+    tail.then(() => {
+      if (this.pairQueues.get(key) === tail) {
+        this.pairQueues.delete(key);
+      }
+    });
+    return result;
+  }
+
+  private async link(requesterId: string, accepterId: string, via: string, now: Date): Promise<void> {
+    await Promise.all([
+      this.db.saveFriendLink({ playerId: requesterId, friendId: accepterId, status: 'accepted', via, createdAt: now, updatedAt: now }),
+      this.db.saveFriendLink({ playerId: accepterId, friendId: requesterId, status: 'accepted', via, createdAt: now, updatedAt: now })
+    ]);
+    console.log('🤝 Friends:', requesterId, '&', accepterId);
+    this.emit('friendAdded', requesterId, accepterId, via);
+  }
+
+  private async toRequests(links: FriendLink[], otherId: (link: FriendLink) => string): Promise<FriendRequest[]> {
+    const presence = await this.presenceById(links.map(otherId));
+    return links.map(link => ({
+      playerId: otherId(link),
+      playerName: presence.get(otherId(link))?.playerName ?? otherId(link),
+      via: link.via,
+      requestedAt: link.createdAt.getTime()
+    }));
+  }
+
+  private playing(presence: PlayerPresence[], gameId?: string): PlayingNow[] {
+    return presence
+      .filter(player => this.isOnline(player) && player.games.length > 0)
+      .filter(player => !gameId || player.games.includes(gameId))
+      .map(player => ({
+        playerId: player.playerId,
+        playerName: player.playerName,
+        avatar: player.avatar,
+        games: player.games,
+        lastSeen: player.lastSeen.getTime()
+      }));
+  }
+
+  private async presenceById(playerIds: string[]): Promise<Map<string, PlayerPresence>> {
+    const presence = await this.db.getPresence(playerIds);
+    return new Map(presence.map(player => [player.playerId, player]));
+  }
+
+  private toProfile(playerId: string, presence: PlayerPresence | undefined): NFCFriendProfile {
+    return {
+      userId: playerId,
+      username: presence?.playerName ?? playerId,
+      avatar: presence?.avatar ?? '',
+      games: presence?.games ?? [],
+      online: presence ? this.isOnline(presence) : false,
+      lastSeen: presence?.lastSeen.getTime() ?? 0
+    };
+  }
+
+  private isOnline(presence: PlayerPresence): boolean {
+    return presence.online && Date.now() - presence.lastSeen.getTime() < this.presenceTtlMs;
+  }
+}
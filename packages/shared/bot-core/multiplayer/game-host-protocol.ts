@@ -0,0 +1,103 @@
+// Local Game Host Protocol
+// HTTP + WebSocket contract shared by GameHostServer and LocalGameDiscovery
+
+export const GAME_HOST_PORTS = [3000, 3001, 8080, 8081];
+
+// DNS-SD service hosts announce over mDNS; bump the version on incompatible protocol changes
+export const GAME_SERVICE_TYPE = '_mlvarcade._tcp.local';
+export const GAME_PROTOCOL_VERSION = 1;
+
+export const GAME_STATUS_PATH = '/api/game/status';
+export const GAME_JOIN_PATH = '/api/game/join';
+export const GAME_LEAVE_PATH = '/api/game/leave';
+export const GAME_KICK_PATH = '/api/game/kick';
+export const GAME_LOBBY_PATH = '/api/game/lobby';
+
+export type GameHostStatus = 'online' | 'full';
+
+// GET /api/game/status
+export interface GameStatusResponse {
+  gameId: string;
+  gameName: string;
+  playerCount: number;
+  maxPlayers: number;
+  hostName: string;
+  timestamp: number;
+  status: GameHostStatus;
+}
+
+export interface LobbyPlayer {
+  playerId: string;
+  playerName: string;
+  isHost: boolean;
+  connected: boolean;
+  joinedAt: number;
+}
+
+// POST /api/game/join
+export interface GameJoinRequest {
+  playerName: string;
+  // Room code from a join token; a mismatch means the token belongs to an earlier session
+  roomCode?: string;
+}
+
+export interface GameJoinResponse {
+  playerId: string;
+  // Proves the player's identity on leave and on the lobby socket
+  token: string;
+  status: GameStatusResponse;
+  players: LobbyPlayer[];
+}
+
+// POST /api/game/leave
+export interface GameLeaveRequest {
+  playerId: string;
+  token: string;
+}
+
+// POST /api/game/kick, authorized with "Authorization: Bearer <host token>"
+export interface GameKickRequest {
+  playerId: string;
+  reason?: string;
+}
+
+export interface GameHostError {
+  error: string;
+}
+
+// Server -> client messages on ws://host:port/api/game/lobby?playerId=...&token=...
+export type LobbyServerMessage =
+  | { type: 'lobby'; status: GameStatusResponse; players: LobbyPlayer[] }
+  | { type: 'kicked'; reason: string }
+  | { type: 'closed'; reason: string };
+
+// Client -> server messages
+export type LobbyClientMessage = { type: 'leave' } | { type: 'ping' };
+
+// TXT record keys: v, id, name, host, players, max, status
+export function gameStatusToTxt(status: GameStatusResponse): Record<string, string> {
+  return {
+    v: String(GAME_PROTOCOL_VERSION),
+    id: status.gameId,
+    name: status.gameName,
+    host: status.hostName,
+    players: String(status.playerCount),
+    max: String(status.maxPlayers),
+    status: status.status
+  };
+}
+
+// Null for records from an incompatible protocol version
+export function gameStatusFromTxt(txt: Record<string, string>): Omit<GameStatusResponse, 'timestamp'> | null {
+  if (Number(txt.v) !== GAME_PROTOCOL_VERSION || !txt.id) {
+    return null;
+  }
+  return {
+    gameId: txt.id,
+    gameName: txt.name || 'Unknown Game',
+    hostName: txt.host || 'Unknown Host',
+    playerCount: Number(txt.players) || 0,
+    maxPlayers: Number(txt.max) || 4,
+    status: txt.status === 'full' ? 'full' : 'online'
+  };
+}
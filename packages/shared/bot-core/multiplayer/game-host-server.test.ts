@@ -0,0 +1,81 @@
+import { WebSocket } from 'ws';
+import { GAME_JOIN_PATH, GAME_KICK_PATH, GAME_LEAVE_PATH, GAME_LOBBY_PATH, GameJoinResponse } from './game-host-protocol';
+import { GameHostServer } from './game-host-server';
+
+describe('GameHostServer', () => {
+  let host: GameHostServer;
+  let base: string;
+
+  const post = (path: string, body: string, headers: Record<string, string> = {}) =>
+    fetch(`${base}${path}`, { method: 'POST', headers: { 'Content-Type': 'application/json', ...headers }, body });
+
+  const join = async (playerName: string): Promise<GameJoinResponse> => {
+    const response = await post(GAME_JOIN_PATH, JSON.stringify({ playerName }));
+    expect(response.status).toBe(200);
+    return response.json() as Promise<GameJoinResponse>;
+  };
+
+  const openLobby = (joined: GameJoinResponse): Promise<WebSocket> => new Promise((resolve, reject) => {
+    const ws = new WebSocket(`${base.replace('http', 'ws')}${GAME_LOBBY_PATH}?playerId=${joined.playerId}&token=${joined.token}`);
+    ws.once('open', () => resolve(ws));
+    ws.once('error', reject);
+  });
+
+  beforeEach(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    host = new GameHostServer({ gameId: 'pong', gameName: 'Pong', hostName: 'Ann', maxPlayers: 3, ports: [0], bindAddress: '127.0.0.1' });
+    base = `http://127.0.0.1:${await host.start()}`;
+  });
+
+  afterEach(async () => {
+    await host.stop();
+    jest.restoreAllMocks();
+  });
+
+  it('seats joining players until the game is full', async () => {
+    await join('Ben');
+    await join('Cat');
+
+    const full = await post(GAME_JOIN_PATH, JSON.stringify({ playerName: 'Dan' }));
+
+    expect(full.status).toBe(409);
+    expect(host.getPlayers().map(player => player.playerName)).toEqual(['Ann', 'Ben', 'Cat']);
+  });
+
+  it('answers bodies that are not JSON objects with a 400', async () => {
+    for (const body of ['null', '42', '[]', '{']) {
+      const response = await post(GAME_JOIN_PATH, body);
+      expect(response.status).toBe(400);
+    }
+    expect(host.getStatus().playerCount).toBe(1);
+  });
+
+  it('lets a player leave only with their own token', async () => {
+    const ben = await join('Ben');
+
+    expect((await post(GAME_LEAVE_PATH, JSON.stringify({ playerId: ben.playerId, token: 'guess' }))).status).toBe(401);
+    expect((await post(GAME_LEAVE_PATH, JSON.stringify({ playerId: ben.playerId, token: ben.token }))).status).toBe(200);
+    expect(host.getStatus().playerCount).toBe(1);
+  });
+
+  it('kicks only on the host token', async () => {
+    const ben = await join('Ben');
+    const body = JSON.stringify({ playerId: ben.playerId });
+
+    expect((await post(GAME_KICK_PATH, body, { Authorization: `Bearer ${ben.token}` })).status).toBe(403);
+    expect((await post(GAME_KICK_PATH, body, { Authorization: `Bearer ${host.getHostToken()}` })).status).toBe(200);
+    expect(host.getStatus().playerCount).toBe(1);
+  });
+
+  it('ignores lobby frames that are not JSON objects and still handles leave', async () => {
+    const ben = await join('Ben');
+    const ws = await openLobby(ben);
+    const closed = new Promise(resolve => ws.once('close', resolve));
+
+    ['null', '42', '[]'].forEach(frame => ws.send(frame));
+    ws.send(JSON.stringify({ type: 'leave' }));
+    await closed;
+
+    expect(host.getStatus().playerCount).toBe(1);
+  });
+});
@@ -0,0 +1,494 @@
+// Local Game Host Server
+// Advertises a hosted session to LocalGameDiscovery and runs its lobby
+
+import { EventEmitter } from 'events';
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import { randomBytes } from 'crypto';
+import { hostname, networkInterfaces } from 'os';
+import { Duplex } from 'stream';
+import { WebSocket, WebSocketServer } from 'ws';
+import {
+  GAME_HOST_PORTS,
+  GAME_JOIN_PATH,
+  GAME_KICK_PATH,
+  GAME_LEAVE_PATH,
+  GAME_LOBBY_PATH,
+  GAME_SERVICE_TYPE,
+  GAME_STATUS_PATH,
+  GameJoinRequest,
+  GameJoinResponse,
+  GameKickRequest,
+  GameLeaveRequest,
+  GameStatusResponse,
+  LobbyClientMessage,
+  LobbyPlayer,
+  LobbyServerMessage,
+  gameStatusToTxt
+} from './game-host-protocol';
+import { generateRoomCode, JoinTokenIssuer } from './join-token';
+import { MulticastTransport, ServiceAdvertiser } from './mdns';
+import { createSessionToken, sameSessionToken } from './session-token';
+import { parseJsonObject } from './ws-socket';
+
+export interface GameHostOptions {
+  gameId: string;
+  gameName: string;
+  hostName: string;
+  maxPlayers?: number;
+  // Tried in order; defaults to the ports LocalGameDiscovery probes
+  ports?: number[];
+  bindAddress?: string;
+  // How long a joined player may go without a lobby socket before their seat is freed
+  reconnectGraceMs?: number;
+  // Announces the session as _mlvarcade._tcp over mDNS when given
+  multicast?: MulticastTransport | null;
+  // IPv4 addresses put in the A records; defaults to this machine's non-internal interfaces
+  addresses?: string[];
+}
+
+interface HostedPlayer extends LobbyPlayer {
+  token: string;
+  socket: WebSocket | null;
+  graceTimer: ReturnType<typeof setTimeout> | null;
+}
+
+class HttpError extends Error {
+  status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.status = status;
+  }
+}
+
+const MAX_BODY_BYTES = 16 * 1024;
+const MAX_NAME_LENGTH = 32;
+const DEFAULT_RECONNECT_GRACE_MS = 15000;
+
+export class GameHostServer extends EventEmitter {
+  private options: Required<Omit<GameHostOptions, 'multicast' | 'addresses'>>;
+  private multicast: MulticastTransport | null;
+  private addresses: string[] | null;
+  private advertiser: ServiceAdvertiser | null = null;
+  private server: Server | null = null;
+  private lobby: WebSocketServer | null = null;
+  private players: Map<string, HostedPlayer> = new Map();
+  private hostToken: string = createSessionToken();
+  private hostPlayerId: string = randomBytes(8).toString('hex');
+  private roomCode: string = generateRoomCode();
+  private port: number | null = null;
+
+  constructor(options: GameHostOptions) {
+    super();
+    this.options = {
+      gameId: options.gameId,
+      gameName: options.gameName,
+      hostName: options.hostName,
+      maxPlayers: options.maxPlayers ?? 4,
+      ports: options.ports ?? GAME_HOST_PORTS,
+      bindAddress: options.bindAddress ?? '0.0.0.0',
+      reconnectGraceMs: options.reconnectGraceMs ?? DEFAULT_RECONNECT_GRACE_MS
+    };
+    this.multicast = options.multicast ?? null;
+    this.addresses = options.addresses ?? null;
+
+    // The host holds the first seat and is always connected
+    this.players.set(this.hostPlayerId, {
+      playerId: this.hostPlayerId,
+      playerName: options.hostName,
+      isHost: true,
+      connected: true,
+      joinedAt: Date.now(),
+      token: this.hostToken,
+      socket: null,
+      graceTimer: null
+    });
+  }
+
+  // Resolves with the port actually bound
+  async start(): Promise<number> {
+    if (this.server && this.port !== null) {
+      return this.port;
+    }
+
+    for (const port of this.options.ports) {
+      try {
+        // Port 0 lets the OS pick, e.g. in tests
+        const bound = await this.listen(port);
+        this.port = bound;
+        this.advertise(bound);
+        console.log(`🎮 Hosting ${this.options.gameName} on port ${bound}`);
+        return bound;
+      } catch (error) {
+        if (!(error instanceof Error) || (error as NodeJS.ErrnoException).code !== 'EADDRINUSE') {
+          throw error;
+        }
+      }
+    }
+
+    throw new Error(`No free game host port among ${this.options.ports.join(', ')}`);
+  }
+
+  async stop(): Promise<void> {
+    const server = this.server;
+    if (!server) {
+      return;
+    }
+
+    for (const player of this.players.values()) {
+      if (player.graceTimer) {
+        clearTimeout(player.graceTimer);
+      }
+      this.closeSocket(player, { type: 'closed', reason: 'Host ended the session' });
+    }
+
+    this.advertiser?.stop();
+    this.advertiser = null;
+    this.lobby?.close();
+    this.lobby = null;
+    this.server = null;
+    this.port = null;
+    const closed = new Promise<void>(resolve => server.close(() => resolve()));
+    server.closeAllConnections();
+    await closed;
+    console.log(`🎮 Stopped hosting ${this.options.gameName}`);
+  }
+
+  getStatus(): GameStatusResponse {
+    const playerCount = this.players.size;
+    return {
+      gameId: this.options.gameId,
+      gameName: this.options.gameName,
+      playerCount,
+      maxPlayers: this.options.maxPlayers,
+      hostName: this.options.hostName,
+      timestamp: Date.now(),
+      status: playerCount >= this.options.maxPlayers ? 'full' : 'online'
+    };
+  }
+
+  getPlayers(): LobbyPlayer[] {
+    return Array.from(this.players.values()).map(toLobbyPlayer);
+  }
+
+  getPort(): number | null {
+    return this.port;
+  }
+
+  // Lets the host's own UI call the kick endpoint
+  getHostToken(): string {
+    return this.hostToken;
+  }
+
+  getRoomCode(): string {
+    return this.roomCode;
+  }
+
+  // Signed token for QR codes, NFC tags and deep links pointing at this session's endpoints
+  async createJoinToken(issuer: JoinTokenIssuer, ttlMs?: number): Promise<string> {
+    if (this.port === null) {
+      throw new Error('Start the game host before creating join tokens');
+    }
+    const port = this.port;
+    return issuer.issue({
+      roomCode: this.roomCode,
+      gameId: this.options.gameId,
+      gameName: this.options.gameName,
+      hostName: this.options.hostName,
+      maxPlayers: this.options.maxPlayers,
+      endpoints: (this.addresses ?? this.localAddresses()).map(address => `${address}:${port}`)
+    }, ttlMs);
+  }
+
+  kick(playerId: string, reason: string = 'Removed by host'): boolean {
+    const player = this.players.get(playerId);
+    if (!player || player.isHost) {
+      return false;
+    }
+
+    this.closeSocket(player, { type: 'kicked', reason });
+    this.removePlayer(player);
+    this.emit('playerKicked', toLobbyPlayer(player), reason);
+    return true;
+  }
+
+  private advertise(port: number): void {
+    if (!this.multicast) {
+      return;
+    }
+    this.advertiser = new ServiceAdvertiser(this.multicast, {
+      instanceName: `${this.options.hostName}'s ${this.options.gameName}`,
+      serviceType: GAME_SERVICE_TYPE,
+      hostName: `${hostname().split('.')[0]!.replace(/[^a-zA-Z0-9-]/g, '-')}.local`,
+      port,
+      addresses: this.addresses ?? this.localAddresses(),
+      txt: gameStatusToTxt(this.getStatus())
+    });
+    this.advertiser.start();
+  }
+
+  private localAddresses(): string[] {
+    if (this.options.bindAddress !== '0.0.0.0') {
+      return [this.options.bindAddress];
+    }
+    return Object.values(networkInterfaces())
+      .flatMap(entries => entries ?? [])
+      .filter(entry => entry.family === 'IPv4' && !entry.internal)
+      .map(entry => entry.address);
+  }
+
+  private listen(port: number): Promise<number> {
+    const server = createServer((request, response) => {
+      this.handleRequest(request, response).catch(error => this.sendError(response, error));
+    });
+    const lobby = new WebSocketServer({ noServer: true });
+    server.on('upgrade', (request, socket, head) => this.handleUpgrade(lobby, request, socket, head));
+
+    return new Promise((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(port, this.options.bindAddress, () => {
+        server.off('error', reject);
+        server.on('error', error => this.emit('error', error));
+        this.server = server;
+        this.lobby = lobby;
+        resolve((server.address() as AddressInfo).port);
+      });
+    });
+  }
+
+  private async handleRequest(request: IncomingMessage, response: ServerResponse): Promise<void> {
+    const path = new URL(request.url ?? '/', 'http://localhost').pathname;
+
+    // Web builds probe from another origin
+    response.setHeader('Access-Control-Allow-Origin', '*');
+    response.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+    response.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+    if (request.method === 'OPTIONS') {
+      response.writeHead(204).end();
+      return;
+    }
+
+    if (request.method === 'GET' && path === GAME_STATUS_PATH) {
+      this.sendJson(response, 200, this.getStatus());
+    } else if (request.method === 'POST' && path === GAME_JOIN_PATH) {
+      this.sendJson(response, 200, this.join(await readJson<GameJoinRequest>(request)));
+    } else if (request.method === 'POST' && path === GAME_LEAVE_PATH) {
+      const body = await readJson<GameLeaveRequest>(request);
+      this.leave(this.authenticate(body.playerId, body.token));
+      this.sendJson(response, 200, { success: true });
+    } else if (request.method === 'POST' && path === GAME_KICK_PATH) {
+      if (!sameSessionToken(bearerToken(request), this.hostToken)) {
+        throw new HttpError(403, 'Only the host can kick players');
+      }
+      const body = await readJson<GameKickRequest>(request);
+      if (!this.kick(body.playerId, body.reason)) {
+        throw new HttpError(404, 'Player not found');
+      }
+      this.sendJson(response, 200, { success: true });
+    } else {
+      throw new HttpError(404, 'Not found');
+    }
+  }
+
+  private join(request: GameJoinRequest): GameJoinResponse {
+    const playerName = typeof request.playerName === 'string' ? request.playerName.trim().slice(0, MAX_NAME_LENGTH) : '';
+    if (!playerName) {
+      throw new HttpError(400, 'playerName is required');
+    }
+    if (request.roomCode !== undefined && request.roomCode !== this.roomCode) {
+      throw new HttpError(410, 'Join code is for an earlier session of this game');
+    }
+    if (this.players.size >= this.options.maxPlayers) {
+      throw new HttpError(409, 'Game is full');
+    }
+
+    const player: HostedPlayer = {
+      playerId: randomBytes(8).toString('hex'),
+      playerName,
+      isHost: false,
+      connected: false,
+      joinedAt: Date.now(),
+      token: createSessionToken(),
+      socket: null,
+      graceTimer: null
+    };
+    this.players.set(player.playerId, player);
+    this.startGraceTimer(player);
+
+    console.log(`🎮 ${playerName} joined ${this.options.gameName}`);
+    this.emit('playerJoined', toLobbyPlayer(player));
+    this.broadcastLobby();
+
+    return { playerId: player.playerId, token: player.token, status: this.getStatus(), players: this.getPlayers() };
+  }
+
+  private leave(player: HostedPlayer): void {
+    this.closeSocket(player, { type: 'closed', reason: 'Left the game' });
+    this.removePlayer(player);
+    console.log(`🎮 ${player.playerName} left ${this.options.gameName}`);
+    this.emit('playerLeft', toLobbyPlayer(player));
+  }
+
+  private handleUpgrade(lobby: WebSocketServer, request: IncomingMessage, socket: Duplex, head: Buffer): void {
+    const url = new URL(request.url ?? '/', 'http://localhost');
+    let player: HostedPlayer;
+    try {
+      if (url.pathname !== GAME_LOBBY_PATH) {
+        throw new HttpError(404, 'Not found');
+      }
+      player = this.authenticate(url.searchParams.get('playerId'), url.searchParams.get('token'));
+    } catch (error) {
+      const status = error instanceof HttpError ? error.status : 400;
+      socket.end(`HTTP/1.1 ${status} ${status === 404 ? 'Not Found' : 'Unauthorized'}\r\nConnection: close\r\n\r\n`);
+      return;
+    }
+
+    lobby.handleUpgrade(request, socket, head, ws => this.attachSocket(player, ws));
+  }
+
+  // A newer socket for the same player replaces the old one, e.g. after a network switch
+  private attachSocket(player: HostedPlayer, ws: WebSocket): void {
+    if (player.socket && player.socket !== ws) {
+      player.socket.removeAllListeners('close');
+      player.socket.close(1000, 'Replaced by a newer connection');
+    }
+    if (player.graceTimer) {
+      clearTimeout(player.graceTimer);
+      player.graceTimer = null;
+    }
+
+    player.socket = ws;
+    player.connected = true;
+
+    ws.on('message', data => {
+      const message = parseJsonObject<LobbyClientMessage>(data.toString());
+      if (!message) {
+        return;
+      }
+      if (message.type === 'leave' && this.players.get(player.playerId) === player) {
+        this.leave(player);
+      }
+    });
+    ws.on('close', () => {
+      if (player.socket !== ws) {
+        return;
+      }
+      player.socket = null;
+      player.connected = false;
+      if (this.players.get(player.playerId) === player) {
+        this.startGraceTimer(player);
+        this.broadcastLobby();
+      }
+    });
+
+    this.broadcastLobby();
+  }
+
+  private startGraceTimer(player: HostedPlayer): void {
+    player.graceTimer = setTimeout(() => {
+      player.graceTimer = null;
+      if (!player.connected && this.players.get(player.playerId) === player) {
+        console.log(`🎮 ${player.playerName} timed out of ${this.options.gameName}`);
+        this.removePlayer(player);
+        this.emit('playerLeft', toLobbyPlayer(player));
+      }
+    }, this.options.reconnectGraceMs);
+  }
+
+  private removePlayer(player: HostedPlayer): void {
+    if (player.graceTimer) {
+      clearTimeout(player.graceTimer);
+      player.graceTimer = null;
+    }
+    this.players.delete(player.playerId);
+    this.broadcastLobby();
+  }
+
+  private closeSocket(player: HostedPlayer, message: LobbyServerMessage): void {
+    const socket = player.socket;
+    if (!socket) {
+      return;
+    }
+    player.socket = null;
+    player.connected = false;
+    if (socket.readyState === WebSocket.OPEN) {
+      socket.send(JSON.stringify(message));
+    }
+    socket.close(1000, message.type);
+  }
+
+  private broadcastLobby(): void {
+    const payload = JSON.stringify({ type: 'lobby', status: this.getStatus(), players: this.getPlayers() } as LobbyServerMessage);
+    for (const player of this.players.values()) {
+      if (player.socket?.readyState === WebSocket.OPEN) {
+        player.socket.send(payload);
+      }
+    }
+    this.advertiser?.updateTxt(gameStatusToTxt(this.getStatus()));
+    this.emit('lobbyUpdated', this.getPlayers());
+  }
+
+  private authenticate(playerId: unknown, token: unknown): HostedPlayer {
+    const player = typeof playerId === 'string' ? this.players.get(playerId) : undefined;
+    if (!player || player.isHost || !sameSessionToken(token, player.token)) {
+      throw new HttpError(401, 'Unknown player or bad token');
+    }
+    return player;
+  }
+
+  private sendJson(response: ServerResponse, status: number, body: unknown): void {
+    response.writeHead(status, { 'Content-Type': 'application/json' });
+    response.end(JSON.stringify(body));
+  }
+
+  private sendError(response: ServerResponse, error: unknown): void {
+    if (!(error instanceof HttpError)) {
+      console.error('❌ Game host request failed:', error);
+    }
+    const status = error instanceof HttpError ? error.status : 500;
+    if (!response.headersSent) {
+      this.sendJson(response, status, { error: error instanceof HttpError ? error.message : 'Internal error' });
+    }
+  }
+}
+
+function toLobbyPlayer(player: HostedPlayer): LobbyPlayer {
+  return {
+    playerId: player.playerId,
+    playerName: player.playerName,
+    isHost: player.isHost,
+    connected: player.connected,
+    joinedAt: player.joinedAt
+  };
+}
+
+function readJson<T extends object>(request: IncomingMessage): Promise<T> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    request.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(new HttpError(413, 'Request body too large'));
+        request.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    request.on('end', () => {
+      const body = parseJsonObject<T>(Buffer.concat(chunks).toString('utf8') || '{}');
+      if (body) {
+        resolve(body);
+      } else {
+        reject(new HttpError(400, 'Request body must be a JSON object'));
+      }
+    });
+    request.on('error', reject);
+  });
+}
+
+function bearerToken(request: IncomingMessage): string {
+  const header = request.headers.authorization ?? '';
+  return header.startsWith('Bearer ') ? header.slice(7) : '';
+}
@@ -0,0 +1,90 @@
+import { BluetoothGameDevice, BluetoothGameDiscovery } from './bluetooth';
+import { BluetoothTransport, LocalTransport, TransportError } from './game-transport';
+import { VerifiedJoinToken } from './join-token';
+import { LocalGameDiscovery, LocalJoinError } from './local-network';
+
+const TOKEN: VerifiedJoinToken = {
+  roomCode: 'ABCD',
+  gameId: 'pong',
+  gameName: 'Pong',
+  hostName: 'Ann',
+  maxPlayers: 2,
+  endpoints: ['192.168.1.20:7777'],
+  issuedAt: 0,
+  expiresAt: Number.MAX_SAFE_INTEGER,
+  protocolVersion: 1,
+  algorithm: 'Ed25519',
+  hostKey: 'real-key'
+};
+
+const device = (deviceId: string, hostKey: string | null): BluetoothGameDevice => ({
+  deviceId,
+  deviceName: deviceId,
+  gameId: 'pong',
+  gameName: 'Pong',
+  hostName: 'Ann',
+  playerCount: 1,
+  maxPlayers: 2,
+  hostKey,
+  signalStrength: 100,
+  distance: 0,
+  lastSeen: 0
+});
+
+const joinError = async (join: Promise<unknown>): Promise<TransportError> => {
+  try {
+    await join;
+  } catch (error) {
+    return error as TransportError;
+  }
+  throw new Error('Expected the join to fail');
+};
+
+describe('LocalTransport', () => {
+  const transportFailing = (error: unknown) => new LocalTransport({
+    joinFromToken: () => Promise.reject(error)
+  } as unknown as LocalGameDiscovery);
+
+  it('reports a full game by its error code', async () => {
+    const error = await joinError(transportFailing(new LocalJoinError('full', 'Game is full')).joinFromToken(TOKEN));
+
+    expect(error.reason).toBe('full');
+  });
+
+  it('does not read a full game into an unrelated message', async () => {
+    const error = await joinError(transportFailing(new Error('Buffer full while connecting')).joinFromToken(TOKEN));
+
+    expect(error.reason).toBe('unreachable');
+  });
+});
+
+describe('BluetoothTransport', () => {
+  const transportWith = (devices: BluetoothGameDevice[]) => {
+    const joinGame = jest.fn(async () => true);
+    const transport = new BluetoothTransport({
+      isBluetoothSupported: () => true,
+      getDiscoveredDevices: () => devices,
+      startDiscovery: async () => devices,
+      joinGame
+    } as unknown as BluetoothGameDiscovery);
+    return { transport, joinGame };
+  };
+
+  it('joins the device advertising the key that signed the token', async () => {
+    const { transport, joinGame } = transportWith([device('impostor', 'other-key'), device('host', 'real-key')]);
+
+    const lobby = await transport.joinFromToken(TOKEN);
+
+    expect(lobby.address).toBe('host');
+    expect(joinGame).toHaveBeenCalledWith('host');
+  });
+
+  it('does not join a same-named host without the token key', async () => {
+    const { transport, joinGame } = transportWith([device('impostor', null)]);
+
+    const error = await joinError(transport.joinFromToken(TOKEN));
+
+    expect(error.reason).toBe('unreachable');
+    expect(joinGame).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,288 @@
+// Game Transports
+// LAN and Bluetooth behind one interface, with lobbies merged and ranked across them
+
+import { BluetoothGameDevice, BluetoothGameDiscovery } from './bluetooth';
+import { VerifiedJoinToken } from './join-token';
+import { LocalGameDiscovery, LocalGameServer, LocalJoinError } from './local-network';
+
+export type TransportKind = 'local' | 'bluetooth';
+
+export type JoinFailureReason =
+  | 'unsupported'
+  | 'no_games'
+  | 'full'
+  | 'unreachable'
+  | 'rejected'
+  | 'invalid_token'
+  | 'error';
+
+export class TransportError extends Error {
+  reason: JoinFailureReason;
+
+  constructor(reason: JoinFailureReason, message: string) {
+    super(message);
+    this.name = 'TransportError';
+    this.reason = reason;
+  }
+}
+
+// One way of reaching a host
+export interface TransportLobby {
+  transport: TransportKind;
+  // "ip:port" on the LAN, the device id over Bluetooth
+  address: string;
+  gameId: string;
+  gameName: string;
+  hostName: string;
+  playerCount: number;
+  maxPlayers: number;
+  full: boolean;
+  // Join token key the host advertises; only Bluetooth hosts do
+  hostKey?: string;
+  ping?: number;
+  signalStrength?: number;
+  distance?: number;
+  lastSeen: number;
+}
+
+// A host's game with every transport it was found on, best route first
+export interface GameLobby {
+  key: string;
+  gameId: string;
+  gameName: string;
+  hostName: string;
+  playerCount: number;
+  maxPlayers: number;
+  full: boolean;
+  score: number;
+  routes: TransportLobby[];
+}
+
+export interface GameTransport {
+  readonly kind: TransportKind;
+  isAvailable(): boolean;
+  discover(): Promise<TransportLobby[]>;
+  // What the last discovery found, without scanning again
+  getLobbies(): TransportLobby[];
+  join(lobby: TransportLobby): Promise<void>;
+  // Joins the host a verified join token names; throws a TransportError when this transport cannot reach it
+  joinFromToken(token: VerifiedJoinToken): Promise<TransportLobby>;
+  stop(): Promise<void>;
+}
+
+// Pings past this rank the same as an unreachable host
+const MAX_RANKED_PING_MS = 500;
+// Bluetooth estimates further than this are all "far"
+const MAX_RANKED_DISTANCE_M = 30;
+const PING_WEIGHT = 0.5;
+const SIGNAL_WEIGHT = 0.3;
+const DISTANCE_WEIGHT = 0.2;
+// Used for whichever measurements a transport cannot take
+const UNKNOWN_SCORE = 0.5;
+
+// 0..1, higher is better
+export function routeScore(route: TransportLobby): number {
+  const ping = route.ping === undefined
+    ? UNKNOWN_SCORE
+    : 1 - Math.min(Math.max(route.ping, 0), MAX_RANKED_PING_MS) / MAX_RANKED_PING_MS;
+  const signal = route.signalStrength === undefined
+    ? UNKNOWN_SCORE
+    : Math.min(Math.max(route.signalStrength, 0), 100) / 100;
+  // Transports report 0 when they cannot estimate distance
+  const distance = route.distance === undefined || route.distance <= 0
+    ? UNKNOWN_SCORE
+    : 1 - Math.min(route.distance, MAX_RANKED_DISTANCE_M) / MAX_RANKED_DISTANCE_M;
+  return PING_WEIGHT * ping + SIGNAL_WEIGHT * signal + DISTANCE_WEIGHT * distance;
+}
+
+// Folds the same host seen on several transports into one lobby; open games first, then by best route
+export function mergeLobbies(routes: TransportLobby[]): GameLobby[] {
+  const groups = new Map<string, TransportLobby[]>();
+  for (const route of routes) {
+    const key = `${route.gameId}|${route.hostName.trim().toLowerCase()}`;
+    groups.set(key, [...(groups.get(key) ?? []), route]);
+  }
+
+  const lobbies: GameLobby[] = [];
+  for (const [key, group] of groups) {
+    const ranked = group
+      .map(route => ({ route, score: routeScore(route) }))
+      .sort((a, b) => Number(a.route.full) - Number(b.route.full) || b.score - a.score);
+    const freshest = group.reduce((latest, route) => route.lastSeen > latest.lastSeen ? route : latest);
+    lobbies.push({
+      key,
+      gameId: freshest.gameId,
+      gameName: freshest.gameName,
+      hostName: freshest.hostName,
+      playerCount: freshest.playerCount,
+      maxPlayers: freshest.maxPlayers,
+      full: freshest.full,
+      score: ranked[0]!.score,
+      routes: ranked.map(entry => entry.route)
+    });
+  }
+
+  return lobbies.sort((a, b) => Number(a.full) - Number(b.full) || b.score - a.score);
+}
+
+export class LocalTransport implements GameTransport {
+  readonly kind = 'local';
+  private local: LocalGameDiscovery;
+
+  constructor(local: LocalGameDiscovery) {
+    this.local = local;
+  }
+
+  isAvailable(): boolean {
+    return true;
+  }
+
+  async discover(): Promise<TransportLobby[]> {
+    return (await this.local.scanLocalNetwork()).map(toLocalLobby);
+  }
+
+  getLobbies(): TransportLobby[] {
+    return this.local.getDiscoveredGames().map(toLocalLobby);
+  }
+
+  async join(lobby: TransportLobby): Promise<void> {
+    if (lobby.full) {
+      throw new TransportError('full', `${lobby.gameName} is full`);
+    }
+
+    const separator = lobby.address.lastIndexOf(':');
+    let joined: boolean;
+    try {
+      joined = await this.local.joinGame(lobby.address.slice(0, separator), Number(lobby.address.slice(separator + 1)));
+    } catch (error) {
+      throw toTransportError(error);
+    }
+    if (!joined) {
+      throw new TransportError('rejected', `${lobby.hostName} did not let us join`);
+    }
+  }
+
+  async joinFromToken(token: VerifiedJoinToken): Promise<TransportLobby> {
+    try {
+      return toLocalLobby(await this.local.joinFromToken(token));
+    } catch (error) {
+      throw toTransportError(error);
+    }
+  }
+
+  async stop(): Promise<void> {
+    await this.local.stopScanning();
+  }
+}
+
+export class BluetoothTransport implements GameTransport {
+  readonly kind = 'bluetooth';
+  private bluetooth: BluetoothGameDiscovery;
+
+  constructor(bluetooth: BluetoothGameDiscovery) {
+    this.bluetooth = bluetooth;
+  }
+
+  isAvailable(): boolean {
+    return this.bluetooth.isBluetoothSupported();
+  }
+
+  async discover(): Promise<TransportLobby[]> {
+    return (await this.bluetooth.startDiscovery()).map(toBluetoothLobby);
+  }
+
+  getLobbies(): TransportLobby[] {
+    return this.bluetooth.getDiscoveredDevices().map(toBluetoothLobby);
+  }
+
+  async join(lobby: TransportLobby): Promise<void> {
+    if (lobby.full) {
+      throw new TransportError('full', `${lobby.gameName} is full`);
+    }
+
+    let joined: boolean;
+    try {
+      joined = await this.bluetooth.joinGame(lobby.address);
+    } catch (error) {
+      throw new TransportError('unreachable', errorMessage(error));
+    }
+    if (!joined) {
+      throw new TransportError('rejected', `${lobby.hostName} did not let us join over Bluetooth`);
+    }
+  }
+
+  // Tokens carry no Bluetooth address, so look for a device hosting the same game. Anyone can take a
+  // host's name, so a signed token also needs the device to advertise the key that signed it
+  async joinFromToken(token: VerifiedJoinToken): Promise<TransportLobby> {
+    if (!this.isAvailable()) {
+      throw new TransportError('unsupported', 'Bluetooth not supported on this device');
+    }
+
+    const matches = (lobby: TransportLobby) =>
+      lobby.gameId === token.gameId &&
+      lobby.hostName === token.hostName &&
+      (token.hostKey === null || lobby.hostKey === token.hostKey);
+    let lobby = this.getLobbies().find(matches);
+    if (!lobby) {
+      try {
+        lobby = (await this.discover()).find(matches);
+      } catch (error) {
+        throw new TransportError('unreachable', errorMessage(error));
+      }
+    }
+    if (!lobby) {
+      throw new TransportError('unreachable', `${token.hostName}'s game is not in Bluetooth range`);
+    }
+
+    await this.join(lobby);
+    return lobby;
+  }
+
+  async stop(): Promise<void> {
+    await this.bluetooth.stopDiscovery();
+  }
+}
+
+function toLocalLobby(game: LocalGameServer): TransportLobby {
+  return {
+    transport: 'local',
+    address: `${game.ip}:${game.port}`,
+    gameId: game.gameId,
+    gameName: game.gameName,
+    hostName: game.hostName,
+    playerCount: game.playerCount,
+    maxPlayers: game.maxPlayers,
+    full: game.status === 'full' || game.playerCount >= game.maxPlayers,
+    ping: game.ping,
+    lastSeen: game.lastSeen
+  };
+}
+
+function toBluetoothLobby(device: BluetoothGameDevice): TransportLobby {
+  return {
+    transport: 'bluetooth',
+    address: device.deviceId,
+    gameId: device.gameId,
+    gameName: device.gameName,
+    hostName: device.hostName,
+    playerCount: device.playerCount,
+    maxPlayers: device.maxPlayers,
+    full: device.playerCount >= device.maxPlayers,
+    ...(device.hostKey ? { hostKey: device.hostKey } : {}),
+    signalStrength: device.signalStrength,
+    distance: device.distance,
+    lastSeen: device.lastSeen
+  };
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+// Anything local discovery throws without a code is a network failure on the way to the host
+function toTransportError(error: unknown): TransportError {
+  if (error instanceof LocalJoinError) {
+    return new TransportError(error.code, error.message);
+  }
+  return new TransportError('unreachable', errorMessage(error));
+}
@@ -0,0 +1,133 @@
+// Glicko-2 Ratings
+// Skill estimates with a confidence interval, per Glickman's "Example of the Glicko-2 system"
+
+export interface GlickoRating {
+  rating: number;
+  // Rating deviation; about 95% of the time true skill lies within rating ± 2 × deviation
+  deviation: number;
+  volatility: number;
+}
+
+// One game against one opponent: 1 for a win, 0.5 for a draw, 0 for a loss
+export interface GlickoResult {
+  opponent: GlickoRating;
+  score: number;
+}
+
+export const GLICKO_DEFAULT_RATING: GlickoRating = { rating: 1500, deviation: 350, volatility: 0.06 };
+// A deviation this high means we know nothing; it never grows past it
+export const GLICKO_MAX_DEVIATION = 350;
+// System constant; smaller values keep volatility from swinging on upsets
+export const GLICKO_DEFAULT_TAU = 0.5;
+
+const SCALE = 173.7178;
+const CONVERGENCE = 0.000001;
+
+function g(phi: number): number {
+  return 1 / Math.sqrt(1 + 3 * phi * phi / (Math.PI * Math.PI));
+}
+
+function expected(mu: number, muJ: number, phiJ: number): number {
+  return 1 / (1 + Math.exp(-g(phiJ) * (mu - muJ)));
+}
+
+// Chance that a beats b
+export function expectedScore(a: GlickoRating, b: GlickoRating): number {
+  return expected((a.rating - 1500) / SCALE, (b.rating - 1500) / SCALE, b.deviation / SCALE);
+}
+
+// Widens the deviation for rating periods in which the player did not play
+export function inflateDeviation(player: GlickoRating, idlePeriods: number): GlickoRating {
+  if (idlePeriods <= 0) {
+    return { ...player };
+  }
+  const phi = player.deviation / SCALE;
+  const deviation = Math.sqrt(phi * phi + idlePeriods * player.volatility * player.volatility) * SCALE;
+  return { ...player, deviation: Math.min(deviation, GLICKO_MAX_DEVIATION) };
+}
+
+// Rates one rating period; every result is scored against the opponents' ratings from before the period
+export function rateGlicko2(player: GlickoRating, results: GlickoResult[], tau: number = GLICKO_DEFAULT_TAU): GlickoRating {
+  if (results.length === 0) {
+    return inflateDeviation(player, 1);
+  }
+
+  const mu = (player.rating - 1500) / SCALE;
+  const phi = player.deviation / SCALE;
+  const sigma = player.volatility;
+
+  let inverseV = 0;
+  let improvement = 0;
+  for (const result of results) {
+    const muJ = (result.opponent.rating - 1500) / SCALE;
+    const gJ = g(result.opponent.deviation / SCALE);
+    const e = expected(mu, muJ, result.opponent.deviation / SCALE);
+    inverseV += gJ * gJ * e * (1 - e);
+    improvement += gJ * (result.score - e);
+  }
+  const v = 1 / inverseV;
+  const delta = v * improvement;
+
+  // New volatility by the Illinois variant of regula falsi
+  const a = Math.log(sigma * sigma);
+  const f = (x: number) => {
+    const ex = Math.exp(x);
+    const denominator = phi * phi + v + ex;
+    return ex * (delta * delta - phi * phi - v - ex) / (2 * denominator * denominator) - (x - a) / (tau * tau);
+  };
+  let low = a;
+  let high: number;
+  if (delta * delta > phi * phi + v) {
+    high = Math.log(delta * delta - phi * phi - v);
+  } else {
+    let k = 1;
+    while (f(a - k * tau) < 0) {
+      k++;
+    }
+    high = a - k * tau;
+  }
+  let fLow = f(low);
+  let fHigh = f(high);
+  while (Math.abs(high - low) > CONVERGENCE) {
+    const next = low + (low - high) * fLow / (fHigh - fLow);
+    const fNext = f(next);
+    if (fNext * fHigh <= 0) {
+      low = high;
+      fLow = fHigh;
+    } else {
+      fLow /= 2;
+    }
+    high = next;
+    fHigh = fNext;
+  }
+  const volatility = Math.exp(low / 2);
+
+  const phiStar = Math.sqrt(phi * phi + volatility * volatility);
+  const newPhi = 1 / Math.sqrt(1 / (phiStar * phiStar) + 1 / v);
+  const newMu = mu + newPhi * newPhi * improvement;
+
+  return {
+    rating: newMu * SCALE + 1500,
+    deviation: Math.min(newPhi * SCALE, GLICKO_MAX_DEVIATION),
+    volatility
+  };
+}
+
+// Turns finishing positions (1 = winner, equal numbers tie) into pairwise results for each player
+export function placementResults(placements: Map<string, number>, ratings: Map<string, GlickoRating>): Map<string, GlickoResult[]> {
+  const results = new Map<string, GlickoResult[]>();
+  for (const [playerId, place] of placements) {
+    const games: GlickoResult[] = [];
+    for (const [opponentId, opponentPlace] of placements) {
+      if (opponentId === playerId) {
+        continue;
+      }
+      games.push({
+        opponent: ratings.get(opponentId) ?? GLICKO_DEFAULT_RATING,
+        score: place < opponentPlace ? 1 : place === opponentPlace ? 0.5 : 0
+      });
+    }
+    results.set(playerId, games);
+  }
+  return results;
+}
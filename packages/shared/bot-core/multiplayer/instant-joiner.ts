@@ -1,12 +1,28 @@
 // Instant Game Joiner
 // Nintendo DS one-click simplicity
 
-import { NFCGameSharing, NFCGameShare } from './nfc';
-import { BluetoothGameDiscovery, BluetoothGameDevice } from './bluetooth';
-import { LocalGameDiscovery, LocalGameServer } from './local-network';
+import { NFCGameSharing } from './nfc';
+import { BluetoothGameDiscovery } from './bluetooth';
+import { LocalDiscoveryOptions, LocalGameDiscovery } from './local-network';
+import { JoinTokenError, JoinTokenErrorCode, JoinTokenVerifyOptions, VerifiedJoinToken, verifyJoinToken } from './join-token';
+import {
+  BluetoothTransport,
+  GameLobby,
+  GameTransport,
+  JoinFailureReason,
+  LocalTransport,
+  TransportError,
+  TransportKind,
+  TransportLobby,
+  mergeLobbies
+} from './game-transport';
+
+export type JoinMethod = 'nfc' | 'bluetooth' | 'local' | 'qr' | 'link' | 'quick';
 
 export interface GameConnection {
-  connectionType: 'nfc' | 'bluetooth' | 'local' | 'qr';
+  connectionType: 'nfc' | 'bluetooth' | 'local' | 'qr' | 'link';
+  // How the session is actually carried; an NFC tap only hands over the join token
+  transport: TransportKind;
   gameId: string;
   gameName: string;
   playerCount: number;
@@ -23,248 +39,312 @@ export interface JoinResult {
   gameId?: string;
   gameName?: string;
   error?: string;
+  // Set when a QR, NFC or link join code was rejected
+  tokenError?: JoinTokenErrorCode;
+  reason?: JoinFailureReason;
+  transport?: TransportKind;
   connectionTime?: number;
 }
 
+// Join progress, in order: tokenVerified (code joins only), then attempt/transportFailed per route, then connected or failed
+export type JoinEvent =
+  | { type: 'tokenVerified'; method: JoinMethod; gameId: string; gameName: string; hostName: string }
+  | { type: 'attempt'; method: JoinMethod; transport: TransportKind; gameId: string; gameName: string; hostName: string }
+  | { type: 'transportFailed'; method: JoinMethod; transport: TransportKind; reason: JoinFailureReason; error: string }
+  | { type: 'connected'; method: JoinMethod; transport: TransportKind; gameId: string; gameName: string; connectionTime: number }
+  | { type: 'failed'; method: JoinMethod; reason: JoinFailureReason; error: string; tokenError?: JoinTokenErrorCode };
+
+export type JoinEventListener = (event: JoinEvent) => void;
+
+export interface InstantJoinerOptions {
+  local?: LocalDiscoveryOptions;
+  // Secret and pinned host keys used to verify QR, NFC and link join codes; without them only
+  // codes this device can check against something it already trusts are accepted
+  joinTokens?: JoinTokenVerifyOptions;
+  // Tried in this order when a join code names a host; defaults to LAN, then Bluetooth
+  transports?: GameTransport[];
+}
+
+// Starts the emulator session once a connection is made, e.g. a rollback NetplaySession
+export type GameSessionHandler = (connection: GameConnection) => Promise<void>;
+
 export class InstantGameJoiner {
   private nfc: NFCGameSharing;
-  private bluetooth: BluetoothGameDiscovery;
-  private local: LocalGameDiscovery;
+  private transports: GameTransport[];
   private isJoining: boolean = false;
+  private sessionHandler: GameSessionHandler | null = null;
+  private tokenOptions: JoinTokenVerifyOptions;
+  private joinListeners: Set<JoinEventListener> = new Set();
 
-  constructor() {
+  constructor(options: InstantJoinerOptions = {}) {
     this.nfc = new NFCGameSharing();
-    this.bluetooth = new BluetoothGameDiscovery();
-    this.local = new LocalGameDiscovery();
+    this.transports = options.transports ?? [
+      new LocalTransport(new LocalGameDiscovery(options.local)),
+      new BluetoothTransport(new BluetoothGameDiscovery())
+    ];
+    this.tokenOptions = options.joinTokens ?? {};
   }
 
+  // The tag only carries a join token; the game itself is reached over the LAN, or Bluetooth without one
   async nfcJoin(): Promise<JoinResult> {
     if (!this.nfc.isNFCSupported()) {
-      return {
-        success: false,
-        error: 'NFC not supported on this device'
-      };
+      return this.fail('nfc', 'unsupported', 'NFC not supported on this device');
     }
 
     try {
       this.isJoining = true;
       const startTime = Date.now();
 
-      const gameData = await this.nfc.readGameShare();
+      const token = await this.nfc.readGameShare();
       
-      if (!gameData) {
-        return {
-          success: false,
-          error: 'No game data received via NFC'
-        };
+      if (!token) {
+        return this.fail('nfc', 'no_games', 'No game data received via NFC');
       }
 
-      const connectionTime = Date.now() - startTime;
-      
-      // Join the game
-      await this.joinGame({
-        connectionType: 'nfc',
-        gameId: gameData.gameId,
-        gameName: gameData.gameName,
-        playerCount: 1,
-        maxPlayers: gameData.gameData.maxPlayers,
-        hostName: gameData.playerName,
-        timestamp: Date.now()
-      });
-
-      return {
-        success: true,
-        gameId: gameData.gameId,
-        gameName: gameData.gameName,
-        connectionTime
-      };
+      return await this.tokenJoin(token, 'nfc', startTime);
     } catch (error) {
-      return {
-        success: false,
-        error: `NFC join failed: ${error}`
-      };
+      return this.fail('nfc', 'error', `NFC join failed: ${error}`);
     } finally {
       this.isJoining = false;
     }
   }
 
   async bluetoothJoin(): Promise<JoinResult> {
-    if (!this.bluetooth.isBluetoothSupported()) {
-      return {
-        success: false,
-        error: 'Bluetooth not supported on this device'
-      };
-    }
+    return this.transportJoin('bluetooth');
+  }
+
+  async localJoin(): Promise<JoinResult> {
+    return this.transportJoin('local');
+  }
 
+  // Scans every transport and joins the best open lobby, falling back across the routes it was found on
+  async quickJoin(): Promise<JoinResult> {
     try {
       this.isJoining = true;
       const startTime = Date.now();
 
-      const devices = await this.bluetooth.startDiscovery();
-      
-      if (devices.length === 0) {
-        return {
-          success: false,
-          error: 'No Bluetooth games found'
-        };
-      }
-
-      // Join the first available game
-      const device = devices[0];
-      const success = await this.bluetooth.joinGame(device.deviceId);
-      
-      if (!success) {
-        return {
-          success: false,
-          error: 'Failed to join Bluetooth game'
-        };
-      }
+      const lobbies = mergeLobbies(await this.discoverAll());
+      return await this.joinBest('quick', lobbies, startTime);
+    } finally {
+      this.isJoining = false;
+    }
+  }
 
-      const connectionTime = Date.now() - startTime;
+  // Joins a lobby picked from getAvailableGames()
+  async joinLobby(lobby: GameLobby): Promise<JoinResult> {
+    try {
+      this.isJoining = true;
+      return await this.joinRoutes('quick', lobby, Date.now());
+    } finally {
+      this.isJoining = false;
+    }
+  }
 
-      return {
-        success: true,
-        gameId: device.gameId,
-        gameName: device.gameName,
-        connectionTime
-      };
-    } catch (error) {
-      return {
-        success: false,
-        error: `Bluetooth join failed: ${error}`
-      };
+  async qrJoin(qrData: string): Promise<JoinResult> {
+    try {
+      this.isJoining = true;
+      return await this.tokenJoin(qrData, 'qr', Date.now());
     } finally {
       this.isJoining = false;
     }
   }
 
-  async localJoin(): Promise<JoinResult> {
+  // Handles mlvarcade://join/<token> links opened from chat, the camera app or the OS
+  async linkJoin(url: string): Promise<JoinResult> {
     try {
       this.isJoining = true;
-      const startTime = Date.now();
+      return await this.tokenJoin(url, 'link', Date.now());
+    } finally {
+      this.isJoining = false;
+    }
+  }
 
-      const games = await this.local.scanLocalNetwork();
-      
-      if (games.length === 0) {
-        return {
-          success: false,
-          error: 'No local games found'
-        };
-      }
+  onJoinEvent(listener: JoinEventListener): () => void {
+    this.joinListeners.add(listener);
+    return () => {
+      this.joinListeners.delete(listener);
+    };
+  }
 
-      // Join the first available game
-      const game = games[0];
-      const success = await this.local.joinGame(game.ip, game.port);
-      
-      if (!success) {
-        return {
-          success: false,
-          error: 'Failed to join local game'
-        };
-      }
+  private async transportJoin(kind: TransportKind): Promise<JoinResult> {
+    const transport = this.transports.find(candidate => candidate.kind === kind);
+    const label = kind === 'local' ? 'Local' : 'Bluetooth';
+    if (!transport?.isAvailable()) {
+      return this.fail(kind, 'unsupported', `${label} not supported on this device`);
+    }
 
-      const connectionTime = Date.now() - startTime;
+    try {
+      this.isJoining = true;
+      const startTime = Date.now();
 
-      return {
-        success: true,
-        gameId: game.gameId,
-        gameName: game.gameName,
-        connectionTime
-      };
+      const lobbies = mergeLobbies(await transport.discover());
+      return await this.joinBest(kind, lobbies, startTime);
     } catch (error) {
-      return {
-        success: false,
-        error: `Local join failed: ${error}`
-      };
+      return this.fail(kind, 'error', `${label} join failed: ${describeError(error)}`);
     } finally {
       this.isJoining = false;
     }
   }
 
-  async qrJoin(qrData: string): Promise<JoinResult> {
+  private async joinBest(method: JoinMethod, lobbies: GameLobby[], startTime: number): Promise<JoinResult> {
+    const where = method === 'bluetooth' ? 'Bluetooth' : method === 'local' ? 'local' : 'nearby';
+    if (lobbies.length === 0) {
+      return this.fail(method, 'no_games', `No ${where} games found`);
+    }
+    // mergeLobbies puts open games first
+    if (lobbies[0]!.full) {
+      return this.fail(method, 'full', `Every ${where} game is full`);
+    }
+    return this.joinRoutes(method, lobbies[0]!, startTime);
+  }
+
+  private async joinRoutes(method: JoinMethod, lobby: GameLobby, startTime: number): Promise<JoinResult> {
+    let failure: TransportError | null = null;
+
+    for (const route of lobby.routes) {
+      const transport = this.transports.find(candidate => candidate.kind === route.transport);
+      if (!transport) {
+        continue;
+      }
+
+      this.emitJoinEvent({ type: 'attempt', method, transport: route.transport, gameId: lobby.gameId, gameName: lobby.gameName, hostName: lobby.hostName });
+      try {
+        await transport.join(route);
+      } catch (error) {
+        failure = toTransportError(error);
+        this.emitJoinEvent({ type: 'transportFailed', method, transport: route.transport, reason: failure.reason, error: failure.message });
+        continue;
+      }
+      return this.connected(method, route, startTime);
+    }
+
+    return this.fail(method, failure?.reason ?? 'unreachable', failure?.message ?? `Could not reach ${lobby.hostName}'s game`);
+  }
+
+  private async tokenJoin(data: string, connectionType: 'nfc' | 'qr' | 'link', startTime: number): Promise<JoinResult> {
+    const label = connectionType === 'link' ? 'Link' : connectionType.toUpperCase();
+
+    let claims: VerifiedJoinToken;
     try {
-      this.isJoining = true;
-      const startTime = Date.now();
+      claims = await verifyJoinToken(data, this.tokenOptions);
+    } catch (error) {
+      if (error instanceof JoinTokenError) {
+        return this.fail(connectionType, 'invalid_token', error.message, error.code);
+      }
+      return this.fail(connectionType, 'error', `${label} join failed: ${describeError(error)}`);
+    }
+    this.emitJoinEvent({ type: 'tokenVerified', method: connectionType, gameId: claims.gameId, gameName: claims.gameName, hostName: claims.hostName });
 
-      // Parse QR code data
-      const gameData = JSON.parse(qrData);
-      
-      if (!gameData.gameId || !gameData.gameName) {
-        return {
-          success: false,
-          error: 'Invalid QR code data'
-        };
+    // Keep the most telling failure: a full game beats one we simply could not reach
+    let failure: TransportError | null = null;
+    for (const transport of this.transports) {
+      if (!transport.isAvailable()) {
+        continue;
+      }
+
+      this.emitJoinEvent({ type: 'attempt', method: connectionType, transport: transport.kind, gameId: claims.gameId, gameName: claims.gameName, hostName: claims.hostName });
+      let route: TransportLobby;
+      try {
+        route = await transport.joinFromToken(claims);
+      } catch (error) {
+        const transportError = toTransportError(error);
+        if (!failure || failure.reason !== 'full') {
+          failure = transportError;
+        }
+        this.emitJoinEvent({ type: 'transportFailed', method: connectionType, transport: transport.kind, reason: transportError.reason, error: transportError.message });
+        if (transportError.reason === 'full') {
+          break;
+        }
+        continue;
       }
+      return this.connected(connectionType, { ...route, gameName: claims.gameName, hostName: claims.hostName, maxPlayers: claims.maxPlayers }, startTime);
+    }
 
-      const connectionTime = Date.now() - startTime;
+    return this.fail(
+      connectionType,
+      failure?.reason ?? 'unsupported',
+      `${label} join failed: ${failure?.message ?? 'No way to reach the host from this device'}`
+    );
+  }
 
-      // Join the game
+  private async connected(method: JoinMethod, route: TransportLobby, startTime: number): Promise<JoinResult> {
+    try {
       await this.joinGame({
-        connectionType: 'qr',
-        gameId: gameData.gameId,
-        gameName: gameData.gameName,
-        playerCount: gameData.playerCount || 1,
-        maxPlayers: gameData.maxPlayers || 4,
-        hostName: gameData.hostName || 'Unknown Host',
+        connectionType: method === 'quick' ? route.transport : method,
+        transport: route.transport,
+        gameId: route.gameId,
+        gameName: route.gameName,
+        playerCount: route.playerCount,
+        maxPlayers: route.maxPlayers,
+        hostName: route.hostName,
+        ping: route.ping,
+        signalStrength: route.signalStrength,
+        distance: route.distance,
         timestamp: Date.now()
       });
-
-      return {
-        success: true,
-        gameId: gameData.gameId,
-        gameName: gameData.gameName,
-        connectionTime
-      };
     } catch (error) {
-      return {
-        success: false,
-        error: `QR join failed: ${error}`
-      };
-    } finally {
-      this.isJoining = false;
+      return this.fail(method, 'error', `Game session failed to start: ${describeError(error)}`);
     }
+
+    const connectionTime = Date.now() - startTime;
+    this.emitJoinEvent({ type: 'connected', method, transport: route.transport, gameId: route.gameId, gameName: route.gameName, connectionTime });
+
+    return {
+      success: true,
+      gameId: route.gameId,
+      gameName: route.gameName,
+      transport: route.transport,
+      connectionTime
+    };
+  }
+
+  private fail(method: JoinMethod, reason: JoinFailureReason, error: string, tokenError?: JoinTokenErrorCode): JoinResult {
+    const token = tokenError ? { tokenError } : {};
+    this.emitJoinEvent({ type: 'failed', method, reason, error, ...token });
+    return {
+      success: false,
+      error,
+      reason,
+      ...token
+    };
+  }
+
+  private emitJoinEvent(event: JoinEvent): void {
+    this.joinListeners.forEach(listener => listener(event));
   }
 
   private async joinGame(connection: GameConnection): Promise<void> {
     // Start game connection
-    console.log(`🎮 Joining game: ${connection.gameName} via ${connection.connectionType}`);
-    
-    // This would typically involve:
-    // 1. Establishing a connection to the game server
-    // 2. Sending player information
-    // 3. Starting the game session
-    // 4. Updating the UI to show the game is starting
+    console.log(`🎮 Joining game: ${connection.gameName} via ${connection.connectionType} (${connection.transport})`);
+
+    if (this.sessionHandler) {
+      await this.sessionHandler(connection);
+    }
+  }
+
+  setSessionHandler(handler: GameSessionHandler | null): void {
+    this.sessionHandler = handler;
   }
 
+  // What the last discovery found on every transport, one entry per host, best first
   async getAvailableGames(): Promise<{
     nfc: boolean;
-    bluetooth: BluetoothGameDevice[];
-    local: LocalGameServer[];
+    lobbies: GameLobby[];
   }> {
-    const bluetoothGames = this.bluetooth.getDiscoveredDevices();
-    const localGames = this.local.getDiscoveredGames();
-
     return {
       nfc: this.nfc.isNFCSupported(),
-      bluetooth: bluetoothGames,
-      local: localGames
+      lobbies: mergeLobbies(this.transports.flatMap(transport => transport.getLobbies()))
     };
   }
 
   async startDiscovery(): Promise<void> {
     // Start all discovery methods
-    await Promise.allSettled([
-      this.bluetooth.startDiscovery(),
-      this.local.scanLocalNetwork()
-    ]);
+    await this.discoverAll();
   }
 
   async stopDiscovery(): Promise<void> {
     // Stop all discovery methods
-    await Promise.allSettled([
-      this.bluetooth.stopDiscovery(),
-      this.local.stopScanning()
-    ]);
+    await Promise.allSettled(this.transports.map(transport => transport.stop()));
   }
 
   isCurrentlyJoining(): boolean {
@@ -278,13 +358,30 @@ export class InstantGameJoiner {
       methods.push('nfc');
     }
     
-    if (this.bluetooth.isBluetoothSupported()) {
-      methods.push('bluetooth');
+    for (const transport of this.transports) {
+      if (transport.isAvailable()) {
+        methods.push(transport.kind);
+      }
     }
     
-    methods.push('local'); // Local network is always available
     methods.push('qr'); // QR code is always available
+    methods.push('link');
     
     return methods;
   }
+
+  private async discoverAll(): Promise<TransportLobby[]> {
+    const results = await Promise.allSettled(
+      this.transports.filter(transport => transport.isAvailable()).map(transport => transport.discover())
+    );
+    return results.flatMap(result => result.status === 'fulfilled' ? result.value : []);
+  }
+}
+
+function toTransportError(error: unknown): TransportError {
+  return error instanceof TransportError ? error : new TransportError('error', describeError(error));
+}
+
+function describeError(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
 }
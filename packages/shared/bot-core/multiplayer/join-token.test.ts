@@ -0,0 +1,74 @@
+import { GAME_PROTOCOL_VERSION } from './game-host-protocol';
+import { JoinTokenError, JoinTokenIssuer, generateHostKeyPair, verifyJoinToken } from './join-token';
+
+const CLAIMS = {
+  roomCode: 'K7WQ3P',
+  gameId: 'tetris',
+  gameName: 'Tetris',
+  hostName: 'Ann',
+  maxPlayers: 2,
+  endpoints: ['192.168.1.20:7400']
+};
+
+const rejection = async (promise: Promise<unknown>): Promise<JoinTokenError> => {
+  try {
+    await promise;
+  } catch (error) {
+    return error as JoinTokenError;
+  }
+  throw new Error('Expected the join token to be rejected');
+};
+
+describe('join tokens', () => {
+  let issuer: JoinTokenIssuer;
+  let hostKey: string;
+
+  beforeAll(async () => {
+    issuer = new JoinTokenIssuer({ algorithm: 'Ed25519', ...(await generateHostKeyPair()) });
+    hostKey = issuer.getHostKey()!;
+  });
+
+  it('accepts an Ed25519 token from a pinned host key', async () => {
+    const verified = await verifyJoinToken(await issuer.issue(CLAIMS), { trustedHostKeys: [hostKey] });
+
+    expect(verified).toMatchObject({ ...CLAIMS, algorithm: 'Ed25519', hostKey, protocolVersion: GAME_PROTOCOL_VERSION });
+  });
+
+  it('rejects an Ed25519 token when no host keys are trusted', async () => {
+    const error = await rejection(verifyJoinToken(await issuer.issue(CLAIMS)));
+
+    expect(error).toBeInstanceOf(JoinTokenError);
+    expect(error.code).toBe('UNTRUSTED_HOST');
+  });
+
+  it('rejects a self-consistent token from a key nobody pinned', async () => {
+    const forger = new JoinTokenIssuer({ algorithm: 'Ed25519', ...(await generateHostKeyPair()) });
+
+    const error = await rejection(verifyJoinToken(await forger.issue(CLAIMS), { trustedHostKeys: [hostKey] }));
+
+    expect(error.code).toBe('UNTRUSTED_HOST');
+  });
+
+  it('accepts unknown host keys only when asked to', async () => {
+    const verified = await verifyJoinToken(await issuer.issue(CLAIMS), { allowUnknownHostKeys: true });
+
+    expect(verified.hostKey).toBe(hostKey);
+  });
+
+  it('rejects a pinned-key token whose payload was altered', async () => {
+    const [prefix, payload, signature] = (await issuer.issue(CLAIMS)).split('.');
+    const altered = JSON.parse(Buffer.from(payload!, 'base64url').toString());
+    altered.e = ['203.0.113.9:7400'];
+    const token = `${prefix}.${Buffer.from(JSON.stringify(altered)).toString('base64url')}.${signature}`;
+
+    expect((await rejection(verifyJoinToken(token, { trustedHostKeys: [hostKey] }))).code).toBe('BAD_SIGNATURE');
+  });
+
+  it('verifies HS256 tokens against the shared secret', async () => {
+    const shared = new JoinTokenIssuer({ algorithm: 'HS256', secret: 'arcade-night' });
+    const token = await shared.issue(CLAIMS);
+
+    await expect(verifyJoinToken(token, { secret: 'arcade-night' })).resolves.toMatchObject({ algorithm: 'HS256', hostKey: null });
+    expect((await rejection(verifyJoinToken(token, { secret: 'wrong' }))).code).toBe('BAD_SIGNATURE');
+  });
+});
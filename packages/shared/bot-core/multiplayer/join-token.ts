@@ -0,0 +1,291 @@
+// Join Tokens
+// Signed, versioned join payloads shared by QR codes, NFC tags and deep links
+//
+// Token layout: "mlv1.<payload>.<signature>", both parts base64url without padding.
+// The signature covers the ASCII bytes of "mlv1.<payload>". Payload keys are kept to one letter
+// so a token with two endpoints still fits a low-density QR code.
+
+import { webcrypto } from 'crypto';
+import { decodeBase64Url, encodeBase64Url } from './base64url';
+import { GAME_PROTOCOL_VERSION } from './game-host-protocol';
+
+export const JOIN_TOKEN_VERSION = 1;
+export const JOIN_TOKEN_PREFIX = `mlv${JOIN_TOKEN_VERSION}`;
+export const JOIN_LINK_PREFIX = 'mlvarcade://join/';
+export const DEFAULT_JOIN_TOKEN_TTL_MS = 10 * 60 * 1000;
+
+// Skips 0/O and 1/I/L so room codes survive being read aloud
+const ROOM_CODE_ALPHABET = 'ABCDEFGHJKMNPQRSTUVWXYZ23456789';
+const ROOM_CODE_LENGTH = 6;
+const DEFAULT_CLOCK_SKEW_MS = 30 * 1000;
+
+// Node's WebCrypto, imported rather than taken from globalThis, which Node 18 does not populate
+const { subtle } = webcrypto;
+type CryptoKey = webcrypto.CryptoKey;
+
+export type JoinTokenAlgorithm = 'HS256' | 'Ed25519';
+
+export type JoinTokenErrorCode =
+  | 'MALFORMED'
+  | 'UNSUPPORTED_VERSION'
+  | 'INCOMPATIBLE_PROTOCOL'
+  | 'BAD_SIGNATURE'
+  | 'UNTRUSTED_HOST'
+  | 'EXPIRED'
+  | 'NOT_YET_VALID';
+
+export class JoinTokenError extends Error {
+  readonly code: JoinTokenErrorCode;
+
+  constructor(code: JoinTokenErrorCode, message: string) {
+    super(message);
+    this.name = 'JoinTokenError';
+    this.code = code;
+  }
+}
+
+export interface JoinTokenClaims {
+  roomCode: string;
+  gameId: string;
+  gameName: string;
+  hostName: string;
+  maxPlayers: number;
+  // Candidate "host:port" addresses of the host's game server, best first
+  endpoints: string[];
+  issuedAt: number;
+  expiresAt: number;
+  protocolVersion: number;
+}
+
+export interface VerifiedJoinToken extends JoinTokenClaims {
+  algorithm: JoinTokenAlgorithm;
+  // Base64url raw Ed25519 key that signed the token; null for HS256
+  hostKey: string | null;
+}
+
+export type JoinTokenSigningKey =
+  | { algorithm: 'HS256'; secret: Uint8Array | string }
+  | { algorithm: 'Ed25519'; privateKey: CryptoKey; publicKey: Uint8Array };
+
+export interface JoinTokenVerifyOptions {
+  // Shared secret for HS256 tokens
+  secret?: Uint8Array | string;
+  // Base64url Ed25519 host keys to accept, e.g. pinned from an earlier game with the same host
+  trustedHostKeys?: string[];
+  // An Ed25519 token carries its own key, so any forger can make one that verifies. Only set this
+  // where the player confirms the host in person and the key is pinned afterwards
+  allowUnknownHostKeys?: boolean;
+  now?: number;
+  clockSkewMs?: number;
+}
+
+interface TokenPayload {
+  a: JoinTokenAlgorithm;
+  p: number;
+  r: string;
+  g: string;
+  n: string;
+  h: string;
+  m: number;
+  e: string[];
+  i: number;
+  x: number;
+  k?: string;
+}
+
+function base64UrlDecode(text: string) {
+  try {
+    return decodeBase64Url(text);
+  } catch (error) {
+    throw new JoinTokenError('MALFORMED', 'Join token contains invalid characters');
+  }
+}
+
+function utf8(text: string) {
+  return new TextEncoder().encode(text);
+}
+
+function hmacKey(secret: Uint8Array | string, usage: 'sign' | 'verify'): Promise<CryptoKey> {
+  const raw = typeof secret === 'string' ? utf8(secret) : Uint8Array.from(secret);
+  return subtle.importKey('raw', raw, { name: 'HMAC', hash: 'SHA-256' }, false, [usage]);
+}
+
+export function generateRoomCode(): string {
+  const random = webcrypto.getRandomValues(new Uint8Array(ROOM_CODE_LENGTH));
+  return Array.from(random, byte => ROOM_CODE_ALPHABET[byte % ROOM_CODE_ALPHABET.length]).join('');
+}
+
+export async function generateHostKeyPair(): Promise<{ privateKey: CryptoKey; publicKey: Uint8Array }> {
+  const pair = await subtle.generateKey({ name: 'Ed25519' }, true, ['sign', 'verify']) as webcrypto.CryptoKeyPair;
+  const publicKey = new Uint8Array(await subtle.exportKey('raw', pair.publicKey));
+  return { privateKey: pair.privateKey, publicKey };
+}
+
+export function createJoinLink(token: string): string {
+  return `${JOIN_LINK_PREFIX}${token}`;
+}
+
+// Accepts a bare token, an mlvarcade:// link, or an https link carrying ?t=<token>
+export function extractJoinToken(text: string): string {
+  const trimmed = text.trim();
+  if (trimmed.startsWith(JOIN_LINK_PREFIX)) {
+    return trimmed.slice(JOIN_LINK_PREFIX.length);
+  }
+  if (/^https?:\/\//.test(trimmed)) {
+    try {
+      const token = new URL(trimmed).searchParams.get('t');
+      if (token) {
+        return token;
+      }
+    } catch (error) {
+      // Fall through to the malformed-token error below
+    }
+  }
+  return trimmed;
+}
+
+function splitToken(text: string) {
+  const token = extractJoinToken(text);
+  const parts = token.split('.');
+  const version = /^mlv(\d+)$/.exec(parts[0] ?? '');
+
+  if (!version) {
+    throw new JoinTokenError('MALFORMED', 'Not a 3kMLV join code');
+  }
+  if (Number(version[1]) !== JOIN_TOKEN_VERSION) {
+    throw new JoinTokenError(
+      'UNSUPPORTED_VERSION',
+      `Join code format v${version[1]} is not supported by this app (expects v${JOIN_TOKEN_VERSION}); update the app`
+    );
+  }
+  if (parts.length !== 3) {
+    throw new JoinTokenError('MALFORMED', 'Join code is incomplete');
+  }
+
+  let payload: TokenPayload;
+  try {
+    payload = JSON.parse(new TextDecoder().decode(base64UrlDecode(parts[1]!)));
+  } catch (error) {
+    throw new JoinTokenError('MALFORMED', 'Join code payload is unreadable');
+  }
+  if (
+    typeof payload !== 'object' || payload === null ||
+    typeof payload.r !== 'string' || typeof payload.g !== 'string' ||
+    typeof payload.x !== 'number' || !Array.isArray(payload.e)
+  ) {
+    throw new JoinTokenError('MALFORMED', 'Join code is missing required fields');
+  }
+
+  return { payload, signed: `${parts[0]}.${parts[1]}`, signature: base64UrlDecode(parts[2]!) };
+}
+
+function toClaims(payload: TokenPayload): JoinTokenClaims {
+  return {
+    roomCode: payload.r,
+    gameId: payload.g,
+    gameName: payload.n,
+    hostName: payload.h,
+    maxPlayers: payload.m,
+    endpoints: payload.e,
+    issuedAt: payload.i,
+    expiresAt: payload.x,
+    protocolVersion: payload.p
+  };
+}
+
+// Reads the claims without checking the signature, e.g. to show a preview while verifying
+export function parseJoinToken(token: string): JoinTokenClaims {
+  return toClaims(splitToken(token).payload);
+}
+
+export async function verifyJoinToken(token: string, options: JoinTokenVerifyOptions = {}): Promise<VerifiedJoinToken> {
+  const { payload, signed, signature } = splitToken(token);
+
+  if (payload.p !== GAME_PROTOCOL_VERSION) {
+    throw new JoinTokenError(
+      'INCOMPATIBLE_PROTOCOL',
+      `Host runs game protocol v${payload.p}, this app speaks v${GAME_PROTOCOL_VERSION}`
+    );
+  }
+
+  let valid = false;
+  if (payload.a === 'HS256') {
+    if (!options.secret) {
+      throw new JoinTokenError('UNTRUSTED_HOST', 'Join code is signed with a shared secret this device does not have');
+    }
+    valid = await subtle.verify('HMAC', await hmacKey(options.secret, 'verify'), signature, utf8(signed));
+  } else if (payload.a === 'Ed25519' && typeof payload.k === 'string') {
+    if (!options.allowUnknownHostKeys && !options.trustedHostKeys?.includes(payload.k)) {
+      throw new JoinTokenError('UNTRUSTED_HOST', 'Join code was signed by an unknown host key');
+    }
+    try {
+      const key = await subtle.importKey('raw', base64UrlDecode(payload.k), { name: 'Ed25519' }, false, ['verify']);
+      valid = await subtle.verify({ name: 'Ed25519' }, key, signature, utf8(signed));
+    } catch (error) {
+      valid = false;
+    }
+  } else {
+    throw new JoinTokenError('MALFORMED', `Unknown join code signature algorithm "${payload.a}"`);
+  }
+
+  if (!valid) {
+    throw new JoinTokenError('BAD_SIGNATURE', 'Join code has been altered or was not signed by this host');
+  }
+
+  const now = options.now ?? Date.now();
+  const skew = options.clockSkewMs ?? DEFAULT_CLOCK_SKEW_MS;
+  if (now > payload.x + skew) {
+    const minutes = Math.max(1, Math.round((now - payload.x) / 60000));
+    throw new JoinTokenError('EXPIRED', `Join code expired ${minutes} minute${minutes === 1 ? '' : 's'} ago; ask the host for a new one`);
+  }
+  if (payload.i > now + skew) {
+    throw new JoinTokenError('NOT_YET_VALID', 'Join code was issued in the future; check the device clock');
+  }
+
+  return { ...toClaims(payload), algorithm: payload.a, hostKey: payload.k ?? null };
+}
+
+export class JoinTokenIssuer {
+  private key: JoinTokenSigningKey;
+  private ttlMs: number;
+
+  constructor(key: JoinTokenSigningKey, ttlMs: number = DEFAULT_JOIN_TOKEN_TTL_MS) {
+    this.key = key;
+    this.ttlMs = ttlMs;
+  }
+
+  // Base64url host key that joiners can pin via trustedHostKeys; null for HS256
+  getHostKey(): string | null {
+    return this.key.algorithm === 'Ed25519' ? encodeBase64Url(this.key.publicKey) : null;
+  }
+
+  async issue(
+    claims: Omit<JoinTokenClaims, 'issuedAt' | 'expiresAt' | 'protocolVersion'>,
+    ttlMs: number = this.ttlMs
+  ): Promise<string> {
+    const issuedAt = Date.now();
+    const payload: TokenPayload = {
+      a: this.key.algorithm,
+      p: GAME_PROTOCOL_VERSION,
+      r: claims.roomCode,
+      g: claims.gameId,
+      n: claims.gameName,
+      h: claims.hostName,
+      m: claims.maxPlayers,
+      e: claims.endpoints,
+      i: issuedAt,
+      x: issuedAt + ttlMs
+    };
+    const hostKey = this.getHostKey();
+    if (hostKey) {
+      payload.k = hostKey;
+    }
+
+    const signed = `${JOIN_TOKEN_PREFIX}.${encodeBase64Url(utf8(JSON.stringify(payload)))}`;
+    const signature = this.key.algorithm === 'HS256'
+      ? await subtle.sign('HMAC', await hmacKey(this.key.secret, 'sign'), utf8(signed))
+      : await subtle.sign({ name: 'Ed25519' }, this.key.privateKey, utf8(signed));
+
+    return `${signed}.${encodeBase64Url(new Uint8Array(signature))}`;
+  }
+}
@@ -1,6 +1,21 @@
 // Local Network Game Discovery
 // Nintendo DS local wireless simplicity
 
+import {
+  GAME_HOST_PORTS,
+  GAME_JOIN_PATH,
+  GAME_LEAVE_PATH,
+  GAME_LOBBY_PATH,
+  GAME_SERVICE_TYPE,
+  GAME_STATUS_PATH,
+  GameJoinResponse,
+  LobbyPlayer,
+  LobbyServerMessage,
+  gameStatusFromTxt
+} from './game-host-protocol';
+import { JoinTokenClaims } from './join-token';
+import { DiscoveredService, MulticastTransport, ServiceBrowser } from './mdns';
+
 export interface LocalGameServer {
   ip: string;
   port: number;
@@ -23,20 +38,72 @@ export interface LocalGameData {
   timestamp: number;
 }
 
+export interface LocalGameSession {
+  ip: string;
+  port: number;
+  gameId: string;
+  playerId: string;
+  token: string;
+  players: LobbyPlayer[];
+}
+
+export type LobbyListener = (players: LobbyPlayer[], session: LocalGameSession) => void;
+
+export interface LocalDiscoveryOptions {
+  playerName?: string;
+  // mDNS transport used to browse for _mlvarcade._tcp hosts
+  multicast?: MulticastTransport | null;
+  // Opt-in fallback for networks that drop multicast: probes every address in sweepRanges over HTTP
+  subnetSweep?: boolean;
+  sweepRanges?: string[];
+  // How long scanLocalNetwork waits for mDNS answers before returning
+  browseTimeoutMs?: number;
+}
+
+// What a failed join looked like from here, so callers need not read messages
+export type LocalJoinErrorCode = 'full' | 'rejected' | 'unreachable';
+
+export class LocalJoinError extends Error {
+  code: LocalJoinErrorCode;
+
+  constructor(code: LocalJoinErrorCode, message: string) {
+    super(message);
+    this.name = 'LocalJoinError';
+    this.code = code;
+  }
+}
+
+// Game host servers answer a join to a full game with 409 Conflict
+const HTTP_CONFLICT = 409;
+
+const DEFAULT_SWEEP_RANGES = ['192.168.1', '192.168.0', '10.0.0', '172.16.0'];
+const DEFAULT_BROWSE_TIMEOUT_MS = 1500;
+
 export class LocalGameDiscovery {
   private localGames: Map<string, LocalGameServer> = new Map();
   private isScanning: boolean = false;
   private scanInterval: number | null = null;
-  private baseIP: string = '';
+  private playerName: string;
+  private browser: ServiceBrowser | null = null;
+  private subnetSweep: boolean;
+  private sweepRanges: string[];
+  private browseTimeoutMs: number;
+  private session: LocalGameSession | null = null;
+  private lobbySocket: WebSocket | null = null;
+  private lobbyListeners: Set<LobbyListener> = new Set();
 
-  constructor() {
-    this.detectBaseIP();
-  }
+  constructor(options: LocalDiscoveryOptions = {}) {
+    this.playerName = options.playerName ?? 'Player';
+    this.subnetSweep = options.subnetSweep ?? false;
+    this.sweepRanges = options.sweepRanges ?? DEFAULT_SWEEP_RANGES;
+    this.browseTimeoutMs = options.browseTimeoutMs ?? DEFAULT_BROWSE_TIMEOUT_MS;
 
-  private detectBaseIP(): void {
-    // Detect local network base IP
-    // This is a simplified version - in reality, you'd need to detect the actual network
-    this.baseIP = '192.168.1'; // Default home network
+    if (options.multicast) {
+      this.browser = new ServiceBrowser(options.multicast, GAME_SERVICE_TYPE);
+      this.browser.on('serviceUp', (service: DiscoveredService) => this.handleService(service));
+      this.browser.on('serviceUpdated', (service: DiscoveredService) => this.handleService(service));
+      this.browser.on('serviceDown', (service: DiscoveredService) => this.handleServiceDown(service));
+    }
   }
 
   async scanLocalNetwork(): Promise<LocalGameServer[]> {
@@ -45,22 +112,28 @@ export class LocalGameDiscovery {
 
     try {
       console.log('🌐 Scanning local network for games...');
-      
-      // Scan common IP ranges
-      const ipRanges = [
-        '192.168.1',
-        '192.168.0',
-        '10.0.0',
-        '172.16.0'
-      ];
-
-      for (const baseIP of ipRanges) {
-        await this.scanIPRange(baseIP);
+
+      if (this.browser) {
+        if (this.browser.isBrowsing()) {
+          this.browser.refresh();
+        } else {
+          this.browser.start();
+        }
+        this.browser.getServices().forEach(service => this.handleService(service));
+        await new Promise(resolve => setTimeout(resolve, this.browseTimeoutMs));
+      } else if (!this.subnetSweep) {
+        console.warn('🌐 No multicast transport and subnet sweep disabled; nothing to scan with');
+      }
+
+      if (this.subnetSweep) {
+        for (const baseIP of this.sweepRanges) {
+          await this.scanIPRange(baseIP);
+        }
+
+        // mDNS browsing is continuous by itself; only the sweep needs re-running
+        this.startContinuousScanning();
       }
 
-      // Start continuous scanning
-      this.startContinuousScanning();
-      
       return Array.from(this.localGames.values());
     } catch (error) {
       console.error('❌ Local network scan failed:', error);
@@ -85,9 +158,7 @@ export class LocalGameDiscovery {
   private async checkForGame(ip: string): Promise<void> {
     try {
       // Check for gunnchAI3k game server on common ports
-      const ports = [3000, 3001, 8080, 8081];
-      
-      for (const port of ports) {
+      for (const port of GAME_HOST_PORTS) {
         const gameData = await this.checkGamePort(ip, port);
         if (gameData) {
           this.localGames.set(`${ip}:${port}`, gameData);
@@ -103,7 +174,7 @@ export class LocalGameDiscovery {
       const controller = new AbortController();
       const timeoutId = setTimeout(() => controller.abort(), 1000); // 1 second timeout
 
-      const response = await fetch(`http://${ip}:${port}/api/game/status`, {
+      const response = await fetch(`http://${ip}:${port}${GAME_STATUS_PATH}`, {
         method: 'GET',
         signal: controller.signal,
         headers: {
@@ -137,7 +208,37 @@ export class LocalGameDiscovery {
     return null;
   }
 
+  private handleService(service: DiscoveredService): void {
+    const status = gameStatusFromTxt(service.txt);
+    const ip = service.addresses[0];
+    if (!status || !ip) {
+      return;
+    }
+
+    this.localGames.set(`${ip}:${service.port}`, {
+      ip,
+      port: service.port,
+      gameId: status.gameId,
+      gameName: status.gameName,
+      playerCount: status.playerCount,
+      maxPlayers: status.maxPlayers,
+      hostName: status.hostName,
+      ping: service.responseTime ?? 0,
+      lastSeen: service.lastSeen,
+      status: status.status
+    });
+  }
+
+  private handleServiceDown(service: DiscoveredService): void {
+    for (const address of service.addresses) {
+      this.localGames.delete(`${address}:${service.port}`);
+    }
+  }
+
   private startContinuousScanning(): void {
+    if (this.scanInterval) {
+      return;
+    }
     this.scanInterval = window.setInterval(async () => {
       if (this.isScanning) {
         await this.scanLocalNetwork();
@@ -150,11 +251,11 @@ export class LocalGameDiscovery {
     const game = this.localGames.get(gameKey);
     
     if (!game) {
-      throw new Error('Game not found');
+      throw new LocalJoinError('unreachable', 'Game not found');
     }
 
     if (game.status === 'full') {
-      throw new Error('Game is full');
+      throw new LocalJoinError('full', 'Game is full');
     }
 
     try {
@@ -178,17 +279,164 @@ export class LocalGameDiscovery {
     }
   }
 
-  private async startGameConnection(gameData: LocalGameData): Promise<void> {
-    // Start game connection to local server
+  // Joins the host named by a verified join token, trying its endpoints in order
+  async joinFromToken(claims: JoinTokenClaims): Promise<LocalGameServer> {
+    for (const endpoint of claims.endpoints) {
+      const separator = endpoint.lastIndexOf(':');
+      const ip = endpoint.slice(0, separator);
+      const port = Number(endpoint.slice(separator + 1));
+      if (separator <= 0 || !Number.isInteger(port)) {
+        continue;
+      }
+
+      const game = await this.checkGamePort(ip, port);
+      // Another game may have taken the port since the token was issued
+      if (!game || game.gameId !== claims.gameId) {
+        continue;
+      }
+      if (game.status === 'full') {
+        throw new LocalJoinError('full', `${claims.gameName} is full`);
+      }
+
+      this.localGames.set(`${ip}:${port}`, game);
+      await this.startGameConnection({
+        connectionType: 'local',
+        ip,
+        port,
+        gameId: game.gameId,
+        gameName: game.gameName,
+        timestamp: Date.now()
+      }, claims.roomCode);
+
+      console.log('🎮 Joined local game:', game.gameName);
+      return game;
+    }
+
+    throw new LocalJoinError('unreachable', `Could not reach ${claims.hostName}'s game on this network`);
+  }
+
+  private async startGameConnection(gameData: LocalGameData, roomCode?: string): Promise<void> {
     console.log('🌐 Connecting to local game:', gameData.gameName);
-    
-    // This would typically involve establishing a WebSocket connection
-    // or making HTTP requests to the local game server
+
+    if (this.session) {
+      await this.leaveGame();
+    }
+
+    const response = await fetch(`http://${gameData.ip}:${gameData.port}${GAME_JOIN_PATH}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Accept': 'application/json',
+        'User-Agent': 'gunnchAI3k-Hub/1.0'
+      },
+      body: JSON.stringify({ playerName: this.playerName, roomCode })
+    });
+    const body = await response.json();
+    if (!response.ok) {
+      throw new LocalJoinError(
+        response.status === HTTP_CONFLICT ? 'full' : 'rejected',
+        body.error || `Join failed with HTTP ${response.status}`
+      );
+    }
+
+    const join = body as GameJoinResponse;
+    const session: LocalGameSession = {
+      ip: gameData.ip,
+      port: gameData.port,
+      gameId: gameData.gameId,
+      playerId: join.playerId,
+      token: join.token,
+      players: join.players
+    };
+    this.session = session;
+    this.updateGameFromStatus(session, join.status.playerCount, join.status.status);
+    this.openLobbySocket(session);
+  }
+
+  // The lobby socket keeps our seat; the host frees it if the socket stays closed too long
+  private openLobbySocket(session: LocalGameSession): void {
+    const query = `playerId=${encodeURIComponent(session.playerId)}&token=${encodeURIComponent(session.token)}`;
+    const socket = new WebSocket(`ws://${session.ip}:${session.port}${GAME_LOBBY_PATH}?${query}`);
+    this.lobbySocket = socket;
+
+    socket.onmessage = event => {
+      let message: LobbyServerMessage;
+      try {
+        message = JSON.parse(String(event.data));
+      } catch (error) {
+        return;
+      }
+
+      if (message.type === 'lobby') {
+        session.players = message.players;
+        this.updateGameFromStatus(session, message.status.playerCount, message.status.status);
+        this.lobbyListeners.forEach(listener => listener(message.players, session));
+      } else {
+        console.log(message.type === 'kicked' ? '🚫 Removed from game:' : '🌐 Game closed:', message.reason);
+        this.endSession(session);
+      }
+    };
+    socket.onclose = () => {
+      if (this.lobbySocket === socket) {
+        this.lobbySocket = null;
+      }
+    };
+  }
+
+  async leaveGame(): Promise<boolean> {
+    const session = this.session;
+    if (!session) {
+      return false;
+    }
+
+    try {
+      await fetch(`http://${session.ip}:${session.port}${GAME_LEAVE_PATH}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ playerId: session.playerId, token: session.token })
+      });
+      return true;
+    } catch (error) {
+      console.error('❌ Local game leave failed:', error);
+      return false;
+    } finally {
+      this.endSession(session);
+    }
+  }
+
+  onLobbyUpdate(listener: LobbyListener): () => void {
+    this.lobbyListeners.add(listener);
+    return () => {
+      this.lobbyListeners.delete(listener);
+    };
+  }
+
+  getCurrentSession(): LocalGameSession | null {
+    return this.session;
+  }
+
+  private endSession(session: LocalGameSession): void {
+    if (this.session !== session) {
+      return;
+    }
+    this.session = null;
+    this.lobbySocket?.close();
+    this.lobbySocket = null;
+  }
+
+  private updateGameFromStatus(session: LocalGameSession, playerCount: number, status: 'online' | 'full'): void {
+    const game = this.localGames.get(`${session.ip}:${session.port}`);
+    if (game) {
+      game.playerCount = playerCount;
+      game.status = status;
+      game.lastSeen = Date.now();
+    }
   }
 
   async stopScanning(): Promise<void> {
     this.isScanning = false;
-    
+    this.browser?.stop();
+
     if (this.scanInterval) {
       clearInterval(this.scanInterval);
       this.scanInterval = null;
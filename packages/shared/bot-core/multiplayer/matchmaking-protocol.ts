@@ -0,0 +1,49 @@
+// Matchmaking Protocol
+// JSON messages between players and the matchmaking service
+
+import type { EdgeNodeLatency, Match, MatchmakingErrorCode, MatchmakingQueueConfig, Party, PlayerRating, QueueTicket } from './matchmaking';
+import type { PictoChatSocket } from './pictochat-protocol';
+
+export const MATCHMAKING_PORT = 8091;
+export const MATCHMAKING_PATH = '/matchmaking';
+
+export interface MatchmakingProfile {
+  playerId: string;
+  playerName: string;
+}
+
+// Same ordered text channel as the PictoChat hub, so createPictoChatPipe() works for offline runs
+export type MatchmakingSocket = PictoChatSocket;
+
+// Player -> service
+export type MatchmakingClientMessage =
+  // resumeToken from an earlier welcome; without it a known playerId is swapped for a fresh one
+  | { type: 'hello'; profile: MatchmakingProfile; resumeToken?: string }
+  // Sent whenever EdgeIOIntegration refreshes its nodes
+  | { type: 'latency'; nodes: EdgeNodeLatency[] }
+  | { type: 'createParty'; requestId: string }
+  | { type: 'inviteToParty'; requestId: string; playerId: string }
+  | { type: 'acceptPartyInvite'; requestId: string; partyId: string }
+  | { type: 'leaveParty' }
+  | { type: 'queue'; requestId: string; gameId: string; mode: string }
+  | { type: 'cancelQueue' }
+  // placements maps every player in the match to their finishing position, 1 = winner
+  | { type: 'reportResult'; requestId: string; matchId: string; placements: Record<string, number> }
+  | { type: 'getRating'; requestId: string; gameId: string; mode: string }
+  | { type: 'ping' };
+
+// Service -> player
+export type MatchmakingServerMessage =
+  // playerId may differ from the one in hello; keep resumeToken to reclaim it on the next connection
+  | { type: 'welcome'; playerId: string; resumeToken: string; queues: MatchmakingQueueConfig[]; party: Party | null }
+  | { type: 'requestDone'; requestId: string }
+  | { type: 'requestFailed'; requestId: string; code: MatchmakingErrorCode | 'invalid_request'; error: string }
+  | { type: 'party'; party: Party | null }
+  | { type: 'partyInvite'; partyId: string; fromId: string; fromName: string }
+  | { type: 'queued'; ticket: QueueTicket }
+  | { type: 'dequeued'; ticketId: string; reason: 'cancelled' | 'party_changed' }
+  | { type: 'matchFound'; match: Match }
+  | { type: 'matchSettled'; match: Match }
+  | { type: 'rating'; requestId: string; gameId: string; mode: string; rating: PlayerRating }
+  | { type: 'error'; error: string }
+  | { type: 'pong' };
@@ -0,0 +1,74 @@
+import { MatchmakingServerMessage } from './matchmaking-protocol';
+import { MatchmakingServer } from './matchmaking-server';
+import { createPictoChatPipe } from './pictochat-protocol';
+
+type Welcome = Extract<MatchmakingServerMessage, { type: 'welcome' }>;
+
+describe('MatchmakingServer', () => {
+  let server: MatchmakingServer;
+
+  // Says hello over a fresh pipe and resolves with the service's answer
+  const hello = (playerId: string, playerName: string, resumeToken?: string): Promise<Welcome> => {
+    const [client, service] = createPictoChatPipe();
+    server.accept(service);
+    const welcome = new Promise<Welcome>((resolve, reject) => {
+      client.onMessage(data => {
+        const message: MatchmakingServerMessage = JSON.parse(data);
+        if (message.type === 'welcome') {
+          resolve(message);
+        } else if (message.type === 'error') {
+          reject(new Error(message.error));
+        }
+      });
+    });
+    client.send(JSON.stringify({ type: 'hello', profile: { playerId, playerName }, resumeToken }));
+    return welcome;
+  };
+
+  beforeEach(() => {
+    server = new MatchmakingServer({ queues: [{ gameId: 'pong', mode: 'duel', maxPlayers: 2 }] });
+  });
+
+  afterEach(async () => {
+    await server.stop();
+  });
+
+  it('issues a resume token with the first welcome', async () => {
+    const welcome = await hello('ann', 'Ann');
+
+    expect(welcome.playerId).toBe('ann');
+    expect(welcome.resumeToken).toEqual(expect.any(String));
+  });
+
+  it('does not let another client claim a known player id', async () => {
+    await hello('ann', 'Ann');
+
+    const mallory = await hello('ann', 'Mallory');
+    const guessed = await hello('ann', 'Mallory', 'not-the-token');
+
+    expect(mallory.playerId).not.toBe('ann');
+    expect(guessed.playerId).not.toBe('ann');
+  });
+
+  it('hands a known id back to the client holding its resume token', async () => {
+    const first = await hello('ann', 'Ann');
+
+    const again = await hello('ann', 'Ann', first.resumeToken);
+
+    expect(again.playerId).toBe('ann');
+    expect(again.resumeToken).toBe(first.resumeToken);
+  });
+
+  it('answers frames that are not JSON objects with an error and keeps serving', async () => {
+    const [client, service] = createPictoChatPipe();
+    server.accept(service);
+    const errors: string[] = [];
+    client.onMessage(data => errors.push(JSON.parse(data).error));
+
+    ['null', '42', '[]'].forEach(frame => client.send(frame));
+    await new Promise(resolve => setTimeout(resolve, 10));
+
+    expect(errors).toEqual(Array(3).fill('Messages must be JSON objects'));
+    expect((await hello('ann', 'Ann')).playerId).toBe('ann');
+  });
+});
@@ -0,0 +1,312 @@
+// Matchmaking Server
+// Runs a Matchmaker as a local Node service that players reach over WebSocket
+
+import { EventEmitter } from 'events';
+import { randomBytes } from 'crypto';
+import { WebSocketServer } from 'ws';
+import {
+  Match,
+  MatchmakerOptions,
+  Matchmaker,
+  MatchmakingError,
+  MatchmakingQueueConfig,
+  Party,
+  QueueTicket
+} from './matchmaking';
+import {
+  MATCHMAKING_PATH,
+  MATCHMAKING_PORT,
+  MatchmakingClientMessage,
+  MatchmakingProfile,
+  MatchmakingServerMessage,
+  MatchmakingSocket
+} from './matchmaking-protocol';
+import { createSessionToken, sameSessionToken } from './session-token';
+import { parseJsonObject, wrapWebSocket } from './ws-socket';
+
+export interface MatchmakingServerOptions extends MatchmakerOptions {
+  port?: number;
+  bindAddress?: string;
+  queues?: MatchmakingQueueConfig[];
+}
+
+interface ServiceClient {
+  socket: MatchmakingSocket;
+  profile: MatchmakingProfile | null;
+  unsubscribe: Array<() => void>;
+}
+
+const MAX_NAME_LENGTH = 32;
+const MAX_ID_LENGTH = 64;
+const MAX_LATENCY_NODES = 64;
+
+export class MatchmakingServer extends EventEmitter {
+  private port: number;
+  private bindAddress: string;
+  private matchmaker: Matchmaker;
+  private server: WebSocketServer | null = null;
+  private clients: Set<ServiceClient> = new Set();
+  private players: Map<string, ServiceClient> = new Map();
+  // Every player id this service has handed out, with the token that proves ownership of it
+  private resumeTokens: Map<string, string> = new Map();
+
+  constructor(options: MatchmakingServerOptions = {}) {
+    super();
+    this.port = options.port ?? MATCHMAKING_PORT;
+    this.bindAddress = options.bindAddress ?? '0.0.0.0';
+    this.matchmaker = new Matchmaker(options);
+    (options.queues ?? []).forEach(queue => this.matchmaker.addQueue(queue));
+
+    this.matchmaker.on('partyUpdated', (party: Party) => this.sendParty(party));
+    this.matchmaker.on('partyInvite', (partyId: string, fromId: string, toId: string) => {
+      const from = this.players.get(fromId)?.profile;
+      this.sendTo(toId, { type: 'partyInvite', partyId, fromId, fromName: from?.playerName ?? fromId });
+    });
+    this.matchmaker.on('queued', (ticket: QueueTicket) => {
+      ticket.playerIds.forEach(playerId => this.sendTo(playerId, { type: 'queued', ticket }));
+    });
+    this.matchmaker.on('dequeued', (ticket: QueueTicket, reason: 'cancelled' | 'party_changed') => {
+      ticket.playerIds.forEach(playerId => this.sendTo(playerId, { type: 'dequeued', ticketId: ticket.ticketId, reason }));
+    });
+    this.matchmaker.on('matchFound', (match: Match) => {
+      match.players.forEach(player => this.sendTo(player.playerId, { type: 'matchFound', match }));
+      this.emit('matchFound', match);
+    });
+    const settled = (match: Match) => {
+      match.players.forEach(player => this.sendTo(player.playerId, { type: 'matchSettled', match }));
+    };
+    this.matchmaker.on('ratingsUpdated', settled);
+    this.matchmaker.on('matchVoided', settled);
+    this.matchmaker.on('error', error => this.emit('error', error));
+  }
+
+  // Resolves with the port the service listens on
+  start(): Promise<number> {
+    if (this.server) {
+      return Promise.resolve(this.port);
+    }
+
+    return new Promise((resolve, reject) => {
+      const server = new WebSocketServer({ port: this.port, host: this.bindAddress, path: MATCHMAKING_PATH });
+      server.once('error', reject);
+      server.once('listening', () => {
+        server.off('error', reject);
+        server.on('error', error => this.emit('error', error));
+        server.on('connection', ws => this.accept(wrapWebSocket(ws)));
+        this.server = server;
+        this.matchmaker.start();
+        console.log(`🎮 Matchmaking service listening on port ${this.port}`);
+        resolve(this.port);
+      });
+    });
+  }
+
+  async stop(): Promise<void> {
+    this.matchmaker.stop();
+    for (const client of Array.from(this.clients)) {
+      client.socket.close();
+      this.dropClient(client);
+    }
+
+    const server = this.server;
+    this.server = null;
+    if (server) {
+      await new Promise<void>(resolve => server.close(() => resolve()));
+    }
+  }
+
+  // Serves a player over any MatchmakingSocket, e.g. one end of createPictoChatPipe()
+  accept(socket: MatchmakingSocket): void {
+    const client: ServiceClient = { socket, profile: null, unsubscribe: [] };
+    this.clients.add(client);
+    client.unsubscribe.push(
+      socket.onMessage(data => this.handleData(client, data)),
+      socket.onClose(() => this.dropClient(client))
+    );
+  }
+
+  getMatchmaker(): Matchmaker {
+    return this.matchmaker;
+  }
+
+  private handleData(client: ServiceClient, data: string): void {
+    const message = parseJsonObject<MatchmakingClientMessage>(data);
+    if (!message) {
+      this.send(client, { type: 'error', error: 'Messages must be JSON objects' });
+      return;
+    }
+
+    if (message.type === 'hello') {
+      this.hello(client, message.profile, message.resumeToken);
+      return;
+    }
+
+    const playerId = client.profile?.playerId;
+    if (!playerId) {
+      this.send(client, { type: 'error', error: 'Say hello first' });
+      return;
+    }
+
+    switch (message.type) {
+      case 'latency':
+        if (Array.isArray(message.nodes)) {
+          this.matchmaker.setLatencies(playerId, message.nodes.slice(0, MAX_LATENCY_NODES).filter(node =>
+            node && typeof node.region === 'string' && typeof node.latency === 'number'
+          ));
+        }
+        break;
+      case 'createParty':
+        this.request(client, message.requestId, async () => {
+          this.matchmaker.createParty(playerId);
+        });
+        break;
+      case 'inviteToParty':
+        this.request(client, message.requestId, async () => {
+          await this.matchmaker.inviteToParty(playerId, requireString(message.playerId));
+        });
+        break;
+      case 'acceptPartyInvite':
+        this.request(client, message.requestId, async () => {
+          this.matchmaker.acceptPartyInvite(playerId, requireString(message.partyId));
+        });
+        break;
+      case 'leaveParty':
+        this.matchmaker.leaveParty(playerId);
+        this.send(client, { type: 'party', party: null });
+        break;
+      case 'queue':
+        this.request(client, message.requestId, async () => {
+          await this.matchmaker.enqueue(playerId, requireString(message.gameId), requireString(message.mode));
+        });
+        break;
+      case 'cancelQueue':
+        this.matchmaker.cancel(playerId);
+        break;
+      case 'reportResult':
+        this.request(client, message.requestId, async () => {
+          await this.matchmaker.reportResult(requireString(message.matchId), playerId, message.placements);
+        });
+        break;
+      case 'getRating':
+        this.request(client, message.requestId, async () => {
+          const rating = await this.matchmaker.getRating(playerId, requireString(message.gameId), requireString(message.mode));
+          this.send(client, { type: 'rating', requestId: message.requestId, gameId: message.gameId, mode: message.mode, rating });
+        }, false);
+        break;
+      case 'ping':
+        this.send(client, { type: 'pong' });
+        break;
+      default:
+        this.send(client, { type: 'error', error: 'Unknown message type' });
+    }
+  }
+
+  private hello(client: ServiceClient, profile: MatchmakingProfile | undefined, resumeToken: unknown): void {
+    let playerId = typeof profile?.playerId === 'string' ? profile.playerId.slice(0, MAX_ID_LENGTH) : '';
+    const playerName = typeof profile?.playerName === 'string' ? profile.playerName.trim().slice(0, MAX_NAME_LENGTH) : '';
+    if (!playerId || !playerName || client.profile) {
+      this.send(client, { type: 'error', error: 'Invalid hello' });
+      return;
+    }
+
+    // Ratings and match reports hang off the id, so only the client we issued it to may claim it again
+    let token = this.resumeTokens.get(playerId);
+    if (token !== undefined && !sameSessionToken(resumeToken, token)) {
+      playerId = this.uniquePlayerId();
+      token = undefined;
+    }
+    if (token === undefined) {
+      token = createSessionToken();
+      this.resumeTokens.set(playerId, token);
+    }
+
+    // A reconnect replaces the old connection but keeps the player's party and ticket
+    const previous = this.players.get(playerId);
+    if (previous && previous !== client) {
+      this.players.delete(playerId);
+      previous.socket.close();
+      this.dropClient(previous);
+    }
+
+    client.profile = { playerId, playerName };
+    this.players.set(playerId, client);
+    this.send(client, {
+      type: 'welcome',
+      playerId,
+      resumeToken: token,
+      queues: this.matchmaker.getQueues(),
+      party: this.matchmaker.getParty(playerId)
+    });
+    const ticket = this.matchmaker.getTicket(playerId);
+    if (ticket) {
+      this.send(client, { type: 'queued', ticket });
+    }
+  }
+
+  // Runs a request and answers with requestDone or requestFailed
+  private request(client: ServiceClient, requestId: string, run: () => Promise<void>, acknowledge: boolean = true): void {
+    run().then(() => {
+      if (acknowledge) {
+        this.send(client, { type: 'requestDone', requestId });
+      }
+    }).catch(error => {
+      if (error instanceof MatchmakingError) {
+        this.send(client, { type: 'requestFailed', requestId, code: error.code, error: error.message });
+        return;
+      }
+      if (error instanceof TypeError) {
+        this.send(client, { type: 'requestFailed', requestId, code: 'invalid_request', error: error.message });
+        return;
+      }
+      console.error('❌ Matchmaking request failed:', error);
+      this.send(client, { type: 'requestFailed', requestId, code: 'invalid_request', error: 'Request failed' });
+      this.emit('error', error);
+    });
+  }
+
+  private dropClient(client: ServiceClient): void {
+    if (!this.clients.delete(client)) {
+      return;
+    }
+    client.unsubscribe.forEach(unsubscribe => unsubscribe());
+
+    const playerId = client.profile?.playerId;
+    if (!playerId || this.players.get(playerId) !== client) {
+      return;
+    }
+    // Nobody is left to accept a match, so stop searching and free the party slot
+    this.players.delete(playerId);
+    this.matchmaker.cancel(playerId);
+    this.matchmaker.leaveParty(playerId);
+  }
+
+  private uniquePlayerId(): string {
+    let playerId = randomBytes(8).toString('hex');
+    while (this.resumeTokens.has(playerId)) {
+      playerId = randomBytes(8).toString('hex');
+    }
+    return playerId;
+  }
+
+  private sendParty(party: Party): void {
+    party.members.forEach(playerId => this.sendTo(playerId, { type: 'party', party }));
+  }
+
+  private sendTo(playerId: string, message: MatchmakingServerMessage): void {
+    const client = this.players.get(playerId);
+    if (client) {
+      this.send(client, message);
+    }
+  }
+
+  private send(client: ServiceClient, message: MatchmakingServerMessage): void {
+    client.socket.send(JSON.stringify(message));
+  }
+}
+
+function requireString(value: unknown): string {
+  if (typeof value !== 'string' || !value || value.length > MAX_ID_LENGTH) {
+    throw new TypeError('Expected an id');
+  }
+  return value;
+}
@@ -0,0 +1,58 @@
+import { Match, Matchmaker } from './matchmaking';
+
+const RESULT_TIMEOUT_MS = 60000;
+
+describe('Matchmaker', () => {
+  let matchmaker: Matchmaker;
+
+  const playMatch = async (...playerIds: string[]): Promise<Match> => {
+    const found = new Promise<Match>(resolve => matchmaker.once('matchFound', resolve));
+    for (const playerId of playerIds) {
+      await matchmaker.enqueue(playerId, 'pong', 'duel');
+    }
+    return found;
+  };
+
+  const ratingOf = async (playerId: string) => (await matchmaker.getRating(playerId, 'pong', 'duel')).rating;
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    matchmaker = new Matchmaker({ resultTimeoutMs: RESULT_TIMEOUT_MS });
+    matchmaker.addQueue({ gameId: 'pong', mode: 'duel', maxPlayers: 2 });
+  });
+
+  afterEach(() => {
+    matchmaker.stop();
+    jest.restoreAllMocks();
+  });
+
+  it('settles a match once both players report the same result', async () => {
+    const match = await playMatch('ann', 'ben');
+
+    await matchmaker.reportResult(match.matchId, 'ann', { ann: 1, ben: 2 });
+    const settled = await matchmaker.reportResult(match.matchId, 'ben', { ann: 1, ben: 2 });
+
+    expect(settled.status).toBe('completed');
+    expect(await ratingOf('ann')).toBeGreaterThan(await ratingOf('ben'));
+  });
+
+  it('voids a match at the deadline when only one player reported', async () => {
+    const match = await playMatch('ann', 'ben');
+    await matchmaker.reportResult(match.matchId, 'ann', { ann: 1, ben: 2 });
+
+    await matchmaker.tick(Date.now() + RESULT_TIMEOUT_MS);
+
+    expect((await matchmaker.getMatch(match.matchId))!.status).toBe('void');
+    expect(await ratingOf('ann')).toBe(await ratingOf('ben'));
+  });
+
+  it('voids a match at the deadline when the reports disagree', async () => {
+    const match = await playMatch('ann', 'ben');
+    await matchmaker.reportResult(match.matchId, 'ann', { ann: 1, ben: 2 });
+    await matchmaker.reportResult(match.matchId, 'ben', { ann: 2, ben: 1 });
+
+    await matchmaker.tick(Date.now() + RESULT_TIMEOUT_MS);
+
+    expect((await matchmaker.getMatch(match.matchId))!.status).toBe('void');
+  });
+});
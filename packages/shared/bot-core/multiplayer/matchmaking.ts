@@ -0,0 +1,693 @@
+// Matchmaking
+// Queues per game and mode, latency buckets by EdgeIO region, friend parties and Glicko-2 ratings
+
+import { EventEmitter } from 'events';
+import { randomBytes } from 'crypto';
+import type { FriendService } from './friends';
+import {
+  GLICKO_DEFAULT_RATING,
+  GLICKO_DEFAULT_TAU,
+  GlickoRating,
+  inflateDeviation,
+  placementResults,
+  rateGlicko2
+} from './glicko2';
+
+// The fields of gaming-core's EdgeIONode that matchmaking needs; clients send what getAvailableNodes() reports
+export interface EdgeNodeLatency {
+  id: string;
+  region: string;
+  latency: number;
+  isAvailable: boolean;
+}
+
+export interface MatchmakingQueueConfig {
+  gameId: string;
+  mode: string;
+  maxPlayers: number;
+  // A match may start short-handed once its oldest ticket has waited fillTimeoutMs
+  minPlayers?: number;
+}
+
+export interface PlayerRating extends GlickoRating {
+  gamesPlayed: number;
+  lastPlayedAt: number | null;
+}
+
+export interface MatchPlayer {
+  playerId: string;
+  partyId: string | null;
+  rating: number;
+}
+
+export type MatchStatus = 'active' | 'completed' | 'void';
+
+export interface Match {
+  matchId: string;
+  gameId: string;
+  mode: string;
+  // EdgeIO region everyone reaches within their latency bucket; null when nobody sent latencies
+  region: string | null;
+  players: MatchPlayer[];
+  createdAt: number;
+  status: MatchStatus;
+  // Placements per reporter, 1 = winner
+  reports: Record<string, Record<string, number>>;
+  resolvedAt: number | null;
+}
+
+export interface Party {
+  partyId: string;
+  leaderId: string;
+  members: string[];
+  invites: string[];
+}
+
+export interface QueueTicket {
+  ticketId: string;
+  gameId: string;
+  mode: string;
+  partyId: string | null;
+  playerIds: string[];
+  rating: number;
+  enqueuedAt: number;
+}
+
+export interface RatingChange {
+  playerId: string;
+  before: GlickoRating;
+  after: PlayerRating;
+}
+
+export interface MatchmakingStore {
+  getRating(playerId: string, queueKey: string): Promise<PlayerRating | null>;
+  saveRating(playerId: string, queueKey: string, rating: PlayerRating): Promise<void>;
+  getMatch(matchId: string): Promise<Match | null>;
+  saveMatch(match: Match): Promise<void>;
+}
+
+// Keeps everything in process memory, for offline runs and tests
+export class InMemoryMatchmakingStore implements MatchmakingStore {
+  private ratings: Map<string, PlayerRating> = new Map();
+  private matches: Map<string, Match> = new Map();
+
+  async getRating(playerId: string, queueKey: string): Promise<PlayerRating | null> {
+    const rating = this.ratings.get(`${queueKey}|${playerId}`);
+    return rating ? { ...rating } : null;
+  }
+
+  async saveRating(playerId: string, queueKey: string, rating: PlayerRating): Promise<void> {
+    this.ratings.set(`${queueKey}|${playerId}`, { ...rating });
+  }
+
+  async getMatch(matchId: string): Promise<Match | null> {
+    const match = this.matches.get(matchId);
+    return match ? cloneMatch(match) : null;
+  }
+
+  async saveMatch(match: Match): Promise<void> {
+    this.matches.set(match.matchId, cloneMatch(match));
+  }
+}
+
+export type MatchmakingErrorCode =
+  | 'unknown_queue'
+  | 'already_queued'
+  | 'not_queued'
+  | 'party_too_large'
+  | 'not_party_leader'
+  | 'not_in_party'
+  | 'in_party'
+  | 'not_friends'
+  | 'not_invited'
+  | 'unknown_match'
+  | 'not_in_match'
+  | 'match_closed'
+  | 'invalid_result';
+
+export class MatchmakingError extends Error {
+  code: MatchmakingErrorCode;
+
+  constructor(code: MatchmakingErrorCode, message: string) {
+    super(message);
+    this.name = 'MatchmakingError';
+    this.code = code;
+  }
+}
+
+export interface MatchmakerOptions {
+  store?: MatchmakingStore;
+  // Only friends can be invited into a party; without a friend service anyone can
+  friends?: FriendService | null;
+  maxPartySize?: number;
+  // Acceptable latency to a region, widening one step every widenEveryMs a ticket waits
+  latencyBucketsMs?: number[];
+  // Rating gap allowed at first, and how much it grows per step
+  ratingWindow?: number;
+  ratingWindowStep?: number;
+  widenEveryMs?: number;
+  fillTimeoutMs?: number;
+  tickMs?: number;
+  // Matches nobody settles within this long are rated from agreeing reports, or voided
+  resultTimeoutMs?: number;
+  // Idle time that counts as one Glicko-2 rating period for deviation growth
+  ratingPeriodMs?: number;
+  tau?: number;
+}
+
+interface Ticket extends QueueTicket {
+  queueKey: string;
+  // Worst member latency per region that every member can reach
+  regions: Map<string, number>;
+}
+
+interface PartyState {
+  partyId: string;
+  leaderId: string;
+  members: string[];
+  invites: Set<string>;
+}
+
+export function queueKey(gameId: string, mode: string): string {
+  return `${gameId}:${mode}`;
+}
+
+export class Matchmaker extends EventEmitter {
+  private options: Required<Omit<MatchmakerOptions, 'store' | 'friends'>>;
+  private store: MatchmakingStore;
+  private friends: FriendService | null;
+  private queues: Map<string, MatchmakingQueueConfig> = new Map();
+  private tickets: Map<string, Ticket> = new Map();
+  private ticketsByPlayer: Map<string, Ticket> = new Map();
+  private parties: Map<string, PartyState> = new Map();
+  private partyByPlayer: Map<string, PartyState> = new Map();
+  private latencies: Map<string, Map<string, number>> = new Map();
+  private activeMatches: Map<string, Match> = new Map();
+  private tickTimer: ReturnType<typeof setInterval> | null = null;
+  private lastTick: Promise<unknown> = Promise.resolve();
+
+  constructor(options: MatchmakerOptions = {}) {
+    super();
+    this.options = {
+      maxPartySize: options.maxPartySize ?? 4,
+      latencyBucketsMs: [...(options.latencyBucketsMs ?? [50, 100, 150, 250])].sort((a, b) => a - b),
+      ratingWindow: options.ratingWindow ?? 150,
+      ratingWindowStep: options.ratingWindowStep ?? 100,
+      widenEveryMs: options.widenEveryMs ?? 10000,
+      fillTimeoutMs: options.fillTimeoutMs ?? 30000,
+      tickMs: options.tickMs ?? 1000,
+      resultTimeoutMs: options.resultTimeoutMs ?? 2 * 60 * 60000,
+      ratingPeriodMs: options.ratingPeriodMs ?? 24 * 60 * 60000,
+      tau: options.tau ?? GLICKO_DEFAULT_TAU
+    };
+    this.store = options.store ?? new InMemoryMatchmakingStore();
+    this.friends = options.friends ?? null;
+  }
+
+  start(): void {
+    if (!this.tickTimer) {
+      this.tickTimer = setInterval(() => {
+        this.tick().catch(error => {
+          console.error('❌ Matchmaking tick failed:', error);
+          this.emit('error', error);
+        });
+      }, this.options.tickMs);
+    }
+  }
+
+  stop(): void {
+    if (this.tickTimer) {
+      clearInterval(this.tickTimer);
+      this.tickTimer = null;
+    }
+  }
+
+  addQueue(config: MatchmakingQueueConfig): void {
+    if (!Number.isInteger(config.maxPlayers) || config.maxPlayers < 2) {
+      throw new Error('A queue needs room for at least two players');
+    }
+    const minPlayers = Math.min(Math.max(config.minPlayers ?? config.maxPlayers, 2), config.maxPlayers);
+    this.queues.set(queueKey(config.gameId, config.mode), { ...config, minPlayers });
+  }
+
+  getQueues(): MatchmakingQueueConfig[] {
+    return Array.from(this.queues.values()).map(queue => ({ ...queue }));
+  }
+
+  // Latest EdgeIO node pings for a player; the best node per region counts
+  setLatencies(playerId: string, nodes: EdgeNodeLatency[]): void {
+    const regions = new Map<string, number>();
+    for (const node of nodes) {
+      if (!node.isAvailable || !Number.isFinite(node.latency) || node.latency < 0) {
+        continue;
+      }
+      regions.set(node.region, Math.min(regions.get(node.region) ?? Infinity, node.latency));
+    }
+    this.latencies.set(playerId, regions);
+  }
+
+  async getRating(playerId: string, gameId: string, mode: string): Promise<PlayerRating> {
+    const stored = await this.store.getRating(playerId, queueKey(gameId, mode));
+    return stored ?? { ...GLICKO_DEFAULT_RATING, gamesPlayed: 0, lastPlayedAt: null };
+  }
+
+  // Parties
+
+  createParty(leaderId: string): Party {
+    const existing = this.partyByPlayer.get(leaderId);
+    if (existing) {
+      return this.toParty(existing);
+    }
+    this.ensureNotQueued(leaderId);
+
+    const party: PartyState = { partyId: generateId('party'), leaderId, members: [leaderId], invites: new Set() };
+    this.parties.set(party.partyId, party);
+    this.partyByPlayer.set(leaderId, party);
+    this.emit('partyUpdated', this.toParty(party));
+    return this.toParty(party);
+  }
+
+  async inviteToParty(leaderId: string, friendId: string): Promise<Party> {
+    const party = this.partyByPlayer.get(leaderId);
+    if (!party) {
+      throw new MatchmakingError('not_in_party', 'Create a party first');
+    }
+    if (party.leaderId !== leaderId) {
+      throw new MatchmakingError('not_party_leader', 'Only the party leader can invite');
+    }
+    if (party.members.length + party.invites.size >= this.options.maxPartySize) {
+      throw new MatchmakingError('party_too_large', `Parties hold at most ${this.options.maxPartySize} players`);
+    }
+    if (this.friends) {
+      const friends = await this.friends.getFriends(leaderId);
+      if (!friends.some(friend => friend.userId === friendId)) {
+        throw new MatchmakingError('not_friends', 'You can only invite friends to your party');
+      }
+    }
+
+    party.invites.add(friendId);
+    this.emit('partyInvite', party.partyId, leaderId, friendId);
+    this.emit('partyUpdated', this.toParty(party));
+    return this.toParty(party);
+  }
+
+  acceptPartyInvite(playerId: string, partyId: string): Party {
+    const party = this.parties.get(partyId);
+    if (!party || !party.invites.has(playerId)) {
+      throw new MatchmakingError('not_invited', 'That party invite has expired');
+    }
+    if (this.partyByPlayer.has(playerId)) {
+      throw new MatchmakingError('in_party', 'Leave your current party first');
+    }
+    this.ensureNotQueued(playerId);
+
+    party.invites.delete(playerId);
+    party.members.push(playerId);
+    this.partyByPlayer.set(playerId, party);
+    // The lineup changed, so the party queues again from scratch
+    this.cancelTicketOf(party.leaderId, 'party_changed');
+    this.emit('partyUpdated', this.toParty(party));
+    return this.toParty(party);
+  }
+
+  leaveParty(playerId: string): void {
+    const party = this.partyByPlayer.get(playerId);
+    if (!party) {
+      return;
+    }
+
+    this.cancelTicketOf(playerId, 'party_changed');
+    this.partyByPlayer.delete(playerId);
+    party.members = party.members.filter(member => member !== playerId);
+    if (party.members.length === 0) {
+      this.parties.delete(party.partyId);
+      this.emit('partyDisbanded', party.partyId);
+      return;
+    }
+    if (party.leaderId === playerId) {
+      party.leaderId = party.members[0]!;
+    }
+    this.emit('partyUpdated', this.toParty(party));
+  }
+
+  getParty(playerId: string): Party | null {
+    const party = this.partyByPlayer.get(playerId);
+    return party ? this.toParty(party) : null;
+  }
+
+  // Queueing
+
+  // Party members queue together and only their leader can queue them
+  async enqueue(playerId: string, gameId: string, mode: string): Promise<QueueTicket> {
+    const key = queueKey(gameId, mode);
+    const queue = this.queues.get(key);
+    if (!queue) {
+      throw new MatchmakingError('unknown_queue', `No ${mode} queue for ${gameId}`);
+    }
+
+    const party = this.partyByPlayer.get(playerId) ?? null;
+    if (party && party.leaderId !== playerId) {
+      throw new MatchmakingError('not_party_leader', 'Only the party leader can queue the party');
+    }
+    const playerIds = party ? [...party.members] : [playerId];
+    if (playerIds.length > queue.maxPlayers) {
+      throw new MatchmakingError('party_too_large', `${gameId} ${mode} takes at most ${queue.maxPlayers} players`);
+    }
+    playerIds.forEach(id => this.ensureNotQueued(id));
+
+    const ratings = await Promise.all(playerIds.map(id => this.getRating(id, gameId, mode)));
+    // Another request for the same players may have finished while ratings loaded
+    playerIds.forEach(id => this.ensureNotQueued(id));
+
+    const ticket: Ticket = {
+      ticketId: generateId('ticket'),
+      gameId,
+      mode,
+      queueKey: key,
+      partyId: party?.partyId ?? null,
+      playerIds,
+      rating: ratings.reduce((sum, rating) => sum + rating.rating, 0) / ratings.length,
+      regions: this.sharedRegions(playerIds),
+      enqueuedAt: Date.now()
+    };
+    this.tickets.set(ticket.ticketId, ticket);
+    playerIds.forEach(id => this.ticketsByPlayer.set(id, ticket));
+
+    console.log('🎮 Queued for', key, playerIds.join(', '));
+    this.emit('queued', this.toTicket(ticket));
+    await this.tick();
+    return this.toTicket(ticket);
+  }
+
+  cancel(playerId: string): boolean {
+    return this.cancelTicketOf(playerId, 'cancelled');
+  }
+
+  getTicket(playerId: string): QueueTicket | null {
+    const ticket = this.ticketsByPlayer.get(playerId);
+    return ticket ? this.toTicket(ticket) : null;
+  }
+
+  // Forms whatever matches are ready and settles matches past their result deadline
+  tick(now: number = Date.now()): Promise<Match[]> {
+    // One tick at a time, so a ticket can never land in two matches
+    const run = this.lastTick.then(() => this.runTick(now));
+    this.lastTick = run.catch(() => undefined);
+    return run;
+  }
+
+  private async runTick(now: number): Promise<Match[]> {
+    const formed: Match[] = [];
+    for (const queue of this.queues.values()) {
+      formed.push(...await this.formMatches(queue, now));
+    }
+
+    for (const match of Array.from(this.activeMatches.values())) {
+      if (now - match.createdAt >= this.options.resultTimeoutMs) {
+        await this.expireMatch(match, now);
+      }
+    }
+    return formed;
+  }
+
+  // Results
+
+  // Ratings update once a majority of the players report the same placements
+  async reportResult(matchId: string, reporterId: string, placements: Record<string, number>): Promise<Match> {
+    const match = this.activeMatches.get(matchId) ?? await this.store.getMatch(matchId);
+    if (!match) {
+      throw new MatchmakingError('unknown_match', 'Match not found');
+    }
+    if (!match.players.some(player => player.playerId === reporterId)) {
+      throw new MatchmakingError('not_in_match', 'Only players in the match can report its result');
+    }
+    if (match.status !== 'active') {
+      throw new MatchmakingError('match_closed', 'This match has already been settled');
+    }
+
+    const playerIds = match.players.map(player => player.playerId);
+    const valid = placements
+      && Object.keys(placements).length === playerIds.length
+      && playerIds.every(id => Number.isInteger(placements[id]) && placements[id]! >= 1 && placements[id]! <= playerIds.length);
+    if (!valid) {
+      throw new MatchmakingError('invalid_result', 'Give every player in the match a placement');
+    }
+
+    match.reports[reporterId] = Object.fromEntries(playerIds.map(id => [id, placements[id]!]));
+    const agreeing = Object.values(match.reports).filter(report => samePlacements(report, match.reports[reporterId]!)).length;
+    if (agreeing > playerIds.length / 2) {
+      await this.settle(match, match.reports[reporterId]!, Date.now());
+    } else {
+      await this.store.saveMatch(match);
+    }
+    return cloneMatch(match);
+  }
+
+  async getMatch(matchId: string): Promise<Match | null> {
+    const match = this.activeMatches.get(matchId);
+    return match ? cloneMatch(match) : this.store.getMatch(matchId);
+  }
+
+  private async formMatches(queue: MatchmakingQueueConfig, now: number): Promise<Match[]> {
+    const key = queueKey(queue.gameId, queue.mode);
+    const waiting = Array.from(this.tickets.values())
+      .filter(ticket => ticket.queueKey === key)
+      .sort((a, b) => a.enqueuedAt - b.enqueuedAt);
+    const used = new Set<Ticket>();
+    const formed: Match[] = [];
+
+    for (const anchor of waiting) {
+      if (used.has(anchor)) {
+        continue;
+      }
+
+      const regions: Array<string | null> = anchor.regions.size > 0
+        ? Array.from(anchor.regions.entries()).sort((a, b) => a[1] - b[1]).map(([region]) => region)
+        : [null];
+      for (const region of regions) {
+        if (region !== null && !this.reaches(anchor, region, now)) {
+          continue;
+        }
+
+        const group = [anchor];
+        let size = anchor.playerIds.length;
+        for (const candidate of waiting) {
+          if (size === queue.maxPlayers) {
+            break;
+          }
+          if (candidate === anchor || used.has(candidate) || size + candidate.playerIds.length > queue.maxPlayers) {
+            continue;
+          }
+          if (this.compatible(anchor, candidate, region, now)) {
+            group.push(candidate);
+            size += candidate.playerIds.length;
+          }
+        }
+
+        const waited = now - anchor.enqueuedAt >= this.options.fillTimeoutMs;
+        if (size === queue.maxPlayers || (waited && size >= queue.minPlayers!)) {
+          group.forEach(ticket => used.add(ticket));
+          formed.push(await this.createMatch(queue, group, region, now));
+          break;
+        }
+      }
+    }
+    return formed;
+  }
+
+  private async createMatch(queue: MatchmakingQueueConfig, group: Ticket[], region: string | null, now: number): Promise<Match> {
+    for (const ticket of group) {
+      this.removeTicket(ticket);
+    }
+
+    const players: MatchPlayer[] = [];
+    for (const ticket of group) {
+      for (const playerId of ticket.playerIds) {
+        const rating = await this.getRating(playerId, queue.gameId, queue.mode);
+        players.push({ playerId, partyId: ticket.partyId, rating: Math.round(rating.rating) });
+      }
+    }
+
+    const match: Match = {
+      matchId: generateId('match'),
+      gameId: queue.gameId,
+      mode: queue.mode,
+      region,
+      players,
+      createdAt: now,
+      status: 'active',
+      reports: {},
+      resolvedAt: null
+    };
+    this.activeMatches.set(match.matchId, match);
+    await this.store.saveMatch(match);
+
+    console.log(`🎮 Match ${match.matchId} formed for ${queueKey(queue.gameId, queue.mode)} in ${region ?? 'any region'}:`, players.map(player => player.playerId).join(', '));
+    this.emit('matchFound', cloneMatch(match));
+    return cloneMatch(match);
+  }
+
+  private async settle(match: Match, placements: Record<string, number>, now: number): Promise<void> {
+    const key = queueKey(match.gameId, match.mode);
+    const before = new Map<string, PlayerRating>();
+    for (const player of match.players) {
+      const stored = await this.getRating(player.playerId, match.gameId, match.mode);
+      const idlePeriods = stored.lastPlayedAt === null ? 0 : Math.floor((now - stored.lastPlayedAt) / this.options.ratingPeriodMs);
+      before.set(player.playerId, { ...stored, ...inflateDeviation(stored, idlePeriods) });
+    }
+
+    // Each match is its own rating period, scored against everyone's rating from before it
+    const results = placementResults(new Map(Object.entries(placements)), before);
+    const changes: RatingChange[] = [];
+    for (const [playerId, games] of results) {
+      const previous = before.get(playerId)!;
+      const after: PlayerRating = {
+        ...rateGlicko2(previous, games, this.options.tau),
+        gamesPlayed: previous.gamesPlayed + 1,
+        lastPlayedAt: now
+      };
+      await this.store.saveRating(playerId, key, after);
+      changes.push({
+        playerId,
+        before: { rating: previous.rating, deviation: previous.deviation, volatility: previous.volatility },
+        after
+      });
+    }
+
+    match.status = 'completed';
+    match.resolvedAt = now;
+    this.activeMatches.delete(match.matchId);
+    await this.store.saveMatch(match);
+
+    console.log(`🏆 Match ${match.matchId} settled`);
+    this.emit('ratingsUpdated', cloneMatch(match), changes);
+  }
+
+  // Unanimous reports stand on their own once the deadline passes, as long as more than one side of the
+  // match sent them; a lone reporter or a single party could otherwise rate everyone as they liked
+  private async expireMatch(match: Match, now: number): Promise<void> {
+    const reports = Object.values(match.reports);
+    const unanimous = reports.length > 0 && reports.every(report => samePlacements(report, reports[0]!));
+    const sides = new Set(Object.keys(match.reports).map(reporterId =>
+      match.players.find(player => player.playerId === reporterId)?.partyId ?? reporterId
+    ));
+    if (unanimous && sides.size >= 2) {
+      await this.settle(match, reports[0]!, now);
+      return;
+    }
+
+    match.status = 'void';
+    match.resolvedAt = now;
+    this.activeMatches.delete(match.matchId);
+    await this.store.saveMatch(match);
+    const reason = reports.length === 0 ? 'no result reported' : unanimous ? 'result reported by one side only' : 'disputed result';
+    console.log(`🚩 Match ${match.matchId} voided: ${reason}`);
+    this.emit('matchVoided', cloneMatch(match));
+  }
+
+  private compatible(anchor: Ticket, candidate: Ticket, region: string | null, now: number): boolean {
+    if (region !== null && !this.reaches(candidate, region, now)) {
+      return false;
+    }
+    if (region === null && candidate.regions.size > 0 && this.stage(candidate, now) < this.options.latencyBucketsMs.length - 1) {
+      return false;
+    }
+    // The more patient of the two decides how wide the search is
+    const window = Math.max(this.ratingWindow(anchor, now), this.ratingWindow(candidate, now));
+    return Math.abs(anchor.rating - candidate.rating) <= window;
+  }
+
+  // Tickets without latencies can play anywhere, but only once they reach the widest bucket
+  private reaches(ticket: Ticket, region: string, now: number): boolean {
+    const stage = this.stage(ticket, now);
+    const latency = ticket.regions.get(region);
+    if (latency === undefined) {
+      return ticket.regions.size === 0 && stage >= this.options.latencyBucketsMs.length - 1;
+    }
+    return latency <= this.options.latencyBucketsMs[stage]!;
+  }
+
+  private stage(ticket: Ticket, now: number): number {
+    const steps = Math.floor(Math.max(now - ticket.enqueuedAt, 0) / this.options.widenEveryMs);
+    return Math.min(steps, this.options.latencyBucketsMs.length - 1);
+  }
+
+  private ratingWindow(ticket: Ticket, now: number): number {
+    const steps = Math.floor(Math.max(now - ticket.enqueuedAt, 0) / this.options.widenEveryMs);
+    return this.options.ratingWindow + steps * this.options.ratingWindowStep;
+  }
+
+  private sharedRegions(playerIds: string[]): Map<string, number> {
+    const samples = playerIds.map(id => this.latencies.get(id) ?? new Map<string, number>());
+    if (samples.some(regions => regions.size === 0)) {
+      return new Map();
+    }
+
+    const shared = new Map<string, number>();
+    for (const [region, latency] of samples[0]!) {
+      if (samples.every(regions => regions.has(region))) {
+        shared.set(region, Math.max(latency, ...samples.map(regions => regions.get(region)!)));
+      }
+    }
+    return shared;
+  }
+
+  private ensureNotQueued(playerId: string): void {
+    if (this.ticketsByPlayer.has(playerId)) {
+      throw new MatchmakingError('already_queued', 'Already searching for a match');
+    }
+  }
+
+  private cancelTicketOf(playerId: string, reason: 'cancelled' | 'party_changed'): boolean {
+    const ticket = this.ticketsByPlayer.get(playerId);
+    if (!ticket) {
+      return false;
+    }
+    this.removeTicket(ticket);
+    this.emit('dequeued', this.toTicket(ticket), reason);
+    return true;
+  }
+
+  private removeTicket(ticket: Ticket): void {
+    this.tickets.delete(ticket.ticketId);
+    ticket.playerIds.forEach(id => this.ticketsByPlayer.delete(id));
+  }
+
+  private toTicket(ticket: Ticket): QueueTicket {
+    return {
+      ticketId: ticket.ticketId,
+      gameId: ticket.gameId,
+      mode: ticket.mode,
+      partyId: ticket.partyId,
+      playerIds: [...ticket.playerIds],
+      rating: Math.round(ticket.rating),
+      enqueuedAt: ticket.enqueuedAt
+    };
+  }
+
+  private toParty(party: PartyState): Party {
+    return {
+      partyId: party.partyId,
+      leaderId: party.leaderId,
+      members: [...party.members],
+      invites: Array.from(party.invites)
+    };
+  }
+}
+
+function samePlacements(a: Record<string, number>, b: Record<string, number>): boolean {
+  const keys = Object.keys(a);
+  return keys.length === Object.keys(b).length && keys.every(key => a[key] === b[key]);
+}
+
+function cloneMatch(match: Match): Match {
+  return {
+    ...match,
+    players: match.players.map(player => ({ ...player })),
+    reports: Object.fromEntries(Object.entries(match.reports).map(([reporterId, report]) => [reporterId, { ...report }]))
+  };
+}
+
+function generateId(prefix: string): string {
+  return `${prefix}_${randomBytes(6).toString('hex')}`;
+}
@@ -0,0 +1,113 @@
+import { DiscoveredService, InProcessMulticastBus, ServiceAdvertiser, ServiceBrowser, ServiceInstance } from './mdns';
+
+const SERVICE_TYPE = '_mlvarcade._tcp.local';
+
+const service = (overrides: Partial<ServiceInstance> = {}): ServiceInstance => ({
+  instanceName: "Ann's Tetris",
+  serviceType: SERVICE_TYPE,
+  hostName: 'ann-phone.local',
+  port: 7400,
+  addresses: ['192.168.1.20'],
+  txt: { game: 'tetris', players: '1/2' },
+  ...overrides
+});
+
+describe('mDNS service discovery', () => {
+  let bus: InProcessMulticastBus;
+  let advertiser: ServiceAdvertiser;
+  let browser: ServiceBrowser;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    bus = new InProcessMulticastBus();
+    advertiser = new ServiceAdvertiser(bus.createTransport('192.168.1.20'), service());
+    browser = new ServiceBrowser(bus.createTransport('192.168.1.30'), SERVICE_TYPE);
+  });
+
+  afterEach(() => {
+    advertiser.stop();
+    browser.stop();
+    jest.useRealTimers();
+  });
+
+  it('finds a service from its unsolicited announcement', () => {
+    const up = jest.fn();
+    browser.on('serviceUp', up);
+    browser.start();
+    advertiser.start();
+    jest.advanceTimersByTime(10);
+
+    expect(up).toHaveBeenCalledTimes(1);
+    expect(up.mock.calls[0][0]).toMatchObject({
+      instanceName: "Ann's Tetris",
+      fullName: `Ann's Tetris.${SERVICE_TYPE}`,
+      hostName: 'ann-phone.local',
+      addresses: ['192.168.1.20'],
+      port: 7400,
+      txt: { game: 'tetris', players: '1/2' }
+    });
+  });
+
+  it('finds an already running service by querying', () => {
+    advertiser.start();
+    jest.advanceTimersByTime(2000);
+
+    const up = jest.fn();
+    browser.on('serviceUp', up);
+    browser.start();
+    // Shared answers are delayed up to 120ms
+    jest.advanceTimersByTime(150);
+
+    expect(up).toHaveBeenCalledTimes(1);
+    expect(browser.getServices().map(found => found.port)).toEqual([7400]);
+  });
+
+  it('reports TXT changes as updates', () => {
+    const updated = jest.fn();
+    browser.on('serviceUpdated', updated);
+    browser.start();
+    advertiser.start();
+    jest.advanceTimersByTime(10);
+
+    advertiser.updateTxt({ game: 'tetris', players: '2/2' });
+    jest.advanceTimersByTime(10);
+
+    expect(updated).toHaveBeenCalled();
+    expect((updated.mock.calls[0][0] as DiscoveredService).txt.players).toBe('2/2');
+  });
+
+  it('drops a service as soon as it says goodbye', () => {
+    const down = jest.fn();
+    browser.on('serviceDown', down);
+    browser.start();
+    advertiser.start();
+    jest.advanceTimersByTime(10);
+
+    advertiser.stop();
+    jest.advanceTimersByTime(10);
+
+    expect(down).toHaveBeenCalledTimes(1);
+    expect(browser.getServices()).toEqual([]);
+  });
+
+  it('expires a service that vanished without a goodbye once its records time out', () => {
+    const transport = bus.createTransport('192.168.1.40');
+    const silent = new ServiceAdvertiser(transport, service({ instanceName: 'Ben Pong', hostName: 'ben.local' }));
+    const down = jest.fn();
+    browser.on('serviceDown', down);
+    browser.start();
+    silent.start();
+    jest.advanceTimersByTime(2000);
+    expect(browser.getServices()).toHaveLength(1);
+
+    // Pulling the transport off the bus is a phone leaving the network
+    transport.close();
+    jest.advanceTimersByTime(120 * 1000);
+    expect(down).not.toHaveBeenCalled();
+
+    // The PTR record lives 75 minutes
+    jest.advanceTimersByTime(4500 * 1000);
+    expect(down).toHaveBeenCalledTimes(1);
+    expect(browser.getServices()).toEqual([]);
+  });
+});
@@ -0,0 +1,550 @@
+// Multicast DNS Service Discovery
+// DNS-SD advertising and browsing (RFC 6762/6763) over a pluggable multicast transport
+
+import { EventEmitter } from 'events';
+import {
+  DNS_TYPE_A,
+  DNS_TYPE_ANY,
+  DNS_TYPE_PTR,
+  DNS_TYPE_SRV,
+  DNS_TYPE_TXT,
+  DnsPacket,
+  DnsRecord,
+  SrvData,
+  decodeDnsPacket,
+  encodeDnsPacket,
+  sameDnsName
+} from './dns-packet';
+
+export const MDNS_ADDRESS = '224.0.0.251';
+export const MDNS_PORT = 5353;
+const SERVICES_META_QUERY = '_services._dns-sd._udp.local';
+
+// RFC 6762 section 10: host-bound records live 2 minutes, the rest 75 minutes
+const HOST_RECORD_TTL = 120;
+const SERVICE_RECORD_TTL = 4500;
+const ANNOUNCE_INTERVAL_MS = 1000;
+const FIRST_QUERY_INTERVAL_MS = 1000;
+const MAX_QUERY_INTERVAL_MS = 60 * 60 * 1000;
+const EXPIRY_CHECK_MS = 1000;
+
+export interface MulticastPeer {
+  address: string;
+  port: number;
+}
+
+export interface MulticastTransport {
+  send(packet: Uint8Array): void;
+  // Returns an unsubscribe function
+  onPacket(handler: (packet: Uint8Array, from: MulticastPeer) => void): () => void;
+  close(): void;
+}
+
+// Every transport on the bus hears every other one, like hosts on one LAN segment
+export class InProcessMulticastBus {
+  private members: Set<InProcessMulticastTransport> = new Set();
+
+  createTransport(address: string): InProcessMulticastTransport {
+    const transport = new InProcessMulticastTransport(this, address);
+    this.members.add(transport);
+    return transport;
+  }
+
+  deliver(from: InProcessMulticastTransport, packet: Uint8Array): void {
+    for (const member of this.members) {
+      if (member !== from) {
+        const copy = packet.slice();
+        setTimeout(() => member.receive(copy, { address: from.address, port: MDNS_PORT }), 0);
+      }
+    }
+  }
+
+  remove(transport: InProcessMulticastTransport): void {
+    this.members.delete(transport);
+  }
+}
+
+export class InProcessMulticastTransport implements MulticastTransport {
+  readonly address: string;
+  private bus: InProcessMulticastBus;
+  private handlers: Set<(packet: Uint8Array, from: MulticastPeer) => void> = new Set();
+
+  constructor(bus: InProcessMulticastBus, address: string) {
+    this.bus = bus;
+    this.address = address;
+  }
+
+  send(packet: Uint8Array): void {
+    this.bus.deliver(this, packet);
+  }
+
+  onPacket(handler: (packet: Uint8Array, from: MulticastPeer) => void): () => void {
+    this.handlers.add(handler);
+    return () => {
+      this.handlers.delete(handler);
+    };
+  }
+
+  receive(packet: Uint8Array, from: MulticastPeer): void {
+    this.handlers.forEach(handler => handler(packet, from));
+  }
+
+  close(): void {
+    this.handlers.clear();
+    this.bus.remove(this);
+  }
+}
+
+// The subset of Node's dgram socket (also implemented by react-native-udp) that mDNS needs
+export interface DatagramSocket {
+  bind(port: number, callback?: () => void): unknown;
+  addMembership(multicastAddress: string): void;
+  setMulticastTTL(ttl: number): unknown;
+  setMulticastLoopback(flag: boolean): unknown;
+  send(message: Uint8Array, port: number, address: string): void;
+  on(event: 'message', listener: (message: Uint8Array, remote: MulticastPeer) => void): unknown;
+  on(event: 'error', listener: (error: Error) => void): unknown;
+  close(): void;
+}
+
+export type DatagramSocketFactory = (options: { type: 'udp4'; reuseAddr: boolean }) => DatagramSocket;
+
+// Pass `options => dgram.createSocket(options)` on Node, or react-native-udp's createSocket on device
+export class UdpMulticastTransport implements MulticastTransport {
+  private socket: DatagramSocket;
+  private handlers: Set<(packet: Uint8Array, from: MulticastPeer) => void> = new Set();
+  private ready: boolean = false;
+  private pending: Uint8Array[] = [];
+
+  constructor(createSocket: DatagramSocketFactory) {
+    this.socket = createSocket({ type: 'udp4', reuseAddr: true });
+    this.socket.on('message', (message, remote) => {
+      this.handlers.forEach(handler => handler(new Uint8Array(message), remote));
+    });
+    this.socket.on('error', error => console.error('❌ mDNS socket error:', error));
+    this.socket.bind(MDNS_PORT, () => {
+      this.socket.addMembership(MDNS_ADDRESS);
+      this.socket.setMulticastTTL(255);
+      this.socket.setMulticastLoopback(true);
+      this.ready = true;
+      this.pending.forEach(packet => this.send(packet));
+      this.pending = [];
+    });
+  }
+
+  send(packet: Uint8Array): void {
+    if (!this.ready) {
+      this.pending.push(packet);
+      return;
+    }
+    this.socket.send(packet, MDNS_PORT, MDNS_ADDRESS);
+  }
+
+  onPacket(handler: (packet: Uint8Array, from: MulticastPeer) => void): () => void {
+    this.handlers.add(handler);
+    return () => {
+      this.handlers.delete(handler);
+    };
+  }
+
+  close(): void {
+    this.handlers.clear();
+    this.socket.close();
+  }
+}
+
+export interface ServiceInstance {
+  // Human-readable, e.g. "Ann's Tetris"; dots are replaced since names are handled as dotted strings
+  instanceName: string;
+  serviceType: string;
+  hostName: string;
+  port: number;
+  addresses: string[];
+  txt: Record<string, string>;
+}
+
+export interface DiscoveredService {
+  instanceName: string;
+  fullName: string;
+  hostName: string;
+  addresses: string[];
+  port: number;
+  txt: Record<string, string>;
+  lastSeen: number;
+  // Milliseconds from our query to the first response that completed the service
+  responseTime: number | null;
+}
+
+function decodePacket(packet: Uint8Array): DnsPacket | null {
+  try {
+    return decodeDnsPacket(packet);
+  } catch (error) {
+    // Malformed or foreign traffic on 5353 is normal; ignore it
+    return null;
+  }
+}
+
+export function serviceInstanceName(instanceName: string): string {
+  return instanceName.replace(/\./g, ' ').trim().slice(0, 63);
+}
+
+export class ServiceAdvertiser {
+  private transport: MulticastTransport;
+  private service: ServiceInstance;
+  private unsubscribe: (() => void) | null = null;
+  private timers: Set<ReturnType<typeof setTimeout>> = new Set();
+
+  constructor(transport: MulticastTransport, service: ServiceInstance) {
+    this.transport = transport;
+    this.service = { ...service, instanceName: serviceInstanceName(service.instanceName) };
+  }
+
+  get fullName(): string {
+    return `${this.service.instanceName}.${this.service.serviceType}`;
+  }
+
+  start(): void {
+    if (this.unsubscribe) {
+      return;
+    }
+    this.unsubscribe = this.transport.onPacket(packet => this.handlePacket(packet));
+    this.announce();
+  }
+
+  updateTxt(txt: Record<string, string>): void {
+    if (JSON.stringify(txt) === JSON.stringify(this.service.txt)) {
+      return;
+    }
+    this.service = { ...this.service, txt };
+    if (this.unsubscribe) {
+      this.announce();
+    }
+  }
+
+  // Sends the goodbye (TTL 0) so browsers drop us immediately instead of waiting for expiry
+  stop(): void {
+    if (!this.unsubscribe) {
+      return;
+    }
+    this.unsubscribe();
+    this.unsubscribe = null;
+    this.timers.forEach(timer => clearTimeout(timer));
+    this.timers.clear();
+    this.sendResponse(this.allRecords().map(record => ({ ...record, ttl: 0 })), []);
+  }
+
+  private announce(): void {
+    this.sendResponse(this.allRecords(), []);
+    this.schedule(ANNOUNCE_INTERVAL_MS, () => this.sendResponse(this.allRecords(), []));
+  }
+
+  private handlePacket(data: Uint8Array): void {
+    const packet = decodePacket(data);
+    if (!packet || packet.response) {
+      return;
+    }
+
+    const answers: DnsRecord[] = [];
+    const additionals: DnsRecord[] = [];
+    let shared = false;
+    const { serviceType, hostName } = this.service;
+
+    for (const question of packet.questions) {
+      const any = question.type === DNS_TYPE_ANY;
+      if ((question.type === DNS_TYPE_PTR || any) && sameDnsName(question.name, serviceType)) {
+        // Known-answer suppression: skip if the asker already holds our PTR for at least half its TTL
+        const known = packet.answers.some(record =>
+          record.type === DNS_TYPE_PTR &&
+          sameDnsName(record.data, this.fullName) &&
+          record.ttl >= SERVICE_RECORD_TTL / 2
+        );
+        if (!known) {
+          answers.push(this.ptrRecord());
+          additionals.push(this.srvRecord(), this.txtRecord(), ...this.addressRecords());
+          shared = true;
+        }
+      } else if ((question.type === DNS_TYPE_PTR || any) && sameDnsName(question.name, SERVICES_META_QUERY)) {
+        answers.push({ name: SERVICES_META_QUERY, type: DNS_TYPE_PTR, ttl: SERVICE_RECORD_TTL, data: serviceType });
+        shared = true;
+      } else if (sameDnsName(question.name, this.fullName)) {
+        if (question.type === DNS_TYPE_SRV || any) {
+          answers.push(this.srvRecord());
+          additionals.push(...this.addressRecords());
+        }
+        if (question.type === DNS_TYPE_TXT || any) {
+          answers.push(this.txtRecord());
+        }
+      } else if ((question.type === DNS_TYPE_A || any) && sameDnsName(question.name, hostName)) {
+        answers.push(...this.addressRecords());
+      }
+    }
+
+    if (answers.length === 0) {
+      return;
+    }
+
+    // Shared records are delayed 20-120ms so several responders on the link do not collide
+    if (shared) {
+      this.schedule(20 + Math.random() * 100, () => this.sendResponse(answers, additionals));
+    } else {
+      this.sendResponse(answers, additionals);
+    }
+  }
+
+  private sendResponse(answers: DnsRecord[], additionals: DnsRecord[]): void {
+    this.transport.send(encodeDnsPacket({ id: 0, response: true, questions: [], answers, additionals }));
+  }
+
+  private schedule(delay: number, action: () => void): void {
+    const timer = setTimeout(() => {
+      this.timers.delete(timer);
+      action();
+    }, delay);
+    this.timers.add(timer);
+  }
+
+  private allRecords(): DnsRecord[] {
+    return [this.ptrRecord(), this.srvRecord(), this.txtRecord(), ...this.addressRecords()];
+  }
+
+  private ptrRecord(): DnsRecord {
+    return { name: this.service.serviceType, type: DNS_TYPE_PTR, ttl: SERVICE_RECORD_TTL, data: this.fullName };
+  }
+
+  private srvRecord(): DnsRecord {
+    const data: SrvData = { priority: 0, weight: 0, port: this.service.port, target: this.service.hostName };
+    return { name: this.fullName, type: DNS_TYPE_SRV, ttl: HOST_RECORD_TTL, flush: true, data };
+  }
+
+  private txtRecord(): DnsRecord {
+    return { name: this.fullName, type: DNS_TYPE_TXT, ttl: SERVICE_RECORD_TTL, flush: true, data: this.service.txt };
+  }
+
+  private addressRecords(): DnsRecord[] {
+    return this.service.addresses.map(address => ({
+      name: this.service.hostName,
+      type: DNS_TYPE_A,
+      ttl: HOST_RECORD_TTL,
+      flush: true,
+      data: address
+    }));
+  }
+}
+
+interface CachedRecord {
+  record: DnsRecord;
+  expiresAt: number;
+}
+
+// Emits 'serviceUp', 'serviceUpdated' and 'serviceDown' with a DiscoveredService
+export class ServiceBrowser extends EventEmitter {
+  private transport: MulticastTransport;
+  private serviceType: string;
+  private cache: Map<string, CachedRecord> = new Map();
+  private services: Map<string, DiscoveredService> = new Map();
+  private responders: Map<string, string> = new Map();
+  private unsubscribe: (() => void) | null = null;
+  private queryTimer: ReturnType<typeof setTimeout> | null = null;
+  private expiryTimer: ReturnType<typeof setInterval> | null = null;
+  private queryInterval: number = FIRST_QUERY_INTERVAL_MS;
+  private lastQueryAt: number = 0;
+
+  constructor(transport: MulticastTransport, serviceType: string) {
+    super();
+    this.transport = transport;
+    this.serviceType = serviceType;
+  }
+
+  start(): void {
+    if (this.unsubscribe) {
+      return;
+    }
+    this.unsubscribe = this.transport.onPacket((packet, from) => this.handlePacket(packet, from));
+    this.expiryTimer = setInterval(() => this.expire(), EXPIRY_CHECK_MS);
+    this.queryInterval = FIRST_QUERY_INTERVAL_MS;
+    this.query();
+  }
+
+  stop(): void {
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+    if (this.queryTimer) {
+      clearTimeout(this.queryTimer);
+      this.queryTimer = null;
+    }
+    if (this.expiryTimer) {
+      clearInterval(this.expiryTimer);
+      this.expiryTimer = null;
+    }
+  }
+
+  // Restarts the query backoff, e.g. when the user pulls to refresh
+  refresh(): void {
+    if (this.unsubscribe) {
+      if (this.queryTimer) {
+        clearTimeout(this.queryTimer);
+      }
+      this.queryInterval = FIRST_QUERY_INTERVAL_MS;
+      this.query();
+    }
+  }
+
+  getServices(): DiscoveredService[] {
+    return Array.from(this.services.values());
+  }
+
+  isBrowsing(): boolean {
+    return this.unsubscribe !== null;
+  }
+
+  // Continuous querying backs off exponentially (RFC 6762 section 5.2)
+  private query(): void {
+    const now = Date.now();
+    const knownAnswers = Array.from(this.cache.values())
+      .filter(entry =>
+        entry.record.type === DNS_TYPE_PTR &&
+        sameDnsName(entry.record.name, this.serviceType) &&
+        entry.expiresAt - now > (entry.record.ttl * 1000) / 2
+      )
+      .map(entry => ({ ...entry.record, ttl: Math.floor((entry.expiresAt - now) / 1000) }));
+
+    this.lastQueryAt = now;
+    this.transport.send(encodeDnsPacket({
+      id: 0,
+      response: false,
+      questions: [{ name: this.serviceType, type: DNS_TYPE_PTR }],
+      answers: knownAnswers,
+      additionals: []
+    }));
+
+    this.queryTimer = setTimeout(() => this.query(), this.queryInterval);
+    this.queryInterval = Math.min(this.queryInterval * 2, MAX_QUERY_INTERVAL_MS);
+  }
+
+  private handlePacket(data: Uint8Array, from: MulticastPeer): void {
+    const packet = decodePacket(data);
+    if (!packet || !packet.response) {
+      return;
+    }
+
+    const now = Date.now();
+    const touched = new Set<string>();
+    for (const record of [...packet.answers, ...packet.additionals]) {
+      const key = `${record.type}:${record.name.toLowerCase()}:${record.type === DNS_TYPE_PTR ? record.data.toLowerCase() : ''}`;
+      if (record.ttl === 0) {
+        this.cache.delete(key);
+      } else {
+        if (record.flush) {
+          this.flushRRSet(record, now);
+        }
+        this.cache.set(key, { record, expiresAt: now + record.ttl * 1000 });
+      }
+
+      if (record.type === DNS_TYPE_PTR && sameDnsName(record.name, this.serviceType)) {
+        touched.add(record.data);
+        this.responders.set(record.data.toLowerCase(), from.address);
+      } else if (record.type === DNS_TYPE_SRV || record.type === DNS_TYPE_TXT) {
+        touched.add(record.name);
+      }
+    }
+
+    // Any touched service needs re-resolving, including the ones sharing a host whose A changed
+    for (const service of this.services.values()) {
+      if (packet.answers.concat(packet.additionals).some(record => record.type === DNS_TYPE_A && sameDnsName(record.name, service.hostName))) {
+        touched.add(service.fullName);
+      }
+    }
+    touched.forEach(fullName => this.resolve(fullName, now));
+  }
+
+  // Cache-flush records replace every older record in the same set (RFC 6762 section 10.2)
+  private flushRRSet(record: DnsRecord, now: number): void {
+    for (const [key, entry] of this.cache) {
+      if (
+        entry.record.type === record.type &&
+        sameDnsName(entry.record.name, record.name) &&
+        now - (entry.expiresAt - entry.record.ttl * 1000) > 1000
+      ) {
+        this.cache.delete(key);
+      }
+    }
+  }
+
+  private resolve(fullName: string, now: number): void {
+    const lowerName = fullName.toLowerCase();
+    const ptr = this.cache.get(`${DNS_TYPE_PTR}:${this.serviceType.toLowerCase()}:${lowerName}`);
+    const srv = this.cache.get(`${DNS_TYPE_SRV}:${lowerName}:`)?.record;
+    const txt = this.cache.get(`${DNS_TYPE_TXT}:${lowerName}:`)?.record;
+
+    if (!ptr) {
+      this.removeService(lowerName);
+      return;
+    }
+    if (!srv || srv.type !== DNS_TYPE_SRV || !txt || txt.type !== DNS_TYPE_TXT) {
+      this.transport.send(encodeDnsPacket({
+        id: 0,
+        response: false,
+        questions: [{ name: fullName, type: DNS_TYPE_SRV }, { name: fullName, type: DNS_TYPE_TXT }],
+        answers: [],
+        additionals: []
+      }));
+      return;
+    }
+
+    const addresses = Array.from(this.cache.values())
+      .filter(entry => entry.record.type === DNS_TYPE_A && sameDnsName(entry.record.name, srv.data.target))
+      .map(entry => entry.record.data as string);
+    const responder = this.responders.get(lowerName);
+    const service: DiscoveredService = {
+      instanceName: fullName.slice(0, fullName.length - this.serviceType.length - 1),
+      fullName,
+      hostName: srv.data.target,
+      // Without an A record the packet's source address is the best guess
+      addresses: addresses.length > 0 ? addresses : responder ? [responder] : [],
+      port: srv.data.port,
+      txt: txt.data,
+      lastSeen: now,
+      responseTime: null
+    };
+
+    const existing = this.services.get(lowerName);
+    if (!existing) {
+      service.responseTime = now - this.lastQueryAt;
+      this.services.set(lowerName, service);
+      this.emit('serviceUp', service);
+    } else {
+      service.responseTime = existing.responseTime;
+      this.services.set(lowerName, service);
+      if (
+        existing.port !== service.port ||
+        existing.addresses.join() !== service.addresses.join() ||
+        JSON.stringify(existing.txt) !== JSON.stringify(service.txt)
+      ) {
+        this.emit('serviceUpdated', service);
+      }
+    }
+  }
+
+  private removeService(lowerName: string): void {
+    const service = this.services.get(lowerName);
+    if (service) {
+      this.services.delete(lowerName);
+      this.responders.delete(lowerName);
+      this.emit('serviceDown', service);
+    }
+  }
+
+  private expire(): void {
+    const now = Date.now();
+    let expired = false;
+    for (const [key, entry] of this.cache) {
+      if (entry.expiresAt <= now) {
+        this.cache.delete(key);
+        expired = true;
+      }
+    }
+    if (expired) {
+      Array.from(this.services.values()).forEach(service => this.resolve(service.fullName, now));
+    }
+  }
+}
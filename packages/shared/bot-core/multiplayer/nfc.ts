@@ -1,18 +1,7 @@
 // NFC Tap-to-Connect System
 // Nintendo DS PictoChat-level simplicity
 
-export interface NFCGameShare {
-  gameId: string;
-  gameName: string;
-  playerId: string;
-  playerName: string;
-  gameData: {
-    roomCode: string;
-    maxPlayers: number;
-    gameMode: string;
-  };
-  timestamp: number;
-}
+import { createJoinLink, extractJoinToken, JOIN_LINK_PREFIX, JOIN_TOKEN_PREFIX } from './join-token';
 
 export interface NFCFriendProfile {
   userId: string;
@@ -40,7 +29,8 @@ export class NFCGameSharing {
     return false;
   }
 
-  async shareGame(gameData: NFCGameShare): Promise<boolean> {
+  // Writes a signed token from JoinTokenIssuer as an mlvarcade:// link record
+  async shareGame(joinToken: string): Promise<boolean> {
     if (!this.ndefReader) {
       throw new Error('NFC not supported on this device');
     }
@@ -50,13 +40,12 @@ export class NFCGameSharing {
       
       await this.ndefReader.write({
         records: [{
-          recordType: 'mime',
-          mediaType: 'application/json',
-          data: JSON.stringify(gameData)
+          recordType: 'url',
+          data: createJoinLink(joinToken)
         }]
       });
 
-      console.log('📱 Game shared via NFC:', gameData.gameName);
+      console.log('📱 Game shared via NFC');
       return true;
     } catch (error) {
       console.error('❌ NFC share failed:', error);
@@ -66,25 +55,27 @@ export class NFCGameSharing {
     }
   }
 
-  async readGameShare(): Promise<NFCGameShare | null> {
+  // Resolves with the raw join token; verify it with verifyJoinToken before trusting anything in it
+  async readGameShare(): Promise<string | null> {
     if (!this.ndefReader) {
       throw new Error('NFC not supported on this device');
     }
 
     return new Promise((resolve) => {
       const handleReading = (event: any) => {
-        try {
-          const data = JSON.parse(event.data);
-          if (data.gameId && data.gameName) {
-            console.log('📱 Game received via NFC:', data.gameName);
-            resolve(data);
-          } else {
-            resolve(null);
+        const decoder = new TextDecoder();
+        for (const record of event.message?.records ?? []) {
+          if (record.recordType !== 'url' && record.recordType !== 'text') {
+            continue;
+          }
+          const text = decoder.decode(record.data);
+          if (text.startsWith(JOIN_LINK_PREFIX) || text.startsWith(`${JOIN_TOKEN_PREFIX}.`)) {
+            console.log('📱 Join code received via NFC');
+            resolve(extractJoinToken(text));
+            return;
           }
-        } catch (error) {
-          console.error('❌ NFC read failed:', error);
-          resolve(null);
         }
+        resolve(null);
       };
 
       this.ndefReader!.addEventListener('reading', handleReading);
@@ -0,0 +1,225 @@
+import { inflateSync } from 'zlib';
+import {
+  DRAWING_FORMAT_VERSION,
+  DRAWING_HEIGHT,
+  DRAWING_MAX_BYTES,
+  DRAWING_MAX_ENCODED_LENGTH,
+  DRAWING_MAX_STROKES,
+  DRAWING_MAX_STROKE_POINTS,
+  DRAWING_PALETTE,
+  DRAWING_WIDTH,
+  Drawing,
+  DrawingAssembler,
+  DrawingFormatError,
+  DrawingRecorder,
+  DrawingStroke,
+  decodeDrawing,
+  decodeDrawingBytes,
+  encodeDrawing,
+  encodeDrawingBytes,
+  renderDrawingPng,
+  renderDrawingSvg
+} from './pictochat-drawing';
+
+const stroke = (points: number[], options: Partial<DrawingStroke> = {}): DrawingStroke => ({
+  tool: 'pen',
+  color: 0,
+  size: 1,
+  points,
+  ...options
+});
+
+// A diagonal squiggle that stays on the canvas
+const squiggle = (count: number, offset = 0): number[] =>
+  Array.from({ length: count }, (_, i) => [(offset + i) % DRAWING_WIDTH, (offset + i * 3) % DRAWING_HEIGHT]).flat();
+
+const sample: Drawing = {
+  strokes: [
+    stroke([10, 10, 40, 12, 38, 60, 255, 191], { color: 3, size: 4 }),
+    stroke([0, 0]),
+    stroke([30, 30, 25, 35], { tool: 'eraser', color: 0, size: 8 })
+  ]
+};
+
+const expectFormatError = (action: () => unknown, message: RegExp) => {
+  expect(action).toThrow(DrawingFormatError);
+  expect(action).toThrow(message);
+};
+
+// Palette indexes of an 8-bit indexed PNG, with the filter byte of each row removed
+const readPng = (png: Uint8Array) => {
+  const view = new DataView(png.buffer, png.byteOffset, png.byteLength);
+  const chunks: Record<string, Uint8Array[]> = {};
+  for (let offset = 8; offset < png.length;) {
+    const length = view.getUint32(offset);
+    const type = String.fromCharCode(...png.subarray(offset + 4, offset + 8));
+    (chunks[type] ??= []).push(png.subarray(offset + 8, offset + 8 + length));
+    offset += 12 + length;
+  }
+  const header = new DataView(chunks.IHDR![0]!.buffer, chunks.IHDR![0]!.byteOffset);
+  const width = header.getUint32(0);
+  const height = header.getUint32(4);
+  const raw = inflateSync(Buffer.concat(chunks.IDAT!));
+  const pixelAt = (x: number, y: number) => raw[y * (width + 1) + 1 + x];
+  return { width, height, palette: chunks.PLTE![0]!, pixelAt, types: Object.keys(chunks) };
+};
+
+describe('drawing encoding', () => {
+  it('round-trips pens, erasers, colours and sizes through base64url', () => {
+    const encoded = encodeDrawing(sample);
+
+    expect(encoded).toMatch(/^[A-Za-z0-9_-]+$/);
+    expect(decodeDrawing(encoded)).toEqual(sample);
+  });
+
+  it('rounds and clamps points onto the canvas', () => {
+    const drawing = { strokes: [stroke([-5, 3.4, 300.2, 250, 12.6, -1])] };
+
+    expect(decodeDrawing(encodeDrawing(drawing)).strokes[0]!.points).toEqual([0, 3, 255, 191, 13, 0]);
+  });
+
+  it('stores neighbouring points as small deltas', () => {
+    const points = Array.from({ length: 200 }, (_, i) => [i, 50 + (i % 5)]).flat();
+
+    const bytes = encodeDrawingBytes({ strokes: [stroke(points)] });
+
+    // Version, stroke count, header, a two-byte point count and the first point, then one byte per coordinate
+    expect(bytes.length).toBe(7 + 199 * 2);
+    expect(decodeDrawingBytes(bytes).strokes[0]!.points).toEqual(points);
+  });
+
+  it('rejects drawings over the byte limit even within the point limits', () => {
+    // Wrapping at the canvas edge makes some deltas take two bytes
+    const strokes = Array.from({ length: 4 }, (_, i) => stroke(squiggle(DRAWING_MAX_STROKE_POINTS, i * 17)));
+
+    expectFormatError(() => encodeDrawingBytes({ strokes }), /bytes; the limit is 24576/);
+  });
+
+  it('rejects drawings past the stroke, point, size and colour limits', () => {
+    const lone = stroke([1, 1]);
+
+    expectFormatError(() => encodeDrawing({ strokes: Array(DRAWING_MAX_STROKES + 1).fill(lone) }), /strokes/);
+    expectFormatError(() => encodeDrawing({ strokes: [stroke(squiggle(DRAWING_MAX_STROKE_POINTS + 1))] }), /points/);
+    expectFormatError(
+      () => encodeDrawing({ strokes: Array(5).fill(stroke(squiggle(DRAWING_MAX_STROKE_POINTS))) }),
+      /more than 16384 points/
+    );
+    expectFormatError(() => encodeDrawing({ strokes: [stroke([1, 1], { size: 9 })] }), /Pen size/);
+    expectFormatError(() => encodeDrawing({ strokes: [stroke([1, 1], { color: DRAWING_PALETTE.length })] }), /Colour/);
+    expectFormatError(() => encodeDrawing({ strokes: [stroke([1, 1, 2])] }), /points/);
+  });
+
+  it('rejects malformed data', () => {
+    const bytes = encodeDrawingBytes(sample);
+    // One stroke at (0, 0) that steps off the left edge
+    const offCanvas = Uint8Array.of(DRAWING_FORMAT_VERSION, 1, 0x00, 2, 0, 0, 1, 0);
+
+    expectFormatError(() => decodeDrawingBytes(Uint8Array.of(2, 0)), /format v2/);
+    expectFormatError(() => decodeDrawingBytes(bytes.subarray(0, bytes.length - 1)), /truncated/);
+    expectFormatError(() => decodeDrawingBytes(Uint8Array.of(...bytes, 0)), /after the last stroke/);
+    expectFormatError(() => decodeDrawingBytes(offCanvas), /outside the canvas/);
+    expectFormatError(() => decodeDrawingBytes(Uint8Array.of(DRAWING_FORMAT_VERSION, 1, 0x00, 0)), /0 points/);
+    expectFormatError(() => decodeDrawingBytes(new Uint8Array(DRAWING_MAX_BYTES + 1)), /limit/);
+    expectFormatError(() => decodeDrawing('not base64!'), /base64url/);
+    expectFormatError(() => decodeDrawing('A'.repeat(DRAWING_MAX_ENCODED_LENGTH + 1)), /too large/);
+  });
+});
+
+describe('drawing streams', () => {
+  it('rebuilds a drawing in progress from recorder deltas', () => {
+    const recorder = new DrawingRecorder();
+    const assembler = new DrawingAssembler();
+
+    recorder.beginStroke(10, 10, { color: 5, size: 3 });
+    recorder.addPoint(12, 11);
+    expect(assembler.apply(recorder.takeDelta()!)).toBe(true);
+    expect(recorder.takeDelta()).toBeNull();
+
+    expect(recorder.addPoint(12, 11)).toBe(false);
+    recorder.addPoint(20, 15);
+    recorder.beginStroke(100, 100, { tool: 'eraser', size: 8 });
+    expect(assembler.apply(recorder.takeDelta()!)).toBe(true);
+
+    expect(assembler.getDrawing()).toEqual(recorder.getDrawing());
+    expect(assembler.isComplete()).toBe(true);
+    expect(decodeDrawing(encodeDrawing(recorder.getDrawing()))).toEqual(recorder.getDrawing());
+  });
+
+  it('ignores repeated deltas and marks the preview incomplete after a gap', () => {
+    const recorder = new DrawingRecorder();
+    const assembler = new DrawingAssembler();
+    recorder.beginStroke(1, 1);
+    const first = recorder.takeDelta()!;
+    recorder.addPoint(2, 2);
+    recorder.takeDelta();
+    recorder.addPoint(3, 3);
+    recorder.beginStroke(50, 50);
+    const third = recorder.takeDelta()!;
+
+    expect(assembler.apply(first)).toBe(true);
+    expect(assembler.apply(first)).toBe(false);
+    expect(assembler.apply(third)).toBe(true);
+
+    expect(assembler.isComplete()).toBe(false);
+    // The first stroke stops where the lost delta would have continued it
+    expect(assembler.getDrawing().strokes.map(part => part.points)).toEqual([[1, 1], [50, 50]]);
+  });
+
+  it('stops recording at the stroke limit', () => {
+    const recorder = new DrawingRecorder();
+    for (let i = 0; i < DRAWING_MAX_STROKES; i++) {
+      expect(recorder.beginStroke(i % DRAWING_WIDTH, 0)).toBe(true);
+    }
+
+    expect(recorder.beginStroke(0, 0)).toBe(false);
+    expect(recorder.getDrawing().strokes).toHaveLength(DRAWING_MAX_STROKES);
+    expect(() => new DrawingRecorder().beginStroke(0, 0, { size: 0 })).toThrow(DrawingFormatError);
+  });
+});
+
+describe('drawing rendering', () => {
+  it('renders strokes as SVG paths in palette colours', () => {
+    const svg = renderDrawingSvg(sample, { scale: 2, background: '#fffbe0' });
+
+    expect(svg).toContain('width="512" height="384" viewBox="0 0 256 192"');
+    expect(svg).toContain('<rect width="256" height="192" fill="#fffbe0"/>');
+    expect(svg).toContain(`<path d="M10.5 10.5L40.5 12.5L38.5 60.5L255.5 191.5" stroke="${DRAWING_PALETTE[3]}" stroke-width="4"/>`);
+    // A lone point becomes a dot, and the eraser paints the background
+    expect(svg).toContain('<path d="M0.5 0.5l0 0" stroke="#000000" stroke-width="1"/>');
+    expect(svg).toContain('<path d="M30.5 30.5L25.5 35.5" stroke="#fffbe0" stroke-width="8"/>');
+  });
+
+  it('renders strokes into an indexed PNG', async () => {
+    const png = readPng(await renderDrawingPng(sample));
+
+    expect(png.types).toEqual(['IHDR', 'PLTE', 'IDAT', 'IEND']);
+    expect([png.width, png.height]).toEqual([DRAWING_WIDTH, DRAWING_HEIGHT]);
+    expect(Array.from(png.palette.subarray(0, 6))).toEqual([0xff, 0xff, 0xff, 0, 0, 0]);
+    // Index 0 is paper, so palette colour n is stored as n + 1
+    expect(png.pixelAt(25, 11)).toBe(4);
+    expect(png.pixelAt(0, 0)).toBe(1);
+    expect(png.pixelAt(100, 150)).toBe(0);
+    // The eraser crosses the red line between (38, 60) and (40, 12)
+    expect(png.pixelAt(28, 32)).toBe(0);
+  });
+
+  it('scales the PNG and falls back to stored deflate without CompressionStream', async () => {
+    const compressed = readPng(await renderDrawingPng(sample, { scale: 2 }));
+    const original = globalThis.CompressionStream;
+    Reflect.deleteProperty(globalThis, 'CompressionStream');
+    let stored: ReturnType<typeof readPng>;
+    try {
+      stored = readPng(await renderDrawingPng(sample, { scale: 2 }));
+    } finally {
+      globalThis.CompressionStream = original;
+    }
+
+    expect([stored.width, stored.height]).toEqual([DRAWING_WIDTH * 2, DRAWING_HEIGHT * 2]);
+    expect(stored.pixelAt(51, 23)).toBe(4);
+    for (let y = 0; y < stored.height; y += 7) {
+      for (let x = 0; x < stored.width; x += 5) {
+        expect(stored.pixelAt(x, y)).toBe(compressed.pixelAt(x, y));
+      }
+    }
+  });
+});
@@ -0,0 +1,598 @@
+// PictoChat Drawings
+// Compact stroke format for PictoChat sketches, with streaming and SVG/PNG rendering
+//
+// Encoded drawing (then base64url for JSON transports):
+//   u8 version | varint strokeCount | strokes...
+// Stroke:
+//   u8 header (bit 7 eraser, bits 4-6 pen size - 1, bits 0-3 palette index)
+//   varint pointCount | u8 x0 | u8 y0 | (zigzag varint dx, dy) * (pointCount - 1)
+
+import { decodeBase64Url, encodeBase64Url } from './base64url';
+
+export const DRAWING_FORMAT_VERSION = 1;
+export const DRAWING_WIDTH = 256;
+export const DRAWING_HEIGHT = 192;
+export const DRAWING_MAX_PEN_SIZE = 8;
+export const DRAWING_MAX_STROKES = 1024;
+export const DRAWING_MAX_STROKE_POINTS = 4096;
+export const DRAWING_MAX_POINTS = 16384;
+// Keeps a finished drawing small enough for a BLE handoff or a large NFC tag
+export const DRAWING_MAX_BYTES = 24 * 1024;
+export const DRAWING_MAX_ENCODED_LENGTH = Math.ceil((DRAWING_MAX_BYTES * 4) / 3);
+
+export const DRAWING_PAPER_COLOR = '#ffffff';
+
+// PictoChat black ink followed by the DS firmware favourite colours
+export const DRAWING_PALETTE = [
+  '#000000', // ink
+  '#61829a', // gray
+  '#ba4900', // brown
+  '#fb0018', // red
+  '#fb8afb', // pink
+  '#fb9200', // orange
+  '#f3e300', // yellow
+  '#aafb00', // lime
+  '#00fb00', // green
+  '#00a238', // dark green
+  '#49db8a', // sea green
+  '#30baf3', // turquoise
+  '#0059f3', // blue
+  '#000092', // dark blue
+  '#8a00d3', // purple
+  '#fb0092' // magenta
+];
+
+export type DrawingTool = 'pen' | 'eraser';
+
+export interface DrawingStroke {
+  tool: DrawingTool;
+  // Index into DRAWING_PALETTE; ignored by the eraser
+  color: number;
+  size: number;
+  // Flat canvas coordinates: x0, y0, x1, y1, ...
+  points: number[];
+}
+
+export interface Drawing {
+  strokes: DrawingStroke[];
+}
+
+export interface StrokeOptions {
+  tool?: DrawingTool;
+  color?: number;
+  size?: number;
+}
+
+export class DrawingFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DrawingFormatError';
+  }
+}
+
+class ByteWriter {
+  private bytes: number[] = [];
+
+  u8(value: number): void {
+    this.bytes.push(value & 0xff);
+  }
+
+  varint(value: number): void {
+    let remaining = value >>> 0;
+    while (remaining >= 0x80) {
+      this.bytes.push((remaining & 0x7f) | 0x80);
+      remaining >>>= 7;
+    }
+    this.bytes.push(remaining);
+  }
+
+  signed(value: number): void {
+    this.varint(value >= 0 ? value * 2 : -value * 2 - 1);
+  }
+
+  get length(): number {
+    return this.bytes.length;
+  }
+
+  toBytes(): Uint8Array {
+    return Uint8Array.from(this.bytes);
+  }
+}
+
+class ByteReader {
+  private data: Uint8Array;
+  private offset = 0;
+
+  constructor(data: Uint8Array) {
+    this.data = data;
+  }
+
+  u8(): number {
+    if (this.offset >= this.data.length) {
+      throw new DrawingFormatError('Drawing data is truncated');
+    }
+    return this.data[this.offset++]!;
+  }
+
+  varint(): number {
+    let value = 0;
+    for (let shift = 0; shift < 32; shift += 7) {
+      const byte = this.u8();
+      value += (byte & 0x7f) * 2 ** shift;
+      if ((byte & 0x80) === 0) {
+        return value;
+      }
+    }
+    throw new DrawingFormatError('Drawing varint is too long');
+  }
+
+  signed(): number {
+    const value = this.varint();
+    return value % 2 === 0 ? value / 2 : -(value + 1) / 2;
+  }
+
+  get done(): boolean {
+    return this.offset >= this.data.length;
+  }
+}
+
+function strokeHeader(stroke: DrawingStroke): number {
+  return (stroke.tool === 'eraser' ? 0x80 : 0) | ((stroke.size - 1) << 4) | stroke.color;
+}
+
+function readStrokeHeader(header: number): Omit<DrawingStroke, 'points'> {
+  return {
+    tool: header & 0x80 ? 'eraser' : 'pen',
+    size: ((header >> 4) & 0x07) + 1,
+    color: header & 0x0f
+  };
+}
+
+// Writes points[from..] with the first one absolute and the rest relative to their predecessor
+function writePoints(writer: ByteWriter, points: number[], from: number): void {
+  writer.varint((points.length - from) / 2);
+  writer.u8(points[from]!);
+  writer.u8(points[from + 1]!);
+  for (let i = from + 2; i < points.length; i += 2) {
+    writer.signed(points[i]! - points[i - 2]!);
+    writer.signed(points[i + 1]! - points[i - 1]!);
+  }
+}
+
+function readPoints(reader: ByteReader, limit: number): number[] {
+  const count = reader.varint();
+  if (count === 0 || count > limit) {
+    throw new DrawingFormatError(`Stroke has ${count} points; the limit is ${limit}`);
+  }
+  const points = [reader.u8(), reader.u8()];
+  for (let i = 1; i < count; i++) {
+    const x = points[points.length - 2]! + reader.signed();
+    const y = points[points.length - 1]! + reader.signed();
+    points.push(x, y);
+  }
+  for (let i = 0; i < points.length; i += 2) {
+    if (points[i]! < 0 || points[i]! >= DRAWING_WIDTH || points[i + 1]! < 0 || points[i + 1]! >= DRAWING_HEIGHT) {
+      throw new DrawingFormatError('Stroke point lies outside the canvas');
+    }
+  }
+  return points;
+}
+
+function clampPoint(x: number, y: number): [number, number] {
+  return [
+    Math.min(DRAWING_WIDTH - 1, Math.max(0, Math.round(x))),
+    Math.min(DRAWING_HEIGHT - 1, Math.max(0, Math.round(y)))
+  ];
+}
+
+export function validateDrawing(drawing: Drawing): void {
+  if (drawing.strokes.length > DRAWING_MAX_STROKES) {
+    throw new DrawingFormatError(`Drawing has more than ${DRAWING_MAX_STROKES} strokes`);
+  }
+  let total = 0;
+  for (const stroke of drawing.strokes) {
+    if (!Number.isInteger(stroke.size) || stroke.size < 1 || stroke.size > DRAWING_MAX_PEN_SIZE) {
+      throw new DrawingFormatError(`Pen size must be 1-${DRAWING_MAX_PEN_SIZE}`);
+    }
+    if (!Number.isInteger(stroke.color) || stroke.color < 0 || stroke.color >= DRAWING_PALETTE.length) {
+      throw new DrawingFormatError(`Colour must be a palette index below ${DRAWING_PALETTE.length}`);
+    }
+    if (stroke.points.length < 2 || stroke.points.length % 2 !== 0 || stroke.points.length / 2 > DRAWING_MAX_STROKE_POINTS) {
+      throw new DrawingFormatError(`Strokes need 1-${DRAWING_MAX_STROKE_POINTS} points`);
+    }
+    total += stroke.points.length / 2;
+  }
+  if (total > DRAWING_MAX_POINTS) {
+    throw new DrawingFormatError(`Drawing has more than ${DRAWING_MAX_POINTS} points`);
+  }
+}
+
+export function encodeDrawingBytes(drawing: Drawing): Uint8Array {
+  validateDrawing(drawing);
+
+  const writer = new ByteWriter();
+  writer.u8(DRAWING_FORMAT_VERSION);
+  writer.varint(drawing.strokes.length);
+  for (const stroke of drawing.strokes) {
+    const points: number[] = [];
+    for (let i = 0; i < stroke.points.length; i += 2) {
+      points.push(...clampPoint(stroke.points[i]!, stroke.points[i + 1]!));
+    }
+    writer.u8(strokeHeader(stroke));
+    writePoints(writer, points, 0);
+  }
+
+  if (writer.length > DRAWING_MAX_BYTES) {
+    throw new DrawingFormatError(`Drawing is ${writer.length} bytes; the limit is ${DRAWING_MAX_BYTES}`);
+  }
+  return writer.toBytes();
+}
+
+export function decodeDrawingBytes(data: Uint8Array): Drawing {
+  if (data.length > DRAWING_MAX_BYTES) {
+    throw new DrawingFormatError(`Drawing is ${data.length} bytes; the limit is ${DRAWING_MAX_BYTES}`);
+  }
+
+  const reader = new ByteReader(data);
+  const version = reader.u8();
+  if (version !== DRAWING_FORMAT_VERSION) {
+    throw new DrawingFormatError(`Unsupported drawing format v${version}`);
+  }
+
+  const count = reader.varint();
+  if (count > DRAWING_MAX_STROKES) {
+    throw new DrawingFormatError(`Drawing has more than ${DRAWING_MAX_STROKES} strokes`);
+  }
+  const strokes: DrawingStroke[] = [];
+  let total = 0;
+  for (let i = 0; i < count; i++) {
+    const header = readStrokeHeader(reader.u8());
+    const points = readPoints(reader, Math.min(DRAWING_MAX_STROKE_POINTS, DRAWING_MAX_POINTS - total));
+    total += points.length / 2;
+    strokes.push({ ...header, points });
+  }
+  if (!reader.done) {
+    throw new DrawingFormatError('Unexpected bytes after the last stroke');
+  }
+  return { strokes };
+}
+
+// Base64url string for PictoChatMessage.drawing
+export function encodeDrawing(drawing: Drawing): string {
+  return encodeBase64Url(encodeDrawingBytes(drawing));
+}
+
+export function decodeDrawing(encoded: string): Drawing {
+  if (encoded.length > DRAWING_MAX_ENCODED_LENGTH) {
+    throw new DrawingFormatError('Drawing is too large');
+  }
+  return decodeDrawingBytes(decodeBase64(encoded));
+}
+
+// Collects strokes as the user draws and hands out the new part of each stroke for streaming
+export class DrawingRecorder {
+  private strokes: DrawingStroke[] = [];
+  private streamed: number[] = [];
+  private totalPoints = 0;
+  private seq = 0;
+
+  // Returns false once the drawing is at its stroke limit
+  beginStroke(x: number, y: number, options: StrokeOptions = {}): boolean {
+    if (this.strokes.length >= DRAWING_MAX_STROKES || this.totalPoints >= DRAWING_MAX_POINTS) {
+      return false;
+    }
+    const stroke: DrawingStroke = {
+      tool: options.tool ?? 'pen',
+      color: options.color ?? 0,
+      size: options.size ?? 1,
+      points: clampPoint(x, y)
+    };
+    validateDrawing({ strokes: [stroke] });
+
+    this.strokes.push(stroke);
+    this.streamed.push(0);
+    this.totalPoints++;
+    return true;
+  }
+
+  // Returns false when the point was dropped because it repeats the last one or a limit was reached
+  addPoint(x: number, y: number): boolean {
+    const stroke = this.strokes[this.strokes.length - 1];
+    if (!stroke || stroke.points.length / 2 >= DRAWING_MAX_STROKE_POINTS || this.totalPoints >= DRAWING_MAX_POINTS) {
+      return false;
+    }
+    const [px, py] = clampPoint(x, y);
+    const last = stroke.points.length - 2;
+    if (stroke.points[last] === px && stroke.points[last + 1] === py) {
+      return false;
+    }
+    stroke.points.push(px, py);
+    this.totalPoints++;
+    return true;
+  }
+
+  getDrawing(): Drawing {
+    return { strokes: this.strokes.map(stroke => ({ ...stroke, points: stroke.points.slice() })) };
+  }
+
+  isEmpty(): boolean {
+    return this.strokes.length === 0;
+  }
+
+  // Points added since the previous call as an encoded delta for DrawingAssembler; null when nothing changed
+  takeDelta(): string | null {
+    const segments: number[] = [];
+    this.strokes.forEach((stroke, index) => {
+      if (this.streamed[index]! < stroke.points.length) {
+        segments.push(index);
+      }
+    });
+    if (segments.length === 0) {
+      return null;
+    }
+
+    const writer = new ByteWriter();
+    writer.u8(DRAWING_FORMAT_VERSION);
+    writer.varint(++this.seq);
+    writer.varint(segments.length);
+    for (const index of segments) {
+      const stroke = this.strokes[index]!;
+      const from = this.streamed[index]!;
+      writer.varint(index);
+      writer.u8(strokeHeader(stroke));
+      writer.varint(from / 2);
+      writePoints(writer, stroke.points, from);
+      this.streamed[index] = stroke.points.length;
+    }
+    return encodeBase64Url(writer.toBytes());
+  }
+}
+
+// Rebuilds a drawing that is still in progress from DrawingRecorder deltas
+export class DrawingAssembler {
+  private strokes: DrawingStroke[] = [];
+  private lastSeq = 0;
+  private complete = true;
+
+  // Returns false for stale or duplicate deltas; a gap marks the preview incomplete until the final drawing
+  apply(delta: string): boolean {
+    if (delta.length > DRAWING_MAX_ENCODED_LENGTH) {
+      throw new DrawingFormatError('Drawing delta is too large');
+    }
+    const reader = new ByteReader(decodeBase64(delta));
+    if (reader.u8() !== DRAWING_FORMAT_VERSION) {
+      throw new DrawingFormatError('Unsupported drawing delta version');
+    }
+    const seq = reader.varint();
+    if (seq <= this.lastSeq) {
+      return false;
+    }
+    if (seq !== this.lastSeq + 1) {
+      this.complete = false;
+    }
+    this.lastSeq = seq;
+
+    const segments = reader.varint();
+    for (let i = 0; i < segments; i++) {
+      const index = reader.varint();
+      const header = readStrokeHeader(reader.u8());
+      const offset = reader.varint();
+      const points = readPoints(reader, DRAWING_MAX_STROKE_POINTS);
+      if (index >= DRAWING_MAX_STROKES) {
+        throw new DrawingFormatError(`Drawing has more than ${DRAWING_MAX_STROKES} strokes`);
+      }
+
+      const stroke = this.strokes[index] ?? { ...header, points: [] };
+      this.strokes[index] = stroke;
+      // Only extend strokes whose earlier points all arrived
+      if (stroke.points.length / 2 === offset && offset + points.length / 2 <= DRAWING_MAX_STROKE_POINTS) {
+        stroke.points.push(...points);
+      } else {
+        this.complete = false;
+      }
+    }
+    return true;
+  }
+
+  getDrawing(): Drawing {
+    return {
+      strokes: this.strokes.filter(stroke => stroke && stroke.points.length > 0).map(stroke => ({
+        ...stroke,
+        points: stroke.points.slice()
+      }))
+    };
+  }
+
+  isComplete(): boolean {
+    return this.complete;
+  }
+}
+
+export interface DrawingRenderOptions {
+  scale?: number;
+  // Eraser strokes paint with this colour
+  background?: string;
+}
+
+export function renderDrawingSvg(drawing: Drawing, options: DrawingRenderOptions = {}): string {
+  const scale = options.scale ?? 1;
+  const background = options.background ?? DRAWING_PAPER_COLOR;
+  const width = DRAWING_WIDTH * scale;
+  const height = DRAWING_HEIGHT * scale;
+
+  const paths = drawing.strokes.map(stroke => {
+    const color = stroke.tool === 'eraser' ? background : DRAWING_PALETTE[stroke.color] ?? DRAWING_PALETTE[0];
+    const commands: string[] = [];
+    for (let i = 0; i < stroke.points.length; i += 2) {
+      // Offset by half a pixel so strokes sit on pixel centres like the PNG renderer
+      commands.push(`${i === 0 ? 'M' : 'L'}${stroke.points[i]! + 0.5} ${stroke.points[i + 1]! + 0.5}`);
+    }
+    // A lone point still needs a zero-length segment for the round cap to draw a dot
+    if (stroke.points.length === 2) {
+      commands.push('l0 0');
+    }
+    return `<path d="${commands.join('')}" stroke="${color}" stroke-width="${stroke.size}"/>`;
+  });
+
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${DRAWING_WIDTH} ${DRAWING_HEIGHT}">`,
+    `<rect width="${DRAWING_WIDTH}" height="${DRAWING_HEIGHT}" fill="${background}"/>`,
+    `<g fill="none" stroke-linecap="round" stroke-linejoin="round">${paths.join('')}</g>`,
+    '</svg>'
+  ].join('');
+}
+
+// Palette PNG; uses CompressionStream where available and stored deflate blocks elsewhere
+export async function renderDrawingPng(drawing: Drawing, options: DrawingRenderOptions = {}): Promise<Uint8Array> {
+  const scale = Math.max(1, Math.floor(options.scale ?? 1));
+  const width = DRAWING_WIDTH * scale;
+  const height = DRAWING_HEIGHT * scale;
+  // Index 0 is the paper, 1.. the ink palette
+  const pixels = new Uint8Array(width * height);
+
+  for (const stroke of drawing.strokes) {
+    const ink = stroke.tool === 'eraser' ? 0 : stroke.color + 1;
+    const radius = (stroke.size * scale) / 2;
+    const stamp = (cx: number, cy: number) => {
+      const reach = Math.ceil(radius);
+      for (let y = Math.max(0, Math.floor(cy - reach)); y <= Math.min(height - 1, Math.ceil(cy + reach)); y++) {
+        for (let x = Math.max(0, Math.floor(cx - reach)); x <= Math.min(width - 1, Math.ceil(cx + reach)); x++) {
+          const dx = x + 0.5 - cx;
+          const dy = y + 0.5 - cy;
+          if (dx * dx + dy * dy <= radius * radius) {
+            pixels[y * width + x] = ink;
+          }
+        }
+      }
+    };
+
+    let px = (stroke.points[0]! + 0.5) * scale;
+    let py = (stroke.points[1]! + 0.5) * scale;
+    stamp(px, py);
+    for (let i = 2; i < stroke.points.length; i += 2) {
+      const nx = (stroke.points[i]! + 0.5) * scale;
+      const ny = (stroke.points[i + 1]! + 0.5) * scale;
+      const steps = Math.max(1, Math.ceil(Math.hypot(nx - px, ny - py) * 2));
+      for (let step = 1; step <= steps; step++) {
+        stamp(px + ((nx - px) * step) / steps, py + ((ny - py) * step) / steps);
+      }
+      px = nx;
+      py = ny;
+    }
+  }
+
+  const raw = new Uint8Array((width + 1) * height);
+  for (let y = 0; y < height; y++) {
+    // Filter type 0 (none) per scanline
+    raw.set(pixels.subarray(y * width, (y + 1) * width), y * (width + 1) + 1);
+  }
+
+  const header = new Uint8Array(13);
+  const view = new DataView(header.buffer);
+  view.setUint32(0, width);
+  view.setUint32(4, height);
+  header[8] = 8; // bit depth
+  header[9] = 3; // indexed colour
+
+  const background = hexToRgb(options.background ?? DRAWING_PAPER_COLOR);
+  const palette = new Uint8Array(3 * (DRAWING_PALETTE.length + 1));
+  [background, ...DRAWING_PALETTE.map(hexToRgb)].forEach((rgb, index) => palette.set(rgb, index * 3));
+
+  return concatBytes([
+    Uint8Array.of(0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a),
+    pngChunk('IHDR', header),
+    pngChunk('PLTE', palette),
+    pngChunk('IDAT', await zlibCompress(raw)),
+    pngChunk('IEND', new Uint8Array(0))
+  ]);
+}
+
+function hexToRgb(hex: string): number[] {
+  const value = parseInt(hex.replace('#', ''), 16);
+  return [(value >> 16) & 0xff, (value >> 8) & 0xff, value & 0xff];
+}
+
+function concatBytes(parts: Uint8Array[]): Uint8Array {
+  const output = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    output.set(part, offset);
+    offset += part.length;
+  }
+  return output;
+}
+
+let crcTable: Uint32Array | null = null;
+
+function crc32(data: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      }
+      crcTable[n] = c >>> 0;
+    }
+  }
+  let crc = 0xffffffff;
+  for (const byte of data) {
+    crc = crcTable[(crc ^ byte) & 0xff]! ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function pngChunk(type: string, data: Uint8Array): Uint8Array {
+  const chunk = new Uint8Array(12 + data.length);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, data.length);
+  for (let i = 0; i < 4; i++) {
+    chunk[4 + i] = type.charCodeAt(i);
+  }
+  chunk.set(data, 8);
+  view.setUint32(8 + data.length, crc32(chunk.subarray(4, 8 + data.length)));
+  return chunk;
+}
+
+async function zlibCompress(data: Uint8Array): Promise<Uint8Array> {
+  if (typeof CompressionStream !== 'undefined') {
+    const stream = new Blob([new Uint8Array(data)]).stream().pipeThrough(new CompressionStream('deflate'));
+    return new Uint8Array(await new Response(stream).arrayBuffer());
+  }
+
+  // Stored (uncompressed) deflate blocks wrapped in a zlib header and Adler-32 trailer
+  const blocks: Uint8Array[] = [Uint8Array.of(0x78, 0x01)];
+  for (let offset = 0; offset < data.length || offset === 0; offset += 0xffff) {
+    const length = Math.min(0xffff, data.length - offset);
+    const block = new Uint8Array(5 + length);
+    block[0] = offset + length >= data.length ? 1 : 0;
+    block[1] = length & 0xff;
+    block[2] = length >> 8;
+    block[3] = ~length & 0xff;
+    block[4] = (~length >> 8) & 0xff;
+    block.set(data.subarray(offset, offset + length), 5);
+    blocks.push(block);
+    if (length === 0) {
+      break;
+    }
+  }
+
+  let a = 1;
+  let b = 0;
+  for (const byte of data) {
+    a = (a + byte) % 65521;
+    b = (b + a) % 65521;
+  }
+  const trailer = new Uint8Array(4);
+  new DataView(trailer.buffer).setUint32(0, ((b << 16) | a) >>> 0);
+  blocks.push(trailer);
+  return concatBytes(blocks);
+}
+
+function decodeBase64(text: string): Uint8Array {
+  try {
+    return decodeBase64Url(text);
+  } catch (error) {
+    throw new DrawingFormatError('Drawing is not valid base64url');
+  }
+}
@@ -0,0 +1,203 @@
+import type { AuditEvent, AuditManager, SecurityEvent } from '../security/audit';
+import {
+  PictoChatModerator,
+  PictoChatReport,
+  createAuditReportSink,
+  listPictoChatReports,
+  resolvePictoChatReport
+} from './pictochat-moderation';
+import { PictoChatMessage } from './pictochat-protocol';
+
+const text = (message: string, messageType: PictoChatMessage['messageType'] = 'text'): PictoChatMessage => ({
+  id: `msg-${message}`,
+  sender: 'Ann',
+  senderId: 'ann',
+  message,
+  timestamp: 0,
+  messageType
+});
+
+const reasonOf = (verdict: ReturnType<PictoChatModerator['check']>) => verdict.allowed ? null : verdict.reason;
+
+// Just the audit calls reports go through, kept in memory
+const createAudit = () => {
+  const securityEvents: SecurityEvent[] = [];
+  const trail: AuditEvent[] = [];
+  const audit = {
+    logSecurityEvent: async (event: Omit<SecurityEvent, 'id'>) => {
+      const id = `event-${securityEvents.length + 1}`;
+      securityEvents.push({ ...event, id });
+      return id;
+    },
+    getSecurityEvents: async () => securityEvents.slice(),
+    logAuditEvent: async (event: Omit<AuditEvent, 'id' | 'hash'>) => {
+      trail.push({ ...event, id: `audit-${trail.length + 1}`, hash: '' });
+      return `audit-${trail.length}`;
+    },
+    getAuditTrail: async () => trail.slice()
+  };
+  return audit as unknown as AuditManager;
+};
+
+const report = (overrides: Partial<PictoChatReport> = {}): PictoChatReport => ({
+  reporterId: 'ben',
+  reporterName: 'Ben',
+  reportedUserId: 'ann',
+  reportedUserName: 'Ann',
+  reportedIdentity: 'identity-ann',
+  roomId: 'room',
+  roomName: 'Lobby',
+  category: 'harassment',
+  reason: 'rude',
+  message: text('go away'),
+  context: [],
+  timestamp: 1000,
+  ...overrides
+});
+
+describe('PictoChatModerator', () => {
+  describe('rate limit', () => {
+    it('lets rateLimit messages through per room and window', () => {
+      const moderator = new PictoChatModerator({ rateLimit: 2, rateWindowMs: 1000 });
+
+      expect(moderator.check('ann', 'room', text('one'), 0).allowed).toBe(true);
+      expect(moderator.check('ann', 'room', text('two'), 100).allowed).toBe(true);
+      expect(reasonOf(moderator.check('ann', 'room', text('three'), 200))).toBe('Slow down - you are sending messages too fast');
+      // Other rooms and players have their own budget
+      expect(moderator.check('ann', 'other', text('three'), 200).allowed).toBe(true);
+      expect(moderator.check('ben', 'room', text('three'), 200).allowed).toBe(true);
+      expect(moderator.check('ann', 'room', text('three'), 1000).allowed).toBe(true);
+    });
+
+    it('gives drawing previews a budget of their own', () => {
+      const moderator = new PictoChatModerator({ rateLimit: 1, previewRateLimit: 2, rateWindowMs: 1000 });
+
+      expect([0, 10, 20].map(now => moderator.checkPreview('ann', 'room', now))).toEqual([true, true, false]);
+      expect(moderator.check('ann', 'room', text('caption'), 30).allowed).toBe(true);
+      expect(moderator.checkPreview('ann', 'room', 1000)).toBe(true);
+    });
+
+    it('throttles game invites on their own cooldown', () => {
+      const moderator = new PictoChatModerator({ inviteCooldownMs: 30000 });
+
+      expect(moderator.check('ann', 'room', text('play?', 'game_invite'), 0).allowed).toBe(true);
+      expect(reasonOf(moderator.check('ann', 'room', text('play now?', 'game_invite'), 10000))).toBe('Wait 20s before sending another invite');
+      expect(moderator.check('ann', 'room', text('add me', 'friend_request'), 10000).allowed).toBe(true);
+      expect(moderator.check('ann', 'room', text('play?', 'game_invite'), 30000).allowed).toBe(true);
+    });
+  });
+
+  describe('flood', () => {
+    it('drops the same text repeated past floodRepeats', () => {
+      const moderator = new PictoChatModerator({ rateLimit: 100, floodRepeats: 2, floodWindowMs: 1000 });
+
+      expect(moderator.check('ann', 'room', text('spam'), 0).allowed).toBe(true);
+      expect(moderator.check('ann', 'room', text(' SPAM '), 10).allowed).toBe(true);
+      expect(reasonOf(moderator.check('ann', 'room', text('spam'), 20))).toBe('Please do not repeat the same message');
+      expect(moderator.check('ann', 'room', text('spam'), 2000).allowed).toBe(true);
+    });
+
+    it('starts counting again after a different message', () => {
+      const moderator = new PictoChatModerator({ rateLimit: 100, floodRepeats: 1 });
+
+      expect(moderator.check('ann', 'room', text('hi'), 0).allowed).toBe(true);
+      expect(moderator.check('ann', 'room', text('there'), 10).allowed).toBe(true);
+      expect(moderator.check('ann', 'room', text('hi'), 20).allowed).toBe(true);
+    });
+  });
+
+  describe('word filter', () => {
+    it('masks blocked whole words by default', () => {
+      const moderator = new PictoChatModerator({ blockedWords: ['darn', ' heck '] });
+
+      const verdict = moderator.check('ann', 'room', text('Darn it, what the heck, darning socks'), 0);
+
+      expect(verdict.allowed && verdict.message.message).toBe('**** it, what the ****, darning socks');
+    });
+
+    it('rejects messages with blocked words in reject mode', () => {
+      const moderator = new PictoChatModerator({ blockedWords: ['darn'], wordFilterMode: 'reject' });
+
+      expect(reasonOf(moderator.check('ann', 'room', text('darn'), 0))).toBe('Message contains blocked words');
+      expect(moderator.check('ann', 'room', text('fine'), 0).allowed).toBe(true);
+    });
+
+    it('treats blocked words as text, not patterns', () => {
+      const moderator = new PictoChatModerator({ blockedWords: ['a.c'] });
+
+      const verdict = moderator.check('ann', 'room', text('abc a.c'), 0);
+
+      expect(verdict.allowed && verdict.message.message).toBe('abc ***');
+    });
+  });
+
+  describe('mute and block', () => {
+    it('hides muted players in rooms only and blocked players everywhere', () => {
+      const moderator = new PictoChatModerator();
+      moderator.setFilters('ann', ['ben'], ['cat']);
+
+      expect(moderator.isHidden('ann', 'ben', 'room')).toBe(true);
+      expect(moderator.isHidden('ann', 'ben', 'direct')).toBe(false);
+      expect(moderator.isHidden('ann', 'cat', 'room')).toBe(true);
+      expect(moderator.isHidden('ann', 'cat', 'direct')).toBe(true);
+      expect(moderator.isHidden('ben', 'ann', 'room')).toBe(false);
+    });
+
+    it('replaces the lists wholesale and drops them with the player', () => {
+      const moderator = new PictoChatModerator();
+      moderator.setFilters('ann', ['ben'], ['cat']);
+
+      moderator.setFilters('ann', [], ['ben']);
+      expect(moderator.isHidden('ann', 'cat', 'direct')).toBe(false);
+      expect(moderator.isHidden('ann', 'ben', 'direct')).toBe(true);
+
+      moderator.forgetPlayer('ann');
+      expect(moderator.isHidden('ann', 'ben', 'direct')).toBe(false);
+    });
+  });
+
+  describe('reports', () => {
+    it('refuses reports without a sink', async () => {
+      const moderator = new PictoChatModerator();
+
+      expect(moderator.canReport()).toBe(false);
+      await expect(moderator.report(report())).rejects.toThrow('Reporting is not configured on this hub');
+    });
+
+    it('hands reports to the sink', async () => {
+      const sink = jest.fn(async () => 'report-1');
+      const moderator = new PictoChatModerator({ reportSink: sink });
+
+      expect(moderator.canReport()).toBe(true);
+      expect(await moderator.report(report())).toBe('report-1');
+      expect(sink).toHaveBeenCalledWith(report());
+    });
+
+    it('gives moderators the messages just before the reported one, without drawings', () => {
+      const history = Array.from({ length: 8 }, (_, index) => ({ ...text(`m${index}`), drawing: 'AAAA' }));
+
+      const context = PictoChatModerator.contextFor(history, 7);
+
+      expect(context.map(message => message.message)).toEqual(['m2', 'm3', 'm4', 'm5', 'm6']);
+      expect(context.every(message => message.drawing === undefined)).toBe(true);
+    });
+
+    it('lists audit-backed reports until a moderator resolves them', async () => {
+      const audit = createAudit();
+      const sink = createAuditReportSink(audit);
+      const first = await sink(report());
+      await sink(report({ category: 'spam', reportedUserId: 'cat' }));
+
+      const open = await listPictoChatReports(audit);
+      expect(open.map(record => [record.id, record.severity])).toEqual([[first, 'HIGH'], [expect.any(String), 'LOW']]);
+      expect(open[0]!.report.reportedIdentity).toBe('identity-ann');
+
+      const resolved = await resolvePictoChatReport(audit, first, 'mod', 'banned', 'repeat offender');
+      expect(resolved?.resolution).toMatchObject({ outcome: 'banned', moderatorId: 'mod', note: 'repeat offender' });
+      expect(await resolvePictoChatReport(audit, first, 'mod', 'dismissed')).toBeNull();
+
+      expect((await listPictoChatReports(audit)).map(record => record.report.reportedUserId)).toEqual(['cat']);
+      expect(await listPictoChatReports(audit, true)).toHaveLength(2);
+    });
+  });
+});
@@ -0,0 +1,279 @@
+// PictoChat Moderation
+// Rate limits, word filter, mute/block lists and message reports for the PictoChat hub
+
+import type { AuditManager, SecurityEvent } from '../security/audit';
+import { PictoChatMessage, PictoChatReportCategory } from './pictochat-protocol';
+
+export const PICTOCHAT_REPORT_SOURCE = 'pictochat';
+const REPORT_RESOLVED_ACTION = 'PICTOCHAT_REPORT_RESOLVED';
+const REPORT_CONTEXT_MESSAGES = 5;
+
+export type ReportOutcome = 'dismissed' | 'warned' | 'banned';
+
+const REPORT_SEVERITY: Record<PictoChatReportCategory, SecurityEvent['severity']> = {
+  spam: 'LOW',
+  harassment: 'HIGH',
+  inappropriate: 'MEDIUM',
+  other: 'LOW'
+};
+
+export interface PictoChatReport {
+  reporterId: string;
+  reporterName: string;
+  reportedUserId: string;
+  reportedUserName: string;
+  // The hub-issued identity hub bans key on; null when the sender had already left the hub
+  reportedIdentity: string | null;
+  roomId: string;
+  roomName: string;
+  category: PictoChatReportCategory;
+  reason: string;
+  message: PictoChatMessage;
+  // The messages just before the reported one, so moderators see the conversation
+  context: PictoChatMessage[];
+  timestamp: number;
+}
+
+// Stores a report and resolves with its id
+export type PictoChatReportSink = (report: PictoChatReport) => Promise<string>;
+
+export interface ModerationOptions {
+  // Messages a player may post in one room within rateWindowMs
+  rateLimit?: number;
+  rateWindowMs?: number;
+  // Drawing preview updates a player may stream into one room within rateWindowMs
+  previewRateLimit?: number;
+  // The same text this many times in a row within floodWindowMs is dropped
+  floodRepeats?: number;
+  floodWindowMs?: number;
+  // Game invites and friend requests are throttled on their own
+  inviteCooldownMs?: number;
+  blockedWords?: string[];
+  wordFilterMode?: 'mask' | 'reject';
+  reportSink?: PictoChatReportSink | null;
+}
+
+export type ModerationVerdict =
+  | { allowed: true; message: PictoChatMessage }
+  | { allowed: false; reason: string };
+
+interface FloodState {
+  text: string;
+  count: number;
+  at: number;
+}
+
+export class PictoChatModerator {
+  private options: Required<Omit<ModerationOptions, 'blockedWords' | 'reportSink'>>;
+  private wordPattern: RegExp | null;
+  private reportSink: PictoChatReportSink | null;
+  private recentPosts: Map<string, number[]> = new Map();
+  private floods: Map<string, FloodState> = new Map();
+  private lastInvites: Map<string, number> = new Map();
+  private muted: Map<string, Set<string>> = new Map();
+  private blocked: Map<string, Set<string>> = new Map();
+
+  constructor(options: ModerationOptions = {}) {
+    this.options = {
+      rateLimit: options.rateLimit ?? 5,
+      rateWindowMs: options.rateWindowMs ?? 5000,
+      previewRateLimit: options.previewRateLimit ?? 30,
+      floodRepeats: options.floodRepeats ?? 3,
+      floodWindowMs: options.floodWindowMs ?? 30000,
+      inviteCooldownMs: options.inviteCooldownMs ?? 30000,
+      wordFilterMode: options.wordFilterMode ?? 'mask'
+    };
+    this.wordPattern = buildWordPattern(options.blockedWords ?? []);
+    this.reportSink = options.reportSink ?? null;
+  }
+
+  // channel is a room id, or "direct" for messages sent straight to a player
+  check(playerId: string, channel: string, message: PictoChatMessage, now: number = Date.now()): ModerationVerdict {
+    const key = `${channel}:${playerId}`;
+
+    if (message.messageType === 'game_invite' || message.messageType === 'friend_request') {
+      const inviteKey = `${key}:${message.messageType}`;
+      const last = this.lastInvites.get(inviteKey);
+      if (last !== undefined && now - last < this.options.inviteCooldownMs) {
+        return { allowed: false, reason: `Wait ${Math.ceil((this.options.inviteCooldownMs - (now - last)) / 1000)}s before sending another invite` };
+      }
+    }
+
+    const posts = (this.recentPosts.get(key) ?? []).filter(at => now - at < this.options.rateWindowMs);
+    if (posts.length >= this.options.rateLimit) {
+      this.recentPosts.set(key, posts);
+      return { allowed: false, reason: 'Slow down - you are sending messages too fast' };
+    }
+
+    const text = message.message.trim().toLowerCase();
+    const flood = this.floods.get(key);
+    const repeats = flood && text && flood.text === text && now - flood.at < this.options.floodWindowMs ? flood.count + 1 : 1;
+    if (repeats > this.options.floodRepeats) {
+      return { allowed: false, reason: 'Please do not repeat the same message' };
+    }
+
+    let filtered = message;
+    if (this.wordPattern && message.message.search(this.wordPattern) !== -1) {
+      if (this.options.wordFilterMode === 'reject') {
+        return { allowed: false, reason: 'Message contains blocked words' };
+      }
+      filtered = { ...message, message: message.message.replace(this.wordPattern, word => '*'.repeat(word.length)) };
+    }
+
+    posts.push(now);
+    this.recentPosts.set(key, posts);
+    this.floods.set(key, { text, count: repeats, at: now });
+    if (message.messageType === 'game_invite' || message.messageType === 'friend_request') {
+      this.lastInvites.set(`${key}:${message.messageType}`, now);
+    }
+    return { allowed: true, message: filtered };
+  }
+
+  // Previews stream many small updates, so they get a budget of their own rather than eating into chat's
+  checkPreview(playerId: string, roomId: string, now: number = Date.now()): boolean {
+    const key = `preview:${roomId}:${playerId}`;
+    const previews = (this.recentPosts.get(key) ?? []).filter(at => now - at < this.options.rateWindowMs);
+    const allowed = previews.length < this.options.previewRateLimit;
+    if (allowed) {
+      previews.push(now);
+    }
+    this.recentPosts.set(key, previews);
+    return allowed;
+  }
+
+  // Lists are owned by the client and replaced wholesale whenever it connects or changes them
+  setFilters(playerId: string, muted: string[], blocked: string[]): void {
+    this.muted.set(playerId, new Set(muted));
+    this.blocked.set(playerId, new Set(blocked));
+  }
+
+  // Blocking hides everything from a player; muting only hides their room messages
+  isHidden(viewerId: string, senderId: string, channel: 'room' | 'direct'): boolean {
+    if (this.blocked.get(viewerId)?.has(senderId)) {
+      return true;
+    }
+    return channel === 'room' && this.muted.get(viewerId)?.has(senderId) === true;
+  }
+
+  forgetPlayer(playerId: string): void {
+    const suffix = `:${playerId}`;
+    for (const key of this.recentPosts.keys()) {
+      if (key.endsWith(suffix)) {
+        this.recentPosts.delete(key);
+        this.floods.delete(key);
+      }
+    }
+    for (const key of this.lastInvites.keys()) {
+      if (key.includes(`${suffix}:`)) {
+        this.lastInvites.delete(key);
+      }
+    }
+    this.muted.delete(playerId);
+    this.blocked.delete(playerId);
+  }
+
+  canReport(): boolean {
+    return this.reportSink !== null;
+  }
+
+  async report(report: PictoChatReport): Promise<string> {
+    if (!this.reportSink) {
+      throw new Error('Reporting is not configured on this hub');
+    }
+    return this.reportSink(report);
+  }
+
+  static contextFor(history: PictoChatMessage[], messageIndex: number): PictoChatMessage[] {
+    return history
+      .slice(Math.max(0, messageIndex - REPORT_CONTEXT_MESSAGES), messageIndex)
+      .map(({ drawing, ...message }) => message);
+  }
+}
+
+function buildWordPattern(words: string[]): RegExp | null {
+  const escaped = words
+    .map(word => word.trim())
+    .filter(word => word.length > 0)
+    .map(word => word.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+  return escaped.length > 0 ? new RegExp(`\\b(?:${escaped.join('|')})\\b`, 'gi') : null;
+}
+
+// Audit-backed reports, reviewed from the Discord bot with /reports
+
+export interface PictoChatReportRecord {
+  id: string;
+  timestamp: Date;
+  severity: SecurityEvent['severity'];
+  report: PictoChatReport;
+  resolution: { outcome: ReportOutcome; moderatorId: string; note: string; resolvedAt: Date } | null;
+}
+
+export function createAuditReportSink(audit: AuditManager): PictoChatReportSink {
+  return report => audit.logSecurityEvent({
+    timestamp: new Date(report.timestamp),
+    eventType: 'SECURITY_VIOLATION',
+    severity: REPORT_SEVERITY[report.category],
+    description: `PictoChat report (${report.category}) against ${report.reportedUserName} in ${report.roomName}`,
+    userId: report.reporterId,
+    metadata: { source: PICTOCHAT_REPORT_SOURCE, report }
+  });
+}
+
+export async function listPictoChatReports(audit: AuditManager, includeResolved: boolean = false): Promise<PictoChatReportRecord[]> {
+  const [events, trail] = await Promise.all([
+    audit.getSecurityEvents(undefined, 'SECURITY_VIOLATION'),
+    audit.getAuditTrail()
+  ]);
+
+  const resolutions = new Map<string, PictoChatReportRecord['resolution']>();
+  for (const entry of trail) {
+    if (entry.action === REPORT_RESOLVED_ACTION && !resolutions.has(entry.resource)) {
+      resolutions.set(entry.resource, {
+        outcome: entry.metadata?.outcome,
+        moderatorId: entry.userId,
+        note: entry.metadata?.note ?? '',
+        resolvedAt: entry.timestamp
+      });
+    }
+  }
+
+  return events
+    .filter(event => event.metadata?.source === PICTOCHAT_REPORT_SOURCE && event.metadata.report)
+    .map(event => ({
+      id: event.id,
+      timestamp: event.timestamp,
+      severity: event.severity,
+      report: event.metadata!.report as PictoChatReport,
+      resolution: resolutions.get(reportResource(event.id)) ?? null
+    }))
+    .filter(record => includeResolved || record.resolution === null);
+}
+
+// Resolves with the resolved report, or null when it does not exist or was already resolved
+export async function resolvePictoChatReport(
+  audit: AuditManager,
+  reportId: string,
+  moderatorId: string,
+  outcome: ReportOutcome,
+  note: string = ''
+): Promise<PictoChatReportRecord | null> {
+  const record = (await listPictoChatReports(audit, true)).find(candidate => candidate.id === reportId);
+  if (!record || record.resolution) {
+    return null;
+  }
+
+  const resolvedAt = new Date();
+  await audit.logAuditEvent({
+    timestamp: resolvedAt,
+    userId: moderatorId,
+    action: REPORT_RESOLVED_ACTION,
+    resource: reportResource(reportId),
+    result: 'SUCCESS',
+    metadata: { outcome, note, reportedUserId: record.report.reportedUserId }
+  });
+  return { ...record, resolution: { outcome, moderatorId, note, resolvedAt } };
+}
+
+function reportResource(reportId: string): string {
+  return `pictochat_report:${reportId}`;
+}
@@ -0,0 +1,219 @@
+// PictoChat Protocol
+// Wire format between PictoChat clients and the PictoChatServer hub
+
+export const PICTOCHAT_PORT = 8090;
+export const PICTOCHAT_PATH = '/pictochat';
+export const PICTOCHAT_DEFAULT_MAX_PARTICIPANTS = 8;
+export const PICTOCHAT_MAX_PARTICIPANTS = 16;
+
+export interface PictoChatMessage {
+  id: string;
+  sender: string;
+  senderId: string;
+  message: string;
+  drawing?: string; // Stroke drawing from encodeDrawing()
+  timestamp: number;
+  messageType: 'text' | 'drawing' | 'game_invite' | 'friend_request';
+  // Position in the room assigned by the hub; absent while the message is still in flight
+  seq?: number;
+}
+
+export interface PictoChatRoom {
+  roomId: string;
+  roomName: string;
+  participants: string[];
+  messages: PictoChatMessage[];
+  maxParticipants: number;
+  isPrivate: boolean;
+  createdAt: number;
+  // Only members of a private room are told its invite code
+  inviteCode?: string;
+  // The creator, or the longest-present member once the creator leaves
+  ownerId?: string;
+}
+
+export interface NearbyPlayer {
+  playerId: string;
+  playerName: string;
+  avatar: string;
+  games: string[];
+  online: boolean;
+  lastSeen: number;
+  distance: number;
+  signalStrength: number;
+}
+
+export interface PictoChatProfile {
+  playerId: string;
+  playerName: string;
+  avatar: string;
+  games: string[];
+}
+
+export interface PictoChatRoomSummary {
+  roomId: string;
+  roomName: string;
+  participants: string[];
+  maxParticipants: number;
+  isPrivate: boolean;
+  createdAt: number;
+  lastSeq: number;
+  inviteCode?: string;
+  ownerId: string;
+}
+
+export type PictoChatReportCategory = 'spam' | 'harassment' | 'inappropriate' | 'other';
+
+// Client -> hub
+export type PictoChatClientMessage =
+  // resumeToken is the secret from an earlier welcome; it is what lets a client keep a playerId the
+  // hub already knows, so nobody can take over another player by claiming their id
+  | { type: 'hello'; profile: PictoChatProfile; resumeToken?: string }
+  | { type: 'createRoom'; requestId: string; roomName: string; isPrivate: boolean; maxParticipants: number }
+  // sinceSeq asks for the history after the last message the client already holds
+  | { type: 'joinRoom'; requestId: string; roomId?: string; inviteCode?: string; sinceSeq: number }
+  | { type: 'leaveRoom'; roomId: string }
+  | { type: 'chat'; roomId: string; message: PictoChatMessage }
+  | { type: 'direct'; to: string; message: PictoChatMessage }
+  // Strokes of a drawing still in progress; the finished one arrives as a chat message with id drawingId
+  | { type: 'drawingProgress'; roomId: string; drawingId: string; delta: string }
+  | { type: 'presence'; avatar: string; games: string[] }
+  | { type: 'listRooms'; requestId: string }
+  | { type: 'listPlayers'; requestId: string }
+  // Replaces the sender's mute and block lists; sent after every hello and on each change
+  | { type: 'setFilters'; muted: string[]; blocked: string[] }
+  | { type: 'report'; requestId: string; roomId: string; messageId: string; senderId: string; category: PictoChatReportCategory; reason: string }
+  // Room owner only
+  | { type: 'kick'; requestId: string; roomId: string; playerId: string }
+  | { type: 'ban'; requestId: string; roomId: string; playerId: string }
+  | { type: 'unban'; requestId: string; roomId: string; playerId: string }
+  | { type: 'ping' };
+
+// Hub -> client
+export type PictoChatServerMessage =
+  // playerId differs from the one in hello when that id belongs to someone else
+  | { type: 'welcome'; playerId: string; resumeToken: string; players: NearbyPlayer[]; rooms: PictoChatRoomSummary[] }
+  | { type: 'roomJoined'; requestId: string; room: PictoChatRoomSummary; history: PictoChatMessage[] }
+  | { type: 'requestFailed'; requestId: string; error: string }
+  | { type: 'requestDone'; requestId: string }
+  | { type: 'reported'; requestId: string; reportId: string }
+  // A chat or direct message the hub refused to deliver (rate limit, flood, word filter)
+  | { type: 'rejected'; messageId: string; reason: string }
+  | { type: 'kicked'; roomId: string; banned: boolean }
+  | { type: 'roomUpdated'; room: PictoChatRoomSummary }
+  | { type: 'roomClosed'; roomId: string }
+  | { type: 'chat'; roomId: string; message: PictoChatMessage }
+  | { type: 'direct'; message: PictoChatMessage }
+  | { type: 'drawingProgress'; roomId: string; senderId: string; drawingId: string; delta: string }
+  | { type: 'presence'; player: NearbyPlayer }
+  | { type: 'rooms'; requestId: string; rooms: PictoChatRoomSummary[] }
+  | { type: 'players'; requestId: string; players: NearbyPlayer[] }
+  | { type: 'error'; error: string }
+  | { type: 'pong' };
+
+// One ordered, reliable text channel between a client and the hub
+export interface PictoChatSocket {
+  send(data: string): void;
+  close(): void;
+  // Both return an unsubscribe function
+  onMessage(handler: (data: string) => void): () => void;
+  onClose(handler: () => void): () => void;
+}
+
+class InProcessPictoChatSocket implements PictoChatSocket {
+  peer: InProcessPictoChatSocket | null = null;
+  private messageHandlers: Set<(data: string) => void> = new Set();
+  private closeHandlers: Set<() => void> = new Set();
+  private closed: boolean = false;
+
+  send(data: string): void {
+    const peer = this.peer;
+    if (this.closed || !peer) {
+      return;
+    }
+    setTimeout(() => peer.receive(data), 0);
+  }
+
+  close(): void {
+    if (this.closed) {
+      return;
+    }
+    this.shutdown();
+    const peer = this.peer;
+    if (peer) {
+      setTimeout(() => peer.shutdown(), 0);
+    }
+  }
+
+  onMessage(handler: (data: string) => void): () => void {
+    this.messageHandlers.add(handler);
+    return () => {
+      this.messageHandlers.delete(handler);
+    };
+  }
+
+  onClose(handler: () => void): () => void {
+    this.closeHandlers.add(handler);
+    return () => {
+      this.closeHandlers.delete(handler);
+    };
+  }
+
+  private receive(data: string): void {
+    if (!this.closed) {
+      this.messageHandlers.forEach(handler => handler(data));
+    }
+  }
+
+  private shutdown(): void {
+    if (this.closed) {
+      return;
+    }
+    this.closed = true;
+    this.closeHandlers.forEach(handler => handler());
+    this.messageHandlers.clear();
+    this.closeHandlers.clear();
+  }
+}
+
+// Connected client/hub socket pair for running several PictoChat clients in one process
+export function createPictoChatPipe(): [PictoChatSocket, PictoChatSocket] {
+  const client = new InProcessPictoChatSocket();
+  const server = new InProcessPictoChatSocket();
+  client.peer = server;
+  server.peer = client;
+  return [client, server];
+}
+
+// Resolves once the WebSocket is open
+export function openPictoChatWebSocket(url: string): Promise<PictoChatSocket> {
+  return new Promise((resolve, reject) => {
+    const ws = new WebSocket(url);
+    const handleOpen = () => {
+      ws.removeEventListener('error', handleError);
+      resolve({
+        send: data => {
+          if (ws.readyState === WebSocket.OPEN) {
+            ws.send(data);
+          }
+        },
+        close: () => ws.close(),
+        onMessage: handler => {
+          const listener = (event: MessageEvent) => handler(String(event.data));
+          ws.addEventListener('message', listener);
+          return () => ws.removeEventListener('message', listener);
+        },
+        onClose: handler => {
+          ws.addEventListener('close', handler);
+          return () => ws.removeEventListener('close', handler);
+        }
+      });
+    };
+    const handleError = () => {
+      ws.removeEventListener('open', handleOpen);
+      reject(new Error(`Could not reach PictoChat hub at ${url}`));
+    };
+    ws.addEventListener('open', handleOpen, { once: true });
+    ws.addEventListener('error', handleError, { once: true });
+  });
+}
@@ -0,0 +1,240 @@
+import { PictoChat, PictoChatMessage } from './pictochat';
+import { DrawingRecorder } from './pictochat-drawing';
+import { PictoChatSocket, createPictoChatPipe } from './pictochat-protocol';
+import { PictoChatServer } from './pictochat-server';
+
+// Pipe deliveries are setTimeout(0) hops; a few milliseconds settles any request/response round
+const settle = () => new Promise(resolve => setTimeout(resolve, 10));
+
+const nextEvent = <T extends unknown[]>(emitter: PictoChat, event: string): Promise<T> =>
+  new Promise(resolve => emitter.once(event, (...args: unknown[]) => resolve(args as T)));
+
+describe('PictoChatServer', () => {
+  let server: PictoChatServer;
+  let clients: PictoChat[];
+  // Hub end of each client's latest pipe, for simulating dropped connections
+  let hubSockets: Map<PictoChat, PictoChatSocket>;
+
+  // Resolves with whether the hub let the client in, and whatever hub errors it saw on the way
+  const tryConnect = async (playerName: string, options: { playerId?: string; resumeToken?: string } = {}) => {
+    const chat = new PictoChat({ playerName, ...options });
+    clients.push(chat);
+    const hubErrors: string[] = [];
+    chat.on('hubError', error => hubErrors.push(error));
+    const connected = await chat.connectWith(async () => {
+      const [client, hub] = createPictoChatPipe();
+      server.accept(hub);
+      return client;
+    });
+    return { chat, connected, hubErrors };
+  };
+
+  const connect = async (playerName: string, options: { playerId?: string; resumeToken?: string } = {}): Promise<PictoChat> => {
+    const chat = new PictoChat({ playerName, ...options });
+    clients.push(chat);
+    const connected = await chat.connectWith(async () => {
+      const [client, hub] = createPictoChatPipe();
+      server.accept(hub);
+      hubSockets.set(chat, hub);
+      return client;
+    });
+    expect(connected).toBe(true);
+    return chat;
+  };
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    server = new PictoChatServer({ emptyRoomTtlMs: 50 });
+    clients = [];
+    hubSockets = new Map();
+  });
+
+  afterEach(async () => {
+    clients.forEach(chat => chat.disconnect());
+    await server.stop();
+    await settle();
+    jest.restoreAllMocks();
+  });
+
+  it('answers frames that are not JSON objects with an error and keeps serving', async () => {
+    const [client, hub] = createPictoChatPipe();
+    server.accept(hub);
+    const errors: string[] = [];
+    client.onMessage(data => errors.push(JSON.parse(data).error));
+
+    ['null', '42', '[]'].forEach(frame => client.send(frame));
+    await settle();
+
+    expect(errors).toEqual(Array(3).fill('Messages must be JSON objects'));
+    const ann = await connect('Ann');
+    expect(await ann.createRoom('Lobby')).toEqual(expect.any(String));
+  });
+
+  it('tracks members joining and leaving a room', async () => {
+    const ann = await connect('Ann');
+    const ben = await connect('Ben');
+    const annId = ann.getIdentity().playerId;
+    const benId = ben.getIdentity().playerId;
+
+    const roomId = await ann.createRoom('Lobby');
+    expect(await ben.joinRoom(roomId)).toBe(true);
+    await settle();
+    expect(ann.getCurrentRoom()!.participants).toEqual([annId, benId]);
+
+    await ben.leaveRoom();
+    await settle();
+    expect(ann.getCurrentRoom()!.participants).toEqual([annId]);
+    expect(server.getRooms()[0]!.participants).toEqual([annId]);
+  });
+
+  it('relays chat to every member in hub order', async () => {
+    const ann = await connect('Ann');
+    const ben = await connect('Ben');
+    const cat = await connect('Cat');
+    const roomId = await ann.createRoom('Lobby');
+    await ben.joinRoom(roomId);
+    await cat.joinRoom(roomId);
+
+    const received = nextEvent<[string, PictoChatMessage]>(cat, 'message');
+    await ann.sendMessage('hello');
+    const [room, message] = await received;
+
+    expect(room).toBe(roomId);
+    expect(message).toMatchObject({ message: 'hello', sender: 'Ann', senderId: ann.getIdentity().playerId, seq: 1 });
+    await settle();
+    expect(ben.getCurrentRoom()!.messages.map(held => held.message)).toEqual(['hello']);
+  });
+
+  it('lets the owner kick and ban, and keeps banned players out', async () => {
+    const ann = await connect('Ann');
+    const ben = await connect('Ben');
+    const cat = await connect('Cat');
+    const roomId = await ann.createRoom('Lobby');
+    await ben.joinRoom(roomId);
+    await cat.joinRoom(roomId);
+
+    const kicked = nextEvent<[string, boolean]>(ben, 'kicked');
+    expect(await ann.kickPlayer(ben.getIdentity().playerId)).toBe(true);
+    expect(await kicked).toEqual([roomId, false]);
+    expect(await ben.joinRoom(roomId)).toBe(true);
+
+    const banned = nextEvent<[string, boolean]>(cat, 'kicked');
+    expect(await ann.banPlayer(cat.getIdentity().playerId)).toBe(true);
+    expect(await banned).toEqual([roomId, true]);
+    expect(await cat.joinRoom(roomId)).toBe(false);
+
+    // Only the owner moderates
+    expect(await ben.kickPlayer(ann.getIdentity().playerId)).toBe(false);
+  });
+
+  it('gives a reconnecting client its id and room back', async () => {
+    const ann = await connect('Ann');
+    const ben = await connect('Ben');
+    const roomId = await ann.createRoom('Lobby');
+    await ben.joinRoom(roomId);
+    const { playerId } = ben.getIdentity();
+
+    const reconnected = nextEvent(ben, 'connected');
+    hubSockets.get(ben)!.close();
+    await reconnected;
+    await settle();
+
+    expect(ben.getIdentity().playerId).toBe(playerId);
+    expect(ben.getCurrentRoom()!.roomId).toBe(roomId);
+    expect(server.getRooms()[0]!.participants).toContain(playerId);
+  });
+
+  it('does not let another client take over a known player id', async () => {
+    const ann = await connect('Ann');
+    const annId = ann.getIdentity().playerId;
+
+    const mallory = await connect('Mallory', { playerId: annId });
+
+    expect(mallory.getIdentity().playerId).not.toBe(annId);
+    expect(ann.isConnected()).toBe(true);
+    expect(server.getPlayers().find(player => player.playerId === annId)).toMatchObject({ playerName: 'Ann', online: true });
+  });
+
+  it('hands a known id back to a new client holding its resume token', async () => {
+    const ann = await connect('Ann');
+    const identity = ann.getIdentity();
+    ann.disconnect();
+    await settle();
+
+    const restarted = await connect('Ann', { playerId: identity.playerId, resumeToken: identity.resumeToken! });
+
+    expect(restarted.getIdentity()).toEqual(identity);
+  });
+
+  it('turns away a hub-banned player who reconnects with their token', async () => {
+    const ann = await connect('Ann');
+    const identity = ann.getIdentity();
+    expect(server.banPlayer(identity.playerId)).toBe(true);
+    ann.disconnect();
+    await settle();
+
+    const again = await tryConnect('Ann', { playerId: identity.playerId, resumeToken: identity.resumeToken! });
+
+    expect(again.connected).toBe(false);
+    expect(again.hubErrors).toContain('You have been banned from this hub');
+  });
+
+  it('keeps a hub ban on the banned client rather than the id it claimed', async () => {
+    const ann = await connect('Ann', { playerId: 'ann' });
+    const { resumeToken } = ann.getIdentity();
+    server.banPlayer('ann');
+    ann.disconnect();
+    await settle();
+
+    const renamed = await tryConnect('Annie', { playerId: 'annie', resumeToken: resumeToken! });
+    expect(renamed.connected).toBe(false);
+    expect(renamed.hubErrors).toContain('You have been banned from this hub');
+
+    // Someone else who claims the id is not turned away
+    const other = await connect('Ann', { playerId: 'ann' });
+    expect(other.isConnected()).toBe(true);
+
+    server.unbanPlayer('ann');
+    expect((await tryConnect('Annie', { playerId: 'annie', resumeToken: resumeToken! })).connected).toBe(true);
+  });
+
+  it('keeps a room-banned client out under a new id', async () => {
+    const ann = await connect('Ann');
+    const cat = await connect('Cat');
+    const roomId = await ann.createRoom('Lobby');
+    await cat.joinRoom(roomId);
+    expect(await ann.banPlayer(cat.getIdentity().playerId)).toBe(true);
+    const { resumeToken } = cat.getIdentity();
+    cat.disconnect();
+    await settle();
+
+    const renamed = await connect('Kat', { playerId: 'kat', resumeToken: resumeToken! });
+
+    expect(renamed.getIdentity().playerId).toBe('kat');
+    expect(await renamed.joinRoom(roomId)).toBe(false);
+  });
+
+  it('holds drawing previews to the room rate limit', async () => {
+    await server.stop();
+    server = new PictoChatServer({ emptyRoomTtlMs: 50, moderation: { previewRateLimit: 2 } });
+    const ann = await connect('Ann');
+    const ben = await connect('Ben');
+    const roomId = await ann.createRoom('Lobby');
+    await ben.joinRoom(roomId);
+    const previews = jest.fn();
+    ben.on('drawingProgress', previews);
+    const limited = nextEvent<[string]>(ann, 'hubError');
+
+    const recorder = new DrawingRecorder();
+    for (let stroke = 0; stroke < 3; stroke++) {
+      recorder.beginStroke(stroke * 10, 0);
+      recorder.addPoint(stroke * 10 + 5, 5);
+      ann.streamDrawing('sketch', recorder);
+    }
+
+    expect(await limited).toEqual(['Slow down - you are drawing too fast']);
+    await settle();
+    expect(previews).toHaveBeenCalledTimes(2);
+  });
+});
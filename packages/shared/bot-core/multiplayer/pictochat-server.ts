@@ -0,0 +1,814 @@
+// PictoChat Hub Server
+// Owns room membership and message order for PictoChat clients on the LAN
+
+import { EventEmitter } from 'events';
+import { randomBytes } from 'crypto';
+import { WebSocketServer } from 'ws';
+import { generateRoomCode } from './join-token';
+import { DRAWING_MAX_ENCODED_LENGTH, decodeDrawing } from './pictochat-drawing';
+import { ModerationOptions, PictoChatModerator } from './pictochat-moderation';
+import { createSessionToken, isSessionToken, sameSessionToken, sessionTokenIdentity } from './session-token';
+import { parseJsonObject, wrapWebSocket } from './ws-socket';
+import {
+  NearbyPlayer,
+  PICTOCHAT_DEFAULT_MAX_PARTICIPANTS,
+  PICTOCHAT_MAX_PARTICIPANTS,
+  PICTOCHAT_PATH,
+  PICTOCHAT_PORT,
+  PictoChatClientMessage,
+  PictoChatMessage,
+  PictoChatProfile,
+  PictoChatReportCategory,
+  PictoChatRoomSummary,
+  PictoChatServerMessage,
+  PictoChatSocket
+} from './pictochat-protocol';
+
+export interface PictoChatServerOptions {
+  port?: number;
+  bindAddress?: string;
+  // Messages kept per room for late joiners
+  historyLimit?: number;
+  // Empty rooms linger this long so a member who dropped can come back to them
+  emptyRoomTtlMs?: number;
+  // Offline players stay in presence lists this long
+  offlinePresenceTtlMs?: number;
+  moderation?: ModerationOptions;
+}
+
+interface HubClient {
+  socket: PictoChatSocket;
+  playerId: string | null;
+  unsubscribe: Array<() => void>;
+}
+
+interface HubPlayer {
+  profile: PictoChatProfile;
+  // Proves a later hello comes from the same client; issued on the first hello for the id
+  resumeToken: string;
+  // Derived from resumeToken and what bans key on, since playerId is whatever the client claims
+  identity: string;
+  client: HubClient | null;
+  lastSeen: number;
+  pruneTimer: ReturnType<typeof setTimeout> | null;
+}
+
+interface HubRoom {
+  roomId: string;
+  roomName: string;
+  maxParticipants: number;
+  isPrivate: boolean;
+  inviteCode: string | null;
+  createdAt: number;
+  ownerId: string;
+  members: Set<string>;
+  // Banned identities, with the playerId each was banned under
+  banned: Map<string, string>;
+  history: PictoChatMessage[];
+  // senderId:id of the messages still in history, for dropping resent duplicates
+  seen: Map<string, PictoChatMessage>;
+  lastSeq: number;
+  emptyTimer: ReturnType<typeof setTimeout> | null;
+}
+
+const MAX_NAME_LENGTH = 32;
+const MAX_ID_LENGTH = 64;
+const MAX_TEXT_LENGTH = 500;
+const MAX_REASON_LENGTH = 200;
+const MESSAGE_TYPES = new Set(['text', 'drawing', 'game_invite', 'friend_request']);
+const REPORT_CATEGORIES = new Set(['spam', 'harassment', 'inappropriate', 'other']);
+
+export class PictoChatServer extends EventEmitter {
+  private options: Required<Omit<PictoChatServerOptions, 'moderation'>>;
+  private moderator: PictoChatModerator;
+  private server: WebSocketServer | null = null;
+  private clients: Set<HubClient> = new Set();
+  private players: Map<string, HubPlayer> = new Map();
+  private rooms: Map<string, HubRoom> = new Map();
+  // Banned identities, with the playerId each was banned under
+  private bannedPlayers: Map<string, string> = new Map();
+
+  constructor(options: PictoChatServerOptions = {}) {
+    super();
+    this.options = {
+      port: options.port ?? PICTOCHAT_PORT,
+      bindAddress: options.bindAddress ?? '0.0.0.0',
+      historyLimit: options.historyLimit ?? 200,
+      emptyRoomTtlMs: options.emptyRoomTtlMs ?? 60000,
+      offlinePresenceTtlMs: options.offlinePresenceTtlMs ?? 5 * 60000
+    };
+    this.moderator = new PictoChatModerator(options.moderation);
+  }
+
+  // Resolves with the port the hub listens on
+  start(): Promise<number> {
+    if (this.server) {
+      return Promise.resolve(this.options.port);
+    }
+
+    return new Promise((resolve, reject) => {
+      const server = new WebSocketServer({
+        port: this.options.port,
+        host: this.options.bindAddress,
+        path: PICTOCHAT_PATH,
+        maxPayload: DRAWING_MAX_ENCODED_LENGTH * 2
+      });
+      server.once('error', reject);
+      server.once('listening', () => {
+        server.off('error', reject);
+        server.on('error', error => this.emit('error', error));
+        server.on('connection', ws => this.accept(wrapWebSocket(ws)));
+        this.server = server;
+        console.log(`💬 PictoChat hub listening on port ${this.options.port}`);
+        resolve(this.options.port);
+      });
+    });
+  }
+
+  async stop(): Promise<void> {
+    for (const client of Array.from(this.clients)) {
+      client.socket.close();
+      this.dropClient(client);
+    }
+    for (const room of this.rooms.values()) {
+      if (room.emptyTimer) {
+        clearTimeout(room.emptyTimer);
+      }
+    }
+    for (const player of this.players.values()) {
+      if (player.pruneTimer) {
+        clearTimeout(player.pruneTimer);
+      }
+    }
+    this.rooms.clear();
+    this.players.clear();
+
+    const server = this.server;
+    this.server = null;
+    if (server) {
+      await new Promise<void>(resolve => server.close(() => resolve()));
+    }
+  }
+
+  // Serves a client over any PictoChatSocket, e.g. one end of createPictoChatPipe()
+  accept(socket: PictoChatSocket): void {
+    const client: HubClient = { socket, playerId: null, unsubscribe: [] };
+    this.clients.add(client);
+    client.unsubscribe.push(
+      socket.onMessage(data => this.handleData(client, data)),
+      socket.onClose(() => this.dropClient(client))
+    );
+  }
+
+  getPlayers(): NearbyPlayer[] {
+    return Array.from(this.players.values()).map(player => this.toNearbyPlayer(player));
+  }
+
+  getRooms(): PictoChatRoomSummary[] {
+    return Array.from(this.rooms.values()).map(room => this.summarize(room, true));
+  }
+
+  // Hub-wide ban, e.g. after a moderator upholds a report; the player is disconnected at once. Pass
+  // the report's reportedIdentity for a player who may have left. False when there is nobody to ban
+  banPlayer(playerId: string, reportedIdentity?: string | null): boolean {
+    const identity = reportedIdentity ?? this.players.get(playerId)?.identity;
+    if (!identity) {
+      return false;
+    }
+    this.bannedPlayers.set(identity, playerId);
+    for (const player of Array.from(this.players.values())) {
+      if (player.identity === identity && player.client) {
+        this.send(player.client, { type: 'error', error: 'You have been banned from this hub' });
+        player.client.socket.close();
+        this.dropClient(player.client);
+      }
+    }
+    return true;
+  }
+
+  unbanPlayer(playerId: string): void {
+    deleteBansFor(this.bannedPlayers, playerId);
+  }
+
+  private handleData(client: HubClient, data: string): void {
+    const message = parseJsonObject<PictoChatClientMessage>(data);
+    if (!message) {
+      this.send(client, { type: 'error', error: 'Messages must be JSON objects' });
+      return;
+    }
+
+    if (message.type === 'hello') {
+      this.hello(client, message.profile, message.resumeToken);
+      return;
+    }
+
+    const player = client.playerId ? this.players.get(client.playerId) : undefined;
+    if (!player) {
+      this.send(client, { type: 'error', error: 'Say hello first' });
+      return;
+    }
+    player.lastSeen = Date.now();
+
+    switch (message.type) {
+      case 'createRoom':
+        this.createRoom(client, player, message.requestId, message.roomName, message.isPrivate, message.maxParticipants);
+        break;
+      case 'joinRoom':
+        this.joinRoom(client, player, message.requestId, message.roomId, message.inviteCode, message.sinceSeq);
+        break;
+      case 'leaveRoom':
+        this.leaveRoom(player.profile.playerId, message.roomId);
+        break;
+      case 'chat':
+        this.chat(client, player, message.roomId, message.message);
+        break;
+      case 'direct':
+        this.direct(client, player, message.to, message.message);
+        break;
+      case 'drawingProgress':
+        this.drawingProgress(client, player, message.roomId, message.drawingId, message.delta);
+        break;
+      case 'presence':
+        player.profile.avatar = typeof message.avatar === 'string' ? message.avatar : player.profile.avatar;
+        player.profile.games = Array.isArray(message.games) ? message.games.map(String) : player.profile.games;
+        this.broadcastPresence(player);
+        this.emit('playerUpdated', this.toNearbyPlayer(player));
+        break;
+      case 'listRooms':
+        this.send(client, { type: 'rooms', requestId: message.requestId, rooms: this.visibleRooms(player.profile.playerId) });
+        break;
+      case 'listPlayers':
+        this.send(client, { type: 'players', requestId: message.requestId, players: this.getPlayers() });
+        break;
+      case 'setFilters':
+        this.moderator.setFilters(player.profile.playerId, toIdList(message.muted), toIdList(message.blocked));
+        break;
+      case 'report':
+        this.report(client, player, message.requestId, message.roomId, message.messageId, message.senderId, message.category, message.reason);
+        break;
+      case 'kick':
+      case 'ban':
+        this.removeMember(client, player, message.requestId, message.roomId, message.playerId, message.type === 'ban');
+        break;
+      case 'unban':
+        this.unban(client, player, message.requestId, message.roomId, message.playerId);
+        break;
+      case 'ping':
+        this.send(client, { type: 'pong' });
+        break;
+      default:
+        this.send(client, { type: 'error', error: 'Unknown message type' });
+    }
+  }
+
+  private hello(client: HubClient, profile: PictoChatProfile | undefined, resumeToken: unknown): void {
+    let playerId = typeof profile?.playerId === 'string' ? profile.playerId.slice(0, MAX_ID_LENGTH) : '';
+    const playerName = typeof profile?.playerName === 'string' ? profile.playerName.trim().slice(0, MAX_NAME_LENGTH) : '';
+    if (!playerId || !playerName || client.playerId) {
+      this.send(client, { type: 'error', error: 'Invalid hello' });
+      return;
+    }
+    if (isSessionToken(resumeToken) && this.bannedPlayers.has(sessionTokenIdentity(resumeToken))) {
+      this.send(client, { type: 'error', error: 'You have been banned from this hub' });
+      client.socket.close();
+      return;
+    }
+
+    let player = this.players.get(playerId);
+    if (player && !sameSessionToken(resumeToken, player.resumeToken)) {
+      // Someone else's id, or a client that lost its token; either way it carries on as a new player
+      playerId = this.uniquePlayerId();
+      player = undefined;
+    }
+    if (player?.client && player.client !== client) {
+      // The same player reconnected before the old socket noticed it was dead
+      const stale = player.client;
+      player.client = null;
+      stale.playerId = null;
+      stale.socket.close();
+      this.dropClient(stale);
+    }
+
+    const cleanProfile: PictoChatProfile = {
+      playerId,
+      playerName,
+      avatar: typeof profile?.avatar === 'string' ? profile.avatar : '',
+      games: Array.isArray(profile?.games) ? profile!.games.map(String) : []
+    };
+    if (player) {
+      if (player.pruneTimer) {
+        clearTimeout(player.pruneTimer);
+        player.pruneTimer = null;
+      }
+      player.profile = cleanProfile;
+      player.client = client;
+      player.lastSeen = Date.now();
+    } else {
+      // A token from an earlier welcome keeps its holder's identity, and so any bans, under a new id
+      const token = isSessionToken(resumeToken) ? resumeToken : createSessionToken();
+      player = {
+        profile: cleanProfile,
+        resumeToken: token,
+        identity: sessionTokenIdentity(token),
+        client,
+        lastSeen: Date.now(),
+        pruneTimer: null
+      };
+      this.players.set(playerId, player);
+    }
+    client.playerId = playerId;
+
+    this.send(client, {
+      type: 'welcome',
+      playerId,
+      resumeToken: player.resumeToken,
+      players: this.getPlayers(),
+      rooms: this.visibleRooms(playerId)
+    });
+    this.broadcastPresence(player);
+    this.emit('playerOnline', this.toNearbyPlayer(player));
+  }
+
+  private createRoom(
+    client: HubClient,
+    player: HubPlayer,
+    requestId: string,
+    roomName: unknown,
+    isPrivate: unknown,
+    maxParticipants: unknown
+  ): void {
+    const name = typeof roomName === 'string' ? roomName.trim().slice(0, MAX_NAME_LENGTH) : '';
+    if (!name) {
+      this.send(client, { type: 'requestFailed', requestId, error: 'Room name is required' });
+      return;
+    }
+
+    const room: HubRoom = {
+      roomId: randomBytes(6).toString('hex'),
+      roomName: name,
+      maxParticipants: clampParticipants(maxParticipants),
+      isPrivate: isPrivate === true,
+      inviteCode: isPrivate === true ? this.uniqueInviteCode() : null,
+      createdAt: Date.now(),
+      ownerId: player.profile.playerId,
+      members: new Set(),
+      banned: new Map(),
+      history: [],
+      seen: new Map(),
+      lastSeq: 0,
+      emptyTimer: null
+    };
+    this.rooms.set(room.roomId, room);
+    console.log(`🏠 Room created: ${room.roomName}`);
+
+    this.addMember(client, player, room, requestId, 0);
+  }
+
+  private joinRoom(
+    client: HubClient,
+    player: HubPlayer,
+    requestId: string,
+    roomId: unknown,
+    inviteCode: unknown,
+    sinceSeq: unknown
+  ): void {
+    let room: HubRoom | undefined;
+    if (typeof inviteCode === 'string' && inviteCode) {
+      const code = inviteCode.trim().toUpperCase();
+      room = Array.from(this.rooms.values()).find(candidate => candidate.inviteCode === code);
+      if (!room) {
+        this.send(client, { type: 'requestFailed', requestId, error: 'Invite code not recognised' });
+        return;
+      }
+    } else if (typeof roomId === 'string') {
+      room = this.rooms.get(roomId);
+      if (!room) {
+        this.send(client, { type: 'requestFailed', requestId, error: 'Room not found' });
+        return;
+      }
+      if (room.isPrivate && !room.members.has(player.profile.playerId)) {
+        this.send(client, { type: 'requestFailed', requestId, error: 'This room needs an invite code' });
+        return;
+      }
+    } else {
+      this.send(client, { type: 'requestFailed', requestId, error: 'roomId or inviteCode is required' });
+      return;
+    }
+
+    if (room.banned.has(player.identity)) {
+      this.send(client, { type: 'requestFailed', requestId, error: 'You are banned from this room' });
+      return;
+    }
+    if (!room.members.has(player.profile.playerId) && room.members.size >= room.maxParticipants) {
+      this.send(client, { type: 'requestFailed', requestId, error: 'Room is full' });
+      return;
+    }
+
+    this.addMember(client, player, room, requestId, typeof sinceSeq === 'number' ? sinceSeq : 0);
+  }
+
+  private addMember(client: HubClient, player: HubPlayer, room: HubRoom, requestId: string, sinceSeq: number): void {
+    if (room.emptyTimer) {
+      clearTimeout(room.emptyTimer);
+      room.emptyTimer = null;
+    }
+    const isNew = !room.members.has(player.profile.playerId);
+    room.members.add(player.profile.playerId);
+
+    this.send(client, {
+      type: 'roomJoined',
+      requestId,
+      room: this.summarize(room, true),
+      history: room.history.filter(message =>
+        (message.seq ?? 0) > sinceSeq && !this.moderator.isHidden(player.profile.playerId, message.senderId, 'room')
+      )
+    });
+
+    if (isNew) {
+      this.broadcastRoom(room);
+      this.emit('roomUpdated', this.summarize(room, true));
+    }
+  }
+
+  private leaveRoom(playerId: string, roomId: string): void {
+    const room = this.rooms.get(roomId);
+    if (!room || !room.members.delete(playerId)) {
+      return;
+    }
+    if (room.ownerId === playerId && room.members.size > 0) {
+      // Sets keep insertion order, so this is whoever has been in the room longest
+      room.ownerId = room.members.values().next().value!;
+    }
+
+    this.broadcastRoom(room);
+    this.emit('roomUpdated', this.summarize(room, true));
+    if (room.members.size === 0) {
+      room.emptyTimer = setTimeout(() => this.closeRoom(room), this.options.emptyRoomTtlMs);
+    }
+  }
+
+  private closeRoom(room: HubRoom): void {
+    this.rooms.delete(room.roomId);
+    if (!room.isPrivate) {
+      this.broadcast({ type: 'roomClosed', roomId: room.roomId });
+    }
+    console.log(`🏠 Room closed: ${room.roomName}`);
+  }
+
+  private chat(client: HubClient, player: HubPlayer, roomId: string, message: PictoChatMessage): void {
+    const room = this.rooms.get(roomId);
+    if (!room || !room.members.has(player.profile.playerId)) {
+      this.send(client, { type: 'error', error: 'Join the room before chatting' });
+      return;
+    }
+    let clean = this.validateMessage(client, player, message);
+    if (!clean) {
+      return;
+    }
+
+    // A client resends anything it has not seen echoed back; answer the sender with the copy we kept
+    const duplicate = room.seen.get(`${clean.senderId}:${clean.id}`);
+    if (duplicate) {
+      this.send(client, { type: 'chat', roomId, message: duplicate });
+      return;
+    }
+
+    const verdict = this.moderator.check(player.profile.playerId, roomId, clean);
+    if (!verdict.allowed) {
+      this.send(client, { type: 'rejected', messageId: clean.id, reason: verdict.reason });
+      return;
+    }
+    clean = verdict.message;
+
+    clean.seq = ++room.lastSeq;
+    room.history.push(clean);
+    room.seen.set(`${clean.senderId}:${clean.id}`, clean);
+    while (room.history.length > this.options.historyLimit) {
+      const dropped = room.history.shift()!;
+      room.seen.delete(`${dropped.senderId}:${dropped.id}`);
+    }
+
+    for (const memberId of room.members) {
+      const member = this.players.get(memberId);
+      if (member?.client && (memberId === clean.senderId || !this.moderator.isHidden(memberId, clean.senderId, 'room'))) {
+        this.send(member.client, { type: 'chat', roomId, message: clean });
+      }
+    }
+    this.emit('message', roomId, clean);
+  }
+
+  private direct(client: HubClient, player: HubPlayer, to: string, message: PictoChatMessage): void {
+    const target = this.players.get(to);
+    if (!target?.client) {
+      this.send(client, { type: 'error', error: `${target?.profile.playerName ?? 'That player'} is offline` });
+      return;
+    }
+    const clean = this.validateMessage(client, player, message);
+    if (!clean) {
+      return;
+    }
+    const verdict = this.moderator.check(player.profile.playerId, 'direct', clean);
+    if (!verdict.allowed) {
+      this.send(client, { type: 'rejected', messageId: clean.id, reason: verdict.reason });
+      return;
+    }
+    // Blocked senders are not told, so blocking cannot be probed
+    if (!this.moderator.isHidden(to, player.profile.playerId, 'direct')) {
+      this.send(target.client, { type: 'direct', message: verdict.message });
+      this.emit('direct', player.profile.playerId, to, verdict.message);
+    }
+  }
+
+  private async report(
+    client: HubClient,
+    player: HubPlayer,
+    requestId: string,
+    roomId: string,
+    messageId: unknown,
+    senderId: unknown,
+    category: unknown,
+    reason: unknown
+  ): Promise<void> {
+    const room = this.rooms.get(roomId);
+    if (!room || !room.members.has(player.profile.playerId)) {
+      this.send(client, { type: 'requestFailed', requestId, error: 'Join the room before reporting' });
+      return;
+    }
+    // Only messages the hub still holds can be reported, so the snapshot is what was actually sent
+    const index = room.history.findIndex(message => message.id === messageId && message.senderId === senderId);
+    if (index === -1) {
+      this.send(client, { type: 'requestFailed', requestId, error: 'Message is no longer available to report' });
+      return;
+    }
+    const reported = room.history[index];
+    if (reported.senderId === player.profile.playerId) {
+      this.send(client, { type: 'requestFailed', requestId, error: 'You cannot report your own message' });
+      return;
+    }
+    if (!this.moderator.canReport()) {
+      this.send(client, { type: 'requestFailed', requestId, error: 'Reporting is not available on this hub' });
+      return;
+    }
+
+    try {
+      const reportId = await this.moderator.report({
+        reporterId: player.profile.playerId,
+        reporterName: player.profile.playerName,
+        reportedUserId: reported.senderId,
+        reportedUserName: reported.sender,
+        reportedIdentity: this.players.get(reported.senderId)?.identity ?? null,
+        roomId,
+        roomName: room.roomName,
+        category: REPORT_CATEGORIES.has(category as string) ? category as PictoChatReportCategory : 'other',
+        reason: typeof reason === 'string' ? reason.trim().slice(0, MAX_REASON_LENGTH) : '',
+        message: reported,
+        context: PictoChatModerator.contextFor(room.history, index),
+        timestamp: Date.now()
+      });
+      console.log(`🚩 PictoChat report ${reportId} filed against ${reported.sender}`);
+      this.send(client, { type: 'reported', requestId, reportId });
+      this.emit('report', reportId, reported);
+    } catch (error) {
+      console.error('❌ Failed to file PictoChat report:', error);
+      this.send(client, { type: 'requestFailed', requestId, error: 'Could not file the report, try again later' });
+    }
+  }
+
+  // Owner-only; a ban also keeps the player from rejoining with an invite code
+  private removeMember(client: HubClient, player: HubPlayer, requestId: string, roomId: string, targetId: unknown, ban: boolean): void {
+    const room = this.ownedRoom(client, player, requestId, roomId, targetId);
+    if (!room || typeof targetId !== 'string') {
+      return;
+    }
+    const target = this.players.get(targetId);
+    if (ban) {
+      if (!target) {
+        this.send(client, { type: 'requestFailed', requestId, error: 'That player is not on this hub' });
+        return;
+      }
+      room.banned.set(target.identity, targetId);
+    } else if (!room.members.has(targetId)) {
+      this.send(client, { type: 'requestFailed', requestId, error: 'That player is not in this room' });
+      return;
+    }
+
+    if (room.members.has(targetId) && target?.client) {
+      this.send(target.client, { type: 'kicked', roomId, banned: ban });
+    }
+    this.leaveRoom(targetId, roomId);
+    this.send(client, { type: 'requestDone', requestId });
+  }
+
+  private unban(client: HubClient, player: HubPlayer, requestId: string, roomId: string, targetId: unknown): void {
+    const room = this.ownedRoom(client, player, requestId, roomId, targetId);
+    if (room && typeof targetId === 'string') {
+      deleteBansFor(room.banned, targetId);
+      this.send(client, { type: 'requestDone', requestId });
+    }
+  }
+
+  private ownedRoom(client: HubClient, player: HubPlayer, requestId: string, roomId: string, targetId: unknown): HubRoom | null {
+    const room = this.rooms.get(roomId);
+    if (!room || room.ownerId !== player.profile.playerId) {
+      this.send(client, { type: 'requestFailed', requestId, error: 'Only the room owner can do that' });
+      return null;
+    }
+    if (typeof targetId !== 'string' || !targetId || targetId === player.profile.playerId) {
+      this.send(client, { type: 'requestFailed', requestId, error: 'Pick another player' });
+      return null;
+    }
+    return room;
+  }
+
+  // Previews are relayed as-is and never stored; late joiners only get the finished drawing
+  private drawingProgress(client: HubClient, player: HubPlayer, roomId: string, drawingId: unknown, delta: unknown): void {
+    const room = this.rooms.get(roomId);
+    if (!room || !room.members.has(player.profile.playerId)) {
+      this.send(client, { type: 'error', error: 'Join the room before drawing' });
+      return;
+    }
+    if (
+      typeof drawingId !== 'string' || !drawingId || drawingId.length > MAX_ID_LENGTH ||
+      typeof delta !== 'string' || delta.length > DRAWING_MAX_ENCODED_LENGTH
+    ) {
+      this.send(client, { type: 'error', error: 'Invalid drawing update' });
+      return;
+    }
+    if (!this.moderator.checkPreview(player.profile.playerId, roomId)) {
+      this.send(client, { type: 'error', error: 'Slow down - you are drawing too fast' });
+      return;
+    }
+
+    for (const memberId of room.members) {
+      const member = this.players.get(memberId);
+      if (member?.client && member.client !== client && !this.moderator.isHidden(memberId, player.profile.playerId, 'room')) {
+        this.send(member.client, { type: 'drawingProgress', roomId, senderId: player.profile.playerId, drawingId, delta });
+      }
+    }
+  }
+
+  // The hub stamps the sender so clients cannot speak for each other
+  private validateMessage(client: HubClient, player: HubPlayer, message: PictoChatMessage): PictoChatMessage | null {
+    if (
+      typeof message?.id !== 'string' || !message.id || message.id.length > MAX_ID_LENGTH ||
+      typeof message.message !== 'string' || message.message.length > MAX_TEXT_LENGTH ||
+      !MESSAGE_TYPES.has(message.messageType) ||
+      (message.drawing !== undefined && !isValidDrawing(message.drawing))
+    ) {
+      this.send(client, { type: 'error', error: 'Invalid message' });
+      return null;
+    }
+
+    const clean: PictoChatMessage = {
+      id: message.id,
+      sender: player.profile.playerName,
+      senderId: player.profile.playerId,
+      message: message.message,
+      timestamp: typeof message.timestamp === 'number' ? message.timestamp : Date.now(),
+      messageType: message.messageType
+    };
+    if (message.drawing !== undefined) {
+      clean.drawing = message.drawing;
+    }
+    return clean;
+  }
+
+  private dropClient(client: HubClient): void {
+    if (!this.clients.delete(client)) {
+      return;
+    }
+    client.unsubscribe.forEach(unsubscribe => unsubscribe());
+
+    const player = client.playerId ? this.players.get(client.playerId) : undefined;
+    if (!player || player.client !== client) {
+      return;
+    }
+    player.client = null;
+    player.lastSeen = Date.now();
+
+    for (const room of Array.from(this.rooms.values())) {
+      this.leaveRoom(player.profile.playerId, room.roomId);
+    }
+    this.broadcastPresence(player);
+    this.emit('playerOffline', this.toNearbyPlayer(player));
+
+    player.pruneTimer = setTimeout(() => {
+      this.players.delete(player.profile.playerId);
+      this.moderator.forgetPlayer(player.profile.playerId);
+    }, this.options.offlinePresenceTtlMs);
+  }
+
+  private visibleRooms(playerId: string): PictoChatRoomSummary[] {
+    return Array.from(this.rooms.values())
+      .filter(room => !room.isPrivate || room.members.has(playerId))
+      .map(room => this.summarize(room, room.members.has(playerId)));
+  }
+
+  private summarize(room: HubRoom, includeInvite: boolean): PictoChatRoomSummary {
+    const summary: PictoChatRoomSummary = {
+      roomId: room.roomId,
+      roomName: room.roomName,
+      participants: Array.from(room.members),
+      maxParticipants: room.maxParticipants,
+      isPrivate: room.isPrivate,
+      createdAt: room.createdAt,
+      lastSeq: room.lastSeq,
+      ownerId: room.ownerId
+    };
+    if (includeInvite && room.inviteCode) {
+      summary.inviteCode = room.inviteCode;
+    }
+    return summary;
+  }
+
+  // Public rooms are announced to everyone, private ones only to their members
+  private broadcastRoom(room: HubRoom): void {
+    for (const player of this.players.values()) {
+      if (!player.client) {
+        continue;
+      }
+      const isMember = room.members.has(player.profile.playerId);
+      if (!room.isPrivate || isMember) {
+        this.send(player.client, { type: 'roomUpdated', room: this.summarize(room, isMember) });
+      }
+    }
+  }
+
+  private broadcastPresence(player: HubPlayer): void {
+    this.broadcast({ type: 'presence', player: this.toNearbyPlayer(player) }, player.client);
+  }
+
+  private broadcast(message: PictoChatServerMessage, except: HubClient | null = null): void {
+    for (const client of this.clients) {
+      if (client !== except && client.playerId) {
+        this.send(client, message);
+      }
+    }
+  }
+
+  private send(client: HubClient, message: PictoChatServerMessage): void {
+    client.socket.send(JSON.stringify(message));
+  }
+
+  // Hub peers share the LAN; distance and signal strength only mean something for Bluetooth
+  private toNearbyPlayer(player: HubPlayer): NearbyPlayer {
+    return {
+      playerId: player.profile.playerId,
+      playerName: player.profile.playerName,
+      avatar: player.profile.avatar,
+      games: player.profile.games,
+      online: player.client !== null,
+      lastSeen: player.lastSeen,
+      distance: 0,
+      signalStrength: 100
+    };
+  }
+
+  private uniquePlayerId(): string {
+    let playerId = randomBytes(8).toString('hex');
+    while (this.players.has(playerId)) {
+      playerId = randomBytes(8).toString('hex');
+    }
+    return playerId;
+  }
+
+  private uniqueInviteCode(): string {
+    const codes = new Set(Array.from(this.rooms.values()).map(room => room.inviteCode));
+    let code = generateRoomCode();
+    while (codes.has(code)) {
+      code = generateRoomCode();
+    }
+    return code;
+  }
+}
+
+function isValidDrawing(drawing: unknown): boolean {
+  if (typeof drawing !== 'string') {
+    return false;
+  }
+  try {
+    decodeDrawing(drawing);
+    return true;
+  } catch (error) {
+    return false;
+  }
+}
+
+function deleteBansFor(bans: Map<string, string>, playerId: string): void {
+  for (const [identity, bannedId] of bans) {
+    if (bannedId === playerId) {
+      bans.delete(identity);
+    }
+  }
+}
+
+function toIdList(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((id): id is string => typeof id === 'string').slice(0, 500) : [];
+}
+
+function clampParticipants(value: unknown): number {
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    return PICTOCHAT_DEFAULT_MAX_PARTICIPANTS;
+  }
+  return Math.min(PICTOCHAT_MAX_PARTICIPANTS, Math.max(2, Math.floor(value)));
+}
@@ -1,45 +1,90 @@
 // PictoChat-Style Communication
 // Nintendo DS simple drawing/chat system
 
-export interface PictoChatMessage {
-  id: string;
-  sender: string;
-  senderId: string;
-  message: string;
-  drawing?: string; // Base64 drawing data
-  timestamp: number;
-  messageType: 'text' | 'drawing' | 'game_invite' | 'friend_request';
-}
+import { EventEmitter } from 'events';
+import {
+  NearbyPlayer,
+  PICTOCHAT_DEFAULT_MAX_PARTICIPANTS,
+  PICTOCHAT_PATH,
+  PICTOCHAT_PORT,
+  PictoChatClientMessage,
+  PictoChatMessage,
+  PictoChatProfile,
+  PictoChatReportCategory,
+  PictoChatRoom,
+  PictoChatRoomSummary,
+  PictoChatServerMessage,
+  PictoChatSocket,
+  openPictoChatWebSocket
+} from './pictochat-protocol';
+import { Drawing, DrawingAssembler, DrawingRecorder, encodeDrawing } from './pictochat-drawing';
+
+export type { NearbyPlayer, PictoChatMessage, PictoChatRoom } from './pictochat-protocol';
 
-export interface PictoChatRoom {
-  roomId: string;
-  roomName: string;
-  participants: string[];
-  messages: PictoChatMessage[];
-  maxParticipants: number;
-  isPrivate: boolean;
-  createdAt: number;
+// Opens a fresh socket to the hub; called again for every reconnect
+export type PictoChatConnector = () => Promise<PictoChatSocket>;
+
+export interface PictoChatOptions {
+  playerId?: string;
+  // Saved from getIdentity() along with playerId; the hub only hands an id it knows back with it
+  resumeToken?: string;
+  playerName?: string;
+  avatar?: string;
+  games?: string[];
+  requestTimeoutMs?: number;
+  // Reconnect delay doubles from one second up to this cap while the hub is unreachable
+  maxReconnectDelayMs?: number;
+  // Saved mute and block lists; the hub is told about them on every connect
+  mutedPlayers?: string[];
+  blockedPlayers?: string[];
 }
 
-export interface NearbyPlayer {
-  playerId: string;
-  playerName: string;
-  avatar: string;
-  games: string[];
-  online: boolean;
-  lastSeen: number;
-  distance: number;
-  signalStrength: number;
+interface PendingRequest {
+  resolve: (message: PictoChatServerMessage) => void;
+  reject: (error: Error) => void;
+  timer: ReturnType<typeof setTimeout>;
 }
 
-export class PictoChat {
+const WELCOME_REQUEST = 'welcome';
+const INITIAL_RECONNECT_DELAY_MS = 1000;
+// Drawings in progress tracked at once; the oldest preview is dropped beyond this
+const MAX_DRAWING_PREVIEWS = 32;
+
+export class PictoChat extends EventEmitter {
+  private profile: PictoChatProfile;
+  private resumeToken: string | null;
   private messages: PictoChatMessage[] = [];
   private rooms: Map<string, PictoChatRoom> = new Map();
   private nearbyPlayers: Map<string, NearbyPlayer> = new Map();
   private currentRoom: string | null = null;
-  private isConnected: boolean = false;
+  private connected: boolean = false;
+  private socket: PictoChatSocket | null = null;
+  private connector: PictoChatConnector | null = null;
+  private pendingRequests: Map<string, PendingRequest> = new Map();
+  // Chat sent to the hub but not yet echoed back with a seq; resent after a reconnect
+  private outbox: Map<string, { roomId: string; message: PictoChatMessage }> = new Map();
+  private requestTimeoutMs: number;
+  private maxReconnectDelayMs: number;
+  private reconnectDelayMs: number = INITIAL_RECONNECT_DELAY_MS;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  // Keyed by senderId:drawingId
+  private drawingPreviews: Map<string, DrawingAssembler> = new Map();
+  private mutedPlayers: Set<string>;
+  private blockedPlayers: Set<string>;
 
-  constructor() {
+  constructor(options: PictoChatOptions = {}) {
+    super();
+    this.profile = {
+      playerId: options.playerId ?? this.generateId(),
+      playerName: options.playerName ?? 'Player',
+      avatar: options.avatar ?? '',
+      games: options.games ?? []
+    };
+    this.resumeToken = options.resumeToken ?? null;
+    this.requestTimeoutMs = options.requestTimeoutMs ?? 5000;
+    this.maxReconnectDelayMs = options.maxReconnectDelayMs ?? 30000;
+    this.mutedPlayers = new Set(options.mutedPlayers ?? []);
+    this.blockedPlayers = new Set(options.blockedPlayers ?? []);
     this.initializePictoChat();
   }
 
@@ -48,67 +93,306 @@ export class PictoChat {
     console.log('💬 PictoChat initialized');
   }
 
-  async sendMessage(message: string, drawing?: string): Promise<boolean> {
+  // Connects to a PictoChatServer hub over WebSocket
+  async connect(url: string = `ws://localhost:${PICTOCHAT_PORT}${PICTOCHAT_PATH}`): Promise<boolean> {
+    return this.connectWith(() => openPictoChatWebSocket(url));
+  }
+
+  async connectWith(connector: PictoChatConnector): Promise<boolean> {
+    this.disconnect();
+    this.connector = connector;
+
     try {
-      const chatMessage: PictoChatMessage = {
-        id: this.generateId(),
-        sender: this.getCurrentUser(),
-        senderId: this.getCurrentUserId(),
-        message,
-        drawing,
-        timestamp: Date.now(),
-        messageType: drawing ? 'drawing' : 'text'
-      };
-
-      this.messages.push(chatMessage);
-      
-      // Broadcast to all nearby players
-      await this.broadcastMessage(chatMessage);
-      
-      console.log('💬 Message sent:', message);
+      await this.open();
       return true;
     } catch (error) {
-      console.error('❌ Failed to send message:', error);
+      console.error('❌ PictoChat connection failed:', error);
+      this.scheduleReconnect();
       return false;
     }
   }
 
-  async sendGameInvite(gameId: string, gameName: string): Promise<boolean> {
+  disconnect(): void {
+    this.connector = null;
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    this.socket?.close();
+  }
+
+  private async open(): Promise<void> {
+    const connector = this.connector;
+    if (!connector) {
+      return;
+    }
+
+    const socket = await connector();
+    if (this.connector !== connector) {
+      socket.close();
+      return;
+    }
+    this.socket = socket;
+    socket.onMessage(data => this.handleData(data));
+    socket.onClose(() => this.handleClose(socket));
+
+    const hello: PictoChatClientMessage = { type: 'hello', profile: this.profile };
+    if (this.resumeToken) {
+      hello.resumeToken = this.resumeToken;
+    }
+    const welcome = this.request(WELCOME_REQUEST, hello);
+    this.handleWelcome(await welcome);
+  }
+
+  private handleClose(socket: PictoChatSocket): void {
+    if (this.socket !== socket) {
+      return;
+    }
+    this.socket = null;
+    const wasConnected = this.connected;
+    this.connected = false;
+
+    for (const [requestId, pending] of this.pendingRequests) {
+      clearTimeout(pending.timer);
+      pending.reject(new Error('PictoChat hub connection closed'));
+      this.pendingRequests.delete(requestId);
+    }
+    for (const player of this.nearbyPlayers.values()) {
+      player.online = false;
+    }
+
+    if (wasConnected) {
+      console.log('💬 PictoChat disconnected');
+      this.emit('disconnected');
+    }
+    this.scheduleReconnect();
+  }
+
+  private scheduleReconnect(): void {
+    if (!this.connector || this.reconnectTimer) {
+      return;
+    }
+    const delay = this.reconnectDelayMs;
+    this.reconnectDelayMs = Math.min(this.reconnectDelayMs * 2, this.maxReconnectDelayMs);
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.open().catch(() => this.scheduleReconnect());
+    }, delay);
+  }
+
+  private handleWelcome(message: PictoChatServerMessage): void {
+    if (message.type !== 'welcome') {
+      return;
+    }
+    this.connected = true;
+    this.reconnectDelayMs = INITIAL_RECONNECT_DELAY_MS;
+    this.profile.playerId = message.playerId;
+    this.resumeToken = message.resumeToken;
+    message.players.forEach(player => this.updatePresence(player));
+    message.rooms.forEach(room => this.updateRoom(room));
+
+    console.log('💬 PictoChat connected');
+    this.sendFilters();
+    this.emit('connected');
+
+    // The hub drops memberships with the socket; rejoin and fetch whatever was said meanwhile
+    const roomId = this.currentRoom;
+    if (roomId) {
+      this.enterRoom(roomId, undefined, this.rooms.get(roomId)?.inviteCode)
+        .then(() => this.flushOutbox())
+        .catch(error => {
+          console.error('❌ Failed to rejoin room:', error);
+          this.currentRoom = null;
+          this.emit('roomClosed', roomId);
+        });
+    }
+  }
+
+  private handleData(data: string): void {
+    let message: PictoChatServerMessage;
     try {
-      const inviteMessage: PictoChatMessage = {
-        id: this.generateId(),
-        sender: this.getCurrentUser(),
-        senderId: this.getCurrentUserId(),
-        message: `Want to play ${gameName}?`,
-        timestamp: Date.now(),
-        messageType: 'game_invite'
-      };
-
-      this.messages.push(inviteMessage);
-      await this.broadcastMessage(inviteMessage);
-      
-      console.log('🎮 Game invite sent:', gameName);
-      return true;
+      message = JSON.parse(data);
+    } catch (error) {
+      console.error('❌ Invalid PictoChat hub message:', error);
+      return;
+    }
+
+    switch (message.type) {
+      case 'welcome':
+        this.resolveRequest(WELCOME_REQUEST, message);
+        break;
+      case 'roomJoined':
+      case 'rooms':
+      case 'players':
+      case 'requestFailed':
+      case 'requestDone':
+      case 'reported':
+        this.resolveRequest(message.requestId, message);
+        break;
+      case 'rejected':
+        this.rejectMessage(message.messageId, message.reason);
+        break;
+      case 'kicked':
+        this.handleKicked(message.roomId, message.banned);
+        break;
+      case 'roomUpdated':
+        this.updateRoom(message.room);
+        this.emit('roomUpdated', this.rooms.get(message.room.roomId));
+        break;
+      case 'roomClosed':
+        if (message.roomId !== this.currentRoom) {
+          this.rooms.delete(message.roomId);
+        }
+        this.emit('roomClosed', message.roomId);
+        break;
+      case 'chat':
+        this.receiveChat(message.roomId, message.message);
+        break;
+      case 'direct':
+        this.addMessage(this.messages, message.message);
+        this.emit('directMessage', message.message);
+        break;
+      case 'drawingProgress':
+        this.receiveDrawingProgress(message.roomId, message.senderId, message.drawingId, message.delta);
+        break;
+      case 'presence':
+        this.updatePresence(message.player);
+        this.emit('presence', message.player);
+        break;
+      case 'error':
+        console.error('❌ PictoChat hub error:', message.error);
+        this.emit('hubError', message.error);
+        break;
+    }
+  }
+
+  private receiveChat(roomId: string, message: PictoChatMessage): void {
+    this.outbox.delete(message.id);
+    this.drawingPreviews.delete(`${message.senderId}:${message.id}`);
+    const room = this.rooms.get(roomId);
+    const isNew = room ? this.addMessage(room.messages, message) : true;
+    this.addMessage(this.messages, message);
+
+    if (isNew) {
+      this.emit('message', roomId, message);
+    }
+  }
+
+  // Keeps messages in hub order with unconfirmed ones last; returns false for ones already held
+  private addMessage(list: PictoChatMessage[], message: PictoChatMessage): boolean {
+    const index = list.findIndex(existing => existing.id === message.id && existing.senderId === message.senderId);
+    const isNew = index === -1;
+    if (!isNew) {
+      if (list[index]!.seq !== undefined || message.seq === undefined) {
+        return false;
+      }
+      list.splice(index, 1);
+    }
+
+    let position = list.length;
+    if (message.seq !== undefined) {
+      while (position > 0 && (list[position - 1]!.seq ?? Infinity) > message.seq) {
+        position--;
+      }
+    }
+    list.splice(position, 0, message);
+    return isNew;
+  }
+
+  // The hub refused a message we sent; drop it so it is not resent after a reconnect
+  private rejectMessage(messageId: string, reason: string): void {
+    const entry = this.outbox.get(messageId);
+    this.outbox.delete(messageId);
+    const isOurs = (message: PictoChatMessage) => message.id === messageId && message.senderId === this.getCurrentUserId();
+    this.messages = this.messages.filter(message => !isOurs(message));
+    const room = entry ? this.rooms.get(entry.roomId) : undefined;
+    if (room) {
+      room.messages = room.messages.filter(message => !isOurs(message));
+    }
+
+    console.error('❌ Message rejected:', reason);
+    this.emit('messageRejected', messageId, reason);
+  }
+
+  private handleKicked(roomId: string, banned: boolean): void {
+    if (this.currentRoom === roomId) {
+      this.currentRoom = null;
+      this.drawingPreviews.clear();
+    }
+    for (const [messageId, entry] of this.outbox) {
+      if (entry.roomId === roomId) {
+        this.outbox.delete(messageId);
+      }
+    }
+
+    console.log(banned ? '🚫 Banned from room:' : '🚫 Removed from room:', this.rooms.get(roomId)?.roomName ?? roomId);
+    this.emit('kicked', roomId, banned);
+  }
+
+  async sendMessage(message: string, drawing?: Drawing): Promise<boolean> {
+    if (!drawing) {
+      return this.post('text', message);
+    }
+    return this.sendDrawing(this.generateId(), drawing, message);
+  }
+
+  // Pass the drawingId used for streamDrawing so receivers swap their preview for the final drawing
+  async sendDrawing(drawingId: string, drawing: Drawing | DrawingRecorder, caption: string = ''): Promise<boolean> {
+    try {
+      const encoded = encodeDrawing(drawing instanceof DrawingRecorder ? drawing.getDrawing() : drawing);
+      return await this.post('drawing', caption, encoded, drawingId);
     } catch (error) {
-      console.error('❌ Failed to send game invite:', error);
+      console.error('❌ Failed to send drawing:', error);
       return false;
     }
   }
 
+  // Sends the strokes drawn since the last call so the room watches the sketch take shape
+  streamDrawing(drawingId: string, recorder: DrawingRecorder): boolean {
+    if (!this.connected || !this.currentRoom) {
+      return false;
+    }
+    const delta = recorder.takeDelta();
+    if (delta) {
+      this.send({ type: 'drawingProgress', roomId: this.currentRoom, drawingId, delta });
+    }
+    return true;
+  }
+
+  private receiveDrawingProgress(roomId: string, senderId: string, drawingId: string, delta: string): void {
+    const key = `${senderId}:${drawingId}`;
+    let preview = this.drawingPreviews.get(key);
+    if (!preview) {
+      preview = new DrawingAssembler();
+      this.drawingPreviews.set(key, preview);
+      if (this.drawingPreviews.size > MAX_DRAWING_PREVIEWS) {
+        this.drawingPreviews.delete(this.drawingPreviews.keys().next().value!);
+      }
+    }
+
+    try {
+      if (preview.apply(delta)) {
+        this.emit('drawingProgress', roomId, senderId, drawingId, preview.getDrawing());
+      }
+    } catch (error) {
+      console.error('❌ Invalid drawing update:', error);
+      this.drawingPreviews.delete(key);
+    }
+  }
+
+  async sendGameInvite(gameId: string, gameName: string): Promise<boolean> {
+    const sent = await this.post('game_invite', `Want to play ${gameName}?`);
+    if (sent) {
+      console.log('🎮 Game invite sent:', gameName, gameId);
+    }
+    return sent;
+  }
+
   async sendFriendRequest(playerId: string): Promise<boolean> {
     try {
-      const friendMessage: PictoChatMessage = {
-        id: this.generateId(),
-        sender: this.getCurrentUser(),
-        senderId: this.getCurrentUserId(),
-        message: 'Want to be friends?',
-        timestamp: Date.now(),
-        messageType: 'friend_request'
-      };
-
-      this.messages.push(friendMessage);
-      await this.broadcastMessage(friendMessage);
-      
+      const friendMessage = this.createMessage('friend_request', 'Want to be friends?');
+      await this.sendToPlayer(playerId, friendMessage);
+
       console.log('👤 Friend request sent to:', playerId);
       return true;
     } catch (error) {
@@ -117,58 +401,120 @@ export class PictoChat {
     }
   }
 
-  private async broadcastMessage(message: PictoChatMessage): Promise<void> {
-    // Broadcast message to all nearby players
-    const nearbyPlayers = Array.from(this.nearbyPlayers.values());
-    
-    for (const player of nearbyPlayers) {
-      if (player.online) {
-        await this.sendToPlayer(player, message);
-      }
+  private async post(
+    messageType: PictoChatMessage['messageType'],
+    text: string,
+    drawing?: string,
+    id: string = this.generateId()
+  ): Promise<boolean> {
+    const roomId = this.currentRoom;
+    const room = roomId ? this.rooms.get(roomId) : undefined;
+    if (!roomId || !room) {
+      console.error('❌ Failed to send message: join a room first');
+      return false;
+    }
+
+    const chatMessage = this.createMessage(messageType, text, drawing, id);
+    this.addMessage(room.messages, chatMessage);
+    this.addMessage(this.messages, chatMessage);
+    this.outbox.set(chatMessage.id, { roomId, message: chatMessage });
+
+    // While offline the message waits in the outbox for the reconnect
+    if (this.connected) {
+      this.send({ type: 'chat', roomId, message: chatMessage });
+    }
+
+    console.log('💬 Message sent:', text);
+    return true;
+  }
+
+  private async sendToPlayer(playerId: string, message: PictoChatMessage): Promise<void> {
+    if (!this.connected) {
+      throw new Error('Not connected to a PictoChat hub');
     }
+    this.send({ type: 'direct', to: playerId, message });
   }
 
-  private async sendToPlayer(player: NearbyPlayer, message: PictoChatMessage): Promise<void> {
-    // Send message to specific player
-    // This would typically involve WebSocket or Bluetooth communication
-    console.log(`📤 Sending message to ${player.playerName}:`, message.message);
+  private flushOutbox(): void {
+    for (const [messageId, entry] of this.outbox) {
+      if (entry.roomId === this.currentRoom) {
+        this.send({ type: 'chat', roomId: entry.roomId, message: entry.message });
+      } else {
+        this.outbox.delete(messageId);
+      }
+    }
   }
 
-  async createRoom(roomName: string, isPrivate: boolean = false): Promise<string> {
-    const roomId = this.generateId();
-    const room: PictoChatRoom = {
-      roomId,
+  async createRoom(
+    roomName: string,
+    isPrivate: boolean = false,
+    maxParticipants: number = PICTOCHAT_DEFAULT_MAX_PARTICIPANTS
+  ): Promise<string> {
+    await this.leaveRoom();
+    const requestId = this.generateId();
+    const response = await this.request(requestId, {
+      type: 'createRoom',
+      requestId,
       roomName,
-      participants: [this.getCurrentUserId()],
-      messages: [],
-      maxParticipants: 8,
       isPrivate,
-      createdAt: Date.now()
-    };
+      maxParticipants
+    });
+    const room = this.acceptRoom(response);
 
-    this.rooms.set(roomId, room);
-    this.currentRoom = roomId;
-    
-    console.log('🏠 Room created:', roomName);
-    return roomId;
+    console.log('🏠 Room created:', room.roomName);
+    return room.roomId;
   }
 
   async joinRoom(roomId: string): Promise<boolean> {
-    const room = this.rooms.get(roomId);
-    
-    if (!room) {
+    return this.switchRoom(roomId, undefined);
+  }
+
+  // Private rooms are only reachable through the code shown to their members
+  async joinWithInviteCode(inviteCode: string): Promise<boolean> {
+    return this.switchRoom(undefined, inviteCode);
+  }
+
+  private async switchRoom(roomId: string | undefined, inviteCode: string | undefined): Promise<boolean> {
+    try {
+      if (this.currentRoom && this.currentRoom !== roomId) {
+        await this.leaveRoom();
+      }
+      const room = await this.enterRoom(roomId, inviteCode);
+
+      console.log('🏠 Joined room:', room.roomName);
+      return true;
+    } catch (error) {
+      console.error('❌ Failed to join room:', error);
       return false;
     }
+  }
 
-    if (room.participants.length >= room.maxParticipants) {
-      return false;
+  private async enterRoom(roomId: string | undefined, inviteCode?: string, knownInvite?: string): Promise<PictoChatRoom> {
+    const known = roomId ? this.rooms.get(roomId) : undefined;
+    const sinceSeq = known?.messages.reduce((last, message) => Math.max(last, message.seq ?? 0), 0) ?? 0;
+    const code = inviteCode ?? knownInvite;
+
+    const requestId = this.generateId();
+    const request: PictoChatClientMessage = code
+      ? { type: 'joinRoom', requestId, inviteCode: code, sinceSeq }
+      : { type: 'joinRoom', requestId, roomId: roomId!, sinceSeq };
+    return this.acceptRoom(await this.request(requestId, request));
+  }
+
+  private acceptRoom(response: PictoChatServerMessage): PictoChatRoom {
+    if (response.type === 'requestFailed') {
+      throw new Error(response.error);
+    }
+    if (response.type !== 'roomJoined') {
+      throw new Error(`Unexpected hub response: ${response.type}`);
     }
 
-    room.participants.push(this.getCurrentUserId());
-    this.currentRoom = roomId;
-    
-    console.log('🏠 Joined room:', room.roomName);
-    return true;
+    const room = this.updateRoom(response.room);
+    for (const message of response.history) {
+      this.receiveChat(room.roomId, message);
+    }
+    this.currentRoom = room.roomId;
+    return room;
   }
 
   async leaveRoom(): Promise<void> {
@@ -177,21 +523,151 @@ export class PictoChat {
       if (room) {
         room.participants = room.participants.filter(id => id !== this.getCurrentUserId());
       }
+      if (this.connected) {
+        this.send({ type: 'leaveRoom', roomId: this.currentRoom });
+      }
       this.currentRoom = null;
+      this.drawingPreviews.clear();
+    }
+  }
+
+  // Muted players' room messages are hidden; blocked players are hidden everywhere, invites included
+  mutePlayer(playerId: string): void {
+    this.mutedPlayers.add(playerId);
+    this.hideMessagesFrom(playerId);
+    this.sendFilters();
+  }
+
+  unmutePlayer(playerId: string): void {
+    this.mutedPlayers.delete(playerId);
+    this.sendFilters();
+  }
+
+  blockPlayer(playerId: string): void {
+    this.blockedPlayers.add(playerId);
+    this.hideMessagesFrom(playerId);
+    this.sendFilters();
+  }
+
+  unblockPlayer(playerId: string): void {
+    this.blockedPlayers.delete(playerId);
+    this.sendFilters();
+  }
+
+  getMutedPlayers(): string[] {
+    return Array.from(this.mutedPlayers);
+  }
+
+  getBlockedPlayers(): string[] {
+    return Array.from(this.blockedPlayers);
+  }
+
+  // Resolves with the report id, or null when the hub would not take the report
+  async reportMessage(messageId: string, category: PictoChatReportCategory, reason: string = ''): Promise<string | null> {
+    const roomId = this.currentRoom;
+    const message = roomId ? this.rooms.get(roomId)?.messages.find(candidate => candidate.id === messageId) : undefined;
+    if (!roomId || !message) {
+      console.error('❌ Failed to report message: not in the current room');
+      return null;
+    }
+
+    try {
+      const requestId = this.generateId();
+      const response = await this.request(requestId, {
+        type: 'report',
+        requestId,
+        roomId,
+        messageId,
+        senderId: message.senderId,
+        category,
+        reason
+      });
+      if (response.type !== 'reported') {
+        throw new Error(response.type === 'requestFailed' ? response.error : `Unexpected hub response: ${response.type}`);
+      }
+
+      console.log('🚩 Message reported:', response.reportId);
+      return response.reportId;
+    } catch (error) {
+      console.error('❌ Failed to report message:', error);
+      return null;
+    }
+  }
+
+  // Only the owner of the current room may kick, ban or unban
+  async kickPlayer(playerId: string): Promise<boolean> {
+    return this.moderateRoom('kick', playerId);
+  }
+
+  async banPlayer(playerId: string): Promise<boolean> {
+    return this.moderateRoom('ban', playerId);
+  }
+
+  async unbanPlayer(playerId: string): Promise<boolean> {
+    return this.moderateRoom('unban', playerId);
+  }
+
+  private async moderateRoom(type: 'kick' | 'ban' | 'unban', playerId: string): Promise<boolean> {
+    const roomId = this.currentRoom;
+    if (!roomId) {
+      console.error(`❌ Failed to ${type} player: join a room first`);
+      return false;
+    }
+
+    try {
+      const requestId = this.generateId();
+      const response = await this.request(requestId, { type, requestId, roomId, playerId });
+      if (response.type !== 'requestDone') {
+        throw new Error(response.type === 'requestFailed' ? response.error : `Unexpected hub response: ${response.type}`);
+      }
+      return true;
+    } catch (error) {
+      console.error(`❌ Failed to ${type} player:`, error);
+      return false;
+    }
+  }
+
+  private hideMessagesFrom(playerId: string): void {
+    this.messages = this.messages.filter(message => message.senderId !== playerId);
+    for (const room of this.rooms.values()) {
+      room.messages = room.messages.filter(message => message.senderId !== playerId);
+    }
+  }
+
+  private sendFilters(): void {
+    if (this.connected) {
+      this.send({ type: 'setFilters', muted: this.getMutedPlayers(), blocked: this.getBlockedPlayers() });
     }
   }
 
   async discoverNearbyPlayers(): Promise<NearbyPlayer[]> {
-    // Discover nearby players using various methods
-    const players: NearbyPlayer[] = [];
-    
-    // This would typically involve:
-    // 1. Bluetooth scanning
-    // 2. Local network scanning
-    // 3. NFC detection
-    // 4. WiFi Direct discovery
-    
-    return players;
+    // Players found over Bluetooth or NFC are added with addNearbyPlayer; the hub knows the LAN
+    if (this.connected) {
+      try {
+        const requestId = this.generateId();
+        const response = await this.request(requestId, { type: 'listPlayers', requestId });
+        if (response.type === 'players') {
+          response.players
+            .filter(player => player.playerId !== this.getCurrentUserId())
+            .forEach(player => this.updatePresence(player));
+        }
+      } catch (error) {
+        console.error('❌ Failed to list nearby players:', error);
+      }
+    }
+
+    return this.getNearbyPlayers();
+  }
+
+  async fetchRooms(): Promise<PictoChatRoom[]> {
+    if (this.connected) {
+      const requestId = this.generateId();
+      const response = await this.request(requestId, { type: 'listRooms', requestId });
+      if (response.type === 'rooms') {
+        response.rooms.forEach(room => this.updateRoom(room));
+      }
+    }
+    return this.getRooms();
   }
 
   async addNearbyPlayer(player: NearbyPlayer): Promise<void> {
@@ -204,6 +680,78 @@ export class PictoChat {
     console.log('👤 Nearby player removed:', playerId);
   }
 
+  private updatePresence(player: NearbyPlayer): void {
+    if (player.playerId !== this.getCurrentUserId()) {
+      this.nearbyPlayers.set(player.playerId, player);
+    }
+  }
+
+  private updateRoom(summary: PictoChatRoomSummary): PictoChatRoom {
+    const room = this.rooms.get(summary.roomId) ?? {
+      roomId: summary.roomId,
+      roomName: summary.roomName,
+      participants: [],
+      messages: [],
+      maxParticipants: summary.maxParticipants,
+      isPrivate: summary.isPrivate,
+      createdAt: summary.createdAt
+    };
+    room.roomName = summary.roomName;
+    room.participants = summary.participants;
+    room.maxParticipants = summary.maxParticipants;
+    room.ownerId = summary.ownerId;
+    if (summary.inviteCode) {
+      room.inviteCode = summary.inviteCode;
+    }
+    this.rooms.set(room.roomId, room);
+    return room;
+  }
+
+  private request(requestId: string, message: PictoChatClientMessage): Promise<PictoChatServerMessage> {
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pendingRequests.delete(requestId);
+        reject(new Error('PictoChat hub did not answer'));
+      }, this.requestTimeoutMs);
+      this.pendingRequests.set(requestId, { resolve, reject, timer });
+
+      this.send(message);
+    });
+  }
+
+  private resolveRequest(requestId: string, message: PictoChatServerMessage): void {
+    const pending = this.pendingRequests.get(requestId);
+    if (pending) {
+      clearTimeout(pending.timer);
+      this.pendingRequests.delete(requestId);
+      pending.resolve(message);
+    }
+  }
+
+  private send(message: PictoChatClientMessage): void {
+    this.socket?.send(JSON.stringify(message));
+  }
+
+  private createMessage(
+    messageType: PictoChatMessage['messageType'],
+    text: string,
+    drawing?: string,
+    id: string = this.generateId()
+  ): PictoChatMessage {
+    const message: PictoChatMessage = {
+      id,
+      sender: this.getCurrentUser(),
+      senderId: this.getCurrentUserId(),
+      message: text,
+      timestamp: Date.now(),
+      messageType
+    };
+    if (drawing !== undefined) {
+      message.drawing = drawing;
+    }
+    return message;
+  }
+
   getMessages(): PictoChatMessage[] {
     return this.messages;
   }
@@ -224,7 +772,12 @@ export class PictoChat {
   }
 
   isConnected(): boolean {
-    return this.isConnected;
+    return this.connected;
+  }
+
+  // Persist both to come back as the same player after the app restarts
+  getIdentity(): { playerId: string; resumeToken: string | null } {
+    return { playerId: this.profile.playerId, resumeToken: this.resumeToken };
   }
 
   private generateId(): string {
@@ -232,10 +785,10 @@ export class PictoChat {
   }
 
   private getCurrentUser(): string {
-    return 'gunnchOS3k'; // This would come from user profile
+    return this.profile.playerName;
   }
 
   private getCurrentUserId(): string {
-    return 'user123'; // This would come from user profile
+    return this.profile.playerId;
   }
 }
@@ -0,0 +1,28 @@
+// Session Tokens
+// Random bearer secrets the hubs hand to clients, compared in constant time
+
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+
+const SESSION_TOKEN_PATTERN = /^[0-9a-f]{48}$/;
+
+export function createSessionToken(): string {
+  return randomBytes(24).toString('hex');
+}
+
+export function sameSessionToken(candidate: unknown, expected: string): boolean {
+  if (typeof candidate !== 'string') {
+    return false;
+  }
+  const a = Buffer.from(candidate);
+  const b = Buffer.from(expected);
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+export function isSessionToken(value: unknown): value is string {
+  return typeof value === 'string' && SESSION_TOKEN_PATTERN.test(value);
+}
+
+// Names whoever holds a token without keeping the secret itself, e.g. as a ban list key
+export function sessionTokenIdentity(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
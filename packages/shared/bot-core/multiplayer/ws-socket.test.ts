@@ -0,0 +1,28 @@
+import { EventEmitter } from 'events';
+import { WebSocket } from 'ws';
+import { parseJsonObject, wrapWebSocket } from './ws-socket';
+
+describe('wrapWebSocket', () => {
+  it('closes only the connection whose message handler threw', () => {
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    const ws = Object.assign(new EventEmitter(), { readyState: WebSocket.OPEN, send: jest.fn(), close: jest.fn() });
+    const socket = wrapWebSocket(ws as unknown as WebSocket);
+    socket.onMessage(() => {
+      throw new TypeError('Cannot read properties of null');
+    });
+
+    expect(() => ws.emit('message', Buffer.from('null'))).not.toThrow();
+    expect(ws.close).toHaveBeenCalledTimes(1);
+    jest.restoreAllMocks();
+  });
+});
+
+describe('parseJsonObject', () => {
+  it('accepts JSON objects only', () => {
+    expect(parseJsonObject('{"type":"hello"}')).toEqual({ type: 'hello' });
+    expect(parseJsonObject('null')).toBeNull();
+    expect(parseJsonObject('42')).toBeNull();
+    expect(parseJsonObject('[]')).toBeNull();
+    expect(parseJsonObject('{')).toBeNull();
+  });
+});
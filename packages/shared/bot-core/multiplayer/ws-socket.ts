@@ -0,0 +1,45 @@
+// Server WebSocket Sockets
+// Adapts a ws connection to the ordered text channel the hub and matchmaking servers read, and
+// parses what clients send over it
+
+import { WebSocket } from 'ws';
+import type { PictoChatSocket } from './pictochat-protocol';
+
+export function wrapWebSocket(ws: WebSocket): PictoChatSocket {
+  return {
+    send: data => {
+      if (ws.readyState === WebSocket.OPEN) {
+        ws.send(data);
+      }
+    },
+    close: () => ws.close(),
+    onMessage: handler => {
+      // A frame the server chokes on costs that client its connection, not the whole process
+      const listener = (data: Buffer) => {
+        try {
+          handler(data.toString());
+        } catch (error) {
+          console.error('❌ Dropping client after a message it sent failed:', error);
+          ws.close();
+        }
+      };
+      ws.on('message', listener);
+      return () => ws.off('message', listener);
+    },
+    onClose: handler => {
+      ws.on('close', handler);
+      return () => ws.off('close', handler);
+    }
+  };
+}
+
+// Client frames are untrusted: JSON that is not an object, e.g. null, 42 or [], counts as unreadable
+export function parseJsonObject<T extends object>(data: string): T | null {
+  let value: unknown;
+  try {
+    value = JSON.parse(data);
+  } catch (error) {
+    return null;
+  }
+  return typeof value === 'object' && value !== null && !Array.isArray(value) ? value as T : null;
+}
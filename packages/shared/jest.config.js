@@ -0,0 +1,22 @@
+// Bot-core runs under Node; there is no tsconfig here, so ts-jest gets the compiler options inline
+module.exports = {
+  testEnvironment: 'node',
+  roots: ['<rootDir>/bot-core'],
+  testMatch: ['**/*.test.ts'],
+  transform: {
+    '^.+\\.ts$': [
+      'ts-jest',
+      {
+        tsconfig: {
+          target: 'ES2020',
+          module: 'CommonJS',
+          moduleResolution: 'node',
+          esModuleInterop: true,
+          strict: true,
+          skipLibCheck: true,
+          types: ['node', 'jest']
+        }
+      }
+    ]
+  }
+};